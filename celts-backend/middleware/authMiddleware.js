@@ -2,6 +2,9 @@ const jwt = require('jsonwebtoken');
 const crypto = require('crypto');
 const geoip = require('geoip-lite');
 const User = require('../models/User');
+const { ACCESS_COOKIE, readCookie } = require('../services/tokenService');
+const { isTwoFactorRequired } = require('../services/twoFactorService');
+const { resolveCapabilities } = require('../services/permissionService');
 
 let DeviceSession;
 const getDeviceSession = () => {
@@ -25,45 +28,80 @@ setInterval(() => {
 }, 60000); // Clean every minute
 
 
+// Access token from the httpOnly cookie, or a Bearer header for non-browser clients
+const readAccessToken = (req) => {
+  if (req.headers.authorization && req.headers.authorization.startsWith('Bearer')) {
+    return req.headers.authorization.split(' ')[1];
+  }
+  return readCookie(req, ACCESS_COOKIE);
+};
+
 const protect = async (req, res, next) => {
-  let token;
+  const token = readAccessToken(req);
+  if (!token) {
+    return res.status(401).json({ message: 'Not authorized, no token' });
+  }
 
+  let decoded;
   try {
-    if (req.headers.authorization && req.headers.authorization.startsWith('Bearer')) {
-      token = req.headers.authorization.split(' ')[1];
-      const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    decoded = jwt.verify(token, process.env.JWT_SECRET);
+  } catch (error) {
+    if (error.name === 'TokenExpiredError') {
+      return res.status(401).json({ message: 'Access token expired', code: 'TOKEN_EXPIRED' });
+    }
+    return res.status(401).json({ message: 'Not authorized, token failed' });
+  }
 
-      const user = await User.findById(decoded.id).select('-password');
-      if (!user) {
-        return res.status(401).json({ message: 'Not authorized, user not found' });
-      }
+  try {
+    const user = await User.findById(decoded.id).select('-password');
+    if (!user || user.deletedAt) {
+      return res.status(401).json({ message: 'Not authorized, user not found' });
+    }
+    if (user.isActive === false) {
+      return res.status(401).json({ message: 'Account is deactivated', code: 'ACCOUNT_INACTIVE' });
+    }
+    // logout-everywhere, password changes and deactivation bump tokenVersion
+    if ((decoded.tv || 0) !== (user.tokenVersion || 0)) {
+      return res.status(401).json({ message: 'Session has been revoked', code: 'TOKEN_REVOKED' });
+    }
+    // until an admin-issued password is replaced, only the auth routes are reachable
+    if (user.mustChangePassword && !req.originalUrl.startsWith('/api/auth/')) {
+      return res.status(403).json({
+        message: 'You must change your password before continuing',
+        code: 'PASSWORD_CHANGE_REQUIRED'
+      });
+    }
+    const capabilities = await resolveCapabilities(user);
+    if (isTwoFactorRequired(user, capabilities) && !user.twoFactor.enabled && !req.originalUrl.startsWith('/api/auth/')) {
+      return res.status(403).json({
+        message: 'Two-factor authentication must be set up before continuing',
+        code: 'TWO_FACTOR_SETUP_REQUIRED'
+      });
+    }
 
-      const deviceFingerprint = generateDeviceFingerprint(req);
+    const deviceFingerprint = generateDeviceFingerprint(req);
+    
+    // Check for active session if session token is provided
+    const sessionToken = req.headers['x-session-token'];
+    if (sessionToken) {
+      const DeviceSessionModel = getDeviceSession();
+      const session = await DeviceSessionModel.findOne({ 
+        sessionToken,
+        user: user._id,
+        status: 'active'
+      });
       
-      // Check for active session if session token is provided
-      const sessionToken = req.headers['x-session-token'];
-      if (sessionToken) {
-        const DeviceSessionModel = getDeviceSession();
-        const session = await DeviceSessionModel.findOne({ 
-          sessionToken,
-          user: user._id,
-          status: 'active'
-        });
-        
-        if (session && session.isValid()) {
-          await session.updateActivity();
-          req.deviceSession = session;
-        }
+      if (session && session.isValid()) {
+        await session.updateActivity();
+        req.deviceSession = session;
       }
-
-      req.user = user;
-      req.deviceFingerprint = deviceFingerprint;
-      req.clientIP = getClientIP(req);
-      return next();
     }
 
-    // If no header or startsWith not matched
-    return res.status(401).json({ message: 'Not authorized, no token' });
+    req.user = user;
+    req.capabilities = capabilities;
+    req.deviceFingerprint = deviceFingerprint;
+    req.clientIP = getClientIP(req);
+    return next();
   } catch (error) {
     console.error('Auth middleware error:', error);
     return res.status(401).json({ message: 'Not authorized, token failed' });
@@ -71,17 +109,23 @@ const protect = async (req, res, next) => {
 };
 
 /**
- * Middleware to restrict access based on user role.
- * @param {string[]} roles - Array of roles allowed (e.g., ['admin','teacher'])
+ * Whether the authenticated request holds `capability` (set by protect).
+ */
+const hasCapability = (req, capability) =>
+  Array.isArray(req.capabilities) && req.capabilities.includes(capability);
+
+/**
+ * Middleware to restrict access to users holding at least one of the given
+ * capabilities (see services/permissionService.js), e.g. requireCapability('tests.create').
  */
-const restrictTo = (roles = []) => (req, res, next) => {
+const requireCapability = (...capabilities) => (req, res, next) => {
   if (!req.user) {
     return res.status(403).json({ message: 'Access denied. User not authenticated.' });
   }
-  if (!roles.includes(req.user.role)) {
+  if (!capabilities.some((c) => hasCapability(req, c))) {
     return res
       .status(403)
-      .json({ message: `Access denied. Requires one of the following roles: ${roles.join(', ')}` });
+      .json({ message: `Access denied. Requires permission: ${capabilities.join(' or ')}`, code: 'MISSING_CAPABILITY' });
   }
   return next();
 };
@@ -352,7 +396,8 @@ const extractBrowserVersion = (userAgent) => {
 
 module.exports = { 
   protect, 
-  restrictTo, 
+  requireCapability,
+  hasCapability,
   examSecurity, 
   networkSecurity, 
   browserSecurity,
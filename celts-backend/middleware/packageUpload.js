@@ -0,0 +1,34 @@
+// middleware/packageUpload.js
+// Receives an import file (a QTI content package, an authoring template) as
+// multipart "file" into memory.
+const multer = require('multer');
+
+const MAX_MB = 50;
+
+function receiver(pattern, typeMessage) {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_MB * 1024 * 1024 },
+    fileFilter: (req, file, cb) => {
+      if (!pattern.test(file.originalname || '')) {
+        const err = new Error(typeMessage);
+        err.code = 'INVALID_FILE_TYPE';
+        return cb(err);
+      }
+      cb(null, true);
+    },
+  });
+
+  // multer errors (size, type) are the uploader's fault, not the server's
+  return (req, res, next) => {
+    upload.single('file')(req, res, (err) => {
+      if (err) return res.status(400).json({ message: err.code === 'LIMIT_FILE_SIZE' ? `File is larger than ${MAX_MB}MB` : err.message });
+      next();
+    });
+  };
+}
+
+const receivePackage = receiver(/\.zip$/i, 'Upload a QTI content package (.zip)');
+const receiveTemplate = receiver(/\.(md|markdown|txt|csv|xlsx)$/i, 'Upload a Markdown (.md), CSV or XLSX template');
+
+module.exports = { receivePackage, receiveTemplate };
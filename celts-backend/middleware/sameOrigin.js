@@ -0,0 +1,35 @@
+// middleware/sameOrigin.js
+// CSRF protection for cookie sessions. The browser attaches the auth cookies to
+// a form or fetch from any site, so a state-changing request that carries them
+// must come from the frontend: an Origin (or Referer) of CLIENT_ORIGIN or the
+// API itself, or the X-Requested-With header the frontend sends, which another
+// site cannot add without passing CORS. Bearer clients send no cookies and are
+// not affected.
+const { ACCESS_COOKIE, REFRESH_COOKIE, readCookie } = require('../services/tokenService');
+
+const UNSAFE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+// the SAML response is posted by the identity provider; it carries its own signed state
+const EXEMPT_PATHS = ['/api/auth/sso/callback'];
+
+function requestOrigin(req) {
+  if (req.headers.origin && req.headers.origin !== 'null') return req.headers.origin;
+  try {
+    return req.headers.referer ? new URL(req.headers.referer).origin : null;
+  } catch {
+    return null;
+  }
+}
+
+function sameOrigin(req, res, next) {
+  if (!UNSAFE_METHODS.includes(req.method) || EXEMPT_PATHS.includes(req.originalUrl.split('?')[0])) return next();
+  if (!readCookie(req, ACCESS_COOKIE) && !readCookie(req, REFRESH_COOKIE)) return next();
+  if (req.get('X-Requested-With')) return next();
+
+  const origin = requestOrigin(req);
+  const trusted = [process.env.CLIENT_ORIGIN || 'http://localhost:3000', `${req.protocol}://${req.get('host')}`];
+  if (origin && trusted.includes(origin)) return next();
+
+  return res.status(403).json({ message: 'Request did not come from the CELTS app', code: 'CROSS_SITE_REQUEST' });
+}
+
+module.exports = { sameOrigin };
@@ -0,0 +1,29 @@
+// migrateBatchMemberships.js
+// One-off: open a membership record for every student already on a batch roster,
+// dated from the batch's creation. Archived batches get theirs closed on the archive date.
+require('dotenv').config();
+const connectDB = require('./config/mongoDB');
+const Batch = require('./models/Batch');
+const BatchMembership = require('./models/BatchMembership');
+
+(async () => {
+  await connectDB();
+  const batches = await Batch.find({}).select('_id students createdAt archived archivedAt').lean();
+  let created = 0;
+  for (const batch of batches) {
+    const recorded = (await BatchMembership.find({ batch: batch._id }).distinct('student')).map(String);
+    const missing = (batch.students || []).map(String).filter((s) => !recorded.includes(s));
+    if (!missing.length) continue;
+    const closed = batch.archived ? { leftAt: batch.archivedAt || new Date(), leaveReason: 'term_archived' } : {};
+    await BatchMembership.insertMany(missing.map((student) => ({
+      batch: batch._id,
+      student,
+      joinedAt: batch.createdAt || new Date(0),
+      joinReason: 'migrated',
+      ...closed,
+    })));
+    created += missing.length;
+  }
+  console.log('Memberships created:', created);
+  process.exit(0);
+})();
@@ -0,0 +1,29 @@
+// migrateEvaluationFields.js
+// One-off: rename the legacy gemini* fields on Submission to the provider-neutral names.
+require('dotenv').config();
+const connectDB = require('./config/mongoDB');
+const Submission = require('./models/Submission');
+
+(async () => {
+  await connectDB();
+  const result = await Submission.collection.updateMany(
+    {
+      $or: [
+        { geminiEvaluation: { $exists: true } },
+        { geminiError: { $exists: true } },
+        { geminiWritingEvaluationSummary: { $exists: true } },
+        { geminiSpeakingEvaluationSummary: { $exists: true } },
+      ],
+    },
+    {
+      $rename: {
+        geminiEvaluation: 'aiEvaluation',
+        geminiError: 'aiError',
+        geminiWritingEvaluationSummary: 'writingEvaluationSummary',
+        geminiSpeakingEvaluationSummary: 'speakingEvaluationSummary',
+      },
+    }
+  );
+  console.log('Submissions migrated:', result.modifiedCount);
+  process.exit(0);
+})();
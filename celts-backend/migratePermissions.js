@@ -0,0 +1,21 @@
+// migratePermissions.js
+// One-off: turn the legacy facultyPermissions.canEditScores flag into a per-user
+// scores.override grant, then drop the old field.
+require('dotenv').config();
+const connectDB = require('./config/mongoDB');
+const User = require('./models/User');
+
+(async () => {
+  await connectDB();
+  const granted = await User.collection.updateMany(
+    { 'facultyPermissions.canEditScores': true },
+    { $addToSet: { 'permissions.granted': 'scores.override' } }
+  );
+  const cleaned = await User.collection.updateMany(
+    { facultyPermissions: { $exists: true } },
+    { $unset: { facultyPermissions: '' } }
+  );
+  console.log('Users granted scores.override:', granted.modifiedCount);
+  console.log('Legacy facultyPermissions removed:', cleaned.modifiedCount);
+  process.exit(0);
+})();
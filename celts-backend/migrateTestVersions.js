@@ -0,0 +1,36 @@
+// migrateTestVersions.js
+// One-off: tests from before versioning were visible to students as soon as they
+// were assigned, so each becomes published version 1 with its current content,
+// and the attempts and submissions made so far are pinned to that version.
+require('dotenv').config();
+const connectDB = require('./config/mongoDB');
+const TestSet = require('./models/TestSet');
+const TestVersion = require('./models/TestVersion');
+const TestAttempt = require('./models/TestAttempt');
+const Submission = require('./models/Submission');
+const { contentOf } = require('./services/testVersionService');
+
+(async () => {
+  await connectDB();
+  const tests = await TestSet.find({ version: { $in: [0, null] } }).setOptions({ withDeleted: true });
+  let migrated = 0;
+  for (const test of tests) {
+    if (await TestVersion.exists({ testSet: test._id })) continue;
+    await TestVersion.create({
+      ...contentOf(test),
+      testSet: test._id,
+      version: 1,
+      status: 'published',
+      changeNote: 'Content before versioning',
+      createdBy: test.createdBy,
+      publishedBy: test.createdBy,
+      publishedAt: test.createdAt || new Date(),
+    });
+    await TestSet.updateOne({ _id: test._id }, { $set: { version: 1, published: true } });
+    await TestAttempt.updateMany({ testSet: test._id, testVersion: null }, { $set: { testVersion: 1 } });
+    await Submission.updateMany({ testSet: test._id, testVersion: null }, { $set: { testVersion: 1 } });
+    migrated += 1;
+  }
+  console.log('Tests migrated to version 1:', migrated);
+  process.exit(0);
+})();
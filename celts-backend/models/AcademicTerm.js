@@ -0,0 +1,25 @@
+const mongoose = require('mongoose');
+
+// An academic year or semester that batches belong to. Archiving a term makes
+// its batches read-only and hides them from the default lists.
+const AcademicTermSchema = new mongoose.Schema({
+  name: { type: String, required: true, unique: true, trim: true }, // e.g. "2025-26"
+  startDate: { type: Date, default: null },
+  endDate: { type: Date, default: null },
+
+  status: {
+    type: String,
+    enum: ['active', 'archived'],
+    default: 'active',
+  },
+  archivedAt: { type: Date, default: null },
+  archivedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+
+  // set once its students have been promoted; the term can't be reopened after that
+  promotedTo: { type: mongoose.Schema.Types.ObjectId, ref: 'AcademicTerm', default: null },
+  promotedAt: { type: Date, default: null },
+
+  createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+}, { timestamps: true });
+
+module.exports = mongoose.model('AcademicTerm', AcademicTermSchema);
@@ -0,0 +1,45 @@
+const mongoose = require('mongoose');
+
+// Autosaved, not-yet-submitted answers of an in-progress attempt (one per attempt).
+// Restored by /security/session/recover after a crash, reload or network drop.
+const AttemptDraftSchema = new mongoose.Schema({
+  testAttempt: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'TestAttempt',
+    required: true,
+  },
+
+  student: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+
+  testSet: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'TestSet',
+    required: true,
+  },
+
+  // same shape the runner submits: { [questionId]: answer }
+  answers: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {},
+  },
+
+  currentIndex: {
+    type: Number,
+    default: 0,
+  },
+
+  // client timestamp of the save; older saves arriving late are ignored
+  revision: {
+    type: Number,
+    default: 0,
+  },
+
+}, { timestamps: true, minimize: false });
+
+AttemptDraftSchema.index({ testAttempt: 1 }, { unique: true });
+
+module.exports = mongoose.model('AttemptDraft', AttemptDraftSchema);
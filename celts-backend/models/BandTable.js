@@ -0,0 +1,40 @@
+const mongoose = require('mongoose');
+
+// Raw-score-to-band conversion table for auto-graded reading/listening tests.
+// A row gives the band for every raw score >= minScore (up to the next row).
+const BandRowSchema = new mongoose.Schema(
+  {
+    minScore: { type: Number, required: true, min: 0 },
+    band: { type: Number, required: true, min: 0, max: 9 },
+  },
+  { _id: false }
+);
+
+const BandTableSchema = new mongoose.Schema(
+  {
+    name: { type: String, required: true, trim: true },
+
+    // built-in tables: 'academic_reading', 'general_reading', 'listening'
+    key: { type: String, default: null },
+
+    skill: {
+      type: String,
+      enum: ['reading', 'listening'],
+      required: true,
+    },
+
+    // raw scores are out of this; tests with a different total are scaled to it
+    totalQuestions: { type: Number, default: 40, min: 1 },
+
+    rows: { type: [BandRowSchema], default: [] },
+
+    builtIn: { type: Boolean, default: false },
+    createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+    updatedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  },
+  { timestamps: true }
+);
+
+BandTableSchema.index({ key: 1 }, { unique: true, partialFilterExpression: { key: { $type: 'string' } } });
+
+module.exports = mongoose.model('BandTable', BandTableSchema);
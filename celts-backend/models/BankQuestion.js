@@ -0,0 +1,32 @@
+const mongoose = require('mongoose');
+const { QuestionSchema } = require('./TestSet');
+
+const SKILLS = ['reading', 'listening', 'writing', 'speaking'];
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+// Same question fields a test embeds, minus the test-specific placement/link fields
+const BankQuestionSchema = QuestionSchema.clone();
+BankQuestionSchema.remove(['sectionId', 'bankQuestion', 'bankVersion', 'timeLimitSeconds']);
+
+BankQuestionSchema.add({
+  skill: { type: String, enum: SKILLS, required: true },
+  difficulty: { type: String, enum: DIFFICULTIES, default: 'medium' },
+  cefrLevel: { type: String, enum: [...CEFR_LEVELS, null], default: null },
+  tags: { type: [String], default: [] }, // topic tags, stored lowercase
+
+  // bumped on every content edit; tests record the version they copied
+  version: { type: Number, default: 1 },
+  usageCount: { type: Number, default: 0 },
+
+  createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  updatedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+});
+
+BankQuestionSchema.index({ skill: 1, difficulty: 1, cefrLevel: 1 });
+BankQuestionSchema.index({ tags: 1 });
+
+module.exports = mongoose.model('BankQuestion', BankQuestionSchema);
+module.exports.SKILLS = SKILLS;
+module.exports.DIFFICULTIES = DIFFICULTIES;
+module.exports.CEFR_LEVELS = CEFR_LEVELS;
@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const softDelete = require('./softDelete');
 
 const BatchSchema = new mongoose.Schema({
   name: { type: String, required: true, unique: true }, // e.g. "MBA-1A"
@@ -7,7 +8,16 @@ const BatchSchema = new mongoose.Schema({
   section: { type: String, required: false }, // e.g. "A"
   faculty: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }], // Faculties assigned to this batch
   students: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }], // Students in this batch
+  // a student has one regular batch at a time but may also sit in any number of electives
+  elective: { type: Boolean, default: false },
+  term: { type: mongoose.Schema.Types.ObjectId, ref: 'AcademicTerm', default: null },
+  // archived with its term: read-only, hidden from default lists, roster kept as it was
+  archived: { type: Boolean, default: false, index: true },
+  archivedAt: { type: Date, default: null },
+  promotedTo: { type: mongoose.Schema.Types.ObjectId, ref: 'Batch', default: null }, // next year's batch
   createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' } // Admin who created
 }, { timestamps: true });
 
+BatchSchema.plugin(softDelete);
+
 module.exports = mongoose.model('Batch', BatchSchema);
@@ -0,0 +1,25 @@
+const mongoose = require('mongoose');
+
+// One stretch of time a student spent in a batch. Batch.students is the current
+// roster; these records keep when each student joined and left, so results can
+// be attributed to the batch a student was in on a given date.
+const BatchMembershipSchema = new mongoose.Schema({
+  batch: { type: mongoose.Schema.Types.ObjectId, ref: 'Batch', required: true },
+  student: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+
+  joinedAt: { type: Date, default: Date.now },
+  leftAt: { type: Date, default: null }, // null while the student is still in the batch
+
+  // assigned | moved | import | sso | invitation | promoted | migrated
+  joinReason: { type: String, default: 'assigned' },
+  // removed | moved | term_archived | batch_deleted | user_deleted
+  leaveReason: { type: String, default: null },
+
+  addedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  removedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+}, { timestamps: true });
+
+BatchMembershipSchema.index({ student: 1, joinedAt: 1 });
+BatchMembershipSchema.index({ batch: 1, leftAt: 1 });
+
+module.exports = mongoose.model('BatchMembership', BatchMembershipSchema);
@@ -25,12 +25,18 @@ const ExamSecuritySchema = new mongoose.Schema({
     required: true,
   },
 
+  // Per-section / per-question clocks for targets with their own limit.
+  // An entry is locked once endTime is set; answers holds what was accepted
+  // for it at that point, and anything submitted later is discarded.
   questionTimings: [{
     questionId: String,
+    timeLimit: Number, // seconds
     timeSpent: Number, 
     startTime: Date,
     endTime: Date,
+    deadline: Date,
     autoSubmitted: Boolean,
+    answers: mongoose.Schema.Types.Mixed,
     violations: [{
       type: String,
       timestamp: Date,
@@ -41,11 +47,13 @@ const ExamSecuritySchema = new mongoose.Schema({
   sectionTimings: [{
     sectionId: String,
     sectionName: String,
-    timeLimit: Number, 
+    timeLimit: Number, // seconds
     timeSpent: Number, 
     startTime: Date,
     endTime: Date,
+    deadline: Date,
     autoSubmitted: Boolean,
+    answers: mongoose.Schema.Types.Mixed, // { [questionId]: answer }
     questionsCompleted: Number,
     questionsTotal: Number,
   }],
@@ -145,6 +153,7 @@ const ExamSecuritySchema = new mongoose.Schema({
   timingSecurity: {
     serverStartTime: Date,
     clientStartTime: Date,
+    deadline: Date, // mirrors TestAttempt.deadlineAt
     timeDrift: Number,
     timeViolations: Number,
     autoSubmissions: [{
@@ -0,0 +1,78 @@
+const mongoose = require('mongoose');
+
+// A one-time onboarding link issued by an admin or faculty member. The invitee
+// picks their own password when accepting; role, systemId and batch come from here.
+const InvitationSchema = new mongoose.Schema({
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+  },
+
+  name: {
+    type: String,
+    default: '',
+  },
+
+  role: {
+    type: String,
+    enum: ['admin', 'faculty', 'student'],
+    required: true,
+  },
+
+  // institution id the account is created with
+  systemId: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+
+  batch: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Batch',
+    default: null,
+  },
+
+  // sha256 of the token in the link; the raw token is only ever in the link
+  tokenHash: {
+    type: String,
+    required: true,
+  },
+
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+
+  // 'expired' is derived from expiresAt, never stored
+  status: {
+    type: String,
+    enum: ['pending', 'accepted', 'revoked'],
+    default: 'pending',
+  },
+
+  invitedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+
+  acceptedAt: {
+    type: Date,
+    default: null,
+  },
+
+  acceptedUser: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+  },
+
+}, { timestamps: true });
+
+InvitationSchema.index({ tokenHash: 1 }, { unique: true });
+InvitationSchema.index({ email: 1, status: 1 });
+InvitationSchema.index({ invitedBy: 1, createdAt: -1 });
+
+module.exports = mongoose.model('Invitation', InvitationSchema);
@@ -0,0 +1,53 @@
+const mongoose = require('mongoose');
+
+// A student's run through a full mock test (TestSet type 'mock'). Each module
+// is taken as its own test and produces its own Submission; this is the parent
+// result those submissions point to (Submission.mockResult).
+const MockModuleResultSchema = new mongoose.Schema(
+  {
+    skill: {
+      type: String,
+      enum: ['listening', 'reading', 'writing', 'speaking'],
+      required: true,
+    },
+    testSet: { type: mongoose.Schema.Types.ObjectId, ref: 'TestSet', required: true },
+    status: {
+      type: String,
+      enum: ['pending', 'in_progress', 'submitted', 'graded'],
+      default: 'pending',
+    },
+    submission: { type: mongoose.Schema.Types.ObjectId, ref: 'Submission', default: null },
+    bandScore: { type: Number, default: null },
+    startedAt: { type: Date, default: null },
+    submittedAt: { type: Date, default: null },
+  },
+  { _id: false }
+);
+
+const MockResultSchema = new mongoose.Schema(
+  {
+    student: { type: mongoose.Schema.Types.ObjectId, ref: 'User', required: true },
+    mockTest: { type: mongoose.Schema.Types.ObjectId, ref: 'TestSet', required: true },
+    attemptNumber: { type: Number, default: 1 },
+
+    modules: { type: [MockModuleResultSchema], default: [] },
+    // index of the module the student takes next
+    currentModule: { type: Number, default: 0 },
+
+    status: {
+      type: String,
+      enum: ['in_progress', 'awaiting_grading', 'completed'],
+      default: 'in_progress',
+    },
+
+    // official IELTS overall band, set once every module has a band
+    overallBand: { type: Number, default: null },
+    completedAt: { type: Date, default: null },
+  },
+  { timestamps: true }
+);
+
+MockResultSchema.index({ student: 1, mockTest: 1, attemptNumber: -1 });
+MockResultSchema.index({ 'modules.submission': 1 });
+
+module.exports = mongoose.model('MockResult', MockResultSchema);
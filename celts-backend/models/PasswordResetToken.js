@@ -0,0 +1,35 @@
+const mongoose = require('mongoose');
+
+// A forgot-password link. Single use; requesting a new one voids older ones.
+const PasswordResetTokenSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+
+  // sha256 of the token in the emailed link
+  tokenHash: {
+    type: String,
+    required: true,
+  },
+
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+
+  usedAt: {
+    type: Date,
+    default: null,
+  },
+
+  requestedByIp: String,
+
+}, { timestamps: true });
+
+PasswordResetTokenSchema.index({ tokenHash: 1 }, { unique: true });
+PasswordResetTokenSchema.index({ user: 1, usedAt: 1 });
+PasswordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+module.exports = mongoose.model('PasswordResetToken', PasswordResetTokenSchema);
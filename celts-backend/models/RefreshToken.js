@@ -0,0 +1,55 @@
+const mongoose = require('mongoose');
+
+// One refresh token of a login session. Tokens are single-use: each refresh
+// revokes the presented token and issues its successor in the same family.
+const RefreshTokenSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+
+  // sha256 of the cookie value; the raw token is never stored
+  tokenHash: {
+    type: String,
+    required: true,
+  },
+
+  // shared by every token rotated from the same login
+  family: {
+    type: String,
+    required: true,
+  },
+
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+
+  revokedAt: {
+    type: Date,
+    default: null,
+  },
+
+  // 'rotated' | 'logout' | 'password_change' | 'deactivated' | 'reuse_detected' | ...
+  revokedReason: {
+    type: String,
+    default: null,
+  },
+
+  replacedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'RefreshToken',
+    default: null,
+  },
+
+  createdByIp: String,
+  userAgent: String,
+
+}, { timestamps: true });
+
+RefreshTokenSchema.index({ tokenHash: 1 }, { unique: true });
+RefreshTokenSchema.index({ user: 1, revokedAt: 1 });
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+module.exports = mongoose.model('RefreshToken', RefreshTokenSchema);
@@ -0,0 +1,51 @@
+const mongoose = require('mongoose');
+
+// A named set of capabilities (see services/permissionService.js). The three
+// system roles hold the defaults for admin/faculty/student; custom roles are
+// extra bundles an admin hands to individual users of their base role.
+const RoleSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+    match: /^[a-z0-9_-]+$/,
+  },
+
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+
+  description: {
+    type: String,
+    default: '',
+  },
+
+  // the only kind of user this role can be given to
+  baseRole: {
+    type: String,
+    enum: ['admin', 'faculty', 'student'],
+    required: true,
+  },
+
+  // true for the admin/faculty/student defaults, which can be edited but not removed
+  system: {
+    type: Boolean,
+    default: false,
+  },
+
+  capabilities: [{ type: String }],
+
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+  },
+
+}, { timestamps: true });
+
+RoleSchema.index({ key: 1 }, { unique: true });
+
+module.exports = mongoose.model('Role', RoleSchema);
@@ -31,10 +31,48 @@ const StudentStatsSchema = new mongoose.Schema(
     writingExaminerSummary: { type: String, default: null },
     speakingExaminerSummary: { type: String, default: null },
 
+    // latest per-criterion bands for the AI-graded skills
+    writingCriteria: {
+      taskAchievement: { type: Number, default: null },
+      coherenceCohesion: { type: Number, default: null },
+      lexicalResource: { type: Number, default: null },
+      grammaticalRange: { type: Number, default: null },
+    },
+    speakingCriteria: {
+      fluencyCoherence: { type: Number, default: null },
+      lexicalResource: { type: Number, default: null },
+      grammaticalRange: { type: Number, default: null },
+      pronunciation: { type: Number, default: null },
+    },
+
     // overall band (average of available bands)
     overallBand: { type: Number, default: null },
 
+    // latest completed full mock (overall by the official rounding rule)
+    mockOverallBand: { type: Number, default: null },
+    lastMockResult: { type: mongoose.Schema.Types.ObjectId, ref: 'MockResult', default: null },
+    lastMockCompletedAt: { type: Date, default: null },
+
     hasManualOverride: { type: Boolean, default: false },
+
+    // bands as they stood when each past term was closed, with the batch the
+    // student was in at the time
+    history: [
+      {
+        term: { type: mongoose.Schema.Types.ObjectId, ref: 'AcademicTerm' },
+        termName: { type: String },
+        batch: { type: mongoose.Schema.Types.ObjectId, ref: 'Batch' },
+        batchName: { type: String },
+        readingBand: { type: Number, default: null },
+        listeningBand: { type: Number, default: null },
+        writingBand: { type: Number, default: null },
+        speakingBand: { type: Number, default: null },
+        overallBand: { type: Number, default: null },
+        mockOverallBand: { type: Number, default: null },
+        closedAt: { type: Date, default: Date.now },
+        _id: false,
+      },
+    ],
   },
   {
     timestamps: true,
@@ -13,17 +13,47 @@ const SubmissionSchema = new mongoose.Schema({
     required: true,
   },
 
+  // test version the answers were given and are graded against; null = before versioning
+  testVersion: {
+    type: Number,
+    default: null,
+  },
+
   skill: {
     type: String,
     enum: ['reading', 'listening', 'writing', 'speaking'],
     required: true,
   },
 
+  // the student's batch when the test was taken; survives promotion to a new batch
+  batch: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Batch',
+    default: null,
+  },
+
+  // set when this is one module of a full mock
+  mockResult: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'MockResult',
+    default: null,
+  },
+
   response: {
     type: mongoose.Schema.Types.Mixed,
     required: true,
   },
 
+  // speaking: one recording per prompt, deleted once graded
+  recordings: [
+    {
+      _id: false,
+      questionId: { type: String, required: true },
+      path: { type: String, required: true },
+    },
+  ],
+
+  // the single recording of speaking submissions made before per-prompt recordings
   mediaPath: {
     type: String,
     default: null,
@@ -46,6 +76,8 @@ const SubmissionSchema = new mongoose.Schema({
   incorrectCount: { type: Number, default: 0 },
 
   bandScore: { type: Number, default: null },
+  // conversion table an auto-graded band came from (reading/listening)
+  bandTable: { type: mongoose.Schema.Types.ObjectId, ref: 'BandTable', default: null },
 
   originalBandScore: { type: Number, default: null }, // AI band or first band before override
     overrideReason: { type: String, default: "" },
@@ -57,22 +89,38 @@ const SubmissionSchema = new mongoose.Schema({
     isOverridden: { type: Boolean, default: false },
     overriddenAt: { type: Date, default: null },
 
-  // Gemini fields
-  geminiEvaluation: {
+  // AI evaluation fields (provider-neutral)
+  aiEvaluation: {
     type: mongoose.Schema.Types.Mixed,
     default: null,
   },
 
-  geminiError: {
+  aiError: {
     type: String,
     default: null,
   },
 
-  geminiWritingEvaluationSummary: {
+  evaluatedBy: {
+    provider: { type: String, default: null }, // "openai" | "gemini" | "mock"
+    model: { type: String, default: null },
+  },
+
+  // Validated IELTS criterion bands (writing uses the first four, speaking
+  // uses fluencyCoherence / lexicalResource / grammaticalRange / pronunciation)
+  criteriaBands: {
+    taskAchievement: { type: Number, min: 0, max: 9, default: null },
+    coherenceCohesion: { type: Number, min: 0, max: 9, default: null },
+    lexicalResource: { type: Number, min: 0, max: 9, default: null },
+    grammaticalRange: { type: Number, min: 0, max: 9, default: null },
+    fluencyCoherence: { type: Number, min: 0, max: 9, default: null },
+    pronunciation: { type: Number, min: 0, max: 9, default: null },
+  },
+
+  writingEvaluationSummary: {
     type: String,
     default: null,
   },
-  geminiSpeakingEvaluationSummary: {
+  speakingEvaluationSummary: {
     type: String,
     default: null,
   },
@@ -18,6 +18,12 @@ const TestAttemptSchema = new mongoose.Schema({
     default: 1,
   },
 
+  // the published version of the test this attempt is served (see models/TestVersion)
+  testVersion: {
+    type: Number,
+    default: null,
+  },
+
   status: {
     type: String,
     enum: ['started', 'completed', 'abandoned', 'violation_exit'],
@@ -34,6 +40,23 @@ const TestAttemptSchema = new mongoose.Schema({
     default: null,
   },
 
+  // server-side end of the exam window (startedAt + time limit); null = untimed
+  deadlineAt: {
+    type: Date,
+    default: null,
+  },
+
+  // seed + resulting question/option order when the test shuffles (see utils/attemptLayout)
+  shuffleSeed: {
+    type: String,
+    default: null,
+  },
+
+  layout: {
+    questionOrder: { type: [String], default: undefined },
+    optionOrder: { type: mongoose.Schema.Types.Mixed, default: undefined },
+  },
+
   submissionId: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Submission',
@@ -84,6 +107,7 @@ const TestAttemptSchema = new mongoose.Schema({
 // Index for efficient queries
 TestAttemptSchema.index({ student: 1, testSet: 1 });
 TestAttemptSchema.index({ student: 1, testSet: 1, status: 1 });
+TestAttemptSchema.index({ status: 1, deadlineAt: 1 }); // expired-attempt sweep
 
 // Prevent multiple active attempts for same student/test combination
 TestAttemptSchema.index(
@@ -1,4 +1,6 @@
 const mongoose = require('mongoose');
+const softDelete = require('./softDelete');
+const { sanitizeRichText } = require('../utils/richText');
 
 const OptionSchema = new mongoose.Schema(
   {
@@ -11,17 +13,42 @@ const QuestionSchema = new mongoose.Schema(
   {
     questionType: {
       type: String,
-      enum: ['mcq', 'writing', 'speaking'],
+      // tfng / matching_headings / map_labelling are single-choice over `options`
+      // like mcq; gap_fill / sentence_completion take a typed answer
+      enum: [
+        'mcq',
+        'multi_select',
+        'tfng',
+        'matching_headings',
+        'map_labelling',
+        'gap_fill',
+        'sentence_completion',
+        'writing',
+        'speaking',
+      ],
       required: true,
     },
-    prompt: { type: String, required: true },
+    // rich text (utils/richText.js), as are the passages below
+    prompt: { type: String, required: true, set: sanitizeRichText },
     options: { type: [OptionSchema], default: undefined },
     correctIndex: { type: Number, default: undefined },
 
+    // multi_select: every correct option, and how many the student may pick
+    correctIndexes: { type: [Number], default: undefined },
+    selectCount: { type: Number, default: undefined },
+
+    // gap_fill / sentence_completion (wordLimit below caps the answer length)
+    acceptedAnswers: { type: [String], default: undefined },
+    caseSensitive: { type: Boolean, default: undefined },
+    spellingTolerance: { type: Number, default: undefined }, // edits still accepted; 0 = exact
+
+    // map_labelling: the map or diagram the options label
+    imageUrl: { type: String, default: undefined },
+
     // for reading / listening section (for multi-passage / multi-audio)
     sectionId: { type: String, default: null },
 
-    // for writing
+    // for writing (wordLimit also applies to gap_fill / sentence_completion)
     writingType: {
       type: String,
       enum: ['story', 'email', 'letter', 'summary', 'other'],
@@ -37,10 +64,17 @@ const QuestionSchema = new mongoose.Schema(
       default: undefined,
     }, // oral = live answer, audio=upload/record, video=record video
     recordLimitSeconds: { type: Number, default: undefined },
+    // time allowed on the prompt itself (speaking); the prompt locks when it runs out
+    timeLimitSeconds: { type: Number, default: undefined },
     playAllowed: { type: Number, default: undefined },
 
     marks: { type: Number, default: 1 },
     explanation: { type: String, default: '' },
+
+    // set when the question was pulled from the question bank; the content
+    // above is a snapshot of that bank version
+    bankQuestion: { type: mongoose.Schema.Types.ObjectId, ref: 'BankQuestion', default: null },
+    bankVersion: { type: Number, default: undefined },
   },
   { timestamps: true, _id: true }
 );
@@ -50,7 +84,8 @@ const ReadingSectionSchema = new mongoose.Schema(
   {
     id: { type: String, required: true }, 
     title: { type: String, default: '' },
-    passage: { type: String, required: true },
+    passage: { type: String, required: true, set: sanitizeRichText },
+    timeLimitMinutes: { type: Number, default: 0 }, // 0 = only the test limit applies
   },
   { _id: false }
 );
@@ -61,6 +96,21 @@ const ListeningSectionSchema = new mongoose.Schema(
     title: { type: String, default: '' },
     audioUrl: { type: String, required: true },
     listenLimit: { type: Number, default: 1 },
+    timeLimitMinutes: { type: Number, default: 0 },
+  },
+  { _id: false }
+);
+
+// one module of a full mock: a regular single-skill test run in sequence
+const MockModuleSchema = new mongoose.Schema(
+  {
+    skill: {
+      type: String,
+      enum: ['listening', 'reading', 'writing', 'speaking'],
+      required: true,
+    },
+    testSet: { type: mongoose.Schema.Types.ObjectId, ref: 'TestSet', required: true },
+    instructions: { type: String, default: '' },
   },
   { _id: false }
 );
@@ -72,11 +122,14 @@ const TestSetSchema = new mongoose.Schema(
 
     type: {
       type: String,
-      enum: ['reading', 'listening', 'writing', 'speaking'],
+      enum: ['reading', 'listening', 'writing', 'speaking', 'mock'],
       required: true,
     },
 
-    passage: { type: String, default: '' },
+    // type 'mock' only: the four modules, in the order they are taken
+    modules: { type: [MockModuleSchema], default: undefined },
+
+    passage: { type: String, default: '', set: sanitizeRichText },
 
     audioUrl: { type: String, default: '' }, 
     listenLimit: { type: Number, default: 1 }, 
@@ -90,6 +143,20 @@ const TestSetSchema = new mongoose.Schema(
 
     timeLimitMinutes: { type: Number, default: 0 },
 
+    // reading/listening raw-to-band table; null = the built-in default for the skill
+    bandTable: { type: mongoose.Schema.Types.ObjectId, ref: 'BandTable', default: null },
+
+    // per-attempt randomisation (questions stay inside their section)
+    shuffleQuestions: { type: Boolean, default: false },
+    shuffleOptions: { type: Boolean, default: false },
+
+    // AI grading provider for writing/speaking; null = deployment default
+    gradingProvider: {
+      type: String,
+      enum: ['openai', 'gemini', 'mock', null],
+      default: null,
+    },
+
     // scheduling
     startTime: { type: Date, default: null },
     endTime: { type: Date, default: null },
@@ -100,9 +167,40 @@ const TestSetSchema = new mongoose.Schema(
 
     // metadata
     createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+
+    // versions (see models/TestVersion.js): the content above is the live version,
+    // or the first draft while nothing is published yet. Students only see a test
+    // once a version is published.
+    version: { type: Number, default: 0 }, // 0 = never published
     published: { type: Boolean, default: false },
+    // drafts must be approved by another reviewer before they can be published
+    reviewRequired: { type: Boolean, default: false },
   },
   { timestamps: true }
 );
 
+TestSetSchema.plugin(softDelete);
+
+TestSetSchema.index({ 'questions.bankQuestion': 1 });
+
+// the fields a version freezes; scheduling and assignment stay on the test
+const CONTENT_FIELDS = [
+  'title',
+  'description',
+  'modules',
+  'passage',
+  'audioUrl',
+  'listenLimit',
+  'readingSections',
+  'listeningSections',
+  'questions',
+  'timeLimitMinutes',
+  'bandTable',
+  'shuffleQuestions',
+  'shuffleOptions',
+  'gradingProvider',
+];
+
 module.exports = mongoose.model('TestSet', TestSetSchema);
+module.exports.QuestionSchema = QuestionSchema;
+module.exports.CONTENT_FIELDS = CONTENT_FIELDS;
@@ -0,0 +1,41 @@
+const mongoose = require('mongoose');
+const TestSet = require('./TestSet');
+const { CONTENT_FIELDS } = require('./TestSet');
+
+// draft -> in_review -> approved -> published -> superseded; a reviewer sending
+// a draft back returns it to 'draft'. At most one version per test is open
+// (draft, in_review or approved) at a time.
+const STATUSES = ['draft', 'in_review', 'approved', 'published', 'superseded'];
+const OPEN_STATUSES = ['draft', 'in_review', 'approved'];
+
+// A numbered copy of a test's content. Published versions are never edited, so
+// submissions can always be regraded against what the student actually saw.
+const TestVersionSchema = TestSet.schema.pick(CONTENT_FIELDS);
+
+TestVersionSchema.add({
+  testSet: { type: mongoose.Schema.Types.ObjectId, ref: 'TestSet', required: true },
+  version: { type: Number, required: true },
+  status: { type: String, enum: STATUSES, default: 'draft' },
+  changeNote: { type: String, default: '' },
+
+  createdBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
+  updatedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  // everyone who edited this draft; none of them may review it
+  editors: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }],
+
+  submittedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  submittedAt: { type: Date, default: null },
+  reviewedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  reviewedAt: { type: Date, default: null },
+  reviewNote: { type: String, default: '' },
+  publishedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  publishedAt: { type: Date, default: null },
+});
+
+TestVersionSchema.index({ testSet: 1, version: 1 }, { unique: true });
+TestVersionSchema.index({ testSet: 1, status: 1 });
+TestVersionSchema.index({ 'questions.bankQuestion': 1 });
+
+module.exports = mongoose.model('TestVersion', TestVersionSchema);
+module.exports.STATUSES = STATUSES;
+module.exports.OPEN_STATUSES = OPEN_STATUSES;
@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const softDelete = require('./softDelete');
 const bcrypt = require('bcryptjs');
 
 const UserSchema = new mongoose.Schema({
@@ -7,16 +8,51 @@ const UserSchema = new mongoose.Schema({
   systemId:{ type: String, required: true, unique: true },
   password: { type: String, required: true },
   role: { type: String, enum: ['admin', 'faculty', 'student'], required: true },
-  facultyPermissions: { canEditScores: { type: Boolean, default: false } },
+  // extra capabilities on top of the base role (services/permissionService.js)
+  customRoles: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Role' }],
+  permissions: {
+    granted: [{ type: String }],
+    revoked: [{ type: String }]
+  },
   cohort: { type: String, default: '' },
   assignedFaculty: { type: mongoose.Schema.Types.ObjectId, ref: 'User' },
   students: [{ type: mongoose.Schema.Types.ObjectId, ref: 'User' }],
-  batches: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Batch' }] // new
+  batches: [{ type: mongoose.Schema.Types.ObjectId, ref: 'Batch' }], // new
+  isActive: { type: Boolean, default: true },
+  // set for admin-issued passwords; the user can only change their password until cleared
+  mustChangePassword: { type: Boolean, default: false },
+  passwordChangedAt: { type: Date, default: null },
+  // bumped to invalidate every access token issued before it
+  tokenVersion: { type: Number, default: 0 },
+  // TOTP second factor (admin/faculty). Secrets are encrypted and never selected by default.
+  twoFactor: {
+    enabled: { type: Boolean, default: false },
+    required: { type: Boolean, default: false }, // set by an admin
+    enabledAt: { type: Date, default: null },
+    secret: { type: String, select: false },
+    pendingSecret: { type: String, select: false }, // enrolment not yet confirmed
+    recoveryCodes: { type: [String], select: false }, // sha256 hashes, removed as used
+    lastUsedStep: { type: Number, default: 0, select: false }
+  },
+  // identity at the university IdP, set on first single sign-on
+  sso: {
+    provider: { type: String, default: null }, // "oidc" | "saml"
+    subject: { type: String, default: null },
+    lastLoginAt: { type: Date, default: null }
+  }
 }, { timestamps: true });
 
+UserSchema.plugin(softDelete);
+
+UserSchema.index(
+  { 'sso.provider': 1, 'sso.subject': 1 },
+  { unique: true, partialFilterExpression: { 'sso.subject': { $type: 'string' } } }
+);
+
 
 UserSchema.pre('save', async function (next) {
   if (!this.isModified('password')) return next();
+  if (!this.isNew) this.passwordChangedAt = new Date();
   const salt = await bcrypt.genSalt(10);
   this.password = await bcrypt.hash(this.password, salt);
   next();
@@ -29,6 +65,12 @@ UserSchema.methods.matchPassword = function (enteredPassword) {
 UserSchema.methods.toJSON = function () {
   const obj = this.toObject();
   delete obj.password;
+  if (obj.twoFactor) {
+    delete obj.twoFactor.secret;
+    delete obj.twoFactor.pendingSecret;
+    delete obj.twoFactor.recoveryCodes;
+    delete obj.twoFactor.lastUsedStep;
+  }
   return obj;
 };
 
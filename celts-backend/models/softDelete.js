@@ -0,0 +1,37 @@
+const mongoose = require('mongoose');
+
+// Schema plugin for documents that go to the recycle bin instead of being
+// deleted (User, Batch, TestSet). Reads skip deleted documents unless the query
+// names `deletedAt` itself or is run with setOptions({ withDeleted: true }).
+// Plain lookups by id (findById, populate) still find them, so old submissions
+// keep their student and test, and the recycle bin can restore by id.
+
+const isIdLookup = (filter) => {
+  const keys = Object.keys(filter);
+  if (keys.length !== 1 || keys[0] !== '_id') return false;
+  const id = filter._id;
+  if (id === null || typeof id !== 'object' || id instanceof mongoose.Types.ObjectId) return true;
+  return Object.keys(id).length === 1 && Array.isArray(id.$in);
+};
+
+function excludeDeleted() {
+  if (this.getOptions().withDeleted) return;
+  const filter = this.getFilter();
+  if ('deletedAt' in filter || isIdLookup(filter)) return;
+  this.where({ deletedAt: null });
+}
+
+module.exports = function softDelete(schema) {
+  schema.add({
+    deletedAt: { type: Date, default: null, index: true },
+    deletedBy: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+  });
+
+  schema.pre(['find', 'findOne', 'countDocuments', 'distinct'], excludeDeleted);
+
+  schema.pre('aggregate', function () {
+    const first = this.pipeline()[0];
+    if (first && first.$match && 'deletedAt' in first.$match) return;
+    this.pipeline().unshift({ $match: { deletedAt: null } });
+  });
+};
@@ -1,18 +1,18 @@
 // routes/admin.js
 const express = require('express');
-const { protect, restrictTo } = require('../middleware/authMiddleware');
+const { protect, requireCapability } = require('../middleware/authMiddleware');
 const mongoose = require('mongoose');
 const TestAttempt = require('../models/TestAttempt');
 const User = require('../models/User');
 const TestSet = require('../models/TestSet');
 const router = express.Router();
 
-router.get('/secret', protect, restrictTo(['admin']), (req, res) => {
+router.get('/secret', protect, requireCapability('users.manage'), (req, res) => {
   res.json({ message: `Hello Admin ${req.user.name}`, user: { id: req.user._id, email: req.user.email } });
 });
 
 // GET /api/admin/test-attempts - View all test attempts
-router.get('/test-attempts', protect, restrictTo(['admin']), async (req, res) => {
+router.get('/test-attempts', protect, requireCapability('attempts.allow_retry'), async (req, res) => {
   try {
     const { studentId, testId, status, page = 1, limit = 50 } = req.query;
     
@@ -54,7 +54,7 @@ router.get('/test-attempts', protect, restrictTo(['admin']), async (req, res) =>
 });
 
 // POST /api/admin/allow-retry - Allow a student to retry a test
-router.post('/allow-retry', protect, restrictTo(['admin']), async (req, res) => {
+router.post('/allow-retry', protect, requireCapability('attempts.allow_retry'), async (req, res) => {
   const { studentId, testId, reason } = req.body;
 
   if (!mongoose.Types.ObjectId.isValid(studentId) || !mongoose.Types.ObjectId.isValid(testId)) {
@@ -103,7 +103,7 @@ router.post('/allow-retry', protect, restrictTo(['admin']), async (req, res) =>
 });
 
 // POST /api/admin/revoke-retry - Revoke retry permission
-router.post('/revoke-retry', protect, restrictTo(['admin']), async (req, res) => {
+router.post('/revoke-retry', protect, requireCapability('attempts.allow_retry'), async (req, res) => {
   const { studentId, testId } = req.body;
 
   if (!mongoose.Types.ObjectId.isValid(studentId) || !mongoose.Types.ObjectId.isValid(testId)) {
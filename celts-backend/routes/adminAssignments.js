@@ -3,7 +3,7 @@ const express = require('express');
 const router = express.Router();
 const mongoose = require('mongoose');
 const User = require('../models/User');
-const { protect, restrictTo } = require('../middleware/authMiddleware');
+const { protect, requireCapability, hasCapability } = require('../middleware/authMiddleware');
 
 function removeStudentIdFromArray(arr, studentId) {
   if (!Array.isArray(arr)) return [];
@@ -14,7 +14,7 @@ function isValidId(id) {
   return mongoose.Types.ObjectId.isValid(id); 
 }
 
-router.post('/faculty-batch', protect, restrictTo(['admin']), async (req, res) => {
+router.post('/faculty-batch', protect, requireCapability('batches.manage'), async (req, res) => {
   const { facultyId, cohort } = req.body;
   if (!facultyId || !cohort) return res.status(400).json({ message: 'facultyId and cohort required' });
   if (!isValidId(facultyId)) return res.status(400).json({ message: 'invalid facultyId' });
@@ -26,7 +26,7 @@ router.post('/faculty-batch', protect, restrictTo(['admin']), async (req, res) =
   } catch (err) { return res.status(500).json({ message: err.message }); }
 });
 
-router.post('/student-to-faculty', protect, restrictTo(['admin']), async (req, res) => {
+router.post('/student-to-faculty', protect, requireCapability('batches.manage'), async (req, res) => {
   const { studentId, facultyId } = req.body;
   if (!studentId || !facultyId) return res.status(400).json({ message: 'studentId and facultyId required' });
   if (!isValidId(studentId) || !isValidId(facultyId)) return res.status(400).json({ message: 'invalid id' });
@@ -83,7 +83,7 @@ router.post('/student-to-faculty', protect, restrictTo(['admin']), async (req, r
   }
 });
 
-router.post('/unassign-student', protect, restrictTo(['admin']), async (req, res) => {
+router.post('/unassign-student', protect, requireCapability('batches.manage'), async (req, res) => {
   const { studentId } = req.body;
   if (!studentId) return res.status(400).json({ message: 'studentId required' });
   if (!isValidId(studentId)) return res.status(400).json({ message: 'invalid id' });
@@ -121,20 +121,20 @@ router.post('/unassign-student', protect, restrictTo(['admin']), async (req, res
   }
 });
 
-router.get('/faculty/:facultyId/students', protect, restrictTo(['admin','faculty']), async (req, res) => {
+router.get('/faculty/:facultyId/students', protect, requireCapability('batches.manage', 'students.view'), async (req, res) => {
   const facultyId = req.params.facultyId;
   if (!isValidId(facultyId)) return res.status(400).json({ message: 'invalid id' });
   try {
     const faculty = await User.findById(facultyId).select('-password').populate('students','name email cohort');
     if (!faculty || faculty.role !== 'faculty') return res.status(404).json({ message: 'Faculty not found' });
-    if (req.user.role === 'faculty' && req.user._id.toString() !== facultyId) return res.status(403).json({ message: 'Forbidden' });
+    if (!hasCapability(req, 'batches.manage') && req.user._id.toString() !== facultyId) return res.status(403).json({ message: 'Forbidden' });
     return res.json({ faculty: { id: faculty._id, name: faculty.name, cohort: faculty.cohort }, students: faculty.students || [] });
   } catch (err) {
     return res.status(500).json({ message: err.message });
   }
 });
 
-router.get('/faculties', protect, restrictTo(['admin']), async (req, res) => {
+router.get('/faculties', protect, requireCapability('batches.manage'), async (req, res) => {
   const { cohort } = req.query;
   const filter = { role: 'faculty' }; if (cohort) filter.cohort = cohort;
   try {
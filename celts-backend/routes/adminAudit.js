@@ -1,13 +1,13 @@
 
 const express = require("express");
 const router = express.Router();
-const { protect, restrictTo } = require("../middleware/authMiddleware");
+const { protect, requireCapability } = require("../middleware/authMiddleware");
 const AuditLog = require("../models/AuditLog");
 const Submission = require("../models/Submission");
 const User = require("../models/User");
 const Batch = require("../models/Batch");
 
-router.get("/audit/overrides", protect, restrictTo(["admin"]), async (req, res) => {
+router.get("/audit/overrides", protect, requireCapability("audit.view"), async (req, res) => {
   try {
     const logs = await AuditLog.find({ action: "score_override" })
       .sort({ createdAt: -1 })
@@ -37,7 +37,10 @@ router.get("/audit/overrides", protect, restrictTo(["admin"]), async (req, res)
       if (!submission || !submission.student) continue;
 
       const student = submission.student;
-      const batchDoc = await Batch.findOne({ students: student._id })
+      // the batch the test was taken in, else the student's current one
+      const batchDoc = await Batch.findOne(
+        submission.batch ? { _id: submission.batch } : { students: student._id, archived: { $ne: true } }
+      )
         .select("_id name")
         .lean();
 
@@ -0,0 +1,182 @@
+// routes/adminBandTables.js
+const express = require('express');
+const router = express.Router();
+const mongoose = require('mongoose');
+const { protect, requireCapability } = require('../middleware/authMiddleware');
+
+const BandTable = require('../models/BandTable');
+const TestSet = require('../models/TestSet');
+const AuditLog = require('../models/AuditLog');
+const { validateBandRows } = require('../utils/scoring');
+const {
+  DEFAULT_TABLE_KEY,
+  ensureBuiltInTables,
+  reconvertSubmissions,
+} = require('../services/bandTableService');
+
+function normalizeRows(rows) {
+  return rows
+    .map(r => ({ minScore: Number(r.minScore), band: Number(r.band) }))
+    .sort((a, b) => b.minScore - a.minScore);
+}
+
+// GET /api/admin/band-tables (faculty read them to pick one per test)
+router.get('/', protect, requireCapability('band_tables.manage', 'tests.create'), async (req, res) => {
+  try {
+    await ensureBuiltInTables();
+    const filter = {};
+    if (req.query.skill) filter.skill = req.query.skill;
+
+    const tables = await BandTable.find(filter).sort({ builtIn: -1, name: 1 }).lean();
+    const defaultKeys = Object.values(DEFAULT_TABLE_KEY);
+    return res.json(
+      tables.map(t => ({ ...t, isDefault: !!t.key && defaultKeys.includes(t.key) }))
+    );
+  } catch (err) {
+    console.error('[GET /admin/band-tables] error:', err);
+    return res.status(500).json({ message: 'Server error fetching band tables' });
+  }
+});
+
+// POST /api/admin/band-tables - custom institution table
+router.post('/', protect, requireCapability('band_tables.manage'), async (req, res) => {
+  try {
+    const { name, skill, rows } = req.body;
+    const totalQuestions = Number(req.body.totalQuestions || 40);
+
+    if (!name || !String(name).trim()) {
+      return res.status(400).json({ message: 'Name is required' });
+    }
+    if (!['reading', 'listening'].includes(skill)) {
+      return res.status(400).json({ message: 'Skill must be reading or listening' });
+    }
+    if (!Number.isInteger(totalQuestions) || totalQuestions < 1) {
+      return res.status(400).json({ message: 'Total questions must be a positive whole number' });
+    }
+    const rowError = validateBandRows(rows, totalQuestions);
+    if (rowError) return res.status(400).json({ message: rowError });
+
+    const table = await BandTable.create({
+      name: String(name).trim(),
+      skill,
+      totalQuestions,
+      rows: normalizeRows(rows),
+      createdBy: req.user._id,
+      updatedBy: req.user._id,
+    });
+
+    return res.status(201).json({ message: 'Band table created', table });
+  } catch (err) {
+    console.error('[POST /admin/band-tables] error:', err);
+    return res.status(500).json({ message: 'Server error creating band table' });
+  }
+});
+
+// PUT /api/admin/band-tables/:id - edit name/rows (built-in tables too)
+// body: { name?, totalQuestions?, rows?, reconvert? }
+router.put('/:id', protect, requireCapability('band_tables.manage'), async (req, res) => {
+  const { id } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return res.status(400).json({ message: 'Invalid band table id' });
+  }
+
+  try {
+    const table = await BandTable.findById(id);
+    if (!table) return res.status(404).json({ message: 'Band table not found' });
+
+    const oldValue = { name: table.name, totalQuestions: table.totalQuestions, rows: table.rows.toObject() };
+
+    if (req.body.name !== undefined) {
+      if (!String(req.body.name).trim()) return res.status(400).json({ message: 'Name is required' });
+      table.name = String(req.body.name).trim();
+    }
+    if (req.body.totalQuestions !== undefined) {
+      const totalQuestions = Number(req.body.totalQuestions);
+      if (!Number.isInteger(totalQuestions) || totalQuestions < 1) {
+        return res.status(400).json({ message: 'Total questions must be a positive whole number' });
+      }
+      table.totalQuestions = totalQuestions;
+    }
+    if (req.body.rows !== undefined) {
+      const rowError = validateBandRows(req.body.rows, table.totalQuestions);
+      if (rowError) return res.status(400).json({ message: rowError });
+      table.rows = normalizeRows(req.body.rows);
+    }
+    table.updatedBy = req.user._id;
+    await table.save();
+
+    await AuditLog.create({
+      action: 'band_table_update',
+      targetType: 'BandTable',
+      targetId: table._id,
+      changedBy: req.user._id,
+      changedByRole: req.user.role,
+      meta: { key: table.key, skill: table.skill },
+      oldValue,
+      newValue: { name: table.name, totalQuestions: table.totalQuestions, rows: table.rows.toObject() },
+    });
+
+    const reconversion = req.body.reconvert === true ? await reconvertSubmissions(table) : null;
+
+    return res.json({ message: 'Band table updated', table, reconversion });
+  } catch (err) {
+    console.error('[PUT /admin/band-tables/:id] error:', err);
+    return res.status(500).json({ message: 'Server error updating band table' });
+  }
+});
+
+// POST /api/admin/band-tables/:id/reconvert - re-run on historical submissions
+router.post('/:id/reconvert', protect, requireCapability('band_tables.manage'), async (req, res) => {
+  const { id } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return res.status(400).json({ message: 'Invalid band table id' });
+  }
+
+  try {
+    const table = await BandTable.findById(id).lean();
+    if (!table) return res.status(404).json({ message: 'Band table not found' });
+
+    const reconversion = await reconvertSubmissions(table);
+
+    await AuditLog.create({
+      action: 'band_table_reconvert',
+      targetType: 'BandTable',
+      targetId: table._id,
+      changedBy: req.user._id,
+      changedByRole: req.user.role,
+      meta: { key: table.key, skill: table.skill, ...reconversion },
+    });
+
+    return res.json({ message: 'Submissions reconverted', reconversion });
+  } catch (err) {
+    console.error('[POST /admin/band-tables/:id/reconvert] error:', err);
+    return res.status(500).json({ message: 'Server error reconverting submissions' });
+  }
+});
+
+// DELETE /api/admin/band-tables/:id - custom tables that no test uses
+router.delete('/:id', protect, requireCapability('band_tables.manage'), async (req, res) => {
+  const { id } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return res.status(400).json({ message: 'Invalid band table id' });
+  }
+
+  try {
+    const table = await BandTable.findById(id);
+    if (!table) return res.status(404).json({ message: 'Band table not found' });
+    if (table.builtIn) return res.status(400).json({ message: 'Built-in tables cannot be deleted' });
+
+    const inUse = await TestSet.countDocuments({ bandTable: table._id });
+    if (inUse > 0) {
+      return res.status(400).json({ message: `This table is used by ${inUse} test(s)` });
+    }
+
+    await table.deleteOne();
+    return res.json({ message: 'Band table deleted' });
+  } catch (err) {
+    console.error('[DELETE /admin/band-tables/:id] error:', err);
+    return res.status(500).json({ message: 'Server error deleting band table' });
+  }
+});
+
+module.exports = router;
@@ -1,14 +1,37 @@
 const express = require('express');
 const router = express.Router();
+const mongoose = require('mongoose');
 const Batch = require('../models/Batch');
 const User = require('../models/User');
-const { protect, restrictTo } = require('../middleware/authMiddleware');
-
-// GET /api/admin/batches
-router.get('/', protect, restrictTo(['admin']), async (req, res) => {
+const AcademicTerm = require('../models/AcademicTerm');
+const { protect, requireCapability } = require('../middleware/authMiddleware');
+const BatchMembership = require('../models/BatchMembership');
+const AuditLog = require('../models/AuditLog');
+const { archivedBatchError } = require('../services/termService');
+const { placeStudents, removeStudents } = require('../services/batchMembershipService');
+const { impactOf, softDelete } = require('../services/recycleBinService');
+
+// a batch can only be put in a term that exists and isn't archived
+async function checkTerm(termId) {
+  if (!termId) return { term: null };
+  if (!mongoose.Types.ObjectId.isValid(termId)) return { error: 'Invalid term id' };
+  const term = await AcademicTerm.findById(termId).select('_id name status').lean();
+  if (!term) return { error: 'Term not found' };
+  if (term.status === 'archived') return { error: `Term "${term.name}" is archived` };
+  return { term };
+}
+
+// GET /api/admin/batches?term=<id>&includeArchived=true  (archived batches are hidden by default)
+router.get('/', protect, requireCapability('batches.manage'), async (req, res) => {
   try {
-    const batches = await Batch.find({})
-      .populate({ path: 'faculty', select: 'name email systemId' })
+    const filter = {};
+    if (req.query.includeArchived !== 'true') filter.archived = { $ne: true };
+    if (req.query.term === 'none') filter.term = null;
+    else if (mongoose.Types.ObjectId.isValid(req.query.term)) filter.term = req.query.term;
+
+    const batches = await Batch.find(filter)
+      .populate({ path: 'term', select: 'name status' })
+      .populate({ path: 'faculty', select: 'name email systemId', match: { deletedAt: null } })
       .populate({ path: 'students', select: 'name email systemId' })
       .sort({ createdAt: -1 })
       .lean();
@@ -19,6 +42,10 @@ router.get('/', protect, restrictTo(['admin']), async (req, res) => {
       program: b.program,
       year: b.year,
       section: b.section,
+      elective: !!b.elective,
+      term: b.term ? { _id: b.term._id, name: b.term.name } : null,
+      archived: !!b.archived,
+      promotedTo: b.promotedTo || null,
       createdAt: b.createdAt,
       faculty: Array.isArray(b.faculty)
         ? b.faculty.map(f => f?.name || f?.email || String(f?._id))
@@ -36,16 +63,28 @@ router.get('/', protect, restrictTo(['admin']), async (req, res) => {
 });
 
 // POST /api/admin/batches
-router.post('/', protect, restrictTo(['admin']), async (req, res) => {
+router.post('/', protect, requireCapability('batches.manage'), async (req, res) => {
   try {
     const { name, program, year, section } = req.body;
     if (!name || !name.trim()) return res.status(400).json({ message: 'Batch name is required' });
+    const taken = await Batch.findOne({ name: name.trim() }).setOptions({ withDeleted: true }).select('deletedAt').lean();
+    if (taken) {
+      return res.status(400).json({
+        message: taken.deletedAt
+          ? 'A deleted batch with this name is in the recycle bin; restore it instead'
+          : 'A batch with this name already exists',
+      });
+    }
+    const { term, error } = await checkTerm(req.body.term);
+    if (error) return res.status(400).json({ message: error });
 
     const newBatch = await Batch.create({
       name: name.trim(),
       program,
       year,
       section,
+      elective: req.body.elective === true,
+      term: term ? term._id : null,
       createdBy: req.user?._id
     });
 
@@ -62,14 +101,41 @@ router.post('/', protect, restrictTo(['admin']), async (req, res) => {
 });
 
 //  PUT /api/admin/batches/:id    (Update batch details)   
-router.put('/:id', protect, restrictTo(['admin']), async (req, res) => {
+router.put('/:id', protect, requireCapability('batches.manage'), async (req, res) => {
   try {
     const { id } = req.params;
     const { name, program, year, section } = req.body;
 
+    const existing = await Batch.findOne({ _id: id, deletedAt: null }).select('name archived elective students').lean();
+    if (!existing) return res.status(404).json({ message: 'Batch not found' });
+    const archivedError = archivedBatchError(existing);
+    if (archivedError) return res.status(400).json({ message: archivedError });
+
+    const update = { name, program, year, section };
+    if (req.body.term !== undefined) {
+      const { term, error } = await checkTerm(req.body.term);
+      if (error) return res.status(400).json({ message: error });
+      update.term = term ? term._id : null;
+    }
+    if (req.body.elective !== undefined) {
+      update.elective = req.body.elective === true;
+      // turning an elective into a regular batch must not leave anyone in two regular batches
+      if (existing.elective && !update.elective) {
+        const clash = await Batch.findOne({
+          _id: { $ne: existing._id },
+          students: { $in: existing.students },
+          archived: { $ne: true },
+          elective: { $ne: true },
+        }).select('name').lean();
+        if (clash) {
+          return res.status(400).json({ message: `Some students are also in the regular batch "${clash.name}"` });
+        }
+      }
+    }
+
     const updated = await Batch.findByIdAndUpdate(
       id,
-      { name, program, year, section },
+      update,
       { new: true, runValidators: true }
     )
       .populate({ path: 'faculty', select: 'name email systemId' })
@@ -84,13 +150,39 @@ router.put('/:id', protect, restrictTo(['admin']), async (req, res) => {
   }
 });
 
-// DELETE /api/admin/batches/:id
-router.delete('/:id', protect, restrictTo(['admin']), async (req, res) => {
+// GET /api/admin/batches/:id/impact  -> what deleting the batch would affect
+router.get('/:id/impact', protect, requireCapability('batches.manage'), async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ message: 'Invalid batch id' });
+    const batch = await Batch.findOne({ _id: req.params.id, deletedAt: null }).lean();
+    if (!batch) return res.status(404).json({ message: 'Batch not found' });
+    res.json(await impactOf('batch', batch));
+  } catch (err) {
+    console.error('Error checking batch dependencies:', err);
+    res.status(500).json({ message: 'Server error checking batch dependencies' });
+  }
+});
+
+// DELETE /api/admin/batches/:id  -> moves the batch to the recycle bin (see /admin/recycle-bin)
+router.delete('/:id', protect, requireCapability('batches.manage'), async (req, res) => {
   try {
     const { id } = req.params;
-    const deleted = await Batch.findByIdAndDelete(id);
-    if (!deleted) return res.status(404).json({ message: 'Batch not found' });
-    res.json({ message: 'Batch deleted successfully' });
+    if (!mongoose.Types.ObjectId.isValid(id)) return res.status(400).json({ message: 'Invalid batch id' });
+    const batch = await Batch.findOne({ _id: id, deletedAt: null });
+    if (!batch) return res.status(404).json({ message: 'Batch not found' });
+
+    const result = await softDelete('batch', batch, req.user);
+    if (result.error) return res.status(400).json({ message: result.error });
+    await AuditLog.create({
+      action: 'batch_delete',
+      targetType: 'Batch',
+      targetId: batch._id,
+      changedBy: req.user._id,
+      changedByRole: req.user.role,
+      oldValue: { name: batch.name },
+      meta: result.impact.counts,
+    });
+    res.json({ message: 'Batch moved to the recycle bin', impact: result.impact });
   } catch (err) {
     console.error('Error deleting batch:', err);
     res.status(500).json({ message: 'Server error deleting batch' });
@@ -98,16 +190,18 @@ router.delete('/:id', protect, restrictTo(['admin']), async (req, res) => {
 });
 
 // POST /api/admin/batches/:batchId/assign-faculty/:facultyId  (Assign or replace faculty for a batch (only one allowed))
-router.post('/:batchId/assign-faculty/:facultyId', protect, restrictTo(['admin']), async (req, res) => {
+router.post('/:batchId/assign-faculty/:facultyId', protect, requireCapability('batches.manage'), async (req, res) => {
   try {
     const { batchId, facultyId } = req.params;
 
-    const faculty = await User.findById(facultyId);
+    const faculty = await User.findOne({ _id: facultyId, deletedAt: null });
     if (!faculty) return res.status(404).json({ message: 'Faculty not found' });
     if (faculty.role !== 'faculty') return res.status(400).json({ message: 'User is not a faculty' });
 
-    const batch = await Batch.findById(batchId);
+    const batch = await Batch.findOne({ _id: batchId, deletedAt: null });
     if (!batch) return res.status(404).json({ message: 'Batch not found' });
+    const archivedError = archivedBatchError(batch);
+    if (archivedError) return res.status(400).json({ message: archivedError });
 
     //Only one faculty allowed — replace existing
     batch.faculty = [facultyId];
@@ -125,40 +219,39 @@ router.post('/:batchId/assign-faculty/:facultyId', protect, restrictTo(['admin']
   }
 });
 
-// POST /api/admin/batches/:batchId/assign-student/:studentId  (Assign a student to a batch (only one batch per student allowed))
-router.post('/:batchId/assign-student/:studentId', protect, restrictTo(['admin']), async (req, res) => {
+// POST /api/admin/batches/:batchId/assign-student/:studentId  body: { move? }
+// A student has one regular batch; with move=true they leave their current one. Electives just add.
+router.post('/:batchId/assign-student/:studentId', protect, requireCapability('batches.manage'), async (req, res) => {
   try {
     const { batchId, studentId } = req.params;
 
     //Validate student existence and role
-    const student = await User.findById(studentId);
+    const student = await User.findOne({ _id: studentId, deletedAt: null });
     if (!student) return res.status(404).json({ message: 'Student not found' });
     if (student.role !== 'student') return res.status(400).json({ message: 'User is not a student' });
 
     //Validate batch existence
-    const batch = await Batch.findById(batchId);
+    const batch = await Batch.findOne({ _id: batchId, deletedAt: null });
     if (!batch) return res.status(404).json({ message: 'Batch not found' });
+    const archivedError = archivedBatchError(batch);
+    if (archivedError) return res.status(400).json({ message: archivedError });
 
-    //Check if student already belongs to another batch
-    const existingBatch = await Batch.findOne({ students: studentId });
-    if (existingBatch && String(existingBatch._id) !== String(batchId)) {
+    const placed = await placeStudents(batch, [studentId], { move: req.body?.move === true, by: req.user._id });
+    if (placed.skipped.length) {
       return res.status(400).json({
-        message: `Student is already assigned to batch "${existingBatch.name}". Unassign first before adding to another batch.`
+        message: `Student is already assigned to batch "${placed.skipped[0].batch}". Move them, or unassign first.`
       });
     }
 
-    //Add only if not already in current batch
-    if (!batch.students.some(s => String(s) === String(studentId))) {
-      batch.students.push(studentId);
-      await batch.save();
-    }
-
     const populated = await Batch.findById(batch._id)
       .populate({ path: 'faculty', select: 'name email systemId' })
       .populate({ path: 'students', select: 'name email systemId' })
       .lean();
 
-    res.json({ message: 'Student assigned successfully', batch: populated });
+    res.json({
+      message: placed.moved.length ? `Student moved from "${placed.moved[0].from}"` : 'Student assigned successfully',
+      batch: populated
+    });
   } catch (err) {
     console.error('Error assigning student:', err);
     res.status(500).json({ message: 'Server error assigning student' });
@@ -169,15 +262,15 @@ router.post('/:batchId/assign-student/:studentId', protect, restrictTo(['admin']
 
 
 // POST /api/admin/batches/:batchId/assign-students-bulk
-// Body: { studentIds: string[] }
+// Body: { studentIds: string[], move?: boolean }  (without move, students of another regular batch are skipped)
 router.post(
   '/:batchId/assign-students-bulk',
   protect,
-  restrictTo(['admin']),
+  requireCapability('batches.manage'),
   async (req, res) => {
     try {
       const { batchId } = req.params;
-      const { studentIds } = req.body;
+      const { studentIds, move } = req.body;
 
       if (!mongoose.Types.ObjectId.isValid(batchId)) {
         return res.status(400).json({ message: 'Invalid batchId' });
@@ -213,28 +306,18 @@ router.post(
           .json({ message: 'No valid student accounts found for given ids' });
       }
 
-      const batch = await Batch.findById(batchId);
+      const batch = await Batch.findOne({ _id: batchId, deletedAt: null });
       if (!batch) {
         return res.status(404).json({ message: 'Batch not found' });
       }
+      const archivedError = archivedBatchError(batch);
+      if (archivedError) return res.status(400).json({ message: archivedError });
 
-      if (!Array.isArray(batch.students)) {
-        batch.students = [];
-      }
-
-      const existing = new Set(
-        batch.students.map((s) => String(s))
-      );
-
-      for (const s of students) {
-        const sid = String(s._id);
-        if (!existing.has(sid)) {
-          batch.students.push(s._id);
-          existing.add(sid);
-        }
-      }
-
-      await batch.save();
+      const placed = await placeStudents(batch, students.map((s) => s._id), {
+        move: move === true,
+        by: req.user._id,
+      });
+      const nameOf = new Map(students.map((s) => [String(s._id), `${s.systemId} - ${s.name}`]));
 
       const populated = await Batch.findById(batchId)
         .populate('students', 'name email systemId')
@@ -242,8 +325,13 @@ router.post(
         .lean();
 
       return res.json({
-        message: `Assigned ${students.length} student(s) to batch.`,
+        message: `Assigned ${placed.added.length} student(s) to batch`
+          + (placed.moved.length ? `, ${placed.moved.length} moved from another batch` : '')
+          + (placed.skipped.length ? `, ${placed.skipped.length} skipped (already in another batch)` : '')
+          + '.',
         batch: populated,
+        moved: placed.moved.map((m) => ({ ...m, name: nameOf.get(m.student) })),
+        skipped: placed.skipped.map((m) => ({ ...m, name: nameOf.get(m.student) })),
       });
     } catch (err) {
       console.error('[Bulk assign students] error:', err);
@@ -258,20 +346,19 @@ router.post(
 
 
 // DELETE /api/admin/batches/:batchId/unassign-student/:studentId
-router.delete('/:batchId/unassign-student/:studentId', protect, restrictTo(['admin']), async (req, res) => {
+router.delete('/:batchId/unassign-student/:studentId', protect, requireCapability('batches.manage'), async (req, res) => {
   try {
     const { batchId, studentId } = req.params;
 
-    const batch = await Batch.findById(batchId);
+    const batch = await Batch.findOne({ _id: batchId, deletedAt: null });
     if (!batch) return res.status(404).json({ message: 'Batch not found' });
+    const archivedError = archivedBatchError(batch);
+    if (archivedError) return res.status(400).json({ message: archivedError });
 
-    const beforeCount = batch.students.length;
-    batch.students = batch.students.filter(sid => String(sid) !== String(studentId));
-    if (batch.students.length === beforeCount) {
+    if (!batch.students.some(sid => String(sid) === String(studentId))) {
       return res.status(400).json({ message: 'Student not found in this batch' });
     }
-
-    await batch.save();
+    await removeStudents(batch, [studentId], { by: req.user._id });
 
     const populated = await Batch.findById(batch._id)
       .populate({ path: 'faculty', select: 'name email systemId' })
@@ -285,13 +372,40 @@ router.delete('/:batchId/unassign-student/:studentId', protect, restrictTo(['adm
   }
 });
 
+// GET /api/admin/batches/:id/history  -> dated membership records, newest first
+router.get('/:id/history', protect, requireCapability('batches.manage'), async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ message: 'Invalid batch id' });
+    const records = await BatchMembership.find({ batch: req.params.id })
+      .populate('student', 'name email systemId')
+      .populate('addedBy', 'name')
+      .populate('removedBy', 'name')
+      .sort({ joinedAt: -1 })
+      .lean();
+    return res.json(records.map(r => ({
+      _id: r._id,
+      student: r.student,
+      joinedAt: r.joinedAt,
+      leftAt: r.leftAt,
+      joinReason: r.joinReason,
+      leaveReason: r.leaveReason,
+      addedBy: r.addedBy ? r.addedBy.name : null,
+      removedBy: r.removedBy ? r.removedBy.name : null,
+    })));
+  } catch (err) {
+    console.error('Error fetching batch history:', err);
+    res.status(500).json({ message: 'Server error fetching batch history' });
+  }
+});
+
 // GET /api/admin/batches/:id  -> returns full populated objects (with _id)
-router.get('/:id', protect, restrictTo(['admin']), async (req, res) => {
+router.get('/:id', protect, requireCapability('batches.manage'), async (req, res) => {
   try {
     const { id } = req.params;
 
     const batch = await Batch.findById(id)
-      .populate({ path: 'faculty', select: '_id name email systemId' })
+      .populate({ path: 'term', select: 'name status' })
+      .populate({ path: 'faculty', select: '_id name email systemId', match: { deletedAt: null } })
       .populate({ path: 'students', select: '_id name email systemId' })
       .lean();
 
@@ -304,6 +418,9 @@ router.get('/:id', protect, restrictTo(['admin']), async (req, res) => {
       program: batch.program,
       year: batch.year,
       section: batch.section,
+      elective: !!batch.elective,
+      term: batch.term ? { _id: batch.term._id, name: batch.term.name } : null,
+      archived: !!batch.archived,
       createdAt: batch.createdAt,
       faculty: Array.isArray(batch.faculty)
         ? batch.faculty.map(f => ({
@@ -1,34 +1,128 @@
 // routes/adminBulk.js
+// Bulk user import, mounted under /api/admin/bulk. Upload a CSV or XLSX as
+// multipart "file"; with dryRun (the default) nothing is written and every
+// row's planned outcome is returned so the admin can review it first.
 const express = require('express');
 const router = express.Router();
-const { protect, restrictTo } = require('../middleware/authMiddleware');
-const User = require('../models/User');
-const { parse } = require('csv-parse/sync');
+const mongoose = require('mongoose');
+const multer = require('multer');
+const { protect, requireCapability } = require('../middleware/authMiddleware');
+const AuditLog = require('../models/AuditLog');
+const Batch = require('../models/Batch');
+const {
+  IMPORT_FIELDS,
+  readSheet,
+  resolveMapping,
+  planImport,
+  applyImport,
+  summarize,
+  visibleRows,
+} = require('../services/userImportService');
 
-// Accept JSON array or CSV body (raw)
-router.post('/users/bulk', protect, restrictTo(['admin']), async (req, res) => {
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    if (!/\.(csv|xlsx)$/i.test(file.originalname || '')) {
+      const err = new Error('Upload a .csv or .xlsx file');
+      err.code = 'INVALID_FILE_TYPE';
+      return cb(err);
+    }
+    cb(null, true);
+  },
+});
+
+// multer errors (size, type) are the uploader's fault, not the server's
+function receiveFile(req, res, next) {
+  upload.single('file')(req, res, (err) => {
+    if (err) return res.status(400).json({ message: err.code === 'LIMIT_FILE_SIZE' ? 'File is larger than 5MB' : err.message });
+    next();
+  });
+}
+
+const flag = (value, fallback) => {
+  if (value === undefined || value === '') return fallback;
+  return value === true || value === 'true' || value === '1';
+};
+
+// POST /api/admin/bulk/users - multipart: file, mapping (JSON field -> column),
+// dryRun, defaultRole, defaultBatch (id), updateExisting, sendResetLinks
+router.post('/users', protect, requireCapability('users.manage'), receiveFile, async (req, res) => {
   try {
-    let items = [];
-    if (Array.isArray(req.body)) items = req.body;
-    else if (typeof req.body === 'string' && req.headers['content-type'] && req.headers['content-type'].includes('text/csv')) {
-      // parse CSV
-      const records = parse(req.body, { columns: true, skip_empty_lines: true });
-      items = records;
-    } else {
-      return res.status(400).json({ message: 'Send JSON array or CSV body' });
-    }
-
-    const created = [];
-    for (const it of items) {
-      if (!it.email || !it.name) continue;
-      const exists = await User.findOne({ email: it.email });
-      if (exists) continue;
-      const u = await User.create({ name: it.name, email: it.email, password: it.password || 'Welcome@123', role: it.role || 'student' });
-      created.push(u);
-    }
-    return res.json({ created: created.length });
+    if (!req.file) return res.status(400).json({ message: 'No file uploaded' });
+
+    let explicitMapping = {};
+    if (req.body.mapping) {
+      try {
+        explicitMapping = JSON.parse(req.body.mapping);
+      } catch (e) {
+        return res.status(400).json({ message: 'mapping must be JSON' });
+      }
+      const unknown = Object.keys(explicitMapping).filter((f) => !IMPORT_FIELDS.includes(f));
+      if (unknown.length) return res.status(400).json({ message: `Unknown import field(s): ${unknown.join(', ')}` });
+    }
+
+    const defaultRole = req.body.defaultRole || 'student';
+    if (!['admin', 'faculty', 'student'].includes(defaultRole)) {
+      return res.status(400).json({ message: 'defaultRole must be admin, faculty or student' });
+    }
+    const defaultBatchId = req.body.defaultBatch || null;
+    if (defaultBatchId && !mongoose.Types.ObjectId.isValid(defaultBatchId)) {
+      return res.status(400).json({ message: 'Invalid defaultBatch id' });
+    }
+    if (defaultBatchId && !(await Batch.exists({ _id: defaultBatchId, archived: { $ne: true } }))) {
+      return res.status(400).json({ message: 'Default batch not found or archived' });
+    }
+
+    let sheet;
+    try {
+      sheet = await readSheet(req.file.buffer, req.file.originalname);
+    } catch (err) {
+      return res.status(400).json({ message: `Could not read the file: ${err.message}` });
+    }
+
+    const mapping = resolveMapping(sheet.headers, explicitMapping);
+    const missing = ['systemId'].filter((f) => !mapping[f]);
+    if (missing.length) {
+      return res.status(400).json({
+        message: 'Map a column to systemId before importing',
+        headers: sheet.headers,
+        mapping,
+      });
+    }
+
+    const dryRun = flag(req.body.dryRun, true);
+    const plan = await planImport(sheet.rows, mapping, {
+      defaultRole,
+      defaultBatchId,
+      updateExisting: flag(req.body.updateExisting, true),
+      capabilities: req.capabilities,
+    });
+
+    const rows = dryRun
+      ? visibleRows(plan)
+      : await applyImport(plan, {
+        sendResetLinks: flag(req.body.sendResetLinks, false),
+        requestedByIp: req.ip,
+        actor: req.user._id,
+      });
+    const summary = summarize(rows);
+
+    if (!dryRun) {
+      await AuditLog.create({
+        action: 'user_bulk_import',
+        targetType: 'User',
+        targetId: req.user._id,
+        changedBy: req.user._id,
+        changedByRole: req.user.role,
+        meta: { file: req.file.originalname, mapping, summary },
+      });
+    }
+
+    return res.json({ dryRun, headers: sheet.headers, mapping, summary, rows });
   } catch (err) {
-    return res.status(500).json({ message: err.message });
+    console.error('[POST /admin/bulk/users] error:', err);
+    return res.status(500).json({ message: 'Server error importing users' });
   }
 });
 
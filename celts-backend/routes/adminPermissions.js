@@ -0,0 +1,256 @@
+// routes/adminPermissions.js
+// The permission matrix, mounted under /api/admin/permissions: capabilities of the
+// three system roles, custom roles, and per-user role assignments and overrides.
+const express = require('express');
+const router = express.Router();
+const mongoose = require('mongoose');
+const { protect, requireCapability } = require('../middleware/authMiddleware');
+
+const Role = require('../models/Role');
+const User = require('../models/User');
+const AuditLog = require('../models/AuditLog');
+const {
+  BASE_ROLES,
+  CAPABILITIES,
+  ALWAYS_GRANTED,
+  resolveCapabilities,
+  checkCapabilityList,
+  checkUserOverrides,
+  checkCustomRoles,
+  listRoles,
+  invalidateRoleCache,
+} = require('../services/permissionService');
+
+const canManage = [protect, requireCapability('permissions.manage')];
+
+const slugify = (value) =>
+  String(value || '').toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+function audit(req, { action, targetType, targetId, oldValue = null, newValue = null, meta = {}, reason = '' }) {
+  return AuditLog.create({
+    action,
+    targetType,
+    targetId,
+    changedBy: req.user._id,
+    changedByRole: req.user.role,
+    meta,
+    oldValue,
+    newValue,
+    reason,
+  });
+}
+
+async function permissionsView(user) {
+  return {
+    _id: user._id,
+    name: user.name,
+    email: user.email,
+    systemId: user.systemId,
+    role: user.role,
+    customRoles: (user.customRoles || []).map(String),
+    permissions: {
+      granted: (user.permissions && user.permissions.granted) || [],
+      revoked: (user.permissions && user.permissions.revoked) || [],
+    },
+    capabilities: await resolveCapabilities(user),
+  };
+}
+
+// GET /api/admin/permissions - the capability catalog and every role
+router.get('/', canManage, async (req, res) => {
+  try {
+    const roles = await listRoles();
+    const counts = await User.aggregate([
+      { $unwind: '$customRoles' },
+      { $group: { _id: '$customRoles', count: { $sum: 1 } } },
+    ]);
+    const countById = new Map(counts.map((c) => [String(c._id), c.count]));
+
+    return res.json({
+      capabilities: CAPABILITIES.map(({ defaults, ...cap }) => cap),
+      alwaysGranted: ALWAYS_GRANTED,
+      roles: roles.map((r) => ({
+        ...r,
+        userCount: r.system ? null : countById.get(String(r._id)) || 0,
+      })),
+    });
+  } catch (err) {
+    console.error('[GET /admin/permissions] error:', err);
+    return res.status(500).json({ message: 'Server error fetching permissions' });
+  }
+});
+
+// POST /api/admin/permissions/roles - body: { name, baseRole, capabilities, description?, key? }
+router.post('/roles', canManage, async (req, res) => {
+  try {
+    const { name, baseRole, description } = req.body;
+    if (!name || !String(name).trim()) return res.status(400).json({ message: 'name is required' });
+    if (!['admin', 'faculty'].includes(baseRole)) {
+      return res.status(400).json({ message: 'Custom roles can be for admin or faculty accounts' });
+    }
+    const key = slugify(req.body.key || name);
+    if (!key || BASE_ROLES.includes(key)) return res.status(400).json({ message: 'Choose a different role name' });
+
+    const checked = checkCapabilityList(req.body.capabilities, baseRole);
+    if (checked.error) return res.status(400).json({ message: checked.error });
+
+    if (await Role.exists({ key })) return res.status(400).json({ message: `A role with the key "${key}" already exists` });
+
+    const role = await Role.create({
+      key,
+      name: String(name).trim(),
+      description: description || '',
+      baseRole,
+      capabilities: checked.capabilities,
+      updatedBy: req.user._id,
+    });
+    invalidateRoleCache();
+    await audit(req, {
+      action: 'role_create',
+      targetType: 'Role',
+      targetId: role._id,
+      newValue: { key, baseRole, capabilities: role.capabilities },
+    });
+
+    return res.status(201).json({ message: 'Role created', role });
+  } catch (err) {
+    console.error('[POST /admin/permissions/roles] error:', err);
+    return res.status(500).json({ message: 'Server error creating role' });
+  }
+});
+
+// PUT /api/admin/permissions/roles/:key - body: { capabilities, name?, description? }
+// :key is admin/faculty/student for the system roles, or a custom role's key
+router.put('/roles/:key', canManage, async (req, res) => {
+  try {
+    const key = String(req.params.key).toLowerCase();
+    const isSystem = BASE_ROLES.includes(key);
+    let role = await Role.findOne({ key });
+    if (!role && !isSystem) return res.status(404).json({ message: 'Role not found' });
+
+    const baseRole = isSystem ? key : role.baseRole;
+    const checked = checkCapabilityList(req.body.capabilities, baseRole);
+    if (checked.error) return res.status(400).json({ message: checked.error });
+    const capabilities = isSystem
+      ? [...new Set([...checked.capabilities, ...(ALWAYS_GRANTED[baseRole] || [])])]
+      : checked.capabilities;
+
+    const before = (await listRoles()).find((r) => r.key === key);
+    if (!role) {
+      role = new Role({ key, name: before.name, baseRole, system: true });
+    }
+    role.capabilities = capabilities;
+    if (req.body.name !== undefined && String(req.body.name).trim()) role.name = String(req.body.name).trim();
+    if (req.body.description !== undefined) role.description = String(req.body.description);
+    role.updatedBy = req.user._id;
+    await role.save();
+    invalidateRoleCache();
+
+    await audit(req, {
+      action: 'role_update',
+      targetType: 'Role',
+      targetId: role._id,
+      oldValue: { capabilities: before.capabilities },
+      newValue: { capabilities: role.capabilities },
+      meta: { key },
+    });
+    return res.json({ message: 'Role updated', role });
+  } catch (err) {
+    console.error('[PUT /admin/permissions/roles/:key] error:', err);
+    return res.status(500).json({ message: 'Server error updating role' });
+  }
+});
+
+// DELETE /api/admin/permissions/roles/:key - custom roles only; holders lose it
+router.delete('/roles/:key', canManage, async (req, res) => {
+  try {
+    const role = await Role.findOne({ key: String(req.params.key).toLowerCase() });
+    if (!role) return res.status(404).json({ message: 'Role not found' });
+    if (role.system) return res.status(400).json({ message: 'System roles cannot be deleted' });
+
+    const { modifiedCount } = await User.updateMany({ customRoles: role._id }, { $pull: { customRoles: role._id } });
+    await role.deleteOne();
+    invalidateRoleCache();
+
+    await audit(req, {
+      action: 'role_delete',
+      targetType: 'Role',
+      targetId: role._id,
+      oldValue: { key: role.key, capabilities: role.capabilities },
+      meta: { usersAffected: modifiedCount },
+    });
+    return res.json({ message: 'Role deleted', usersAffected: modifiedCount });
+  } catch (err) {
+    console.error('[DELETE /admin/permissions/roles/:key] error:', err);
+    return res.status(500).json({ message: 'Server error deleting role' });
+  }
+});
+
+// GET /api/admin/permissions/users?role=faculty&q=... - staff accounts by default
+router.get('/users', canManage, async (req, res) => {
+  try {
+    const filter = {
+      role: BASE_ROLES.includes(req.query.role) ? req.query.role : { $in: ['admin', 'faculty'] },
+    };
+    if (req.query.q) {
+      const rx = new RegExp(String(req.query.q).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      filter.$or = [{ name: rx }, { email: rx }, { systemId: rx }];
+    }
+    const users = await User.find(filter)
+      .select('name email systemId role customRoles permissions')
+      .sort({ role: 1, name: 1 })
+      .limit(500);
+
+    return res.json(await Promise.all(users.map(permissionsView)));
+  } catch (err) {
+    console.error('[GET /admin/permissions/users] error:', err);
+    return res.status(500).json({ message: 'Server error fetching users' });
+  }
+});
+
+// PATCH /api/admin/permissions/users/:id - body: { customRoles?, granted?, revoked? }
+router.patch('/users/:id', canManage, async (req, res) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ message: 'Invalid user id' });
+    const user = await User.findById(req.params.id);
+    if (!user) return res.status(404).json({ message: 'User not found' });
+
+    const before = await permissionsView(user);
+
+    if (req.body.customRoles !== undefined) {
+      const custom = await checkCustomRoles(req.body.customRoles, user.role);
+      if (custom.error) return res.status(400).json({ message: custom.error });
+      user.customRoles = custom.roleIds;
+    }
+    if (req.body.granted !== undefined || req.body.revoked !== undefined) {
+      const overrides = checkUserOverrides({
+        granted: req.body.granted !== undefined ? req.body.granted : before.permissions.granted,
+        revoked: req.body.revoked !== undefined ? req.body.revoked : before.permissions.revoked,
+      }, user.role);
+      if (overrides.error) return res.status(400).json({ message: overrides.error });
+      const locked = (ALWAYS_GRANTED[user.role] || []).filter((c) => overrides.permissions.revoked.includes(c));
+      if (locked.length) {
+        return res.status(400).json({ message: `${locked.join(', ')} cannot be revoked from ${user.role} accounts` });
+      }
+      user.permissions = overrides.permissions;
+    }
+    await user.save();
+
+    const after = await permissionsView(user);
+    await audit(req, {
+      action: 'user_permissions_update',
+      targetType: 'User',
+      targetId: user._id,
+      oldValue: { customRoles: before.customRoles, permissions: before.permissions, capabilities: before.capabilities },
+      newValue: { customRoles: after.customRoles, permissions: after.permissions, capabilities: after.capabilities },
+      reason: req.body.reason || '',
+    });
+
+    return res.json({ message: 'Permissions updated', user: after });
+  } catch (err) {
+    console.error('[PATCH /admin/permissions/users/:id] error:', err);
+    return res.status(500).json({ message: 'Server error updating permissions' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,81 @@
+// routes/adminRecycleBin.js
+// Deleted users, batches and tests, mounted under /api/admin/recycle-bin: list
+// them, restore them, or delete them permanently before the retention period ends.
+const express = require('express');
+const router = express.Router();
+const mongoose = require('mongoose');
+const { protect, requireCapability } = require('../middleware/authMiddleware');
+
+const AuditLog = require('../models/AuditLog');
+const { TYPES, RETENTION_DAYS, listDeleted, restore, purge } = require('../services/recycleBinService');
+
+const canManage = [protect, requireCapability('recycle_bin.manage')];
+
+async function findDeleted(req, res) {
+  const type = TYPES[req.params.type];
+  if (!type) {
+    res.status(400).json({ message: 'type must be user, batch or test' });
+    return null;
+  }
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(400).json({ message: 'Invalid id' });
+    return null;
+  }
+  const doc = await type.model.findOne({ _id: req.params.id, deletedAt: { $ne: null } });
+  if (!doc) res.status(404).json({ message: 'Not found in the recycle bin' });
+  return doc;
+}
+
+function audit(req, action, doc) {
+  return AuditLog.create({
+    action: `${req.params.type}_${action}`,
+    targetType: TYPES[req.params.type].targetType,
+    targetId: doc._id,
+    changedBy: req.user._id,
+    changedByRole: req.user.role,
+    oldValue: { label: TYPES[req.params.type].label(doc), deletedAt: doc.deletedAt },
+  });
+}
+
+// GET /api/admin/recycle-bin?type=user|batch|test
+router.get('/', canManage, async (req, res) => {
+  try {
+    const { type } = req.query;
+    if (type && !TYPES[type]) return res.status(400).json({ message: 'type must be user, batch or test' });
+    return res.json({ retentionDays: RETENTION_DAYS, items: await listDeleted(type) });
+  } catch (err) {
+    console.error('[GET /admin/recycle-bin] error:', err);
+    return res.status(500).json({ message: 'Server error fetching the recycle bin' });
+  }
+});
+
+// POST /api/admin/recycle-bin/:type/:id/restore
+router.post('/:type/:id/restore', canManage, async (req, res) => {
+  try {
+    const doc = await findDeleted(req, res);
+    if (!doc) return;
+    const result = await restore(req.params.type, doc);
+    if (result.error) return res.status(400).json({ message: result.error });
+    await audit(req, 'restore', doc);
+    return res.json({ message: `Restored ${TYPES[req.params.type].label(doc)}` });
+  } catch (err) {
+    console.error('[POST /admin/recycle-bin/:type/:id/restore] error:', err);
+    return res.status(500).json({ message: 'Server error restoring item' });
+  }
+});
+
+// DELETE /api/admin/recycle-bin/:type/:id - permanent, with everything that depends on it
+router.delete('/:type/:id', canManage, async (req, res) => {
+  try {
+    const doc = await findDeleted(req, res);
+    if (!doc) return;
+    await purge(req.params.type, doc);
+    await audit(req, 'purge', doc);
+    return res.json({ message: `Permanently deleted ${TYPES[req.params.type].label(doc)}` });
+  } catch (err) {
+    console.error('[DELETE /admin/recycle-bin/:type/:id] error:', err);
+    return res.status(500).json({ message: 'Server error deleting item' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,208 @@
+// routes/adminTerms.js
+// Academic terms, mounted under /api/admin/terms: create and edit terms,
+// archive them, and promote their students into the next term's batches.
+const express = require('express');
+const router = express.Router();
+const mongoose = require('mongoose');
+const { protect, requireCapability } = require('../middleware/authMiddleware');
+
+const AcademicTerm = require('../models/AcademicTerm');
+const Batch = require('../models/Batch');
+const AuditLog = require('../models/AuditLog');
+const { archiveTerm, unarchiveTerm, promoteTerm } = require('../services/termService');
+
+const canManage = [protect, requireCapability('batches.manage')];
+
+function audit(req, { action, targetId, oldValue = null, newValue = null, meta = {} }) {
+  return AuditLog.create({
+    action,
+    targetType: 'AcademicTerm',
+    targetId,
+    changedBy: req.user._id,
+    changedByRole: req.user.role,
+    meta,
+    oldValue,
+    newValue,
+  });
+}
+
+async function findTerm(req, res) {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(400).json({ message: 'Invalid term id' });
+    return null;
+  }
+  const term = await AcademicTerm.findById(req.params.id);
+  if (!term) res.status(404).json({ message: 'Term not found' });
+  return term;
+}
+
+function readDates(body) {
+  const out = {};
+  for (const key of ['startDate', 'endDate']) {
+    if (body[key] === undefined) continue;
+    if (body[key] === null || body[key] === '') {
+      out[key] = null;
+      continue;
+    }
+    const d = new Date(body[key]);
+    if (Number.isNaN(d.getTime())) return { error: `${key} is not a valid date` };
+    out[key] = d;
+  }
+  if (out.startDate && out.endDate && out.startDate > out.endDate) return { error: 'startDate must be before endDate' };
+  return { dates: out };
+}
+
+// GET /api/admin/terms?includeArchived=true
+router.get('/', canManage, async (req, res) => {
+  try {
+    const filter = req.query.includeArchived === 'true' ? {} : { status: 'active' };
+    const terms = await AcademicTerm.find(filter)
+      .populate('promotedTo', 'name')
+      .sort({ startDate: -1, createdAt: -1 })
+      .lean();
+
+    const counts = await Batch.aggregate([
+      { $match: { term: { $in: terms.map((t) => t._id) } } },
+      { $group: { _id: '$term', batches: { $sum: 1 }, students: { $sum: { $size: '$students' } } } },
+    ]);
+    const countById = new Map(counts.map((c) => [String(c._id), c]));
+
+    return res.json(terms.map((t) => ({
+      ...t,
+      batchCount: countById.get(String(t._id))?.batches || 0,
+      studentCount: countById.get(String(t._id))?.students || 0,
+    })));
+  } catch (err) {
+    console.error('[GET /admin/terms] error:', err);
+    return res.status(500).json({ message: 'Server error fetching terms' });
+  }
+});
+
+// POST /api/admin/terms - body: { name, startDate?, endDate? }
+router.post('/', canManage, async (req, res) => {
+  try {
+    const name = String(req.body.name || '').trim();
+    if (!name) return res.status(400).json({ message: 'Term name is required' });
+    const { dates, error } = readDates(req.body);
+    if (error) return res.status(400).json({ message: error });
+    if (await AcademicTerm.exists({ name })) return res.status(400).json({ message: 'A term with this name already exists' });
+
+    const term = await AcademicTerm.create({ name, ...dates, createdBy: req.user._id });
+    await audit(req, { action: 'term_create', targetId: term._id, newValue: { name } });
+    return res.status(201).json(term);
+  } catch (err) {
+    console.error('[POST /admin/terms] error:', err);
+    return res.status(500).json({ message: 'Server error creating term' });
+  }
+});
+
+// PUT /api/admin/terms/:id - body: { name?, startDate?, endDate? }
+router.put('/:id', canManage, async (req, res) => {
+  try {
+    const term = await findTerm(req, res);
+    if (!term) return;
+    if (term.status === 'archived') return res.status(400).json({ message: 'Archived terms are read-only' });
+
+    const { dates, error } = readDates(req.body);
+    if (error) return res.status(400).json({ message: error });
+    if (req.body.name !== undefined) {
+      const name = String(req.body.name).trim();
+      if (!name) return res.status(400).json({ message: 'Term name is required' });
+      if (await AcademicTerm.exists({ name, _id: { $ne: term._id } })) {
+        return res.status(400).json({ message: 'A term with this name already exists' });
+      }
+      term.name = name;
+    }
+    Object.assign(term, dates);
+    await term.save();
+    return res.json(term);
+  } catch (err) {
+    console.error('[PUT /admin/terms/:id] error:', err);
+    return res.status(500).json({ message: 'Server error updating term' });
+  }
+});
+
+// DELETE /api/admin/terms/:id - only terms without batches
+router.delete('/:id', canManage, async (req, res) => {
+  try {
+    const term = await findTerm(req, res);
+    if (!term) return;
+    const batchCount = await Batch.countDocuments({ term: term._id });
+    if (batchCount > 0) {
+      return res.status(400).json({ message: `This term still has ${batchCount} batch(es); archive it instead` });
+    }
+    await term.deleteOne();
+    await audit(req, { action: 'term_delete', targetId: term._id, oldValue: { name: term.name } });
+    return res.json({ message: 'Term deleted' });
+  } catch (err) {
+    console.error('[DELETE /admin/terms/:id] error:', err);
+    return res.status(500).json({ message: 'Server error deleting term' });
+  }
+});
+
+// POST /api/admin/terms/:id/archive - its batches become read-only and hidden
+router.post('/:id/archive', canManage, async (req, res) => {
+  try {
+    const term = await findTerm(req, res);
+    if (!term) return;
+    if (term.status === 'archived') return res.status(400).json({ message: 'Term is already archived' });
+
+    const result = await archiveTerm(term, req.user);
+    await audit(req, { action: 'term_archive', targetId: term._id, meta: result });
+    return res.json({ message: `Archived "${term.name}" and ${result.batches} batch(es)`, term });
+  } catch (err) {
+    console.error('[POST /admin/terms/:id/archive] error:', err);
+    return res.status(500).json({ message: 'Server error archiving term' });
+  }
+});
+
+// POST /api/admin/terms/:id/unarchive
+router.post('/:id/unarchive', canManage, async (req, res) => {
+  try {
+    const term = await findTerm(req, res);
+    if (!term) return;
+    if (term.status !== 'archived') return res.status(400).json({ message: 'Term is not archived' });
+
+    const result = await unarchiveTerm(term);
+    if (result.error) return res.status(400).json({ message: result.error });
+    await audit(req, { action: 'term_unarchive', targetId: term._id, meta: result });
+    return res.json({ message: `Reopened "${term.name}"`, term });
+  } catch (err) {
+    console.error('[POST /admin/terms/:id/unarchive] error:', err);
+    return res.status(500).json({ message: 'Server error reopening term' });
+  }
+});
+
+// POST /api/admin/terms/:id/promote
+// body: { targetTerm, mappings: [{ from: batchId, to: batchId } | { from: batchId, newName }] }
+// Archives this term (if it isn't already) and moves students into the target term's batches
+router.post('/:id/promote', canManage, async (req, res) => {
+  try {
+    const source = await findTerm(req, res);
+    if (!source) return;
+    const { targetTerm, mappings } = req.body;
+    if (!mongoose.Types.ObjectId.isValid(targetTerm)) return res.status(400).json({ message: 'Invalid targetTerm' });
+    const target = await AcademicTerm.findById(targetTerm);
+    if (!target) return res.status(404).json({ message: 'Target term not found' });
+
+    const result = await promoteTerm(source, target, mappings, req.user);
+    if (result.error) return res.status(400).json({ message: result.error });
+
+    await audit(req, {
+      action: 'term_promote',
+      targetId: source._id,
+      newValue: { targetTerm: target._id, targetName: target.name },
+      meta: {
+        promoted: result.promoted,
+        notPromoted: result.notPromoted,
+        batches: result.batches.map((b) => ({ from: b.from.name, to: b.to.name, promoted: b.promoted, skipped: b.skipped.length })),
+      },
+    });
+    return res.json({ message: `Promoted ${result.promoted} student(s) into "${target.name}"`, ...result });
+  } catch (err) {
+    console.error('[POST /admin/terms/:id/promote] error:', err);
+    return res.status(500).json({ message: 'Server error promoting students' });
+  }
+});
+
+module.exports = router;
@@ -1,41 +1,168 @@
 // routes/auth.js
 const express = require('express');
 const router = express.Router();
-const jwt = require('jsonwebtoken');
 const { body, validationResult } = require('express-validator');
 const User = require('../models/User');
+const { protect } = require('../middleware/authMiddleware');
+const {
+  TokenError,
+  issueSession,
+  rotateSession,
+  endSession,
+  clearAuthCookies,
+  revokeUserSessions,
+} = require('../services/tokenService');
+const { requestPasswordReset, resetPassword } = require('../services/passwordResetService');
+const { getPasswordPolicy, validatePassword } = require('../utils/passwordPolicy');
+const {
+  createLoginChallenge,
+  readLoginChallenge,
+  verifySecondFactor,
+} = require('../services/twoFactorService');
+const { userWithCapabilities } = require('../services/permissionService');
 
-const genToken = (id) => jwt.sign({ id }, process.env.JWT_SECRET, { expiresIn: '30d' });
+// Accounts are only created through invitations (routes/invitations.js).
 
-router.post('/register', [
-  body('name').notEmpty(),
+router.post('/login', [
   body('email').isEmail(),
-  body('password').isLength({ min: 6 }),
-  body('role').optional().isIn(['admin','faculty','student'])
+  body('password').notEmpty()
 ], async (req, res) => {
   const errors = validationResult(req); if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
   try {
-    const { name, email, password, role } = req.body;
-    if (await User.findOne({ email })) return res.status(400).json({ message: 'User exists' });
-    const user = await User.create({ name, email, password, role });
-    return res.status(201).json({ token: genToken(user._id), user: user.toJSON() });
+    const { email, password } = req.body;
+    const user = await User.findOne({ email });
+    if (!user || !(await user.matchPassword(password))) return res.status(401).json({ message: 'Invalid credentials' });
+    if (user.isActive === false) return res.status(403).json({ message: 'Your account has been deactivated' });
+    // with 2FA on, the password only earns a challenge for the second step
+    if (user.twoFactor && user.twoFactor.enabled) {
+      return res.json({ twoFactorRequired: true, challengeToken: createLoginChallenge(user) });
+    }
+    await issueSession(res, user, req);
+    return res.json({ user: await userWithCapabilities(user) });
   } catch (err) {
     return res.status(500).json({ message: err.message });
   }
 });
 
-router.post('/login', [
-  body('email').isEmail(),
+// POST /api/auth/login/2fa - body: { challengeToken, code | recoveryCode }
+router.post('/login/2fa', [body('challengeToken').notEmpty()], async (req, res) => {
+  const errors = validationResult(req); if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+  try {
+    const challenge = readLoginChallenge(req.body.challengeToken);
+    if (!challenge) return res.status(401).json({ message: 'Sign-in expired. Enter your password again.', code: 'CHALLENGE_EXPIRED' });
+
+    const user = await User.findById(challenge.id);
+    if (!user || user.isActive === false || (challenge.tv || 0) !== (user.tokenVersion || 0)) {
+      return res.status(401).json({ message: 'Sign-in expired. Enter your password again.', code: 'CHALLENGE_EXPIRED' });
+    }
+
+    const { error, method, recoveryCodesLeft } = await verifySecondFactor(user._id, {
+      code: req.body.code,
+      recoveryCode: req.body.recoveryCode,
+    });
+    if (error) return res.status(401).json({ message: error });
+
+    await issueSession(res, user, req);
+    return res.json({ user: await userWithCapabilities(user), method, recoveryCodesLeft });
+  } catch (err) {
+    console.error('[POST /auth/login/2fa] error:', err);
+    return res.status(500).json({ message: 'Server error verifying code' });
+  }
+});
+
+// POST /api/auth/refresh - rotate the refresh cookie and issue a new access token
+router.post('/refresh', async (req, res) => {
+  try {
+    const user = await rotateSession(req, res);
+    return res.json({ user: await userWithCapabilities(user) });
+  } catch (err) {
+    if (err instanceof TokenError) {
+      // a sibling request already rotated the cookie; the client can just retry
+      if (err.code === 'REFRESH_SUPERSEDED') return res.status(409).json({ message: err.message, code: err.code });
+      clearAuthCookies(res);
+      return res.status(401).json({ message: err.message, code: err.code });
+    }
+    console.error('[POST /auth/refresh] error:', err);
+    return res.status(500).json({ message: 'Server error refreshing session' });
+  }
+});
+
+// POST /api/auth/logout - revoke this browser's session
+router.post('/logout', async (req, res) => {
+  try {
+    await endSession(req, res);
+    return res.json({ message: 'Logged out' });
+  } catch (err) {
+    console.error('[POST /auth/logout] error:', err);
+    clearAuthCookies(res);
+    return res.status(500).json({ message: 'Server error logging out' });
+  }
+});
+
+// GET /api/auth/me
+router.get('/me', protect, (req, res) => res.json({ user: { ...req.user.toJSON(), capabilities: req.capabilities } }));
+
+// GET /api/auth/password-policy - public, so forms can show the rules up front
+router.get('/password-policy', (req, res) => res.json(getPasswordPolicy()));
+
+// PATCH /api/auth/password - change own password; signs out every other session
+router.patch('/password', protect, [
+  body('currentPassword').notEmpty(),
+  body('newPassword').notEmpty()
+], async (req, res) => {
+  const errors = validationResult(req); if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+  try {
+    const user = await User.findById(req.user._id);
+    if (!(await user.matchPassword(req.body.currentPassword))) {
+      return res.status(400).json({ message: 'Current password is incorrect' });
+    }
+    if (req.body.newPassword === req.body.currentPassword) {
+      return res.status(400).json({ message: 'New password must be different from the current one' });
+    }
+    const policyError = validatePassword(req.body.newPassword, user);
+    if (policyError) return res.status(400).json({ message: policyError });
+
+    user.password = req.body.newPassword;
+    user.mustChangePassword = false;
+    await user.save();
+
+    await revokeUserSessions(user._id, 'password_change');
+    const fresh = await User.findById(user._id);
+    await issueSession(res, fresh, req);
+
+    return res.json({ message: 'Password changed. Other sessions have been signed out.', user: await userWithCapabilities(fresh) });
+  } catch (err) {
+    console.error('[PATCH /auth/password] error:', err);
+    return res.status(500).json({ message: 'Server error changing password' });
+  }
+});
+
+// POST /api/auth/forgot-password - same answer whether or not the email exists
+router.post('/forgot-password', [body('email').isEmail()], async (req, res) => {
+  const errors = validationResult(req); if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+  try {
+    await requestPasswordReset(req.body.email, req.ip);
+  } catch (err) {
+    // a mail failure must not reveal that the account exists either
+    console.error('[POST /auth/forgot-password] error:', err);
+  }
+  return res.json({ message: 'If an account exists for that email, a reset link has been sent.' });
+});
+
+// POST /api/auth/reset-password - body: { token, password }
+router.post('/reset-password', [
+  body('token').notEmpty(),
   body('password').notEmpty()
 ], async (req, res) => {
   const errors = validationResult(req); if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
   try {
-    const { email, password } = req.body;
-    const user = await User.findOne({ email });
-    if (!user || !(await user.matchPassword(password))) return res.status(401).json({ message: 'Invalid credentials' });
-    return res.json({ token: genToken(user._id), user: user.toJSON() });
+    const { error } = await resetPassword(req.body.token, req.body.password);
+    if (error) return res.status(400).json({ message: error });
+    clearAuthCookies(res);
+    return res.json({ message: 'Password updated. Please sign in with your new password.' });
   } catch (err) {
-    return res.status(500).json({ message: err.message });
+    console.error('[POST /auth/reset-password] error:', err);
+    return res.status(500).json({ message: 'Server error resetting password' });
   }
 });
 
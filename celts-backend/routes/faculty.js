@@ -2,307 +2,34 @@
 const express = require('express');
 const router = express.Router();
 const mongoose = require('mongoose');
-const { protect, restrictTo } = require('../middleware/authMiddleware');
+const { protect, requireCapability, hasCapability } = require('../middleware/authMiddleware');
 const { body, validationResult } = require('express-validator');
 
 const Batch = require('../models/Batch');
 const Submission = require('../models/Submission');
 const AuditLog = require('../models/AuditLog');
 const StudentStats = require('../models/StudentStats');
-const User = require('../models/User');
-
-function avg(arr) {
-  if (!Array.isArray(arr)) return null;
-  const nums = arr.filter((x) => typeof x === "number" && !Number.isNaN(x));
-  if (!nums.length) return null;
-  const sum = nums.reduce((a, b) => a + b, 0);
-  return Math.round((sum / nums.length) * 2) / 2;
-}
+const { recordModuleGrade } = require('../services/mockResultService');
+const { buildBatchStats } = require('../services/batchStatsService');
 
 
 
-// GET /api/faculty/stats
-router.get("/stats", protect, restrictTo(["faculty"]), async (req, res) => {
+// GET /api/faculty/stats?includeArchived=true
+// Faculty see their own batches; analytics.view sees every batch. Bands are
+// counted towards the batch each test was taken in (see batchStatsService).
+router.get("/stats", protect, requireCapability("students.view", "analytics.view"), async (req, res) => {
   try {
-    const facultyId = req.user._id;
-
-    // Find batches that belong to THIS faculty
-    const facultyBatches = await Batch.find({
-      $or: [
-        { faculty: facultyId },
-        { assignedFaculty: facultyId },
-      ],
-    })
-      .select("_id name students")
-      .lean();
-
-    if (!facultyBatches || facultyBatches.length === 0) {
-      return res.json({
-        summary: {
-          totalStudentsInBatches: 0,
-          totalStudentsWithAnyTest: 0,
-          totalBatches: 0,
-          overallAvgBand: null,
-          readingAvg: null,
-          listeningAvg: null,
-          writingAvg: null,
-          speakingAvg: null,
-        },
-        batches: [],
-        students: [],
-      });
-    }
-
-    const batchIdList = facultyBatches.map((b) => b._id);
-    const batchNameMap = new Map(
-      facultyBatches.map((b) => [String(b._id), b.name])
-    );
-    const batchStudentCountMap = new Map(
-      facultyBatches.map((b) => [
-        String(b._id),
-        Array.isArray(b.students) ? b.students.length : 0,
-      ])
-    );
-
-    // Build a map of studentId -> batchName (first batch found)
-    const studentBatchNameMap = new Map();
-    facultyBatches.forEach((b) => {
-      const bName = b.name;
-      (b.students || []).forEach((sid) => {
-        const sKey = String(sid);
-        if (!studentBatchNameMap.has(sKey)) {
-          studentBatchNameMap.set(sKey, bName);
-        }
-      });
-    });
-
-    // Collect all student IDs from these batches
-    const allStudentIds = [
-      ...new Set(
-        facultyBatches.flatMap((b) =>
-          (b.students || []).map((s) => String(s))
-        )
-      ),
-    ];
-
-    const totalStudentsInBatches = allStudentIds.length;
-
-    // Load StudentStats ONLY for those batches
-    const statsDocs = await StudentStats.find({
-      batch: { $in: batchIdList },
-    }).lean();
-
-    // Load actual User records for these students
-    const studentUsers = await User.find({
-      _id: { $in: allStudentIds },
-      role: 'student',
-    })
-      .select('_id name email systemId')
+    const filter = hasCapability(req, "analytics.view")
+      ? {}
+      : { $or: [{ faculty: req.user._id }, { assignedFaculty: req.user._id }] };
+    if (req.query.includeArchived !== "true") filter.archived = { $ne: true };
+
+    const batches = await Batch.find(filter)
+      .select("_id name students elective archived")
+      .sort({ name: 1 })
       .lean();
 
-    const userMap = new Map(
-      studentUsers.map((u) => [String(u._id), u])
-    );
-
-    // Map studentId -> StudentStats doc (if exists)
-    const statsByStudentId = new Map();
-    statsDocs.forEach((s) => {
-      if (s.student) {
-        statsByStudentId.set(String(s.student), s);
-      }
-    });
-
-    // If there are no StudentStats yet, still return all batches & all students with null bands
-    if (!statsDocs || statsDocs.length === 0) {
-      const batches = facultyBatches.map((b) => ({
-        _id: String(b._id),
-        name: b.name,
-        totalStudentsInBatch: Array.isArray(b.students)
-          ? b.students.length
-          : 0,
-        studentsWithAnyTest: 0,
-        studentsWithReading: 0,
-        studentsWithListening: 0,
-        studentsWithWriting: 0,
-        studentsWithSpeaking: 0,
-        averageBand: null,
-        readingBand: null,
-        listeningBand: null,
-        writingBand: null,
-        speakingBand: null,
-      }));
-
-      // Build students array from allStudentIds + user data, bands null
-      const students = allStudentIds.map((sid) => {
-        const u = userMap.get(sid);
-        return {
-          _id: sid,
-          studentId: sid,
-          name: u?.name || "",
-          email: u?.email || "",
-          systemId: u?.systemId || "",
-          batchName: studentBatchNameMap.get(sid) || null,
-          readingBand: null,
-          listeningBand: null,
-          writingBand: null,
-          speakingBand: null,
-          overallBand: null,
-        };
-      });
-
-      return res.json({
-        summary: {
-          totalStudentsInBatches,
-          totalStudentsWithAnyTest: 0,
-          totalBatches: facultyBatches.length,
-          overallAvgBand: null,
-          readingAvg: null,
-          listeningAvg: null,
-          writingAvg: null,
-          speakingAvg: null,
-        },
-        batches,
-        students,
-      });
-    }
-
-    // Global summary across this faculty's batches (only students WITH stats)
-    const readingBands = statsDocs.map((s) => s.readingBand);
-    const listeningBands = statsDocs.map((s) => s.listeningBand);
-    const writingBands = statsDocs.map((s) => s.writingBand);
-    const speakingBands = statsDocs.map((s) => s.speakingBand);
-    const overallBands = statsDocs.map((s) => s.overallBand);
-
-    const summary = {
-      totalStudentsInBatches,
-      totalStudentsWithAnyTest: statsDocs.length,
-      totalBatches: facultyBatches.length,
-      overallAvgBand: avg(overallBands),
-      readingAvg: avg(readingBands),
-      listeningAvg: avg(listeningBands),
-      writingAvg: avg(writingBands),
-      speakingAvg: avg(speakingBands),
-    };
-
-    // Pre-initialise batchMap with ALL faculty batches
-    const batchMap = new Map();
-    facultyBatches.forEach((b) => {
-      const idStr = String(b._id);
-      batchMap.set(idStr, {
-        _id: idStr,
-        name: b.name,
-        reading: [],
-        listening: [],
-        writing: [],
-        speaking: [],
-        overall: [],
-        studentsWithAnyTest: 0,
-        studentsWithReading: 0,
-        studentsWithListening: 0,
-        studentsWithWriting: 0,
-        studentsWithSpeaking: 0,
-      });
-    });
-
-    // Fold StudentStats into the pre-initialised entries
-    for (const s of statsDocs) {
-      if (!s.batch) continue;
-      const batchIdStr = String(s.batch);
-      const entry = batchMap.get(batchIdStr);
-      if (!entry) continue; // safety
-
-      const hasReading = typeof s.readingBand === "number" && !Number.isNaN(s.readingBand);
-      const hasListening = typeof s.listeningBand === "number" && !Number.isNaN(s.listeningBand);
-      const hasWriting = typeof s.writingBand === "number" && !Number.isNaN(s.writingBand);
-      const hasSpeaking = typeof s.speakingBand === "number" && !Number.isNaN(s.speakingBand);
-
-      const hasAny = hasReading || hasListening || hasWriting || hasSpeaking;
-
-      if (hasAny) entry.studentsWithAnyTest += 1;
-      if (hasReading) {
-        entry.studentsWithReading += 1;
-        entry.reading.push(s.readingBand);
-      }
-      if (hasListening) {
-        entry.studentsWithListening += 1;
-        entry.listening.push(s.listeningBand);
-      }
-      if (hasWriting) {
-        entry.studentsWithWriting += 1;
-        entry.writing.push(s.writingBand);
-      }
-      if (hasSpeaking) {
-        entry.studentsWithSpeaking += 1;
-        entry.speaking.push(s.speakingBand);
-      }
-      if (
-        typeof s.overallBand === "number" &&
-        !Number.isNaN(s.overallBand)
-      ) {
-        entry.overall.push(s.overallBand);
-      }
-    }
-
-    // Build batches array in the SAME order as facultyBatches
-    const batches = facultyBatches.map((b) => {
-      const idStr = String(b._id);
-      const e = batchMap.get(idStr) || {
-        reading: [],
-        listening: [],
-        writing: [],
-        speaking: [],
-        overall: [],
-        studentsWithAnyTest: 0,
-        studentsWithReading: 0,
-        studentsWithListening: 0,
-        studentsWithWriting: 0,
-        studentsWithSpeaking: 0,
-      };
-
-      return {
-        _id: idStr,
-        name: e.name || b.name,
-        totalStudentsInBatch: batchStudentCountMap.get(idStr) || 0,
-        studentsWithAnyTest: e.studentsWithAnyTest || 0,
-        studentsWithReading: e.studentsWithReading || 0,
-        studentsWithListening: e.studentsWithListening || 0,
-        studentsWithWriting: e.studentsWithWriting || 0,
-        studentsWithSpeaking: e.studentsWithSpeaking || 0,
-        averageBand: avg(e.overall),
-        readingBand: avg(e.reading),
-        listeningBand: avg(e.listening),
-        writingBand: avg(e.writing),
-        speakingBand: avg(e.speaking),
-      };
-    });
-
-    // Per-student rows: **ALL** students in these batches
-    const students = allStudentIds.map((sid) => {
-      const u = userMap.get(sid);
-      const st = statsByStudentId.get(sid);
-
-      return {
-        _id: st?._id && st._id.toString ? st._id.toString() : sid,
-        studentId: sid,
-        name: u?.name || st?.name || "",
-        email: u?.email || st?.email || "",
-        systemId: u?.systemId || st?.systemId || "",
-        batchName:
-          studentBatchNameMap.get(sid) ||
-          (st?.batchName || batchNameMap.get(String(st?.batch)) || null),
-        readingBand: typeof st?.readingBand === "number" ? st.readingBand : null,
-        listeningBand: typeof st?.listeningBand === "number" ? st.listeningBand : null,
-        writingBand: typeof st?.writingBand === "number" ? st.writingBand : null,
-        speakingBand: typeof st?.speakingBand === "number" ? st.speakingBand : null,
-        overallBand: typeof st?.overallBand === "number" ? st.overallBand : null,
-      };
-    });
-
-    return res.json({
-      summary,
-      batches,
-      students,
-    });
+    return res.json(await buildBatchStats(batches));
   } catch (err) {
     console.error("[Faculty Stats] Error generating stats:", err);
     return res
@@ -313,11 +40,13 @@ router.get("/stats", protect, restrictTo(["faculty"]), async (req, res) => {
 );
 
 
-// GET /api/faculty/batches
-router.get('/batches', protect, restrictTo(['faculty']), async (req, res) => {
+// GET /api/faculty/batches?includeArchived=true
+router.get('/batches', protect, requireCapability('students.view'), async (req, res) => {
   try {
     const uid = req.user?._id;
-    const batches = await Batch.find({ faculty: uid })
+    const filter = { faculty: uid };
+    if (req.query.includeArchived !== 'true') filter.archived = { $ne: true };
+    const batches = await Batch.find(filter)
       .populate({ path: 'students', select: '_id name email systemId createdAt' })
       .populate({ path: 'faculty', select: '_id name email systemId' })
       .lean();
@@ -332,7 +61,7 @@ router.get('/batches', protect, restrictTo(['faculty']), async (req, res) => {
 
 
 // Faculty view submissions
-router.get('/submissions/:testId', protect, restrictTo(['faculty']), async (req, res) => {
+router.get('/submissions/:testId', protect, requireCapability('students.view'), async (req, res) => {
   try {
     const submissions = await Submission.find({ testSet: req.params.testId }).populate('student', 'name email');
     return res.json(submissions);
@@ -342,7 +71,7 @@ router.get('/submissions/:testId', protect, restrictTo(['faculty']), async (req,
 
 // PATCH /api/faculty/students/:statsId/override-band
 // Faculty can override WRITING or SPEAKING band for a student
-router.patch('/students/:statsId/override-band', protect, restrictTo(['faculty', 'admin']),
+router.patch('/students/:statsId/override-band', protect, requireCapability('scores.override'),
   [
     body('skill')
       .isString()
@@ -377,17 +106,6 @@ router.patch('/students/:statsId/override-band', protect, restrictTo(['faculty',
         return res.status(404).json({ message: 'Student stats not found' });
       }
 
-      // If faculty, must have permission flag
-      if (
-        req.user.role === 'faculty' &&
-        (!req.user.facultyPermissions ||
-          req.user.facultyPermissions.canEditScores !== true)
-      ) {
-        return res
-          .status(403)
-          .json({ message: 'Not allowed to override scores' });
-      }
-
       // skill is "writing" or "speaking"
       const bandField =
         skill === 'writing' ? 'writingBand' : 'speakingBand';
@@ -508,7 +226,7 @@ router.patch('/students/:statsId/override-band', protect, restrictTo(['faculty',
 
 
 // PATCH /api/faculty/submissions/:id/override
-router.patch( "/submissions/:id/override", protect, restrictTo(["faculty", "admin"]),
+router.patch( "/submissions/:id/override", protect, requireCapability("scores.override"),
   [
     body("newBandScore")
       .exists()
@@ -532,17 +250,6 @@ router.patch( "/submissions/:id/override", protect, restrictTo(["faculty", "admi
         return res.status(404).json({ message: "Submission not found" });
       }
 
-      const isAdmin = req.user.role === "admin";
-      const facultyCanEdit =
-        !!req.user.facultyPermissions &&
-        !!req.user.facultyPermissions.canEditScores;
-
-      if (!isAdmin && !facultyCanEdit) {
-        return res
-          .status(403)
-          .json({ message: "Not allowed to override scores" });
-      }
-
       // normalize to 1–9, step 0.5
       function normalizeBand(num) {
         let n = Number(num);
@@ -620,6 +327,9 @@ router.patch( "/submissions/:id/override", protect, restrictTo(["faculty", "admi
 
       await stats.save();
 
+      // a module of a full mock: recompute the mock's overall band
+      await recordModuleGrade(submission);
+
       statsAfter = {
         readingBand: stats.readingBand,
         listeningBand: stats.listeningBand,
@@ -6,18 +6,28 @@ const mongoose = require('mongoose');
 const User = require('../models/User');
 const TestSet = require('../models/TestSet');
 const Submission = require('../models/Submission');
+const AuditLog = require('../models/AuditLog');
 
-const { protect, restrictTo } = require('../middleware/authMiddleware');
+const { protect, requireCapability, hasCapability } = require('../middleware/authMiddleware');
 const { submissionQueue } = require('../services/queue');
+const { revokeUserSessions } = require('../services/tokenService');
+const { sendResetLink } = require('../services/passwordResetService');
+const { validatePassword } = require('../utils/passwordPolicy');
+const { isTwoFactorEligible, clearTwoFactor } = require('../services/twoFactorService');
+const { checkUserOverrides, checkCustomRoles } = require('../services/permissionService');
+const { impactOf, softDelete } = require('../services/recycleBinService');
 
 const adminAssignRoutes = require('./adminAssignments');
 const adminBulkRoutes = require('./adminBulk');
 const adminBatchRoutes = require('./adminBatches');
+const adminBandTableRoutes = require('./adminBandTables');
+const invitationRoutes = require('./invitations');
 const proctorRoutes = require('./proctor');
 const mediaRoutes = require('./media');
 const facultyRoutes = require('./faculty');
 const studentRoutes = require('./student');
 const teacherTestsRoutes = require('./teacherTests');
+const questionBankRoutes = require('./questionBank');
 const studentStatsRoutes = require('./studentStats');
 const adminAuditRoutes = require("./adminAudit");
 const securityRoutes = require('./security');
@@ -28,7 +38,10 @@ const testSecurityRoutes = require('./testSecurity');
 router.get('/', (req, res) => res.json({ message: 'CELTS Backend running successfully!', timestamp: Date.now() }));
 
 // Mount other routers (these files should exist and export a router)
+router.use('/auth/2fa', require('./twoFactor'));
+router.use('/auth/sso', require('./sso'));
 router.use('/auth', require('./auth'));
+router.use('/invitations', invitationRoutes);
 router.use('/admin/assign', adminAssignRoutes);
 router.use('/admin/bulk', adminBulkRoutes);
 router.use('/proctor', proctorRoutes);
@@ -36,6 +49,11 @@ router.use('/media', mediaRoutes);
 router.use('/faculty', facultyRoutes);
 router.use('/student', studentRoutes);
 router.use('/admin/batches', adminBatchRoutes);
+router.use('/admin/terms', require('./adminTerms'));
+router.use('/admin/band-tables', adminBandTableRoutes);
+router.use('/admin/recycle-bin', require('./adminRecycleBin'));
+router.use('/admin/permissions', require('./adminPermissions'));
+router.use('/teacher/tests/bank', questionBankRoutes);
 router.use('/teacher/tests', teacherTestsRoutes);
 router.use('/student', studentStatsRoutes);
 router.use('/studentStats', studentStatsRoutes);
@@ -46,7 +64,7 @@ router.use('/test', testSecurityRoutes); // Development/testing only
 
 
 // ADMIN: Get user
-router.get('/admin/users', protect, restrictTo(['admin']), async (req, res) => {
+router.get('/admin/users', protect, requireCapability('users.manage'), async (req, res) => {
   try {
     const { role } = req.query;
     const filter = {};
@@ -62,12 +80,25 @@ router.get('/admin/users', protect, restrictTo(['admin']), async (req, res) => {
 
 
 // ADMIN: Create / Onboard user (enhanced with optional immediate assignment)
-router.post('/admin/users', protect, restrictTo(['admin']), async (req, res) => {
-  const { name, email, systemId,  password, role, canEditScores = false, assignedFaculty, cohort } = req.body;
+router.post('/admin/users', protect, requireCapability('users.manage'), async (req, res) => {
+  const { name, email, systemId,  password, role, assignedFaculty, cohort } = req.body;
   try {
     if (!name || !email || !systemId || !password) return res.status(400).json({ message: 'name, email, id and password are required' });
+    if (!hasCapability(req, 'permissions.manage')
+      && (role === 'admin' || req.body.permissions !== undefined || req.body.customRoles !== undefined)) {
+      return res.status(403).json({ message: 'Creating admins or setting permissions requires permissions.manage' });
+    }
+
+    const overrides = checkUserOverrides(req.body.permissions, role);
+    if (overrides.error) return res.status(400).json({ message: overrides.error });
+    const custom = await checkCustomRoles(req.body.customRoles, role);
+    if (custom.error) return res.status(400).json({ message: custom.error });
 
-    if (await User.findOne({ email })) return res.status(400).json({ message: 'User already exists' });
+    const existing = await User.findOne({ $or: [{ email }, { systemId }] }).setOptions({ withDeleted: true }).lean();
+    if (existing && existing.deletedAt) {
+      return res.status(400).json({ message: 'A deleted account with this email or ID is in the recycle bin; restore it instead' });
+    }
+    if (existing) return res.status(400).json({ message: 'User already exists' });
 
     const user = await User.create({
       name,
@@ -75,8 +106,10 @@ router.post('/admin/users', protect, restrictTo(['admin']), async (req, res) =>
       systemId,
       password,
       role,
-      facultyPermissions: { canEditScores },
-      cohort: cohort || ''
+      permissions: overrides.permissions,
+      customRoles: custom.roleIds,
+      cohort: cohort || '',
+      mustChangePassword: true
     });
 
     // If admin provided assignedFaculty for a student, attach bidirectionally (best-effort)
@@ -102,22 +135,18 @@ router.post('/admin/users', protect, restrictTo(['admin']), async (req, res) =>
 
 
 // ADMIN: Update user
-router.put('/admin/users/:id', protect, restrictTo(['admin']), async (req, res) => {
+router.put('/admin/users/:id', protect, requireCapability('users.manage'), async (req, res) => {
   const id = req.params.id;
   try {
     if (!mongoose.Types.ObjectId.isValid(id)) return res.status(400).json({ message: 'Invalid user id' });
 
-    const allowed = ['name', 'email', 'systemId', 'role', 'cohort', 'assignedFaculty', 'facultyPermissions'];
+    // permissions are edited through /admin/permissions, never here
+    const allowed = ['name', 'email', 'systemId', 'role', 'cohort', 'assignedFaculty'];
     const updates = {};
     for (const key of allowed) {
       if (req.body[key] !== undefined) updates[key] = req.body[key];
     }
 
-    // If facultyPermissions passed as an object, only accept canEditScores boolean
-    if (updates.facultyPermissions && typeof updates.facultyPermissions === 'object') {
-      updates.facultyPermissions = { canEditScores: Boolean(updates.facultyPermissions.canEditScores) };
-    }
-
     // If changing assignedFaculty ensure valid faculty id or null
     if (updates.assignedFaculty) {
       if (!mongoose.Types.ObjectId.isValid(updates.assignedFaculty)) {
@@ -127,12 +156,27 @@ router.put('/admin/users/:id', protect, restrictTo(['admin']), async (req, res)
       if (!fac || fac.role !== 'faculty') return res.status(400).json({ message: 'Assigned user is not a faculty' });
     }
 
-    const user = await User.findById(id);
+    const user = await User.findOne({ _id: id, deletedAt: null });
     if (!user) return res.status(404).json({ message: 'User not found' });
+    // includes the email an admin's reset links go to
+    if (user.role === 'admin' && !hasCapability(req, 'permissions.manage')) {
+      return res.status(403).json({ message: 'Changing admin accounts requires permissions.manage' });
+    }
+    // moving someone into or out of admin is a permission change
+    if (updates.role && updates.role !== user.role && [updates.role, user.role].includes('admin')
+      && !hasCapability(req, 'permissions.manage')) {
+      return res.status(403).json({ message: 'Changing admin accounts requires permissions.manage' });
+    }
 
     // Keep track of old assignedFaculty to update reverse refs if needed
     const oldAssigned = user.assignedFaculty ? user.assignedFaculty.toString() : null;
 
+    // custom roles and per-user overrides belong to the old base role
+    if (updates.role && updates.role !== user.role) {
+      user.customRoles = [];
+      user.permissions = { granted: [], revoked: [] };
+    }
+
     // apply updates
     Object.assign(user, updates);
     await user.save();
@@ -173,38 +217,59 @@ router.put('/admin/users/:id', protect, restrictTo(['admin']), async (req, res)
 });
 
 
-// ADMIN: Delete User
-router.delete('/admin/users/:id', protect, restrictTo(['admin']), async (req, res) => {
+// ADMIN: What deleting a user would affect
+router.get('/admin/users/:id/impact', protect, requireCapability('users.manage'), async (req, res) => {
+  const id = req.params.id;
+  try {
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid user id' });
+    }
+    const user = await User.findOne({ _id: id, deletedAt: null }).lean();
+    if (!user) return res.status(404).json({ message: 'User not found' });
+    return res.json(await impactOf('user', user));
+  } catch (err) {
+    console.error('[GET /admin/users/:id/impact] error:', err);
+    return res.status(500).json({ message: 'Server error checking user dependencies' });
+  }
+});
+
+
+
+// ADMIN: Delete User (moves the account to the recycle bin; see /admin/recycle-bin)
+router.delete('/admin/users/:id', protect, requireCapability('users.manage'), async (req, res) => {
   const id = req.params.id;
 
   try {
     if (!mongoose.Types.ObjectId.isValid(id)) {
       return res.status(400).json({ message: 'Invalid user id' });
     }
+    if (id === req.user._id.toString()) {
+      return res.status(400).json({ message: 'You cannot delete your own account' });
+    }
 
-    const user = await User.findById(id);
+    const user = await User.findOne({ _id: id, deletedAt: null });
     if (!user) {
       return res.status(404).json({ message: 'User not found' });
     }
-
-    // Clean up relationships if needed
-    if (user.role === 'student' && user.assignedFaculty) {
-      await User.updateOne(
-        { _id: user.assignedFaculty },
-        { $pull: { students: user._id } }
-      );
-    }
-
-    if (user.role === 'faculty' && Array.isArray(user.students) && user.students.length > 0) {
-      await User.updateMany(
-        { _id: { $in: user.students } },
-        { $unset: { assignedFaculty: "" } }
-      );
+    if (user.role === 'admin' && !hasCapability(req, 'permissions.manage')) {
+      return res.status(403).json({ message: 'Deleting admin accounts requires permissions.manage' });
     }
 
-    await User.findByIdAndDelete(id);
+    const result = await softDelete('user', user, req.user);
+    if (result.error) return res.status(400).json({ message: result.error });
+
+    await AuditLog.create({
+      action: 'user_delete',
+      targetType: 'User',
+      targetId: user._id,
+      changedBy: req.user._id,
+      changedByRole: req.user.role,
+      oldValue: { name: user.name, email: user.email, systemId: user.systemId, role: user.role },
+      meta: result.impact.counts,
+      reason: req.body?.reason || '',
+    });
 
-    res.json({ message: 'User deleted successfully' });
+    res.json({ message: 'User moved to the recycle bin', impact: result.impact });
   } catch (error) {
     console.error('Delete user error:', error);
     res.status(500).json({ message: 'Error deleting user', details: error.message });
@@ -213,7 +278,7 @@ router.delete('/admin/users/:id', protect, restrictTo(['admin']), async (req, re
 
 
 // ADMIN: Reset user password
-router.patch('/admin/users/:id/password', protect, restrictTo(['admin']), async (req, res) => {
+router.patch('/admin/users/:id/password', protect, requireCapability('users.manage'), async (req, res) => {
   try {
     const { id } = req.params;
     const { newPassword } = req.body;
@@ -222,22 +287,25 @@ router.patch('/admin/users/:id/password', protect, restrictTo(['admin']), async
       return res.status(400).json({ message: 'Invalid user id' });
     }
 
-    if (!newPassword || newPassword.length < 4) {
-      return res
-        .status(400)
-        .json({ message: 'Password must be at least 4 characters.' });
-    }
-
-    const user = await User.findById(id);
+    const user = await User.findOne({ _id: id, deletedAt: null });
     if (!user) {
       return res.status(404).json({ message: 'User not found' });
     }
+    if (user.role === 'admin' && !hasCapability(req, 'permissions.manage')) {
+      return res.status(403).json({ message: 'Resetting admin passwords requires permissions.manage' });
+    }
+
+    const weak = validatePassword(newPassword, user);
+    if (weak) return res.status(400).json({ message: weak });
 
     user.password = newPassword;
+    // an admin-chosen password is temporary
+    user.mustChangePassword = true;
 
     await user.save();
+    await revokeUserSessions(user._id, 'password_reset');
 
-    return res.json({ message: 'Password updated successfully.' });
+    return res.json({ message: 'Password updated successfully. The user must change it at next login.' });
   } catch (err) {
     console.error('[Admin change password] error:', err);
     return res
@@ -249,26 +317,169 @@ router.patch('/admin/users/:id/password', protect, restrictTo(['admin']), async
 
 
 
-// ADMIN: Update faculty permissions 
-router.patch('/admin/faculty/:id/permissions', protect, restrictTo(['admin']), async (req, res) => {
-  const { canEditScores } = req.body;
+// ADMIN: Email the user a self-service reset link instead of setting a password
+router.post('/admin/users/:id/password-reset-link', protect, requireCapability('users.manage'), async (req, res) => {
+  const { id } = req.params;
   try {
-    if (!mongoose.Types.ObjectId.isValid(req.params.id)) return res.status(400).json({ message: 'Invalid faculty id' });
-    const faculty = await User.findById(req.params.id);
-    if (!faculty || faculty.role !== 'faculty') return res.status(404).json({ message: 'Faculty user not found' });
-    faculty.facultyPermissions.canEditScores = Boolean(canEditScores);
-    await faculty.save();
-    return res.json({ message: `Faculty ${faculty.name} permissions updated. Can edit scores: ${faculty.facultyPermissions.canEditScores}` });
-  } catch (error) {
-    console.error('Update faculty permissions error:', error);
-    return res.status(500).json({ message: 'Error updating permissions', details: error.message });
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid user id' });
+    }
+    const user = await User.findOne({ _id: id, deletedAt: null });
+    if (!user) return res.status(404).json({ message: 'User not found' });
+    if (user.role === 'admin' && !hasCapability(req, 'permissions.manage')) {
+      return res.status(403).json({ message: 'Resetting admin passwords requires permissions.manage' });
+    }
+    if (user.isActive === false) return res.status(400).json({ message: 'User is deactivated' });
+
+    await sendResetLink(user, req.ip);
+    return res.json({ message: `Reset link sent to ${user.email}` });
+  } catch (err) {
+    console.error('[POST /admin/users/:id/password-reset-link] error:', err);
+    return res.status(500).json({ message: 'Server error sending reset link' });
+  }
+});
+
+
+
+// ADMIN: Activate / deactivate a user; deactivation ends all their sessions
+router.patch('/admin/users/:id/status', protect, requireCapability('users.manage'), async (req, res) => {
+  const { id } = req.params;
+  try {
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid user id' });
+    }
+    if (typeof req.body.isActive !== 'boolean') {
+      return res.status(400).json({ message: 'isActive must be true or false' });
+    }
+    if (id === req.user._id.toString() && !req.body.isActive) {
+      return res.status(400).json({ message: 'You cannot deactivate your own account' });
+    }
+
+    const user = await User.findOne({ _id: id, deletedAt: null });
+    if (!user) return res.status(404).json({ message: 'User not found' });
+    if (user.role === 'admin' && !hasCapability(req, 'permissions.manage')) {
+      return res.status(403).json({ message: 'Activating or deactivating admin accounts requires permissions.manage' });
+    }
+
+    const wasActive = user.isActive !== false;
+    user.isActive = req.body.isActive;
+    await user.save();
+    if (!user.isActive) await revokeUserSessions(user._id, 'deactivated');
+
+    if (wasActive !== user.isActive) {
+      await AuditLog.create({
+        action: user.isActive ? 'user_activate' : 'user_deactivate',
+        targetType: 'User',
+        targetId: user._id,
+        changedBy: req.user._id,
+        changedByRole: req.user.role,
+        oldValue: { isActive: wasActive },
+        newValue: { isActive: user.isActive },
+        reason: req.body.reason || '',
+      });
+    }
+
+    return res.json({ message: user.isActive ? 'User activated' : 'User deactivated', user: user.toJSON() });
+  } catch (err) {
+    console.error('[PATCH /admin/users/:id/status] error:', err);
+    return res.status(500).json({ message: 'Server error updating user status' });
+  }
+});
+
+
+
+// ADMIN: Reset a user's 2FA (lost device). They enrol again at next login if 2FA is required.
+router.post('/admin/users/:id/2fa/reset', protect, requireCapability('users.manage'), async (req, res) => {
+  const { id } = req.params;
+  try {
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid user id' });
+    }
+    const reason = String(req.body.reason || '').trim();
+    if (!reason) return res.status(400).json({ message: 'A reason is required to reset two-factor authentication' });
+
+    const user = await User.findOne({ _id: id, deletedAt: null });
+    if (!user) return res.status(404).json({ message: 'User not found' });
+    if (user.role === 'admin' && !hasCapability(req, 'permissions.manage')) {
+      return res.status(403).json({ message: 'Resetting two-factor authentication of admin accounts requires permissions.manage' });
+    }
+    if (!user.twoFactor.enabled) return res.status(400).json({ message: 'Two-factor authentication is not enabled for this user' });
+
+    await clearTwoFactor(user._id);
+    // sessions started with the old device shouldn't outlive it
+    await revokeUserSessions(user._id, '2fa_reset');
+
+    await AuditLog.create({
+      action: 'user_2fa_reset',
+      targetType: 'User',
+      targetId: user._id,
+      changedBy: req.user._id,
+      changedByRole: req.user.role,
+      oldValue: { enabled: true, enabledAt: user.twoFactor.enabledAt },
+      newValue: { enabled: false },
+      reason,
+    });
+
+    return res.json({ message: `Two-factor authentication reset for ${user.name}` });
+  } catch (err) {
+    console.error('[POST /admin/users/:id/2fa/reset] error:', err);
+    return res.status(500).json({ message: 'Server error resetting two-factor authentication' });
+  }
+});
+
+
+
+// ADMIN: Require (or stop requiring) 2FA for an admin/faculty account
+router.patch('/admin/users/:id/2fa/required', protect, requireCapability('users.manage'), async (req, res) => {
+  const { id } = req.params;
+  try {
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid user id' });
+    }
+    if (typeof req.body.required !== 'boolean') {
+      return res.status(400).json({ message: 'required must be true or false' });
+    }
+
+    const user = await User.findOne({ _id: id, deletedAt: null });
+    if (!user) return res.status(404).json({ message: 'User not found' });
+    if (user.role === 'admin' && !hasCapability(req, 'permissions.manage')) {
+      return res.status(403).json({ message: 'Changing two-factor requirements of admin accounts requires permissions.manage' });
+    }
+    if (!isTwoFactorEligible(user)) {
+      return res.status(400).json({ message: 'Two-factor authentication is only available for admin and faculty accounts' });
+    }
+
+    const wasRequired = !!user.twoFactor.required;
+    user.twoFactor.required = req.body.required;
+    await user.save();
+
+    if (wasRequired !== user.twoFactor.required) {
+      await AuditLog.create({
+        action: user.twoFactor.required ? 'user_2fa_require' : 'user_2fa_unrequire',
+        targetType: 'User',
+        targetId: user._id,
+        changedBy: req.user._id,
+        changedByRole: req.user.role,
+        oldValue: { required: wasRequired },
+        newValue: { required: user.twoFactor.required },
+        reason: req.body.reason || '',
+      });
+    }
+
+    return res.json({
+      message: user.twoFactor.required ? 'Two-factor authentication is now required' : 'Two-factor authentication is now optional',
+      user: user.toJSON(),
+    });
+  } catch (err) {
+    console.error('[PATCH /admin/users/:id/2fa/required] error:', err);
+    return res.status(500).json({ message: 'Server error updating two-factor requirement' });
   }
 });
 
 
 
 // ADMIN: Analytics (simple live metrics)
-router.get('/admin/analytics', protect, restrictTo(['admin']), async (req, res) => {
+router.get('/admin/analytics', protect, requireCapability('analytics.view'), async (req, res) => {
   try {
     const totalUsers = await User.countDocuments();
     const totalTests = await TestSet.countDocuments();
@@ -295,7 +506,7 @@ router.get('/admin/analytics', protect, restrictTo(['admin']), async (req, res)
 
 
 // Student submission status endpoint 
-router.get('/student/submission/:id/status', protect, restrictTo(['student']), async (req, res) => {
+router.get('/student/submission/:id/status', protect, requireCapability('exams.take'), async (req, res) => {
   const id = req.params.id;
   try {
     if (!mongoose.Types.ObjectId.isValid(id)) return res.status(400).json({ message: 'Invalid submission id' });
@@ -312,7 +523,7 @@ router.get('/student/submission/:id/status', protect, restrictTo(['student']), a
 
 
 // Admin or faculty with permission might want to re-run scoring 
-router.post('/admin/submission/:id/reprocess', protect, restrictTo(['admin', 'faculty']), async (req, res) => {
+router.post('/admin/submission/:id/reprocess', protect, requireCapability('submissions.reprocess'), async (req, res) => {
   const id = req.params.id;
   try {
     if (!mongoose.Types.ObjectId.isValid(id)) return res.status(400).json({ message: 'Invalid submission id' });
@@ -337,7 +548,7 @@ router.post('/admin/submission/:id/reprocess', protect, restrictTo(['admin', 'fa
 
 
 // GET /api/admin/tests
-router.get("/admin/tests", protect, restrictTo(["admin"]), async (req, res) => {
+router.get("/admin/tests", protect, requireCapability("tests.view_all"), async (req, res) => {
   try {
     const tests = await TestSet.find({})
       .populate("createdBy", "name systemId")
@@ -379,7 +590,7 @@ router.get("/admin/tests", protect, restrictTo(["admin"]), async (req, res) => {
 );
 
 // GET /api/admin/tests/:id
-router.get("/admin/tests/:id", protect, restrictTo(["admin"]), async (req, res) => {
+router.get("/admin/tests/:id", protect, requireCapability("tests.view_all"), async (req, res) => {
   const { id } = req.params;
 
   if (!id || !id.match(/^[0-9a-fA-F]{24}$/)) {
@@ -387,7 +598,7 @@ router.get("/admin/tests/:id", protect, restrictTo(["admin"]), async (req, res)
   }
 
   try {
-    const test = await TestSet.findById(id)
+    const test = await TestSet.findOne({ _id: id, deletedAt: null })
       .populate("createdBy", "name systemId")
       .lean();
 
@@ -0,0 +1,237 @@
+// routes/invitations.js
+const express = require('express');
+const router = express.Router();
+const mongoose = require('mongoose');
+const { body, validationResult } = require('express-validator');
+const { protect, requireCapability, hasCapability } = require('../middleware/authMiddleware');
+
+const Invitation = require('../models/Invitation');
+const { issueSession } = require('../services/tokenService');
+const { validatePassword } = require('../utils/passwordPolicy');
+const { userWithCapabilities } = require('../services/permissionService');
+const {
+  invitationStatus,
+  validateInvite,
+  createInvitation,
+  reissueInvitation,
+  findUsableInvitation,
+  acceptInvitation,
+  sendInvitationEmail,
+} = require('../services/invitationService');
+
+const MAX_BULK_INVITES = 500;
+
+function toView(inv) {
+  return {
+    _id: inv._id,
+    email: inv.email,
+    name: inv.name,
+    role: inv.role,
+    systemId: inv.systemId,
+    batch: inv.batch,
+    invitedBy: inv.invitedBy,
+    expiresAt: inv.expiresAt,
+    acceptedAt: inv.acceptedAt,
+    acceptedUser: inv.acceptedUser,
+    createdAt: inv.createdAt,
+    status: invitationStatus(inv),
+  };
+}
+
+// without users.manage, only the invitations you sent are visible and manageable
+function scopeFilter(req) {
+  return hasCapability(req, 'users.manage') ? {} : { invitedBy: req.user._id };
+}
+
+// GET /api/invitations?status=pending|accepted|expired|revoked
+router.get('/', protect, requireCapability('users.invite'), async (req, res) => {
+  try {
+    const filter = scopeFilter(req);
+    const { status } = req.query;
+    if (status === 'expired') {
+      Object.assign(filter, { status: 'pending', expiresAt: { $lte: new Date() } });
+    } else if (status === 'pending') {
+      Object.assign(filter, { status: 'pending', expiresAt: { $gt: new Date() } });
+    } else if (status) {
+      filter.status = status;
+    }
+
+    const invitations = await Invitation.find(filter)
+      .sort({ createdAt: -1 })
+      .limit(1000)
+      .populate('batch', 'name')
+      .populate('invitedBy', 'name email')
+      .lean();
+
+    return res.json(invitations.map(toView));
+  } catch (err) {
+    console.error('[GET /invitations] error:', err);
+    return res.status(500).json({ message: 'Server error fetching invitations' });
+  }
+});
+
+// POST /api/invitations - body: { email, name?, role, systemId, batchId?, expiresInDays? }
+router.post('/', protect, requireCapability('users.invite'), async (req, res) => {
+  try {
+    const { error, data } = await validateInvite(req.body, req.user, req.capabilities);
+    if (error) return res.status(400).json({ message: error });
+
+    const { invitation, link } = await createInvitation(data, req.user, req.body.expiresInDays);
+    const emailed = await sendInvitationEmail(invitation, link, req.user);
+    return res.status(201).json({ message: 'Invitation created', invitation: toView(invitation), link, emailed });
+  } catch (err) {
+    console.error('[POST /invitations] error:', err);
+    return res.status(500).json({ message: 'Server error creating invitation' });
+  }
+});
+
+// POST /api/invitations/bulk
+// body: { invites: [{ email, name?, systemId, role?, batchId? }], role?, batchId?, expiresInDays? }
+// role/batchId apply to rows that don't set their own. Rows are independent.
+router.post('/bulk', protect, requireCapability('users.invite'), async (req, res) => {
+  const { invites, role, batchId, expiresInDays } = req.body;
+  if (!Array.isArray(invites) || invites.length === 0) {
+    return res.status(400).json({ message: 'invites must be a non-empty array' });
+  }
+  if (invites.length > MAX_BULK_INVITES) {
+    return res.status(400).json({ message: `At most ${MAX_BULK_INVITES} invitations per request` });
+  }
+
+  try {
+    const created = [];
+    const failed = [];
+    const seenEmails = new Set();
+    const seenSystemIds = new Set();
+
+    for (let i = 0; i < invites.length; i++) {
+      const row = { role, batchId, ...invites[i] };
+      const email = String(row.email || '').trim().toLowerCase();
+      const systemId = String(row.systemId || '').trim();
+
+      if (seenEmails.has(email) || seenSystemIds.has(systemId)) {
+        failed.push({ row: i + 1, email, error: 'Duplicate email or systemId in this upload' });
+        continue;
+      }
+      seenEmails.add(email);
+      seenSystemIds.add(systemId);
+
+      const { error, data } = await validateInvite(row, req.user, req.capabilities);
+      if (error) {
+        failed.push({ row: i + 1, email, error });
+        continue;
+      }
+      const { invitation, link } = await createInvitation(data, req.user, expiresInDays);
+      const emailed = await sendInvitationEmail(invitation, link, req.user);
+      created.push({ row: i + 1, email, invitationId: invitation._id, link, emailed });
+    }
+
+    return res.status(201).json({
+      message: `${created.length} invitation(s) created, ${failed.length} failed`,
+      created,
+      failed,
+    });
+  } catch (err) {
+    console.error('[POST /invitations/bulk] error:', err);
+    return res.status(500).json({ message: 'Server error creating invitations' });
+  }
+});
+
+// POST /api/invitations/:id/resend - new link and expiry; the old link stops working
+router.post('/:id/resend', protect, requireCapability('users.invite'), async (req, res) => {
+  const { id } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return res.status(400).json({ message: 'Invalid invitation id' });
+  }
+
+  try {
+    const invitation = await Invitation.findOne({ _id: id, ...scopeFilter(req) });
+    if (!invitation) return res.status(404).json({ message: 'Invitation not found' });
+    if (invitation.status !== 'pending') {
+      return res.status(400).json({ message: `Invitation is already ${invitation.status}` });
+    }
+    // a renewed link is handed back, so it is an admin invite of its own
+    if (invitation.role === 'admin' && !hasCapability(req, 'permissions.manage')) {
+      return res.status(403).json({ message: 'Inviting admin accounts requires permissions.manage' });
+    }
+
+    const { link } = await reissueInvitation(invitation, req.body.expiresInDays);
+    const emailed = await sendInvitationEmail(invitation, link, req.user);
+    return res.json({ message: 'Invitation renewed', invitation: toView(invitation), link, emailed });
+  } catch (err) {
+    console.error('[POST /invitations/:id/resend] error:', err);
+    return res.status(500).json({ message: 'Server error renewing invitation' });
+  }
+});
+
+// DELETE /api/invitations/:id - revoke a pending invitation
+router.delete('/:id', protect, requireCapability('users.invite'), async (req, res) => {
+  const { id } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return res.status(400).json({ message: 'Invalid invitation id' });
+  }
+
+  try {
+    const invitation = await Invitation.findOneAndUpdate(
+      { _id: id, status: 'pending', ...scopeFilter(req) },
+      { status: 'revoked' },
+      { new: true }
+    );
+    if (!invitation) return res.status(404).json({ message: 'Pending invitation not found' });
+    return res.json({ message: 'Invitation revoked', invitation: toView(invitation) });
+  } catch (err) {
+    console.error('[DELETE /invitations/:id] error:', err);
+    return res.status(500).json({ message: 'Server error revoking invitation' });
+  }
+});
+
+// GET /api/invitations/accept/:token - public; what the invitee is signing up as
+router.get('/accept/:token', async (req, res) => {
+  try {
+    const invitation = await findUsableInvitation(req.params.token);
+    if (!invitation) {
+      return res.status(404).json({ message: 'This invitation link is invalid or has expired' });
+    }
+    return res.json({
+      email: invitation.email,
+      name: invitation.name,
+      role: invitation.role,
+      systemId: invitation.systemId,
+      batch: invitation.batch ? invitation.batch.name : null,
+      expiresAt: invitation.expiresAt,
+    });
+  } catch (err) {
+    console.error('[GET /invitations/accept/:token] error:', err);
+    return res.status(500).json({ message: 'Server error loading invitation' });
+  }
+});
+
+// POST /api/invitations/accept - public; body: { token, password, name? }
+router.post('/accept', [
+  body('token').notEmpty(),
+  body('password').notEmpty()
+], async (req, res) => {
+  const errors = validationResult(req); if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+  try {
+    const pending = await findUsableInvitation(req.body.token);
+    if (pending) {
+      const policyError = validatePassword(req.body.password, pending);
+      if (policyError) return res.status(400).json({ message: policyError });
+    }
+
+    const user = await acceptInvitation(req.body.token, req.body.password, req.body.name);
+    if (!user) {
+      return res.status(400).json({ message: 'This invitation link is invalid, already used or has expired' });
+    }
+
+    await issueSession(res, user, req);
+    return res.status(201).json({ message: 'Account created', user: await userWithCapabilities(user) });
+  } catch (err) {
+    if (err.code === 11000) {
+      return res.status(400).json({ message: 'An account with this email or systemId already exists' });
+    }
+    console.error('[POST /invitations/accept] error:', err);
+    return res.status(500).json({ message: 'Server error accepting invitation' });
+  }
+});
+
+module.exports = router;
@@ -2,13 +2,15 @@ const express = require("express");
 const fs = require("fs");
 const path = require("path");
 const multer = require("multer");
-const { protect, restrictTo } = require("../middleware/authMiddleware");
+const { protect, requireCapability } = require("../middleware/authMiddleware");
 const { uploadToS3, deleteFromS3, isS3Configured } = require("../config/s3");
 const { isS3Url, getStorageProvider } = require("../utils/s3Utils");
+const { storeMedia, isAllowedMediaType } = require("../services/mediaStorage");
 
 const router = express.Router();
 
 const adminUploadDir = path.join(__dirname, "../uploads/audio");
+const imageUploadDir = path.join(__dirname, "../uploads/images");
 const studentUploadDir = path.join(__dirname, "../uploads/studentSubmission");
 
 for (const dir of [adminUploadDir, studentUploadDir]) {
@@ -17,31 +19,14 @@ for (const dir of [adminUploadDir, studentUploadDir]) {
   }
 }
 
-const allowedMimes = new Set([
-  "audio/mpeg",
-  "audio/mp3",
-  "audio/wav",
-  "audio/x-wav",
-  "audio/x-m4a",
-  "audio/mp4",
-  "audio/aac",
-  "audio/ogg",
-  "audio/webm",
-  "video/mp4",
-  "video/webm",
-  "video/ogg",
-  "video/quicktime", 
-  "video/x-matroska"  
-]);
-
 // Multer storage factory 
 function createUploader(destinationFolder) {
   return multer({
     storage: multer.memoryStorage(), 
     limits: { fileSize: 20 * 1024 * 1024 }, 
     fileFilter: (req, file, cb) => {
-      if (!allowedMimes.has(file.mimetype)) {
-        const err = new Error("Invalid file type. Audio & video only.");
+      if (!isAllowedMediaType(file.mimetype)) {
+        const err = new Error("Invalid file type. Audio, video and images (PNG, JPEG, GIF, WebP) only.");
         err.code = "INVALID_FILE_TYPE";
         return cb(err);
       }
@@ -63,49 +48,32 @@ if (useS3) {
 }
 
 // Admin/Faculty upload 
-router.post("/upload", protect, restrictTo(["faculty", "admin"]), adminUpload.single("file"), async (req, res) => {
+router.post("/upload", protect, requireCapability("media.upload"), adminUpload.single("file"), async (req, res) => {
   try {
     if (!req.file) return res.status(400).json({ message: "No file uploaded" });
 
-    if (useS3) {
-      try {
-        const fileName = req.file.originalname || 'audio_file';
-        const s3Url = await uploadToS3(req.file.buffer, fileName, req.file.mimetype, 'audio');
-        
-        console.log('Audio uploaded to S3 successfully:', s3Url);
-        return res.json({ 
-          message: "Audio uploaded successfully to S3", 
-          url: s3Url,
-          provider: 'S3'
-        });
-      } catch (s3Error) {
-        console.error('S3 upload failed, falling back to local storage:', s3Error);
-      }
-    }
-
-    const unique = Date.now() + "-" + Math.round(Math.random() * 1e9);
-    const ext = path.extname(req.file.originalname) || '.mp3';
-    const filename = `${unique}${ext}`;
-    const filepath = path.join(adminUploadDir, filename);
-    
-    fs.writeFileSync(filepath, req.file.buffer);
-    
-    const fileUrl = `${req.protocol}://${req.get("host")}/uploads/audio/${filename}`;
-    res.json({ 
-      message: "Audio uploaded successfully", 
-      url: fileUrl,
-      provider: 'local'
+    const isImage = req.file.mimetype.startsWith("image/");
+    const kind = isImage ? "Image" : "Audio";
+    const stored = await storeMedia(req.file.buffer, req.file.originalname || (isImage ? 'image_file' : 'audio_file'), req.file.mimetype, {
+      folder: isImage ? 'images' : 'audio',
+      baseUrl: `${req.protocol}://${req.get("host")}`,
+    });
+    if (stored.provider === 'S3') console.log(`${kind} uploaded to S3 successfully:`, stored.url);
+    res.json({
+      message: stored.provider === 'S3' ? `${kind} uploaded successfully to S3` : `${kind} uploaded successfully`,
+      url: stored.url,
+      provider: stored.provider
     });
   } catch (err) {
     console.error("Admin upload error:", err);
-    res.status(500).json({ message: "Error uploading audio" });
+    res.status(500).json({ message: "Error uploading media" });
   }
 });
 
 
 
 // Student upload (audio/video)
-router.post("/upload/student", protect, restrictTo(["student"]), studentUpload.single("file"), async (req, res) => {
+router.post("/upload/student", protect, requireCapability("exams.take"), studentUpload.single("file"), async (req, res) => {
   try {
     if (!req.file) return res.status(400).json({ message: "No file uploaded" });
 
@@ -149,7 +117,7 @@ router.post("/upload/student", protect, restrictTo(["student"]), studentUpload.s
 });
 
 // Delete audio file (for admin/faculty)
-router.delete("/delete", protect, restrictTo(["faculty", "admin"]), async (req, res) => {
+router.delete("/delete", protect, requireCapability("media.upload"), async (req, res) => {
   try {
     const { url } = req.body;
     
@@ -165,7 +133,7 @@ router.delete("/delete", protect, restrictTo(["faculty", "admin"]), async (req,
 
     // Handle local file deletion
     const filename = path.basename(url);
-    const filepath = path.join(adminUploadDir, filename);
+    const filepath = path.join(/\/uploads\/images\//.test(url) ? imageUploadDir : adminUploadDir, filename);
     
     if (fs.existsSync(filepath)) {
       fs.unlinkSync(filepath);
@@ -180,7 +148,7 @@ router.delete("/delete", protect, restrictTo(["faculty", "admin"]), async (req,
 });
 
 // Get storage configuration info (for admin/faculty)
-router.get("/config", protect, restrictTo(["faculty", "admin"]), (req, res) => {
+router.get("/config", protect, requireCapability("media.upload"), (req, res) => {
   res.json({
     storageProvider: useS3 ? 'S3' : 'Local',
     description: useS3 ? 'Amazon S3 (Cloud)' : 'Local Server Storage',
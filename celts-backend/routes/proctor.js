@@ -3,10 +3,10 @@ const express = require('express');
 const router = express.Router();
 const { body, validationResult } = require('express-validator');
 const ProctorLog = require('../models/ProctorLog');
-const { protect, restrictTo } = require('../middleware/authMiddleware');
+const { protect, requireCapability } = require('../middleware/authMiddleware');
 
 // Student posts proctoring events
-router.post('/log', protect, restrictTo(['student']), [
+router.post('/log', protect, requireCapability('exams.take'), [
   body('eventType').isIn([
     'webcam_snapshot',
     'tab_switch',
@@ -43,7 +43,7 @@ router.post('/log', protect, restrictTo(['student']), [
 });
 
 // Faculty/admin read logs for a test
-router.get('/logs/:testId', protect, restrictTo(['faculty','admin']), async (req, res) => {
+router.get('/logs/:testId', protect, requireCapability('proctor.view_logs'), async (req, res) => {
   try {
     const logs = await ProctorLog.find({ testSet: req.params.testId }).populate('student','name email').sort({ createdAt: -1 });
     return res.json(logs);
@@ -0,0 +1,304 @@
+// routes/questionBank.js
+// Mounted at /teacher/tests/bank (ahead of the teacherTests router so "bank" is not taken as a test id)
+const express = require('express');
+const router = express.Router();
+const mongoose = require('mongoose');
+
+const BankQuestion = require('../models/BankQuestion');
+const { SKILLS, DIFFICULTIES, CEFR_LEVELS } = require('../models/BankQuestion');
+const { protect, requireCapability, hasCapability } = require('../middleware/authMiddleware');
+const {
+  CONTENT_FIELDS,
+  QUESTION_TYPES_FOR_SKILL,
+  normalizeTags,
+  propagateBankEdit,
+} = require('../services/questionBankService');
+const { SINGLE_CHOICE_TYPES, TEXT_ANSWER_TYPES } = require('../utils/answerMatching');
+const { exportBank, planBankImport } = require('../services/qti');
+const { receivePackage } = require('../middleware/packageUpload');
+
+const escapeRegex = (s) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// most questions one QTI export packs
+const EXPORT_LIMIT = 500;
+
+// tests link bank questions by reference, so only their author (or bank.manage) may change them
+const canChange = (req, question) =>
+  hasCapability(req, 'bank.manage') || String(question.createdBy) === String(req.user._id);
+
+/**
+ * Validate bank metadata + question content. Returns an error message or null.
+ */
+function validateBankPayload(data) {
+  if (!SKILLS.includes(data.skill)) return `skill must be one of: ${SKILLS.join(', ')}`;
+  const types = QUESTION_TYPES_FOR_SKILL[data.skill];
+  if (!types.includes(data.questionType)) {
+    return `${data.skill} questions must have one of the questionTypes: ${types.join(', ')}`;
+  }
+  if (!data.prompt || !String(data.prompt).trim()) return 'prompt is required';
+  if (data.difficulty && !DIFFICULTIES.includes(data.difficulty)) {
+    return `difficulty must be one of: ${DIFFICULTIES.join(', ')}`;
+  }
+  if (data.cefrLevel && !CEFR_LEVELS.includes(data.cefrLevel)) {
+    return `cefrLevel must be one of: ${CEFR_LEVELS.join(', ')}`;
+  }
+  const isOption = (i) => Number.isInteger(Number(i)) && Number(i) >= 0 && Number(i) < data.options.length;
+  if (SINGLE_CHOICE_TYPES.includes(data.questionType) || data.questionType === 'multi_select') {
+    if (!Array.isArray(data.options) || data.options.length < 2) {
+      return `${data.questionType} questions need at least 2 options`;
+    }
+  }
+  if (SINGLE_CHOICE_TYPES.includes(data.questionType) && !isOption(data.correctIndex)) {
+    return 'correctIndex must point at one of the options';
+  }
+  if (data.questionType === 'multi_select') {
+    if (!Array.isArray(data.correctIndexes) || data.correctIndexes.length === 0 || !data.correctIndexes.every(isOption)) {
+      return 'correctIndexes must list the correct options';
+    }
+    const selectCount = Number(data.selectCount);
+    if (!Number.isInteger(selectCount) || selectCount < data.correctIndexes.length || selectCount > data.options.length) {
+      return 'selectCount must be at least the number of correct options';
+    }
+  }
+  if (TEXT_ANSWER_TYPES.includes(data.questionType)) {
+    const accepted = Array.isArray(data.acceptedAnswers) ? data.acceptedAnswers : [];
+    if (!accepted.some((a) => String(a).trim())) return `${data.questionType} questions need at least one accepted answer`;
+  }
+  if (data.questionType === 'map_labelling' && !(data.imageUrl && String(data.imageUrl).trim())) {
+    return 'map_labelling questions need the imageUrl of their map or diagram';
+  }
+  return null;
+}
+
+function pickBankFields(body) {
+  const data = {};
+  for (const field of CONTENT_FIELDS) {
+    if (body[field] !== undefined) data[field] = body[field];
+  }
+  for (const field of ['skill', 'difficulty', 'cefrLevel']) {
+    if (body[field] !== undefined) data[field] = body[field] || null;
+  }
+  if (body.tags !== undefined) data.tags = normalizeTags(body.tags);
+  return data;
+}
+
+// search filters shared by the listing and the QTI export
+function bankFilter(req) {
+  const { skill, difficulty, cefrLevel, q } = req.query;
+  const filter = {};
+  if (skill) filter.skill = skill;
+  if (difficulty) filter.difficulty = difficulty;
+  if (cefrLevel) filter.cefrLevel = cefrLevel;
+
+  const tags = normalizeTags(req.query.tags);
+  if (tags.length > 0) filter.tags = { $all: tags };
+
+  if (q && String(q).trim()) {
+    filter.prompt = { $regex: escapeRegex(String(q).trim()), $options: 'i' };
+  }
+
+  if (req.query.mine === 'true') filter.createdBy = req.user._id;
+  return filter;
+}
+
+// GET /teacher/tests/bank?skill=&difficulty=&cefrLevel=&tags=a,b&q=&page=&limit=
+router.get('/', protect, requireCapability('tests.create'), async (req, res) => {
+  try {
+    const filter = bankFilter(req);
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 20, 1), 100);
+    const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+
+    const [items, total] = await Promise.all([
+      BankQuestion.find(filter)
+        .sort({ updatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('createdBy', 'name email')
+        .lean(),
+      BankQuestion.countDocuments(filter),
+    ]);
+
+    return res.json({ items, total, page, limit });
+  } catch (err) {
+    console.error('Error searching question bank:', err);
+    return res.status(500).json({ message: 'Server error searching question bank' });
+  }
+});
+
+// GET /teacher/tests/bank/tags - distinct tags for filter suggestions
+router.get('/tags', protect, requireCapability('tests.create'), async (req, res) => {
+  try {
+    const filter = req.query.skill ? { skill: req.query.skill } : {};
+    const tags = await BankQuestion.distinct('tags', filter);
+    return res.json(tags.sort());
+  } catch (err) {
+    console.error('Error fetching bank tags:', err);
+    return res.status(500).json({ message: 'Server error fetching tags' });
+  }
+});
+
+// GET /teacher/tests/bank/qti?ids=a,b or the search filters above - the questions as a QTI 2.1 package
+router.get('/qti', protect, requireCapability('tests.create'), async (req, res) => {
+  try {
+    let filter = bankFilter(req);
+    if (req.query.ids) {
+      const ids = String(req.query.ids).split(',').filter(Boolean);
+      if (ids.some((id) => !mongoose.Types.ObjectId.isValid(id))) {
+        return res.status(400).json({ message: 'Invalid bank question id' });
+      }
+      filter = { _id: { $in: ids } };
+    }
+
+    const questions = await BankQuestion.find(filter).sort({ updatedAt: -1 }).limit(EXPORT_LIMIT + 1).lean();
+    if (questions.length === 0) return res.status(404).json({ message: 'No bank questions match' });
+    if (questions.length > EXPORT_LIMIT) {
+      return res.status(400).json({ message: `More than ${EXPORT_LIMIT} questions match; narrow the search` });
+    }
+
+    const buffer = await exportBank(questions);
+    res.set('Content-Type', 'application/zip');
+    res.set('Content-Disposition', `attachment; filename="question-bank-qti.zip"`);
+    return res.send(buffer);
+  } catch (err) {
+    console.error('Error exporting question bank as QTI:', err);
+    return res.status(500).json({ message: 'Server error exporting question bank' });
+  }
+});
+
+// POST /teacher/tests/bank/qti/import - multipart: file, dryRun (default true),
+// skill for reading/listening items the package does not give one (reading or listening)
+router.post('/qti/import', protect, requireCapability('tests.create'), receivePackage, async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).json({ message: 'No file uploaded' });
+    const skill = req.body.skill || 'reading';
+    if (!['reading', 'listening'].includes(skill)) {
+      return res.status(400).json({ message: 'skill must be reading or listening' });
+    }
+
+    const plan = await planBankImport(req.file.buffer, {
+      skill,
+      validate: (question) => validateBankPayload(pickBankFields(question)),
+    });
+    if (plan.error) return res.status(400).json({ message: plan.error });
+    if (req.body.dryRun !== 'false') return res.json({ dryRun: true, report: plan.report });
+    if (plan.questions.length === 0) {
+      return res.status(400).json({ message: 'None of the items could be imported; see the report', report: plan.report });
+    }
+
+    await BankQuestion.insertMany(
+      plan.questions.map((q) => ({ ...pickBankFields(q), createdBy: req.user._id }))
+    );
+    return res.status(201).json({
+      dryRun: false,
+      message: `Added ${plan.questions.length} question(s) to the bank`,
+      report: plan.report,
+    });
+  } catch (err) {
+    console.error('Error importing QTI package into the bank:', err);
+    return res.status(500).json({ message: 'Server error importing QTI package' });
+  }
+});
+
+// POST /teacher/tests/bank
+router.post('/', protect, requireCapability('tests.create'), async (req, res) => {
+  try {
+    const data = pickBankFields(req.body);
+    const error = validateBankPayload(data);
+    if (error) return res.status(400).json({ message: error });
+
+    const question = await BankQuestion.create({
+      ...data,
+      createdBy: req.user._id,
+    });
+
+    return res.status(201).json({ message: 'Question added to bank', question });
+  } catch (err) {
+    console.error('Error creating bank question:', err);
+    return res.status(500).json({ message: 'Server error creating bank question' });
+  }
+});
+
+// GET /teacher/tests/bank/:qid
+router.get('/:qid', protect, requireCapability('tests.create'), async (req, res) => {
+  try {
+    const { qid } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(qid))
+      return res.status(400).json({ message: 'Invalid id' });
+    const question = await BankQuestion.findById(qid).populate('createdBy', 'name email').lean();
+    if (!question) return res.status(404).json({ message: 'Bank question not found' });
+    return res.json(question);
+  } catch (err) {
+    console.error('Error fetching bank question:', err);
+    return res.status(500).json({ message: 'Server error fetching bank question' });
+  }
+});
+
+// PUT /teacher/tests/bank/:qid
+// Bumps the version and refreshes the copies in open test drafts.
+router.put('/:qid', protect, requireCapability('tests.create'), async (req, res) => {
+  try {
+    const { qid } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(qid))
+      return res.status(400).json({ message: 'Invalid id' });
+
+    const question = await BankQuestion.findById(qid);
+    if (!question) return res.status(404).json({ message: 'Bank question not found' });
+    if (!canChange(req, question)) {
+      return res.status(403).json({ message: 'You can only edit your own bank questions' });
+    }
+
+    const updates = pickBankFields(req.body);
+    const merged = { ...question.toObject(), ...updates };
+    const error = validateBankPayload(merged);
+    if (error) return res.status(400).json({ message: error });
+
+    const contentChanged = CONTENT_FIELDS.some(
+      field =>
+        updates[field] !== undefined &&
+        JSON.stringify(updates[field]) !== JSON.stringify(question.toObject()[field])
+    );
+
+    question.set(updates);
+    question.updatedBy = req.user._id;
+    if (contentChanged) question.version += 1;
+    await question.save();
+
+    const propagation = contentChanged
+      ? await propagateBankEdit(question, req.user)
+      : { updated: [], skipped: [] };
+
+    return res.json({
+      message: 'Bank question updated',
+      question,
+      testsUpdated: propagation.updated,
+      // published test versions keep the copy they were published with
+      testsUnchanged: propagation.skipped,
+    });
+  } catch (err) {
+    console.error('Error updating bank question:', err);
+    return res.status(500).json({ message: 'Server error updating bank question' });
+  }
+});
+
+// DELETE /teacher/tests/bank/:qid
+// Tests keep their embedded copy; only the bank entry goes away.
+router.delete('/:qid', protect, requireCapability('tests.create'), async (req, res) => {
+  try {
+    const { qid } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(qid))
+      return res.status(400).json({ message: 'Invalid id' });
+    const question = await BankQuestion.findById(qid).select('createdBy');
+    if (!question) return res.status(404).json({ message: 'Bank question not found' });
+    if (!canChange(req, question)) {
+      return res.status(403).json({ message: 'You can only delete your own bank questions' });
+    }
+    await question.deleteOne();
+    return res.json({ message: 'Bank question deleted' });
+  } catch (err) {
+    console.error('Error deleting bank question:', err);
+    return res.status(500).json({ message: 'Server error deleting bank question' });
+  }
+});
+
+module.exports = router;
@@ -4,6 +4,7 @@ const { protect, examSecurity, networkSecurity, browserSecurity, generateDeviceF
 const DeviceSession = require('../models/DeviceSession');
 const ExamSecurity = require('../models/ExamSecurity');
 const TestAttempt = require('../models/TestAttempt');
+const AttemptDraft = require('../models/AttemptDraft');
 const User = require('../models/User');
 const examTimerService = require('../services/examTimerService');
 
@@ -70,7 +71,7 @@ router.post('/session/start', rateLimit, protect, networkSecurity, browserSecuri
     
     if (testId) {
       const TestSet = require('../models/TestSet');
-      const testSet = await TestSet.findById(testId);
+      const testSet = await TestSet.findOne({ _id: testId, deletedAt: null });
       if (!testSet) {
         return res.status(404).json({
           success: false,
@@ -180,21 +181,26 @@ router.post('/exam/start', rateLimit, protect, examSecurity, networkSecurity, br
       status: 'started'
     });
 
+    // /student/tests/:id/start normally creates the attempt first; attach the
+    // security record to it unless one already exists
     if (existingAttempt) {
-      return res.status(409).json({
-        success: false,
-        message: 'Test already in progress',
-        code: 'TEST_IN_PROGRESS',
-        attemptId: existingAttempt._id
-      });
+      const alreadySecured = await ExamSecurity.exists({ testAttempt: existingAttempt._id });
+      if (alreadySecured) {
+        return res.status(409).json({
+          success: false,
+          message: 'Test already in progress',
+          code: 'TEST_IN_PROGRESS',
+          attemptId: existingAttempt._id
+        });
+      }
     }
 
-    const testAttempt = new TestAttempt({
+    const testAttempt = existingAttempt || new TestAttempt({
       student: userId,
       testSet: testId,
       status: 'started'
     });
-    await testAttempt.save();
+    if (!existingAttempt) await testAttempt.save();
 
     const examSecurity = new ExamSecurity({
       testAttempt: testAttempt._id,
@@ -224,7 +230,7 @@ router.post('/exam/start', rateLimit, protect, examSecurity, networkSecurity, br
         violations: []
       },
       timingSecurity: {
-        serverStartTime: new Date(),
+        serverStartTime: testAttempt.startedAt || new Date(),
         clientStartTime: new Date(req.body.clientStartTime || Date.now()),
         timeDrift: 0,
         autoSubmissions: []
@@ -495,7 +501,7 @@ router.get('/timer/remaining/:attemptId', protect, async (req, res) => {
       });
     }
 
-    const remaining = examTimerService.getRemainingTime(attemptId, type, id);
+    const remaining = await examTimerService.getRemainingTime(attemptId, type, id);
     res.json(remaining);
   } catch (error) {
     console.error('Get remaining time error:', error);
@@ -504,6 +510,125 @@ router.get('/timer/remaining/:attemptId', protect, async (req, res) => {
 });
 
 
+// Start the clock of a section (passage / listening part) or prompt that has its own limit
+router.post('/timer/start', protect, async (req, res) => {
+  try {
+    const { attemptId, type, id } = req.body;
+    const userId = req.user._id;
+
+    if (!attemptId || !type || !id) {
+      return res.status(400).json({ message: 'attemptId, type and id are required' });
+    }
+
+    const testAttempt = await TestAttempt.findOne({
+      _id: attemptId,
+      student: userId,
+      status: 'started'
+    });
+    if (!testAttempt) {
+      return res.status(404).json({ message: 'Test attempt not found' });
+    }
+
+    const result = await examTimerService.startTargetTimer(attemptId, type, String(id));
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('Start section timer error:', error);
+    res.status(500).json({ message: 'Failed to start timer' });
+  }
+});
+
+
+// Lock a section/prompt whose time ran out, with the answers it had at that point
+router.post('/timer/end', protect, async (req, res) => {
+  try {
+    const { attemptId, type, id, answers = {}, reason = 'time_expired' } = req.body;
+    const userId = req.user._id;
+
+    if (!attemptId || !type || !id) {
+      return res.status(400).json({ message: 'attemptId, type and id are required' });
+    }
+
+    const testAttempt = await TestAttempt.findOne({
+      _id: attemptId,
+      student: userId
+    });
+    if (!testAttempt) {
+      return res.status(404).json({ message: 'Test attempt not found' });
+    }
+
+    const result = await examTimerService.endTargetTimer(attemptId, type, String(id), answers, reason);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+    res.json(result);
+  } catch (error) {
+    console.error('End section timer error:', error);
+    res.status(500).json({ message: 'Failed to lock section' });
+  }
+});
+
+
+// Autosave the in-progress answers and position of an attempt
+router.put('/draft/:attemptId', protect, async (req, res) => {
+  try {
+    const { attemptId } = req.params;
+    const { answers, currentIndex = 0, revision } = req.body;
+    const userId = req.user._id;
+
+    if (!answers || typeof answers !== 'object' || Array.isArray(answers)) {
+      return res.status(400).json({ success: false, message: 'answers must be an object' });
+    }
+
+    const testAttempt = await TestAttempt.findOne({
+      _id: attemptId,
+      student: userId,
+      status: 'started'
+    });
+    if (!testAttempt) {
+      return res.status(404).json({ success: false, message: 'Active test attempt not found' });
+    }
+    if (testAttempt.deadlineAt && testAttempt.deadlineAt.getTime() < Date.now()) {
+      return res.status(409).json({ success: false, message: 'Test time has expired' });
+    }
+
+    const rev = Number(revision) || Date.now();
+    try {
+      // only replace an older save; a slower request from earlier must not win
+      await AttemptDraft.findOneAndUpdate(
+        { testAttempt: testAttempt._id, revision: { $lt: rev } },
+        {
+          $set: {
+            answers,
+            currentIndex: Math.max(0, Number(currentIndex) || 0),
+            revision: rev
+          },
+          $setOnInsert: {
+            student: userId,
+            testSet: testAttempt.testSet
+          }
+        },
+        { upsert: true }
+      );
+    } catch (err) {
+      // duplicate key: a newer draft already exists
+      if (err.code !== 11000) throw err;
+      return res.json({ success: true, saved: false, message: 'Newer draft already saved' });
+    }
+
+    // the clocks of sections and prompts the student has reached run from here
+    await examTimerService.startReachedTimings(testAttempt._id, { currentIndex: Number(currentIndex) || 0, answers });
+
+    res.json({ success: true, saved: true, savedAt: new Date() });
+  } catch (error) {
+    console.error('Draft save error:', error);
+    res.status(500).json({ success: false, message: 'Failed to save draft' });
+  }
+});
+
+
 // Post-exam security endpoint for submission lockdown
 router.post('/exam/submit', protect, async (req, res) => {
   try {
@@ -574,8 +699,8 @@ router.post('/exam/submit', protect, async (req, res) => {
       }
     );
 
-    // Clear any active timers
-    examTimerService.clearTimers(attemptId);
+    // Drop the pending server-side auto-submit
+    await examTimerService.clearTimers(attemptId);
 
     res.json({
       success: true,
@@ -735,23 +860,20 @@ router.post('/session/recover', protect, async (req, res) => {
       });
     }
 
-    // Check if exam is still within time limits
-    const TestSet = require('../models/TestSet');
-    const test = await TestSet.findById(testId);
-    if (!test) {
-      return res.status(404).json({ 
-        success: false, 
-        message: 'Test not found' 
-      });
-    }
-
-    const timeElapsed = Math.floor((new Date() - activeAttempt.startTime) / 1000);
-    const timeLimit = test.timeLimit * 60; // Convert to seconds
+    // Check if exam is still within time limits (persisted deadline)
+    const { remaining: timeRemaining, endTime } = await examTimerService.getRemainingTime(
+      activeAttempt._id.toString()
+    );
 
-    if (timeElapsed >= timeLimit) {
+    if (timeRemaining === 0) {
+      const closed = await examTimerService.autoSubmitExam(activeAttempt._id.toString(), 'time_expired');
       return res.status(400).json({ 
         success: false, 
-        message: 'Test time has expired, cannot recover session' 
+        code: 'TIME_EXPIRED',
+        submissionId: closed.submissionId || null,
+        message: closed.submissionId
+          ? 'Test time has expired, cannot recover session. The answers saved until then were submitted.'
+          : 'Test time has expired, cannot recover session.'
       });
     }
 
@@ -768,7 +890,7 @@ router.post('/session/recover', protect, async (req, res) => {
       deviceFingerprint: deviceFingerprint || generateDeviceFingerprint(req),
       sessionToken: crypto.randomBytes(32).toString('hex'),
       isExamSession: true,
-      examStartTime: activeAttempt.startTime,
+      examStartTime: activeAttempt.startedAt,
       networkInfo: {
         ipAddress: getClientIP(req),
         country: req.geoInfo?.country || 'Unknown',
@@ -779,12 +901,28 @@ router.post('/session/recover', protect, async (req, res) => {
 
     await newSession.save();
 
+    // Point the attempt's security record at the new device session
+    await ExamSecurity.updateOne(
+      { testAttempt: activeAttempt._id },
+      { $set: { deviceSession: newSession._id } }
+    );
+
+    const draft = await AttemptDraft.findOne({ testAttempt: activeAttempt._id }).lean();
+
     res.json({
       success: true,
       message: 'Session recovered successfully',
       sessionToken: newSession.sessionToken,
-      timeRemaining: Math.max(0, timeLimit - timeElapsed),
-      attemptId: activeAttempt._id
+      timeRemaining,
+      deadlineAt: endTime,
+      attemptId: activeAttempt._id,
+      draft: draft
+        ? {
+          answers: draft.answers || {},
+          currentIndex: draft.currentIndex || 0,
+          savedAt: draft.updatedAt
+        }
+        : null
     });
 
   } catch (error) {
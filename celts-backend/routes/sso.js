@@ -0,0 +1,105 @@
+// routes/sso.js
+// Single sign-on through the university identity provider, mounted under /api/auth/sso.
+// Both outcomes end with a redirect to the frontend: /auth/sso/complete on success,
+// /auth/login?sso_error=... on failure.
+const express = require('express');
+const router = express.Router();
+const crypto = require('crypto');
+
+const { getSsoProvider, getSsoProviderName } = require('../services/ssoProviders');
+const { resolveSsoUser, signPendingLogin, readPendingLogin } = require('../services/ssoService');
+const { cookieOptions, readCookie, issueSession } = require('../services/tokenService');
+const { createLoginChallenge } = require('../services/twoFactorService');
+
+const SSO_COOKIE = 'celts_sso';
+const SSO_COOKIE_PATH = '/api/auth/sso';
+const SSO_COOKIE_MAX_AGE = 10 * 60 * 1000;
+
+const clientOrigin = () => process.env.CLIENT_ORIGIN || 'http://localhost:3000';
+
+// only same-origin paths, so the login can't be turned into an open redirect
+const safeReturnTo = (value) =>
+  typeof value === 'string' && value.startsWith('/') && !value.startsWith('//') ? value : '';
+
+function clearSsoCookie(res) {
+  const { maxAge, ...opts } = cookieOptions(0, SSO_COOKIE_PATH);
+  res.clearCookie(SSO_COOKIE, opts);
+}
+
+function redirectWithError(res, message) {
+  clearSsoCookie(res);
+  return res.redirect(`${clientOrigin()}/auth/login?sso_error=${encodeURIComponent(message)}`);
+}
+
+// GET /api/auth/sso/config - public; whether the login page should offer SSO
+router.get('/config', (req, res) => {
+  const enabled = !!getSsoProviderName();
+  return res.json({
+    enabled,
+    provider: getSsoProviderName(),
+    label: enabled ? process.env.SSO_LABEL || 'Sign in with university account' : null,
+  });
+});
+
+// GET /api/auth/sso/login?returnTo=/path - start a login at the IdP
+router.get('/login', async (req, res) => {
+  try {
+    const provider = getSsoProvider();
+    if (!provider) return redirectWithError(res, 'Single sign-on is not enabled');
+
+    const pending = {
+      state: crypto.randomBytes(16).toString('hex'),
+      nonce: crypto.randomBytes(16).toString('hex'),
+      returnTo: safeReturnTo(req.query.returnTo),
+    };
+    const { url, ...kept } = await provider.begin({ ...pending, relayState: signPendingLogin(pending) });
+
+    res.cookie(SSO_COOKIE, signPendingLogin({ ...pending, ...kept }), cookieOptions(SSO_COOKIE_MAX_AGE, SSO_COOKIE_PATH));
+    return res.redirect(url);
+  } catch (err) {
+    console.error('[GET /auth/sso/login] error:', err);
+    return redirectWithError(res, 'Could not reach the university sign-in service');
+  }
+});
+
+// GET (OIDC) or POST (SAML assertion consumer) /api/auth/sso/callback
+async function handleCallback(req, res) {
+  const provider = getSsoProvider();
+  if (!provider) return redirectWithError(res, 'Single sign-on is not enabled');
+
+  const pending = readPendingLogin(
+    provider.relayState ? req.body && req.body.RelayState : readCookie(req, SSO_COOKIE)
+  );
+  if (!pending) return redirectWithError(res, 'Your sign-in took too long. Please try again.');
+
+  let identity;
+  try {
+    identity = await provider.complete(req, pending);
+  } catch (err) {
+    console.error('[sso callback] IdP response rejected:', err.message);
+    return redirectWithError(res, 'The university sign-in could not be verified. Please try again.');
+  }
+
+  try {
+    const { error, user } = await resolveSsoUser(provider.name, identity);
+    if (error) return redirectWithError(res, error);
+
+    clearSsoCookie(res);
+    // a local second factor still applies on top of the IdP
+    if (user.twoFactor && user.twoFactor.enabled) {
+      return res.redirect(`${clientOrigin()}/auth/login?sso_challenge=${encodeURIComponent(createLoginChallenge(user))}`);
+    }
+
+    await issueSession(res, user, req);
+    const returnTo = pending.returnTo ? `?returnTo=${encodeURIComponent(pending.returnTo)}` : '';
+    return res.redirect(`${clientOrigin()}/auth/sso/complete${returnTo}`);
+  } catch (err) {
+    console.error('[sso callback] error:', err);
+    return redirectWithError(res, 'Server error completing sign-in');
+  }
+}
+
+router.get('/callback', handleCallback);
+router.post('/callback', handleCallback);
+
+module.exports = router;
@@ -1,75 +1,45 @@
 const express = require('express');
 const router = express.Router();
 const { body, validationResult } = require('express-validator');
-const { protect, restrictTo } = require('../middleware/authMiddleware');
+const { protect, requireCapability } = require('../middleware/authMiddleware');
 const mongoose = require('mongoose');
+const fs = require('fs');
+const path = require('path');
 
 const Submission = require('../models/Submission');
 const TestSet = require('../models/TestSet');
 const TestAttempt = require('../models/TestAttempt');
+const MockResult = require('../models/MockResult');
 const Batch = require('../models/Batch');
-const StudentStats = require('../models/StudentStats');
-const { submissionQueue } = require('../services/queue');
 const uploadStudentMedia = require('../services/uploadStudentMedia');
+const examTimerService = require('../services/examTimerService');
+const mockResultService = require('../services/mockResultService');
+const { createSubmission } = require('../services/submissionService');
+const { testAtVersion } = require('../services/testVersionService');
+const {
+  generateSeed,
+  buildAttemptLayout,
+  applyAttemptLayout,
+} = require('../utils/attemptLayout');
 
+const MAX_SPEAKING_RECORDINGS = 20;
 
-function computeBandScore(earnedMarks, maxMarks) {
-  if (!maxMarks || maxMarks <= 0) return 0;
-  const raw = (earnedMarks / maxMarks) * 9;
-  return Math.round(raw * 2) / 2;
-}
-
-async function updateStudentStatsForSkill({ student, skill, bandScore }) {
-  if (bandScore == null) return;
+// Sent when the attempt was already submitted, closed by the server at its deadline, or has run out of time
+const ATTEMPT_CLOSED = {
+  message: 'This attempt is closed: it was already submitted or its time has run out.',
+  code: 'ATTEMPT_CLOSED',
+};
 
-  const batch = await Batch.findOne({ students: student._id }).select('_id name').lean();
 
-  let stats = await StudentStats.findOne({ student: student._id });
-  if (!stats) {
-    stats = new StudentStats({
-      student: student._id,
-      name: student.name,
-      email: student.email,
-      systemId: student.systemId,
-      batch: batch ? batch._id : null,
-      batchName: batch ? batch.name : null,
-    });
-  } else {
-    stats.name = student.name;
-    stats.email = student.email;
-    stats.systemId = student.systemId;
-    if (batch) {
-      stats.batch = batch._id;
-      stats.batchName = batch.name;
-    }
-  }
-
-  if (skill === 'reading') stats.readingBand = bandScore;
-  if (skill === 'listening') stats.listeningBand = bandScore;
-  if (skill === 'writing') stats.writingBand = bandScore;
-  if (skill === 'speaking') stats.speakingBand = bandScore;
-
-  // compute overall as average of available skills
-  const values = [
-    stats.readingBand,
-    stats.listeningBand,
-    stats.writingBand,
-    stats.speakingBand,
-  ].filter((v) => typeof v === 'number' && v > 0);
-
-  stats.overallBand = values.length ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 2) / 2 : null;
-
-  await stats.save();
-}
 
 // GET /api/student/tests 
 // Returns tests assigned to student's batches OR directly to student
-router.get('/tests', protect, restrictTo(['student']), async (req, res) => {
+router.get('/tests', protect, requireCapability('exams.take'), async (req, res) => {
   try {
     const studentId = req.user._id;
 
     // Find all batches this student belongs to
-    const studentBatches = await Batch.find({ students: studentId })
+    const studentBatches = await Batch.find({ students: studentId, archived: { $ne: true } })
       .select('_id name program year section')
       .lean();
 
@@ -90,7 +60,7 @@ router.get('/tests', protect, restrictTo(['student']), async (req, res) => {
       orClauses.push({ assignedBatches: { $in: batchIds } });
     }
 
-    const tests = await TestSet.find({ $or: orClauses })
+    const tests = await TestSet.find({ published: true, $or: orClauses })
       .sort({ createdAt: -1 })
       .lean();
 
@@ -114,6 +84,13 @@ router.get('/tests', protect, restrictTo(['student']), async (req, res) => {
       testSet: { $in: tests.map(t => t._id) }
     }).select('testSet skill status bandScore totalMarks maxMarks').lean();
 
+    // Full mocks track progress on their MockResult instead of a TestAttempt
+    const mockResults = await MockResult.find({
+      student: studentId,
+      mockTest: { $in: tests.filter(t => t.type === 'mock').map(t => t._id) }
+    }).select('mockTest attemptNumber status overallBand createdAt completedAt').lean();
+    const mockResultMap = new Map(mockResults.map(r => [String(r.mockTest), r]));
+
     // Create a map of testId -> attempt info
     const attemptMap = new Map();
     testAttempts.forEach(attempt => {
@@ -178,12 +155,29 @@ router.get('/tests', protect, restrictTo(['student']), async (req, res) => {
 
       // Check if student has attempted this test
       const testId = String(t._id);
-      const attempt = attemptMap.get(testId);
+      let attempt = attemptMap.get(testId);
       const submissionInfo = submissionMap.get(testId);
       let attemptStatus = null;
       let evaluationStatus = null;
-      
-      if (attempt) {
+      let bandScores = null;
+
+      const mockResult = mockResultMap.get(testId);
+      if (mockResult) {
+        attempt = {
+          status: mockResult.status,
+          attemptNumber: mockResult.attemptNumber,
+          isRetryAllowed: false,
+          completedAt: mockResult.completedAt,
+          startedAt: mockResult.createdAt
+        };
+        if (mockResult.status === 'in_progress') {
+          attemptStatus = 'in-progress';
+        } else {
+          attemptStatus = 'attempted';
+          evaluationStatus = mockResult.status === 'completed' ? 'evaluated' : 'under_evaluation';
+        }
+        if (mockResult.overallBand != null) bandScores = { overall: mockResult.overallBand };
+      } else if (attempt) {
         if (attempt.status === 'completed' || attempt.status === 'violation_exit' || attempt.status === 'abandoned') {
           attemptStatus = 'attempted';
           
@@ -217,7 +211,7 @@ router.get('/tests', protect, restrictTo(['student']), async (req, res) => {
         attemptStatus,
         attemptInfo: attempt || null,
         evaluationStatus,
-        bandScores: null,
+        bandScores,
       };
     });
 
@@ -239,13 +233,13 @@ router.get('/tests', protect, restrictTo(['student']), async (req, res) => {
 
 
 // POST /api/student/submit/:testId/speaking 
-// Accepts multipart/form-data with field "media" for audio/video
+// Accepts multipart/form-data with one "media" file per prompt, named <questionId>.<ext>
 // ---------- POST /api/student/submit/:testId/speaking ----------
 router.post(
   '/submit/:testId/speaking',
   protect,
-  restrictTo(['student']),
-  uploadStudentMedia.single('media'),
+  requireCapability('exams.take'),
+  uploadStudentMedia.array('media', MAX_SPEAKING_RECORDINGS),
   async (req, res) => {
     const { testId } = req.params;
     const skill = 'speaking';
@@ -255,12 +249,12 @@ router.post(
         return res.status(400).json({ message: 'Invalid testId' });
       }
 
-      const testSet = await TestSet.findById(testId);
-      if (!testSet) {
+      const liveTest = await TestSet.findOne({ _id: testId, deletedAt: null, published: true });
+      if (!liveTest) {
         return res.status(404).json({ message: 'Test not found' });
       }
 
-      const allowed = await canStudentStart(testSet, req.user);
+      const allowed = await canStudentStart(liveTest, req.user);
       if (!allowed) {
         return res
           .status(403)
@@ -287,52 +281,39 @@ router.post(
         }
       }
 
-      // ✅ Count speaking questions & attempts
-      const speakingQuestions = (testSet.questions || []).filter(
-        (q) => q.questionType === 'speaking'
-      );
-
-      const totalQuestions = speakingQuestions.length;
-
-      // Simplest logic: if we received a media file, treat it as "attempted"
-      const attemptedCount = req.file && totalQuestions > 0 ? totalQuestions : 0;
-      const unattemptedCount = Math.max(totalQuestions - attemptedCount, 0);
-
-      const submissionPayload = {
-        student: req.user._id,
-        testSet: testSet._id,
-        skill,
-        response: responseObj,
-        status: 'pending', // will be graded by worker
-        totalMarks: 0,
-        maxMarks: 0,
-        correctCount: 0,
-        incorrectCount: 0,
-        totalQuestions,
-        attemptedCount,
-        unattemptedCount,
-        bandScore: null,
-        mediaPath: req.file ? req.file.path : null,
-      };
-
-      const submission = await Submission.create(submissionPayload);
+      const recordings = (req.files || []).map((file) => ({
+        questionId: path.parse(file.originalname || '').name,
+        path: file.path,
+      }));
 
-      const jobData = {
-        submissionId: submission._id.toString(),
-        studentId: req.user._id.toString(),
-        testId: testSet._id.toString(),
-        skill,
-        response: responseObj,
-        mediaPath: req.file ? req.file.path : null,
-        evaluationPayload,
-      };
+      const attempt = await examTimerService.closeForSubmission(req.user._id, liveTest._id);
+      if (!attempt) {
+        recordings.forEach((recording) => fs.unlink(recording.path, () => {}));
+        return res.status(409).json(ATTEMPT_CLOSED);
+      }
 
-      const job = await submissionQueue.add(jobData);
-      const jobId = job.id || null;
+      let submitted;
+      try {
+        submitted = await createSubmission({
+          student: req.user,
+          liveTest,
+          attempt,
+          skill,
+          response: responseObj,
+          mockResult: await mockResultService.findResultForSubmission(req.body.mockResultId, req.user._id, liveTest._id),
+          recordings,
+          evaluationPayload,
+        });
+      } catch (err) {
+        await examTimerService.reopenAttempt(attempt._id);
+        throw err;
+      }
+      const { submission, mockResult, jobId } = submitted;
 
       return res.status(202).json({
         message: 'Speaking submission accepted for grading',
         submissionId: submission._id,
+        mockResultId: mockResult ? mockResult._id : null,
         jobId,
         summary: null,
       });
@@ -368,15 +349,21 @@ async function canStudentStart(testSet, student) {
 
 
 // GET /api/student/tests/:id 
-router.get('/tests/:id', protect, restrictTo(['student']), async (req, res) => {
+router.get('/tests/:id', protect, requireCapability('exams.take'), async (req, res) => {
   const { id } = req.params;
   if (!mongoose.Types.ObjectId.isValid(id)) {
     return res.status(400).json({ message: 'Invalid test id' });
   }
   
   try {
-    const test = await TestSet.findById(id).lean();
-    if (!test) return res.status(404).json({ message: 'Test not found' });
+    const liveTest = await TestSet.findOne({ _id: id, deletedAt: null, published: true }).lean();
+    if (!liveTest) return res.status(404).json({ message: 'Test not found' });
+
+    // an attempt in progress keeps the version it was started on
+    const ongoingAttempt = await TestAttempt.findOne({ student: req.user._id, testSet: id, status: 'started' })
+      .select('testVersion')
+      .lean();
+    const test = await testAtVersion(liveTest, ongoingAttempt && ongoingAttempt.testVersion);
 
     // Check for existing attempts (optimized with lean())
     const existingAttempt = await TestAttempt.findOne({
@@ -419,6 +406,8 @@ router.get('/tests/:id', protect, restrictTo(['student']), async (req, res) => {
 
     res.json({
       ...test,
+      // authored order without the answer key; a shuffled order comes back from /start
+      questions: applyAttemptLayout(test.questions || [], null),
       canAttempt,
       attemptInfo
     });
@@ -428,15 +417,132 @@ router.get('/tests/:id', protect, restrictTo(['student']), async (req, res) => {
   }
 });
 
+// Module list of a full mock with this student's progress through it
+async function buildMockView(mock, result) {
+  const moduleTests = await TestSet.find({ _id: { $in: (mock.modules || []).map(m => m.testSet) } })
+    .select('title timeLimitMinutes')
+    .lean();
+  const testById = new Map(moduleTests.map(t => [String(t._id), t]));
+
+  return {
+    _id: mock._id,
+    title: mock.title,
+    description: mock.description || '',
+    startTime: mock.startTime,
+    endTime: mock.endTime,
+    modules: (mock.modules || []).map((m, index) => {
+      const test = testById.get(String(m.testSet));
+      const progress = result ? result.modules[index] : null;
+      return {
+        index,
+        skill: m.skill,
+        instructions: m.instructions || '',
+        testId: m.testSet,
+        title: test ? test.title : null,
+        timeLimitMinutes: test ? test.timeLimitMinutes || 0 : 0,
+        status: progress ? progress.status : 'pending',
+        bandScore: progress ? progress.bandScore : null,
+        submissionId: progress ? progress.submission : null,
+      };
+    }),
+    result: result
+      ? {
+        _id: result._id,
+        status: result.status,
+        currentModule: result.currentModule,
+        overallBand: result.overallBand,
+        completedAt: result.completedAt,
+      }
+      : null,
+  };
+}
+
+// GET /api/student/mocks/:id - Full mock overview
+router.get('/mocks/:id', protect, requireCapability('exams.take'), async (req, res) => {
+  const { id } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return res.status(400).json({ message: 'Invalid test id' });
+  }
+
+  try {
+    const mock = await TestSet.findOne({ _id: id, type: 'mock', published: true }).lean();
+    if (!mock) return res.status(404).json({ message: 'Mock test not found' });
+
+    const result = await mockResultService.findLatestResult(mock._id, req.user._id);
+    return res.json(await buildMockView(mock, result));
+  } catch (err) {
+    console.error('[GET /student/mocks/:id] error:', err);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// POST /api/student/mocks/:id/start - Begin (or continue) a full mock
+router.post('/mocks/:id/start', protect, requireCapability('exams.take'), async (req, res) => {
+  const { id } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return res.status(400).json({ message: 'Invalid test id' });
+  }
+
+  try {
+    const mock = await TestSet.findOne({ _id: id, type: 'mock', published: true }).lean();
+    if (!mock) return res.status(404).json({ message: 'Mock test not found' });
+
+    const allowed = await canStudentStart(mock, req.user);
+    if (!allowed) {
+      return res.status(403).json({ message: 'Not allowed to start this test now (timing rules)' });
+    }
+
+    const result = await mockResultService.startMock(mock, req.user._id);
+    return res.json(await buildMockView(mock, result));
+  } catch (err) {
+    console.error('[POST /student/mocks/:id/start] error:', err);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// POST /api/student/mocks/:id/modules/:index/start - Open the next module
+// The module itself then runs as a regular test; its submit carries mockResultId.
+router.post('/mocks/:id/modules/:index/start', protect, requireCapability('exams.take'), async (req, res) => {
+  const { id } = req.params;
+  const index = Number(req.params.index);
+  if (!mongoose.Types.ObjectId.isValid(id) || !Number.isInteger(index)) {
+    return res.status(400).json({ message: 'Invalid test id or module' });
+  }
+
+  try {
+    const mock = await TestSet.findOne({ _id: id, type: 'mock', published: true }).lean();
+    if (!mock) return res.status(404).json({ message: 'Mock test not found' });
+
+    const result = await mockResultService.findLatestResult(mock._id, req.user._id);
+    if (!result) return res.status(400).json({ message: 'Start the mock test first' });
+
+    const started = await mockResultService.startModule(result, index);
+    if (started.error) {
+      return res.status(started.status).json({ message: started.error });
+    }
+
+    const module = result.modules[index];
+    return res.json({
+      testId: module.testSet,
+      skill: module.skill,
+      instructions: (mock.modules[index] && mock.modules[index].instructions) || '',
+      mockResultId: result._id,
+    });
+  } catch (err) {
+    console.error('[POST /student/mocks/:id/modules/:index/start] error:', err);
+    return res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // POST /api/student/tests/:id/start - Start a test attempt
-router.post('/tests/:id/start', protect, restrictTo(['student']), async (req, res) => {
+router.post('/tests/:id/start', protect, requireCapability('exams.take'), async (req, res) => {
   const { id } = req.params;
   if (!mongoose.Types.ObjectId.isValid(id)) {
     return res.status(400).json({ message: 'Invalid test id' });
   }
 
   try {
-    const test = await TestSet.findById(id);
+    const test = await TestSet.findOne({ _id: id, deletedAt: null, published: true });
     if (!test) return res.status(404).json({ message: 'Test not found' });
 
     // Use findOneAndUpdate with upsert for atomic operation
@@ -451,34 +557,56 @@ router.post('/tests/:id/start', protect, restrictTo(['student']), async (req, re
     });
 
     if (ongoingAttempt) {
-      // Check if the attempt is still valid (not timed out)
-      const TestSet = require('../models/TestSet');
-      const testSet = await TestSet.findById(id);
-      const timeElapsed = Math.floor((new Date() - ongoingAttempt.startTime) / 1000);
-      const timeLimit = testSet?.timeLimit * 60 || 3600; // Default 1 hour if not specified
-      
-      if (timeElapsed >= timeLimit) {
-        // Auto-submit the expired attempt
-        ongoingAttempt.status = 'completed';
-        ongoingAttempt.endTime = new Date();
-        await ongoingAttempt.save();
-        
+      // Attempts started before deadlines were persisted get one from their start time
+      if (!ongoingAttempt.deadlineAt) {
+        const timer = await examTimerService.startExamTimer(ongoingAttempt._id.toString(), id);
+        if (timer.endTime) ongoingAttempt.deadlineAt = timer.endTime;
+      }
+
+      // The persisted deadline decides whether the attempt can still be resumed
+      const timeElapsed = Math.floor((Date.now() - ongoingAttempt.startedAt.getTime()) / 1000);
+      const timeRemaining = ongoingAttempt.deadlineAt
+        ? Math.max(0, Math.floor((ongoingAttempt.deadlineAt.getTime() - Date.now()) / 1000))
+        : null;
+
+      if (timeRemaining === 0) {
+        // the autosaved answers are what gets graded
+        const closed = await examTimerService.autoSubmitExam(ongoingAttempt._id.toString(), 'time_expired');
+        if (closed.reopened) {
+          return res.status(503).json({
+            message: 'Your time for this test ran out, but the answers saved until then could not be submitted yet. Please try again in a moment.',
+            code: 'TIME_EXPIRED'
+          });
+        }
         console.log(`Auto-submitted expired attempt ${ongoingAttempt._id}`);
+        if (!ongoingAttempt.isRetryAllowed) {
+          return res.status(409).json({
+            message: 'Your time for this test ran out. The answers saved until then were submitted.',
+            code: 'TIME_EXPIRED',
+            submissionId: closed.submissionId || null
+          });
+        }
       } else {
         // Return existing attempt data so frontend can resume
         return res.status(200).json({ 
           message: 'Test attempt resumed',
+          attemptId: ongoingAttempt._id,
+          deadlineAt: ongoingAttempt.deadlineAt,
+          timeRemaining,
+          questions: ongoingAttempt.shuffleSeed
+            ? applyAttemptLayout((await testAtVersion(test, ongoingAttempt.testVersion)).questions, ongoingAttempt.layout)
+            : undefined,
           data: {
             attemptId: ongoingAttempt._id,
             attemptNumber: ongoingAttempt.attemptNumber,
-            startedAt: ongoingAttempt.startTime,
+            startedAt: ongoingAttempt.startedAt,
             timeElapsed: timeElapsed,
-            timeRemaining: Math.max(0, timeLimit - timeElapsed)
+            timeRemaining
           },
           existingAttempt: {
             attemptId: ongoingAttempt._id,
             attemptNumber: ongoingAttempt.attemptNumber,
-            startedAt: ongoingAttempt.startTime
+            startedAt: ongoingAttempt.startedAt
           }
         });
       }
@@ -526,22 +654,35 @@ router.post('/tests/:id/start', protect, restrictTo(['student']), async (req, re
 
     attemptNumber = lastAttempt ? lastAttempt.attemptNumber + 1 : 1;
 
+    // Fix the question/option order for this attempt if the test shuffles
+    const shuffleSeed = test.shuffleQuestions || test.shuffleOptions ? generateSeed() : null;
+    const layout = shuffleSeed ? buildAttemptLayout(test, shuffleSeed) : null;
+
     // Create new attempt with atomic operation
     newAttempt = new TestAttempt({
       student: req.user._id,
       testSet: id,
+      testVersion: test.version || null,
       attemptNumber,
       status: 'started',
-      startedAt: new Date()
+      startedAt: new Date(),
+      shuffleSeed,
+      layout: layout || undefined
     });
 
     await newAttempt.save();
 
+    // Persist the deadline and schedule the server-side auto-submit
+    const timer = await examTimerService.startExamTimer(newAttempt._id.toString(), id);
+
     res.json({
       message: 'Test attempt started',
       attemptId: newAttempt._id,
       attemptNumber: newAttempt.attemptNumber,
-      startedAt: newAttempt.startedAt
+      startedAt: newAttempt.startedAt,
+      deadlineAt: timer.endTime || null,
+      timeRemaining: timer.totalTimeLimit || null,
+      questions: layout ? applyAttemptLayout(test.questions, layout) : undefined
     });
 
   } catch (err) {
@@ -559,7 +700,7 @@ router.post('/tests/:id/start', protect, restrictTo(['student']), async (req, re
 });
 
 // GET /api/student/tests/:id/attempts - Get attempt history and lockdown status
-router.get('/tests/:id/attempts', protect, restrictTo(['student']), async (req, res) => {
+router.get('/tests/:id/attempts', protect, requireCapability('exams.take'), async (req, res) => {
   const { id } = req.params;
   if (!mongoose.Types.ObjectId.isValid(id)) {
     return res.status(400).json({ message: 'Invalid test id' });
@@ -624,7 +765,7 @@ router.get('/tests/:id/attempts', protect, restrictTo(['student']), async (req,
 });
 
 // POST /api/student/tests/:id/end - End a test attempt
-router.post('/tests/:id/end', protect, restrictTo(['student']), async (req, res) => {
+router.post('/tests/:id/end', protect, requireCapability('exams.take'), async (req, res) => {
   const { id } = req.params;
   const { reason, submissionId, violations } = req.body;
 
@@ -640,6 +781,13 @@ router.post('/tests/:id/end', protect, restrictTo(['student']), async (req, res)
     }).sort({ createdAt: -1 });
 
     if (!attempt) {
+      // submitting already closed it; the runner still ends the attempt afterwards
+      const submitted = await TestAttempt.findOne({ student: req.user._id, testSet: id, submissionId: { $ne: null } })
+        .sort({ attemptNumber: -1 })
+        .lean();
+      if (submitted) {
+        return res.json({ message: 'Test attempt already submitted', status: submitted.status, reason: submitted.exitReason });
+      }
       return res.status(404).json({ message: 'No active test attempt found' });
     }
 
@@ -690,7 +838,7 @@ router.post('/tests/:id/end', protect, restrictTo(['student']), async (req, res)
 });
 
 // POST /api/student/tests/:id/violation - Log a violation
-router.post('/tests/:id/violation', protect, restrictTo(['student']), async (req, res) => {
+router.post('/tests/:id/violation', protect, requireCapability('exams.take'), async (req, res) => {
   const { id } = req.params;
   const { type, details } = req.body;
 
@@ -721,7 +869,7 @@ router.post('/tests/:id/violation', protect, restrictTo(['student']), async (req
 // POST /api/student/submit/:testId/:skill 
 // Auto-grades reading/listening MCQs, stores summary and band score.
 // Writing/speaking stay 'pending' for async/manual grading.
-router.post('/submit/:testId/:skill', protect, restrictTo(['student']), [body('response').notEmpty()], async (req, res) => {
+router.post('/submit/:testId/:skill', protect, requireCapability('exams.take'), [body('response').notEmpty()], async (req, res) => {
   const errors = validationResult(req);
   if (!errors.isEmpty())
     return res.status(400).json({ errors: errors.array() });
@@ -731,165 +879,39 @@ router.post('/submit/:testId/:skill', protect, restrictTo(['student']), [body('r
     return res.status(400).json({ message: 'Invalid testId' });
 
   try {
-    const testSet = await TestSet.findById(testId);
-    if (!testSet) return res.status(404).json({ message: 'Test not found' });
+    const liveTest = await TestSet.findOne({ _id: testId, deletedAt: null, published: true });
+    if (!liveTest) return res.status(404).json({ message: 'Test not found' });
 
-    const allowed = await canStudentStart(testSet, req.user);
+    const allowed = await canStudentStart(liveTest, req.user);
     if (!allowed)
       return res
         .status(403)
         .json({ message: 'Not allowed to start/submit this test now (timing rules)' });
 
-    const response = req.body.response;
-    const autoGradable = skill === 'reading' || skill === 'listening';
-
-    let earnedMarks = 0;
-    let maxMarks = 0;
-    let correctCount = 0;
-    let incorrectCount = 0;
-    let totalQuestions = 0;
-    let attemptedCount = 0;
-    let unattemptedCount = 0;
-    let bandScore = null;
-
-    // Auto grading for reading/listening (MCQ only)
-    if (autoGradable) {
-      const isArrayResp = Array.isArray(response);
-
-      testSet.questions.forEach((q, idx) => {
-        if (q.questionType !== 'mcq') return;
-
-        totalQuestions += 1;
-
-        const qMarks = q.marks || 1;
-        maxMarks += qMarks;
-
-        let studentAnswerIndex = null;
-
-        if (isArrayResp) {
-          const entry = response.find(
-            (r) =>
-              r.questionIndex === idx ||
-              String(r.questionId) === String(q._id)
-          );
-          if (entry && typeof entry.answer === 'number') {
-            studentAnswerIndex = entry.answer;
-          }
-        } else if (response && typeof response === 'object') {
-          const keyByIndex = String(idx);
-          const keyById = q._id ? String(q._id) : null;
-
-          if (
-            keyById &&
-            response[keyById] &&
-            typeof response[keyById].selectedIndex === 'number'
-          ) {
-            studentAnswerIndex = response[keyById].selectedIndex;
-          } else if (
-            response[keyByIndex] &&
-            typeof response[keyByIndex].selectedIndex === 'number'
-          ) {
-            studentAnswerIndex = response[keyByIndex].selectedIndex;
-          }
-        }
-
-        if (typeof studentAnswerIndex === 'number') {
-          attemptedCount += 1;
-
-          if (studentAnswerIndex === q.correctIndex) {
-            correctCount += 1;
-            earnedMarks += qMarks;
-          } else {
-            incorrectCount += 1;
-          }
-        } else {
-          unattemptedCount += 1;
-        }
-      });
-      bandScore = computeBandScore(earnedMarks, maxMarks || 0);
-    }
-
-    // Basic counts for writing/speaking (no auto grading here)
-    if (!autoGradable && (skill === 'writing' || skill === 'speaking')) {
-      const skillQuestions = (testSet.questions || []).filter(
-        (q) => q.questionType === (skill === 'writing' ? 'writing' : 'speaking')
-      );
-
-      totalQuestions = skillQuestions.length;
-      attemptedCount = skillQuestions.reduce((count, q, idx) => {
-        const keyById = q._id ? String(q._id) : null;
-        const keyByIndex = String(idx);
-
-        const ans =
-          (keyById && response[keyById]) ||
-          response[keyByIndex] ||
-          null;
-
-        if (skill === 'writing') {
-          if (ans && typeof ans.text === 'string' && ans.text.trim().length > 0) {
-            return count + 1;
-          }
-        }
-
-        if (skill === 'speaking') {
-          if (ans && typeof ans.uploadedUrl === 'string' && ans.uploadedUrl.trim().length > 0) {
-            return count + 1;
-          }
-        }
-        return count;
-      }, 0);
-
-      unattemptedCount = Math.max(totalQuestions - attemptedCount, 0);
-    }
-
-
-    // Build submission payload
-    const submissionPayload = {
-      student: req.user._id,
-      testSet: testSet._id,
-      skill,
-      response,
-      status: autoGradable ? 'graded' : 'pending',
-
-      totalMarks: earnedMarks || 0,
-      maxMarks: maxMarks || 0,
-      correctCount,
-      incorrectCount,
-      totalQuestions,
-      attemptedCount,
-      unattemptedCount,
-      bandScore: bandScore != null ? bandScore : null,
-    };
-
-    const submission = await Submission.create(submissionPayload);
-
-    // Queue job only for non-auto-gradable skills (writing/speaking)
-    let jobId = null;
-    if (!autoGradable) {
-      const jobData = {
-        submissionId: submission._id.toString(),
-        studentId: req.user._id.toString(),
-        testId: testSet._id.toString(),
-        skill,
-        response,
-      };
-      const job = await submissionQueue.add(jobData);
-      jobId = job.id || null;
-    }
+    const attempt = await examTimerService.closeForSubmission(req.user._id, liveTest._id);
+    if (!attempt) return res.status(409).json(ATTEMPT_CLOSED);
 
-    // Update StudentStats (only when we have a bandScore)
-    if (bandScore != null) {
-      await updateStudentStatsForSkill({
+    let submitted;
+    try {
+      submitted = await createSubmission({
         student: req.user,
+        liveTest,
+        attempt,
         skill,
-        bandScore,
+        response: req.body.response,
+        // one module of a full mock links to the parent result
+        mockResult: await mockResultService.findResultForSubmission(req.body.mockResultId, req.user._id, liveTest._id),
       });
+    } catch (err) {
+      await examTimerService.reopenAttempt(attempt._id);
+      throw err;
     }
+    const { submission, mockResult, jobId, autoGradable } = submitted;
 
     const summary = autoGradable
       ? {
         submissionId: submission._id,
-        testId: testSet._id,
+        testId: submission.testSet,
         skill,
         totalMarks: submission.totalMarks,
         maxMarks: submission.maxMarks,
@@ -907,6 +929,7 @@ router.post('/submit/:testId/:skill', protect, restrictTo(['student']), [body('r
         ? 'Submission accepted and auto-graded'
         : 'Submission accepted for grading',
       submissionId: submission._id,
+      mockResultId: mockResult ? mockResult._id : null,
       jobId,
       summary,
     });
@@ -920,7 +943,7 @@ router.post('/submit/:testId/:skill', protect, restrictTo(['student']), [body('r
 
 
 // GET /api/student/submissions/:id 
-router.get('/submissions/:id', protect, restrictTo(['student']), async (req, res) => {
+router.get('/submissions/:id', protect, requireCapability('exams.take'), async (req, res) => {
   const { id } = req.params;
   if (!mongoose.Types.ObjectId.isValid(id)) {
     return res.status(400).json({ message: 'Invalid submission id' });
@@ -940,13 +963,13 @@ router.get('/submissions/:id', protect, restrictTo(['student']), async (req, res
 
     // Decide which summary to expose as the generic "examinerSummary"
       let examinerSummary = null;
-      if (sub.skill === 'writing' && sub.geminiWritingEvaluationSummary) {
-        examinerSummary = sub.geminiWritingEvaluationSummary;
-      } else if (sub.skill === 'speaking' && sub.geminiSpeakingEvaluationSummary) {
-        examinerSummary = sub.geminiSpeakingEvaluationSummary;
-      } else if (sub.geminiEvaluation && sub.geminiEvaluation.examiner_summary) {
-        // fallback to whatever is inside geminiEvaluation
-        examinerSummary = sub.geminiEvaluation.examiner_summary;
+      if (sub.skill === 'writing' && sub.writingEvaluationSummary) {
+        examinerSummary = sub.writingEvaluationSummary;
+      } else if (sub.skill === 'speaking' && sub.speakingEvaluationSummary) {
+        examinerSummary = sub.speakingEvaluationSummary;
+      } else if (sub.aiEvaluation && sub.aiEvaluation.examiner_summary) {
+        // fallback to whatever is inside aiEvaluation
+        examinerSummary = sub.aiEvaluation.examiner_summary;
       }
 
 
@@ -967,12 +990,14 @@ router.get('/submissions/:id', protect, restrictTo(['student']), async (req, res
       correctCount: sub.correctCount || 0,
       incorrectCount: sub.incorrectCount || 0,
 
-      geminiEvaluation: sub.geminiEvaluation || null,
-      geminiError: sub.geminiError || null,
+      aiEvaluation: sub.aiEvaluation || null,
+      aiError: sub.aiError || null,
+      evaluatedBy: sub.evaluatedBy?.provider ? sub.evaluatedBy : null,
+      criteriaBands: sub.criteriaBands || null,
 
       bandScore: sub.bandScore ?? null,
-      geminiWritingEvaluationSummary: sub.geminiWritingEvaluationSummary ?? null,
-      geminiSpeakingEvaluationSummary: sub.geminiSpeakingEvaluationSummary ?? null, 
+      writingEvaluationSummary: sub.writingEvaluationSummary ?? null,
+      speakingEvaluationSummary: sub.speakingEvaluationSummary ?? null,
       examinerSummary,
       
       student: {
@@ -991,7 +1016,7 @@ router.get('/submissions/:id', protect, restrictTo(['student']), async (req, res
 );
 
 // Cleanup stale test attempts endpoint
-router.post('/tests/:id/cleanup', protect, restrictTo(['student']), async (req, res) => {
+router.post('/tests/:id/cleanup', protect, requireCapability('exams.take'), async (req, res) => {
   try {
     const { id } = req.params;
     const userId = req.user._id;
@@ -2,14 +2,14 @@
 const express = require('express');
 const router = express.Router();
 const mongoose = require('mongoose');
-const { protect, restrictTo } = require('../middleware/authMiddleware');
+const { protect, requireCapability } = require('../middleware/authMiddleware');
 
 const StudentStats = require('../models/StudentStats');
 const Submission = require('../models/Submission');
 
 
 // GET /api/student/stats  (Returns the logged-in student's aggregated stats
-router.get('/stats', protect, restrictTo(['student']), async (req, res) => {
+router.get('/stats', protect, requireCapability('exams.take'), async (req, res) => {
   try {
     const studentId = req.user._id;
 
@@ -70,6 +70,12 @@ router.get('/stats', protect, restrictTo(['student']), async (req, res) => {
       writingExaminerSummary: statsDoc.writingExaminerSummary || null,
       speakingExaminerSummary: statsDoc.speakingExaminerSummary || null,
 
+      writingCriteria: statsDoc.writingCriteria || null,
+      speakingCriteria: statsDoc.speakingCriteria || null,
+
+      // bands as they stood at the end of each past term
+      history: statsDoc.history || [],
+
       overrideDetails,
     };
 
@@ -86,7 +92,7 @@ router.get('/stats', protect, restrictTo(['student']), async (req, res) => {
 
 
 // Admin view of all student stats
-router.get("/admin/all", protect, restrictTo(["admin"]), async (req, res) => {
+router.get("/admin/all", protect, requireCapability("analytics.view"), async (req, res) => {
   try {
     const stats = await StudentStats.find({})
       .select("student systemId overallBand name email")
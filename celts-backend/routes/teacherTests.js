@@ -4,29 +4,142 @@ const router = express.Router();
 const mongoose = require('mongoose');
 
 const TestSet = require('../models/TestSet');
-const { protect, restrictTo } = require('../middleware/authMiddleware');
+const Batch = require('../models/Batch');
+const BandTable = require('../models/BandTable');
+const BankQuestion = require('../models/BankQuestion');
+const AuditLog = require('../models/AuditLog');
+const TestVersion = require('../models/TestVersion');
+const { OPEN_STATUSES } = require('../models/TestVersion');
+const { protect, requireCapability, hasCapability } = require('../middleware/authMiddleware');
+const {
+  QUESTION_TYPES_FOR_SKILL,
+  snapshotBankQuestion,
+  resolveBankReferences,
+  recordUsage,
+} = require('../services/questionBankService');
+const { validateMockModules } = require('../services/mockResultService');
+const { impactOf, softDelete } = require('../services/recycleBinService');
+const {
+  pickContent,
+  openDraft,
+  ensureDraft,
+  saveDraft,
+  submitForReview,
+  reviewDraft,
+  publishDraft,
+  discardDraft,
+  loadVersion,
+  diffContent,
+} = require('../services/testVersionService');
+const { exportTest, planTestImport, storePackageMedia } = require('../services/qti');
+const { storeMedia } = require('../services/mediaStorage');
+const { sampleTemplate, planTemplateImport } = require('../services/testTemplate');
+const { previewContent, gradePreview } = require('../services/testPreviewService');
+const { receivePackage, receiveTemplate } = require('../middleware/packageUpload');
+const { QUESTION_TYPES_FOR_TEST } = require('../utils/answerMatching');
+const { PROVIDER_NAMES } = require('../services/gradingProviders');
+
+// a test's own raw-to-band table must exist and be for the test's skill
+async function checkBandTable(bandTable, type) {
+  if (!bandTable) return null;
+  if (!mongoose.Types.ObjectId.isValid(bandTable)) return 'Invalid band table';
+  const table = await BandTable.findById(bandTable).select('skill').lean();
+  if (!table) return 'Band table not found';
+  if (table.skill !== type) return `Band table is for ${table.skill}, not ${type}`;
+  return null;
+}
+
+// a test's grading provider is one of the registered ones, or null for the deployment default
+function checkGradingProvider(name) {
+  if (name === undefined || name === null || name === '') return null;
+  if (PROVIDER_NAMES.includes(name)) return null;
+  return `gradingProvider must be one of: ${PROVIDER_NAMES.join(', ')}`;
+}
+
+// tests can't be newly assigned to batches of an archived term
+async function checkAssignedBatches(batchIds, alreadyAssigned = []) {
+  if (!Array.isArray(batchIds)) return null;
+  const added = batchIds.filter((id) => !alreadyAssigned.some((a) => String(a) === String(id)));
+  if (added.length === 0) return null;
+  const archived = await Batch.findOne({ _id: { $in: added.filter((id) => mongoose.Types.ObjectId.isValid(id)) }, archived: true })
+    .select('name')
+    .lean();
+  return archived ? `Batch "${archived.name}" is archived` : null;
+}
+
+// test settings that are not versioned
+const SETTING_FIELDS = ['startTime', 'endTime', 'assignedBatches', 'assignedStudents', 'published', 'reviewRequired'];
+
+async function findTest(req, res) {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    res.status(400).json({ message: 'Invalid id' });
+    return null;
+  }
+  const test = await TestSet.findOne({ _id: req.params.id, deletedAt: null });
+  if (!test) res.status(404).json({ message: 'Test not found' });
+  return test;
+}
+
+// students see a test once a version is published and it is assigned to them; both need tests.publish
+const releasesTest = (payload) =>
+  payload.published === true
+  || (Array.isArray(payload.assignedBatches) && payload.assignedBatches.length > 0)
+  || (Array.isArray(payload.assignedStudents) && payload.assignedStudents.length > 0);
 
 // Create test (teacher)
-router.post('/', protect, restrictTo(['faculty']), async (req, res) => {
+router.post('/', protect, requireCapability('tests.create'), async (req, res) => {
   try {
     const payload = req.body;
-    const { title, type, questions } = payload;
+    const { title, type } = payload;
     if (
       !title ||
       !type ||
-      !['reading', 'listening', 'writing', 'speaking'].includes(type)
+      !['reading', 'listening', 'writing', 'speaking', 'mock'].includes(type)
     ) {
       return res
         .status(400)
         .json({ message: 'Invalid test payload: title and valid type required' });
     }
 
-    if (!Array.isArray(questions) || questions.length === 0) {
+    // MOCK: no questions of its own, just the four module tests
+    let modules;
+    if (type === 'mock') {
+      const checked = await validateMockModules(payload.modules);
+      if (checked.error) {
+        return res.status(400).json({ message: checked.error });
+      }
+      modules = checked.modules;
+    } else if (!Array.isArray(payload.questions) || payload.questions.length === 0) {
       return res
         .status(400)
         .json({ message: 'At least one question is required' });
     }
 
+    const bandTableError = await checkBandTable(payload.bandTable, type);
+    if (bandTableError) {
+      return res.status(400).json({ message: bandTableError });
+    }
+
+    const providerError = checkGradingProvider(payload.gradingProvider);
+    if (providerError) return res.status(400).json({ message: providerError });
+
+    if (releasesTest(payload) && !hasCapability(req, 'tests.publish')) {
+      return res.status(403).json({ message: 'You are not allowed to publish tests' });
+    }
+    if (payload.published === true && payload.reviewRequired === true) {
+      return res
+        .status(400)
+        .json({ message: 'A test that requires review is published once its first draft is approved' });
+    }
+
+    // questions may reference the bank ({ bankQuestion, sectionId }) instead of carrying content
+    const { questions, missing } = await resolveBankReferences(payload.questions || []);
+    if (missing.length > 0) {
+      return res
+        .status(400)
+        .json({ message: 'Unknown bank questions', missing });
+    }
+
     // READING: require at least one passage block (readingSections)
     if (type === 'reading') {
       if (
@@ -53,10 +166,14 @@ router.post('/', protect, restrictTo(['faculty']), async (req, res) => {
       }
     }
 
+    const batchError = await checkAssignedBatches(payload.assignedBatches);
+    if (batchError) return res.status(400).json({ message: batchError });
+
     const test = await TestSet.create({
       title: payload.title,
       description: payload.description || '',
       type: payload.type,
+      modules,
 
       passage: payload.passage || '',
       audioUrl: payload.audioUrl || '',
@@ -69,9 +186,13 @@ router.post('/', protect, restrictTo(['faculty']), async (req, res) => {
         ? payload.listeningSections
         : [],
 
-      questions: payload.questions,
+      questions,
 
       timeLimitMinutes: Number(payload.timeLimitMinutes || 0),
+      bandTable: payload.bandTable || null,
+      shuffleQuestions: payload.shuffleQuestions === true,
+      shuffleOptions: payload.shuffleOptions === true,
+      gradingProvider: payload.gradingProvider || null,
       startTime: payload.startTime ? new Date(payload.startTime) : null,
       endTime: payload.endTime ? new Date(payload.endTime) : null,
       assignedBatches: Array.isArray(payload.assignedBatches)
@@ -81,9 +202,18 @@ router.post('/', protect, restrictTo(['faculty']), async (req, res) => {
         ? payload.assignedStudents
         : [],
       createdBy: req.user._id,
-      published: payload.published === true,
+      reviewRequired: payload.reviewRequired === true,
     });
 
+    // the content becomes draft version 1, published right away if asked to
+    await ensureDraft(test, req.user);
+    if (payload.published === true) {
+      const published = await publishDraft(test, req.user);
+      if (published.error) {
+        return res.status(201).json({ message: `Test saved as a draft: ${published.error}`, test });
+      }
+    }
+
     return res.status(201).json({ message: 'Test created', test });
   } catch (err) {
     console.error('Error creating test:', err);
@@ -91,31 +221,163 @@ router.post('/', protect, restrictTo(['faculty']), async (req, res) => {
   }
 });
 
+// Import a QTI 2.1 content package as a new draft test. multipart: file,
+// dryRun (default true), and type / title to use instead of what the package says.
+// The report lists every item with anything about it that could not be mapped.
+router.post('/qti/import', protect, requireCapability('tests.create'), receivePackage, async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).json({ message: 'No file uploaded' });
+    const type = req.body.type || null;
+    if (type && !QUESTION_TYPES_FOR_TEST[type]) {
+      return res.status(400).json({ message: 'type must be reading, listening, writing or speaking' });
+    }
+
+    const plan = await planTestImport(req.file.buffer, {
+      type,
+      title: String(req.body.title || '').trim() || null,
+      fallbackTitle: (req.file.originalname || '').replace(/\.zip$/i, ''),
+    });
+    if (plan.error) return res.status(400).json({ message: plan.error });
+
+    if (req.body.dryRun !== 'false') return res.json({ dryRun: true, report: plan.report });
+    if (plan.report.messages.some((m) => m.level === 'error')) {
+      return res.status(400).json({ message: 'This package cannot be imported; see the report', report: plan.report });
+    }
+
+    const baseUrl = `${req.protocol}://${req.get('host')}`;
+    const content = await storePackageMedia(plan, async (buffer, fileName, mimeType, folder) =>
+      (await storeMedia(buffer, fileName, mimeType, { folder, baseUrl })).url
+    );
+    const test = await TestSet.create({ ...content, createdBy: req.user._id });
+    await ensureDraft(test, req.user);
+
+    return res.status(201).json({
+      dryRun: false,
+      message: `Imported ${content.questions.length} question(s) as a draft test`,
+      report: plan.report,
+      test,
+    });
+  } catch (err) {
+    console.error('Error importing QTI package:', err);
+    return res.status(500).json({ message: 'Server error importing QTI package' });
+  }
+});
+
+// Sample authoring templates (?format=md|csv); the Markdown one documents the format
+router.get('/template/sample', protect, requireCapability('tests.create'), (req, res) => {
+  const sample = sampleTemplate(req.query.format || 'md');
+  if (!sample) return res.status(400).json({ message: 'format must be md or csv' });
+  res.set('Content-Type', sample.type);
+  res.set('Content-Disposition', `attachment; filename="${sample.file}"`);
+  return res.send(sample.body);
+});
+
+// Import a Markdown, CSV or XLSX authoring template as a new draft test.
+// multipart: file, dryRun (default true), type / title overrides, and audio: a
+// JSON object of listening section id -> URL for recordings uploaded separately.
+// A dry run returns the report and the test as it would be saved, for preview.
+router.post('/template/import', protect, requireCapability('tests.create'), receiveTemplate, async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).json({ message: 'No file uploaded' });
+    const type = req.body.type || null;
+    if (type && !QUESTION_TYPES_FOR_TEST[type]) {
+      return res.status(400).json({ message: 'type must be reading, listening, writing or speaking' });
+    }
+    let audio = {};
+    if (req.body.audio) {
+      try {
+        audio = JSON.parse(req.body.audio);
+      } catch (e) {
+        audio = null;
+      }
+      if (!audio || typeof audio !== 'object' || Object.values(audio).some((url) => typeof url !== 'string')) {
+        return res.status(400).json({ message: 'audio must be a JSON object of section id to audio URL' });
+      }
+    }
+
+    const plan = await planTemplateImport(req.file.buffer, req.file.originalname || '', {
+      type,
+      title: String(req.body.title || '').trim() || null,
+      audio,
+    });
+    if (plan.error) return res.status(400).json({ message: plan.error });
+
+    if (req.body.dryRun !== 'false') return res.json({ dryRun: true, report: plan.report, test: plan.test });
+    if (plan.report.messages.some((m) => m.level === 'error')) {
+      return res.status(400).json({ message: 'This template cannot be imported; see the report', report: plan.report });
+    }
+
+    const test = await TestSet.create({ ...plan.test, createdBy: req.user._id });
+    await ensureDraft(test, req.user);
+
+    return res.status(201).json({
+      dryRun: false,
+      message: `Imported ${plan.test.questions.length} question(s) as a draft test`,
+      report: plan.report,
+      test,
+    });
+  } catch (err) {
+    console.error('Error importing test template:', err);
+    return res.status(500).json({ message: 'Server error importing test template' });
+  }
+});
+
 // Get tests created by teacher (or all assigned to them)
-router.get('/', protect, restrictTo(['faculty']), async (req, res) => {
+// Tests assigned only to archived batches are left out unless includeArchived=true
+router.get('/', protect, requireCapability('tests.create'), async (req, res) => {
   try {
     const filter = {};
     if (req.query.mine === 'true') filter.createdBy = req.user._id;
     const tests = await TestSet.find(filter)
       .populate('createdBy', 'name email')
       .lean();
-    return res.json(tests);
+
+    const archivedIds = new Set((await Batch.find({ archived: true }).distinct('_id')).map(String));
+    const drafts = await TestVersion.find({ testSet: { $in: tests.map((t) => t._id) }, status: { $in: OPEN_STATUSES } })
+      .select('testSet version status')
+      .lean();
+    const draftByTest = new Map(drafts.map((d) => [String(d.testSet), { version: d.version, status: d.status }]));
+    const out = tests
+      .map((t) => ({
+        ...t,
+        archived: Array.isArray(t.assignedBatches) && t.assignedBatches.length > 0
+          && t.assignedBatches.every((b) => archivedIds.has(String(b))),
+        draft: draftByTest.get(String(t._id)) || null,
+      }))
+      .filter((t) => req.query.includeArchived === 'true' || !t.archived);
+    return res.json(out);
   } catch (err) {
     console.error('Error fetching tests:', err);
     return res.status(500).json({ message: 'Server error fetching tests' });
   }
 });
 
+// Drafts other authors have submitted for review
+router.get('/review-queue', protect, requireCapability('tests.review'), async (req, res) => {
+  try {
+    const drafts = await TestVersion.find({ status: 'in_review', submittedBy: { $ne: req.user._id } })
+      .select('testSet version changeNote submittedBy submittedAt')
+      .populate('testSet', 'title type version deletedAt')
+      .populate('submittedBy', 'name email')
+      .sort({ submittedAt: 1 })
+      .lean();
+    return res.json(drafts.filter((d) => d.testSet && !d.testSet.deletedAt));
+  } catch (err) {
+    console.error('Error fetching review queue:', err);
+    return res.status(500).json({ message: 'Server error fetching review queue' });
+  }
+});
 
-// Get by id
-router.get('/:id', protect, restrictTo(['faculty']), async (req, res) => {
+// Get by id: the live content, plus the open draft if there is one
+router.get('/:id', protect, requireCapability('tests.create', 'tests.review'), async (req, res) => {
   try {
     const id = req.params.id;
     if (!mongoose.Types.ObjectId.isValid(id))
       return res.status(400).json({ message: 'Invalid id' });
-    const test = await TestSet.findById(id).lean();
+    const test = await TestSet.findOne({ _id: id, deletedAt: null }).lean();
     if (!test) return res.status(404).json({ message: 'Test not found' });
-    return res.json(test);
+    const draft = await openDraft(test._id).lean();
+    return res.json({ ...test, draft: draft || null });
   } catch (err) {
     console.error('Error fetching test:', err);
     return res.status(500).json({ message: 'Server error fetching test' });
@@ -124,20 +386,82 @@ router.get('/:id', protect, restrictTo(['faculty']), async (req, res) => {
 
 
 
-// Update test
-router.put('/:id', protect, restrictTo(['faculty']), async (req, res) => {
+// Update test. Content edits go to the test's open draft (started from the live
+// version if needed); scheduling, assignment and review settings apply straight away.
+router.put('/:id', protect, requireCapability('tests.create'), async (req, res) => {
   try {
     const id = req.params.id;
     if (!mongoose.Types.ObjectId.isValid(id))
       return res.status(400).json({ message: 'Invalid id' });
 
     const updates = req.body;
-    const test = await TestSet.findByIdAndUpdate(id, updates, {
-      new: true,
-      runValidators: true,
-    }).lean();
+    if ((updates.published !== undefined || updates.assignedBatches !== undefined || updates.assignedStudents !== undefined)
+      && !hasCapability(req, 'tests.publish')) {
+      return res.status(403).json({ message: 'You are not allowed to publish tests or change who they are assigned to' });
+    }
+
+    const test = await TestSet.findOne({ _id: id, deletedAt: null });
     if (!test) return res.status(404).json({ message: 'Test not found' });
-    return res.json({ message: 'Test updated', test });
+
+    if (updates.published === true && !test.version) {
+      return res.status(400).json({ message: 'Publish a version of this test first' });
+    }
+    if (updates.reviewRequired === false && test.reviewRequired && !hasCapability(req, 'tests.review')) {
+      return res.status(403).json({ message: 'Only reviewers can stop requiring review for a test' });
+    }
+
+    if (Array.isArray(updates.questions)) {
+      const { questions, missing } = await resolveBankReferences(updates.questions);
+      if (missing.length > 0) {
+        return res
+          .status(400)
+          .json({ message: 'Unknown bank questions', missing });
+      }
+      updates.questions = questions;
+    }
+
+    if (updates.modules !== undefined) {
+      const checked = await validateMockModules(updates.modules);
+      if (checked.error) {
+        return res.status(400).json({ message: checked.error });
+      }
+      updates.modules = checked.modules;
+    }
+
+    if (updates.assignedBatches !== undefined) {
+      const batchError = await checkAssignedBatches(updates.assignedBatches, test.assignedBatches);
+      if (batchError) return res.status(400).json({ message: batchError });
+    }
+
+    if (updates.gradingProvider !== undefined) {
+      const providerError = checkGradingProvider(updates.gradingProvider);
+      if (providerError) return res.status(400).json({ message: providerError });
+      updates.gradingProvider = updates.gradingProvider || null;
+    }
+
+    if (updates.bandTable) {
+      const bandTableError = await checkBandTable(updates.bandTable, test.type);
+      if (bandTableError) {
+        return res.status(400).json({ message: bandTableError });
+      }
+    }
+
+    let draft = null;
+    if (Object.keys(pickContent(updates)).length > 0 || updates.changeNote !== undefined) {
+      draft = await saveDraft(test, updates, req.user);
+    }
+
+    const settings = SETTING_FIELDS.filter((f) => updates[f] !== undefined);
+    if (settings.length > 0) {
+      for (const field of settings) test.set(field, updates[field]);
+      await test.save();
+    }
+
+    return res.json({
+      message: draft && test.version ? `Saved as draft version ${draft.version}` : 'Test updated',
+      test: test.toObject(),
+      draft,
+    });
   } catch (err) {
     console.error('Error updating test:', err);
     return res.status(500).json({ message: 'Server error updating test' });
@@ -146,15 +470,320 @@ router.put('/:id', protect, restrictTo(['faculty']), async (req, res) => {
 
 
 
+// Pull bank questions into a test's draft (copied as snapshots that keep a link to the bank)
+// body: { bankQuestionIds: [], sectionId?, marks? }
+router.post('/:id/questions/from-bank', protect, requireCapability('tests.create'), async (req, res) => {
+  try {
+    const id = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(id))
+      return res.status(400).json({ message: 'Invalid id' });
+
+    const { bankQuestionIds, sectionId, marks } = req.body;
+    if (!Array.isArray(bankQuestionIds) || bankQuestionIds.length === 0) {
+      return res.status(400).json({ message: 'bankQuestionIds is required' });
+    }
+    if (bankQuestionIds.some(qid => !mongoose.Types.ObjectId.isValid(qid))) {
+      return res.status(400).json({ message: 'Invalid bank question id' });
+    }
+
+    const test = await TestSet.findOne({ _id: id, deletedAt: null });
+    if (!test) return res.status(404).json({ message: 'Test not found' });
+    const current = await ensureDraft(test, req.user);
+
+    if (test.type === 'reading' || test.type === 'listening') {
+      const sections = test.type === 'reading' ? current.readingSections : current.listeningSections;
+      if (!sectionId || !sections.some(s => s.id === sectionId)) {
+        return res
+          .status(400)
+          .json({ message: `sectionId must match one of this test's ${test.type} sections` });
+      }
+    }
+
+    const bankQuestions = await BankQuestion.find({ _id: { $in: bankQuestionIds } }).lean();
+    if (bankQuestions.length !== new Set(bankQuestionIds.map(String)).size) {
+      return res.status(404).json({ message: 'One or more bank questions not found' });
+    }
+
+    const wrongType = bankQuestions.find(
+      b => !(QUESTION_TYPES_FOR_SKILL[test.type] || []).includes(b.questionType)
+    );
+    if (wrongType) {
+      return res.status(400).json({
+        message: `Bank question ${wrongType._id} (${wrongType.skill}) cannot be used in a ${test.type} test`,
+      });
+    }
+
+    // keep the order the teacher picked them in
+    const byId = new Map(bankQuestions.map(b => [String(b._id), b]));
+    const questions = current.questions.map(q => q.toObject());
+    for (const qid of bankQuestionIds) {
+      questions.push(
+        snapshotBankQuestion(byId.get(String(qid)), {
+          sectionId: sectionId || null,
+          marks,
+        })
+      );
+    }
+    const draft = await saveDraft(test, { questions }, req.user);
+    await recordUsage(bankQuestions.map(b => b._id));
+
+    return res.json({ message: 'Questions added from bank', test, draft });
+  } catch (err) {
+    console.error('Error adding bank questions to test:', err);
+    return res.status(500).json({ message: 'Server error adding bank questions' });
+  }
+});
+
+
+
+// GET /:id/qti?version=<version|draft> - the live content, or the given version, as a QTI 2.1 package
+router.get('/:id/qti', protect, requireCapability('tests.create', 'tests.review'), async (req, res) => {
+  try {
+    const id = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(id))
+      return res.status(400).json({ message: 'Invalid id' });
+    const test = await TestSet.findOne({ _id: id, deletedAt: null }).lean();
+    if (!test) return res.status(404).json({ message: 'Test not found' });
+    if (test.type === 'mock') {
+      return res.status(400).json({ message: 'A mock has no questions of its own; export its module tests instead' });
+    }
+
+    const content = req.query.version ? await loadVersion(test, req.query.version) : test;
+    if (!content) return res.status(404).json({ message: 'Version not found' });
+
+    const buffer = await exportTest(test, content);
+    const slug = String(content.title || 'test').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'test';
+    res.set('Content-Type', 'application/zip');
+    res.set('Content-Disposition', `attachment; filename="${slug}-v${content.version || 1}-qti.zip"`);
+    return res.send(buffer);
+  } catch (err) {
+    console.error('Error exporting test as QTI:', err);
+    return res.status(500).json({ message: 'Server error exporting test' });
+  }
+});
+
+// GET /:id/preview?version=<version|draft|live> - the content with its answer key, for
+// running the test as a student would; defaults to the open draft, else the live version
+router.get('/:id/preview', protect, requireCapability('tests.create', 'tests.review'), async (req, res) => {
+  try {
+    const id = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(id))
+      return res.status(400).json({ message: 'Invalid id' });
+    const test = await TestSet.findOne({ _id: id, deletedAt: null }).lean();
+    if (!test) return res.status(404).json({ message: 'Test not found' });
+    if (test.type === 'mock') {
+      return res.status(400).json({ message: 'A mock has no questions of its own; preview its module tests instead' });
+    }
+
+    const content = await previewContent(test, req.query.version);
+    if (!content) return res.status(404).json({ message: 'Version not found' });
+    return res.json(content);
+  } catch (err) {
+    console.error('Error fetching test preview:', err);
+    return res.status(500).json({ message: 'Server error fetching test preview' });
+  }
+});
+
+// Auto-grade the answers given in a preview; nothing is saved
+// body: { version?, response: { [questionId]: { selectedIndex | selectedIndexes | text } } }
+router.post('/:id/preview/grade', protect, requireCapability('tests.create', 'tests.review'), async (req, res) => {
+  try {
+    const id = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(id))
+      return res.status(400).json({ message: 'Invalid id' });
+    const test = await TestSet.findOne({ _id: id, deletedAt: null }).lean();
+    if (!test) return res.status(404).json({ message: 'Test not found' });
+    if (test.type === 'mock') {
+      return res.status(400).json({ message: 'A mock has no questions of its own; preview its module tests instead' });
+    }
+
+    const { version, response } = req.body || {};
+    const content = await previewContent(test, version);
+    if (!content) return res.status(404).json({ message: 'Version not found' });
+    const responseObject = response && typeof response === 'object' && !Array.isArray(response) ? response : {};
+    return res.json(await gradePreview(content, responseObject));
+  } catch (err) {
+    console.error('Error grading test preview:', err);
+    return res.status(500).json({ message: 'Server error grading test preview' });
+  }
+});
+
+// Version history, newest first (without the content)
+router.get('/:id/versions', protect, requireCapability('tests.create', 'tests.review'), async (req, res) => {
+  try {
+    const id = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(id))
+      return res.status(400).json({ message: 'Invalid id' });
+    const test = await TestSet.findOne({ _id: id, deletedAt: null }).select('version reviewRequired').lean();
+    if (!test) return res.status(404).json({ message: 'Test not found' });
+
+    const versions = await TestVersion.find({ testSet: id })
+      .select('version status changeNote createdBy updatedBy submittedBy submittedAt reviewedBy reviewedAt reviewNote publishedBy publishedAt createdAt updatedAt')
+      .populate('createdBy updatedBy submittedBy reviewedBy publishedBy', 'name')
+      .sort({ version: -1 })
+      .lean();
+    return res.json({ liveVersion: test.version, reviewRequired: test.reviewRequired, versions });
+  } catch (err) {
+    console.error('Error fetching test versions:', err);
+    return res.status(500).json({ message: 'Server error fetching test versions' });
+  }
+});
+
+// One version's content; :version is a number or 'draft'
+router.get('/:id/versions/:version', protect, requireCapability('tests.create', 'tests.review'), async (req, res) => {
+  try {
+    const id = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(id))
+      return res.status(400).json({ message: 'Invalid id' });
+    const test = await TestSet.findOne({ _id: id, deletedAt: null }).lean();
+    if (!test) return res.status(404).json({ message: 'Test not found' });
+    const version = await loadVersion(test, req.params.version);
+    if (!version) return res.status(404).json({ message: 'Version not found' });
+    return res.json(version);
+  } catch (err) {
+    console.error('Error fetching test version:', err);
+    return res.status(500).json({ message: 'Server error fetching test version' });
+  }
+});
+
+// GET /:id/diff?from=<version|none>&to=<version|draft>
+// Defaults compare the live version with the open draft; from=none lists everything in `to` as new.
+router.get('/:id/diff', protect, requireCapability('tests.create', 'tests.review'), async (req, res) => {
+  try {
+    const id = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(id))
+      return res.status(400).json({ message: 'Invalid id' });
+    const test = await TestSet.findOne({ _id: id, deletedAt: null }).lean();
+    if (!test) return res.status(404).json({ message: 'Test not found' });
+
+    const fromKey = String(req.query.from || test.version);
+    const empty = fromKey === 'none' || fromKey === '0';
+    const [from, to] = await Promise.all([
+      empty ? null : loadVersion(test, fromKey),
+      loadVersion(test, req.query.to || 'draft'),
+    ]);
+    if (!to || (!from && !empty)) return res.status(404).json({ message: 'Version not found' });
+
+    return res.json({
+      from: from ? { version: from.version, status: from.status } : null,
+      to: { version: to.version, status: to.status },
+      changes: diffContent(from || {}, to),
+    });
+  } catch (err) {
+    console.error('Error comparing test versions:', err);
+    return res.status(500).json({ message: 'Server error comparing test versions' });
+  }
+});
+
+// Submit the open draft for review
+router.post('/:id/draft/submit', protect, requireCapability('tests.create'), async (req, res) => {
+  try {
+    const test = await findTest(req, res);
+    if (!test) return;
+    const result = await submitForReview(test, req.user, req.body.changeNote);
+    if (result.error) return res.status(400).json({ message: result.error });
+    return res.json({ message: 'Submitted for review', draft: result.draft });
+  } catch (err) {
+    console.error('Error submitting test for review:', err);
+    return res.status(500).json({ message: 'Server error submitting test for review' });
+  }
+});
+
+// Approve the draft in review, or send it back. body: { approve: boolean, note? }
+router.post('/:id/draft/review', protect, requireCapability('tests.review'), async (req, res) => {
+  try {
+    const test = await findTest(req, res);
+    if (!test) return;
+    const approve = req.body.approve === true;
+    if (!approve && !String(req.body.note || '').trim()) {
+      return res.status(400).json({ message: 'Say what needs to change when sending a draft back' });
+    }
+    const result = await reviewDraft(test, req.user, { approve, note: req.body.note });
+    if (result.error) return res.status(400).json({ message: result.error });
+    return res.json({ message: approve ? 'Draft approved' : 'Draft sent back to its author', draft: result.draft });
+  } catch (err) {
+    console.error('Error reviewing test draft:', err);
+    return res.status(500).json({ message: 'Server error reviewing test draft' });
+  }
+});
+
+// Publish the open draft as the new live version
+router.post('/:id/draft/publish', protect, requireCapability('tests.publish'), async (req, res) => {
+  try {
+    const test = await findTest(req, res);
+    if (!test) return;
+    const previous = test.version;
+    const result = await publishDraft(test, req.user);
+    if (result.error) return res.status(400).json({ message: result.error });
+    await AuditLog.create({
+      action: 'test_publish',
+      targetType: 'TestSet',
+      targetId: test._id,
+      changedBy: req.user._id,
+      changedByRole: req.user.role,
+      oldValue: { version: previous },
+      newValue: { version: result.version.version },
+      reason: result.version.changeNote,
+    });
+    return res.json({ message: `Version ${result.version.version} published`, test });
+  } catch (err) {
+    console.error('Error publishing test:', err);
+    return res.status(500).json({ message: 'Server error publishing test' });
+  }
+});
+
+// Throw away the open draft
+router.delete('/:id/draft', protect, requireCapability('tests.create'), async (req, res) => {
+  try {
+    const test = await findTest(req, res);
+    if (!test) return;
+    const result = await discardDraft(test);
+    if (result.error) return res.status(400).json({ message: result.error });
+    return res.json({ message: 'Draft discarded' });
+  } catch (err) {
+    console.error('Error discarding test draft:', err);
+    return res.status(500).json({ message: 'Server error discarding test draft' });
+  }
+});
+
+
+
 // Delete test
-router.delete('/:id', protect, restrictTo(['faculty']), async (req, res) => {
+router.get('/:id/impact', protect, requireCapability('tests.create'), async (req, res) => {
   try {
     const id = req.params.id;
     if (!mongoose.Types.ObjectId.isValid(id))
       return res.status(400).json({ message: 'Invalid id' });
-    const deleted = await TestSet.findByIdAndDelete(id);
-    if (!deleted) return res.status(404).json({ message: 'Test not found' });
-    return res.json({ message: 'Test deleted' });
+    const test = await TestSet.findOne({ _id: id, deletedAt: null }).lean();
+    if (!test) return res.status(404).json({ message: 'Test not found' });
+    return res.json(await impactOf('test', test));
+  } catch (err) {
+    console.error('Error checking test dependencies:', err);
+    return res.status(500).json({ message: 'Server error checking test dependencies' });
+  }
+});
+
+// Deleting moves the test to the recycle bin; its submissions stay until it is purged
+router.delete('/:id', protect, requireCapability('tests.create'), async (req, res) => {
+  try {
+    const id = req.params.id;
+    if (!mongoose.Types.ObjectId.isValid(id))
+      return res.status(400).json({ message: 'Invalid id' });
+    const test = await TestSet.findOne({ _id: id, deletedAt: null });
+    if (!test) return res.status(404).json({ message: 'Test not found' });
+
+    const result = await softDelete('test', test, req.user);
+    if (result.error) return res.status(400).json({ message: result.error });
+    await AuditLog.create({
+      action: 'test_delete',
+      targetType: 'TestSet',
+      targetId: test._id,
+      changedBy: req.user._id,
+      changedByRole: req.user.role,
+      oldValue: { title: test.title, type: test.type },
+      meta: result.impact.counts,
+    });
+    return res.json({ message: 'Test moved to the recycle bin', impact: result.impact });
   } catch (err) {
     console.error('Error deleting test:', err);
     return res.status(500).json({ message: 'Server error deleting test' });
@@ -0,0 +1,123 @@
+// routes/twoFactor.js
+// Self-service TOTP enrolment, mounted under /api/auth/2fa so it stays reachable
+// while an account is held for required 2FA setup.
+const express = require('express');
+const router = express.Router();
+const { body, validationResult } = require('express-validator');
+const { protect } = require('../middleware/authMiddleware');
+
+const User = require('../models/User');
+const AuditLog = require('../models/AuditLog');
+const {
+  isTwoFactorEligible,
+  isTwoFactorRequired,
+  twoFactorStatus,
+  beginEnrollment,
+  confirmEnrollment,
+  verifySecondFactor,
+  regenerateRecoveryCodes,
+  clearTwoFactor,
+} = require('../services/twoFactorService');
+
+const eligibleOnly = (req, res, next) => {
+  if (!isTwoFactorEligible(req.user)) {
+    return res.status(403).json({ message: 'Two-factor authentication is only available for admin and faculty accounts' });
+  }
+  return next();
+};
+
+function logSelfChange(user, action) {
+  return AuditLog.create({
+    action,
+    targetType: 'User',
+    targetId: user._id,
+    changedBy: user._id,
+    changedByRole: user.role,
+  });
+}
+
+// GET /api/auth/2fa
+router.get('/', protect, async (req, res) => {
+  try {
+    const user = await User.findById(req.user._id).select('+twoFactor.recoveryCodes');
+    return res.json(twoFactorStatus(user, req.capabilities));
+  } catch (err) {
+    console.error('[GET /auth/2fa] error:', err);
+    return res.status(500).json({ message: 'Server error loading two-factor status' });
+  }
+});
+
+// POST /api/auth/2fa/setup - new secret + QR code; 2FA stays off until /enable
+router.post('/setup', protect, eligibleOnly, async (req, res) => {
+  try {
+    if (req.user.twoFactor && req.user.twoFactor.enabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+    }
+    const enrollment = await beginEnrollment(req.user);
+    return res.json(enrollment);
+  } catch (err) {
+    console.error('[POST /auth/2fa/setup] error:', err);
+    return res.status(500).json({ message: 'Server error starting two-factor setup' });
+  }
+});
+
+// POST /api/auth/2fa/enable - body: { code }
+router.post('/enable', protect, eligibleOnly, [body('code').notEmpty()], async (req, res) => {
+  const errors = validationResult(req); if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+  try {
+    if (req.user.twoFactor && req.user.twoFactor.enabled) {
+      return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+    }
+    const { error, recoveryCodes } = await confirmEnrollment(req.user._id, req.body.code);
+    if (error) return res.status(400).json({ message: error });
+
+    await logSelfChange(req.user, 'user_2fa_enable');
+    return res.json({ message: 'Two-factor authentication enabled', recoveryCodes });
+  } catch (err) {
+    console.error('[POST /auth/2fa/enable] error:', err);
+    return res.status(500).json({ message: 'Server error enabling two-factor authentication' });
+  }
+});
+
+// POST /api/auth/2fa/recovery-codes - body: { code }; replaces all recovery codes
+router.post('/recovery-codes', protect, eligibleOnly, [body('code').notEmpty()], async (req, res) => {
+  const errors = validationResult(req); if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+  try {
+    const { error } = await verifySecondFactor(req.user._id, { code: req.body.code });
+    if (error) return res.status(400).json({ message: error });
+
+    const recoveryCodes = await regenerateRecoveryCodes(req.user._id);
+    return res.json({ message: 'New recovery codes generated; the old ones no longer work', recoveryCodes });
+  } catch (err) {
+    console.error('[POST /auth/2fa/recovery-codes] error:', err);
+    return res.status(500).json({ message: 'Server error generating recovery codes' });
+  }
+});
+
+// POST /api/auth/2fa/disable - body: { password, code | recoveryCode }
+router.post('/disable', protect, eligibleOnly, [body('password').notEmpty()], async (req, res) => {
+  const errors = validationResult(req); if (!errors.isEmpty()) return res.status(400).json({ errors: errors.array() });
+  try {
+    if (isTwoFactorRequired(req.user, req.capabilities)) {
+      return res.status(400).json({ message: 'Two-factor authentication is required for your account and cannot be turned off' });
+    }
+    const user = await User.findById(req.user._id);
+    if (!(await user.matchPassword(req.body.password))) {
+      return res.status(400).json({ message: 'Password is incorrect' });
+    }
+    const { error } = await verifySecondFactor(user._id, {
+      code: req.body.code,
+      recoveryCode: req.body.recoveryCode,
+    });
+    if (error) return res.status(400).json({ message: error });
+
+    await clearTwoFactor(user._id);
+    await logSelfChange(req.user, 'user_2fa_disable');
+    return res.json({ message: 'Two-factor authentication disabled' });
+  } catch (err) {
+    console.error('[POST /auth/2fa/disable] error:', err);
+    return res.status(500).json({ message: 'Server error disabling two-factor authentication' });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,165 @@
+// scripts/dev/mockIdp.js
+// A throwaway OpenID Connect provider for trying SSO locally (development only):
+//   node scripts/dev/mockIdp.js
+//   SSO_PROVIDER=oidc OIDC_ISSUER=http://localhost:5055 OIDC_CLIENT_ID=celts OIDC_CLIENT_SECRET=celts-secret
+// The sign-in page lets you type whatever claims you want the "university" to send.
+// Keys, codes and tokens live in memory and vanish on restart. Never deploy this.
+require('dotenv').config();
+
+if (process.env.NODE_ENV === 'production') {
+  console.error('The mock IdP signs whatever claims it is given; it refuses to run with NODE_ENV=production.');
+  process.exit(1);
+}
+const express = require('express');
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+
+const PORT = Number(process.env.MOCK_IDP_PORT || 5055);
+const ISSUER = process.env.MOCK_IDP_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_IDP_CLIENT_ID || 'celts';
+const CLIENT_SECRET = process.env.MOCK_IDP_CLIENT_SECRET || 'celts-secret';
+const CODE_TTL_MS = 60 * 1000;
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KID = crypto.randomBytes(8).toString('hex');
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid: KID, alg: 'RS256', use: 'sig' };
+
+const codes = new Map(); // code -> { claims, nonce, codeChallenge, redirectUri, expiresAt }
+const accessTokens = new Map(); // token -> claims
+
+const PRESETS = {
+  student: { email: 'student1@univ.test', name: 'Test Student', preferred_username: 'STU1001', groups: 'students', batch: '' },
+  faculty: { email: 'faculty1@univ.test', name: 'Test Faculty', preferred_username: 'FAC2001', groups: 'staff', batch: '' },
+  admin: { email: 'admin1@univ.test', name: 'Test Admin', preferred_username: 'ADM3001', groups: 'celts-admins', batch: '' },
+};
+
+const escapeHtml = (s) => String(s == null ? '' : s).replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+app.use(express.json());
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    userinfo_endpoint: `${ISSUER}/userinfo`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post'],
+    code_challenge_methods_supported: ['S256'],
+    claims_supported: ['sub', 'email', 'email_verified', 'name', 'preferred_username', 'groups', 'batch'],
+  });
+});
+
+app.get('/jwks', (req, res) => res.json({ keys: [jwk] }));
+
+// The "university login": a form of claims, prefilled from a preset
+app.get('/authorize', (req, res) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method } = req.query;
+  if (client_id !== CLIENT_ID) return res.status(400).send('Unknown client_id');
+  if (!redirect_uri) return res.status(400).send('redirect_uri is required');
+  if (code_challenge && code_challenge_method !== 'S256') return res.status(400).send('Only S256 PKCE is supported');
+
+  const preset = PRESETS[req.query.preset] || PRESETS.student;
+  const hidden = { redirect_uri, state, nonce, code_challenge };
+  const presetLinks = Object.keys(PRESETS)
+    .map((p) => `<a href="?${new URLSearchParams({ ...req.query, preset: p })}">${p}</a>`)
+    .join(' | ');
+
+  res.send(`<!doctype html>
+<html><head><title>Mock University IdP</title>
+<style>body{font-family:sans-serif;max-width:480px;margin:40px auto}label{display:block;margin-top:12px}input{width:100%;padding:6px}</style>
+</head><body>
+<h2>Mock University IdP</h2>
+<p>Presets: ${presetLinks}</p>
+<form method="post" action="/authorize">
+  ${Object.entries(hidden).map(([k, v]) => `<input type="hidden" name="${k}" value="${escapeHtml(v)}">`).join('\n  ')}
+  <label>sub (stable IdP id)<input name="sub" value="${escapeHtml(`mock-${preset.preferred_username}`)}"></label>
+  <label>email<input name="email" value="${escapeHtml(preset.email)}"></label>
+  <label>name<input name="name" value="${escapeHtml(preset.name)}"></label>
+  <label>preferred_username (systemId)<input name="preferred_username" value="${escapeHtml(preset.preferred_username)}"></label>
+  <label>groups (comma separated)<input name="groups" value="${escapeHtml(preset.groups)}"></label>
+  <label>batch (comma separated batch names)<input name="batch" value="${escapeHtml(preset.batch)}"></label>
+  <p><button type="submit">Sign in</button></p>
+</form>
+</body></html>`);
+});
+
+app.post('/authorize', (req, res) => {
+  const { redirect_uri, state, nonce, code_challenge } = req.body;
+  const list = (v) => String(v || '').split(',').map((s) => s.trim()).filter(Boolean);
+
+  const claims = {
+    sub: req.body.sub,
+    email: req.body.email,
+    email_verified: true,
+    name: req.body.name,
+    preferred_username: req.body.preferred_username,
+    groups: list(req.body.groups),
+    batch: list(req.body.batch),
+  };
+  const code = crypto.randomBytes(16).toString('hex');
+  codes.set(code, {
+    claims,
+    nonce,
+    codeChallenge: code_challenge,
+    redirectUri: redirect_uri,
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  const target = new URL(redirect_uri);
+  target.searchParams.set('code', code);
+  if (state) target.searchParams.set('state', state);
+  res.redirect(target.toString());
+});
+
+function clientCredentials(req) {
+  const header = req.headers.authorization || '';
+  if (header.startsWith('Basic ')) {
+    const [id, secret] = Buffer.from(header.slice(6), 'base64').toString().split(':').map(decodeURIComponent);
+    return { id, secret };
+  }
+  return { id: req.body.client_id, secret: req.body.client_secret };
+}
+
+app.post('/token', (req, res) => {
+  const { id, secret } = clientCredentials(req);
+  if (id !== CLIENT_ID || secret !== CLIENT_SECRET) return res.status(401).json({ error: 'invalid_client' });
+  if (req.body.grant_type !== 'authorization_code') return res.status(400).json({ error: 'unsupported_grant_type' });
+
+  const entry = codes.get(req.body.code);
+  codes.delete(req.body.code);
+  if (!entry || entry.expiresAt < Date.now() || entry.redirectUri !== req.body.redirect_uri) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+  if (entry.codeChallenge) {
+    const expected = crypto.createHash('sha256').update(String(req.body.code_verifier || '')).digest('base64url');
+    if (expected !== entry.codeChallenge) return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE mismatch' });
+  }
+
+  const idToken = jwt.sign(
+    { ...entry.claims, nonce: entry.nonce },
+    privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    { algorithm: 'RS256', keyid: KID, issuer: ISSUER, audience: CLIENT_ID, expiresIn: '5m' }
+  );
+  const accessToken = crypto.randomBytes(24).toString('hex');
+  accessTokens.set(accessToken, entry.claims);
+
+  res.json({ access_token: accessToken, token_type: 'Bearer', expires_in: 300, id_token: idToken });
+});
+
+app.get('/userinfo', (req, res) => {
+  const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+  const claims = accessTokens.get(token);
+  if (!claims) return res.status(401).json({ error: 'invalid_token' });
+  res.json(claims);
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock OIDC IdP on ${ISSUER} (client_id=${CLIENT_ID})`);
+});
@@ -3,16 +3,17 @@ require('./services/gradingWorker');
 const express = require('express');
 const path = require('path');
 const cors = require('cors');
-const { GoogleGenAI } = require("@google/genai");
 
 const connectDB = require('./config/mongoDB');
 const logger = require('./config/logger');
 const apiRoutes = require('./routes/index');
 const examTimerService = require('./services/examTimerService'); 
-
-const ai= new GoogleGenAI({});
+const { schedulePurge } = require('./services/recycleBinService');
+const { refreshTokenKey } = require('./services/tokenService');
+const { sameOrigin } = require('./middleware/sameOrigin');
 
 connectDB();
+schedulePurge();
 
 const app = express();
 const PORT = process.env.PORT || 5000;
@@ -25,16 +26,23 @@ app.use('/uploads', express.static(path.join(__dirname, 'uploads')));
 
 app.use(cors({
   origin: process.env.CLIENT_ORIGIN || 'http://localhost:3000',
-  credentials: true
+  credentials: true,
+  // lets the frontend name downloaded exports
+  exposedHeaders: ['Content-Disposition']
 }));
 
 
 const rateLimit = require('express-rate-limit');
-app.use('/api/auth', rateLimit({ windowMs: 60 * 1000, max: 20 }));
+// the auth limiter is for password and code guessing; keeping a session alive is
+// not, or a busy shared IP would sign everyone behind it out
+const SESSION_AUTH_PATHS = ['/refresh', '/me', '/logout'];
+app.use('/api/auth', rateLimit({ windowMs: 60 * 1000, max: 20, skip: (req) => SESSION_AUTH_PATHS.includes(req.path) }));
+app.use('/api/auth/refresh', rateLimit({ windowMs: 60 * 1000, max: 20, keyGenerator: (req) => refreshTokenKey(req) || req.ip }));
+app.use('/api/invitations/accept', rateLimit({ windowMs: 60 * 1000, max: 20 }));
 
 console.log(`Starting CELTS Backend on port ${PORT}...`);
 
-app.use('/api', apiRoutes);
+app.use('/api', sameOrigin, apiRoutes);
 
 const frontendPath = path.join(__dirname, 'public');
 app.use(express.static(frontendPath));
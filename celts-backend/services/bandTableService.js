@@ -0,0 +1,184 @@
+// services/bandTableService.js
+const BandTable = require('../models/BandTable');
+const TestSet = require('../models/TestSet');
+const Submission = require('../models/Submission');
+const StudentStats = require('../models/StudentStats');
+const { rawToBandFromTable } = require('../utils/scoring');
+const { recordModuleGrade } = require('./mockResultService');
+
+// [minimum raw score out of 40, band]
+const BUILT_IN_TABLES = [
+  {
+    key: 'listening',
+    name: 'IELTS Listening',
+    skill: 'listening',
+    rows: [
+      [39, 9], [37, 8.5], [35, 8], [32, 7.5], [30, 7], [26, 6.5], [23, 6], [18, 5.5],
+      [16, 5], [13, 4.5], [10, 4], [8, 3.5], [6, 3], [4, 2.5], [2, 2], [1, 1], [0, 0],
+    ],
+  },
+  {
+    key: 'academic_reading',
+    name: 'IELTS Academic Reading',
+    skill: 'reading',
+    rows: [
+      [39, 9], [37, 8.5], [35, 8], [33, 7.5], [30, 7], [27, 6.5], [23, 6], [19, 5.5],
+      [15, 5], [13, 4.5], [10, 4], [8, 3.5], [6, 3], [4, 2.5], [2, 2], [1, 1], [0, 0],
+    ],
+  },
+  {
+    key: 'general_reading',
+    name: 'IELTS General Training Reading',
+    skill: 'reading',
+    rows: [
+      [40, 9], [39, 8.5], [37, 8], [36, 7.5], [34, 7], [32, 6.5], [30, 6], [27, 5.5],
+      [23, 5], [19, 4.5], [15, 4], [12, 3.5], [9, 3], [6, 2.5], [3, 2], [1, 1], [0, 0],
+    ],
+  },
+];
+
+// tests without their own table use these
+const DEFAULT_TABLE_KEY = {
+  reading: 'academic_reading',
+  listening: 'listening',
+};
+
+let builtInsReady = null;
+
+/**
+ * Insert the official tables the first time they're needed. Existing rows are
+ * left alone so admin edits to a built-in table survive restarts.
+ */
+function ensureBuiltInTables() {
+  if (!builtInsReady) {
+    builtInsReady = Promise.all(
+      BUILT_IN_TABLES.map(t =>
+        BandTable.updateOne(
+          { key: t.key },
+          {
+            $setOnInsert: {
+              key: t.key,
+              name: t.name,
+              skill: t.skill,
+              totalQuestions: 40,
+              builtIn: true,
+              rows: t.rows.map(([minScore, band]) => ({ minScore, band })),
+            },
+          },
+          { upsert: true }
+        )
+      )
+    ).catch(err => {
+      builtInsReady = null;
+      throw err;
+    });
+  }
+  return builtInsReady;
+}
+
+/**
+ * The table a test's raw scores convert with: its own, else the skill default.
+ */
+async function resolveTableForTest(testSet, skill) {
+  if (testSet.bandTable) {
+    const own = await BandTable.findById(testSet.bandTable).lean();
+    if (own && own.skill === skill) return own;
+  }
+
+  const key = DEFAULT_TABLE_KEY[skill];
+  if (!key) return null;
+  await ensureBuiltInTables();
+  return BandTable.findOne({ key }).lean();
+}
+
+/**
+ * Band for an auto-graded reading/listening score.
+ * Returns { bandScore, bandTable } or null when no usable table exists.
+ */
+async function convertRawScore(testSet, skill, earnedMarks, maxMarks) {
+  const table = await resolveTableForTest(testSet, skill);
+  const bandScore = rawToBandFromTable(earnedMarks, maxMarks, table);
+  if (bandScore === null) return null;
+  return { bandScore, bandTable: table._id };
+}
+
+/**
+ * Point StudentStats at the band of the student's latest graded submission for
+ * `skill`, and recompute the average overall band.
+ */
+async function refreshSkillBand(studentId, skill) {
+  const stats = await StudentStats.findOne({ student: studentId });
+  if (!stats) return;
+
+  const latest = await Submission.findOne({ student: studentId, skill, status: 'graded' })
+    .sort({ createdAt: -1 })
+    .select('bandScore')
+    .lean();
+  if (!latest || typeof latest.bandScore !== 'number') return;
+
+  stats[`${skill}Band`] = latest.bandScore;
+
+  const values = [
+    stats.readingBand,
+    stats.listeningBand,
+    stats.writingBand,
+    stats.speakingBand,
+  ].filter((v) => typeof v === 'number' && v > 0);
+  stats.overallBand = values.length ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 2) / 2 : null;
+
+  await stats.save();
+}
+
+/**
+ * Re-run the conversion for every graded submission of the tests using `table`
+ * (including tests on the skill default when it's the default table).
+ * Overridden bands are kept. Returns { scanned, updated }.
+ */
+async function reconvertSubmissions(table) {
+  const testFilter = [{ bandTable: table._id }];
+  if (table.key && DEFAULT_TABLE_KEY[table.skill] === table.key) {
+    testFilter.push({ bandTable: null, type: table.skill });
+  }
+  const tests = await TestSet.find({ $or: testFilter }).select('_id').lean();
+  if (tests.length === 0) return { scanned: 0, updated: 0 };
+
+  const submissions = await Submission.find({
+    testSet: { $in: tests.map(t => t._id) },
+    skill: table.skill,
+    status: 'graded',
+    isOverridden: { $ne: true },
+    maxMarks: { $gt: 0 },
+  });
+
+  let updated = 0;
+  const affectedStudents = new Set();
+
+  for (const submission of submissions) {
+    const bandScore = rawToBandFromTable(submission.totalMarks || 0, submission.maxMarks, table);
+    if (bandScore === null) continue;
+    if (bandScore === submission.bandScore && String(submission.bandTable) === String(table._id)) continue;
+
+    submission.bandScore = bandScore;
+    submission.bandTable = table._id;
+    await submission.save();
+    updated += 1;
+    affectedStudents.add(String(submission.student));
+
+    if (submission.mockResult) await recordModuleGrade(submission);
+  }
+
+  for (const studentId of affectedStudents) {
+    await refreshSkillBand(studentId, table.skill);
+  }
+
+  return { scanned: submissions.length, updated };
+}
+
+module.exports = {
+  BUILT_IN_TABLES,
+  DEFAULT_TABLE_KEY,
+  ensureBuiltInTables,
+  resolveTableForTest,
+  convertRawScore,
+  reconvertSubmissions,
+};
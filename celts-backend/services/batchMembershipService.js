@@ -0,0 +1,155 @@
+// services/batchMembershipService.js
+// Every change to a batch's student roster goes through here so Batch.students
+// (who is in the batch now) and BatchMembership (who was in it, and when) stay
+// in step.
+const Batch = require('../models/Batch');
+const BatchMembership = require('../models/BatchMembership');
+
+const ACTIVE = { archived: { $ne: true } };
+const ACTIVE_REGULAR = { archived: { $ne: true }, elective: { $ne: true } };
+
+const uniqueIds = (ids) => [...new Set((ids || []).map(String))];
+
+async function addStudents(batch, studentIds, { by = null, reason = 'assigned', at = new Date() } = {}) {
+  const ids = uniqueIds(studentIds);
+  if (!ids.length) return;
+  await Batch.updateOne({ _id: batch._id }, { $addToSet: { students: { $each: ids } } });
+
+  const open = (await BatchMembership.find({ batch: batch._id, student: { $in: ids }, leftAt: null }).distinct('student'))
+    .map(String);
+  const fresh = ids.filter((id) => !open.includes(id));
+  if (fresh.length) {
+    await BatchMembership.insertMany(fresh.map((student) => ({
+      batch: batch._id,
+      student,
+      joinedAt: at,
+      joinReason: reason,
+      addedBy: by,
+    })));
+  }
+}
+
+async function removeStudents(batch, studentIds, { by = null, reason = 'removed', at = new Date() } = {}) {
+  const ids = uniqueIds(studentIds);
+  if (!ids.length) return;
+  await Batch.updateOne({ _id: batch._id }, { $pull: { students: { $in: ids } } });
+  await BatchMembership.updateMany(
+    { batch: batch._id, student: { $in: ids }, leftAt: null },
+    { $set: { leftAt: at, leaveReason: reason, removedBy: by } }
+  );
+}
+
+/**
+ * Put students into `batch`. Electives just add them. For a regular batch,
+ * students already in another active regular batch are moved out of it when
+ * `move` is set, and skipped otherwise.
+ * Returns { added, moved: [{ student, from }], skipped: [{ student, batch }] }.
+ */
+async function placeStudents(batch, studentIds, { move = false, by = null, reason = 'assigned' } = {}) {
+  const ids = uniqueIds(studentIds);
+  const result = { added: [], moved: [], skipped: [] };
+  if (!ids.length) return result;
+
+  if (batch.elective) {
+    await addStudents(batch, ids, { by, reason });
+    result.added = ids;
+    return result;
+  }
+
+  const others = await Batch.find({ _id: { $ne: batch._id }, students: { $in: ids }, ...ACTIVE_REGULAR })
+    .select('name students')
+    .lean();
+  const blocked = new Set();
+  for (const other of others) {
+    const affected = other.students.map(String).filter((s) => ids.includes(s));
+    if (move) {
+      await removeStudents(other, affected, { by, reason: 'moved' });
+      affected.forEach((student) => result.moved.push({ student, from: other.name }));
+    } else {
+      affected.forEach((student) => {
+        blocked.add(student);
+        result.skipped.push({ student, batch: other.name });
+      });
+    }
+  }
+
+  const movedIds = result.moved.map((m) => m.student);
+  await addStudents(batch, movedIds, { by, reason: 'moved' });
+  const plain = ids.filter((id) => !blocked.has(id) && !movedIds.includes(id));
+  await addStudents(batch, plain, { by, reason });
+  result.added = [...movedIds, ...plain];
+  return result;
+}
+
+// Archiving a term ends its memberships on the archive date; reopening the term
+// resumes exactly those memberships.
+async function closeMemberships(batchIds, at, reason = 'term_archived') {
+  await BatchMembership.updateMany(
+    { batch: { $in: batchIds }, leftAt: null },
+    { $set: { leftAt: at, leaveReason: reason } }
+  );
+}
+
+async function reopenMemberships(batchIds, at, reason = 'term_archived') {
+  await BatchMembership.updateMany(
+    { batch: { $in: batchIds }, leftAt: at, leaveReason: reason },
+    { $set: { leftAt: null, leaveReason: null } }
+  );
+}
+
+// A deleted student leaves their active batches; restoring the account puts
+// them back into those that are still active.
+async function suspendStudent(studentId, at) {
+  const batches = await Batch.find({ students: studentId, ...ACTIVE }).select('_id').lean();
+  for (const batch of batches) {
+    await removeStudents(batch, [studentId], { reason: 'user_deleted', at });
+  }
+}
+
+async function resumeStudent(studentId, at) {
+  const closed = { student: studentId, leftAt: at, leaveReason: 'user_deleted' };
+  const batchIds = await BatchMembership.find(closed).distinct('batch');
+  const batches = await Batch.find({ _id: { $in: batchIds }, ...ACTIVE }).select('_id').lean();
+  const ids = batches.map((b) => b._id);
+  await Batch.updateMany({ _id: { $in: ids } }, { $addToSet: { students: studentId } });
+  await BatchMembership.updateMany({ ...closed, batch: { $in: ids } }, { $set: { leftAt: null, leaveReason: null } });
+}
+
+/**
+ * Choose one batch out of several a student belongs to: one the test was
+ * assigned through, else the regular batch, else the first.
+ * batches: [{ _id, elective }]
+ */
+function pickBatch(batches, assignedBatches = []) {
+  if (!batches.length) return null;
+  const assigned = new Set((assignedBatches || []).map(String));
+  return batches.find((b) => assigned.has(String(b._id)))
+    || batches.find((b) => !b.elective)
+    || batches[0];
+}
+
+// the batch a new submission for `testSet` is filed under
+async function submissionBatchId(studentId, testSet) {
+  const batches = await Batch.find({ students: studentId, ...ACTIVE }).select('_id elective').lean();
+  const picked = pickBatch(batches, testSet && testSet.assignedBatches);
+  return picked ? picked._id : null;
+}
+
+// the student's regular batch (the one StudentStats is filed under), else any active one
+async function homeBatch(studentId) {
+  return (await Batch.findOne({ students: studentId, ...ACTIVE_REGULAR }).select('_id name').lean())
+    || Batch.findOne({ students: studentId, ...ACTIVE }).select('_id name').lean();
+}
+
+module.exports = {
+  addStudents,
+  removeStudents,
+  placeStudents,
+  closeMemberships,
+  reopenMemberships,
+  suspendStudent,
+  resumeStudent,
+  pickBatch,
+  submissionBatchId,
+  homeBatch,
+};
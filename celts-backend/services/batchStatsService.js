@@ -0,0 +1,191 @@
+// services/batchStatsService.js
+// Band statistics per batch for the faculty and admin analytics. Each graded
+// submission counts towards the batch the student was in when they took the
+// test, so students who change section or sit in electives are not misfiled.
+const BatchMembership = require('../models/BatchMembership');
+const Submission = require('../models/Submission');
+const StudentStats = require('../models/StudentStats');
+const User = require('../models/User');
+const { pickBatch } = require('./batchMembershipService');
+
+const SKILLS = ['reading', 'listening', 'writing', 'speaking'];
+const WRITING_CRITERIA = ['taskAchievement', 'coherenceCohesion', 'lexicalResource', 'grammaticalRange'];
+const SPEAKING_CRITERIA = ['fluencyCoherence', 'lexicalResource', 'grammaticalRange', 'pronunciation'];
+
+function avg(arr) {
+  if (!Array.isArray(arr)) return null;
+  const nums = arr.filter((x) => typeof x === 'number' && !Number.isNaN(x));
+  if (!nums.length) return null;
+  const sum = nums.reduce((a, b) => a + b, 0);
+  return Math.round((sum / nums.length) * 2) / 2;
+}
+
+const isBand = (v) => typeof v === 'number' && !Number.isNaN(v);
+
+function pickCriteria(criteriaBands, keys) {
+  if (!criteriaBands) return null;
+  return Object.fromEntries(keys.map((k) => [k, isBand(criteriaBands[k]) ? criteriaBands[k] : null]));
+}
+
+/**
+ * Which of `batchIds` a submission belongs to, or null. Submissions made since
+ * batches were recorded carry their batch; older ones are placed by the
+ * student's memberships on the submission date, falling back to the batches
+ * the student is in now when no memberships were recorded.
+ */
+function attribute(sub, ctx) {
+  if (sub.batch) return ctx.batchIds.has(String(sub.batch)) ? String(sub.batch) : null;
+
+  const student = String(sub.student);
+  const at = new Date(sub.createdAt);
+  const assigned = sub.testSet ? sub.testSet.assignedBatches : [];
+  const memberships = ctx.membershipsByStudent.get(student) || [];
+
+  let candidates;
+  if (memberships.length) {
+    candidates = memberships
+      .filter((m) => new Date(m.joinedAt) <= at && (!m.leftAt || new Date(m.leftAt) > at))
+      .map((m) => ({ _id: m.batch, elective: ctx.electiveIds.has(String(m.batch)) }));
+  } else {
+    candidates = ctx.batches.filter((b) => (b.students || []).some((s) => String(s) === student));
+  }
+  const picked = pickBatch(candidates, assigned);
+  return picked && ctx.batchIds.has(String(picked._id)) ? String(picked._id) : null;
+}
+
+/**
+ * batches: lean Batch docs with _id, name, students, elective, archived.
+ * Returns { summary, batches, students } where students has one row per
+ * student and batch (a student in two of the batches appears twice).
+ */
+async function buildBatchStats(batches) {
+  const batchIds = new Set(batches.map((b) => String(b._id)));
+  const electiveIds = new Set(batches.filter((b) => b.elective).map((b) => String(b._id)));
+  const rosterIds = [...new Set(batches.flatMap((b) => (b.students || []).map(String)))];
+
+  const pastMembers = await BatchMembership.find({ batch: { $in: [...batchIds] } }).distinct('student');
+  const candidateIds = [...new Set([...rosterIds, ...pastMembers.map(String)])];
+
+  const submissions = await Submission.find({
+    bandScore: { $ne: null },
+    $or: [
+      { batch: { $in: [...batchIds] } },
+      { batch: null, student: { $in: candidateIds } },
+    ],
+  })
+    .select('student batch skill bandScore criteriaBands createdAt testSet')
+    .populate('testSet', 'assignedBatches')
+    .sort({ createdAt: 1 })
+    .lean();
+
+  // memberships across all batches, for placing submissions that have no batch
+  const legacyStudents = [...new Set(submissions.filter((s) => !s.batch).map((s) => String(s.student)))];
+  const memberships = legacyStudents.length
+    ? await BatchMembership.find({ student: { $in: legacyStudents } }).populate('batch', 'elective').lean()
+    : [];
+  const membershipsByStudent = new Map();
+  for (const m of memberships) {
+    if (!m.batch) continue;
+    if (m.batch.elective) electiveIds.add(String(m.batch._id));
+    const list = membershipsByStudent.get(String(m.student)) || [];
+    list.push({ ...m, batch: m.batch._id });
+    membershipsByStudent.set(String(m.student), list);
+  }
+
+  const ctx = { batches, batchIds, electiveIds, membershipsByStudent };
+
+  // latest band per skill for each batch/student pair (submissions are oldest first)
+  const rowsByKey = new Map();
+  const rowFor = (batchId, studentId) => {
+    const key = `${batchId}:${studentId}`;
+    if (!rowsByKey.has(key)) {
+      rowsByKey.set(key, { batchId, studentId, bands: {}, writingCriteria: null, speakingCriteria: null });
+    }
+    return rowsByKey.get(key);
+  };
+  for (const sub of submissions) {
+    const batchId = attribute(sub, ctx);
+    if (!batchId || !isBand(sub.bandScore)) continue;
+    const row = rowFor(batchId, String(sub.student));
+    row.bands[sub.skill] = sub.bandScore;
+    if (sub.skill === 'writing') row.writingCriteria = pickCriteria(sub.criteriaBands, WRITING_CRITERIA);
+    if (sub.skill === 'speaking') row.speakingCriteria = pickCriteria(sub.criteriaBands, SPEAKING_CRITERIA);
+  }
+  // current members are listed even before their first test
+  for (const b of batches) {
+    (b.students || []).forEach((s) => rowFor(String(b._id), String(s)));
+  }
+
+  const studentIds = [...new Set([...rowsByKey.values()].map((r) => r.studentId))];
+  const [users, statsDocs] = await Promise.all([
+    User.find({ _id: { $in: studentIds } }).select('_id name email systemId').lean(),
+    StudentStats.find({ student: { $in: studentIds } }).select('_id student').lean(),
+  ]);
+  const userMap = new Map(users.map((u) => [String(u._id), u]));
+  const statsIdMap = new Map(statsDocs.map((s) => [String(s.student), s._id]));
+  const batchMap = new Map(batches.map((b) => [String(b._id), b]));
+
+  const students = [...rowsByKey.values()].map((r) => {
+    const batch = batchMap.get(r.batchId);
+    const u = userMap.get(r.studentId);
+    const bands = Object.fromEntries(SKILLS.map((s) => [s, isBand(r.bands[s]) ? r.bands[s] : null]));
+    return {
+      // StudentStats id: the handle band overrides use
+      _id: String(statsIdMap.get(r.studentId) || r.studentId),
+      studentId: r.studentId,
+      batchId: r.batchId,
+      batchName: batch ? batch.name : null,
+      formerMember: !(batch.students || []).some((s) => String(s) === r.studentId),
+      name: u?.name || '',
+      email: u?.email || '',
+      systemId: u?.systemId || '',
+      readingBand: bands.reading,
+      listeningBand: bands.listening,
+      writingBand: bands.writing,
+      speakingBand: bands.speaking,
+      overallBand: avg(SKILLS.map((s) => bands[s]).filter((v) => v > 0)),
+      writingCriteria: r.writingCriteria,
+      speakingCriteria: r.speakingCriteria,
+    };
+  });
+
+  const hasAny = (r) => SKILLS.some((s) => isBand(r[`${s}Band`]));
+  const batchesOut = batches.map((b) => {
+    const rows = students.filter((r) => r.batchId === String(b._id));
+    const withSkill = (skill) => rows.filter((r) => isBand(r[`${skill}Band`]));
+    return {
+      _id: String(b._id),
+      name: b.name,
+      elective: !!b.elective,
+      archived: !!b.archived,
+      totalStudentsInBatch: (b.students || []).length,
+      formerStudents: rows.filter((r) => r.formerMember).length,
+      studentsWithAnyTest: rows.filter(hasAny).length,
+      studentsWithReading: withSkill('reading').length,
+      studentsWithListening: withSkill('listening').length,
+      studentsWithWriting: withSkill('writing').length,
+      studentsWithSpeaking: withSkill('speaking').length,
+      averageBand: avg(rows.map((r) => r.overallBand)),
+      readingBand: avg(rows.map((r) => r.readingBand)),
+      listeningBand: avg(rows.map((r) => r.listeningBand)),
+      writingBand: avg(rows.map((r) => r.writingBand)),
+      speakingBand: avg(rows.map((r) => r.speakingBand)),
+    };
+  });
+
+  const tested = students.filter(hasAny);
+  const summary = {
+    totalStudentsInBatches: rosterIds.length,
+    totalStudentsWithAnyTest: new Set(tested.map((r) => r.studentId)).size,
+    totalBatches: batches.length,
+    overallAvgBand: avg(tested.map((r) => r.overallBand)),
+    readingAvg: avg(tested.map((r) => r.readingBand)),
+    listeningAvg: avg(tested.map((r) => r.listeningBand)),
+    writingAvg: avg(tested.map((r) => r.writingBand)),
+    speakingAvg: avg(tested.map((r) => r.speakingBand)),
+  };
+
+  return { summary, batches: batchesOut, students };
+}
+
+module.exports = { buildBatchStats };
@@ -1,19 +1,147 @@
 const TestAttempt = require('../models/TestAttempt');
 const ExamSecurity = require('../models/ExamSecurity');
 const DeviceSession = require('../models/DeviceSession');
+const AttemptDraft = require('../models/AttemptDraft');
+const TestSet = require('../models/TestSet');
+const User = require('../models/User');
+const { examTimerQueue } = require('./queue');
+const { testAtVersion } = require('./testVersionService');
+const mockResultService = require('./mockResultService');
+
+// Deadlines live on TestAttempt.deadlineAt (mirrored on ExamSecurity), so any
+// node can answer "how long is left" and a restart loses nothing. Expiry is
+// enforced by a Bull delayed job per attempt when Redis is available, and by
+// a Mongo sweep for expired attempts either way (the sweep is the only
+// mechanism without Redis, and a safety net for lost jobs with it).
+
+// Give the client's own auto-submit a head start before the server closes the attempt
+const SUBMIT_GRACE_MS = Number(process.env.EXAM_SUBMIT_GRACE_SECONDS || 30) * 1000;
+const POLL_INTERVAL_MS = Number(
+  process.env.EXAM_TIMER_POLL_MS || (examTimerQueue ? 60000 : 15000)
+);
+
+// one job per attempt+deadline, so a moved deadline gets a fresh job
+const deadlineJobId = (attemptId, deadline) =>
+  `deadline:${attemptId}:${new Date(deadline).getTime()}`;
+
+// Sections (reading passages / listening parts) and single prompts can carry
+// their own limit on top of the test's. Their clocks live in
+// ExamSecurity.sectionTimings / questionTimings and are started by the server:
+// the first question's when the attempt starts, the others when an autosave
+// shows the student has reached or answered them. One the server never saw
+// reached counts as started with the attempt.
+const TIMING_FIELDS = {
+  section: { list: 'sectionTimings', key: 'sectionId' },
+  question: { list: 'questionTimings', key: 'questionId' },
+};
+
+// the test content an attempt was served, which a newer version may have replaced
+const servedTest = (testAttempt) => testAtVersion(testAttempt.testSet, testAttempt.testVersion);
+
+/**
+ * Own limit (seconds) of a section or question, and the questions it covers.
+ * Null when the target doesn't exist or has no limit of its own.
+ */
+function findTimingTarget(testSet, type, id) {
+  const questions = testSet.questions || [];
+
+  if (type === 'section') {
+    const sections = [...(testSet.readingSections || []), ...(testSet.listeningSections || [])];
+    const section = sections.find(s => s.id === id);
+    if (!section || !(section.timeLimitMinutes > 0)) return null;
+    return {
+      name: section.title || '',
+      timeLimit: section.timeLimitMinutes * 60,
+      questionIds: questions.filter(q => q.sectionId === id).map(q => String(q._id)),
+    };
+  }
+
+  if (type === 'question') {
+    const question = questions.find(q => String(q._id) === String(id));
+    if (!question || !(question.timeLimitSeconds > 0)) return null;
+    return {
+      name: '',
+      timeLimit: question.timeLimitSeconds,
+      questionIds: [String(question._id)],
+    };
+  }
+
+  return null;
+}
+
+// Every section and question of a served test that has a limit of its own
+function timedTargets(testSet) {
+  const sections = [...(testSet.readingSections || []), ...(testSet.listeningSections || [])];
+  return [
+    ...sections.map(s => ({ type: 'section', id: s.id })),
+    ...(testSet.questions || []).map(q => ({ type: 'question', id: String(q._id) })),
+  ]
+    .map(t => ({ ...t, target: findTimingTarget(testSet, t.type, t.id) }))
+    .filter(t => t.target);
+}
+
+function timingEntry(type, id, target, startTime) {
+  const entry = {
+    [TIMING_FIELDS[type].key]: id,
+    timeLimit: target.timeLimit,
+    startTime,
+    deadline: new Date(startTime.getTime() + target.timeLimit * 1000),
+    autoSubmitted: false,
+  };
+  if (type === 'section') {
+    entry.sectionName = target.name;
+    entry.questionsTotal = target.questionIds.length;
+  }
+  return entry;
+}
+
+function hasAnswer(answer) {
+  if (answer === null || answer === undefined) return false;
+  if (typeof answer !== 'object') return true;
+  return (
+    typeof answer.selectedIndex === 'number' ||
+    (Array.isArray(answer.selectedIndexes) && answer.selectedIndexes.length > 0) ||
+    typeof answer.answer === 'number' ||
+    (typeof answer.answer === 'string' && answer.answer.trim().length > 0) ||
+    (Array.isArray(answer.answer) && answer.answer.length > 0) ||
+    (typeof answer.text === 'string' && answer.text.trim().length > 0) ||
+    (typeof answer.uploadedUrl === 'string' && answer.uploadedUrl.length > 0)
+  );
+}
+
+function timingState(type, id, entry) {
+  const now = Date.now();
+  const deadline = entry.deadline ? new Date(entry.deadline) : null;
+  const locked = !!entry.endTime || (!!deadline && deadline.getTime() <= now);
+  return {
+    type,
+    id,
+    startTime: entry.startTime,
+    endTime: deadline,
+    remaining: locked || !deadline ? 0 : Math.floor((deadline.getTime() - now) / 1000),
+    locked,
+    autoSubmitted: !!entry.autoSubmitted,
+    serverTime: new Date(),
+  };
+}
 
 class ExamTimerService {
   constructor() {
-    this.activeTimers = new Map();
-    this.sectionTimers = new Map();
-    this.questionTimers = new Map();
-    
-    this.cleanupInterval = setInterval(() => {
-      this.cleanupExpiredTimers();
-    }, 60000); 
+    if (examTimerQueue) {
+      examTimerQueue.process('deadline', async (job) => {
+        return this.handleDeadline(job.data.attemptId);
+      });
+    }
+
+    this.pollInterval = setInterval(() => {
+      this.sweepExpiredAttempts();
+    }, POLL_INTERVAL_MS);
   }
 
-  
+  /**
+   * Fix the attempt's deadline (if the test is timed) and schedule its expiry.
+   * Safe to call again for the same attempt: an existing deadline is kept.
+   */
   async startExamTimer(attemptId, testId, sections = []) {
     try {
       const testAttempt = await TestAttempt.findById(attemptId).populate('testSet');
@@ -21,29 +149,41 @@ class ExamTimerService {
         return { success: false, message: 'Invalid test attempt' };
       }
 
-      const testSet = testAttempt.testSet;
-      const totalTimeLimit = (testSet.timeLimitMinutes || 120) * 60 * 1000; 
-      const startTime = new Date();
-      const endTime = new Date(startTime.getTime() + totalTimeLimit);
+      const testSet = await servedTest(testAttempt);
+      const startTime = testAttempt.startedAt || new Date();
+      const totalTimeLimit = (testSet.timeLimitMinutes || 0) * 60 * 1000;
 
-      const examTimer = setTimeout(async () => {
-        await this.autoSubmitExam(attemptId, 'time_expired');
-      }, totalTimeLimit);
+      if (!testAttempt.deadlineAt && totalTimeLimit > 0) {
+        testAttempt.deadlineAt = new Date(startTime.getTime() + totalTimeLimit);
+        await testAttempt.save();
+      }
 
-      this.activeTimers.set(attemptId, {
-        timer: examTimer,
-        startTime,
-        endTime,
-        totalTimeLimit,
-        testId,
-        studentId: testAttempt.student
-      });
+      // the clocks of the first question's section or prompt
+      await this.startReachedTimings(testAttempt._id);
+
+      const endTime = testAttempt.deadlineAt;
+      if (!endTime) {
+        return {
+          success: true,
+          startTime,
+          endTime: null,
+          totalTimeLimit: null,
+          message: 'Untimed exam'
+        };
+      }
+
+      await ExamSecurity.updateOne(
+        { testAttempt: testAttempt._id },
+        { $set: { 'timingSecurity.deadline': endTime } }
+      );
+
+      await this.scheduleDeadline(testAttempt._id.toString(), endTime);
 
       return {
         success: true,
         startTime,
         endTime,
-        totalTimeLimit: totalTimeLimit / 1000, 
+        totalTimeLimit: Math.round((endTime.getTime() - startTime.getTime()) / 1000),
         message: 'Exam timer started'
       };
     } catch (error) {
@@ -52,52 +192,116 @@ class ExamTimerService {
     }
   }
 
+  async scheduleDeadline(attemptId, deadline) {
+    if (!examTimerQueue) return;
+    try {
+      const delay = Math.max(0, new Date(deadline).getTime() + SUBMIT_GRACE_MS - Date.now());
+      // jobId makes this idempotent across retries and nodes
+      await examTimerQueue.add('deadline', { attemptId }, {
+        jobId: deadlineJobId(attemptId, deadline),
+        delay
+      });
+    } catch (error) {
+      // the Mongo sweep still picks the attempt up
+      console.error('Schedule exam deadline error:', error.message);
+    }
+  }
+
+  async handleDeadline(attemptId) {
+    const attempt = await TestAttempt.findById(attemptId).select('status deadlineAt').lean();
+    if (!attempt || attempt.status !== 'started' || !attempt.deadlineAt) return null;
+
+    // deadline moved later since the job was queued
+    if (attempt.deadlineAt.getTime() + SUBMIT_GRACE_MS > Date.now()) {
+      await this.scheduleDeadline(attemptId, attempt.deadlineAt);
+      return null;
+    }
+
+    return this.autoSubmitExam(attemptId, 'time_expired');
+  }
+
+  async sweepExpiredAttempts() {
+    try {
+      const cutoff = new Date(Date.now() - SUBMIT_GRACE_MS);
+      const expired = await TestAttempt.find({
+        status: 'started',
+        deadlineAt: { $ne: null, $lte: cutoff }
+      }).select('_id').limit(200).lean();
+
+      for (const attempt of expired) {
+        await this.autoSubmitExam(attempt._id.toString(), 'time_expired');
+      }
+    } catch (error) {
+      console.error('Expired attempt sweep error:', error.message);
+    }
+  }
+
   async autoSubmitExam(attemptId, reason = 'time_expired') {
     try {
-      this.clearTimers(attemptId);
-      
-      const testAttempt = await TestAttempt.findById(attemptId);
-      if (!testAttempt || testAttempt.status !== 'started') {
+      // Conditional update so only one node/job closes the attempt
+      const testAttempt = await TestAttempt.findOneAndUpdate(
+        { _id: attemptId, status: 'started' },
+        {
+          $set: {
+            status: 'completed',
+            completedAt: new Date(),
+            exitReason: reason
+          }
+        },
+        { new: true }
+      );
+      if (!testAttempt) {
         return { success: false, message: 'Invalid test attempt' };
       }
 
-      testAttempt.status = 'completed';
-      testAttempt.completedAt = new Date();
-      testAttempt.exitReason = reason;
-      await testAttempt.save();
-
-      const examSecurity = await ExamSecurity.findOne({ testAttempt: attemptId });
-      if (examSecurity) {
-        examSecurity.timingSecurity = examSecurity.timingSecurity || {};
-        examSecurity.timingSecurity.autoSubmissions = examSecurity.timingSecurity.autoSubmissions || [];
-        examSecurity.timingSecurity.autoSubmissions.push({
-          reason,
-          timestamp: new Date(),
-          questionId: null,
-          sectionId: null
-        });
-        await examSecurity.save();
+      let submission;
+      try {
+        submission = await this.submitSavedAnswers(testAttempt);
+      } catch (error) {
+        // reopened, the sweep submits the saved answers again
+        console.error(`Auto-submit: no submission for attempt ${attemptId}:`, error);
+        await this.reopenAttempt(attemptId);
+        return { success: false, reopened: true, submissionId: null, message: 'Failed to submit the saved answers' };
       }
 
+      await ExamSecurity.updateOne(
+        { testAttempt: attemptId },
+        {
+          $push: {
+            'timingSecurity.autoSubmissions': {
+              reason,
+              timestamp: new Date(),
+              questionId: null,
+              sectionId: null
+            }
+          }
+        }
+      );
+
       await DeviceSession.updateMany(
-        { 
+        {
           user: testAttempt.student,
           testSet: testAttempt.testSet,
-          status: 'active' 
+          status: 'active'
         },
-        { 
+        {
           status: 'terminated',
           terminationReason: 'exam_completed',
           examEndTime: new Date()
         }
       );
 
-      this.clearTimers(attemptId);
+      await this.clearTimers(attemptId);
+
+      if (!submission) {
+        return { success: false, submissionId: null, message: 'Exam closed; there was nothing to submit' };
+      }
 
       console.log(`Exam auto-submitted for attempt ${attemptId}, reason: ${reason}`);
-      
+
       return {
         success: true,
+        submissionId: submission._id,
         message: 'Exam auto-submitted successfully'
       };
     } catch (error) {
@@ -106,46 +310,365 @@ class ExamTimerService {
     }
   }
 
-  
-  clearTimers(attemptId) {
-    const examTimer = this.activeTimers.get(attemptId);
-    if (examTimer && examTimer.timer) {
-      clearTimeout(examTimer.timer);
+  /**
+   * Submit what the server holds of an attempt the student never submitted:
+   * the last autosave (AttemptDraft), plus anything locked with a timed
+   * section or prompt. A mock module submitted this way still unlocks the next.
+   * Returns null when there is nothing to submit (the test or student is gone,
+   * or it is a mock's own attempt); throws if the submission can't be stored.
+   */
+  async submitSavedAnswers(testAttempt) {
+    // required here: submissionService itself uses this service
+    const { createSubmission } = require('./submissionService');
+    const [liveTest, student, draft] = await Promise.all([
+      TestSet.findById(testAttempt.testSet),
+      User.findById(testAttempt.student).select('name email systemId').lean(),
+      AttemptDraft.findOne({ testAttempt: testAttempt._id }).lean(),
+    ]);
+    if (!liveTest || !student || liveTest.type === 'mock') return null;
+
+    // the draft is only removed once a submission holds it
+    const { submission } = await createSubmission({
+      student,
+      liveTest,
+      attempt: testAttempt,
+      skill: liveTest.type,
+      response: (draft && draft.answers) || {},
+      mockResult: await mockResultService.findResultForModule(student._id, liveTest._id),
+    });
+    return submission;
+  }
+
+  /**
+   * Close the student's latest attempt at a test for the submission they are
+   * sending. Only a started attempt can be submitted, only once, and no later
+   * than its deadline plus the grace period. Returns the closed attempt or null.
+   */
+  async closeForSubmission(studentId, testId) {
+    const attempt = await TestAttempt.findOne({ student: studentId, testSet: testId })
+      .sort({ attemptNumber: -1 })
+      .select('status deadlineAt')
+      .lean();
+    if (!attempt || attempt.status !== 'started') return null;
+
+    const now = new Date();
+    const deadline = attempt.deadlineAt ? attempt.deadlineAt.getTime() : Infinity;
+    if (now.getTime() > deadline + SUBMIT_GRACE_MS) return null;
+
+    // conditional, so the deadline sweep or a second request can't close it too
+    return TestAttempt.findOneAndUpdate(
+      { _id: attempt._id, status: 'started' },
+      {
+        $set: {
+          status: 'completed',
+          completedAt: now,
+          exitReason: now.getTime() > deadline ? 'time_expired' : 'completed'
+        }
+      },
+      { new: true }
+    ).lean();
+  }
+
+  // Undo closeForSubmission when no submission could be stored; past the
+  // deadline the sweep then submits the autosaved answers.
+  async reopenAttempt(attemptId) {
+    try {
+      await TestAttempt.updateOne(
+        { _id: attemptId, status: 'completed', submissionId: null },
+        { $set: { status: 'started', completedAt: null, exitReason: null } }
+      );
+    } catch (error) {
+      console.error('Reopen attempt error:', error.message);
     }
-    this.activeTimers.delete(attemptId);
+  }
 
-    const sectionTimers = this.sectionTimers.get(attemptId);
-    if (sectionTimers) {
-      sectionTimers.forEach(st => {
-        if (st.timer) clearTimeout(st.timer);
+  async clearTimers(attemptId) {
+    if (!examTimerQueue) return;
+    try {
+      const attempt = await TestAttempt.findById(attemptId).select('deadlineAt').lean();
+      if (!attempt || !attempt.deadlineAt) return;
+      const job = await examTimerQueue.getJob(deadlineJobId(attemptId, attempt.deadlineAt));
+      // a job can't remove itself while it is being processed
+      if (job && !(await job.isActive())) await job.remove();
+    } catch (error) {
+      console.error('Clear exam timer error:', error.message);
+    }
+  }
+
+  /**
+   * Start the clock of a timed section or question (idempotent: a started
+   * clock keeps its original deadline, also across reloads and nodes).
+   */
+  async startTargetTimer(attemptId, type, id) {
+    const fields = TIMING_FIELDS[type];
+    if (!fields) return { success: false, status: 400, message: 'Invalid timer type' };
+
+    const testAttempt = await TestAttempt.findById(attemptId).populate('testSet');
+    if (!testAttempt || testAttempt.status !== 'started') {
+      return { success: false, status: 404, message: 'Active test attempt not found' };
+    }
+
+    const target = findTimingTarget(await servedTest(testAttempt), type, id);
+    if (!target) {
+      return { success: false, status: 400, message: `This ${type} has no time limit` };
+    }
+
+    // only the first request for a target pushes an entry
+    await ExamSecurity.updateOne(
+      { testAttempt: attemptId, [`${fields.list}.${fields.key}`]: { $ne: id } },
+      { $push: { [fields.list]: timingEntry(type, id, target, new Date()) } }
+    );
+
+    const examSecurity = await ExamSecurity.findOne({ testAttempt: attemptId }).lean();
+    const stored = examSecurity && (examSecurity[fields.list] || []).find(t => t[fields.key] === id);
+    if (!stored) {
+      return { success: false, status: 404, message: 'Exam security record not found' };
+    }
+
+    return { success: true, ...timingState(type, id, stored) };
+  }
+
+  /**
+   * Start the clocks of what the student has reached, whether or not the
+   * runner asks for them: the question at `currentIndex` (in the attempt's
+   * order) and every question with an answer in `answers`. Called when the
+   * attempt starts and with each autosave; started clocks are left as they are.
+   */
+  async startReachedTimings(attemptId, { currentIndex = 0, answers = {} } = {}) {
+    try {
+      const testAttempt = await TestAttempt.findById(attemptId).populate('testSet');
+      if (!testAttempt || testAttempt.status !== 'started') return;
+      const testSet = await servedTest(testAttempt);
+      const targets = timedTargets(testSet);
+      if (targets.length === 0) return;
+
+      const order = testAttempt.layout && testAttempt.layout.questionOrder && testAttempt.layout.questionOrder.length
+        ? testAttempt.layout.questionOrder.map(String)
+        : (testSet.questions || []).map(q => String(q._id));
+      const reached = new Set();
+      if (order[currentIndex]) reached.add(order[currentIndex]);
+      Object.entries(answers || {}).forEach(([key, answer]) => {
+        if (!hasAnswer(answer)) return;
+        reached.add(/^\d+$/.test(key) && order[Number(key)] ? order[Number(key)] : key);
+      });
+
+      const now = new Date();
+      for (const { type, id, target } of targets) {
+        if (!target.questionIds.some(qid => reached.has(qid))) continue;
+        const fields = TIMING_FIELDS[type];
+        await ExamSecurity.updateOne(
+          { testAttempt: testAttempt._id, [`${fields.list}.${fields.key}`]: { $ne: id } },
+          { $push: { [fields.list]: timingEntry(type, id, target, now) } }
+        );
+      }
+    } catch (error) {
+      console.error('Start section timers error:', error.message);
+    }
+  }
+
+  /**
+   * Lock a timed section or question. `answers` ({ [questionId]: answer }) is
+   * what the student had when the clock ran out; it is only accepted within
+   * the grace period after the deadline.
+   */
+  async endTargetTimer(attemptId, type, id, answers = {}, reason = 'time_expired') {
+    const fields = TIMING_FIELDS[type];
+    if (!fields) return { success: false, status: 400, message: 'Invalid timer type' };
+
+    const testAttempt = await TestAttempt.findById(attemptId).populate('testSet');
+    if (!testAttempt) return { success: false, status: 404, message: 'Test attempt not found' };
+
+    const examSecurity = await ExamSecurity.findOne({ testAttempt: attemptId }).lean();
+    const entry = examSecurity && (examSecurity[fields.list] || []).find(t => t[fields.key] === id);
+    if (!entry) return { success: false, status: 404, message: `No running timer for this ${type}` };
+    if (entry.endTime) return { success: true, ...timingState(type, id, entry) };
+
+    const target = findTimingTarget(await servedTest(testAttempt), type, id);
+    const questionIds = target ? target.questionIds : [];
+    const now = new Date();
+    const deadline = entry.deadline ? new Date(entry.deadline).getTime() : Infinity;
+    const late = now.getTime() > deadline + SUBMIT_GRACE_MS;
+
+    const accepted = {};
+    if (!late && answers && typeof answers === 'object') {
+      questionIds.forEach(qid => {
+        if (answers[qid] !== undefined) accepted[qid] = answers[qid];
       });
     }
-    this.sectionTimers.delete(attemptId);
 
-    const questionTimers = this.questionTimers.get(attemptId);
-    if (questionTimers) {
-      questionTimers.forEach(qt => {
-        if (qt.timer) clearTimeout(qt.timer);
+    const closed = this.buildClosedEntry(type, entry, now, {
+      autoSubmitted: reason === 'time_expired' || now.getTime() >= deadline,
+      answers: accepted,
+    });
+    const update = { $set: {} };
+    Object.entries(closed).forEach(([field, value]) => {
+      update.$set[`${fields.list}.$.${field}`] = value;
+    });
+    if (closed.autoSubmitted) {
+      update.$push = {
+        'timingSecurity.autoSubmissions': {
+          reason: 'time_expired',
+          timestamp: now,
+          questionId: type === 'question' ? id : null,
+          sectionId: type === 'section' ? id : null,
+        },
+      };
+    }
+
+    // endTime: null keeps a concurrent request from closing it twice
+    await ExamSecurity.updateOne(
+      {
+        _id: examSecurity._id,
+        [fields.list]: { $elemMatch: { [fields.key]: id, endTime: null } },
+      },
+      update
+    );
+
+    const refreshed = await ExamSecurity.findById(examSecurity._id).lean();
+    const stored = (refreshed[fields.list] || []).find(t => t[fields.key] === id);
+    return { success: true, ...timingState(type, id, stored) };
+  }
+
+  buildClosedEntry(type, entry, endTime, { autoSubmitted, answers }) {
+    const spent = Math.round((endTime.getTime() - new Date(entry.startTime).getTime()) / 1000);
+    const closed = {
+      endTime,
+      timeSpent: entry.timeLimit ? Math.min(spent, entry.timeLimit) : spent,
+      autoSubmitted,
+      answers,
+    };
+    if (type === 'section') {
+      closed.questionsCompleted = Object.values(answers || {}).filter(hasAnswer).length;
+    }
+    return closed;
+  }
+
+  /**
+   * Close every section/question clock of the attempt at final submission.
+   * Clocks that ran out (plus grace) without the client locking them are
+   * locked with no answers; a clock that was never started is taken to have
+   * started with the attempt. Returns Map<questionId, acceptedAnswer|undefined>
+   * for every question whose section or prompt is locked.
+   */
+  async settleTimings(attemptId) {
+    const locked = new Map();
+    const examSecurity = await ExamSecurity.findOne({ testAttempt: attemptId });
+    if (!examSecurity) return locked;
+
+    const testAttempt = await TestAttempt.findById(attemptId).populate('testSet');
+    const testSet = testAttempt && await servedTest(testAttempt);
+    const now = new Date();
+    let changed = false;
+
+    if (testSet) {
+      for (const { type, id, target } of timedTargets(testSet)) {
+        const fields = TIMING_FIELDS[type];
+        if ((examSecurity[fields.list] || []).some(e => e[fields.key] === id)) continue;
+        examSecurity[fields.list].push(timingEntry(type, id, target, testAttempt.startedAt || now));
+        changed = true;
+      }
+    }
+
+    for (const [type, fields] of Object.entries(TIMING_FIELDS)) {
+      for (const entry of examSecurity[fields.list] || []) {
+        const id = entry[fields.key];
+        const deadline = entry.deadline ? entry.deadline.getTime() : Infinity;
+
+        if (!entry.endTime) {
+          const expired = now.getTime() > deadline + SUBMIT_GRACE_MS;
+          entry.set(this.buildClosedEntry(type, entry, expired ? entry.deadline : now, {
+            autoSubmitted: expired,
+            answers: expired ? {} : undefined,
+          }));
+          if (expired) {
+            examSecurity.timingSecurity.autoSubmissions.push({
+              reason: 'time_expired',
+              timestamp: now,
+              questionId: type === 'question' ? id : null,
+              sectionId: type === 'section' ? id : null,
+            });
+          }
+          changed = true;
+        }
+
+        // closed in time by this submission: the final answers stand
+        if (!entry.answers || typeof entry.answers !== 'object') continue;
+
+        const target = testSet ? findTimingTarget(testSet, type, id) : null;
+        const questionIds = target ? target.questionIds : Object.keys(entry.answers || {});
+        questionIds.forEach(qid => locked.set(qid, (entry.answers || {})[qid]));
+      }
+    }
+
+    if (changed) await examSecurity.save();
+    return locked;
+  }
+
+  /**
+   * Replace answers to locked questions with what was accepted when they
+   * locked. Handles both response shapes the submit route accepts: an object
+   * keyed by question id (or index), and an array of { questionId|questionIndex, ... }.
+   * `indexById` maps question id -> the index a client would key it by.
+   */
+  applyLockedAnswers(response, locked, indexById = new Map()) {
+    if (!locked || locked.size === 0 || !response || typeof response !== 'object') {
+      return response;
+    }
+
+    if (Array.isArray(response)) {
+      const kept = response.filter(entry => {
+        const byId = entry && entry.questionId != null && locked.has(String(entry.questionId));
+        const byIndex =
+          typeof entry?.questionIndex === 'number' &&
+          [...locked.keys()].some(qid => indexById.get(qid) === entry.questionIndex);
+        return !byId && !byIndex;
       });
+      locked.forEach((answer, qid) => {
+        if (answer && typeof answer === 'object') kept.push({ ...answer, questionId: qid });
+      });
+      return kept;
     }
-    this.questionTimers.delete(attemptId);
+
+    const copy = { ...response };
+    locked.forEach((answer, qid) => {
+      delete copy[qid];
+      if (indexById.has(qid)) delete copy[String(indexById.get(qid))];
+      if (answer !== undefined) copy[qid] = answer;
+    });
+    return copy;
   }
 
- 
-  getRemainingTime(attemptId, type = 'exam', id = null) {
+  /**
+   * Seconds left on the attempt, read from the persisted deadline.
+   */
+  async getRemainingTime(attemptId, type = 'exam', id = null) {
     try {
       if (type === 'exam') {
-        const examTimer = this.activeTimers.get(attemptId);
-        if (examTimer) {
-          const now = new Date();
-          const remaining = Math.max(0, examTimer.endTime.getTime() - now.getTime());
+        const attempt = await TestAttempt.findById(attemptId).select('deadlineAt').lean();
+        if (attempt && attempt.deadlineAt) {
+          const remaining = Math.max(0, attempt.deadlineAt.getTime() - Date.now());
           return {
             remaining: Math.floor(remaining / 1000),
-            endTime: examTimer.endTime
+            endTime: attempt.deadlineAt,
+            serverTime: new Date()
           };
         }
+        // untimed attempt
+        return { remaining: null, endTime: null, serverTime: new Date() };
       }
-      
+
+      const fields = TIMING_FIELDS[type];
+      if (fields && id) {
+        const examSecurity = await ExamSecurity.findOne({ testAttempt: attemptId })
+          .select(fields.list)
+          .lean();
+        const entry = examSecurity && (examSecurity[fields.list] || []).find(t => t[fields.key] === id);
+        // not started yet
+        if (!entry) return { remaining: null, endTime: null, locked: false, serverTime: new Date() };
+        const { remaining, endTime, locked, serverTime } = timingState(type, id, entry);
+        return { remaining, endTime, locked, serverTime };
+      }
+
       return { remaining: 0, endTime: null };
     } catch (error) {
       console.error('Get remaining time error:', error);
@@ -153,60 +676,19 @@ class ExamTimerService {
     }
   }
 
-  // Cleanup expired timers to prevent memory leaks
-  cleanupExpiredTimers() {
-    try {
-      const now = Date.now();
-      
-      // Clean up expired exam timers
-      for (const [attemptId, timerInfo] of this.activeTimers.entries()) {
-        if (timerInfo.endTime && now > timerInfo.endTime.getTime()) {
-          console.log(`Cleaning up expired timer for attempt ${attemptId}`);
-          this.clearTimers(attemptId);
-        }
-      }
-      
-      // Clean up orphaned section timers
-      for (const [attemptId, sectionTimers] of this.sectionTimers.entries()) {
-        if (!this.activeTimers.has(attemptId)) {
-          console.log(`Cleaning up orphaned section timers for attempt ${attemptId}`);
-          sectionTimers.forEach(st => {
-            if (st.timer) clearTimeout(st.timer);
-          });
-          this.sectionTimers.delete(attemptId);
-        }
-      }
-      
-      // Clean up orphaned question timers
-      for (const [attemptId, questionTimers] of this.questionTimers.entries()) {
-        if (!this.activeTimers.has(attemptId)) {
-          console.log(`Cleaning up orphaned question timers for attempt ${attemptId}`);
-          questionTimers.forEach(qt => {
-            if (qt.timer) clearTimeout(qt.timer);
-          });
-          this.questionTimers.delete(attemptId);
-        }
-      }
-      
-    } catch (error) {
-      console.error('Cleanup expired timers error:', error);
-    }
-  }
-
   // Method to gracefully shutdown the timer service
   shutdown() {
     try {
-      // Clear the cleanup interval
-      if (this.cleanupInterval) {
-        clearInterval(this.cleanupInterval);
-        this.cleanupInterval = null;
+      if (this.pollInterval) {
+        clearInterval(this.pollInterval);
+        this.pollInterval = null;
       }
-      
-      // Clear all active timers
-      for (const [attemptId] of this.activeTimers.entries()) {
-        this.clearTimers(attemptId);
+
+      // Pending deadline jobs stay in Redis for the next node to process
+      if (examTimerQueue) {
+        examTimerQueue.close().catch(() => {});
       }
-      
+
       console.log('ExamTimerService shutdown complete');
     } catch (error) {
       console.error('Timer service shutdown error:', error);
@@ -216,4 +698,4 @@ class ExamTimerService {
 
 const examTimerService = new ExamTimerService();
 
-module.exports = examTimerService;
\ No newline at end of file
+module.exports = examTimerService;
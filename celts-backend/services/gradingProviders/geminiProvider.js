@@ -0,0 +1,87 @@
+// services/gradingProviders/geminiProvider.js
+const fs = require("fs");
+const path = require("path");
+const { GoogleGenAI } = require("@google/genai");
+
+const {
+  buildWritingPrompt,
+  buildSpeakingPrompt,
+  parseJsonResponse,
+} = require("./prompts");
+
+const AUDIO_MIME_TYPES = {
+  ".mp3": "audio/mp3",
+  ".wav": "audio/wav",
+  ".ogg": "audio/ogg",
+  ".m4a": "audio/aac",
+  ".aac": "audio/aac",
+  ".flac": "audio/flac",
+  ".webm": "audio/webm",
+  ".mp4": "video/mp4",
+};
+
+function createGeminiProvider() {
+  // GoogleGenAI picks up GEMINI_API_KEY from the environment
+  const client = new GoogleGenAI({});
+
+  const models = {
+    writing: process.env.GEMINI_WRITING_MODEL || "gemini-2.5-flash",
+    speaking: process.env.GEMINI_SPEAKING_MODEL || "gemini-2.5-flash",
+    transcription: process.env.GEMINI_TRANSCRIPTION_MODEL || "gemini-2.5-flash",
+  };
+
+  async function completeJson(prompt, model) {
+    const result = await client.models.generateContent({
+      model,
+      contents: [{ role: "user", parts: [{ text: prompt }] }],
+      config: { responseMimeType: "application/json" },
+    });
+
+    return parseJsonResponse(result.text, "Gemini");
+  }
+
+  return {
+    name: "gemini",
+    models,
+
+    evaluateWriting({ essayText, question }) {
+      return completeJson(buildWritingPrompt(essayText, question), models.writing);
+    },
+
+    evaluateSpeaking({ questions, transcription }) {
+      return completeJson(
+        buildSpeakingPrompt(questions, transcription),
+        models.speaking
+      );
+    },
+
+    async transcribe(mediaPath) {
+      const ext = path.extname(mediaPath).toLowerCase();
+      const data = fs.readFileSync(mediaPath).toString("base64");
+
+      const result = await client.models.generateContent({
+        model: models.transcription,
+        contents: [
+          {
+            role: "user",
+            parts: [
+              {
+                text: "Transcribe this recording verbatim. Return only the transcription text.",
+              },
+              {
+                inlineData: {
+                  mimeType: AUDIO_MIME_TYPES[ext] || "audio/webm",
+                  data,
+                },
+              },
+            ],
+          },
+        ],
+      });
+
+      return (result.text || "").trim();
+    },
+  };
+}
+
+module.exports = createGeminiProvider;
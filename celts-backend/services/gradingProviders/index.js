@@ -0,0 +1,41 @@
+// services/gradingProviders/index.js
+// Registry of AI grading providers. Each provider exposes:
+//   name, models: { writing, speaking, transcription }
+//   evaluateWriting({ essayText, question }) -> evaluation json
+//   evaluateSpeaking({ questions, transcription }) -> evaluation json
+//   transcribe(mediaPath) -> string
+//
+// The deployment default comes from AI_GRADING_PROVIDER; a TestSet can
+// override it with its own `gradingProvider`.
+
+const PROVIDER_FACTORIES = {
+  openai: () => require("./openaiProvider")(),
+  gemini: () => require("./geminiProvider")(),
+  mock: () => require("./mockProvider")(),
+};
+
+const PROVIDER_NAMES = Object.keys(PROVIDER_FACTORIES);
+
+const instances = new Map();
+
+function getDefaultProviderName() {
+  const configured = (process.env.AI_GRADING_PROVIDER || "openai").toLowerCase();
+  if (!PROVIDER_FACTORIES[configured]) {
+    console.warn(
+      `[Grading] Unknown AI_GRADING_PROVIDER "${configured}", falling back to openai`
+    );
+    return "openai";
+  }
+  return configured;
+}
+
+function getGradingProvider(name) {
+  const resolved = name && PROVIDER_FACTORIES[name] ? name : getDefaultProviderName();
+
+  if (!instances.has(resolved)) {
+    instances.set(resolved, PROVIDER_FACTORIES[resolved]());
+  }
+  return instances.get(resolved);
+}
+
+module.exports = { getGradingProvider, getDefaultProviderName, PROVIDER_NAMES };
@@ -0,0 +1,169 @@
+// services/gradingProviders/mockProvider.js
+// Deterministic "examiner" used for offline CI and demos. It never calls an
+// external API: bands are derived from simple text metrics so the same input
+// always produces the same evaluation.
+
+const MOCK_TRANSCRIPTION =
+  "Well, I think this is quite an interesting question. In my opinion there are several reasons for it. " +
+  "First of all, most people in my city prefer to travel by bus because it is cheaper and more convenient. " +
+  "Secondly, I would say that the situation has changed a lot in recent years, especially since the new metro line opened. " +
+  "For example, my friends and I usually take the metro when we go to college, and it saves us a lot of time.";
+
+function roundHalf(n) {
+  return Math.round(n * 2) / 2;
+}
+
+function clampBand(n) {
+  return roundHalf(Math.max(1, Math.min(9, n)));
+}
+
+function textMetrics(text) {
+  const trimmed = (text || "").trim();
+  const words = trimmed.split(/\s+/).filter(Boolean);
+  const sentences = trimmed.split(/[.!?]+/).filter((s) => s.trim().length > 0);
+  const paragraphs = trimmed.split(/\n\s*\n/).filter((p) => p.trim().length > 0);
+  const unique = new Set(words.map((w) => w.toLowerCase().replace(/[^a-z']/g, "")));
+
+  return {
+    wordCount: words.length,
+    sentenceCount: sentences.length,
+    paragraphCount: paragraphs.length,
+    lexicalDiversity: words.length ? unique.size / words.length : 0,
+    avgSentenceLength: sentences.length ? words.length / sentences.length : 0,
+  };
+}
+
+function minimumWordsFor(question) {
+  const match = /at least\s+(\d+)\s+words/i.exec(question || "");
+  return match ? Number(match[1]) : 150;
+}
+
+function createMockProvider() {
+  const models = {
+    writing: "mock-examiner-v1",
+    speaking: "mock-examiner-v1",
+    transcription: "mock-transcriber-v1",
+  };
+
+  return {
+    name: "mock",
+    models,
+
+    async evaluateWriting({ essayText, question }) {
+      const m = textMetrics(essayText);
+      const minWords = minimumWordsFor(question);
+      const lengthRatio = m.wordCount / minWords;
+
+      const taskResponse = clampBand(
+        lengthRatio >= 1 ? 6.5 : lengthRatio >= 0.6 ? 5 : lengthRatio >= 0.3 ? 4 : 2
+      );
+      const cohesion = clampBand(
+        m.paragraphCount >= 4 ? 6.5 : m.paragraphCount === 3 ? 6 : m.paragraphCount === 2 ? 5 : 4
+      );
+      // Short texts are trivially "diverse", so only trust diversity past 50 words
+      const lexical = clampBand(
+        m.wordCount >= 50 ? 3 + m.lexicalDiversity * 5 : 4
+      );
+      const grammar = clampBand(
+        m.avgSentenceLength >= 10 && m.avgSentenceLength <= 25 ? 6 : 5
+      );
+
+      let band = clampBand((taskResponse + cohesion + lexical + grammar) / 4);
+      if (lengthRatio < 0.5) band = Math.min(band, 4);
+      if (lengthRatio < 0.2) band = Math.min(band, 3);
+      if (m.wordCount === 0) band = 1;
+
+      return {
+        band_score: band,
+        criteria_breakdown: {
+          task_response: {
+            score: taskResponse,
+            feedback: `The response contains ${m.wordCount} words against an expected minimum of ${minWords}.`,
+          },
+          cohesion_coherence: {
+            score: cohesion,
+            feedback: `The response is organised into ${m.paragraphCount} paragraph(s).`,
+          },
+          lexical_resource: {
+            score: lexical,
+            feedback: `Lexical diversity ratio is ${m.lexicalDiversity.toFixed(2)}.`,
+          },
+          grammatical_range_accuracy: {
+            score: grammar,
+            feedback: `Average sentence length is ${m.avgSentenceLength.toFixed(1)} words.`,
+          },
+        },
+        examiner_summary:
+          "Mock evaluation generated from text metrics (length, paragraphing, lexical diversity, sentence length). Not an examiner judgement.",
+      };
+    },
+
+    async evaluateSpeaking({ questions, transcription }) {
+      const m = textMetrics(transcription);
+      const perQuestionWords = questions.length ? m.wordCount / questions.length : 0;
+
+      const coverage =
+        perQuestionWords >= 40
+          ? "full"
+          : perQuestionWords >= 15
+          ? "partial"
+          : perQuestionWords > 0
+          ? "minimal"
+          : "none";
+      const coverageBand = { full: 6.5, partial: 5, minimal: 3, none: 1 }[coverage];
+
+      const fluencyCoherence = clampBand(
+        (coverageBand + (m.sentenceCount >= 3 ? 6 : 4.5)) / 2
+      );
+      const lexical = clampBand(
+        m.wordCount >= 50 ? 3 + m.lexicalDiversity * 5 : 4
+      );
+      const grammar = clampBand(
+        m.avgSentenceLength >= 8 && m.avgSentenceLength <= 25 ? 6 : 5
+      );
+      const pronunciation = 6;
+
+      const band = clampBand(
+        (fluencyCoherence + lexical + grammar + pronunciation) / 4
+      );
+
+      return {
+        band_score: band,
+        overall_band_score: band,
+        examiner_summary:
+          "Mock evaluation generated from transcription metrics (length per question, lexical diversity, sentence length). Not an examiner judgement.",
+        per_question: questions.map((q, i) => ({
+          question_index: i + 1,
+          question_text: q,
+          coverage,
+          band_score: coverageBand,
+          notes: `Approximately ${Math.round(perQuestionWords)} words per question.`,
+        })),
+        criteria_breakdown: {
+          fluency_coherence: {
+            score: fluencyCoherence,
+            feedback: `Coverage across questions is "${coverage}".`,
+          },
+          lexical_resource: {
+            score: lexical,
+            feedback: `Lexical diversity ratio is ${m.lexicalDiversity.toFixed(2)}.`,
+          },
+          grammatical_range_accuracy: {
+            score: grammar,
+            feedback: `Average sentence length is ${m.avgSentenceLength.toFixed(1)} words.`,
+          },
+          pronunciation: {
+            score: pronunciation,
+            feedback: "Pronunciation cannot be assessed offline; a fixed band is used.",
+          },
+        },
+      };
+    },
+
+    async transcribe() {
+      return MOCK_TRANSCRIPTION;
+    },
+  };
+}
+
+module.exports = createMockProvider;
@@ -0,0 +1,56 @@
+// services/gradingProviders/openaiProvider.js
+const fs = require("fs");
+const OpenAI = require("openai");
+
+const {
+  buildWritingPrompt,
+  buildSpeakingPrompt,
+  parseJsonResponse,
+} = require("./prompts");
+
+function createOpenAIProvider() {
+  const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+
+  const models = {
+    writing: process.env.OPENAI_WRITING_MODEL || "gpt-4o-mini",
+    speaking: process.env.OPENAI_SPEAKING_MODEL || "gpt-4o-mini",
+    transcription:
+      process.env.OPENAI_TRANSCRIPTION_MODEL || "gpt-4o-mini-transcribe",
+  };
+
+  async function completeJson(prompt, model) {
+    const result = await client.chat.completions.create({
+      model,
+      messages: [{ role: "user", content: prompt }],
+      response_format: { type: "json_object" },
+    });
+
+    return parseJsonResponse(result.choices?.[0]?.message?.content, "ChatGPT");
+  }
+
+  return {
+    name: "openai",
+    models,
+
+    evaluateWriting({ essayText, question }) {
+      return completeJson(buildWritingPrompt(essayText, question), models.writing);
+    },
+
+    evaluateSpeaking({ questions, transcription }) {
+      return completeJson(
+        buildSpeakingPrompt(questions, transcription),
+        models.speaking
+      );
+    },
+
+    async transcribe(mediaPath) {
+      const t = await client.audio.transcriptions.create({
+        file: fs.createReadStream(mediaPath),
+        model: models.transcription,
+      });
+      return t.text;
+    },
+  };
+}
+
+module.exports = createOpenAIProvider;
@@ -1,16 +1,24 @@
 // services/gradingWorker.js
 
-// const { GoogleGenAI } = require("@google/genai");
-const OpenAI = require("openai");
-const { File } = require("openai/uploads");
 const fs = require("fs");
 
 
 const { submissionQueue } = require("./queue");
 const Submission = require("../models/Submission");
 const TestSet = require("../models/TestSet");
-const Batch = require("../models/Batch");
 const StudentStats = require("../models/StudentStats");
+const { getGradingProvider } = require("./gradingProviders");
+const { recordModuleGrade } = require("./mockResultService");
+const { homeBatch } = require("./batchMembershipService");
+const { testAtVersion } = require("./testVersionService");
+const { taskTextForGrading } = require("../utils/richText");
+const {
+  WRITING_CRITERIA,
+  normalizeWritingCriteria,
+  normalizeSpeakingCriteria,
+  combineCriteria,
+  bandFromCriteria,
+} = require("../utils/criteriaBands");
 
 function applyStrictSpeakingPenalties(evaluation, totalQuestions) {
   let band = typeof evaluation.band_score === "number" ? evaluation.band_score : 0;
@@ -60,12 +68,11 @@ async function updateStudentStatsForSkill({
   student,
   skill,
   bandScore,
-  geminiEvaluation = null,
+  aiEvaluation = null,
+  criteriaBands = null,
 }) {
   // We still allow updating marks even if bandScore is null
-  const batch = await Batch.findOne({ students: student._id })
-    .select("_id name")
-    .lean();
+  const batch = await homeBatch(student._id);
 
   let stats = await StudentStats.findOne({ student: student._id });
 
@@ -99,32 +106,52 @@ async function updateStudentStatsForSkill({
   // Store latest examiner summary for writing 
   if (
     skill === "writing" &&
-    geminiEvaluation &&
-    typeof geminiEvaluation.examiner_summary === "string"
+    aiEvaluation &&
+    typeof aiEvaluation.examiner_summary === "string"
   ) {
-    stats.writingExaminerSummary = geminiEvaluation.examiner_summary;
+    stats.writingExaminerSummary = aiEvaluation.examiner_summary;
   }
 
   // Store latest examiner summary for writing 
   if (
     skill === "writing" &&
-    geminiEvaluation &&
-    typeof geminiEvaluation.examiner_summary === "string"
+    aiEvaluation &&
+    typeof aiEvaluation.examiner_summary === "string"
   ) {
-    stats.writingExaminerSummary = geminiEvaluation.examiner_summary;
+    stats.writingExaminerSummary = aiEvaluation.examiner_summary;
   }
 
 
   //Store latest examiner summary for speaking
   if (
     skill === "speaking" &&
-    geminiEvaluation &&
-    typeof geminiEvaluation.examiner_summary === "string"
+    aiEvaluation &&
+    typeof aiEvaluation.examiner_summary === "string"
   ) {
-    stats.speakingExaminerSummary = geminiEvaluation.examiner_summary;
+    stats.speakingExaminerSummary = aiEvaluation.examiner_summary;
   }
 
 
+  // Store latest per-criterion bands
+  if (criteriaBands) {
+    if (skill === "writing") {
+      stats.writingCriteria = {
+        taskAchievement: criteriaBands.taskAchievement,
+        coherenceCohesion: criteriaBands.coherenceCohesion,
+        lexicalResource: criteriaBands.lexicalResource,
+        grammaticalRange: criteriaBands.grammaticalRange,
+      };
+    }
+    if (skill === "speaking") {
+      stats.speakingCriteria = {
+        fluencyCoherence: criteriaBands.fluencyCoherence,
+        lexicalResource: criteriaBands.lexicalResource,
+        grammaticalRange: criteriaBands.grammaticalRange,
+        pronunciation: criteriaBands.pronunciation,
+      };
+    }
+  }
+
   // Recompute overallBand as average of non-null skill bands
   const values = [
     stats.readingBand,
@@ -140,12 +167,6 @@ async function updateStudentStatsForSkill({
   await stats.save();
 }
 
-// Gemini client
-// const ai = new GoogleGenAI({});
-const ai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-
-
-
 // Helpers to extract response content
 function extractAnswerForWritingQuestion(response, question, index) {
   if (!response || typeof response !== "object") return "";
@@ -170,188 +191,52 @@ function extractAnswerForWritingQuestion(response, question, index) {
 
 
 
-// Gemini grading: Writing
-// async function gradeWriting(essayText, testQuestion) {
-//   const instruction = `
-// You are an official IELTS Writing Task examiner.
-// Evaluate the student's writing strictly according to IELTS criteria.
-
-// Return ONLY valid JSON (no markdown, no explanation, no extra text).
-// The JSON must have the shape:
-
-// {
-//   "band_score": number,
-//   "criteria_breakdown": {
-//     "task_response": { "score": number, "feedback": string },
-//     "cohesion_coherence": { "score": number, "feedback": string },
-//     "lexical_resource": { "score": number, "feedback": string },
-//     "grammatical_range_accuracy": { "score": number, "feedback": string }
-//   },
-//   "examiner_summary": string
-// }
-
-// "band_score" must be between 1 and 9 (it may be .0 or .5).
-// Be strict, but fair.
-// `.trim();
-
-//   const userPrompt = `
-// IELTS QUESTION:
-// ${testQuestion || "N/A"}
-
-// STUDENT ANSWER:
-// ${essayText || "(empty)"}
-// `.trim();
-
-//   const finalPrompt = `${instruction}\n\n${userPrompt}`;
-
-//   const result = await ai.models.generateContent({
-//     model: "gemini-2.5-flash",
-//     contents: [
-//       {
-//         role: "user",
-//         parts: [{ text: finalPrompt }],
-//       },
-//     ],
-//     generationConfig: {
-//       responseMimeType: "application/json",
-//     },
-//   });
-
-//   console.log("---- GEMINI DEBUG (gradeWriting) ----");
-//   console.log("candidates length:", result?.candidates?.length);
-//   console.log("content0:", result?.candidates?.[0]?.content);
-//   console.log("-------------------------------------");
-
-//   const rawText = result?.candidates?.[0]?.content?.parts?.[0]?.text;
-
-//   if (!rawText || typeof rawText !== "string") {
-//     throw new Error("Gemini did not return valid JSON text");
-//   }
-
-//   const cleaned = rawText
-//     .replace(/```json/g, "")
-//     .replace(/```/g, "")
-//     .trim();
-
-//   let evaluation;
-//   try {
-//     evaluation = JSON.parse(cleaned);
-//   } catch (err) {
-//     console.error("Failed to parse Gemini JSON:", err.message);
-//     console.error("Raw cleaned text was:", cleaned);
-//     throw new Error("Gemini did not return valid JSON");
-//   }
-
-//   return evaluation;
-// }
-
-
-
-
-
-// OpenAI grading: Writing
-async function gradeWriting(essayText, testQuestion) {
-  const instruction = `
-You are an official IELTS Writing Task examiner.
-
-Your job is to evaluate the candidate's writing STRICTLY according to official IELTS Writing band descriptors for Task 1 / Task 2, focusing on:
-
-- Task Response / Task Achievement
-- Coherence and Cohesion
-- Lexical Resource
-- Grammatical Range and Accuracy
-
-RESTRICTIONS (VERY IMPORTANT):
-- Do NOT address the candidate directly. Do NOT use "you" / "your".
-  Instead, write in third person: "the candidate", "the response", "the essay", "the writer".
-- Do NOT include greetings, motivational comments, praise, or sympathy.
-  No "Dear student", "Good job", "Keep it up", etc.
-- Do NOT speculate about the candidate's personal life, background, feelings, or abilities.
-- Focus ONLY on what is visible in the writing and how it matches IELTS band descriptors.
-- Use a neutral, professional examiner tone at all times.
-
-STRICTNESS RULES (MUST FOLLOW):
-- If the answer is extremely short or clearly far below the minimum length implied in the task
-  (for example when the question says "at least 150 words" or "at least 250 words"),
-  the band score must be very low, usually Band 4.0 or below, regardless of language quality.
-- If the answer does NOT address the question at all (off-topic, memorised answer, or random sentences),
-  Task Response / Task Achievement must be Band 3.0 or below and the overall band must be heavily limited.
-- If the answer only partially addresses the task (for example:
-  - ignoring one part of a two-part question,
-  - missing an overview in Task 1,
-  - not presenting or supporting a clear position in Task 2),
-  Task Response / Task Achievement must be clearly penalised.
-- Grammar and vocabulary scores must not be higher than the level actually demonstrated in the text.
-  Occasional complex sentences with frequent basic errors should not receive high bands.
-- Coherence and Cohesion must reflect paragraphing, logical progression, and use of cohesive devices.
-  Overuse or mechanical use of linking words must be penalised.
-
-Return ONLY valid json (no markdown, no explanation, no extra text).
-The response MUST be a single json object with the exact shape:
-
-{
-  "band_score": number,
-  "criteria_breakdown": {
-    "task_response": { "score": number, "feedback": string },
-    "cohesion_coherence": { "score": number, "feedback": string },
-    "lexical_resource": { "score": number, "feedback": string },
-    "grammatical_range_accuracy": { "score": number, "feedback": string }
-  },
-  "examiner_summary": string
-}
-
-Rules:
-- "band_score" must be between 1 and 9.0 (it may be .0 or .5).
-- Each criteria "score" must also be between 1 and 9.0 where possible.
-- Feedback must be concise, IELTS-style, impersonal, and clearly linked to the band scores.
-`.trim();
-
-  const userPrompt = `
-IELTS QUESTION:
-${testQuestion || "N/A"}
-
-CANDIDATE'S ANSWER:
-${essayText || "(empty)"}
-`.trim();
-
-  const finalPrompt = `${instruction}\n\n${userPrompt}`;
-
-  const result = await ai.chat.completions.create({
-    model: "gpt-4o-mini",
-    messages: [{ role: "user", content: finalPrompt }],
-    response_format: { type: "json_object" },
+// AI grading: Writing. Charts and diagrams in the task reach the examiner as
+// their written descriptions.
+async function gradeWriting(essayText, testQuestion, provider) {
+  const evaluation = await provider.evaluateWriting({
+    essayText,
+    question: taskTextForGrading(testQuestion),
   });
 
-  const raw = result.choices?.[0]?.message?.content;
-  if (!raw) {
-    throw new Error("ChatGPT did not return valid JSON");
-  }
-
-  return JSON.parse(raw);
+  return {
+    ...evaluation,
+    provider: provider.name,
+    model: provider.models.writing,
+  };
 }
 
 
-// ---------------- Gemini grading: Speaking (placeholder) ----------------
-// async function gradeSpeaking(audioPath) {
-//   // Not implemented yet – avoid silently "grading" speaking
-//   throw new Error(
-//     "Speaking evaluation is not implemented yet in gradingWorker."
-//   );
-// }
-
-
-
+// One transcript in prompt order, each answer under its prompt's number. A
+// recording without a questionId (submissions from before per-prompt
+// recordings) answers the whole test.
+async function transcribeRecordings(recordings, promptIds, provider) {
+  if (recordings.length === 1 && !recordings[0].questionId) {
+    return provider.transcribe(recordings[0].path);
+  }
+  const parts = [];
+  let heard = false;
+  for (const [i, questionId] of promptIds.entries()) {
+    const recording = recordings.find((r) => r.questionId === questionId);
+    const text = recording ? ((await provider.transcribe(recording.path)) || "").trim() : "";
+    if (text) heard = true;
+    parts.push(`Prompt ${i + 1}: ${text}`);
+  }
+  return heard ? parts.join("\n\n") : "";
+}
 
-//OpenAI grading: Speaking
+// AI grading: Speaking
 async function gradeSpeaking({
   questions,
-  mediaPath,
+  promptIds,
+  recordings,
   audioUrl,
   videoUrl,
   manualTranscription,
+  provider,
 }) {
-  // We rely primarily on the local mediaPath saved by multer
-  if (!mediaPath && !audioUrl && !videoUrl && !manualTranscription) {
+  // We rely primarily on the recordings saved by multer
+  if (!recordings.length && !audioUrl && !videoUrl && !manualTranscription) {
     throw new Error(
       "No audio, video, or transcription provided for speaking evaluation."
     );
@@ -360,16 +245,9 @@ async function gradeSpeaking({
   // TRANSCRIPTION
   let transcription = manualTranscription || "";
 
-  if (!transcription && mediaPath) {
+  if (!transcription && recordings.length) {
     try {
-      const fileStream = fs.createReadStream(mediaPath);
-
-      const t = await ai.audio.transcriptions.create({
-        file: fileStream,
-        model: "gpt-4o-mini-transcribe",
-      });
-
-      transcription = t.text;
+      transcription = await transcribeRecordings(recordings, promptIds, provider);
     } catch (err) {
       console.error("Transcription failed:", err);
       throw err;
@@ -380,102 +258,7 @@ async function gradeSpeaking({
     throw new Error("Transcription is empty; cannot grade speaking response.");
   }
 
-  // EVALUATION PROMPT (STRICT IELTS, PER-QUESTION)
-  const prompt = `
-You are an official IELTS Speaking examiner.
-
-Your job is to evaluate the candidate's speaking STRICTLY according to IELTS Speaking criteria.
-
-RESTRICTIONS (VERY IMPORTANT):
-- Do NOT address the candidate directly. Do NOT use "you" / "your".
-  Instead, write in third person: "the candidate", "the speaker", "the response".
-- Do NOT include greetings, motivational comments, praise, or sympathy.
-  No "Dear student", "Good job", "Keep it up", etc.
-- Do NOT speculate about the candidate's personal life, background, feelings, or abilities.
-- Focus ONLY on what is evident from the spoken language in the transcription.
-- Use a neutral, professional examiner tone at all times.
-
-The speaking test consists of multiple questions. They are:
-
-${questions.map((q, i) => `${i + 1}. ${q}`).join("\n")}
-
-TRANSCRIPTION OF THE CANDIDATE'S SPOKEN ANSWERS:
-"${transcription}"
-
-STRICT CHECKING INSTRUCTIONS:
-
-1. For EACH question:
-   - Determine whether the transcription actually addresses that question.
-   - Classify coverage as:
-       "full"     – the question is clearly answered with sufficient development.
-       "partial"  – the question is somewhat addressed but lacks development or clarity.
-       "minimal"  – only a few words/phrases related to the question; barely an answer.
-       "none"     – the question is not answered at all.
-   - If a question explicitly expects the candidate to speak for around 1–2 minutes
-     (this may be indicated in the question text), then a response of only a
-     very short sentence or a few seconds of speech should be treated as
-     "minimal" or "partial" coverage and penalized accordingly. Keep the time limit a strict evaluation parameter.
-     Make sure the candidate is following all the rules being stated in question.
-     If time limit is too less give them a band score of less than 4.
-
-2. For EACH question, assign a per-question band_score (1–9, can be .0 or .5)
-   based on the candidate's performance relevant to that question, considering:
-   - Fluency
-   - Coherence
-   - Vocabulary
-   - Grammar
-   - Pronunciation
-
-3. Then compute an OVERALL band score for the whole speaking performance,
-   taking into account:
-   - Coverage of ALL questions (including missing or minimal answers).
-   - The quality of language across the entire transcription.
-   - Underlength responses or missing answers must reduce the overall band.
-
-4. The examiner_summary must:
-   - Be concise and IELTS-style.
-   - Be fully impersonal (no "you").
-   - Explicitly mention any questions that were not properly answered
-     or where the response was much shorter than required.
-
-Return ONLY valid json (no markdown, no explanation, no extra text).
-The response MUST be a single json object with EXACTLY this structure:
-
-{
-  "band_score": number,
-  "overall_band_score": number,
-  "examiner_summary": string,
-  "per_question": [
-    {
-      "question_index": number,
-      "question_text": string,
-      "coverage": "full" | "partial" | "minimal" | "none",
-      "band_score": number,
-      "notes": string
-    }
-  ],
-  "criteria_breakdown": {
-    "fluency": number,
-    "coherence": number,
-    "vocabulary": number,
-    "grammar": number,
-    "pronunciation": number
-  }
-}
-
-Rules:
-- "overall_band_score" must be between 1 and 9 (may be .0 or .5).
-- "band_score" should normally be the same as "overall_band_score" (kept for backward compatibility).
-- Each per_question.band_score and criteria_breakdown value must also be in the range 1–9 where possible.
-`.trim();
-
-  const result = await ai.chat.completions.create({
-    model: "gpt-4o-mini",
-    messages: [{ role: "user", content: prompt }],
-    response_format: { type: "json_object" },
-  });
-
-  const parsed = JSON.parse(result.choices[0].message.content || "{}");
+  const parsed = await provider.evaluateSpeaking({ questions, transcription });
 
   // Safety: normalize shape & ensure top-level band_score exists
   let overallBand = parsed.overall_band_score;
@@ -504,6 +287,9 @@ Rules:
     overall_band_score: overallBand,
     band_score: parsed.band_score,
     transcription,
+    provider: provider.name,
+    model: provider.models.speaking,
+    transcriptionModel: manualTranscription ? null : provider.models.transcription,
   };
 }
 
@@ -514,6 +300,7 @@ Rules:
 // Queue Processor 
 submissionQueue.process(async (job) => {
   const { submissionId, studentId, testId, skill, response, mediaPath } = job.data;
+  const recordings = job.data.recordings || (mediaPath ? [{ questionId: null, path: mediaPath }] : []);
 
   let submission;
   let testSet;
@@ -523,6 +310,8 @@ submissionQueue.process(async (job) => {
       .populate("student")
       .lean();
     testSet = await TestSet.findById(testId).lean();
+    // grade against the version the student answered, not whatever is live now
+    if (submission) testSet = await testAtVersion(testSet, submission.testVersion);
 
     if (!submission || !testSet) {
       throw new Error(
@@ -534,14 +323,20 @@ submissionQueue.process(async (job) => {
     throw dbError;
   }
 
+  let provider = null;
   let evaluationResult = null;
   let finalBandScore = null;
+  let criteriaBands = null;
 
   // We'll also compute marks for writing here:
   let totalMarksFromAI = 0;
   let maxMarksFromAI = 0;
 
   try {
+    // Per-test provider wins over the deployment default (AI_GRADING_PROVIDER);
+    // a provider that can't be set up (e.g. no API key) fails the submission like any grading error
+    provider = getGradingProvider(testSet.gradingProvider);
+
     if (skill === "writing") {
       // MULTI-QUESTION WRITING SUPPORT 
       const writingQuestions = (testSet.questions || []).filter(
@@ -563,7 +358,7 @@ submissionQueue.process(async (job) => {
         const prompt = q.prompt || "No prompt text";
         const answerText = extractAnswerForWritingQuestion(response, q, idx);
 
-        const singleEval = await gradeWriting(answerText, prompt);
+        const singleEval = await gradeWriting(answerText, prompt, provider);
 
         // Extract numeric band for this task
         let taskBand = null;
@@ -579,6 +374,14 @@ submissionQueue.process(async (job) => {
           taskBand = Number.isFinite(numeric) ? numeric : null;
         }
 
+        const taskCriteria = normalizeWritingCriteria(
+          singleEval?.criteria_breakdown
+        );
+        // Fall back to the criteria mean if the model omitted the overall band
+        if (taskBand == null) {
+          taskBand = bandFromCriteria(taskCriteria);
+        }
+
         // Compute marks for this question based on band (0–9 -> 0–marks)
         const qMaxMarks =
           typeof q.marks === "number" && q.marks > 0 ? q.marks : 0;
@@ -599,6 +402,7 @@ submissionQueue.process(async (job) => {
           maxMarks: qMaxMarks,
           earnedMarks: qEarnedMarks,
           band_score: taskBand,
+          criteria: taskCriteria,
           evaluation: singleEval,
           answerSnippet: answerText ? answerText.slice(0, 400) : "",
         });
@@ -623,6 +427,15 @@ submissionQueue.process(async (job) => {
         }
       }
 
+      // Criteria across tasks are weighted like the band (by marks)
+      criteriaBands = combineCriteria(
+        perTaskResults.map((t) => ({
+          criteria: t.criteria,
+          weight: t.maxMarks > 0 ? t.maxMarks : 1,
+        })),
+        WRITING_CRITERIA
+      );
+
       // Build a combined evaluationResult keeping top-level fields
       // compatible with your frontend (band_score + examiner_summary).
       const taskSummaries = perTaskResults
@@ -645,6 +458,8 @@ submissionQueue.process(async (job) => {
         criteria_breakdown:
           perTaskResults[0]?.evaluation?.criteria_breakdown || null,
         tasks: perTaskResults,
+        provider: provider.name,
+        model: provider.models.writing,
       };
     } else if (skill === "speaking") {
     const speakingQuestions = (testSet.questions || []).filter(
@@ -652,13 +467,15 @@ submissionQueue.process(async (job) => {
     const questions = speakingQuestions.map(
       (q) => q.prompt || q.text || "" );
 
-    // Raw OpenAI evaluation
+    // Raw AI evaluation
     evaluationResult = await gradeSpeaking({
       questions,
-      mediaPath,
+      promptIds: speakingQuestions.map((q) => String(q._id)),
+      recordings,
       audioUrl: response?.audioUrl || null,
       videoUrl: response?.videoUrl || null,
       manualTranscription: response?.transcription || null,
+      provider,
     });
 
     // Apply strict penalties for underlength / missing answers
@@ -668,6 +485,7 @@ submissionQueue.process(async (job) => {
     );
 
     finalBandScore = evaluationResult.band_score;
+    criteriaBands = normalizeSpeakingCriteria(evaluationResult.criteria_breakdown);
     } else {
       console.warn(
         `[Worker] Unsupported skill "${skill}" for submission ${submissionId}`
@@ -696,19 +514,25 @@ submissionQueue.process(async (job) => {
     const updateDoc = {
       status: "graded",
       bandScore: finalBandScore,
-      geminiEvaluation: evaluationResult,
+      aiEvaluation: evaluationResult,
+      aiError: null,
+      criteriaBands,
+      evaluatedBy: {
+        provider: evaluationResult.provider,
+        model: evaluationResult.model,
+      },
       updatedAt: new Date(),
     };
     // Skill-specific summaries
     if (skill === "writing") {
-      updateDoc.geminiWritingEvaluationSummary =
+      updateDoc.writingEvaluationSummary =
         evaluationResult && typeof evaluationResult.examiner_summary === "string"
           ? evaluationResult.examiner_summary
           : null;
     }
 
     if (skill === "speaking") {
-      updateDoc.geminiSpeakingEvaluationSummary =
+      updateDoc.speakingEvaluationSummary =
         evaluationResult && typeof evaluationResult.examiner_summary === "string"
           ? evaluationResult.examiner_summary
           : null;
@@ -722,21 +546,24 @@ submissionQueue.process(async (job) => {
       updateDoc.maxMarks = maxMarksFromAI || 0;
     }
 
-    await Submission.findByIdAndUpdate(submissionId, updateDoc);
+    const gradedSubmission = await Submission.findByIdAndUpdate(submissionId, updateDoc, { new: true });
 
     await updateStudentStatsForSkill({
       student: submission.student,
       skill,
       bandScore: finalBandScore,
-      geminiEvaluation: evaluationResult,
+      aiEvaluation: evaluationResult,
+      criteriaBands,
     });
 
-    if (mediaPath) {
-      fs.unlink(mediaPath, (err) => {
+    await recordModuleGrade(gradedSubmission);
+
+    for (const recording of recordings) {
+      fs.unlink(recording.path, (err) => {
         if (err) {
-          console.error(`[Worker] Failed to delete media file ${mediaPath}:`, err.message);
+          console.error(`[Worker] Failed to delete media file ${recording.path}:`, err.message);
         } else {
-          console.log(`[Worker] Deleted media file ${mediaPath}`);
+          console.log(`[Worker] Deleted media file ${recording.path}`);
         }
       });
     }
@@ -752,10 +579,14 @@ submissionQueue.process(async (job) => {
       error.message
     );
 
-    if (mediaPath) {
-      fs.unlink(mediaPath, (err) => {
+    await Submission.findByIdAndUpdate(submissionId, {
+      aiError: `[${provider ? provider.name : testSet.gradingProvider || "grading"}] ${error.message}`,
+    }).catch(() => {});
+
+    for (const recording of recordings) {
+      fs.unlink(recording.path, (err) => {
         if (err) {
-          console.error(`[Worker] Failed to delete media file after error ${mediaPath}:`, err.message);
+          console.error(`[Worker] Failed to delete media file after error ${recording.path}:`, err.message);
         }
       });
     }
@@ -0,0 +1,212 @@
+// services/invitationService.js
+const crypto = require('crypto');
+const Invitation = require('../models/Invitation');
+const User = require('../models/User');
+const Batch = require('../models/Batch');
+const { addStudents } = require('./batchMembershipService');
+const { sendMail } = require('./mailService');
+
+const INVITE_TTL_DAYS = Number(process.env.INVITE_TTL_DAYS || 7);
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const hashToken = (raw) => crypto.createHash('sha256').update(raw).digest('hex');
+
+function newToken() {
+  const raw = crypto.randomBytes(32).toString('hex');
+  return { raw, tokenHash: hashToken(raw) };
+}
+
+function inviteLink(raw) {
+  const origin = process.env.CLIENT_ORIGIN || 'http://localhost:3000';
+  return `${origin}/auth/invite?token=${raw}`;
+}
+
+function expiryFrom(days) {
+  const ttl = Number(days) > 0 ? Math.min(Number(days), 90) : INVITE_TTL_DAYS;
+  return new Date(Date.now() + ttl * 24 * 60 * 60 * 1000);
+}
+
+// pending | accepted | revoked | expired
+function invitationStatus(inv) {
+  if (inv.status === 'pending' && new Date(inv.expiresAt) <= new Date()) return 'expired';
+  return inv.status;
+}
+
+const livePendingFilter = () => ({ status: 'pending', expiresAt: { $gt: new Date() } });
+
+/**
+ * Check one invite row against the inviter's rights and existing accounts.
+ * Inviters without users.manage may only invite students into batches they teach;
+ * admin accounts also need permissions.manage, which every admin is granted.
+ * Returns { error } or { data } with normalized fields.
+ */
+async function validateInvite(row, inviter, capabilities = []) {
+  const restricted = !capabilities.includes('users.manage');
+  const email = String(row.email || '').trim().toLowerCase();
+  const systemId = String(row.systemId || '').trim();
+  const role = row.role || 'student';
+  const batchId = row.batchId || row.batch || null;
+
+  if (!EMAIL_RE.test(email)) return { error: 'A valid email is required' };
+  if (!systemId) return { error: 'systemId is required' };
+  if (!['admin', 'faculty', 'student'].includes(role)) return { error: 'Invalid role' };
+  if (restricted && role !== 'student') {
+    return { error: 'You can only invite students' };
+  }
+  if (role === 'admin' && !capabilities.includes('permissions.manage')) {
+    return { error: 'Inviting admin accounts requires permissions.manage' };
+  }
+
+  let batch = null;
+  if (batchId) {
+    batch = await Batch.findById(batchId).select('_id name faculty archived').lean();
+    if (!batch) return { error: 'Batch not found' };
+    if (batch.archived) return { error: `Batch "${batch.name}" is archived` };
+    if (role === 'admin') return { error: 'Admins are not assigned to batches' };
+  }
+  if (restricted) {
+    if (!batch) return { error: 'Student invitations must name one of your batches' };
+    if (!(batch.faculty || []).some(f => String(f) === String(inviter._id))) {
+      return { error: 'You can only invite students to batches you teach' };
+    }
+  }
+
+  const existingUser = await User.findOne({ $or: [{ email }, { systemId }] })
+    .setOptions({ withDeleted: true })
+    .select('email systemId')
+    .lean();
+  if (existingUser) {
+    return {
+      error: existingUser.email === email
+        ? `An account already exists for ${email}`
+        : `systemId ${systemId} is already in use`,
+    };
+  }
+
+  // re-inviting the same email replaces its pending invite, but a systemId can't be promised twice
+  const clash = await Invitation.findOne({ ...livePendingFilter(), systemId, email: { $ne: email } })
+    .select('email')
+    .lean();
+  if (clash) return { error: `systemId ${systemId} is already reserved by the invite for ${clash.email}` };
+
+  return {
+    data: {
+      email,
+      systemId,
+      role,
+      name: String(row.name || '').trim(),
+      batch: batch ? batch._id : null,
+    },
+  };
+}
+
+/**
+ * Create an invitation from validated data. Any pending invite for the same
+ * email is revoked. Returns { invitation, link }.
+ */
+async function createInvitation(data, inviter, ttlDays) {
+  await Invitation.updateMany({ email: data.email, status: 'pending' }, { status: 'revoked' });
+
+  const { raw, tokenHash } = newToken();
+  const invitation = await Invitation.create({
+    ...data,
+    tokenHash,
+    expiresAt: expiryFrom(ttlDays),
+    invitedBy: inviter._id,
+  });
+  return { invitation, link: inviteLink(raw) };
+}
+
+/**
+ * Issue a fresh link (and expiry) for a pending or expired invitation; the old
+ * link stops working. Returns { invitation, link }.
+ */
+async function reissueInvitation(invitation, ttlDays) {
+  const { raw, tokenHash } = newToken();
+  invitation.tokenHash = tokenHash;
+  invitation.expiresAt = expiryFrom(ttlDays);
+  invitation.status = 'pending';
+  await invitation.save();
+  return { invitation, link: inviteLink(raw) };
+}
+
+// The invitation a link points at, if it can still be accepted
+async function findUsableInvitation(raw) {
+  if (!raw) return null;
+  const invitation = await Invitation.findOne({ tokenHash: hashToken(String(raw)) }).populate('batch', 'name');
+  if (!invitation || invitationStatus(invitation) !== 'pending') return null;
+  return invitation;
+}
+
+/**
+ * Create the invitee's account with their chosen password and place them in
+ * the invited batch. The invitation is claimed atomically so a link can only
+ * be used once. Returns the new user, or null if the link is no longer valid.
+ */
+async function acceptInvitation(raw, password, name) {
+  const invitation = await Invitation.findOneAndUpdate(
+    { tokenHash: hashToken(String(raw || '')), ...livePendingFilter() },
+    { status: 'accepted', acceptedAt: new Date() },
+    { new: true }
+  );
+  if (!invitation) return null;
+
+  let user;
+  try {
+    user = await User.create({
+      name: String(name || '').trim() || invitation.name || invitation.email,
+      email: invitation.email,
+      systemId: invitation.systemId,
+      password,
+      role: invitation.role,
+    });
+  } catch (err) {
+    await Invitation.updateOne({ _id: invitation._id }, { status: 'pending', acceptedAt: null });
+    throw err;
+  }
+
+  if (invitation.batch) {
+    if (invitation.role === 'faculty') {
+      await Batch.updateOne({ _id: invitation.batch }, { $addToSet: { faculty: user._id } });
+    } else {
+      await addStudents({ _id: invitation.batch }, [user._id], { by: invitation.invitedBy, reason: 'invitation' });
+    }
+  }
+
+  invitation.acceptedUser = user._id;
+  await invitation.save();
+  return user;
+}
+
+/**
+ * Email the link to the invitee. Returns whether it went out; a mail failure
+ * doesn't undo the invitation since the inviter can still share the link.
+ */
+async function sendInvitationEmail(invitation, link, inviter) {
+  try {
+    await sendMail({
+      to: invitation.email,
+      subject: 'You have been invited to CELTS',
+      text:
+        `Hello ${invitation.name || ''},\n\n` +
+        `${inviter.name || 'An administrator'} has invited you to join CELTS as ${invitation.role}.\n` +
+        `Open this link to set your password (it expires on ${invitation.expiresAt.toDateString()}):\n\n` +
+        `${link}\n`,
+    });
+    return true;
+  } catch (err) {
+    console.error('[sendInvitationEmail] error:', err);
+    return false;
+  }
+}
+
+module.exports = {
+  INVITE_TTL_DAYS,
+  invitationStatus,
+  validateInvite,
+  createInvitation,
+  reissueInvitation,
+  findUsableInvitation,
+  acceptInvitation,
+  sendInvitationEmail,
+};
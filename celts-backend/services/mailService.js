@@ -0,0 +1,75 @@
+// services/mailService.js
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Outgoing mail with a pluggable transport, picked by MAIL_TRANSPORT:
+ *   console (default) - log the message; for local development. Outside
+ *                       development the link tokens (?token=...) are redacted,
+ *                       since anyone reading the logs could use them
+ *   file              - write each message as JSON into MAIL_OUTBOX_DIR
+ *   smtp              - send through SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASS
+ */
+
+const MAIL_FROM = process.env.MAIL_FROM || 'CELTS <no-reply@celts.local>';
+
+const isDevelopment = () => (process.env.NODE_ENV || 'development') === 'development';
+
+// reset and invitation links carry a bearer token in their query string
+const redactTokens = (text) => String(text || '').replace(/([?&]token=)[^&\s]+/g, '$1[redacted]');
+
+const transports = {
+  console: {
+    async send(message) {
+      const text = isDevelopment() ? message.text : redactTokens(message.text);
+      console.log(`[mail] to=${message.to} subject="${message.subject}"\n${text}`);
+      return { transport: 'console' };
+    },
+  },
+
+  file: {
+    async send(message) {
+      const dir = process.env.MAIL_OUTBOX_DIR || path.join(__dirname, '..', 'mail-outbox');
+      await fs.promises.mkdir(dir, { recursive: true });
+      const safeTo = String(message.to).replace(/[^a-z0-9@._-]/gi, '_');
+      const file = path.join(dir, `${Date.now()}-${safeTo}.json`);
+      await fs.promises.writeFile(file, JSON.stringify({ ...message, sentAt: new Date() }, null, 2));
+      return { transport: 'file', file };
+    },
+  },
+
+  smtp: {
+    transporter: null,
+    async send(message) {
+      if (!this.transporter) {
+        const nodemailer = require('nodemailer');
+        this.transporter = nodemailer.createTransport({
+          host: process.env.SMTP_HOST,
+          port: Number(process.env.SMTP_PORT || 587),
+          secure: process.env.SMTP_SECURE === 'true',
+          auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+        });
+      }
+      const info = await this.transporter.sendMail(message);
+      return { transport: 'smtp', messageId: info.messageId };
+    },
+  },
+};
+
+function activeTransport() {
+  const name = (process.env.MAIL_TRANSPORT || 'console').toLowerCase();
+  if (!transports[name]) {
+    console.warn(`Unknown MAIL_TRANSPORT "${name}", falling back to console`);
+    return transports.console;
+  }
+  return transports[name];
+}
+
+/**
+ * Send one message: { to, subject, text, html? }. Rejects if the transport fails.
+ */
+async function sendMail({ to, subject, text, html }) {
+  return activeTransport().send({ from: MAIL_FROM, to, subject, text, html });
+}
+
+module.exports = { sendMail };
@@ -0,0 +1,79 @@
+// services/mediaStorage.js
+// Faculty media (test audio, question images) goes to S3 when it is configured
+// and to the local uploads folder otherwise, or when the S3 upload fails.
+const fs = require('fs');
+const path = require('path');
+const { uploadToS3, isS3Configured } = require('../config/s3');
+
+const uploadsRoot = path.join(__dirname, '../uploads');
+
+// The media types faculty can add to tests, with the extension a stored file
+// gets. Not SVG or anything else a browser would run script from: /uploads is
+// served from the API's own origin.
+const MEDIA_TYPES = {
+  'audio/mpeg': '.mp3',
+  'audio/mp3': '.mp3',
+  'audio/wav': '.wav',
+  'audio/x-wav': '.wav',
+  'audio/x-m4a': '.m4a',
+  'audio/mp4': '.m4a',
+  'audio/aac': '.aac',
+  'audio/ogg': '.ogg',
+  'audio/webm': '.webm',
+  'video/mp4': '.mp4',
+  'video/webm': '.webm',
+  'video/ogg': '.ogv',
+  'video/quicktime': '.mov',
+  'video/x-matroska': '.mkv',
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+};
+
+const isAllowedMediaType = (mimeType) => Object.prototype.hasOwnProperty.call(MEDIA_TYPES, mimeType);
+
+/**
+ * Store a file and return { url, provider }. `baseUrl` is the server's own
+ * origin, used for the URL of a locally stored file. The extension comes from
+ * `mimeType`, never from `fileName`; other types than MEDIA_TYPES are refused.
+ */
+async function storeMedia(buffer, fileName, mimeType, { folder = 'audio', baseUrl }) {
+  if (!isAllowedMediaType(mimeType)) throw new Error(`Unsupported media type: ${mimeType}`);
+  const ext = MEDIA_TYPES[mimeType];
+  const baseName = path.basename(String(fileName || 'media'), path.extname(String(fileName || ''))) || 'media';
+
+  if (isS3Configured) {
+    try {
+      const url = await uploadToS3(buffer, `${baseName}${ext}`, mimeType, folder);
+      return { url, provider: 'S3' };
+    } catch (s3Error) {
+      console.error('S3 upload failed, falling back to local storage:', s3Error);
+    }
+  }
+
+  const dir = path.join(uploadsRoot, folder);
+  if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+
+  const unique = Date.now() + '-' + Math.round(Math.random() * 1e9);
+  const filename = `${unique}${ext}`;
+  fs.writeFileSync(path.join(dir, filename), buffer);
+
+  return { url: `${baseUrl}/uploads/${folder}/${filename}`, provider: 'local' };
+}
+
+// The file behind one of this server's /uploads URLs, or null for anything else
+function localMediaPath(url) {
+  let pathname;
+  try {
+    pathname = new URL(url, 'http://local').pathname;
+  } catch (e) {
+    return null;
+  }
+  if (!pathname.startsWith('/uploads/')) return null;
+  const file = path.normalize(path.join(uploadsRoot, decodeURIComponent(pathname.slice('/uploads/'.length))));
+  if (!file.startsWith(uploadsRoot + path.sep) || !fs.existsSync(file)) return null;
+  return file;
+}
+
+module.exports = { MEDIA_TYPES, isAllowedMediaType, storeMedia, localMediaPath };
@@ -0,0 +1,238 @@
+// services/mockResultService.js
+const mongoose = require('mongoose');
+const TestSet = require('../models/TestSet');
+const MockResult = require('../models/MockResult');
+const StudentStats = require('../models/StudentStats');
+
+// IELTS order: listening, reading and writing on the day, then speaking
+const MOCK_MODULE_ORDER = ['listening', 'reading', 'writing', 'speaking'];
+
+/**
+ * Official IELTS overall band: the mean of the four module bands rounded to
+ * the nearest half band, where a mean ending in .25 rounds up to .5 and one
+ * ending in .75 rounds up to the next whole band.
+ * Returns null unless all four bands are present.
+ */
+function officialOverallBand(bands) {
+  if (!Array.isArray(bands) || bands.length !== 4) return null;
+  if (bands.some(b => typeof b !== 'number' || Number.isNaN(b))) return null;
+
+  const mean = bands.reduce((sum, b) => sum + b, 0) / 4;
+  const whole = Math.floor(mean);
+  const fraction = mean - whole;
+  if (fraction < 0.25) return whole;
+  if (fraction < 0.75) return whole + 0.5;
+  return whole + 1;
+}
+
+/**
+ * Check a mock's module list: one existing test per skill, each of that
+ * skill's type. Returns { modules } in official order, or { error }.
+ */
+async function validateMockModules(modules) {
+  if (!Array.isArray(modules) || modules.length !== MOCK_MODULE_ORDER.length) {
+    return { error: 'A full mock needs exactly one module per skill (listening, reading, writing, speaking).' };
+  }
+
+  const bySkill = new Map();
+  for (const m of modules) {
+    if (!m || !MOCK_MODULE_ORDER.includes(m.skill) || bySkill.has(m.skill)) {
+      return { error: 'A full mock needs exactly one module per skill (listening, reading, writing, speaking).' };
+    }
+    if (!mongoose.Types.ObjectId.isValid(m.testSet)) {
+      return { error: `Invalid test for the ${m.skill} module` };
+    }
+    bySkill.set(m.skill, m);
+  }
+
+  const tests = await TestSet.find({ _id: { $in: modules.map(m => m.testSet) }, deletedAt: null })
+    .select('type')
+    .lean();
+  const typeById = new Map(tests.map(t => [String(t._id), t.type]));
+
+  for (const m of modules) {
+    const type = typeById.get(String(m.testSet));
+    if (!type) return { error: `Test for the ${m.skill} module not found` };
+    if (type !== m.skill) {
+      return { error: `The ${m.skill} module must use a ${m.skill} test (got ${type})` };
+    }
+  }
+
+  return {
+    modules: MOCK_MODULE_ORDER.map(skill => {
+      const m = bySkill.get(skill);
+      return { skill, testSet: m.testSet, instructions: m.instructions || '' };
+    }),
+  };
+}
+
+/**
+ * The student's run of a mock, or null if they never started it. Module tests
+ * follow the usual one-attempt rule, so a mock is taken once per student.
+ */
+async function findLatestResult(mockTestId, studentId) {
+  return MockResult.findOne({ mockTest: mockTestId, student: studentId }).sort({ attemptNumber: -1 });
+}
+
+async function startMock(mockTest, studentId) {
+  const latest = await findLatestResult(mockTest._id, studentId);
+  if (latest) return latest;
+
+  return MockResult.create({
+    student: studentId,
+    mockTest: mockTest._id,
+    attemptNumber: 1,
+    modules: (mockTest.modules || []).map(m => ({ skill: m.skill, testSet: m.testSet })),
+  });
+}
+
+/**
+ * Mark the module at `index` as started. Modules are taken strictly in order.
+ * Returns { result } or { error, status }.
+ */
+async function startModule(result, index) {
+  if (result.status !== 'in_progress') {
+    return { status: 400, error: 'This mock has already been completed' };
+  }
+  if (index !== result.currentModule) {
+    return { status: 409, error: 'Modules must be taken in order' };
+  }
+
+  const module = result.modules[index];
+  if (!module) return { status: 404, error: 'Module not found' };
+
+  if (module.status === 'pending') {
+    module.status = 'in_progress';
+    module.startedAt = new Date();
+    await result.save();
+  }
+  return { result };
+}
+
+/**
+ * The in-progress mock result a submission for `testId` belongs to, or null
+ * when the id is missing/foreign or `testId` isn't the module being taken.
+ */
+async function findResultForSubmission(mockResultId, studentId, testId) {
+  if (!mockResultId || !mongoose.Types.ObjectId.isValid(mockResultId)) return null;
+
+  const result = await MockResult.findOne({
+    _id: mockResultId,
+    student: studentId,
+    status: 'in_progress',
+  });
+  if (!result) return null;
+
+  const module = result.modules[result.currentModule];
+  if (!module || String(module.testSet) !== String(testId)) return null;
+  return result;
+}
+
+/**
+ * The in-progress mock result whose current module is `testId`, for a module
+ * submitted without the runner (the server-side auto-submit at the deadline).
+ */
+async function findResultForModule(studentId, testId) {
+  const results = await MockResult.find({
+    student: studentId,
+    status: 'in_progress',
+    'modules.testSet': testId,
+  });
+  return results.find(result => {
+    const module = result.modules[result.currentModule];
+    return module && String(module.testSet) === String(testId);
+  }) || null;
+}
+
+/**
+ * Link a just-created module submission to its mock and move on to the next module.
+ */
+async function recordModuleSubmission(result, submission) {
+  const module = result.modules[result.currentModule];
+  module.submission = submission._id;
+  module.submittedAt = new Date();
+  module.status = submission.status === 'graded' ? 'graded' : 'submitted';
+  module.bandScore = typeof submission.bandScore === 'number' ? submission.bandScore : null;
+
+  result.currentModule += 1;
+  if (result.currentModule >= result.modules.length) {
+    result.status = 'awaiting_grading';
+  }
+
+  await refreshOverall(result);
+  await result.save();
+  return result;
+}
+
+/**
+ * Pick up a (re)graded module band: called after AI grading and score overrides.
+ */
+async function recordModuleGrade(submission) {
+  try {
+    if (!submission || !submission.mockResult) return null;
+
+    const result = await MockResult.findById(submission.mockResult);
+    if (!result) return null;
+
+    const module = result.modules.find(m => m.submission && String(m.submission) === String(submission._id));
+    if (!module) return null;
+
+    module.bandScore = typeof submission.bandScore === 'number' ? submission.bandScore : null;
+    if (submission.status === 'graded' || submission.isOverridden) module.status = 'graded';
+
+    await refreshOverall(result);
+    await result.save();
+    return result;
+  } catch (err) {
+    console.error('[MockResult] Failed to record module grade:', err);
+    return null;
+  }
+}
+
+/**
+ * Set the overall band once every module is graded, and feed it into StudentStats.
+ * Also re-run when a module band is overridden after completion.
+ */
+async function refreshOverall(result) {
+  const done =
+    result.currentModule >= result.modules.length &&
+    result.modules.every(m => m.status === 'graded' && typeof m.bandScore === 'number');
+  if (!done) return;
+
+  result.overallBand = officialOverallBand(result.modules.map(m => m.bandScore));
+  if (result.status !== 'completed') {
+    result.status = 'completed';
+    result.completedAt = new Date();
+  }
+
+  const stats = await StudentStats.findOne({ student: result.student });
+  if (!stats) return;
+
+  // an older mock being regraded doesn't replace a newer one
+  if (
+    stats.lastMockResult &&
+    String(stats.lastMockResult) !== String(result._id) &&
+    stats.lastMockCompletedAt &&
+    stats.lastMockCompletedAt > result.completedAt
+  ) {
+    return;
+  }
+
+  stats.mockOverallBand = result.overallBand;
+  stats.lastMockResult = result._id;
+  stats.lastMockCompletedAt = result.completedAt;
+  await stats.save();
+}
+
+module.exports = {
+  MOCK_MODULE_ORDER,
+  officialOverallBand,
+  validateMockModules,
+  findLatestResult,
+  startMock,
+  startModule,
+  findResultForSubmission,
+  findResultForModule,
+  recordModuleSubmission,
+  recordModuleGrade,
+};
@@ -0,0 +1,87 @@
+// services/passwordResetService.js
+const crypto = require('crypto');
+const User = require('../models/User');
+const PasswordResetToken = require('../models/PasswordResetToken');
+const { sendMail } = require('./mailService');
+const { revokeUserSessions } = require('./tokenService');
+const { validatePassword } = require('../utils/passwordPolicy');
+
+const RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES || 60);
+
+const hashToken = (raw) => crypto.createHash('sha256').update(raw).digest('hex');
+
+function resetLink(raw) {
+  const origin = process.env.CLIENT_ORIGIN || 'http://localhost:3000';
+  return `${origin}/auth/reset-password?token=${raw}`;
+}
+
+/**
+ * Email `user` a fresh reset link, voiding any earlier unused ones.
+ */
+async function sendResetLink(user, requestedByIp) {
+  await PasswordResetToken.updateMany({ user: user._id, usedAt: null }, { usedAt: new Date() });
+
+  const raw = crypto.randomBytes(32).toString('hex');
+  await PasswordResetToken.create({
+    user: user._id,
+    tokenHash: hashToken(raw),
+    expiresAt: new Date(Date.now() + RESET_TTL_MINUTES * 60 * 1000),
+    requestedByIp,
+  });
+
+  const link = resetLink(raw);
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your CELTS password',
+    text:
+      `Hello ${user.name || ''},\n\n` +
+      `Use this link to choose a new password. It expires in ${RESET_TTL_MINUTES} minutes and works once:\n\n` +
+      `${link}\n\n` +
+      `If you didn't ask for this, you can ignore this email.`,
+  });
+}
+
+/**
+ * Forgot-password entry point. Unknown or deactivated emails are ignored
+ * silently so the response can't be used to probe for accounts.
+ */
+async function requestPasswordReset(email, requestedByIp) {
+  const trimmed = String(email || '').trim();
+  const user = await User.findOne({ email: { $in: [trimmed, trimmed.toLowerCase()] } });
+  if (!user || user.isActive === false) return;
+  await sendResetLink(user, requestedByIp);
+}
+
+/**
+ * Set a new password from a reset link. Signs the user out everywhere.
+ * Returns { error } or { user }.
+ */
+async function resetPassword(raw, newPassword) {
+  const token = await PasswordResetToken.findOne({
+    tokenHash: hashToken(String(raw || '')),
+    usedAt: null,
+    expiresAt: { $gt: new Date() },
+  });
+  if (!token) return { error: 'This reset link is invalid, already used or has expired' };
+
+  const user = await User.findById(token.user);
+  if (!user || user.deletedAt || user.isActive === false) return { error: 'This account is not active' };
+
+  const policyError = validatePassword(newPassword, user);
+  if (policyError) return { error: policyError };
+
+  const claimed = await PasswordResetToken.findOneAndUpdate(
+    { _id: token._id, usedAt: null },
+    { usedAt: new Date() }
+  );
+  if (!claimed) return { error: 'This reset link has already been used' };
+
+  user.password = newPassword;
+  user.mustChangePassword = false;
+  await user.save();
+  await revokeUserSessions(user._id, 'password_reset');
+
+  return { user };
+}
+
+module.exports = { sendResetLink, requestPasswordReset, resetPassword };
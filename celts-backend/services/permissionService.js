@@ -0,0 +1,189 @@
+// services/permissionService.js
+// Capability-based access control. A user's capabilities are those of their base
+// role (admin/faculty/student, editable in the permission matrix), plus any custom
+// roles they hold, plus per-user grants, minus per-user revocations.
+const mongoose = require('mongoose');
+const Role = require('../models/Role');
+
+const BASE_ROLES = ['admin', 'faculty', 'student'];
+const STAFF = ['admin', 'faculty'];
+
+// `roles` are the kinds of user a capability can ever apply to; `defaults` are the
+// base roles holding it until an admin edits the matrix.
+const CAPABILITIES = [
+  { key: 'tests.create', group: 'Tests', label: 'Create tests', description: 'Create, edit and delete their own tests and question bank items', roles: STAFF, defaults: ['faculty'] },
+  { key: 'tests.publish', group: 'Tests', label: 'Publish tests', description: 'Make a test visible to students', roles: STAFF, defaults: ['faculty'] },
+  { key: 'tests.review', group: 'Tests', label: 'Review tests', description: "Approve or send back other authors' test drafts before they are published", roles: STAFF, defaults: ['admin', 'faculty'] },
+  { key: 'bank.manage', group: 'Tests', label: 'Manage question bank', description: "Edit and delete other authors' question bank items", roles: STAFF, defaults: ['admin'] },
+  { key: 'tests.view_all', group: 'Tests', label: 'View all tests', description: 'Browse every test in the system, whoever created it', roles: STAFF, defaults: ['admin'] },
+  { key: 'scores.override', group: 'Scores', label: 'Override scores', description: 'Manually change writing and speaking band scores', roles: STAFF, defaults: ['admin'] },
+  { key: 'attempts.allow_retry', group: 'Scores', label: 'Allow retries', description: 'See test attempts and grant or revoke retries', roles: STAFF, defaults: ['admin'] },
+  { key: 'submissions.reprocess', group: 'Scores', label: 'Re-run grading', description: 'Queue a submission for grading again', roles: STAFF, defaults: ['admin', 'faculty'] },
+  { key: 'students.view', group: 'Students', label: 'View student results', description: 'See the batches, students and submissions assigned to them', roles: STAFF, defaults: ['faculty'] },
+  { key: 'proctor.view_logs', group: 'Students', label: 'View proctor logs', description: 'Read proctoring events recorded during tests', roles: STAFF, defaults: ['admin', 'faculty'] },
+  { key: 'data.export', group: 'Students', label: 'Export data', description: 'Download student results as CSV', roles: STAFF, defaults: ['admin', 'faculty'] },
+  { key: 'batches.manage', group: 'Administration', label: 'Manage batches', description: 'Create batches and assign faculty and students', roles: STAFF, defaults: ['admin'] },
+  { key: 'users.manage', group: 'Administration', label: 'Manage users', description: 'Create, edit, deactivate and delete accounts', roles: STAFF, defaults: ['admin'] },
+  { key: 'users.invite', group: 'Administration', label: 'Invite users', description: 'Send onboarding invitations', roles: STAFF, defaults: ['admin', 'faculty'] },
+  { key: 'band_tables.manage', group: 'Administration', label: 'Manage band tables', description: 'Edit raw-score to band conversion tables', roles: STAFF, defaults: ['admin'] },
+  { key: 'media.upload', group: 'Administration', label: 'Upload media', description: 'Upload audio and images for tests', roles: STAFF, defaults: ['admin', 'faculty'] },
+  { key: 'analytics.view', group: 'Administration', label: 'View analytics', description: 'See system-wide usage and score analytics', roles: STAFF, defaults: ['admin'] },
+  { key: 'audit.view', group: 'Administration', label: 'View audit log', description: 'Read the score override audit trail', roles: STAFF, defaults: ['admin'] },
+  { key: 'recycle_bin.manage', group: 'Administration', label: 'Manage recycle bin', description: 'Restore deleted users, batches and tests, or delete them permanently', roles: STAFF, defaults: ['admin'] },
+  { key: 'permissions.manage', group: 'Administration', label: 'Manage permissions', description: 'Edit this matrix, custom roles and per-user grants', roles: STAFF, defaults: ['admin'] },
+  { key: 'exams.take', group: 'Exams', label: 'Take tests', description: 'Attempt assigned tests and see their own results', roles: ['student'], defaults: ['student'] },
+];
+
+const CAPABILITY_BY_KEY = new Map(CAPABILITIES.map((c) => [c.key, c]));
+
+// admins always keep this, so no edit to the matrix can lock everyone out of it
+const ALWAYS_GRANTED = { admin: ['permissions.manage'] };
+
+const ROLE_CACHE_TTL_MS = 30 * 1000;
+let roleCache = null;
+
+async function loadRoles() {
+  if (roleCache && Date.now() - roleCache.loadedAt < ROLE_CACHE_TTL_MS) return roleCache;
+  const roles = await Role.find({}).lean();
+  roleCache = {
+    loadedAt: Date.now(),
+    byKey: new Map(roles.map((r) => [r.key, r])),
+    byId: new Map(roles.map((r) => [String(r._id), r])),
+  };
+  return roleCache;
+}
+
+// call after writing a Role so this process stops serving the old matrix
+function invalidateRoleCache() {
+  roleCache = null;
+}
+
+const isApplicable = (key, baseRole) => {
+  const cap = CAPABILITY_BY_KEY.get(key);
+  return !!cap && cap.roles.includes(baseRole);
+};
+
+const defaultCapabilities = (baseRole) =>
+  CAPABILITIES.filter((c) => c.defaults.includes(baseRole)).map((c) => c.key);
+
+function systemRoleCapabilities(roles, baseRole) {
+  const stored = roles.byKey.get(baseRole);
+  const caps = stored && stored.system ? stored.capabilities : defaultCapabilities(baseRole);
+  return [...caps, ...(ALWAYS_GRANTED[baseRole] || [])];
+}
+
+/**
+ * Effective capability keys for a user document (sorted). Custom roles for a
+ * different base role, and capabilities that don't apply to it, are ignored.
+ */
+async function resolveCapabilities(user) {
+  const roles = await loadRoles();
+  const caps = new Set(systemRoleCapabilities(roles, user.role));
+
+  for (const id of user.customRoles || []) {
+    const role = roles.byId.get(String(id));
+    if (role && !role.system && role.baseRole === user.role) {
+      role.capabilities.forEach((c) => caps.add(c));
+    }
+  }
+
+  const overrides = user.permissions || {};
+  (overrides.granted || []).forEach((c) => caps.add(c));
+  (overrides.revoked || []).forEach((c) => caps.delete(c));
+  (ALWAYS_GRANTED[user.role] || []).forEach((c) => caps.add(c));
+
+  return [...caps].filter((c) => isApplicable(c, user.role)).sort();
+}
+
+// what the client stores as celts_user: the profile plus its capabilities
+async function userWithCapabilities(user) {
+  return { ...user.toJSON(), capabilities: await resolveCapabilities(user) };
+}
+
+/**
+ * Validate a list of capability keys for a base role.
+ * Returns { capabilities } (deduplicated) or { error }.
+ */
+function checkCapabilityList(list, baseRole) {
+  if (list === undefined || list === null) return { capabilities: [] };
+  if (!Array.isArray(list)) return { error: 'Capabilities must be a list' };
+  const unique = [...new Set(list.map(String))];
+  const unknown = unique.filter((c) => !CAPABILITY_BY_KEY.has(c));
+  if (unknown.length) return { error: `Unknown capabilities: ${unknown.join(', ')}` };
+  const inapplicable = unique.filter((c) => !isApplicable(c, baseRole));
+  if (inapplicable.length) return { error: `Not available to ${baseRole} accounts: ${inapplicable.join(', ')}` };
+  return { capabilities: unique };
+}
+
+/**
+ * Validate a per-user { granted, revoked } override for a base role.
+ * Returns { permissions } or { error }.
+ */
+function checkUserOverrides(input, baseRole) {
+  const source = input || {};
+  const granted = checkCapabilityList(source.granted, baseRole);
+  if (granted.error) return { error: granted.error };
+  const revoked = checkCapabilityList(source.revoked, baseRole);
+  if (revoked.error) return { error: revoked.error };
+  if (granted.capabilities.some((c) => revoked.capabilities.includes(c))) {
+    return { error: 'A capability cannot be both granted and revoked' };
+  }
+  return { permissions: { granted: granted.capabilities, revoked: revoked.capabilities } };
+}
+
+/**
+ * Resolve custom role ids or keys for a user of `baseRole`.
+ * Returns { roleIds } or { error }.
+ */
+async function checkCustomRoles(list, baseRole) {
+  if (list === undefined || list === null) return { roleIds: [] };
+  if (!Array.isArray(list)) return { error: 'customRoles must be a list' };
+  const roles = await loadRoles();
+  const roleIds = [];
+  for (const ref of list) {
+    const role = mongoose.Types.ObjectId.isValid(ref) && roles.byId.get(String(ref))
+      ? roles.byId.get(String(ref))
+      : roles.byKey.get(String(ref).toLowerCase());
+    if (!role || role.system) return { error: `Unknown role: ${ref}` };
+    if (role.baseRole !== baseRole) return { error: `Role "${role.name}" is only for ${role.baseRole} accounts` };
+    if (!roleIds.some((id) => String(id) === String(role._id))) roleIds.push(role._id);
+  }
+  return { roleIds };
+}
+
+// the three system roles (stored or default) followed by custom roles
+async function listRoles() {
+  const roles = await loadRoles();
+  const system = BASE_ROLES.map((baseRole) => {
+    const stored = roles.byKey.get(baseRole);
+    return {
+      _id: stored ? stored._id : null,
+      key: baseRole,
+      name: stored ? stored.name : baseRole.charAt(0).toUpperCase() + baseRole.slice(1),
+      description: stored ? stored.description : '',
+      baseRole,
+      system: true,
+      capabilities: [...new Set(systemRoleCapabilities(roles, baseRole))].sort(),
+      updatedAt: stored ? stored.updatedAt : null,
+    };
+  });
+  const custom = [...roles.byKey.values()]
+    .filter((r) => !r.system)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return [...system, ...custom];
+}
+
+module.exports = {
+  BASE_ROLES,
+  CAPABILITIES,
+  ALWAYS_GRANTED,
+  isApplicable,
+  defaultCapabilities,
+  resolveCapabilities,
+  userWithCapabilities,
+  checkCapabilityList,
+  checkUserOverrides,
+  checkCustomRoles,
+  listRoles,
+  invalidateRoleCache,
+};
@@ -0,0 +1,745 @@
+// services/qti/index.js
+// IMS QTI 2.1 content packages: a zip with an imsmanifest.xml, one
+// assessmentItem file per question and, for a test, an assessmentTest whose
+// sections carry the reading passages and listening audio as rubric blocks
+// (QTI 2.1 has no shared stimulus). Imports come back with a per-item report
+// of anything that could not be mapped.
+const fs = require('fs');
+const path = require('path');
+const JSZip = require('jszip');
+const { QTI_NS, esc, blocks, parseXml, nameOf, children, child, descendants, attr, plainText } = require('./xml');
+const { questionToItem, itemToQuestion, titleOf } = require('./items');
+const { localMediaPath, isAllowedMediaType } = require('../mediaStorage');
+const { AUTO_GRADED_TYPES, QUESTION_TYPES_FOR_TEST } = require('../../utils/answerMatching');
+
+const TEST_RESOURCE = 'imsqti_test_xmlv2p1';
+const ITEM_RESOURCE = 'imsqti_item_xmlv2p1';
+
+const MIME_TYPES = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.ogg': 'audio/ogg',
+  '.oga': 'audio/ogg',
+  '.webm': 'audio/webm',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.webp': 'image/webp',
+};
+const mimeOf = (file) => MIME_TYPES[path.extname(String(file)).toLowerCase()] || 'application/octet-stream';
+
+// no file in a package is read past this, whatever size the zip declares; the
+// same as the limit on a media upload
+const MAX_ENTRY_BYTES = 20 * 1024 * 1024;
+
+const DIFFICULTY_TO_LOM = { easy: 'easy', medium: 'medium', hard: 'difficult' };
+const LOM_TO_DIFFICULTY = { 'very easy': 'easy', easy: 'easy', medium: 'medium', difficult: 'hard', 'very difficult': 'hard' };
+
+const seconds = (minutes) => Math.round(Number(minutes || 0) * 60);
+const timeLimits = (secs) => (secs > 0 ? `<timeLimits maxTime="${secs}"/>` : '');
+
+// ---------- export ----------
+
+function lomXml({ description, keywords = [], difficulty }) {
+  const general = [
+    description ? `<imsmd:description><imsmd:string>${esc(description)}</imsmd:string></imsmd:description>` : '',
+    ...keywords.map((k) => `<imsmd:keyword><imsmd:string>${esc(k)}</imsmd:string></imsmd:keyword>`),
+  ].join('');
+  const educational = difficulty
+    ? `<imsmd:educational><imsmd:difficulty><imsmd:source>LOMv1.0</imsmd:source><imsmd:value>${esc(difficulty)}</imsmd:value></imsmd:difficulty></imsmd:educational>`
+    : '';
+  if (!general && !educational) return '';
+  return `<metadata><imsmd:lom>${general ? `<imsmd:general>${general}</imsmd:general>` : ''}${educational}</imsmd:lom></metadata>`;
+}
+
+function manifestXml(identifier, resources) {
+  const resourceXml = resources.map(
+    (r) =>
+      `  <resource identifier="${esc(r.identifier)}" type="${r.type}" href="${esc(r.href)}">` +
+      (r.metadata || '') +
+      `<file href="${esc(r.href)}"/>` +
+      (r.dependencies || []).map((d) => `<dependency identifierref="${esc(d)}"/>`).join('') +
+      '</resource>'
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:imsmd="http://ltsc.ieee.org/xsd/LOM"`,
+    '  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+    '  xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd"',
+    `  identifier="${esc(identifier)}">`,
+    '<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>',
+    '<organizations/>',
+    '<resources>',
+    ...resourceXml,
+    '</resources>',
+    '</manifest>',
+    '',
+  ].join('\n');
+}
+
+// Copies media this server hosts into the package; anything else stays an absolute URL
+function mediaCollector(zip) {
+  const hrefByUrl = new Map();
+  const resources = [];
+  return {
+    resources,
+    add(url) {
+      if (!url) return '';
+      if (hrefByUrl.has(url)) return hrefByUrl.get(url).href;
+      const file = localMediaPath(url);
+      const entry = { href: url, identifier: null };
+      if (file) {
+        entry.href = `media/${resources.length + 1}-${path.basename(file)}`;
+        entry.identifier = `MEDIA-${resources.length + 1}`;
+        zip.file(entry.href, fs.readFileSync(file));
+        resources.push({ identifier: entry.identifier, type: 'webcontent', href: entry.href });
+      }
+      hrefByUrl.set(url, entry);
+      return entry.href;
+    },
+    identifierOf(url) {
+      return hrefByUrl.has(url) ? hrefByUrl.get(url).identifier : null;
+    },
+  };
+}
+
+// reading passages / listening audio as sections; old single-passage tests become one section
+function exportSections(type, content) {
+  if (type === 'reading') {
+    if (content.readingSections && content.readingSections.length) return { sections: content.readingSections, legacy: false };
+    return { sections: content.passage ? [{ id: 'passage', title: '', passage: content.passage }] : [], legacy: true };
+  }
+  if (type === 'listening') {
+    if (content.listeningSections && content.listeningSections.length) return { sections: content.listeningSections, legacy: false };
+    const legacy = content.audioUrl ? [{ id: 'audio', title: '', audioUrl: content.audioUrl, listenLimit: content.listenLimit }] : [];
+    return { sections: legacy, legacy: true };
+  }
+  return { sections: [], legacy: false };
+}
+
+function rubricXml(section, media) {
+  if (section.passage) {
+    return `<rubricBlock view="candidate"><div class="celts-passage">${blocks(section.passage)}</div></rubricBlock>`;
+  }
+  if (section.audioUrl) {
+    const href = media.add(section.audioUrl);
+    return (
+      `<rubricBlock view="candidate"><div class="celts-audio celts-listenLimit-${section.listenLimit || 1}">` +
+      `<object data="${esc(href)}" type="${mimeOf(href)}">${esc(section.title || 'Audio')}</object></div></rubricBlock>`
+    );
+  }
+  return '';
+}
+
+/**
+ * A zip Buffer holding `content` (the test's content or one of its versions)
+ * as a QTI 2.1 package. Mock tests have no content of their own; export their modules.
+ */
+async function exportTest(test, content) {
+  const zip = new JSZip();
+  const media = mediaCollector(zip);
+  const { sections, legacy } = exportSections(test.type, content);
+  const questions = content.questions || [];
+
+  const items = questions.map((q, i) => {
+    const identifier = `ITEM-${q._id || i + 1}`;
+    const href = `items/${identifier}.xml`;
+    const imageHref = q.questionType === 'map_labelling' ? media.add(q.imageUrl) : undefined;
+    zip.file(href, questionToItem(q, { identifier, imageHref }));
+    return { question: q, identifier, href, imageUrl: imageHref ? q.imageUrl : null };
+  });
+
+  // questions follow their section; any without one go in a trailing plain section
+  const homeOf = (q) => sections.find((s) => s.id === q.sectionId) || (legacy ? sections[0] : null);
+  const groups = sections.map((s) => ({ section: s, items: items.filter((it) => homeOf(it.question) === s) }));
+  const loose = items.filter((it) => !homeOf(it.question));
+  if (loose.length) groups.push({ section: { title: sections.length ? 'More questions' : content.title }, items: loose });
+
+  const sectionXml = groups.map(({ section, items: sectionItems }, i) =>
+    [
+      `<assessmentSection identifier="SECTION-${i + 1}" title="${esc(section.title || `Section ${i + 1}`)}" visible="true">`,
+      timeLimits(seconds(section.timeLimitMinutes)),
+      content.shuffleQuestions ? '<ordering shuffle="true"/>' : '',
+      rubricXml(section, media),
+      ...sectionItems.map(
+        (it) =>
+          `<assessmentItemRef identifier="${it.identifier}" href="${it.href}">` +
+          `${timeLimits(Number(it.question.timeLimitSeconds) || 0)}</assessmentItemRef>`
+      ),
+      '</assessmentSection>',
+    ]
+      .filter(Boolean)
+      .join('\n')
+  );
+
+  zip.file(
+    'test.xml',
+    [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<assessmentTest xmlns="${QTI_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`,
+      `  xsi:schemaLocation="${QTI_NS} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"`,
+      `  identifier="TEST-${test._id}" title="${esc(content.title)}" toolName="CELTS" toolVersion="1.0">`,
+      timeLimits(seconds(content.timeLimitMinutes)),
+      '<testPart identifier="PART-1" navigationMode="nonlinear" submissionMode="simultaneous">',
+      ...sectionXml,
+      '</testPart>',
+      '</assessmentTest>',
+      '',
+    ]
+      .filter(Boolean)
+      .join('\n')
+  );
+
+  const sectionMedia = sections.map((s) => media.identifierOf(s.audioUrl)).filter(Boolean);
+  zip.file(
+    'imsmanifest.xml',
+    manifestXml(`MANIFEST-${test._id}`, [
+      {
+        identifier: `TEST-${test._id}`,
+        type: TEST_RESOURCE,
+        href: 'test.xml',
+        metadata: lomXml({ description: content.description, keywords: [`type:${test.type}`] }),
+        dependencies: [...items.map((it) => it.identifier), ...sectionMedia],
+      },
+      ...items.map((it) => ({
+        identifier: it.identifier,
+        type: ITEM_RESOURCE,
+        href: it.href,
+        dependencies: [media.identifierOf(it.imageUrl)].filter(Boolean),
+      })),
+      ...media.resources,
+    ])
+  );
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+// Bank questions as a package of items; skill, CEFR level and tags ride as LOM keywords
+async function exportBank(bankQuestions) {
+  const zip = new JSZip();
+  const resources = bankQuestions.map((q) => {
+    const identifier = `ITEM-${q._id}`;
+    const href = `items/${identifier}.xml`;
+    // the bank links images rather than storing them, so they stay URLs here too
+    const imageHref = q.questionType === 'map_labelling' ? q.imageUrl : undefined;
+    zip.file(href, questionToItem(q, { identifier, imageHref }));
+    return {
+      identifier,
+      type: ITEM_RESOURCE,
+      href,
+      metadata: lomXml({
+        keywords: [`skill:${q.skill}`, ...(q.cefrLevel ? [`cefr:${q.cefrLevel}`] : []), ...(q.tags || [])],
+        difficulty: DIFFICULTY_TO_LOM[q.difficulty],
+      }),
+    };
+  });
+  zip.file('imsmanifest.xml', manifestXml(`MANIFEST-BANK-${Date.now()}`, resources));
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+// ---------- import ----------
+
+// LOM keywords / description / difficulty of a manifest resource
+function readLom(resource) {
+  const text = (el) => (el ? plainText(child(el, 'string') || el) : '');
+  const general = resource ? descendants(resource, 'general')[0] : null;
+  const difficulty = resource ? descendants(resource, 'difficulty')[0] : null;
+  return {
+    description: general ? text(child(general, 'description')) : '',
+    keywords: general ? children(general, 'keyword').map(text).filter(Boolean) : [],
+    difficulty: difficulty ? text(child(difficulty, 'value')).toLowerCase() : '',
+  };
+}
+
+const maxTime = (el) => Number(attr(el, 'maxTime')) || 0;
+
+class Package {
+  constructor(zip) {
+    this.zip = zip;
+    this.lowerCaseNames = new Map(Object.keys(zip.files).map((name) => [name.toLowerCase(), name]));
+  }
+
+  // package path of `href` relative to the file `from`; null for absolute URLs
+  resolve(from, href) {
+    if (!href || /^([a-z][a-z0-9+.-]*:|\/\/)/i.test(href)) return null;
+    let clean = href.split('#')[0].split('?')[0];
+    try {
+      clean = decodeURIComponent(clean);
+    } catch (e) {
+      // keep it as written
+    }
+    const joined = path.posix.normalize(path.posix.join(path.posix.dirname(from), clean));
+    return joined.startsWith('..') ? null : joined.replace(/^\.\//, '');
+  }
+
+  has(file) {
+    return !!file && (!!this.zip.file(file) || this.lowerCaseNames.has(file.toLowerCase()));
+  }
+
+  entry(file) {
+    return this.zip.file(file) || this.zip.file(this.lowerCaseNames.get(file.toLowerCase()) || '');
+  }
+
+  async xml(file) {
+    if (!this.has(file)) return { error: `${file} is not in the package` };
+    const read = await this.read(file);
+    if (read.error) return read;
+    const parsed = parseXml(read.buffer.toString('utf8'));
+    return parsed.error ? { error: `${file}: ${parsed.error}` } : parsed;
+  }
+
+  // the decompressed file, or { error } once it grows past MAX_ENTRY_BYTES;
+  // `keep: false` only checks the size
+  read(file, { keep = true } = {}) {
+    return new Promise((resolve) => {
+      const stream = this.entry(file).nodeStream('nodebuffer');
+      const chunks = [];
+      let size = 0;
+      stream.on('data', (chunk) => {
+        size += chunk.length;
+        if (size > MAX_ENTRY_BYTES) {
+          stream.destroy();
+          resolve({ error: `${file} is larger than ${MAX_ENTRY_BYTES / (1024 * 1024)} MB` });
+        } else if (keep) {
+          chunks.push(chunk);
+        }
+      });
+      stream.on('end', () => resolve({ buffer: Buffer.concat(chunks) }));
+      stream.on('error', () => resolve({ error: `${file} could not be read from the package` }));
+    });
+  }
+}
+
+function readRubric(sectionEl, pkg, from) {
+  const rubrics = children(sectionEl, 'rubricBlock');
+  const passage = rubrics
+    .map((r) => plainText(r, (el) => (['object', 'img'].includes(nameOf(el)) ? '' : undefined)))
+    .filter(Boolean)
+    .join('\n\n');
+  const audio = rubrics
+    .flatMap((r) => descendants(r, 'object'))
+    .map((o) => ({ href: attr(o, 'data'), type: attr(o, 'type') }))
+    .filter((o) => o.href && (o.type.startsWith('audio/') || (!o.type && mimeOf(o.href).startsWith('audio/'))));
+  const limitToken = rubrics
+    .flatMap((r) => descendants(r, 'div'))
+    .map((d) => /celts-listenLimit-(\d+)/.exec(attr(d, 'class')))
+    .find(Boolean);
+  return {
+    passage,
+    audio: audio.map((a) => ({ path: pkg.resolve(from, a.href), url: a.href })),
+    listenLimit: limitToken ? Number(limitToken[1]) : 1,
+  };
+}
+
+/**
+ * Walk the assessmentTest: sections with a rubric become CELTS sections, nested
+ * sections without one belong to the nearest that has one.
+ */
+function readTestStructure(doc, pkg, from, messages) {
+  const test = doc.documentElement;
+  const out = { title: attr(test, 'title'), timeLimitSeconds: maxTime(child(test, 'timeLimits')), shuffle: false, sections: [], refs: [] };
+
+  const visit = (sectionEl, inherited) => {
+    const rubric = readRubric(sectionEl, pkg, from);
+    let current = inherited;
+    if (rubric.passage || rubric.audio.length) {
+      current = {
+        title: attr(sectionEl, 'title'),
+        passage: rubric.passage,
+        audio: rubric.audio[0] || null,
+        listenLimit: rubric.listenLimit,
+        timeLimitSeconds: maxTime(child(sectionEl, 'timeLimits')),
+      };
+      if (rubric.audio.length > 1) messages.push({ level: 'warning', message: `Section "${current.title}" has several audio files; only the first is used` });
+      out.sections.push(current);
+    }
+    if (attr(child(sectionEl, 'ordering'), 'shuffle') === 'true') out.shuffle = true;
+    if (child(sectionEl, 'selection')) {
+      messages.push({ level: 'warning', message: `Section "${attr(sectionEl, 'title')}" picks a random selection of its items; all of them are imported` });
+    }
+    for (const c of children(sectionEl)) {
+      if (nameOf(c) === 'assessmentSection') visit(c, current);
+      if (nameOf(c) === 'assessmentItemRef') {
+        out.refs.push({
+          identifier: attr(c, 'identifier'),
+          path: pkg.resolve(from, attr(c, 'href')),
+          section: current,
+          timeLimitSeconds: maxTime(child(c, 'timeLimits')),
+        });
+      }
+    }
+  };
+
+  for (const part of children(test, 'testPart')) {
+    out.timeLimitSeconds = out.timeLimitSeconds || maxTime(child(part, 'timeLimits'));
+    for (const section of children(part, 'assessmentSection')) visit(section, null);
+  }
+  return out;
+}
+
+/**
+ * Open a package and read its test structure (if any) and items.
+ * Returns { error } or { pkg, test, items, messages }; each item has
+ * { identifier, path, section, timeLimitSeconds, lom, question, media, messages }.
+ */
+async function readPackage(buffer) {
+  let zip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch (e) {
+    return { error: 'The file is not a zip package' };
+  }
+  const pkg = new Package(zip);
+  const messages = [];
+
+  let testRefs = [];
+  let itemRefs = [];
+  if (pkg.has('imsmanifest.xml')) {
+    const manifest = await pkg.xml('imsmanifest.xml');
+    if (manifest.error) return { error: manifest.error };
+    const resources = children(child(manifest.doc.documentElement, 'resources'), 'resource').map((r) => ({
+      identifier: attr(r, 'identifier'),
+      type: attr(r, 'type'),
+      path: pkg.resolve('imsmanifest.xml', attr(r, 'href')),
+      lom: readLom(r),
+    }));
+    testRefs = resources.filter((r) => r.type.startsWith('imsqti_test_xmlv2p'));
+    itemRefs = resources.filter((r) => r.type.startsWith('imsqti_item_xmlv2p'));
+    if (resources.some((r) => /^imsqti_(item|test)_xmlv[13]/.test(r.type) || r.type === 'imsqti_xmlv1p2')) {
+      messages.push({ level: 'warning', message: 'Resources in QTI versions other than 2.x were left out' });
+    }
+  } else {
+    // not a content package strictly speaking, but the XML files may still be QTI
+    messages.push({ level: 'warning', message: 'No imsmanifest.xml; reading the QTI files found in the zip' });
+    for (const name of Object.keys(zip.files).filter((n) => n.toLowerCase().endsWith('.xml')).sort()) {
+      const parsed = await pkg.xml(name);
+      if (parsed.error) {
+        messages.push({ level: 'warning', message: `${parsed.error}; skipped` });
+        continue;
+      }
+      const root = nameOf(parsed.doc.documentElement);
+      if (root === 'assessmentTest') testRefs.push({ identifier: name, path: name, lom: readLom(null) });
+      if (root === 'assessmentItem') itemRefs.push({ identifier: name, path: name, lom: readLom(null) });
+    }
+  }
+
+  let test = null;
+  if (testRefs.length > 1) messages.push({ level: 'warning', message: `The package has ${testRefs.length} tests; only the first is imported` });
+  if (testRefs.length) {
+    const parsed = await pkg.xml(testRefs[0].path);
+    if (parsed.error) return { error: parsed.error };
+    test = { ...readTestStructure(parsed.doc, pkg, testRefs[0].path, messages), lom: testRefs[0].lom };
+  }
+
+  // a test decides which items are used and in what order; otherwise every item resource is
+  const lomByPath = new Map(itemRefs.map((r) => [r.path, r.lom]));
+  const refs = test
+    ? test.refs
+    : itemRefs.map((r) => ({ identifier: r.identifier, path: r.path, section: null, timeLimitSeconds: 0 }));
+
+  const items = [];
+  for (const ref of refs) {
+    const entry = { ...ref, lom: lomByPath.get(ref.path) || readLom(null), question: null, media: { images: [], audio: [] } };
+    const parsed = ref.path ? await pkg.xml(ref.path) : { error: 'has no file' };
+    if (parsed.error) {
+      entry.messages = [{ level: 'error', message: parsed.error }];
+    } else {
+      const mapped = itemToQuestion(parsed.doc);
+      entry.title = attr(parsed.doc.documentElement, 'title');
+      entry.question = mapped.question;
+      entry.messages = mapped.messages;
+      const toMedia = (href) => ({ path: pkg.resolve(ref.path, href), url: href });
+      entry.media = { images: mapped.media.images.map(toMedia), audio: mapped.media.audio.map(toMedia) };
+    }
+    items.push(entry);
+  }
+
+  if (items.length === 0) messages.push({ level: 'error', message: 'The package has no QTI items' });
+  return { pkg, test, items, messages };
+}
+
+// A media reference as the draft will hold it: package files are stored on import
+// (see storePackageMedia below), absolute URLs are kept as they are. Returns
+// { url } or { error }; only the audio and image types a media upload takes are
+// imported.
+async function mediaRef(pkg, media, files) {
+  if (!media.path) return { url: media.url };
+  if (!pkg.has(media.path)) return { error: `${media.url} is not in the package` };
+  if (!isAllowedMediaType(mimeOf(media.path))) return { error: `${media.url} is not a supported audio or image file` };
+  if (!files.has(media.path)) {
+    const read = await pkg.read(media.path, { keep: false });
+    if (read.error) return { error: read.error };
+    files.add(media.path);
+  }
+  return { url: `qti-media:${media.path}` };
+}
+
+function reportItem(entry, extra = {}) {
+  const messages = entry.messages || [];
+  const status = messages.some((m) => m.level === 'error') ? 'error' : messages.some((m) => m.level === 'warning') ? 'warning' : 'ok';
+  return {
+    identifier: entry.identifier,
+    title: entry.title || (entry.question ? titleOf(entry.question.prompt) : ''),
+    file: entry.path,
+    questionType: entry.question ? entry.question.questionType : null,
+    status,
+    messages,
+    ...extra,
+  };
+}
+
+function summarize(items) {
+  const summary = { total: items.length, ok: 0, warning: 0, error: 0 };
+  for (const item of items) summary[item.status] += 1;
+  return summary;
+}
+
+function inferTestType(read) {
+  const { items } = read;
+  const types = items.filter((i) => i.question).map((i) => i.question.questionType);
+  const counts = {
+    auto: types.filter((t) => QUESTION_TYPES_FOR_TEST.reading.includes(t)).length,
+    writing: types.filter((t) => t === 'writing').length,
+    speaking: types.filter((t) => t === 'speaking').length,
+  };
+  const top = Object.keys(counts).sort((a, b) => counts[b] - counts[a])[0];
+  if (top !== 'auto') return top;
+  const hasAudio = (read.test && read.test.sections.some((s) => s.audio)) || items.some((i) => i.media.audio.length);
+  return hasAudio ? 'listening' : 'reading';
+}
+
+/**
+ * Plan a draft test from a package. `type` and `title` override what the
+ * package says. Returns { error } or { report, test, files } where `test` is the
+ * TestSet payload (package media as qti-media: placeholders) and `files` the
+ * package paths to store before it is saved.
+ */
+async function planTestImport(buffer, { type, title, fallbackTitle } = {}) {
+  const read = await readPackage(buffer);
+  if (read.error) return { error: read.error };
+  const { pkg, test: structure, items } = read;
+  const messages = [...read.messages];
+  const files = new Set();
+
+  // CELTS packages name their test type; anything else is worked out from the items
+  const namedType = structure && (structure.lom.keywords.find((k) => k.startsWith('type:')) || '').slice('type:'.length);
+  const testType = type || (QUESTION_TYPES_FOR_TEST[namedType] ? namedType : inferTestType(read));
+  const fits = QUESTION_TYPES_FOR_TEST[testType];
+  const sectionIds = new Map();
+  const readingSections = [];
+  const listeningSections = [];
+
+  // reading passages and listening audio, in package order; audio that cannot be
+  // imported is reported through `fail` (the item's own audio) or for the test
+  const testError = (message) => messages.push({ level: 'error', message: message[0].toUpperCase() + message.slice(1) });
+  const audioErrors = new Map();
+  const sectionFor = async (source, key, fail = testError) => {
+    if (sectionIds.has(key)) {
+      // every item sharing audio that failed is reported, the test only once
+      if (audioErrors.has(key) && fail !== testError) fail(audioErrors.get(key));
+      return sectionIds.get(key);
+    }
+    let id = null;
+    if (testType === 'reading' && source.passage) {
+      id = `read-${readingSections.length + 1}`;
+      readingSections.push({
+        id,
+        title: source.title || `Passage ${readingSections.length + 1}`,
+        passage: source.passage,
+        timeLimitMinutes: Math.ceil((source.timeLimitSeconds || 0) / 60),
+      });
+    }
+    if (testType === 'listening' && source.audio) {
+      const audio = await mediaRef(pkg, source.audio, files);
+      if (audio.url) {
+        id = `listen-${listeningSections.length + 1}`;
+        listeningSections.push({
+          id,
+          title: source.title || `Audio ${listeningSections.length + 1}`,
+          audioUrl: audio.url,
+          listenLimit: source.listenLimit || 1,
+          timeLimitMinutes: Math.ceil((source.timeLimitSeconds || 0) / 60),
+        });
+      } else {
+        audioErrors.set(key, `audio ${audio.error}`);
+        fail(audioErrors.get(key));
+      }
+    }
+    sectionIds.set(key, id);
+    return id;
+  };
+  if (structure) {
+    for (const section of structure.sections) {
+      await sectionFor(section, section);
+      if (testType === 'listening' && section.passage) {
+        messages.push({ level: 'warning', message: `The text of section "${section.title}" was left out; listening sections hold audio only` });
+      }
+    }
+  }
+
+  const questions = [];
+  const reportItems = [];
+  let lastSectionId = null;
+  for (const entry of items) {
+    const q = entry.question;
+    const warn = (message) => entry.messages.push({ level: 'warning', message });
+    const fail = (message) => entry.messages.push({ level: 'error', message });
+
+    let sectionId = null;
+    if (q && !fits.includes(q.questionType)) fail(`${q.questionType} questions do not belong in a ${testType} test`);
+    if (q && !entry.messages.some((m) => m.level === 'error')) {
+      // listening items often carry their own audio; it becomes a section of its own
+      sectionId = entry.section ? await sectionFor(entry.section, entry.section) : null;
+      const ownAudio = entry.media.audio[0];
+      if (testType === 'listening' && ownAudio && !sectionId) {
+        sectionId = await sectionFor({ title: entry.title, audio: ownAudio }, `audio:${ownAudio.path || ownAudio.url}`, fail);
+      } else if (ownAudio) {
+        warn('its audio was left out; audio belongs to a listening section');
+      }
+
+      const sections = testType === 'reading' ? readingSections : listeningSections;
+      const failed = entry.messages.some((m) => m.level === 'error');
+      if (!failed && !sectionId && sections.length && (testType === 'reading' || testType === 'listening')) {
+        sectionId = lastSectionId || sections[0].id;
+        const home = sections.find((s) => s.id === sectionId);
+        warn(`is not under a ${testType === 'reading' ? 'passage' : 'recording'}; added to "${home.title}"`);
+      }
+      lastSectionId = sectionId || lastSectionId;
+
+      if (q.questionType === 'map_labelling') {
+        const image = entry.media.images[0];
+        const imageRef = image ? await mediaRef(pkg, image, files) : { error: null };
+        if (imageRef.url) q.imageUrl = imageRef.url;
+        else fail(image ? `image ${imageRef.error}` : 'has no map or diagram image');
+      } else if (entry.media.images.length) {
+        warn('its images were left out; only map labelling questions show an image');
+      }
+
+      if (entry.timeLimitSeconds) {
+        if (q.questionType === 'speaking') q.timeLimitSeconds = entry.timeLimitSeconds;
+        else warn('its time limit was left out; only speaking prompts are timed one by one');
+      }
+
+      if (!entry.messages.some((m) => m.level === 'error')) {
+        questions.push({ ...q, sectionId: sectionId || null });
+      }
+    }
+    const home = [...readingSections, ...listeningSections].find((s) => s.id === sectionId);
+    reportItems.push(reportItem(entry, { section: home ? home.title : null }));
+  }
+
+  if (testType === 'reading' && readingSections.length === 0) {
+    messages.push({ level: 'error', message: 'No reading passage found; CELTS reads passages from the rubric blocks of the test\'s sections. Items without one can go to the question bank instead' });
+  }
+  if (testType === 'listening' && listeningSections.length === 0) {
+    messages.push({ level: 'error', message: 'No audio found for the listening test' });
+  }
+  if (questions.length === 0 && items.length > 0) {
+    messages.push({ level: 'error', message: 'None of the items could be imported' });
+  }
+
+  const testTitle = title || (structure && structure.title) || fallbackTitle || 'Imported test';
+  return {
+    report: {
+      title: testTitle,
+      type: testType,
+      typeInferred: !type,
+      sections: [...readingSections, ...listeningSections].map((s) => ({
+        title: s.title,
+        questions: questions.filter((q) => q.sectionId === s.id).length,
+      })),
+      messages,
+      items: reportItems,
+      summary: summarize(reportItems),
+    },
+    test: {
+      title: testTitle,
+      description: structure ? structure.lom.description : '',
+      type: testType,
+      readingSections,
+      listeningSections,
+      questions,
+      timeLimitMinutes: structure ? Math.ceil(structure.timeLimitSeconds / 60) : 0,
+      shuffleQuestions: !!(structure && structure.shuffle),
+    },
+    files: [...files],
+    pkg,
+  };
+}
+
+/**
+ * Store the package media a planned test uses and swap the placeholders for
+ * their URLs. `store(buffer, fileName, mimeType, folder)` resolves to a URL.
+ */
+async function storePackageMedia(plan, store) {
+  const urls = new Map();
+  for (const file of plan.files) {
+    const read = await plan.pkg.read(file);
+    if (read.error) throw new Error(read.error);
+    const { buffer } = read;
+    const mimeType = mimeOf(file);
+    urls.set(`qti-media:${file}`, await store(buffer, path.posix.basename(file), mimeType, mimeType.startsWith('image/') ? 'images' : 'audio'));
+  }
+  const swap = (value) => (urls.has(value) ? urls.get(value) : value);
+  for (const section of plan.test.listeningSections) section.audioUrl = swap(section.audioUrl);
+  for (const question of plan.test.questions) if (question.imageUrl) question.imageUrl = swap(question.imageUrl);
+  return plan.test;
+}
+
+/**
+ * Plan bank questions from a package. `skill` is used for reading/listening
+ * items the package does not say the skill of; `validate(question)` returns an
+ * error message or null. A map labelling item keeps its image only when it is
+ * linked by URL, as the bank stores no package media.
+ * Returns { error } or { report, questions }.
+ */
+async function planBankImport(buffer, { skill, validate }) {
+  const read = await readPackage(buffer);
+  if (read.error) return { error: read.error };
+  const messages = [...read.messages];
+  if (read.test) messages.push({ level: 'warning', message: 'Passages and audio of the package\'s test are not kept in the bank' });
+
+  const questions = [];
+  const reportItems = read.items.map((entry) => {
+    const q = entry.question;
+    let bankQuestion = null;
+    const warn = (message) => entry.messages.push({ level: 'warning', message });
+    const fail = (message) => entry.messages.push({ level: 'error', message });
+    if (q) {
+      const image = q.questionType === 'map_labelling' ? entry.media.images[0] : null;
+      if (image && !image.path) q.imageUrl = image.url;
+      else if (image) fail(`its image ${image.url} is in the package; the bank only keeps images linked by URL`);
+      const leftOut = entry.media.images.length - (image ? 1 : 0) + entry.media.audio.length;
+      if (leftOut > 0) warn('its images and audio were left out');
+    }
+    if (q && !entry.messages.some((m) => m.level === 'error')) {
+      const keywords = entry.lom.keywords;
+      const tagged = (prefix) => (keywords.find((k) => k.startsWith(prefix)) || '').slice(prefix.length) || null;
+      bankQuestion = {
+        ...q,
+        skill: tagged('skill:') || (AUTO_GRADED_TYPES.includes(q.questionType) ? skill : q.questionType),
+        cefrLevel: tagged('cefr:'),
+        difficulty: LOM_TO_DIFFICULTY[entry.lom.difficulty] || 'medium',
+        tags: keywords.filter((k) => !/^(skill|cefr|type):/.test(k)),
+      };
+      const error = validate(bankQuestion);
+      if (error) fail(error);
+      else questions.push(bankQuestion);
+    }
+    return reportItem(entry, { skill: bankQuestion ? bankQuestion.skill : null });
+  });
+
+  return { report: { messages, items: reportItems, summary: summarize(reportItems) }, questions };
+}
+
+module.exports = {
+  exportTest,
+  exportBank,
+  planTestImport,
+  storePackageMedia,
+  planBankImport,
+};
@@ -0,0 +1,340 @@
+// services/qti/items.js
+// One CELTS question <-> one QTI 2.1 assessmentItem.
+//
+//   mcq, tfng, matching_headings, map_labelling -> choiceInteraction, one choice
+//   multi_select                                -> choiceInteraction, maxChoices = selectCount
+//   gap_fill, sentence_completion               -> textEntryInteraction, accepted answers as a mapping
+//   writing                                     -> extendedTextInteraction
+//   speaking                                    -> uploadInteraction (audio/* or video/*)
+//
+// Settings QTI has no place for (word limits, tolerance, speaking mode, ...) travel
+// as class tokens on the interaction, e.g. class="celts-gap_fill celts-wordLimit-2",
+// which other tools ignore and a CELTS import reads back.
+const { QTI_NS, esc, inline, blocks, nameOf, children, child, descendants, attr, plainText } = require('./xml');
+const { SINGLE_CHOICE_TYPES, TEXT_ANSWER_TYPES } = require('../../utils/answerMatching');
+
+const QUESTION_TYPES = [...SINGLE_CHOICE_TYPES, 'multi_select', ...TEXT_ANSWER_TYPES, 'writing', 'speaking'];
+
+const NUMBER_SETTINGS = ['wordLimit', 'charLimit', 'spellingTolerance', 'recordLimitSeconds', 'playAllowed'];
+const TEXT_SETTINGS = ['writingType', 'speakingMode'];
+
+// every QTI 2.1 interaction that takes a response; the first four map to CELTS questions
+const SUPPORTED_INTERACTIONS = ['choiceInteraction', 'textEntryInteraction', 'extendedTextInteraction', 'uploadInteraction'];
+const ANSWER_INTERACTIONS = [
+  ...SUPPORTED_INTERACTIONS,
+  'orderInteraction',
+  'associateInteraction',
+  'matchInteraction',
+  'gapMatchInteraction',
+  'inlineChoiceInteraction',
+  'hottextInteraction',
+  'hotspotInteraction',
+  'selectPointInteraction',
+  'graphicOrderInteraction',
+  'graphicAssociateInteraction',
+  'graphicGapMatchInteraction',
+  'positionObjectInteraction',
+  'sliderInteraction',
+  'drawingInteraction',
+  'customInteraction',
+];
+
+const AUDIO_FILE = /\.(mp3|wav|m4a|aac|ogg|oga|webm)$/i;
+const IMAGE_FILE = /\.(png|jpe?g|gif|svg|webp|bmp)$/i;
+
+function celtsClass(question) {
+  const tokens = [`celts-${question.questionType}`];
+  for (const key of [...NUMBER_SETTINGS, ...TEXT_SETTINGS]) {
+    const value = question[key];
+    if (value !== undefined && value !== null && value !== '') tokens.push(`celts-${key}-${value}`);
+  }
+  return tokens.join(' ');
+}
+
+function readCeltsClass(classAttr) {
+  const out = { questionType: null, settings: {} };
+  for (const token of String(classAttr || '').split(/\s+/)) {
+    const m = /^celts-([A-Za-z_]+)(?:-([\w.]+))?$/.exec(token);
+    if (!m) continue;
+    if (m[2] === undefined && QUESTION_TYPES.includes(m[1])) out.questionType = m[1];
+    else if (NUMBER_SETTINGS.includes(m[1]) && Number.isFinite(Number(m[2]))) out.settings[m[1]] = Number(m[2]);
+    else if (TEXT_SETTINGS.includes(m[1])) out.settings[m[1]] = m[2];
+  }
+  return out;
+}
+
+const titleOf = (prompt) => {
+  const line = String(prompt || '').replace(/\s+/g, ' ').trim();
+  return line.length > 80 ? `${line.slice(0, 77)}...` : line;
+};
+
+const declaration = (identifier, baseType, value) =>
+  `<outcomeDeclaration identifier="${identifier}" cardinality="single" baseType="${baseType}">` +
+  (value === undefined ? '' : `<defaultValue><value>${esc(value)}</value></defaultValue>`) +
+  '</outcomeDeclaration>';
+
+const setScore = (inner) => `<setOutcomeValue identifier="SCORE">${inner}</setOutcomeValue>`;
+const floatValue = (n) => `<baseValue baseType="float">${n}</baseValue>`;
+
+/**
+ * The assessmentItem XML for a question. `imageHref` is where a map_labelling
+ * image sits in the package (or its absolute URL).
+ */
+function questionToItem(question, { identifier, imageHref }) {
+  const type = question.questionType;
+  const marks = Number(question.marks) || 1;
+  const prompt = inline(question.prompt);
+  const options = (question.options || []).map(
+    (o, i) => `<simpleChoice identifier="CHOICE_${i}">${inline(o.text)}</simpleChoice>`
+  );
+  const className = celtsClass(question);
+
+  let response;
+  let body;
+  const processing = [];
+
+  if (SINGLE_CHOICE_TYPES.includes(type)) {
+    response =
+      '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">' +
+      `<correctResponse><value>CHOICE_${question.correctIndex}</value></correctResponse>` +
+      '</responseDeclaration>';
+    body =
+      (type === 'map_labelling' && imageHref ? `<p><img src="${esc(imageHref)}" alt="${esc(titleOf(question.prompt))}"/></p>\n` : '') +
+      `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1" class="${className}">` +
+      `<prompt>${prompt}</prompt>\n${options.join('\n')}\n</choiceInteraction>`;
+    processing.push(
+      '<responseCondition><responseIf><match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>' +
+        `${setScore(floatValue(marks))}</responseIf></responseCondition>`
+    );
+  } else if (type === 'multi_select') {
+    // each correct option is worth an equal share, as CELTS grades it
+    const key = question.correctIndexes || [];
+    const share = key.length ? Math.round((marks / key.length) * 100) / 100 : 0;
+    response =
+      '<responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="identifier">' +
+      `<correctResponse>${key.map((i) => `<value>CHOICE_${i}</value>`).join('')}</correctResponse>` +
+      `<mapping defaultValue="0" lowerBound="0" upperBound="${marks}">` +
+      key.map((i) => `<mapEntry mapKey="CHOICE_${i}" mappedValue="${share}"/>`).join('') +
+      '</mapping></responseDeclaration>';
+    body =
+      `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${question.selectCount || key.length}" class="${className}">` +
+      `<prompt>${prompt}</prompt>\n${options.join('\n')}\n</choiceInteraction>`;
+    processing.push(setScore('<mapResponse identifier="RESPONSE"/>'));
+  } else if (TEXT_ANSWER_TYPES.includes(type)) {
+    const answers = question.acceptedAnswers || [];
+    const caseSensitive = question.caseSensitive ? 'true' : 'false';
+    response =
+      '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">' +
+      (answers.length ? `<correctResponse><value>${esc(answers[0])}</value></correctResponse>` : '') +
+      `<mapping defaultValue="0" upperBound="${marks}">` +
+      answers.map((a) => `<mapEntry mapKey="${esc(a)}" mappedValue="${marks}" caseSensitive="${caseSensitive}"/>`).join('') +
+      '</mapping></responseDeclaration>';
+    body =
+      `${blocks(question.prompt)}\n` +
+      `<p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="20" class="${className}"/></p>`;
+    processing.push(setScore('<mapResponse identifier="RESPONSE"/>'));
+  } else if (type === 'writing') {
+    response = '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>';
+    const expected = question.charLimit ? ` expectedLength="${question.charLimit}"` : '';
+    body =
+      `<extendedTextInteraction responseIdentifier="RESPONSE"${expected} class="${className}">` +
+      `<prompt>${prompt}</prompt></extendedTextInteraction>`;
+  } else {
+    response = '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="file"/>';
+    const mime = question.speakingMode === 'video' ? 'video/*' : 'audio/*';
+    body =
+      `<uploadInteraction responseIdentifier="RESPONSE" type="${mime}" class="${className}">` +
+      `<prompt>${prompt}</prompt></uploadInteraction>`;
+  }
+
+  const explanation = String(question.explanation || '').trim();
+  if (explanation) {
+    processing.push('<setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue>');
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem xmlns="${QTI_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`,
+    `  xsi:schemaLocation="${QTI_NS} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"`,
+    `  identifier="${esc(identifier)}" title="${esc(titleOf(question.prompt))}" adaptive="false" timeDependent="false">`,
+    response,
+    declaration('SCORE', 'float', 0),
+    // writing and speaking are marked outside QTI, so the maximum is stated explicitly
+    declaration('MAXSCORE', 'float', marks),
+    explanation ? declaration('FEEDBACK', 'identifier') : '',
+    `<itemBody>\n${body}\n</itemBody>`,
+    processing.length ? `<responseProcessing>${processing.join('')}</responseProcessing>` : '',
+    explanation ? `<modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${blocks(explanation)}</modalFeedback>` : '',
+    '</assessmentItem>',
+    '',
+  ]
+    .filter((line) => line !== '')
+    .join('\n');
+}
+
+// ---------- import ----------
+
+function outcomeDefault(item, identifier) {
+  const decl = children(item, 'outcomeDeclaration').find((d) => attr(d, 'identifier') === identifier);
+  const value = decl && child(child(decl, 'defaultValue'), 'value');
+  return value ? Number(value.textContent) : NaN;
+}
+
+// Marks: the declared maximum, else the score the item sets for a right answer, else 1
+function readMarks(item, mapping) {
+  const max = outcomeDefault(item, 'MAXSCORE');
+  if (max > 0) return max;
+  const score = children(item, 'outcomeDeclaration').find((d) => attr(d, 'identifier') === 'SCORE');
+  if (Number(attr(score, 'normalMaximum')) > 0) return Number(attr(score, 'normalMaximum'));
+
+  const processing = child(item, 'responseProcessing');
+  for (const set of processing ? descendants(processing, 'setOutcomeValue') : []) {
+    const value = attr(set, 'identifier') === 'SCORE' && child(set, 'baseValue');
+    if (value && Number(value.textContent) > 0) return Number(value.textContent);
+  }
+  if (mapping && Number(attr(mapping, 'upperBound')) > 0) return Number(attr(mapping, 'upperBound'));
+  return 1;
+}
+
+// values of the correct response, plus map keys that score (some tools only give a mapping)
+function readKey(declarationEl) {
+  const values = children(child(declarationEl, 'correctResponse'), 'value').map((v) => v.textContent.trim());
+  const mapping = child(declarationEl, 'mapping');
+  const mapped = children(mapping, 'mapEntry')
+    .filter((e) => Number(attr(e, 'mappedValue')) > 0)
+    .map((e) => attr(e, 'mapKey'));
+  return { values: [...new Set([...values, ...mapped])].filter((v) => v !== ''), mapping };
+}
+
+// images and audio the item body refers to
+function mediaOf(body) {
+  const images = [];
+  const audio = [];
+  for (const img of descendants(body, 'img')) if (attr(img, 'src')) images.push(attr(img, 'src'));
+  for (const obj of descendants(body, 'object')) {
+    const data = attr(obj, 'data');
+    const type = attr(obj, 'type');
+    if (!data) continue;
+    if (type.startsWith('audio/') || (!type && AUDIO_FILE.test(data))) audio.push(data);
+    else if (type.startsWith('image/') || (!type && IMAGE_FILE.test(data))) images.push(data);
+  }
+  return { images, audio };
+}
+
+const GAP = '\u0000';
+const DROPPED_FROM_TEXT = new Set(['feedbackBlock', 'feedbackInline', 'rubricBlock', 'templateBlock', 'templateInline']);
+
+/**
+ * Map a parsed assessmentItem document to a CELTS question.
+ * Returns { question, media, messages } where messages are { level, message };
+ * question is null when the item cannot be mapped (an 'error' message says why).
+ */
+function itemToQuestion(doc) {
+  const messages = [];
+  const fail = (message) => ({ question: null, media: { images: [], audio: [] }, messages: [...messages, { level: 'error', message }] });
+  const warn = (message) => messages.push({ level: 'warning', message });
+
+  const item = doc.documentElement;
+  if (nameOf(item) !== 'assessmentItem') return fail(`expected an assessmentItem, found <${nameOf(item)}>`);
+  const body = child(item, 'itemBody');
+  if (!body) return fail('has no itemBody');
+
+  const found = ANSWER_INTERACTIONS.flatMap((name) => descendants(body, name));
+  if (found.length === 0) return fail('has no interaction for the student to answer');
+  const unsupported = found.find((el) => !SUPPORTED_INTERACTIONS.includes(nameOf(el)));
+  if (unsupported) return fail(`${nameOf(unsupported)} has no CELTS equivalent`);
+  if (found.length > 1) {
+    return fail(
+      found.every((el) => nameOf(el) === 'textEntryInteraction')
+        ? `has ${found.length} gaps; each CELTS question takes one answer, so split it into one item per gap`
+        : `has ${found.length} interactions; each CELTS question takes one answer`
+    );
+  }
+  const interaction = found[0];
+  const kind = nameOf(interaction);
+
+  const responseId = attr(interaction, 'responseIdentifier');
+  const declarationEl = children(item, 'responseDeclaration').find((d) => attr(d, 'identifier') === responseId);
+  if (!declarationEl) return fail(`has no responseDeclaration for ${responseId || 'its interaction'}`);
+
+  if (attr(item, 'adaptive') === 'true') warn('is adaptive; only its first attempt is kept');
+  if (children(item, 'templateDeclaration').length) warn('uses template variables, which are imported as plain text');
+  if ([...DROPPED_FROM_TEXT].some((name) => descendants(body, name).length)) {
+    warn('inline feedback or template blocks were left out');
+  }
+
+  // the stem around the interaction, plus the interaction's own prompt
+  const stem = plainText(body, (el) => {
+    if (el === interaction) return kind === 'textEntryInteraction' ? GAP : '';
+    if (DROPPED_FROM_TEXT.has(nameOf(el)) || nameOf(el) === 'img' || nameOf(el) === 'object') return '';
+    return undefined;
+  });
+  const promptEl = child(interaction, 'prompt');
+  const ownPrompt = promptEl ? plainText(promptEl) : '';
+  let prompt = [stem, ownPrompt].filter(Boolean).join('\n\n');
+  // a gap on its own line is just where the answer goes; one inside a sentence stays visible
+  prompt = prompt
+    .split('\n')
+    .filter((line) => line.trim() !== GAP)
+    .join('\n')
+    .replace(new RegExp(GAP, 'g'), '______')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  if (!prompt) return fail('has no question text');
+
+  const celts = readCeltsClass(attr(interaction, 'class'));
+  const media = mediaOf(body);
+  const { values: key, mapping } = readKey(declarationEl);
+  const question = { prompt, marks: readMarks(item, mapping), ...celts.settings };
+
+  if (kind === 'choiceInteraction') {
+    const choices = children(interaction, 'simpleChoice');
+    if (choices.length < 2) return fail('needs at least 2 choices');
+    question.options = choices.map((c) => ({ text: plainText(c) }));
+    const empty = question.options.findIndex((o) => !o.text);
+    if (empty !== -1) return fail(`choice ${empty + 1} has no text (images in choices are not supported)`);
+
+    const ids = choices.map((c) => attr(c, 'identifier'));
+    const correct = key.map((v) => ids.indexOf(v)).filter((i) => i !== -1);
+    if (correct.length === 0) return fail('has no correct choice');
+
+    const maxChoices = Number(attr(interaction, 'maxChoices') || 1);
+    const multiple = attr(declarationEl, 'cardinality') !== 'single' || maxChoices !== 1;
+    if (multiple) {
+      question.questionType = 'multi_select';
+      question.correctIndexes = correct;
+      question.selectCount = maxChoices > 0 ? Math.max(maxChoices, correct.length) : correct.length;
+    } else {
+      question.questionType = SINGLE_CHOICE_TYPES.includes(celts.questionType) ? celts.questionType : 'mcq';
+      question.correctIndex = correct[0];
+      if (correct.length > 1) warn('has several correct choices for a single answer; the first is kept');
+    }
+    if (attr(interaction, 'shuffle') === 'true') warn('shuffles its choices; use the test\'s shuffle options setting instead');
+  } else if (kind === 'textEntryInteraction') {
+    if (key.length === 0) return fail('has no accepted answer');
+    question.questionType = celts.questionType === 'sentence_completion' ? 'sentence_completion' : 'gap_fill';
+    question.acceptedAnswers = key;
+    // QTI compares exactly unless the mapping says otherwise
+    const entries = children(mapping, 'mapEntry');
+    question.caseSensitive = entries.length ? entries.some((e) => attr(e, 'caseSensitive') !== 'false') : true;
+    if (question.spellingTolerance === undefined) question.spellingTolerance = 0;
+  } else if (kind === 'extendedTextInteraction') {
+    question.questionType = 'writing';
+    if (!question.writingType) question.writingType = 'other';
+  } else {
+    question.questionType = 'speaking';
+    if (!question.speakingMode) question.speakingMode = attr(interaction, 'type').startsWith('video/') ? 'video' : 'audio';
+  }
+
+  const explanation = children(item, 'modalFeedback').map((f) => plainText(f)).filter(Boolean);
+  question.explanation = explanation.join('\n\n');
+
+  return { question, media, messages };
+}
+
+module.exports = {
+  QUESTION_TYPES,
+  questionToItem,
+  itemToQuestion,
+  titleOf,
+};
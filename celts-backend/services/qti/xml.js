@@ -0,0 +1,111 @@
+// services/qti/xml.js
+// Small XML helpers for reading and writing QTI. Elements are matched on their
+// local name, so packages that prefix the QTI namespace read the same.
+const { DOMParser } = require('@xmldom/xmldom');
+
+const QTI_NS = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+
+const esc = (value) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// one line of text as inline XHTML
+const inline = (text) => esc(String(text || '').trim()).replace(/\r?\n/g, '<br/>');
+
+// plain text as XHTML paragraphs: blank lines split paragraphs, single newlines become <br/>
+function blocks(text) {
+  return String(text || '')
+    .split(/\r?\n\s*\r?\n/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => `<p>${inline(p)}</p>`)
+    .join('\n');
+}
+
+// Parse an XML string; returns { doc } or { error }
+function parseXml(text) {
+  const problems = [];
+  const onError = (msg) => problems.push(String(msg).split('\n')[0].replace(/^\[xmldom [a-z]+\]\s*/i, ''));
+  const doc = new DOMParser({ errorHandler: { warning: () => {}, error: onError, fatalError: onError } })
+    .parseFromString(text, 'text/xml');
+  if (!doc || !doc.documentElement) return { error: problems[0] || 'not well-formed XML' };
+  if (problems.length > 0) return { error: problems[0] };
+  return { doc };
+}
+
+const elements = (nodes) => Array.from(nodes || []).filter((n) => n.nodeType === 1);
+const nameOf = (el) => el.localName || el.nodeName;
+
+const children = (el, name) => elements(el && el.childNodes).filter((n) => !name || nameOf(n) === name);
+const child = (el, name) => children(el, name)[0] || null;
+
+function descendants(el, name) {
+  const out = [];
+  (function walk(node) {
+    for (const c of elements(node.childNodes)) {
+      if (nameOf(c) === name) out.push(c);
+      walk(c);
+    }
+  })(el);
+  return out;
+}
+
+const attr = (el, name) => (el && el.getAttribute(name)) || '';
+
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'table', 'tr', 'blockquote', 'pre', 'address',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'prompt', 'simpleChoice', 'rubricBlock', 'itemBody',
+  'modalFeedback', 'feedbackBlock',
+]);
+
+/**
+ * Text of an element with paragraph breaks kept, the reverse of blocks().
+ * `replace(el)` may return a string to use in place of an element ('' drops it).
+ */
+function plainText(el, replace) {
+  const parts = [];
+  (function walk(node) {
+    for (const c of Array.from(node.childNodes || [])) {
+      if (c.nodeType === 3 || c.nodeType === 4) {
+        parts.push(c.data.replace(/\s+/g, ' '));
+        continue;
+      }
+      if (c.nodeType !== 1) continue;
+      const swapped = replace ? replace(c) : undefined;
+      if (swapped !== undefined) {
+        parts.push(swapped);
+        continue;
+      }
+      if (nameOf(c) === 'br') {
+        parts.push('\n');
+        continue;
+      }
+      const block = BLOCK_ELEMENTS.has(nameOf(c));
+      if (block) parts.push('\n\n');
+      walk(c);
+      if (block) parts.push('\n\n');
+    }
+  })(el);
+  return parts
+    .join('')
+    .replace(/[ \t]*\n[ \t]*/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+module.exports = {
+  QTI_NS,
+  esc,
+  inline,
+  blocks,
+  parseXml,
+  nameOf,
+  children,
+  child,
+  descendants,
+  attr,
+  plainText,
+};
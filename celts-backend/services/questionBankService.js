@@ -0,0 +1,155 @@
+// services/questionBankService.js
+const mongoose = require('mongoose');
+const BankQuestion = require('../models/BankQuestion');
+const TestSet = require('../models/TestSet');
+const TestVersion = require('../models/TestVersion');
+const TestAttempt = require('../models/TestAttempt');
+const Submission = require('../models/Submission');
+const { OPEN_STATUSES } = require('../models/TestVersion');
+const { openDraft, saveDraft } = require('./testVersionService');
+const { QUESTION_TYPES_FOR_TEST } = require('../utils/answerMatching');
+
+// Question content copied from the bank into a test
+const CONTENT_FIELDS = [
+  'questionType',
+  'prompt',
+  'options',
+  'correctIndex',
+  'correctIndexes',
+  'selectCount',
+  'acceptedAnswers',
+  'caseSensitive',
+  'spellingTolerance',
+  'imageUrl',
+  'writingType',
+  'wordLimit',
+  'charLimit',
+  'speakingMode',
+  'recordLimitSeconds',
+  'playAllowed',
+  'marks',
+  'explanation',
+];
+
+// The question types a bank skill holds, the same a test of that type holds
+const QUESTION_TYPES_FOR_SKILL = QUESTION_TYPES_FOR_TEST;
+
+function normalizeTags(tags) {
+  const list = Array.isArray(tags) ? tags : String(tags || '').split(',');
+  return [...new Set(list.map(t => String(t).trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Build an embedded test question from a bank question.
+ * `overrides` may carry test-specific fields (sectionId, marks, timeLimitSeconds).
+ */
+function snapshotBankQuestion(bankQuestion, overrides = {}) {
+  const snapshot = {};
+  // copy undefined values too, so fields cleared in the bank are cleared in the test
+  for (const field of CONTENT_FIELDS) {
+    snapshot[field] = bankQuestion[field];
+  }
+  if (Array.isArray(snapshot.options)) {
+    snapshot.options = snapshot.options.map(o => ({ text: o.text }));
+  }
+
+  snapshot.sectionId = overrides.sectionId || null;
+  if (overrides.marks !== undefined && overrides.marks !== null && overrides.marks !== '') {
+    snapshot.marks = Number(overrides.marks);
+  }
+  if (overrides.timeLimitSeconds) {
+    snapshot.timeLimitSeconds = Number(overrides.timeLimitSeconds);
+  }
+  snapshot.bankQuestion = bankQuestion._id;
+  snapshot.bankVersion = bankQuestion.version;
+  return snapshot;
+}
+
+/**
+ * Expand question payload entries that only reference the bank
+ * ({ bankQuestion, sectionId?, marks? } without a prompt) into full snapshots.
+ * Entries that already carry content are kept as sent.
+ * Returns { questions, missing } where `missing` lists unknown bank ids.
+ */
+async function resolveBankReferences(questions = []) {
+  const refIds = questions
+    .filter(q => q && q.bankQuestion && !q.prompt)
+    .map(q => String(q.bankQuestion));
+
+  if (refIds.length === 0) return { questions, missing: [] };
+
+  const validIds = refIds.filter(id => mongoose.Types.ObjectId.isValid(id));
+  const found = await BankQuestion.find({ _id: { $in: validIds } }).lean();
+  const byId = new Map(found.map(b => [String(b._id), b]));
+
+  const missing = [...new Set(refIds.filter(id => !byId.has(id)))];
+  if (missing.length > 0) return { questions, missing };
+
+  const resolved = questions.map(q => {
+    if (!q || !q.bankQuestion || q.prompt) return q;
+    return snapshotBankQuestion(byId.get(String(q.bankQuestion)), q);
+  });
+
+  await recordUsage(found.map(b => b._id));
+
+  return { questions: resolved, missing: [] };
+}
+
+async function recordUsage(bankIds = []) {
+  if (bankIds.length === 0) return;
+  await BankQuestion.updateMany({ _id: { $in: bankIds } }, { $inc: { usageCount: 1 } });
+}
+
+/**
+ * A test counts as attempted once any student has started it or submitted to it.
+ */
+async function isTestAttempted(testId) {
+  const [attempt, submission] = await Promise.all([
+    TestAttempt.exists({ testSet: testId }),
+    Submission.exists({ testSet: testId }),
+  ]);
+  return !!(attempt || submission);
+}
+
+/**
+ * Push an edited bank question into the open drafts of the tests that embed it.
+ * Published versions are never changed, so past attempts keep grading against
+ * the content the students actually saw; tests without a draft pick the edit
+ * up when the question is pulled from the bank again.
+ * Test-specific fields (sectionId, marks) are left as the test set them.
+ */
+async function propagateBankEdit(bankQuestion, actor) {
+  const id = String(bankQuestion._id);
+  const [draftTestIds, liveTestIds] = await Promise.all([
+    TestVersion.find({ 'questions.bankQuestion': id, status: { $in: OPEN_STATUSES } }).distinct('testSet'),
+    TestSet.find({ 'questions.bankQuestion': id }).distinct('_id'),
+  ]);
+  const drafted = new Set(draftTestIds.map(String));
+  const result = { updated: [], skipped: liveTestIds.filter(t => !drafted.has(String(t))) };
+
+  for (const testId of draftTestIds) {
+    const test = await TestSet.findOne({ _id: testId, deletedAt: null });
+    if (!test) continue;
+    const draft = await openDraft(test._id);
+    const questions = draft.questions.map(question => {
+      const q = question.toObject();
+      if (!q.bankQuestion || String(q.bankQuestion) !== id) return q;
+      return { ...q, ...snapshotBankQuestion(bankQuestion, { sectionId: q.sectionId, marks: q.marks }) };
+    });
+    await saveDraft(test, { questions }, actor);
+    result.updated.push(test._id);
+  }
+
+  return result;
+}
+
+module.exports = {
+  CONTENT_FIELDS,
+  QUESTION_TYPES_FOR_SKILL,
+  normalizeTags,
+  snapshotBankQuestion,
+  resolveBankReferences,
+  recordUsage,
+  isTestAttempted,
+  propagateBankEdit,
+};
@@ -47,6 +47,32 @@ if (process.env.REDIS_URL && redisClient) {
   submissionQueue = createInlineQueue();
 }
 
+// Delayed exam deadline jobs (see services/examTimerService). Without Redis the
+// timer service falls back to polling Mongo, so there is no inline variant.
+let examTimerQueue = null;
+if (usingRedis) {
+  try {
+    examTimerQueue = new Queue('examTimerQueue', process.env.REDIS_URL, {
+      defaultJobOptions: {
+        removeOnComplete: true,
+        removeOnFail: 20,
+        attempts: 5,
+        backoff: {
+          type: 'exponential',
+          delay: 5000
+        }
+      }
+    });
+
+    examTimerQueue.on('error', (err) => {
+      console.error('Exam timer queue error:', err.message);
+    });
+  } catch (error) {
+    console.error('Failed to initialize exam timer queue:', error.message);
+    examTimerQueue = null;
+  }
+}
+
 function createInlineQueue() {
   return {
     add: async (job) => {
@@ -62,4 +88,4 @@ function createInlineQueue() {
   };
 }
 
-module.exports = { submissionQueue, usingRedis };
+module.exports = { submissionQueue, examTimerQueue, usingRedis };
@@ -0,0 +1,272 @@
+// services/recycleBinService.js
+// Soft deletion of users, batches and tests. Deleting moves a document to the
+// recycle bin (deletedAt, see models/softDelete.js) and leaves its submissions,
+// attempts and logs alone; restoring brings it back as it was. Only a purge,
+// by an admin or once the retention period has passed, removes the document
+// together with everything that depends on it.
+const User = require('../models/User');
+const Batch = require('../models/Batch');
+const TestSet = require('../models/TestSet');
+const TestVersion = require('../models/TestVersion');
+const Submission = require('../models/Submission');
+const TestAttempt = require('../models/TestAttempt');
+const AttemptDraft = require('../models/AttemptDraft');
+const ExamSecurity = require('../models/ExamSecurity');
+const ProctorLog = require('../models/ProctorLog');
+const MockResult = require('../models/MockResult');
+const StudentStats = require('../models/StudentStats');
+const BatchMembership = require('../models/BatchMembership');
+const DeviceSession = require('../models/DeviceSession');
+const RefreshToken = require('../models/RefreshToken');
+const PasswordResetToken = require('../models/PasswordResetToken');
+const Invitation = require('../models/Invitation');
+const { revokeUserSessions } = require('./tokenService');
+const {
+  closeMemberships,
+  reopenMemberships,
+  suspendStudent,
+  resumeStudent,
+} = require('./batchMembershipService');
+
+const RETENTION_DAYS = Number(process.env.RECYCLE_BIN_RETENTION_DAYS || 30);
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TYPES = {
+  user: { model: User, targetType: 'User', noun: 'account', label: (d) => `${d.name} (${d.systemId})` },
+  batch: { model: Batch, targetType: 'Batch', noun: 'batch', label: (d) => d.name },
+  test: { model: TestSet, targetType: 'TestSet', noun: 'test', label: (d) => d.title },
+};
+
+const plural = (n, word) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+async function countsFor(type, doc) {
+  const id = doc._id;
+  if (type === 'test') {
+    const [submissions, attempts, inProgress, proctorLogs, mockResults, usedInMocks] = await Promise.all([
+      Submission.countDocuments({ testSet: id }),
+      TestAttempt.countDocuments({ testSet: id }),
+      TestAttempt.countDocuments({ testSet: id, status: 'started' }),
+      ProctorLog.countDocuments({ testSet: id }),
+      MockResult.countDocuments({ mockTest: id }),
+      TestSet.countDocuments({ 'modules.testSet': id }),
+    ]);
+    return [
+      ['submission', submissions],
+      ['attempt', attempts],
+      ['attempt in progress', inProgress],
+      ['proctoring event', proctorLogs],
+      ['mock result', mockResults],
+      ['mock test using it as a module', usedInMocks],
+    ];
+  }
+  if (type === 'batch') {
+    const [tests, submissions, memberships] = await Promise.all([
+      TestSet.countDocuments({ assignedBatches: id }),
+      Submission.countDocuments({ batch: id }),
+      BatchMembership.countDocuments({ batch: id }),
+    ]);
+    return [
+      ['student', (doc.students || []).length],
+      ['faculty member', (doc.faculty || []).length],
+      ['assigned test', tests],
+      ['submission', submissions],
+      ['membership record', memberships],
+    ];
+  }
+  if (doc.role === 'student') {
+    const [submissions, attempts, proctorLogs, batches] = await Promise.all([
+      Submission.countDocuments({ student: id }),
+      TestAttempt.countDocuments({ student: id }),
+      ProctorLog.countDocuments({ student: id }),
+      Batch.countDocuments({ students: id }),
+    ]);
+    return [
+      ['submission', submissions],
+      ['test attempt', attempts],
+      ['proctoring event', proctorLogs],
+      ['batch', batches],
+    ];
+  }
+  const [tests, batches, students] = await Promise.all([
+    TestSet.countDocuments({ createdBy: id }),
+    Batch.countDocuments({ faculty: id }),
+    User.countDocuments({ assignedFaculty: id }),
+  ]);
+  return [
+    ['test created', tests],
+    ['batch taught', batches],
+    ['assigned student', students],
+  ];
+}
+
+/**
+ * What deleting `doc` touches, for the confirmation dialog:
+ * { counts: { submission: 214, ... }, summary: ['This test has 214 submissions', ...] }
+ */
+async function impactOf(type, doc) {
+  const pairs = await countsFor(type, doc);
+  const { noun } = TYPES[type];
+  return {
+    counts: Object.fromEntries(pairs),
+    summary: pairs.filter(([, n]) => n > 0).map(([word, n]) => `This ${noun} has ${plural(n, word)}`),
+  };
+}
+
+// Move a document to the recycle bin. Returns { error } or { impact }.
+async function softDelete(type, doc, actor) {
+  if (doc.deletedAt) return { error: `This ${TYPES[type].noun} is already in the recycle bin` };
+  if (type === 'test') {
+    const mock = await TestSet.findOne({ 'modules.testSet': doc._id }).select('title').lean();
+    if (mock) return { error: `This test is a module of the mock test "${mock.title}"; remove it from the mock first` };
+  }
+
+  const impact = await impactOf(type, doc);
+  const now = new Date();
+
+  if (type === 'user') {
+    if (doc.role === 'student') await suspendStudent(doc._id, now);
+    await revokeUserSessions(doc._id, 'deleted');
+  }
+  if (type === 'batch') await closeMemberships([doc._id], now, 'batch_deleted');
+
+  await TYPES[type].model.updateOne({ _id: doc._id }, { $set: { deletedAt: now, deletedBy: actor._id } });
+  return { impact };
+}
+
+// Take a document out of the recycle bin. Returns { error } or {}.
+async function restore(type, doc) {
+  if (!doc.deletedAt) return { error: `This ${TYPES[type].noun} is not in the recycle bin` };
+
+  if (type === 'user' && doc.role === 'student') await resumeStudent(doc._id, doc.deletedAt);
+  if (type === 'batch') {
+    // same rule as reopening a term: nobody may end up in two regular batches
+    if (!doc.elective && !doc.archived) {
+      const elsewhere = await Batch.findOne({
+        _id: { $ne: doc._id },
+        archived: { $ne: true },
+        elective: { $ne: true },
+        students: { $in: doc.students },
+      }).select('name').lean();
+      if (elsewhere) {
+        return { error: `Some students are now in the batch "${elsewhere.name}"; move them back first` };
+      }
+    }
+    await reopenMemberships([doc._id], doc.deletedAt, 'batch_deleted');
+  }
+
+  await TYPES[type].model.updateOne({ _id: doc._id }, { $set: { deletedAt: null, deletedBy: null } });
+  return {};
+}
+
+// Permanently remove a document and everything that only exists because of it.
+async function purge(type, doc) {
+  const id = doc._id;
+  if (type === 'test') {
+    const attemptIds = await TestAttempt.find({ testSet: id }).distinct('_id');
+    await Promise.all([
+      Submission.deleteMany({ testSet: id }),
+      TestAttempt.deleteMany({ testSet: id }),
+      AttemptDraft.deleteMany({ testSet: id }),
+      ExamSecurity.deleteMany({ $or: [{ testSet: id }, { testAttempt: { $in: attemptIds } }] }),
+      ProctorLog.deleteMany({ testSet: id }),
+      MockResult.deleteMany({ mockTest: id }),
+      TestVersion.deleteMany({ testSet: id }),
+    ]);
+  }
+
+  if (type === 'batch') {
+    await Promise.all([
+      BatchMembership.deleteMany({ batch: id }),
+      TestSet.updateMany({ assignedBatches: id }, { $pull: { assignedBatches: id } }),
+      Submission.updateMany({ batch: id }, { $set: { batch: null } }),
+      StudentStats.updateMany({ batch: id }, { $set: { batch: null, batchName: null } }),
+      User.updateMany({ batches: id }, { $pull: { batches: id } }),
+      Batch.updateMany({ promotedTo: id }, { $set: { promotedTo: null } }),
+      Invitation.updateMany({ batch: id }, { $set: { batch: null } }),
+    ]);
+  }
+
+  if (type === 'user') {
+    await Promise.all([
+      Submission.deleteMany({ student: id }),
+      TestAttempt.deleteMany({ student: id }),
+      AttemptDraft.deleteMany({ student: id }),
+      ExamSecurity.deleteMany({ student: id }),
+      ProctorLog.deleteMany({ student: id }),
+      MockResult.deleteMany({ student: id }),
+      StudentStats.deleteMany({ student: id }),
+      BatchMembership.deleteMany({ student: id }),
+      DeviceSession.deleteMany({ user: id }),
+      RefreshToken.deleteMany({ user: id }),
+      PasswordResetToken.deleteMany({ user: id }),
+      Batch.updateMany({ $or: [{ students: id }, { faculty: id }] }, { $pull: { students: id, faculty: id } }),
+      TestSet.updateMany({ assignedStudents: id }, { $pull: { assignedStudents: id } }),
+      User.updateMany({ students: id }, { $pull: { students: id } }),
+      User.updateMany({ assignedFaculty: id }, { $unset: { assignedFaculty: '' } }),
+    ]);
+  }
+
+  await TYPES[type].model.deleteOne({ _id: id });
+}
+
+const purgeAfter = (deletedAt) => new Date(new Date(deletedAt).getTime() + RETENTION_DAYS * DAY_MS);
+
+// Deleted documents of one type (or all), newest first, for the recycle bin view.
+async function listDeleted(type) {
+  const types = type ? [type] : Object.keys(TYPES);
+  const items = [];
+  for (const t of types) {
+    const docs = await TYPES[t].model.find({ deletedAt: { $ne: null } })
+      .populate('deletedBy', 'name')
+      .lean();
+    for (const doc of docs) {
+      items.push({
+        type: t,
+        _id: doc._id,
+        label: TYPES[t].label(doc),
+        role: t === 'user' ? doc.role : undefined,
+        deletedAt: doc.deletedAt,
+        deletedBy: doc.deletedBy ? doc.deletedBy.name : null,
+        purgeAfter: purgeAfter(doc.deletedAt),
+        impact: await impactOf(t, doc),
+      });
+    }
+  }
+  return items.sort((a, b) => new Date(b.deletedAt) - new Date(a.deletedAt));
+}
+
+// Purge everything that has been in the recycle bin longer than the retention period.
+async function purgeExpired(now = new Date()) {
+  const cutoff = new Date(now.getTime() - RETENTION_DAYS * DAY_MS);
+  const purged = {};
+  for (const [type, { model }] of Object.entries(TYPES)) {
+    const docs = await model.find({ deletedAt: { $ne: null, $lte: cutoff } });
+    for (const doc of docs) await purge(type, doc);
+    purged[type] = docs.length;
+  }
+  return purged;
+}
+
+function schedulePurge() {
+  const run = () => purgeExpired()
+    .then((purged) => {
+      const total = Object.values(purged).reduce((a, b) => a + b, 0);
+      if (total) console.log('[recycle bin] purged', purged);
+    })
+    .catch((err) => console.error('[recycle bin] purge failed:', err));
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+  setTimeout(run, 60 * 1000).unref();
+}
+
+module.exports = {
+  TYPES,
+  RETENTION_DAYS,
+  impactOf,
+  softDelete,
+  restore,
+  purge,
+  listDeleted,
+  purgeExpired,
+  schedulePurge,
+};
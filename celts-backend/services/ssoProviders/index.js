@@ -0,0 +1,36 @@
+// services/ssoProviders/index.js
+// Registry of single sign-on adapters. Each provider exposes:
+//   name
+//   relayState: true if the pending login must ride in RelayState instead of a cookie
+//   begin({ state, nonce, relayState }) -> { url, ...valuesToKeepUntilCallback }
+//   complete(req, pending) -> { subject, claims }
+//
+// SSO_PROVIDER picks the adapter; leave it unset to keep SSO off.
+
+const PROVIDER_FACTORIES = {
+  oidc: (opts) => require("./oidcProvider")(opts),
+  saml: (opts) => require("./samlProvider")(opts),
+};
+
+let instance = null;
+
+function getSsoProviderName() {
+  const configured = (process.env.SSO_PROVIDER || "").toLowerCase();
+  return PROVIDER_FACTORIES[configured] ? configured : null;
+}
+
+function getSsoCallbackUrl() {
+  return process.env.SSO_CALLBACK_URL || "http://localhost:5000/api/auth/sso/callback";
+}
+
+// The configured provider, or null when SSO is off
+function getSsoProvider() {
+  const name = getSsoProviderName();
+  if (!name) return null;
+  if (!instance || instance.name !== name) {
+    instance = PROVIDER_FACTORIES[name]({ callbackUrl: getSsoCallbackUrl() });
+  }
+  return instance;
+}
+
+module.exports = { getSsoProvider, getSsoProviderName, getSsoCallbackUrl };
@@ -0,0 +1,75 @@
+// services/ssoProviders/oidcProvider.js
+// OpenID Connect authorization-code flow with PKCE. The issuer is discovered
+// from OIDC_ISSUER/.well-known/openid-configuration on first use.
+
+const { Issuer, generators } = require("openid-client");
+
+module.exports = function createOidcProvider({ callbackUrl }) {
+  const issuerUrl = process.env.OIDC_ISSUER;
+  const scope = process.env.OIDC_SCOPES || "openid email profile";
+  if (!issuerUrl || !process.env.OIDC_CLIENT_ID) {
+    throw new Error("OIDC_ISSUER and OIDC_CLIENT_ID must be set to use OIDC sign-in");
+  }
+
+  let clientPromise = null;
+  function getClient() {
+    if (!clientPromise) {
+      clientPromise = Issuer.discover(issuerUrl)
+        .then(
+          (issuer) =>
+            new issuer.Client({
+              client_id: process.env.OIDC_CLIENT_ID,
+              client_secret: process.env.OIDC_CLIENT_SECRET,
+              redirect_uris: [callbackUrl],
+              response_types: ["code"],
+            })
+        )
+        .catch((err) => {
+          // retry discovery on the next login instead of caching the failure
+          clientPromise = null;
+          throw err;
+        });
+    }
+    return clientPromise;
+  }
+
+  return {
+    name: "oidc",
+
+    // Returns the IdP URL to redirect to, plus values to keep until the callback
+    async begin({ state, nonce }) {
+      const client = await getClient();
+      const codeVerifier = generators.codeVerifier();
+      const url = client.authorizationUrl({
+        scope,
+        state,
+        nonce,
+        code_challenge: generators.codeChallenge(codeVerifier),
+        code_challenge_method: "S256",
+      });
+      return { url, codeVerifier };
+    },
+
+    // Validates the callback against the pending login; returns { subject, claims }
+    async complete(req, pending) {
+      const client = await getClient();
+      const params = client.callbackParams(req);
+      const tokenSet = await client.callback(callbackUrl, params, {
+        state: pending.state,
+        nonce: pending.nonce,
+        code_verifier: pending.codeVerifier,
+      });
+
+      let claims = tokenSet.claims();
+      if (tokenSet.access_token && client.issuer.userinfo_endpoint) {
+        // many IdPs only put groups and custom attributes in userinfo
+        const userinfo = await client.userinfo(tokenSet.access_token);
+        claims = { ...userinfo, ...claims };
+      }
+      if (claims.email_verified === false) {
+        throw new Error("Your university account's email address is not verified");
+      }
+      return { subject: String(claims.sub), claims };
+    },
+  };
+};
@@ -0,0 +1,47 @@
+// services/ssoProviders/samlProvider.js
+// SAML 2.0 web SSO (HTTP-Redirect request, HTTP-POST response). Assertions must
+// be signed by SAML_IDP_CERT and answer a request this server issued.
+
+const { SAML } = require("@node-saml/node-saml");
+
+module.exports = function createSamlProvider({ callbackUrl }) {
+  if (!process.env.SAML_ENTRY_POINT || !process.env.SAML_IDP_CERT) {
+    throw new Error("SAML_ENTRY_POINT and SAML_IDP_CERT must be set to use SAML sign-in");
+  }
+  const issuer = process.env.SAML_SP_ENTITY_ID || "celts";
+
+  const saml = new SAML({
+    entryPoint: process.env.SAML_ENTRY_POINT,
+    issuer,
+    audience: issuer,
+    callbackUrl,
+    // PEM or bare base64; escaped newlines survive .env files
+    idpCert: process.env.SAML_IDP_CERT.replace(/\\n/g, "\n"),
+    idpIssuer: process.env.SAML_IDP_ENTITY_ID || undefined,
+    wantAssertionsSigned: true,
+    wantAuthnResponseSigned: false,
+    validateInResponseTo: "always",
+    identifierFormat: process.env.SAML_NAMEID_FORMAT || null,
+  });
+
+  return {
+    name: "saml",
+    relayState: true,
+
+    // the signed pending-login token travels as RelayState, since the IdP's
+    // cross-site POST back won't carry our SameSite=Lax cookie
+    async begin({ relayState }) {
+      const url = await saml.getAuthorizeUrlAsync(relayState, undefined, {});
+      return { url };
+    },
+
+    async complete(req) {
+      const { profile, loggedOut } = await saml.validatePostResponseAsync(req.body || {});
+      if (loggedOut || !profile) throw new Error("The identity provider did not return a sign-in assertion");
+
+      const claims = { ...profile, ...(profile.attributes || {}) };
+      delete claims.attributes;
+      return { subject: String(profile.nameID), claims };
+    },
+  };
+};
@@ -0,0 +1,190 @@
+// services/ssoService.js
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const User = require('../models/User');
+const Batch = require('../models/Batch');
+const { placeStudents } = require('./batchMembershipService');
+const AuditLog = require('../models/AuditLog');
+
+const PENDING_LOGIN_TTL = '10m';
+const ROLES = ['admin', 'faculty', 'student'];
+
+// Claim names for each CELTS field; SSO_ATTRIBUTE_MAP (JSON) overrides any of them.
+// Dotted paths reach into nested claims, e.g. "ext.employee_id".
+const DEFAULT_ATTRIBUTE_MAP = {
+  email: 'email',
+  name: 'name',
+  systemId: 'preferred_username',
+  role: 'groups',
+  batch: 'batch',
+};
+
+function parseJsonEnv(name, fallback) {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  try {
+    return JSON.parse(raw);
+  } catch (err) {
+    console.error(`[sso] ${name} is not valid JSON; using defaults`);
+    return fallback;
+  }
+}
+
+const listEnv = (name, fallback) =>
+  String(process.env[name] || fallback).split(',').map(s => s.trim()).filter(Boolean);
+
+function getSsoSettings() {
+  return {
+    attributeMap: { ...DEFAULT_ATTRIBUTE_MAP, ...parseJsonEnv('SSO_ATTRIBUTE_MAP', {}) },
+    // IdP value (e.g. a group name) -> CELTS role; values already named admin/faculty/student map to themselves
+    roleMap: parseJsonEnv('SSO_ROLE_MAP', {}),
+    defaultRole: ROLES.includes(process.env.SSO_DEFAULT_ROLE) ? process.env.SSO_DEFAULT_ROLE : null,
+    jitProvisioning: process.env.SSO_JIT_PROVISIONING !== 'false',
+    // admins are never created from IdP claims unless explicitly listed
+    jitRoles: listEnv('SSO_JIT_ROLES', 'student,faculty').filter(r => ROLES.includes(r)),
+  };
+}
+
+function readClaim(claims, path) {
+  if (!path) return undefined;
+  return String(path).split('.').reduce((obj, key) => (obj == null ? undefined : obj[key]), claims);
+}
+
+const asList = (value) =>
+  (Array.isArray(value) ? value : value == null || value === '' ? [] : [value]).map(v => String(v).trim()).filter(Boolean);
+
+const firstValue = (value) => asList(value)[0] || '';
+
+// Highest-privilege role any claim value maps to
+function mapRole(values, settings) {
+  const mapped = values
+    .map(v => settings.roleMap[v] || (ROLES.includes(v.toLowerCase()) ? v.toLowerCase() : null))
+    .filter(r => ROLES.includes(r));
+  return ROLES.find(r => mapped.includes(r)) || settings.defaultRole;
+}
+
+/**
+ * Turn IdP claims into the CELTS fields we provision from.
+ * Returns { email, name, systemId, role, batchNames }.
+ */
+function mapClaims(claims, settings = getSsoSettings()) {
+  const map = settings.attributeMap;
+  return {
+    email: firstValue(readClaim(claims, map.email)).toLowerCase(),
+    name: firstValue(readClaim(claims, map.name)),
+    systemId: firstValue(readClaim(claims, map.systemId)),
+    role: mapRole(asList(readClaim(claims, map.role)), settings),
+    batchNames: asList(readClaim(claims, map.batch)),
+  };
+}
+
+// Add the user to every claimed batch that exists; unknown names are skipped
+async function syncBatchMembership(user, batchNames) {
+  if (!batchNames.length || user.role === 'admin') return [];
+  const batches = await Batch.find({ name: { $in: batchNames }, archived: { $ne: true } }).select('_id name elective').lean();
+  const missing = batchNames.filter(n => !batches.some(b => b.name === n));
+  if (missing.length) console.warn(`[sso] unknown batch(es) for ${user.email}: ${missing.join(', ')}`);
+  if (!batches.length) return [];
+
+  if (user.role === 'faculty') {
+    await Batch.updateMany({ _id: { $in: batches.map(b => b._id) } }, { $addToSet: { faculty: user._id } });
+    return batches.map(b => b.name);
+  }
+  // the IdP is the source of truth for sections, so a new regular batch replaces the old one
+  for (const batch of batches) {
+    await placeStudents(batch, [user._id], { move: true, reason: 'sso' });
+  }
+  return batches.map(b => b.name);
+}
+
+/**
+ * Find, link or just-in-time create the CELTS account for an IdP identity.
+ * Existing accounts are matched by the stored IdP subject, then by email;
+ * their role is left alone. Returns { error } or { user, provisioned }.
+ */
+async function resolveSsoUser(providerName, { subject, claims }) {
+  const settings = getSsoSettings();
+  const mapped = mapClaims(claims, settings);
+
+  // deleted accounts are matched too, so they are refused rather than provisioned again
+  let user = await User.findOne({ 'sso.provider': providerName, 'sso.subject': subject }).setOptions({ withDeleted: true });
+  if (!user && mapped.email) {
+    user = await User.findOne({ email: mapped.email }).setOptions({ withDeleted: true });
+    if (user && user.sso && user.sso.subject && user.sso.subject !== subject) {
+      return { error: 'This email is already linked to a different university account' };
+    }
+  }
+
+  let provisioned = false;
+  if (!user) {
+    if (!settings.jitProvisioning) {
+      return { error: 'No CELTS account exists for your university login. Ask an administrator for an invitation.' };
+    }
+    if (!mapped.email || !mapped.systemId) {
+      return { error: 'Your university account did not provide an email and ID, so a CELTS account cannot be created' };
+    }
+    if (!mapped.role || !settings.jitRoles.includes(mapped.role)) {
+      return { error: 'Your university account is not authorised to create a CELTS account' };
+    }
+    if (await User.exists({ systemId: mapped.systemId }).setOptions({ withDeleted: true })) {
+      return { error: `ID ${mapped.systemId} is already used by another CELTS account` };
+    }
+
+    user = await User.create({
+      name: mapped.name || mapped.email,
+      email: mapped.email,
+      systemId: mapped.systemId,
+      role: mapped.role,
+      // unusable local password; the user can set one through forgot-password
+      password: crypto.randomBytes(32).toString('hex'),
+      sso: { provider: providerName, subject, lastLoginAt: new Date() },
+    });
+    provisioned = true;
+  } else {
+    if (user.deletedAt) return { error: 'Your CELTS account has been deleted. Ask an administrator to restore it.' };
+    if (user.isActive === false) return { error: 'Your CELTS account has been deactivated' };
+    user.sso = { provider: providerName, subject, lastLoginAt: new Date() };
+    await user.save();
+  }
+
+  const batches = await syncBatchMembership(user, mapped.batchNames);
+
+  if (provisioned) {
+    await AuditLog.create({
+      action: 'user_sso_provision',
+      targetType: 'User',
+      targetId: user._id,
+      changedBy: user._id,
+      changedByRole: user.role,
+      newValue: { email: user.email, systemId: user.systemId, role: user.role, batches },
+      meta: { provider: providerName, subject },
+    });
+  }
+
+  return { user, provisioned };
+}
+
+// signed with a key of its own so it can't be confused with a session or 2FA token
+const pendingSecret = () => `${process.env.JWT_SECRET}:sso_pending`;
+
+// The values a login needs to check its callback, signed so the browser can carry them
+function signPendingLogin(pending) {
+  return jwt.sign(pending, pendingSecret(), { expiresIn: PENDING_LOGIN_TTL });
+}
+
+function readPendingLogin(token) {
+  if (!token) return null;
+  try {
+    return jwt.verify(String(token), pendingSecret());
+  } catch {
+    return null;
+  }
+}
+
+module.exports = {
+  getSsoSettings,
+  mapClaims,
+  resolveSsoUser,
+  signPendingLogin,
+  readPendingLogin,
+};
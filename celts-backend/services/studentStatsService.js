@@ -11,7 +11,8 @@ const User = require('../models/User');
  * - submission.totalMarks
  * - submission.maxMarks
  * - submission.bandScore
- * - submission.geminiEvaluation (for writing)
+ * - submission.aiEvaluation (for writing)
+ * - submission.criteriaBands (for writing / speaking)
  */
 async function updateStudentStatsFromSubmission(submission) {
   try {
@@ -64,11 +65,30 @@ async function updateStudentStatsFromSubmission(submission) {
     // store examiner summary for writing (latest)
     if (
       skill === 'writing' &&
-      submission.geminiEvaluation &&
-      typeof submission.geminiEvaluation.examiner_summary === 'string'
+      submission.aiEvaluation &&
+      typeof submission.aiEvaluation.examiner_summary === 'string'
     ) {
       updates.writingExaminerSummary =
-        submission.geminiEvaluation.examiner_summary;
+        submission.aiEvaluation.examiner_summary;
+    }
+
+    // latest per-criterion bands
+    const cb = submission.criteriaBands;
+    if (cb && skill === 'writing') {
+      updates.writingCriteria = {
+        taskAchievement: cb.taskAchievement ?? null,
+        coherenceCohesion: cb.coherenceCohesion ?? null,
+        lexicalResource: cb.lexicalResource ?? null,
+        grammaticalRange: cb.grammaticalRange ?? null,
+      };
+    }
+    if (cb && skill === 'speaking') {
+      updates.speakingCriteria = {
+        fluencyCoherence: cb.fluencyCoherence ?? null,
+        lexicalResource: cb.lexicalResource ?? null,
+        grammaticalRange: cb.grammaticalRange ?? null,
+        pronunciation: cb.pronunciation ?? null,
+      };
     }
 
     // recompute overallBand as average of non-null skill bands
@@ -0,0 +1,322 @@
+// services/submissionService.js
+// Turning an attempt's answers into a Submission: auto-grading for reading and
+// listening, a grading job for writing and speaking. The submit routes and the
+// server-side auto-submit at the deadline (services/examTimerService) both go
+// through createSubmission, so a late or crashed attempt is graded the same way
+// as one the student submitted.
+const fs = require('fs');
+const crypto = require('crypto');
+const Submission = require('../models/Submission');
+const TestAttempt = require('../models/TestAttempt');
+const AttemptDraft = require('../models/AttemptDraft');
+const StudentStats = require('../models/StudentStats');
+const { submissionQueue } = require('./queue');
+const examTimerService = require('./examTimerService');
+const mockResultService = require('./mockResultService');
+const { convertRawScore } = require('./bandTableService');
+const { submissionBatchId, homeBatch } = require('./batchMembershipService');
+const { testAtVersion } = require('./testVersionService');
+const { toOriginalOptionIndex } = require('../utils/attemptLayout');
+const {
+  AUTO_GRADED_TYPES,
+  TEXT_ANSWER_TYPES,
+  answerFromEntry,
+  gradeQuestion,
+} = require('../utils/answerMatching');
+const { computeBandScore } = require('../utils/scoring');
+
+// Map displayed option positions back to the authored order; text answers pass through
+function toCanonicalAnswer(layout, question, displayed) {
+  if (displayed === null || displayed === undefined) return null;
+  if (question.questionType === 'multi_select') {
+    if (!Array.isArray(displayed)) return null;
+    return displayed
+      .filter((i) => typeof i === 'number')
+      .map((i) => toOriginalOptionIndex(layout, question, i))
+      .filter((i) => typeof i === 'number');
+  }
+  if (TEXT_ANSWER_TYPES.includes(question.questionType)) {
+    return typeof displayed === 'string' ? displayed : null;
+  }
+  return typeof displayed === 'number' ? toOriginalOptionIndex(layout, question, displayed) : null;
+}
+
+function toStoredEntry(question, answer, displayed) {
+  if (question.questionType === 'multi_select') {
+    return { selectedIndexes: answer, displayedIndexes: displayed };
+  }
+  if (TEXT_ANSWER_TYPES.includes(question.questionType)) return { text: answer };
+  return { selectedIndex: answer, displayedIndex: displayed };
+}
+
+async function updateStudentStatsForSkill({ student, skill, bandScore }) {
+  if (bandScore == null) return;
+
+  const batch = await homeBatch(student._id);
+
+  let stats = await StudentStats.findOne({ student: student._id });
+  if (!stats) {
+    stats = new StudentStats({
+      student: student._id,
+      name: student.name,
+      email: student.email,
+      systemId: student.systemId,
+      batch: batch ? batch._id : null,
+      batchName: batch ? batch.name : null,
+    });
+  } else {
+    stats.name = student.name;
+    stats.email = student.email;
+    stats.systemId = student.systemId;
+    if (batch) {
+      stats.batch = batch._id;
+      stats.batchName = batch.name;
+    }
+  }
+
+  if (skill === 'reading') stats.readingBand = bandScore;
+  if (skill === 'listening') stats.listeningBand = bandScore;
+  if (skill === 'writing') stats.writingBand = bandScore;
+  if (skill === 'speaking') stats.speakingBand = bandScore;
+
+  // compute overall as average of available skills
+  const values = [
+    stats.readingBand,
+    stats.listeningBand,
+    stats.writingBand,
+    stats.speakingBand,
+  ].filter((v) => typeof v === 'number' && v > 0);
+
+  stats.overallBand = values.length ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 2) / 2 : null;
+
+  await stats.save();
+}
+
+// Reading/listening marks, with index-keyed answers read against the attempt's layout
+function gradeResponse(testSet, layout, response) {
+  const totals = {
+    earnedMarks: 0,
+    maxMarks: 0,
+    correctCount: 0,
+    incorrectCount: 0,
+    totalQuestions: 0,
+    attemptedCount: 0,
+    unattemptedCount: 0,
+  };
+  const isArrayResp = Array.isArray(response);
+  // with a layout, index-keyed answers refer to the displayed position
+  const displayIndexById = new Map(
+    (layout?.questionOrder || []).map((qid, i) => [qid, i])
+  );
+  const mappedResponse = isArrayResp ? [] : {};
+
+  testSet.questions.forEach((q, storedIdx) => {
+    if (!AUTO_GRADED_TYPES.includes(q.questionType)) return;
+    const idx = displayIndexById.has(String(q._id))
+      ? displayIndexById.get(String(q._id))
+      : storedIdx;
+
+    totals.totalQuestions += 1;
+    totals.maxMarks += q.marks || 1;
+
+    let entry = null;
+    let displayedAnswer = null;
+
+    if (isArrayResp) {
+      entry = response.find(
+        (r) =>
+          r.questionIndex === idx ||
+          String(r.questionId) === String(q._id)
+      );
+      if (entry) displayedAnswer = entry.answer;
+    } else if (response && typeof response === 'object') {
+      const keyByIndex = String(idx);
+      const keyById = q._id ? String(q._id) : null;
+      const stored = (keyById && response[keyById]) || response[keyByIndex] || null;
+      if (stored) displayedAnswer = answerFromEntry(q, stored);
+    }
+
+    const studentAnswer = toCanonicalAnswer(layout, q, displayedAnswer);
+    if (studentAnswer !== null) {
+      if (isArrayResp) {
+        mappedResponse.push({
+          ...entry,
+          questionId: String(q._id),
+          answer: studentAnswer,
+          displayedAnswer,
+        });
+      } else {
+        mappedResponse[String(q._id)] = toStoredEntry(q, studentAnswer, displayedAnswer);
+      }
+    }
+
+    const result = gradeQuestion(q, studentAnswer);
+    if (result.attempted) {
+      totals.attemptedCount += 1;
+      totals.earnedMarks += result.earned;
+      if (result.correct) totals.correctCount += 1;
+      else totals.incorrectCount += 1;
+    } else {
+      totals.unattemptedCount += 1;
+    }
+  });
+
+  return { ...totals, mappedResponse };
+}
+
+// Writing/speaking are graded later; only count the tasks that have an answer
+function countTaskAnswers(testSet, skill, response, recordings) {
+  const skillQuestions = (testSet.questions || []).filter((q) => q.questionType === skill);
+  const totalQuestions = skillQuestions.length;
+  const recorded = new Set(recordings.map((r) => r.questionId));
+  const answers = response && typeof response === 'object' ? response : {};
+
+  const attemptedCount = skillQuestions.reduce((count, q, idx) => {
+    if (skill === 'speaking' && recorded.has(String(q._id))) return count + 1;
+    const keyById = q._id ? String(q._id) : null;
+    const ans = (keyById && answers[keyById]) || answers[String(idx)] || null;
+    const given = skill === 'writing' ? ans && ans.text : ans && ans.uploadedUrl;
+    return typeof given === 'string' && given.trim().length > 0 ? count + 1 : count;
+  }, 0);
+
+  return { totalQuestions, attemptedCount, unattemptedCount: Math.max(totalQuestions - attemptedCount, 0) };
+}
+
+const fileHash = (file) =>
+  new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(file)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+
+// A prompt whose time ran out keeps only the recording the runner had when it
+// locked (its SHA-256 is in the locked answer); anything recorded after that, or
+// for a question that is not a speaking prompt, is deleted.
+async function recordingsWithinLocks(testSet, recordings, locked) {
+  const promptIds = new Set(
+    (testSet.questions || []).filter((q) => q.questionType === 'speaking').map((q) => String(q._id))
+  );
+  const kept = [];
+  for (const recording of recordings) {
+    let keep = promptIds.has(recording.questionId) && !kept.some((r) => r.questionId === recording.questionId);
+    if (keep && locked.has(recording.questionId)) {
+      const lockedAnswer = locked.get(recording.questionId);
+      keep = !!(lockedAnswer && lockedAnswer.recordingHash) && lockedAnswer.recordingHash === (await fileHash(recording.path));
+    }
+    if (keep) kept.push(recording);
+    else fs.unlink(recording.path, () => {});
+  }
+  return kept;
+}
+
+/**
+ * Store the answers of `attempt` (already closed for submission) as a
+ * Submission of `skill`, graded against the version the attempt was served.
+ * `response` is what the runner keeps: { [questionId | index]: entry } or an
+ * array of { questionId | questionIndex, answer }. Answers to sections or
+ * prompts whose own time ran out are replaced by the ones locked at the time.
+ * `recordings` ([{ questionId, path }]) are the speaking prompts' uploaded files.
+ *
+ * Returns { submission, mockResult, jobId, autoGradable }.
+ */
+async function createSubmission({
+  student,
+  liveTest,
+  attempt,
+  skill,
+  response,
+  mockResult = null,
+  recordings = [],
+  evaluationPayload = null,
+}) {
+  const testSet = await testAtVersion(liveTest, attempt.testVersion);
+  const autoGradable = skill === 'reading' || skill === 'listening';
+
+  // Answers were given against this attempt's shuffled layout (if any)
+  const layout = attempt.shuffleSeed ? attempt.layout : null;
+
+  const locked = await examTimerService.settleTimings(attempt._id);
+  const indexById = new Map(testSet.questions.map((q, i) => [String(q._id), i]));
+  (layout?.questionOrder || []).forEach((qid, i) => indexById.set(qid, i));
+  let answers = examTimerService.applyLockedAnswers(response || {}, locked, indexById);
+  const media = skill === 'speaking' ? await recordingsWithinLocks(testSet, recordings, locked) : [];
+
+  let summary = {
+    earnedMarks: 0,
+    maxMarks: 0,
+    correctCount: 0,
+    incorrectCount: 0,
+    totalQuestions: 0,
+    attemptedCount: 0,
+    unattemptedCount: 0,
+  };
+  let bandScore = null;
+  let bandTable = null;
+
+  if (autoGradable) {
+    const { mappedResponse, ...graded } = gradeResponse(testSet, layout, answers);
+    summary = graded;
+    // official raw-to-band table for the test; linear fallback if it has none
+    const converted = await convertRawScore(testSet, skill, summary.earnedMarks, summary.maxMarks);
+    bandScore = converted ? converted.bandScore : computeBandScore(summary.earnedMarks, summary.maxMarks);
+    bandTable = converted ? converted.bandTable : null;
+
+    // store answers against the authored option order so reviews don't need the layout
+    if (layout) answers = mappedResponse;
+  } else if (skill === 'writing' || skill === 'speaking') {
+    summary = { ...summary, ...countTaskAnswers(testSet, skill, answers, media) };
+  }
+
+  const submission = await Submission.create({
+    student: student._id,
+    testSet: testSet._id,
+    testVersion: testSet.version || null,
+    batch: await submissionBatchId(student._id, testSet),
+    skill,
+    response: answers,
+    status: autoGradable ? 'graded' : 'pending',
+    totalMarks: summary.earnedMarks || 0,
+    maxMarks: summary.maxMarks || 0,
+    correctCount: summary.correctCount,
+    incorrectCount: summary.incorrectCount,
+    totalQuestions: summary.totalQuestions,
+    attemptedCount: summary.attemptedCount,
+    unattemptedCount: summary.unattemptedCount,
+    bandScore,
+    bandTable,
+    recordings: media,
+    mockResult: mockResult ? mockResult._id : null,
+  });
+
+  // the submission now holds the answers
+  await TestAttempt.updateOne({ _id: attempt._id }, { $set: { submissionId: submission._id } });
+  await AttemptDraft.deleteOne({ testAttempt: attempt._id });
+
+  if (mockResult) await mockResultService.recordModuleSubmission(mockResult, submission);
+
+  let jobId = null;
+  if (!autoGradable) {
+    const job = await submissionQueue.add({
+      submissionId: submission._id.toString(),
+      studentId: student._id.toString(),
+      testId: testSet._id.toString(),
+      skill,
+      response: answers,
+      recordings: media,
+      evaluationPayload,
+    });
+    jobId = job.id || null;
+  }
+
+  if (bandScore != null) {
+    await updateStudentStatsForSkill({ student, skill, bandScore });
+  }
+
+  return { submission, mockResult, jobId, autoGradable };
+}
+
+module.exports = {
+  createSubmission,
+};
@@ -0,0 +1,200 @@
+// services/termService.js
+// Closing an academic term: archiving its batches and promoting its students
+// into next term's batches. Rosters of archived batches are left as they were,
+// so past submissions and stats stay attributable to the batch they came from.
+const Batch = require('../models/Batch');
+const StudentStats = require('../models/StudentStats');
+const Submission = require('../models/Submission');
+const { addStudents, closeMemberships, reopenMemberships } = require('./batchMembershipService');
+
+const sameId = (a, b) => String(a) === String(b);
+
+// Record each student's bands against the batch they are leaving, and stamp
+// that batch onto submissions made before batches were recorded on them.
+async function closeTermStats(term, batches) {
+  const now = new Date();
+  for (const batch of batches) {
+    if (!batch.students.length) continue;
+
+    await Submission.updateMany(
+      { student: { $in: batch.students }, batch: null, createdAt: { $lte: now } },
+      { $set: { batch: batch._id } }
+    );
+
+    const statsDocs = await StudentStats.find({ student: { $in: batch.students } });
+    for (const stats of statsDocs) {
+      if ((stats.history || []).some((h) => sameId(h.term, term._id))) continue;
+      stats.history.push({
+        term: term._id,
+        termName: term.name,
+        batch: batch._id,
+        batchName: batch.name,
+        readingBand: stats.readingBand,
+        listeningBand: stats.listeningBand,
+        writingBand: stats.writingBand,
+        speakingBand: stats.speakingBand,
+        overallBand: stats.overallBand,
+        mockOverallBand: stats.mockOverallBand,
+        closedAt: now,
+      });
+      await stats.save();
+    }
+  }
+}
+
+async function archiveTerm(term, actor) {
+  const batches = await Batch.find({ term: term._id });
+  await closeTermStats(term, batches);
+
+  const now = new Date();
+  await Batch.updateMany({ term: term._id }, { $set: { archived: true, archivedAt: now } });
+  await closeMemberships(batches.map((b) => b._id), now);
+  term.status = 'archived';
+  term.archivedAt = now;
+  term.archivedBy = actor._id;
+  await term.save();
+  return { batches: batches.length };
+}
+
+/**
+ * Reopen an archived term. Not possible once its students were promoted, since
+ * they would then sit in two active batches.
+ */
+async function unarchiveTerm(term) {
+  if (term.promotedTo) return { error: 'Students of this term were already promoted; it can no longer be reopened' };
+  const batches = await Batch.find({ term: term._id }).select('_id students').lean();
+  const studentIds = batches.flatMap((b) => b.students);
+
+  const elsewhere = await Batch.findOne({
+    _id: { $nin: batches.map((b) => b._id) },
+    archived: { $ne: true },
+    elective: { $ne: true },
+    students: { $in: studentIds },
+  }).select('name').lean();
+  if (elsewhere) {
+    return { error: `Some students are now in the active batch "${elsewhere.name}"; move them back first` };
+  }
+
+  await Batch.updateMany({ term: term._id }, { $set: { archived: false, archivedAt: null } });
+  await reopenMemberships(batches.map((b) => b._id), term.archivedAt);
+  await StudentStats.updateMany({ student: { $in: studentIds } }, { $pull: { history: { term: term._id } } });
+  term.status = 'active';
+  term.archivedAt = null;
+  term.archivedBy = null;
+  await term.save();
+  return { batches: batches.length };
+}
+
+/**
+ * Move the students of `source` into batches of `target` and archive `source`.
+ * mappings: [{ from: batchId, to: batchId } | { from: batchId, newName }]; a
+ * newName creates the batch in the target term with the same program/section
+ * and the next year. Source batches without a mapping (e.g. a graduating year)
+ * are archived and their students are left without an active batch.
+ * Returns { error } or a summary.
+ */
+async function promoteTerm(source, target, mappings, actor) {
+  if (sameId(source._id, target._id)) return { error: 'Choose a different term to promote into' };
+  if (target.status === 'archived') return { error: `Term "${target.name}" is archived` };
+  if (source.promotedTo) return { error: 'Students of this term were already promoted' };
+  if (!Array.isArray(mappings) || mappings.length === 0) return { error: 'mappings must be a non-empty array' };
+
+  const sourceBatches = await Batch.find({ term: source._id });
+  const targetBatches = await Batch.find({ term: target._id, archived: { $ne: true } });
+
+  const seen = new Set();
+  const plan = [];
+  for (const m of mappings) {
+    const from = sourceBatches.find((b) => sameId(b._id, m.from));
+    if (!from) return { error: `Batch ${m.from} is not part of term "${source.name}"` };
+    if (seen.has(String(from._id))) return { error: `Batch "${from.name}" is mapped twice` };
+    seen.add(String(from._id));
+
+    if (m.to) {
+      const to = targetBatches.find((b) => sameId(b._id, m.to));
+      if (!to) return { error: `Target for "${from.name}" is not an active batch of term "${target.name}"` };
+      plan.push({ from, to });
+    } else if (m.newName && String(m.newName).trim()) {
+      const name = String(m.newName).trim();
+      if (await Batch.exists({ name })) return { error: `A batch named "${name}" already exists` };
+      if (plan.some((p) => p.newName === name)) return { error: `"${name}" is used for two batches` };
+      plan.push({ from, newName: name });
+    } else {
+      return { error: `Choose a target batch for "${from.name}"` };
+    }
+  }
+
+  // anyone already placed in an active regular batch outside this term stays where they are
+  const alreadyPlaced = await Batch.find({
+    term: { $ne: source._id },
+    archived: { $ne: true },
+    elective: { $ne: true },
+    students: { $in: sourceBatches.flatMap((b) => b.students) },
+  }).select('name students').lean();
+  const placedIn = new Map();
+  alreadyPlaced.forEach((b) => b.students.forEach((s) => placedIn.set(String(s), b.name)));
+
+  if (source.status !== 'archived') await archiveTerm(source, actor);
+
+  const results = [];
+  for (const p of plan) {
+    let to = p.to;
+    if (!to) {
+      to = await Batch.create({
+        name: p.newName,
+        program: p.from.program,
+        section: p.from.section,
+        year: p.from.year ? p.from.year + 1 : undefined,
+        term: target._id,
+        createdBy: actor._id,
+      });
+    }
+
+    const moving = p.from.students.filter((s) => !placedIn.has(String(s)) || placedIn.get(String(s)) === to.name);
+    const skipped = p.from.students.filter((s) => !moving.some((m) => sameId(m, s)));
+    if (moving.length) {
+      await addStudents(to, moving, { by: actor._id, reason: 'promoted' });
+      await StudentStats.updateMany(
+        { student: { $in: moving } },
+        { $set: { batch: to._id, batchName: to.name } }
+      );
+    }
+    await Batch.updateOne({ _id: p.from._id }, { $set: { promotedTo: to._id } });
+
+    results.push({
+      from: { _id: p.from._id, name: p.from.name },
+      to: { _id: to._id, name: to.name, created: !p.to },
+      promoted: moving.length,
+      skipped: skipped.map((s) => ({ student: s, reason: `Already in active batch "${placedIn.get(String(s))}"` })),
+    });
+  }
+
+  // students of unmapped batches have no current batch any more
+  const leftBehind = sourceBatches.filter((b) => !seen.has(String(b._id)));
+  const leavingIds = leftBehind.flatMap((b) => b.students).filter((s) => !placedIn.has(String(s)));
+  if (leavingIds.length) {
+    await StudentStats.updateMany({ student: { $in: leavingIds } }, { $set: { batch: null, batchName: null } });
+  }
+
+  source.promotedTo = target._id;
+  source.promotedAt = new Date();
+  await source.save();
+
+  return {
+    batches: results,
+    promoted: results.reduce((n, r) => n + r.promoted, 0),
+    notPromoted: leavingIds.length,
+  };
+}
+
+// reject writes to a batch whose term has been archived
+function archivedBatchError(batch) {
+  return batch && batch.archived ? `Batch "${batch.name}" is archived and read-only` : null;
+}
+
+module.exports = {
+  archiveTerm,
+  unarchiveTerm,
+  promoteTerm,
+  archivedBatchError,
+};
@@ -0,0 +1,69 @@
+// services/testPreviewService.js
+// "Preview as student" for faculty: a test's content as the runner serves it,
+// answer key included, and the auto-grade of answers given in a preview. The
+// grade goes through the same matching and band conversion as a submission,
+// but nothing is stored: no attempt, submission, proctor log or stats.
+const { contentOf, openDraft, loadVersion } = require('./testVersionService');
+const { convertRawScore } = require('./bandTableService');
+const { AUTO_GRADED_TYPES, answerFromEntry, gradeQuestion } = require('../utils/answerMatching');
+const { computeBandScore } = require('../utils/scoring');
+
+/**
+ * The content to preview. `version` is 'draft', 'live' or a version number;
+ * left out, the open draft if there is one, otherwise the live content.
+ * Returns null when that version does not exist.
+ */
+async function previewContent(test, version) {
+  let wanted = version ? String(version) : null;
+  if (!wanted) wanted = (await openDraft(test._id).select('_id').lean()) ? 'draft' : 'live';
+
+  const source = wanted === 'live' ? test : await loadVersion(test, wanted);
+  if (!source) return null;
+  return {
+    _id: test._id,
+    type: test.type,
+    ...contentOf(source),
+    previewVersion: wanted === 'live' ? test.version || null : source.version,
+    previewDraft: wanted === 'draft',
+  };
+}
+
+/**
+ * Grade a preview's answers ({ [questionId | index]: entry }, as the runner
+ * keeps them). Writing and speaking are graded against the rubric after a real
+ * submission, so for those only { autoGraded: false } comes back.
+ */
+async function gradePreview(content, response = {}) {
+  if (content.type !== 'reading' && content.type !== 'listening') return { autoGraded: false };
+
+  const questions = [];
+  let earnedMarks = 0;
+  let maxMarks = 0;
+  (content.questions || []).forEach((q, idx) => {
+    if (!AUTO_GRADED_TYPES.includes(q.questionType)) return;
+    const stored = (q._id && response[String(q._id)]) || response[String(idx)] || null;
+    const result = gradeQuestion(q, stored ? answerFromEntry(q, stored) : null);
+    const marks = q.marks || 1;
+    maxMarks += marks;
+    earnedMarks += result.earned;
+    questions.push({ questionId: q._id ? String(q._id) : null, index: idx, marks, ...result });
+  });
+
+  const converted = await convertRawScore(content, content.type, earnedMarks, maxMarks);
+  const count = (test) => questions.filter(test).length;
+  return {
+    autoGraded: true,
+    earnedMarks,
+    maxMarks,
+    correctCount: count((r) => r.correct),
+    incorrectCount: count((r) => r.attempted && !r.correct),
+    unattemptedCount: count((r) => !r.attempted),
+    bandScore: converted ? converted.bandScore : computeBandScore(earnedMarks, maxMarks),
+    questions,
+  };
+}
+
+module.exports = {
+  previewContent,
+  gradePreview,
+};
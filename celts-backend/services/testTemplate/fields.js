@@ -0,0 +1,58 @@
+// services/testTemplate/fields.js
+// The names a template may use for each field, in a Markdown "Key: value" line
+// or a sheet header. Names are compared lower-case with anything but letters
+// and digits dropped, so "Word limit", "word_limit" and "WordLimit" all match.
+
+const normalizeName = (name) => String(name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const TEST_FIELDS = {
+  title: ['title', 'testtitle', 'name'],
+  type: ['type', 'testtype', 'skill'],
+  description: ['description', 'instructions'],
+  timeLimitMinutes: ['timelimit', 'duration', 'timelimitminutes'],
+};
+
+// for a sheet these are the section columns; Markdown sets them under the ## heading
+const SECTION_FIELDS = {
+  section: ['section', 'sectionid', 'passageno', 'audiono', 'group'],
+  title: ['title', 'sectiontitle'],
+  passage: ['passage', 'passagetext', 'text'],
+  audio: ['audio', 'audiourl', 'audiofile', 'recording'],
+  listenLimit: ['listenlimit', 'plays', 'playlimit'],
+  timeLimitMinutes: ['timelimit', 'sectiontimelimit', 'timelimitminutes'],
+};
+
+const QUESTION_FIELDS = {
+  number: ['number', 'no', 'qno', 'questionno', 'questionnumber'],
+  prompt: ['question', 'prompt', 'questiontext'],
+  type: ['type', 'questiontype'],
+  options: ['options', 'choices'],
+  answer: ['answer', 'answers', 'correct', 'correctanswer', 'key'],
+  marks: ['marks', 'mark', 'points'],
+  explanation: ['explanation', 'rationale', 'feedback'],
+  wordLimit: ['wordlimit', 'maxwords'],
+  charLimit: ['charlimit', 'characterlimit', 'maxcharacters'],
+  image: ['image', 'imageurl', 'diagram'],
+  selectCount: ['select', 'selectcount'],
+  caseSensitive: ['casesensitive'],
+  spellingTolerance: ['spellingtolerance', 'tolerance'],
+  writingType: ['writingtype'],
+  speakingMode: ['speakingmode'],
+  recordLimitSeconds: ['recordlimit', 'recordlimitseconds'],
+  timeLimitSeconds: ['timelimit', 'questiontimelimit', 'timelimitseconds'],
+  playAllowed: ['playallowed', 'promptplays'],
+};
+
+// field a name stands for in `fields`, or null
+function fieldFor(fields, name) {
+  const key = normalizeName(name);
+  return Object.keys(fields).find((field) => fields[field].includes(key)) || null;
+}
+
+module.exports = {
+  normalizeName,
+  TEST_FIELDS,
+  SECTION_FIELDS,
+  QUESTION_FIELDS,
+  fieldFor,
+};
@@ -0,0 +1,176 @@
+// services/testTemplate/index.js
+// Authoring templates: a paper drafted in Markdown or a CSV / XLSX sheet becomes
+// a draft test. Both formats are read into the same shape (see parseMarkdown),
+// and planTemplateImport builds the TestSet payload and a per-question report
+// from it without saving anything.
+const fs = require('fs');
+const path = require('path');
+const { parseMarkdown } = require('./markdown');
+const { parseSheet } = require('./sheet');
+const { buildQuestion, impliedType, isUrl } = require('./questions');
+const { QUESTION_TYPES_FOR_TEST } = require('../../utils/answerMatching');
+
+const SAMPLES = {
+  md: { file: 'test-template.md', type: 'text/markdown' },
+  csv: { file: 'test-template.csv', type: 'text/csv' },
+};
+
+const SECTION_KIND_FOR_TEST = { reading: 'passage', listening: 'audio' };
+
+// a sample template, which also documents the format; null for unknown formats
+function sampleTemplate(format) {
+  const sample = SAMPLES[format];
+  if (!sample) return null;
+  return { ...sample, body: fs.readFileSync(path.join(__dirname, '../../templates', sample.file)) };
+}
+
+async function readTemplate(buffer, filename) {
+  if (/\.(md|markdown|txt)$/i.test(filename)) return parseMarkdown(buffer.toString('utf8'));
+  if (/\.(csv|xlsx)$/i.test(filename)) return parseSheet(buffer, filename);
+  return { error: 'Upload a Markdown (.md), CSV or XLSX template' };
+}
+
+// sections decide first; otherwise whichever kind of question is most common
+function inferTestType(doc) {
+  if (doc.sections.some((s) => s.kind === 'audio')) return 'listening';
+  if (doc.sections.some((s) => s.kind === 'passage')) return 'reading';
+  const counts = { reading: 0, writing: 0, speaking: 0 };
+  for (const q of doc.questions) {
+    const kind = impliedType(q);
+    if (kind === 'writing' || kind === 'speaking') counts[kind] += 1;
+    else if (q.options.length || q.answer) counts.reading += 1;
+  }
+  if (counts.reading > 0 && counts.reading >= Math.max(counts.writing, counts.speaking)) return 'reading';
+  return counts.speaking > counts.writing ? 'speaking' : 'writing';
+}
+
+// a positive whole number, or `fallback`
+const wholeNumber = (value, fallback) => {
+  const n = Number(String(value ?? '').trim());
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+};
+
+const statusOf = (messages) =>
+  messages.some((m) => m.level === 'error') ? 'error' : messages.some((m) => m.level === 'warning') ? 'warning' : 'ok';
+
+/**
+ * Plan a draft test from a template. `type` and `title` override what the
+ * template says; `audio` maps listening section ids to uploaded audio URLs,
+ * for recordings the template names by file rather than URL.
+ * Returns { error } or { report, test } where `test` is the TestSet payload.
+ */
+async function planTemplateImport(buffer, filename, { type, title, audio = {} } = {}) {
+  const doc = await readTemplate(buffer, filename);
+  if (doc.error) return { error: doc.error };
+  const messages = [...doc.messages];
+
+  const namedType = String(doc.type || '').trim().toLowerCase();
+  if (namedType && !QUESTION_TYPES_FOR_TEST[namedType]) {
+    messages.push({ level: 'warning', message: `Type "${doc.type}" is not reading, listening, writing or speaking; it was worked out from the questions` });
+  }
+  const testType = type || (QUESTION_TYPES_FOR_TEST[namedType] ? namedType : inferTestType(doc));
+  const fits = QUESTION_TYPES_FOR_TEST[testType];
+
+  // the passages or recordings this kind of test holds, in template order
+  const readingSections = [];
+  const listeningSections = [];
+  const reportSections = [];
+  const sectionIds = new Map();
+  for (const section of doc.sections) {
+    if (section.kind === 'plain') continue;
+    if (section.kind !== SECTION_KIND_FOR_TEST[testType]) {
+      messages.push({ level: 'warning', message: `${section.location}: "${section.title}" was left out; a ${testType} test has no ${section.kind === 'passage' ? 'passages' : 'recordings'}` });
+      continue;
+    }
+    const timeLimitMinutes = wholeNumber(section.timeLimitMinutes, 0);
+    if (section.kind === 'passage') {
+      const id = `read-${readingSections.length + 1}`;
+      readingSections.push({ id, title: section.title, passage: section.passage, timeLimitMinutes });
+      reportSections.push({ id, title: section.title, kind: 'passage' });
+      sectionIds.set(section.key, id);
+      if (!section.passage) messages.push({ level: 'error', message: `${section.location}: "${section.title}" has no passage text` });
+    } else {
+      const id = `listen-${listeningSections.length + 1}`;
+      const source = String(section.audio || '').trim();
+      const audioUrl = audio[id] || (isUrl(source) ? source : '');
+      listeningSections.push({ id, title: section.title, audioUrl, listenLimit: wholeNumber(section.listenLimit, 1), timeLimitMinutes });
+      reportSections.push({ id, title: section.title, kind: 'audio', audioUrl, audioSource: source });
+      sectionIds.set(section.key, id);
+      if (!audioUrl) {
+        messages.push({ level: 'error', message: `"${section.title}" has no audio${source ? ` (the template names ${source})` : ''}; upload the recording before importing` });
+      }
+    }
+  }
+
+  const sections = testType === 'reading' ? readingSections : listeningSections;
+  const questions = [];
+  const items = [];
+  let lastSectionId = null;
+  for (const raw of doc.questions) {
+    const built = buildQuestion(raw, testType);
+    const item = {
+      number: raw.number,
+      location: raw.location,
+      prompt: String(raw.prompt || '').trim(),
+      questionType: built.question ? built.question.questionType : null,
+      messages: built.messages,
+      section: null,
+    };
+    const q = built.question;
+    if (q && !fits.includes(q.questionType)) {
+      item.messages.push({ level: 'error', message: `${q.questionType} questions do not belong in a ${testType} test` });
+    } else if (q) {
+      let sectionId = sectionIds.get(raw.sectionKey) || null;
+      if (!sectionId && sections.length) {
+        sectionId = lastSectionId || sections[0].id;
+        const home = sections.find((s) => s.id === sectionId);
+        item.messages.push({ level: 'warning', message: `is not under a ${testType === 'reading' ? 'passage' : 'recording'}; added to "${home.title}"` });
+      }
+      lastSectionId = sectionId || lastSectionId;
+      item.section = sectionId ? sections.find((s) => s.id === sectionId).title : null;
+      questions.push({ ...q, sectionId });
+    }
+    item.status = statusOf(item.messages);
+    items.push(item);
+  }
+
+  if (testType === 'reading' && readingSections.length === 0) {
+    messages.push({ level: 'error', message: 'No reading passage found; start one with a "## Passage" heading or fill in a Passage column' });
+  }
+  if (testType === 'listening' && listeningSections.length === 0) {
+    messages.push({ level: 'error', message: 'No recording found; start one with a "## Audio" heading or fill in an Audio column' });
+  }
+  if (items.length === 0) messages.push({ level: 'error', message: 'The template has no questions' });
+  else if (questions.length === 0) messages.push({ level: 'error', message: 'None of the questions could be imported' });
+
+  const testTitle = title || String(doc.title || '').trim() || path.parse(filename).name || 'Imported test';
+  const summary = { total: items.length, ok: 0, warning: 0, error: 0 };
+  items.forEach((i) => { summary[i.status] += 1; });
+  for (const s of reportSections) s.questions = questions.filter((q) => q.sectionId === s.id).length;
+
+  return {
+    report: {
+      title: testTitle,
+      type: testType,
+      typeInferred: !type && !QUESTION_TYPES_FOR_TEST[namedType],
+      sections: reportSections,
+      messages,
+      items,
+      summary,
+    },
+    test: {
+      title: testTitle,
+      description: String(doc.description || '').trim(),
+      type: testType,
+      readingSections,
+      listeningSections,
+      questions,
+      timeLimitMinutes: wholeNumber(doc.timeLimitMinutes, 0),
+    },
+  };
+}
+
+module.exports = {
+  sampleTemplate,
+  planTemplateImport,
+};
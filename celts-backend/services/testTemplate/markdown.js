@@ -0,0 +1,189 @@
+// services/testTemplate/markdown.js
+// Reads the Markdown template (templates/test-template.md documents it):
+//
+//   # Test title                      then "Type: reading", "Time limit: 40", ...
+//   ## Passage 1: The tea trade       a reading passage, its text below the heading
+//   ## Audio 1: Campus tour           a recording: "Audio: <url>", "Listen limit: 2"
+//   ## Questions                      questions that belong to no passage or recording
+//   1. Question text [2 marks]        a question; "A) option *" marks the correct one,
+//                                     "Answer:", "Explanation:", ... lines set the rest
+//
+// In a passage, the text runs up to the first numbered line or, when the passage
+// itself has numbered paragraphs, up to a "### Questions" heading.
+const { TEST_FIELDS, SECTION_FIELDS, QUESTION_FIELDS, fieldFor } = require('./fields');
+const { readOption } = require('./questions');
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const KEY_LINE = /^\s*([A-Za-z][A-Za-z _-]{0,30}?)\s*:\s*(.*)$/;
+const QUESTION_START = /^(?:Q\s*)?(\d+)[.)]\s+(.*)$/i;
+const LETTER_OPTION = /^\s*(?:[-*+]\s+)?([A-Ha-h])[.)]\s+(.*)$/;
+const CHECKBOX_OPTION = /^\s*[-*+]\s+\[([ xX])\]\s+(.*)$/;
+const MARKS_SUFFIX = /\s*[[(](\d+(?:\.\d+)?)\s*marks?[\])]\s*$/i;
+
+const SECTION_KINDS = [
+  ['passage', /^(passage|reading|text)\b/i],
+  ['audio', /^(audio|listening|recording|track)\b/i],
+];
+
+// HTML comments carry the template's own notes; blank them out, keeping line numbers
+const stripComments = (text) => text.replace(/<!--[\s\S]*?-->/g, (c) => c.replace(/[^\n]/g, ''));
+
+// join text lines, keeping blank lines as paragraph breaks
+const joinLines = (lines) =>
+  lines.join('\n').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+// "Passage 2: The tea trade" -> "The tea trade"; a bare "Passage 2" is its own title
+function headingTitle(text) {
+  const named = /^[^:]*?(?::|\s[–—-])\s*(.+)$/.exec(text);
+  return (named ? named[1] : text).trim();
+}
+
+function keyValue(line, fields) {
+  const m = KEY_LINE.exec(line);
+  if (!m) return null;
+  const field = fieldFor(fields, m[1]);
+  return field ? { field, value: m[2].trim() } : null;
+}
+
+/**
+ * Parse a Markdown template into the shape shared with sheets:
+ * { title, type, description, timeLimitMinutes, sections, questions, messages }
+ * where sections are { key, kind: passage|audio|plain, title, passage, audio,
+ * listenLimit, timeLimitMinutes, location } and questions carry their
+ * QUESTION_FIELDS values plus { location, sectionKey, options }.
+ */
+function parseMarkdown(text) {
+  const lines = stripComments(String(text || '').replace(/^﻿/, '')).split(/\r?\n/);
+  const doc = { title: '', type: '', description: '', timeLimitMinutes: '', sections: [], questions: [], messages: [] };
+  const warn = (n, message) => doc.messages.push({ level: 'warning', message: `Line ${n}: ${message}` });
+
+  // split at ## headings; the part before the first one describes the test
+  const blocks = [{ heading: null, lines: [] }];
+  lines.forEach((line, i) => {
+    const h = HEADING.exec(line);
+    if (h && h[1].length === 2) blocks.push({ heading: { text: h[2], n: i + 1 }, lines: [] });
+    else blocks[blocks.length - 1].lines.push({ text: line, n: i + 1 });
+  });
+
+  readHeader(blocks[0].lines, doc, warn);
+  blocks.slice(1).forEach((block, i) => readSection(block, `s${i + 1}`, doc, warn));
+  return doc;
+}
+
+function readHeader(lines, doc, warn) {
+  const description = [];
+  for (const { text, n } of lines) {
+    const h = HEADING.exec(text);
+    if (h && h[1].length === 1 && !doc.title) {
+      doc.title = h[2];
+      continue;
+    }
+    const kv = keyValue(text, TEST_FIELDS);
+    if (kv) {
+      doc[kv.field] = kv.value;
+      continue;
+    }
+    if (QUESTION_START.test(text)) {
+      warn(n, 'questions go under a ## heading (## Passage, ## Audio or ## Questions); this one was skipped');
+      continue;
+    }
+    description.push(text);
+  }
+  if (!doc.description) doc.description = joinLines(description);
+}
+
+function readSection(block, key, doc, warn) {
+  const kind = (SECTION_KINDS.find(([, re]) => re.test(block.heading.text)) || ['plain'])[0];
+  const section = { key, kind, title: headingTitle(block.heading.text), passage: '', audio: '', location: `Line ${block.heading.n}` };
+  doc.sections.push(section);
+
+  let i = 0;
+  const { lines } = block;
+  // settings directly under the heading
+  while (i < lines.length) {
+    if (!lines[i].text.trim()) { i += 1; continue; }
+    const kv = keyValue(lines[i].text, SECTION_FIELDS);
+    if (!kv || kv.field === 'section' || kv.field === 'passage') break;
+    section[kv.field] = kv.value;
+    i += 1;
+  }
+
+  const marker = lines.findIndex((l, j) => j >= i && /^#{3,}\s+questions?\b/i.test(l.text));
+  const firstQuestion = lines.findIndex((l, j) => j >= i && QUESTION_START.test(l.text));
+  const end = marker >= 0 ? marker : firstQuestion >= 0 ? firstQuestion : lines.length;
+  const lead = joinLines(lines.slice(i, end).map((l) => l.text));
+  if (kind === 'passage') section.passage = lead;
+  else if (lead) warn(lines[i].n, `the text under "${block.heading.text}" was left out; only passages hold text`);
+
+  readQuestions(lines.slice(marker >= 0 ? marker + 1 : end), key, doc, warn);
+}
+
+function readQuestions(lines, sectionKey, doc, warn) {
+  let q = null;
+  let prompt = [];
+  let explanation = [];
+  let last = null; // the text field loose lines add to: prompt or explanation
+
+  const finish = () => {
+    if (!q) return;
+    q.prompt = joinLines(prompt);
+    if (explanation.length) q.explanation = joinLines(explanation);
+    doc.questions.push(q);
+  };
+
+  for (const { text, n } of lines) {
+    const start = QUESTION_START.exec(text);
+    if (start) {
+      finish();
+      q = { location: `Line ${n}`, number: start[1], sectionKey, options: [] };
+      const marks = MARKS_SUFFIX.exec(start[2]);
+      if (marks) q.marks = marks[1];
+      prompt = [start[2].replace(MARKS_SUFFIX, '')];
+      explanation = [];
+      last = 'prompt';
+      continue;
+    }
+    if (!text.trim()) {
+      if (last === 'prompt') prompt.push('');
+      if (last === 'explanation') explanation.push('');
+      continue;
+    }
+    if (HEADING.test(text)) continue; // "### Questions 1-5" and the like
+    if (!q) {
+      warn(n, 'is not part of a question and was left out');
+      continue;
+    }
+
+    const checkbox = CHECKBOX_OPTION.exec(text);
+    const letter = !checkbox && LETTER_OPTION.exec(text);
+    if (checkbox || letter) {
+      const option = readOption(checkbox ? checkbox[2] : letter[2]);
+      if (checkbox && checkbox[1] !== ' ') option.correct = true;
+      q.options.push(option);
+      last = null;
+      continue;
+    }
+
+    const kv = keyValue(text, QUESTION_FIELDS);
+    if (kv && kv.field !== 'prompt' && kv.field !== 'number') {
+      if (kv.field === 'options') {
+        q.options.push(...kv.value.split('|').map(readOption));
+        last = null;
+      } else if (kv.field === 'explanation') {
+        explanation = [kv.value];
+        last = 'explanation';
+      } else {
+        q[kv.field] = kv.value;
+        last = null;
+      }
+      continue;
+    }
+
+    if (last === 'prompt') prompt.push(text);
+    else if (last === 'explanation') explanation.push(text);
+    else warn(n, `was left out of question ${q.number}; options look like "A) text" and settings like "Answer: B"`);
+  }
+  finish();
+}
+
+module.exports = { parseMarkdown };
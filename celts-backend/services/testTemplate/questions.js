@@ -0,0 +1,217 @@
+// services/testTemplate/questions.js
+// Turns a question as written in a template (prompt, options with the correct
+// ones marked, "Key: value" fields) into a TestSet question.
+const { normalizeName } = require('./fields');
+const {
+  SINGLE_CHOICE_TYPES,
+  TEXT_ANSWER_TYPES,
+  TFNG_OPTIONS,
+} = require('../../utils/answerMatching');
+
+const CHOICE_TYPES = [...SINGLE_CHOICE_TYPES, 'multi_select'];
+const WRITING_TYPES = ['story', 'email', 'letter', 'summary', 'other'];
+const SPEAKING_MODES = ['audio', 'video', 'oral'];
+
+const TYPE_NAMES = {
+  mcq: ['mcq', 'multiplechoice', 'singlechoice'],
+  multi_select: ['multiselect', 'multipleanswers', 'multipleresponse'],
+  tfng: ['tfng', 'truefalsenotgiven'],
+  matching_headings: ['matchingheadings', 'headings'],
+  map_labelling: ['maplabelling', 'maplabeling', 'diagramlabelling'],
+  gap_fill: ['gapfill', 'gap', 'fillintheblank'],
+  sentence_completion: ['sentencecompletion', 'shortanswer'],
+  writing: ['writing', 'essay'],
+  speaking: ['speaking'],
+};
+
+// "(correct)" or a " *" at the end of an option marks it as a correct one
+const CORRECT_MARK = /\s+(\*|\(correct\))\s*$/i;
+
+const isUrl = (value) => /^(https?:\/\/\S+|\/uploads\/\S+)$/i.test(String(value || '').trim());
+
+function typeFromName(name) {
+  const key = normalizeName(name);
+  return Object.keys(TYPE_NAMES).find((type) => TYPE_NAMES[type].includes(key)) || null;
+}
+
+// option text with any correct mark taken off
+function readOption(text) {
+  const raw = String(text || '').trim();
+  return { text: raw.replace(CORRECT_MARK, '').trim(), correct: CORRECT_MARK.test(raw) };
+}
+
+const isTfngOptions = (options) =>
+  options.length === TFNG_OPTIONS.length
+  && options.every((o, i) => normalizeName(o.text) === normalizeName(TFNG_OPTIONS[i]));
+
+/**
+ * Indexes of the options an Answer names: the text of one option, or option
+ * letters / texts separated by commas. Returns null if any part names none.
+ */
+function answerIndexes(answer, options) {
+  const byText = (part) => options.findIndex((o) => normalizeName(o.text) === normalizeName(part));
+  const whole = byText(answer);
+  if (whole >= 0) return [whole];
+
+  const indexes = [];
+  for (const part of answer.split(/[,;|]|\s+and\s+/i).map((p) => p.trim()).filter(Boolean)) {
+    const letter = /^\(?([a-h])\)?\.?$/i.exec(part);
+    const index = letter ? letter[1].toUpperCase().charCodeAt(0) - 65 : byText(part);
+    if (index < 0 || index >= options.length) return null;
+    if (!indexes.includes(index)) indexes.push(index);
+  }
+  return indexes.length ? indexes.sort((a, b) => a - b) : null;
+}
+
+// writing or speaking when the question's own fields say so (a type, or settings
+// only those questions have), otherwise null
+function impliedType(raw) {
+  const named = String(raw.type || '').trim() ? typeFromName(raw.type) : null;
+  if (named) return named === 'writing' || named === 'speaking' ? named : null;
+  if (raw.writingType || raw.charLimit) return 'writing';
+  if (raw.speakingMode || raw.recordLimitSeconds) return 'speaking';
+  return null;
+}
+
+const truthy = (value) => /^(yes|y|true|1)$/i.test(String(value || '').trim());
+
+/**
+ * Build a question from its template fields. `raw` holds prompt, options
+ * ([{ text, correct }]) and the QUESTION_FIELDS values as written. A question
+ * with no type, no options and no writing or speaking settings takes the type
+ * of a writing or speaking test, and is otherwise typed by its answer.
+ * Returns { question | null, messages }.
+ */
+function buildQuestion(raw, testType) {
+  const messages = [];
+  const warn = (message) => messages.push({ level: 'warning', message });
+  const fail = (message) => messages.push({ level: 'error', message });
+
+  // a whole number no lower than `min`; blank is undefined
+  const count = (name, label, min = 0) => {
+    const value = String(raw[name] ?? '').trim();
+    if (!value) return undefined;
+    const n = Number(value);
+    if (Number.isInteger(n) && n >= min) return n;
+    warn(`${label} "${value}" is not a whole number; it was left out`);
+    return undefined;
+  };
+
+  const prompt = String(raw.prompt || '').trim();
+  if (!prompt) fail('has no question text');
+  let options = (raw.options || []).filter((o) => o.text);
+  const answer = String(raw.answer || '').trim();
+
+  let type = null;
+  if (String(raw.type || '').trim()) {
+    type = typeFromName(raw.type);
+    if (!type) {
+      fail(`type "${raw.type}" is not one of ${Object.keys(TYPE_NAMES).join(', ')}`);
+      return { question: null, messages };
+    }
+  } else if (impliedType(raw)) {
+    type = impliedType(raw);
+  } else if (options.length) {
+    const marked = options.filter((o) => o.correct).length;
+    const named = answer ? (answerIndexes(answer, options) || []).length : 0;
+    type = isTfngOptions(options) ? 'tfng' : Math.max(marked, named) > 1 ? 'multi_select' : 'mcq';
+  } else if (testType === 'writing' || testType === 'speaking') {
+    type = testType;
+  } else if (answer) {
+    if (TFNG_OPTIONS.some((o) => normalizeName(o) === normalizeName(answer))) type = 'tfng';
+    else type = /_{3,}/.test(prompt) ? 'gap_fill' : 'sentence_completion';
+  } else {
+    fail('has no options and no answer, so it cannot be marked');
+    return { question: null, messages };
+  }
+
+  const question = { questionType: type, prompt };
+
+  const marksText = String(raw.marks ?? '').trim();
+  question.marks = 1;
+  if (marksText) {
+    const marks = Number(marksText);
+    if (Number.isFinite(marks) && marks > 0) question.marks = marks;
+    else warn(`marks "${marksText}" is not a positive number; 1 is used`);
+  }
+  question.explanation = String(raw.explanation || '').trim();
+
+  if (CHOICE_TYPES.includes(type)) {
+    if (type === 'tfng' && options.length === 0) options = TFNG_OPTIONS.map((text) => ({ text, correct: false }));
+    if (options.length < 2) {
+      fail('needs at least two options');
+      return { question: null, messages };
+    }
+
+    let correct = options.map((o, i) => (o.correct ? i : -1)).filter((i) => i >= 0);
+    if (answer) {
+      const named = answerIndexes(answer, options);
+      if (!named) {
+        fail(`answer "${answer}" does not name one of its options`);
+        return { question: null, messages };
+      }
+      if (correct.length && correct.join() !== named.join()) warn('its Answer and the options marked correct disagree; the Answer was used');
+      correct = named;
+    }
+
+    if (correct.length === 0) fail('has no option marked correct');
+    else if (type !== 'multi_select' && correct.length > 1) fail(`has ${correct.length} options marked correct; ${type} takes one`);
+
+    question.options = options.map((o) => ({ text: o.text }));
+    if (type === 'multi_select') {
+      question.correctIndexes = correct;
+      const selectCount = count('selectCount', 'Select', 1);
+      question.selectCount = Math.max(selectCount || 0, correct.length);
+      if (selectCount && selectCount < correct.length) warn(`lets students select ${selectCount} but has ${correct.length} correct options; Select was raised to match`);
+    } else {
+      question.correctIndex = correct[0];
+    }
+
+    if (type === 'map_labelling') {
+      if (isUrl(raw.image)) question.imageUrl = String(raw.image).trim();
+      else fail(raw.image ? `image "${raw.image}" is not a URL` : 'needs an Image: URL of the map or diagram');
+    }
+  } else if (options.length) {
+    warn(`its options were left out; ${type} questions do not have options`);
+  }
+
+  if (TEXT_ANSWER_TYPES.includes(type)) {
+    question.acceptedAnswers = answer.split('|').map((a) => a.trim()).filter(Boolean);
+    if (question.acceptedAnswers.length === 0) fail('has no accepted answer');
+    question.caseSensitive = truthy(raw.caseSensitive);
+    const tolerance = count('spellingTolerance', 'Spelling tolerance');
+    question.spellingTolerance = Math.min(tolerance || 0, 2);
+    if (tolerance > 2) warn('spelling tolerance is at most 2 letters; 2 is used');
+    question.wordLimit = count('wordLimit', 'Word limit', 1);
+  }
+
+  if (type === 'writing') {
+    const writingType = normalizeName(raw.writingType);
+    question.writingType = WRITING_TYPES.includes(writingType) ? writingType : 'other';
+    if (writingType && !WRITING_TYPES.includes(writingType)) warn(`writing type "${raw.writingType}" is not one of ${WRITING_TYPES.join(', ')}; other is used`);
+    question.wordLimit = count('wordLimit', 'Word limit', 1);
+    question.charLimit = count('charLimit', 'Character limit', 1);
+  }
+
+  if (type === 'speaking') {
+    const mode = normalizeName(raw.speakingMode);
+    question.speakingMode = SPEAKING_MODES.includes(mode) ? mode : 'audio';
+    if (mode && !SPEAKING_MODES.includes(mode)) warn(`speaking mode "${raw.speakingMode}" is not one of ${SPEAKING_MODES.join(', ')}; audio is used`);
+    question.recordLimitSeconds = count('recordLimitSeconds', 'Record limit', 1);
+    question.timeLimitSeconds = count('timeLimitSeconds', 'Time limit', 1);
+    question.playAllowed = count('playAllowed', 'Prompt plays', 1);
+  }
+
+  if ((type === 'writing' || type === 'speaking') && answer) warn(`its answer was left out; ${type} answers are graded against the rubric`);
+
+  for (const key of Object.keys(question)) if (question[key] === undefined) delete question[key];
+  return { question: messages.some((m) => m.level === 'error') ? null : question, messages };
+}
+
+module.exports = {
+  TYPE_NAMES,
+  isUrl,
+  impliedType,
+  readOption,
+  buildQuestion,
+};
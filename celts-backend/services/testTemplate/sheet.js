@@ -0,0 +1,107 @@
+// services/testTemplate/sheet.js
+// Reads the CSV / XLSX template: one question per row. The Section column ties
+// rows to a passage or recording, whose Passage / Audio cells need filling on
+// only one of its rows; a row with a section but no question just sets it up.
+// Options go in columns A-H (or "Option A" ...) or one Options cell split by |,
+// with the correct ones named in Answer or marked with a trailing " *".
+const { readSheet } = require('../userImportService');
+const { SECTION_FIELDS, QUESTION_FIELDS, fieldFor, normalizeName } = require('./fields');
+const { readOption } = require('./questions');
+
+const OPTION_COLUMN = /^(?:option|choice)?([a-h])$/;
+
+// header -> { field, kind: question|section|option }; question fields win,
+// so "Time limit" is a question's and "Section time limit" a section's
+function columnOf(header) {
+  const name = normalizeName(header);
+  const option = OPTION_COLUMN.exec(name);
+  if (option) return { kind: 'option', index: option[1].charCodeAt(0) - 97 };
+  const questionField = fieldFor(QUESTION_FIELDS, header);
+  if (questionField) return { kind: 'question', field: questionField };
+  const sectionField = fieldFor(SECTION_FIELDS, header);
+  if (sectionField) return { kind: 'section', field: sectionField };
+  return null;
+}
+
+/**
+ * Parse a sheet template into the shape parseMarkdown returns. Sheets carry no
+ * test-level fields; the title and type come from the upload. Returns
+ * { error } for unreadable files.
+ */
+async function parseSheet(buffer, filename) {
+  let sheet;
+  try {
+    sheet = await readSheet(buffer, filename);
+  } catch (err) {
+    return { error: `Could not read the file: ${err.message}` };
+  }
+
+  const columns = sheet.headers.map((h) => ({ header: h, column: columnOf(h) }));
+  const doc = { title: '', type: '', description: '', timeLimitMinutes: '', sections: [], questions: [], messages: [] };
+  const warn = (message) => doc.messages.push({ level: 'warning', message });
+
+  if (!columns.some((c) => c.column && c.column.field === 'prompt')) {
+    return { error: 'The sheet needs a Question column' };
+  }
+  const unknown = columns.filter((c) => !c.column).map((c) => c.header);
+  if (unknown.length) warn(`Column(s) ${unknown.join(', ')} are not template fields and were left out`);
+
+  const sections = new Map();
+  for (const row of sheet.rows) {
+    const q = { location: `Row ${row.rowNumber}`, options: [] };
+    const sectionValues = {};
+    const optionCells = [];
+    let optionList = '';
+    for (const { header, column } of columns) {
+      const value = row.values[header];
+      if (!column || !value) continue;
+      if (column.kind === 'option') optionCells[column.index] = value;
+      else if (column.kind === 'section') sectionValues[column.field] = value;
+      else if (column.field === 'options') optionList = value;
+      else q[column.field] = value;
+    }
+
+    let sectionKey = null;
+    const label = sectionValues.section;
+    if (label) {
+      sectionKey = normalizeName(label) || label;
+      let section = sections.get(sectionKey);
+      if (!section) {
+        section = { key: sectionKey, kind: 'plain', title: '', passage: '', audio: '', location: `Row ${row.rowNumber}` };
+        sections.set(sectionKey, section);
+        doc.sections.push(section);
+      }
+      for (const field of ['title', 'passage', 'audio', 'listenLimit', 'timeLimitMinutes']) {
+        const value = sectionValues[field];
+        if (!value) continue;
+        if (section[field] && section[field] !== value) {
+          warn(`Row ${row.rowNumber}: section "${label}" already has a different ${field}; the first one was kept`);
+          continue;
+        }
+        section[field] = value;
+      }
+      if (!section.title) section.title = label;
+      if (section.passage) section.kind = 'passage';
+      else if (section.audio) section.kind = 'audio';
+    } else if (sectionValues.passage || sectionValues.audio) {
+      warn(`Row ${row.rowNumber}: a passage or audio needs a Section name to belong to; it was left out`);
+    }
+
+    if (!q.prompt) {
+      if (!label) warn(`Row ${row.rowNumber}: has no question and was skipped`);
+      continue;
+    }
+    // the option columns, then any Options cell
+    if (Array.from(optionCells).some((c, i) => !c && optionCells.slice(i + 1).some(Boolean))) {
+      warn(`Row ${row.rowNumber}: an option column is empty; the options after it move up a letter`);
+    }
+    q.options = [...optionCells.filter(Boolean), ...optionList.split(/\s*\|\s*|\r?\n/).filter(Boolean)].map(readOption);
+    q.sectionKey = sectionKey;
+    q.number = q.number || String(doc.questions.length + 1);
+    doc.questions.push(q);
+  }
+
+  return doc;
+}
+
+module.exports = { parseSheet };
@@ -0,0 +1,253 @@
+// services/testVersionService.js
+// Draft, review and publish workflow for test content. The TestSet document
+// carries the live version, which is what students are served; edits go into
+// the test's open draft (a TestVersion), which is published as the next
+// version, after another reviewer approves it when the test requires review.
+// Until the first publish the TestSet mirrors its first draft, since no
+// student can see it yet.
+const TestSet = require('../models/TestSet');
+const TestVersion = require('../models/TestVersion');
+const { CONTENT_FIELDS } = require('../models/TestSet');
+const { OPEN_STATUSES } = require('../models/TestVersion');
+
+const STATUS_LABELS = {
+  draft: 'a draft',
+  in_review: 'waiting for review',
+  approved: 'approved',
+  published: 'published',
+  superseded: 'superseded',
+};
+
+// content of a test or version as a plain object; question ids are kept, so
+// answers keep lining up with questions from one version to the next
+function contentOf(doc) {
+  const src = typeof doc.toObject === 'function' ? doc.toObject() : doc;
+  const out = {};
+  for (const field of CONTENT_FIELDS) {
+    if (src[field] !== undefined) out[field] = src[field];
+  }
+  return out;
+}
+
+// the content fields present in an update payload
+function pickContent(updates) {
+  return Object.fromEntries(CONTENT_FIELDS.filter((f) => updates[f] !== undefined).map((f) => [f, updates[f]]));
+}
+
+const openDraft = (testId) => TestVersion.findOne({ testSet: testId, status: { $in: OPEN_STATUSES } });
+
+// The test's open draft, started from the live content if there is none.
+async function ensureDraft(test, actor) {
+  const existing = await openDraft(test._id);
+  if (existing) return existing;
+  const latest = await TestVersion.findOne({ testSet: test._id }).sort({ version: -1 }).select('version').lean();
+  return TestVersion.create({
+    ...contentOf(test),
+    testSet: test._id,
+    version: (latest ? latest.version : 0) + 1,
+    createdBy: actor._id,
+    editors: [actor._id],
+  });
+}
+
+function clearReview(draft) {
+  draft.status = 'draft';
+  draft.submittedBy = null;
+  draft.submittedAt = null;
+  draft.reviewedBy = null;
+  draft.reviewedAt = null;
+}
+
+/**
+ * Apply content edits to the open draft. Editing a draft that is in review or
+ * already approved sends it back to 'draft', so the version that gets
+ * published is always the one that was reviewed.
+ */
+async function saveDraft(test, updates, actor) {
+  const draft = await ensureDraft(test, actor);
+  draft.set(pickContent(updates));
+  if (updates.changeNote !== undefined) draft.changeNote = String(updates.changeNote || '');
+  if (draft.status !== 'draft') clearReview(draft);
+  draft.updatedBy = actor._id;
+  draft.editors.addToSet(actor._id);
+  await draft.save();
+
+  if (!test.version) {
+    test.set(contentOf(draft));
+    await test.save();
+  }
+  return draft;
+}
+
+// Returns { error } or { draft }.
+async function submitForReview(test, actor, changeNote) {
+  const draft = await openDraft(test._id);
+  if (!draft) return { error: 'There are no changes to submit' };
+  if (draft.status !== 'draft') return { error: `This draft is already ${STATUS_LABELS[draft.status]}` };
+
+  draft.status = 'in_review';
+  draft.submittedBy = actor._id;
+  draft.submittedAt = new Date();
+  draft.reviewNote = '';
+  if (changeNote !== undefined) draft.changeNote = String(changeNote || '');
+  await draft.save();
+  return { draft };
+}
+
+// Approve the draft in review, or send it back with a note. Returns { error } or { draft }.
+async function reviewDraft(test, actor, { approve, note }) {
+  const draft = await openDraft(test._id);
+  if (!draft || draft.status !== 'in_review') return { error: 'There is no draft waiting for review' };
+  const authors = [draft.submittedBy, draft.updatedBy, draft.createdBy, ...(draft.editors || [])]
+    .filter(Boolean)
+    .map(String);
+  if (authors.includes(String(actor._id))) return { error: 'You cannot review your own changes' };
+
+  draft.status = approve ? 'approved' : 'draft';
+  draft.reviewedBy = actor._id;
+  draft.reviewedAt = new Date();
+  draft.reviewNote = String(note || '');
+  await draft.save();
+  return { draft };
+}
+
+// what a version needs before students can be given it
+async function checkPublishable(test, draft) {
+  if (test.type === 'mock') {
+    const moduleIds = (draft.modules || []).map((m) => m.testSet);
+    const live = await TestSet.countDocuments({ _id: { $in: moduleIds }, deletedAt: null, published: true });
+    return live === moduleIds.length ? null : 'Publish every module test before publishing the mock';
+  }
+  if (!draft.questions || draft.questions.length === 0) return 'At least one question is required';
+  if (test.type === 'reading' && !(draft.readingSections || []).length) {
+    return 'Reading tests require at least one passage in readingSections.';
+  }
+  if (test.type === 'listening' && !(draft.listeningSections || []).length) {
+    return 'Listening tests require at least one audio block in listeningSections.';
+  }
+  return null;
+}
+
+/**
+ * Make the open draft the live version. The previous version is kept as
+ * 'superseded' for the attempts and submissions pinned to it.
+ * Returns { error } or { version }.
+ */
+async function publishDraft(test, actor) {
+  const draft = await openDraft(test._id);
+  if (!draft) return { error: 'There are no changes to publish' };
+  if (draft.status === 'in_review') return { error: 'This draft is waiting for review' };
+  if (test.reviewRequired && draft.status !== 'approved') {
+    return { error: 'This test needs an approved review before it can be published' };
+  }
+  const problem = await checkPublishable(test, draft);
+  if (problem) return { error: problem };
+
+  await TestVersion.updateMany({ testSet: test._id, status: 'published' }, { $set: { status: 'superseded' } });
+  draft.status = 'published';
+  draft.publishedBy = actor._id;
+  draft.publishedAt = new Date();
+  await draft.save();
+
+  test.set(contentOf(draft));
+  test.version = draft.version;
+  test.published = true;
+  await test.save();
+  return { version: draft };
+}
+
+// Throw away the open draft. Returns { error } or {}.
+async function discardDraft(test) {
+  if (!test.version) return { error: 'This test has never been published; delete the test instead' };
+  const draft = await openDraft(test._id);
+  if (!draft) return { error: 'There is no draft to discard' };
+  await draft.deleteOne();
+  return {};
+}
+
+/**
+ * The test as students were served it at `version` (a TestSet doc or lean
+ * object). The live test is returned as is when that is the version asked for,
+ * or when none is (attempts and submissions from before versioning).
+ */
+async function testAtVersion(test, version) {
+  if (!test || !version || version === test.version) return test;
+  const snapshot = await TestVersion.findOne({ testSet: test._id, version }).lean();
+  if (!snapshot) return test;
+  const base = typeof test.toObject === 'function' ? test.toObject() : test;
+  return { ...base, ...contentOf(snapshot), version: snapshot.version };
+}
+
+// content of `version` ('draft' = the open draft), with its version metadata;
+// null for a version that does not exist or is not a version number
+async function loadVersion(test, version) {
+  if (version === 'draft') return openDraft(test._id).lean();
+  if (!/^[1-9]\d{0,8}$/.test(String(version))) return null;
+  return TestVersion.findOne({ testSet: test._id, version: Number(version) }).lean();
+}
+
+const IGNORED_QUESTION_KEYS = new Set(['_id', 'createdAt', 'updatedAt']);
+const LIST_FIELDS = new Set(['questions', 'readingSections', 'listeningSections']);
+const same = (a, b) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+function changedKeys(a, b, ignore = new Set()) {
+  const keys = new Set([...Object.keys(a || {}), ...Object.keys(b || {})]);
+  return [...keys]
+    .filter((k) => !ignore.has(k) && !same(a[k], b[k]))
+    .map((k) => ({ field: k, from: a[k] ?? null, to: b[k] ?? null }));
+}
+
+// added / removed / changed entries of two lists matched by `keyOf`
+function diffList(from = [], to = [], keyOf, describe, ignore) {
+  const fromByKey = new Map(from.map((item, index) => [keyOf(item), { item, index }]));
+  const toKeys = new Set(to.map(keyOf));
+  const out = { added: [], removed: [], changed: [] };
+
+  to.forEach((item, index) => {
+    const before = fromByKey.get(keyOf(item));
+    if (!before) {
+      out.added.push({ index, ...describe(item) });
+      return;
+    }
+    const changes = changedKeys(before.item, item, ignore);
+    if (changes.length || before.index !== index) {
+      out.changed.push({ index, fromIndex: before.index, ...describe(item), changes });
+    }
+  });
+  from.forEach((item, index) => {
+    if (!toKeys.has(keyOf(item))) out.removed.push({ index, ...describe(item) });
+  });
+  return out;
+}
+
+/**
+ * What changed between two contents: top-level fields, sections matched by
+ * their id and questions matched by their _id (reordering counts as a change).
+ */
+function diffContent(from, to) {
+  const describeQuestion = (q) => ({ _id: String(q._id), questionType: q.questionType, prompt: q.prompt });
+  const describeSection = (s) => ({ id: s.id, title: s.title || s.id });
+  const sections = (c) => [...(c.readingSections || []), ...(c.listeningSections || [])];
+
+  return {
+    fields: CONTENT_FIELDS.filter((f) => !LIST_FIELDS.has(f) && !same(from[f], to[f]))
+      .map((f) => ({ field: f, from: from[f] ?? null, to: to[f] ?? null })),
+    sections: diffList(sections(from), sections(to), (s) => s.id, describeSection),
+    questions: diffList(from.questions, to.questions, (q) => String(q._id), describeQuestion, IGNORED_QUESTION_KEYS),
+  };
+}
+
+module.exports = {
+  contentOf,
+  pickContent,
+  openDraft,
+  ensureDraft,
+  saveDraft,
+  submitForReview,
+  reviewDraft,
+  publishDraft,
+  discardDraft,
+  testAtVersion,
+  loadVersion,
+  diffContent,
+};
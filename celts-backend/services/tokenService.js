@@ -0,0 +1,204 @@
+// services/tokenService.js
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const User = require('../models/User');
+const RefreshToken = require('../models/RefreshToken');
+
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 14);
+
+const ACCESS_COOKIE = 'celts_access';
+const REFRESH_COOKIE = 'celts_refresh';
+// the refresh cookie is only ever sent to the auth routes
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+// Two tabs refreshing with the same cookie at once: the loser's token was rotated
+// moments ago, which is not a replay.
+const ROTATION_GRACE_MS = 10 * 1000;
+
+class TokenError extends Error {
+  constructor(message, code) {
+    super(message);
+    this.code = code;
+  }
+}
+
+const hashToken = (raw) => crypto.createHash('sha256').update(raw).digest('hex');
+
+function cookieOptions(maxAgeMs, path = '/') {
+  const secure = process.env.COOKIE_SECURE
+    ? process.env.COOKIE_SECURE === 'true'
+    : process.env.NODE_ENV === 'production';
+  return {
+    httpOnly: true,
+    secure,
+    sameSite: process.env.COOKIE_SAMESITE || 'lax',
+    path,
+    maxAge: maxAgeMs,
+  };
+}
+
+function readCookie(req, name) {
+  const header = req.headers.cookie;
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const idx = part.indexOf('=');
+    if (idx === -1) continue;
+    if (part.slice(0, idx).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(idx + 1).trim());
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+// identifies the browser session a request refreshes, without keeping the token itself
+function refreshTokenKey(req) {
+  const raw = readCookie(req, REFRESH_COOKIE);
+  return raw ? hashToken(raw) : null;
+}
+
+function signAccessToken(user) {
+  return jwt.sign({ id: user._id, tv: user.tokenVersion || 0 }, process.env.JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_TTL,
+  });
+}
+
+async function createRefreshToken(user, req, family) {
+  const raw = crypto.randomBytes(48).toString('hex');
+  const doc = await RefreshToken.create({
+    user: user._id,
+    tokenHash: hashToken(raw),
+    family: family || crypto.randomUUID(),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+    createdByIp: req.clientIP || req.ip,
+    userAgent: req.headers['user-agent'] || '',
+  });
+  return { raw, doc };
+}
+
+function setAuthCookies(res, accessToken, refreshToken) {
+  const accessMaxAge = jwt.decode(accessToken).exp * 1000 - Date.now();
+  res.cookie(ACCESS_COOKIE, accessToken, cookieOptions(accessMaxAge));
+  res.cookie(
+    REFRESH_COOKIE,
+    refreshToken,
+    cookieOptions(REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000, REFRESH_COOKIE_PATH)
+  );
+}
+
+function clearAuthCookies(res) {
+  // clearCookie must match the options the cookie was set with, minus maxAge
+  const clearOptions = (path) => {
+    const { maxAge, ...opts } = cookieOptions(0, path);
+    return opts;
+  };
+  res.clearCookie(ACCESS_COOKIE, clearOptions('/'));
+  res.clearCookie(REFRESH_COOKIE, clearOptions(REFRESH_COOKIE_PATH));
+}
+
+/**
+ * Start a new session for `user`: a fresh refresh-token family plus an access
+ * token, both set as httpOnly cookies.
+ */
+async function issueSession(res, user, req) {
+  const accessToken = signAccessToken(user);
+  const { raw } = await createRefreshToken(user, req);
+  setAuthCookies(res, accessToken, raw);
+}
+
+/**
+ * Exchange the refresh cookie for a new access token and refresh token.
+ * Presenting an already-rotated token outside the grace window means it was
+ * stolen, so the whole family is revoked. Throws TokenError.
+ */
+async function rotateSession(req, res) {
+  const raw = readCookie(req, REFRESH_COOKIE);
+  if (!raw) throw new TokenError('No refresh token', 'NO_REFRESH_TOKEN');
+
+  const current = await RefreshToken.findOne({ tokenHash: hashToken(raw) });
+  if (!current) throw new TokenError('Invalid refresh token', 'INVALID_REFRESH_TOKEN');
+
+  if (current.revokedAt) {
+    const recentlyRotated =
+      current.revokedReason === 'rotated' && Date.now() - current.revokedAt.getTime() < ROTATION_GRACE_MS;
+    if (recentlyRotated) throw new TokenError('Session already refreshed', 'REFRESH_SUPERSEDED');
+
+    if (current.revokedReason === 'rotated') {
+      await RefreshToken.updateMany(
+        { family: current.family, revokedAt: null },
+        { revokedAt: new Date(), revokedReason: 'reuse_detected' }
+      );
+    }
+    throw new TokenError('Refresh token revoked', 'REFRESH_TOKEN_REVOKED');
+  }
+  if (current.expiresAt <= new Date()) throw new TokenError('Refresh token expired', 'REFRESH_TOKEN_EXPIRED');
+
+  const user = await User.findById(current.user).select('-password');
+  if (!user || user.deletedAt || user.isActive === false) {
+    current.revokedAt = new Date();
+    current.revokedReason = 'deactivated';
+    await current.save();
+    throw new TokenError('Account is not active', 'ACCOUNT_INACTIVE');
+  }
+
+  // claim the token atomically so a concurrent refresh can't rotate it twice
+  const claimed = await RefreshToken.findOneAndUpdate(
+    { _id: current._id, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: 'rotated' }
+  );
+  if (!claimed) throw new TokenError('Session already refreshed', 'REFRESH_SUPERSEDED');
+
+  const { raw: nextRaw, doc: next } = await createRefreshToken(user, req, current.family);
+  await RefreshToken.updateOne({ _id: current._id }, { replacedBy: next._id });
+
+  setAuthCookies(res, signAccessToken(user), nextRaw);
+  return user;
+}
+
+/**
+ * End the session the request's refresh cookie belongs to (the whole family)
+ * and clear the cookies.
+ */
+async function endSession(req, res) {
+  const raw = readCookie(req, REFRESH_COOKIE);
+  if (raw) {
+    const current = await RefreshToken.findOne({ tokenHash: hashToken(raw) }).lean();
+    if (current) {
+      await RefreshToken.updateMany(
+        { family: current.family, revokedAt: null },
+        { revokedAt: new Date(), revokedReason: 'logout' }
+      );
+    }
+  }
+  clearAuthCookies(res);
+}
+
+/**
+ * Revoke every session of a user: outstanding access tokens stop working on
+ * their next request and no refresh token can be used again.
+ */
+async function revokeUserSessions(userId, reason) {
+  await User.updateOne({ _id: userId }, { $inc: { tokenVersion: 1 } });
+  await RefreshToken.updateMany(
+    { user: userId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+}
+
+module.exports = {
+  ACCESS_COOKIE,
+  REFRESH_COOKIE,
+  TokenError,
+  cookieOptions,
+  readCookie,
+  refreshTokenKey,
+  issueSession,
+  rotateSession,
+  endSession,
+  clearAuthCookies,
+  revokeUserSessions,
+};
@@ -0,0 +1,205 @@
+// services/twoFactorService.js
+const crypto = require('crypto');
+const jwt = require('jsonwebtoken');
+const QRCode = require('qrcode');
+const User = require('../models/User');
+const { generateSecret, verifyCode, otpauthUrl } = require('../utils/totp');
+
+const ISSUER = process.env.TWO_FACTOR_ISSUER || 'CELTS';
+const RECOVERY_CODE_COUNT = 10;
+const LOGIN_CHALLENGE_TTL = '5m';
+const SECRET_FIELDS = '+twoFactor.secret +twoFactor.pendingSecret +twoFactor.recoveryCodes +twoFactor.lastUsedStep';
+
+// signed with a separate key so a challenge can never pass as an access token
+const challengeSecret = () => `${process.env.JWT_SECRET}:2fa_login`;
+
+const hashCode = (code) => crypto.createHash('sha256').update(code).digest('hex');
+
+// Recovery codes are typed by hand: ignore case, spaces and dashes
+const normalizeRecoveryCode = (code) => String(code || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function encryptionKey() {
+  const source = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || '';
+  return crypto.createHash('sha256').update(source).digest();
+}
+
+function encryptSecret(secret) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const data = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data].map(b => b.toString('hex')).join(':');
+}
+
+function decryptSecret(stored) {
+  const [iv, tag, data] = String(stored).split(':').map(h => Buffer.from(h, 'hex'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+}
+
+function newRecoveryCodes() {
+  const codes = [];
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const raw = crypto.randomBytes(5).toString('hex');
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+  }
+  return { codes, hashes: codes.map(c => hashCode(normalizeRecoveryCode(c))) };
+}
+
+const isTwoFactorEligible = (user) => ['admin', 'faculty'].includes(user.role);
+
+/**
+ * Whether `user` must have 2FA on. Admins can require it per user; TWO_FACTOR_ENFORCE
+ * (comma list of `admin`, `faculty`, `score_editors`) requires it for whole groups.
+ * `capabilities` are the user's resolved capabilities; score_editors are those
+ * holding scores.override.
+ */
+function isTwoFactorRequired(user, capabilities = []) {
+  if (!isTwoFactorEligible(user)) return false;
+  if (user.twoFactor && user.twoFactor.required) return true;
+
+  const enforced = String(process.env.TWO_FACTOR_ENFORCE || '')
+    .split(',')
+    .map(s => s.trim())
+    .filter(Boolean);
+  if (enforced.includes(user.role)) return true;
+  return enforced.includes('score_editors') && capabilities.includes('scores.override');
+}
+
+function twoFactorStatus(user, capabilities) {
+  const tf = user.twoFactor || {};
+  return {
+    eligible: isTwoFactorEligible(user),
+    enabled: !!tf.enabled,
+    required: isTwoFactorRequired(user, capabilities),
+    enabledAt: tf.enabledAt || null,
+    recoveryCodesLeft: Array.isArray(tf.recoveryCodes) ? tf.recoveryCodes.length : undefined,
+  };
+}
+
+/**
+ * Start (or restart) enrolment with a new pending secret. Nothing changes for
+ * login until the user confirms a code from their app.
+ */
+async function beginEnrollment(user) {
+  const secret = generateSecret();
+  await User.updateOne({ _id: user._id }, { 'twoFactor.pendingSecret': encryptSecret(secret) });
+
+  const url = otpauthUrl(secret, user.email, ISSUER);
+  const qrDataUrl = await QRCode.toDataURL(url);
+  return { secret, otpauthUrl: url, qrDataUrl };
+}
+
+/**
+ * Turn 2FA on once the user proves their app produces the right codes.
+ * Returns { error } or { recoveryCodes } (plain text, shown once).
+ */
+async function confirmEnrollment(userId, code) {
+  const user = await User.findById(userId).select(SECRET_FIELDS);
+  if (!user || !user.twoFactor.pendingSecret) return { error: 'Start setup again to get a new QR code' };
+
+  const secret = decryptSecret(user.twoFactor.pendingSecret);
+  const step = verifyCode(secret, code);
+  if (step === null) return { error: 'That code is not valid. Check the time on your device and try again.' };
+
+  const { codes, hashes } = newRecoveryCodes();
+  user.twoFactor.secret = user.twoFactor.pendingSecret;
+  user.twoFactor.pendingSecret = undefined;
+  user.twoFactor.enabled = true;
+  user.twoFactor.enabledAt = new Date();
+  user.twoFactor.recoveryCodes = hashes;
+  user.twoFactor.lastUsedStep = step;
+  await user.save();
+
+  return { recoveryCodes: codes };
+}
+
+/**
+ * Check an authenticator code or a one-time recovery code. Each TOTP step and
+ * each recovery code is accepted once. Returns { error } or { method, recoveryCodesLeft }.
+ */
+async function verifySecondFactor(userId, { code, recoveryCode }) {
+  const user = await User.findById(userId).select(SECRET_FIELDS);
+  if (!user || !user.twoFactor.enabled || !user.twoFactor.secret) {
+    return { error: 'Two-factor authentication is not enabled for this account' };
+  }
+
+  if (recoveryCode) {
+    const hash = hashCode(normalizeRecoveryCode(recoveryCode));
+    const updated = await User.findOneAndUpdate(
+      { _id: user._id, 'twoFactor.recoveryCodes': hash },
+      { $pull: { 'twoFactor.recoveryCodes': hash } },
+      { new: true }
+    ).select('+twoFactor.recoveryCodes');
+    if (!updated) return { error: 'That recovery code is not valid or has already been used' };
+    return { method: 'recovery_code', recoveryCodesLeft: updated.twoFactor.recoveryCodes.length };
+  }
+
+  const step = verifyCode(decryptSecret(user.twoFactor.secret), code);
+  if (step === null) return { error: 'Invalid authentication code' };
+
+  const claimed = await User.updateOne(
+    { _id: user._id, 'twoFactor.lastUsedStep': { $lt: step } },
+    { 'twoFactor.lastUsedStep': step }
+  );
+  if (claimed.modifiedCount === 0) return { error: 'That code has already been used. Wait for the next one.' };
+
+  return { method: 'totp', recoveryCodesLeft: (user.twoFactor.recoveryCodes || []).length };
+}
+
+// Replace every recovery code. Returns the new plain-text codes.
+async function regenerateRecoveryCodes(userId) {
+  const { codes, hashes } = newRecoveryCodes();
+  await User.updateOne({ _id: userId }, { 'twoFactor.recoveryCodes': hashes });
+  return codes;
+}
+
+// Remove the second factor entirely; an admin `required` flag is kept.
+async function clearTwoFactor(userId) {
+  await User.updateOne(
+    { _id: userId },
+    {
+      'twoFactor.enabled': false,
+      'twoFactor.enabledAt': null,
+      'twoFactor.lastUsedStep': 0,
+      $unset: {
+        'twoFactor.secret': 1,
+        'twoFactor.pendingSecret': 1,
+        'twoFactor.recoveryCodes': 1,
+      },
+    }
+  );
+}
+
+// Short-lived proof that the password step passed; exchanged for a session at /auth/login/2fa
+function createLoginChallenge(user) {
+  return jwt.sign(
+    { id: user._id, tv: user.tokenVersion || 0, purpose: '2fa_login' },
+    challengeSecret(),
+    { expiresIn: LOGIN_CHALLENGE_TTL }
+  );
+}
+
+// The claims a challenge was issued with, or null if it's invalid or expired
+function readLoginChallenge(token) {
+  try {
+    const decoded = jwt.verify(String(token || ''), challengeSecret());
+    if (decoded.purpose !== '2fa_login') return null;
+    return decoded;
+  } catch {
+    return null;
+  }
+}
+
+module.exports = {
+  isTwoFactorEligible,
+  isTwoFactorRequired,
+  twoFactorStatus,
+  beginEnrollment,
+  confirmEnrollment,
+  verifySecondFactor,
+  regenerateRecoveryCodes,
+  clearTwoFactor,
+  createLoginChallenge,
+  readLoginChallenge,
+};
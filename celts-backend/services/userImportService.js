@@ -0,0 +1,379 @@
+// services/userImportService.js
+// Bulk user import from CSV or XLSX: read the sheet, map its columns onto user
+// fields, plan every row (create / update / skip / error) and, unless it is a
+// dry run, apply the plan. Existing accounts are matched by systemId.
+const ExcelJS = require('exceljs');
+const { parse } = require('csv-parse/sync');
+
+const User = require('../models/User');
+const Batch = require('../models/Batch');
+const { generateTemporaryPassword } = require('../utils/passwordPolicy');
+const { sendResetLink } = require('./passwordResetService');
+const { addStudents, removeStudents } = require('./batchMembershipService');
+
+const MAX_IMPORT_ROWS = 5000;
+const IMPORT_FIELDS = ['name', 'email', 'systemId', 'role', 'batch', 'faculty', 'password'];
+const ROLES = ['admin', 'faculty', 'student'];
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// normalized header -> field, used when no explicit mapping is given
+const HEADER_ALIASES = {
+  name: ['name', 'fullname', 'studentname', 'facultyname'],
+  email: ['email', 'emailaddress', 'mail'],
+  systemId: ['systemid', 'rollno', 'rollnumber', 'roll', 'employeeid', 'empid', 'registrationno', 'id'],
+  role: ['role', 'type', 'usertype'],
+  batch: ['batch', 'batches', 'batchname'],
+  faculty: ['faculty', 'facultyid', 'facultyemail', 'mentor', 'assignedfaculty'],
+  password: ['password', 'pass', 'pwd'],
+};
+
+const normalizeHeader = (h) => String(h || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function cellText(value) {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object') {
+    if (Array.isArray(value.richText)) return value.richText.map((r) => r.text).join('').trim();
+    if (value.text !== undefined) return cellText(value.text); // hyperlinks, e.g. mailto: cells
+    if (value.result !== undefined) return cellText(value.result); // formulas
+    return '';
+  }
+  return String(value).trim();
+}
+
+/**
+ * Read the first sheet of an .xlsx file or a CSV into { headers, rows }, where
+ * each row is { rowNumber, values: { header: text } }. Throws on unreadable files.
+ */
+async function readSheet(buffer, filename = '') {
+  let table;
+  if (/\.xlsx$/i.test(filename)) {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer);
+    const sheet = workbook.worksheets[0];
+    if (!sheet) throw new Error('The workbook has no sheets');
+    table = [];
+    sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+      const cells = [];
+      row.eachCell({ includeEmpty: true }, (cell, col) => { cells[col - 1] = cellText(cell.value); });
+      table.push({ rowNumber, cells });
+    });
+  } else {
+    const records = parse(buffer.toString('utf8').replace(/^﻿/, ''), {
+      skip_empty_lines: true,
+      relax_column_count: true,
+      trim: true,
+    });
+    table = records.map((cells, i) => ({ rowNumber: i + 1, cells }));
+  }
+
+  if (table.length === 0) throw new Error('The file is empty');
+  const [headerRow, ...body] = table;
+  const headers = headerRow.cells.map((h, i) => cellText(h) || `Column ${i + 1}`);
+  if (body.length > MAX_IMPORT_ROWS) throw new Error(`At most ${MAX_IMPORT_ROWS} rows can be imported at once`);
+
+  const rows = body
+    .filter((r) => r.cells.some((c) => cellText(c)))
+    .map((r) => ({
+      rowNumber: r.rowNumber,
+      values: Object.fromEntries(headers.map((h, i) => [h, cellText(r.cells[i])])),
+    }));
+  return { headers, rows };
+}
+
+// field -> header; explicit entries win, the rest are guessed from the header names
+function resolveMapping(headers, explicit = {}) {
+  const mapping = {};
+  for (const field of IMPORT_FIELDS) {
+    if (explicit[field] !== undefined) {
+      if (explicit[field] && headers.includes(explicit[field])) mapping[field] = explicit[field];
+      continue;
+    }
+    const guess = headers.find((h) => HEADER_ALIASES[field].includes(normalizeHeader(h)));
+    if (guess && !Object.values(mapping).includes(guess)) mapping[field] = guess;
+  }
+  return mapping;
+}
+
+const splitList = (value) => String(value || '').split(/[;|]/).map((s) => s.trim()).filter(Boolean);
+
+/**
+ * Work out what each row would do without writing anything.
+ * options: { defaultRole, defaultBatchId, updateExisting, capabilities }
+ * Returns one entry per row: { row, action, reason, changes, ... } plus what
+ * applyImport needs to carry it out.
+ */
+async function planImport(rows, mapping, options = {}) {
+  const capabilities = options.capabilities || [];
+  const canAssignBatches = capabilities.includes('batches.manage');
+  const canTouchAdmins = capabilities.includes('permissions.manage');
+  const updateExisting = options.updateExisting !== false;
+
+  const records = rows.map((r) => {
+    const get = (field) => (mapping[field] ? String(r.values[mapping[field]] || '').trim() : '');
+    return {
+      row: r.rowNumber,
+      name: get('name'),
+      email: get('email').toLowerCase(),
+      systemId: get('systemId'),
+      role: get('role').toLowerCase(),
+      batchNames: splitList(get('batch')),
+      faculty: get('faculty'),
+      password: get('password'),
+    };
+  });
+
+  const systemIds = records.map((r) => r.systemId).filter(Boolean);
+  const emails = records.map((r) => r.email).filter(Boolean);
+  const facultyRefs = records.map((r) => r.faculty).filter(Boolean);
+  const batchNames = [...new Set(records.flatMap((r) => r.batchNames))];
+
+  const [existingUsers, facultyUsers, batches, defaultBatch] = await Promise.all([
+    User.find({ $or: [{ systemId: { $in: systemIds } }, { email: { $in: emails } }] })
+      .setOptions({ withDeleted: true })
+      .select('name email systemId role assignedFaculty deletedAt')
+      .lean(),
+    User.find({ role: 'faculty', $or: [{ systemId: { $in: facultyRefs } }, { email: { $in: facultyRefs.map((f) => f.toLowerCase()) } }] })
+      .select('name email systemId')
+      .lean(),
+    Batch.find({ name: { $in: batchNames }, archived: { $ne: true } }).select('name students faculty elective').lean(),
+    options.defaultBatchId
+      ? Batch.findOne({ _id: options.defaultBatchId, archived: { $ne: true } }).select('name students faculty elective').lean()
+      : null,
+  ]);
+
+  const bySystemId = new Map(existingUsers.map((u) => [u.systemId, u]));
+  const byEmail = new Map(existingUsers.map((u) => [u.email, u]));
+  const batchByName = new Map(batches.map((b) => [b.name, b]));
+  if (defaultBatch) batchByName.set(defaultBatch.name, defaultBatch);
+  const findFaculty = (ref) =>
+    facultyUsers.find((f) => f.systemId === ref || f.email === ref.toLowerCase()) || null;
+
+  // students sit in one batch; we need to know which one to report moves
+  const studentIds = existingUsers.filter((u) => u.role === 'student').map((u) => u._id);
+  const currentBatches = await Batch.find({
+    archived: { $ne: true },
+    $or: [{ students: { $in: studentIds } }, { faculty: { $in: existingUsers.map((u) => u._id) } }],
+  })
+    .select('name students faculty elective')
+    .lean();
+  const batchesOf = (user) => currentBatches.filter((b) =>
+    (user.role === 'student' ? b.students : b.faculty).some((id) => String(id) === String(user._id)));
+
+  const seenSystemIds = new Map();
+  const seenEmails = new Map();
+  // faculty created by this same file can be referenced by later student rows
+  const incomingFaculty = new Map();
+  records.forEach((r) => {
+    if ((r.role || options.defaultRole) === 'faculty' && r.systemId) {
+      incomingFaculty.set(r.systemId, r);
+      if (r.email) incomingFaculty.set(r.email, r);
+    }
+  });
+
+  return records.map((r) => {
+    const base = { row: r.row, systemId: r.systemId, email: r.email, name: r.name, changes: [] };
+    const fail = (reason) => ({ ...base, action: 'error', reason });
+
+    if (!r.systemId) return fail('systemId is missing');
+    if (seenSystemIds.has(r.systemId)) return fail(`Duplicate systemId (also on row ${seenSystemIds.get(r.systemId)})`);
+    seenSystemIds.set(r.systemId, r.row);
+    if (r.email) {
+      if (!EMAIL_RE.test(r.email)) return fail(`"${r.email}" is not a valid email`);
+      if (seenEmails.has(r.email)) return fail(`Duplicate email (also on row ${seenEmails.get(r.email)})`);
+      seenEmails.set(r.email, r.row);
+    }
+    if (r.role && !ROLES.includes(r.role)) return fail(`Unknown role "${r.role}"`);
+
+    const existing = bySystemId.get(r.systemId);
+    if (existing && existing.deletedAt) return fail('This account is in the recycle bin; restore it first');
+    const role = r.role || (existing ? existing.role : options.defaultRole || 'student');
+    base.role = role;
+    if (role === 'admin' && !canTouchAdmins) return fail('Importing admin accounts requires permissions.manage');
+    if (existing && existing.role !== role) {
+      return fail(`Existing account is a ${existing.role}; change roles from the user list`);
+    }
+
+    // batches
+    let targetBatches = null;
+    const wantedBatchNames = r.batchNames.length ? r.batchNames : defaultBatch ? [defaultBatch.name] : [];
+    if (wantedBatchNames.length) {
+      if (!canAssignBatches) return fail('Assigning batches requires batches.manage');
+      if (role === 'admin') return fail('Admins are not assigned to batches');
+      const unknown = wantedBatchNames.filter((n) => !batchByName.has(n));
+      if (unknown.length) return fail(`Batch not found or archived: ${unknown.join(', ')}`);
+      targetBatches = wantedBatchNames.map((n) => batchByName.get(n));
+      if (role === 'student' && targetBatches.filter((b) => !b.elective).length > 1) {
+        return fail('A student can only be in one regular batch (plus electives)');
+      }
+      base.batch = wantedBatchNames.join('; ');
+    }
+
+    // faculty assignment (students only)
+    let facultyRef = null;
+    if (r.faculty) {
+      if (role !== 'student') return fail('Only students can be assigned a faculty');
+      if (!canAssignBatches) return fail('Assigning faculty requires batches.manage');
+      const found = findFaculty(r.faculty);
+      const pending = !found && incomingFaculty.get(r.faculty);
+      if (!found && !pending) return fail(`Faculty "${r.faculty}" not found`);
+      facultyRef = found ? { id: found._id, label: found.name } : { systemId: pending.systemId, label: pending.name || pending.systemId };
+      base.faculty = r.faculty;
+    }
+
+    if (existing) {
+      if (!updateExisting) return { ...base, action: 'skip', reason: 'Account already exists' };
+      const update = {};
+      if (r.name && r.name !== existing.name) {
+        update.name = r.name;
+        base.changes.push(`name: "${existing.name}" → "${r.name}"`);
+      }
+      if (r.email && r.email !== existing.email) {
+        const owner = byEmail.get(r.email);
+        if (owner && String(owner._id) !== String(existing._id)) return fail(`Email already used by ${owner.systemId}`);
+        update.email = r.email;
+        base.changes.push(`email: ${existing.email} → ${r.email}`);
+      }
+      let batchChange = null;
+      if (targetBatches) {
+        const current = batchesOf(existing);
+        const missing = targetBatches.filter((b) => !current.some((c) => String(c._id) === String(b._id)));
+        if (missing.length) {
+          // a student named in a new regular batch leaves their old one; electives
+          // and faculty batches are only ever added
+          const movesRegular = role === 'student' && missing.some((b) => !b.elective);
+          const leaving = movesRegular
+            ? current.filter((c) => !c.elective && !targetBatches.some((b) => String(b._id) === String(c._id)))
+            : [];
+          batchChange = { add: missing.map((b) => b._id), remove: leaving.map((b) => b._id) };
+          base.changes.push(`batch: ${leaving.map((b) => b.name).join(', ') || 'none'} → ${missing.map((b) => b.name).join(', ')}`);
+        }
+      }
+      if (facultyRef && String(facultyRef.id || '') !== String(existing.assignedFaculty || '')) {
+        base.changes.push(`faculty → ${facultyRef.label}`);
+      } else {
+        facultyRef = null;
+      }
+      if (!base.changes.length) return { ...base, action: 'skip', reason: 'No changes' };
+      return { ...base, action: 'update', userId: existing._id, update, batchChange, facultyRef };
+    }
+
+    if (!r.name) return fail('name is missing');
+    if (!r.email) return fail('email is missing');
+    const owner = byEmail.get(r.email);
+    if (owner) return fail(`Email already used by ${owner.systemId}`);
+    return {
+      ...base,
+      action: 'create',
+      password: r.password,
+      batchChange: targetBatches ? { add: targetBatches.map((b) => b._id), remove: [] } : null,
+      facultyRef,
+    };
+  });
+}
+
+async function applyBatchChange(user, batchChange, actor) {
+  if (!batchChange) return;
+  if (user.role === 'faculty') {
+    await Batch.updateMany({ _id: { $in: batchChange.add } }, { $addToSet: { faculty: user._id } });
+    return;
+  }
+  for (const batchId of batchChange.remove) {
+    await removeStudents({ _id: batchId }, [user._id], { by: actor, reason: 'moved' });
+  }
+  for (const batchId of batchChange.add) {
+    await addStudents({ _id: batchId }, [user._id], { by: actor, reason: batchChange.remove.length ? 'moved' : 'import' });
+  }
+}
+
+async function applyFaculty(user, facultyRef) {
+  if (!facultyRef) return;
+  const faculty = facultyRef.id
+    ? await User.findById(facultyRef.id).select('_id')
+    : await User.findOne({ systemId: facultyRef.systemId, role: 'faculty' }).select('_id');
+  if (!faculty) throw new Error('Assigned faculty could not be found');
+  if (user.assignedFaculty) {
+    await User.updateOne({ _id: user.assignedFaculty }, { $pull: { students: user._id } });
+  }
+  await User.updateOne({ _id: user._id }, { assignedFaculty: faculty._id });
+  await User.updateOne({ _id: faculty._id }, { $addToSet: { students: user._id } });
+}
+
+/**
+ * Carry out a plan from planImport. Staff rows go first so students can be
+ * assigned to faculty created by the same file. A row that fails is reported
+ * as an error and doesn't stop the rest.
+ * options: { sendResetLinks, requestedByIp, actor }
+ */
+async function applyImport(plan, options = {}) {
+  const order = (p) => (p.role === 'student' ? 1 : 0);
+  const pending = plan.filter((p) => p.action === 'create' || p.action === 'update').sort((a, b) => order(a) - order(b));
+  const outcomes = new Map();
+
+  for (const p of pending) {
+    try {
+      let user;
+      if (p.action === 'create') {
+        user = await User.create({
+          name: p.name,
+          email: p.email,
+          systemId: p.systemId,
+          password: p.password || generateTemporaryPassword(),
+          role: p.role,
+          mustChangePassword: true,
+        });
+      } else {
+        user = await User.findById(p.userId);
+        if (!user) throw new Error('Account no longer exists');
+        if (Object.keys(p.update).length) {
+          Object.assign(user, p.update);
+          await user.save();
+        }
+      }
+      await applyBatchChange(user, p.batchChange, options.actor);
+      await applyFaculty(user, p.facultyRef);
+
+      let reason = '';
+      if (p.action === 'create' && !p.password && options.sendResetLinks) {
+        try {
+          await sendResetLink(user, options.requestedByIp);
+          reason = 'Password setup link emailed';
+        } catch (err) {
+          console.error(`[user import] reset link for ${user.email} failed:`, err.message);
+          reason = 'Created, but the password setup email could not be sent';
+        }
+      }
+      outcomes.set(p.row, { reason });
+    } catch (err) {
+      const duplicate = err.code === 11000 ? 'An account with this email or systemId already exists' : null;
+      outcomes.set(p.row, { action: 'error', reason: duplicate || err.message });
+    }
+  }
+
+  return plan.map((p) => {
+    const { userId, update, batchChange, facultyRef, password, ...visible } = p;
+    const outcome = outcomes.get(p.row);
+    return outcome ? { ...visible, ...outcome, reason: outcome.reason || p.reason || '' } : visible;
+  });
+}
+
+function summarize(rows) {
+  const summary = { total: rows.length, create: 0, update: 0, skip: 0, error: 0 };
+  rows.forEach((r) => { summary[r.action] += 1; });
+  return summary;
+}
+
+// strip the internals applyImport needs before a dry run is returned
+const visibleRows = (plan) =>
+  plan.map(({ userId, update, batchChange, facultyRef, password, ...visible }) => visible);
+
+module.exports = {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  readSheet,
+  resolveMapping,
+  planImport,
+  applyImport,
+  summarize,
+  visibleRows,
+};
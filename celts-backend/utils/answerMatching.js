@@ -0,0 +1,145 @@
+// utils/answerMatching.js
+/**
+ * Auto-grading of reading/listening question types.
+ *
+ * Answers are graded in their canonical form (option indexes already mapped
+ * back from a shuffled layout):
+ *   single choice  -> number             (mcq, tfng, matching_headings, map_labelling)
+ *   multi_select   -> number[]
+ *   text answers   -> string             (gap_fill, sentence_completion)
+ */
+
+const SINGLE_CHOICE_TYPES = ['mcq', 'tfng', 'matching_headings', 'map_labelling'];
+const TEXT_ANSWER_TYPES = ['gap_fill', 'sentence_completion'];
+const AUTO_GRADED_TYPES = [...SINGLE_CHOICE_TYPES, 'multi_select', ...TEXT_ANSWER_TYPES];
+
+// the question types each kind of test holds
+const QUESTION_TYPES_FOR_TEST = {
+  reading: AUTO_GRADED_TYPES,
+  listening: AUTO_GRADED_TYPES,
+  writing: ['writing'],
+  speaking: ['speaking'],
+};
+
+// option order may be shuffled per attempt for these
+const SHUFFLABLE_TYPES = ['mcq', 'multi_select'];
+
+const TFNG_OPTIONS = ['True', 'False', 'Not Given'];
+
+function countWords(text) {
+  return String(text || '').trim().split(/\s+/).filter(Boolean).length;
+}
+
+// trim, collapse spaces, drop surrounding punctuation; case-folded unless caseSensitive
+function normalizeText(text, caseSensitive) {
+  const cleaned = String(text || '')
+    .trim()
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s"'.,;:!?()]+|[\s"'.,;:!?()]+$/g, '');
+  return caseSensitive ? cleaned : cleaned.toLowerCase();
+}
+
+// Levenshtein distance, giving up once it exceeds `max`
+function editDistance(a, b, max) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, curr[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Check a text answer against the question's accepted answers.
+ * Over the word limit is wrong regardless of content, as in IELTS.
+ * Numbers must match exactly; words may be off by `spellingTolerance` edits.
+ */
+function matchTextAnswer(question, text) {
+  const answer = normalizeText(text, question.caseSensitive);
+  if (!answer) return { attempted: false, correct: false, overWordLimit: false };
+
+  if (question.wordLimit > 0 && countWords(answer) > question.wordLimit) {
+    return { attempted: true, correct: false, overWordLimit: true };
+  }
+
+  const tolerance = Math.max(0, Number(question.spellingTolerance) || 0);
+  const correct = (question.acceptedAnswers || []).some(accepted => {
+    const expected = normalizeText(accepted, question.caseSensitive);
+    if (!expected) return false;
+    if (expected === answer) return true;
+    if (tolerance === 0 || /\d/.test(expected)) return false;
+    return editDistance(expected, answer, tolerance) <= tolerance;
+  });
+
+  return { attempted: true, correct, overWordLimit: false };
+}
+
+/**
+ * Grade one question. Returns { attempted, correct, earned }.
+ * multi_select earns a share of the marks per correct option picked, and
+ * nothing if more options were picked than allowed.
+ */
+function gradeQuestion(question, answer) {
+  const marks = question.marks || 1;
+  const type = question.questionType;
+
+  if (SINGLE_CHOICE_TYPES.includes(type)) {
+    if (typeof answer !== 'number') return { attempted: false, correct: false, earned: 0 };
+    const correct = answer === question.correctIndex;
+    return { attempted: true, correct, earned: correct ? marks : 0 };
+  }
+
+  if (type === 'multi_select') {
+    const picked = Array.isArray(answer) ? [...new Set(answer.filter(i => typeof i === 'number'))] : [];
+    if (picked.length === 0) return { attempted: false, correct: false, earned: 0 };
+
+    const key = question.correctIndexes || [];
+    const allowed = question.selectCount || key.length;
+    if (key.length === 0 || picked.length > allowed) return { attempted: true, correct: false, earned: 0 };
+
+    const hits = picked.filter(i => key.includes(i)).length;
+    const earned = Math.round((marks * hits / key.length) * 100) / 100;
+    return { attempted: true, correct: hits === key.length, earned };
+  }
+
+  if (TEXT_ANSWER_TYPES.includes(type)) {
+    const { attempted, correct } = matchTextAnswer(question, answer);
+    return { attempted, correct, earned: correct ? marks : 0 };
+  }
+
+  return { attempted: false, correct: false, earned: 0 };
+}
+
+// The answer inside one entry of a { [questionId]: {...} } response
+function answerFromEntry(question, entry) {
+  if (question.questionType === 'multi_select') {
+    return Array.isArray(entry.selectedIndexes) ? entry.selectedIndexes : null;
+  }
+  if (TEXT_ANSWER_TYPES.includes(question.questionType)) {
+    return typeof entry.text === 'string' ? entry.text : null;
+  }
+  return typeof entry.selectedIndex === 'number' ? entry.selectedIndex : null;
+}
+
+module.exports = {
+  SINGLE_CHOICE_TYPES,
+  TEXT_ANSWER_TYPES,
+  AUTO_GRADED_TYPES,
+  QUESTION_TYPES_FOR_TEST,
+  SHUFFLABLE_TYPES,
+  TFNG_OPTIONS,
+  countWords,
+  normalizeText,
+  matchTextAnswer,
+  gradeQuestion,
+  answerFromEntry,
+};
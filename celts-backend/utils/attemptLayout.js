@@ -0,0 +1,127 @@
+// utils/attemptLayout.js
+const crypto = require('crypto');
+const { SHUFFLABLE_TYPES } = require('./answerMatching');
+
+/**
+ * Per-attempt question/option order.
+ *
+ * A layout is computed once when the attempt starts (from a random seed stored
+ * on the TestAttempt) and persisted, so a resumed attempt sees the same order
+ * and grading does not depend on the test staying unchanged.
+ *
+ * layout = {
+ *   questionOrder: [questionId, ...],          // display order
+ *   optionOrder: { [questionId]: [origIdx] }   // display position -> original option index
+ * }
+ */
+
+function generateSeed() {
+  return crypto.randomBytes(8).toString('hex');
+}
+
+// mulberry32 seeded from a hash of seed + salt, so each question gets an independent stream
+function createRng(seed, salt = '') {
+  let state = crypto.createHash('sha256').update(`${seed}:${salt}`).digest().readUInt32LE(0);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function seededShuffle(items, rng) {
+  const out = items.slice();
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/**
+ * Build the layout for a test. Questions are only shuffled inside their
+ * sectionId group (a passage or audio block), and groups keep their authored order.
+ * Returns null when the test shuffles nothing.
+ */
+function buildAttemptLayout(testSet, seed) {
+  if (!testSet.shuffleQuestions && !testSet.shuffleOptions) return null;
+
+  const questions = testSet.questions || [];
+
+  const groups = [];
+  const byGroup = new Map();
+  for (const q of questions) {
+    const groupKey = q.sectionId || '__none__';
+    if (!byGroup.has(groupKey)) {
+      byGroup.set(groupKey, []);
+      groups.push(groupKey);
+    }
+    byGroup.get(groupKey).push(String(q._id));
+  }
+
+  const questionOrder = groups.flatMap(groupKey => {
+    const ids = byGroup.get(groupKey);
+    return testSet.shuffleQuestions ? seededShuffle(ids, createRng(seed, `section:${groupKey}`)) : ids;
+  });
+
+  const optionOrder = {};
+  if (testSet.shuffleOptions) {
+    for (const q of questions) {
+      if (!SHUFFLABLE_TYPES.includes(q.questionType) || !Array.isArray(q.options)) continue;
+      const indexes = q.options.map((_, i) => i);
+      optionOrder[String(q._id)] = seededShuffle(indexes, createRng(seed, `options:${q._id}`));
+    }
+  }
+
+  return { questionOrder, optionOrder };
+}
+
+/**
+ * Return the test's questions in the attempt's display order, with options
+ * permuted and the answer key (correct options, accepted answers) removed.
+ * Questions added after the attempt started are appended in authored order.
+ */
+function applyAttemptLayout(questions, layout) {
+  const plain = questions.map(q => (typeof q.toObject === 'function' ? q.toObject() : { ...q }));
+  const strip = q => {
+    const { correctIndex, correctIndexes, acceptedAnswers, ...rest } = q;
+    return rest;
+  };
+  if (!layout) return plain.map(strip);
+
+  const byId = new Map(plain.map(q => [String(q._id), q]));
+  const ordered = (layout.questionOrder || []).filter(id => byId.has(id)).map(id => byId.get(id));
+  const seen = new Set(ordered.map(q => String(q._id)));
+  plain.forEach(q => {
+    if (!seen.has(String(q._id))) ordered.push(q);
+  });
+
+  return ordered.map(q => {
+    const order = layout.optionOrder && layout.optionOrder[String(q._id)];
+    if (!order || !Array.isArray(q.options) || order.length !== q.options.length) return strip(q);
+    return strip({ ...q, options: order.map(i => q.options[i]) });
+  });
+}
+
+/**
+ * Map an option index the student saw back to the stored option index.
+ * Mirrors applyAttemptLayout: an order that no longer fits the options was not applied.
+ */
+function toOriginalOptionIndex(layout, question, displayedIndex) {
+  const order = layout && layout.optionOrder && layout.optionOrder[String(question._id)];
+  const optionCount = Array.isArray(question.options) ? question.options.length : 0;
+  if (!Array.isArray(order) || order.length !== optionCount) return displayedIndex;
+  const original = order[displayedIndex];
+  return typeof original === 'number' ? original : null;
+}
+
+module.exports = {
+  generateSeed,
+  createRng,
+  seededShuffle,
+  buildAttemptLayout,
+  applyAttemptLayout,
+  toOriginalOptionIndex,
+};
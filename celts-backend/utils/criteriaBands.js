@@ -0,0 +1,99 @@
+// utils/criteriaBands.js
+/**
+ * IELTS assessment criteria for the AI-graded skills, and helpers to turn a
+ * provider's free-form `criteria_breakdown` into validated band numbers.
+ */
+const WRITING_CRITERIA = [
+  { key: 'taskAchievement', label: 'Task Achievement / Response', sources: ['task_response', 'task_achievement'] },
+  { key: 'coherenceCohesion', label: 'Coherence & Cohesion', sources: ['cohesion_coherence', 'coherence_cohesion'] },
+  { key: 'lexicalResource', label: 'Lexical Resource', sources: ['lexical_resource'] },
+  { key: 'grammaticalRange', label: 'Grammatical Range & Accuracy', sources: ['grammatical_range_accuracy'] },
+];
+
+const SPEAKING_CRITERIA = [
+  { key: 'fluencyCoherence', label: 'Fluency & Coherence', sources: ['fluency_coherence'], legacy: ['fluency', 'coherence'] },
+  { key: 'lexicalResource', label: 'Lexical Resource', sources: ['lexical_resource'], legacy: ['vocabulary'] },
+  { key: 'grammaticalRange', label: 'Grammatical Range & Accuracy', sources: ['grammatical_range_accuracy'], legacy: ['grammar'] },
+  { key: 'pronunciation', label: 'Pronunciation', sources: ['pronunciation'] },
+];
+
+/**
+ * Coerce a criterion value ({ score } object, number or numeric string) to a band 0..9 in 0.5 steps.
+ * Returns null when the value is missing or not a number.
+ */
+function toBand(value) {
+  const raw = value && typeof value === 'object' ? value.score ?? value.band : value;
+  const n = typeof raw === 'number' ? raw : Number.parseFloat(String(raw));
+  if (!Number.isFinite(n)) return null;
+  return Math.round(Math.max(0, Math.min(9, n)) * 2) / 2;
+}
+
+function averageBand(values) {
+  const nums = values.filter((v) => typeof v === 'number');
+  if (!nums.length) return null;
+  return Math.round((nums.reduce((a, b) => a + b, 0) / nums.length) * 2) / 2;
+}
+
+function normalizeCriteria(breakdown, criteria) {
+  const src = breakdown && typeof breakdown === 'object' ? breakdown : {};
+  const out = {};
+
+  for (const c of criteria) {
+    let band = null;
+    for (const k of c.sources) {
+      band = toBand(src[k]);
+      if (band != null) break;
+    }
+    // older speaking evaluations split the criterion into several numbers
+    if (band == null && c.legacy) {
+      band = averageBand(c.legacy.map((k) => toBand(src[k])));
+    }
+    out[c.key] = band;
+  }
+  return out;
+}
+
+function normalizeWritingCriteria(breakdown) {
+  return normalizeCriteria(breakdown, WRITING_CRITERIA);
+}
+
+function normalizeSpeakingCriteria(breakdown) {
+  return normalizeCriteria(breakdown, SPEAKING_CRITERIA);
+}
+
+/**
+ * Weighted average of several criteria objects (e.g. Task 1 and Task 2).
+ * @param {{ criteria: object, weight: number }[]} items
+ */
+function combineCriteria(items, criteria) {
+  const out = {};
+  for (const c of criteria) {
+    let sum = 0;
+    let weight = 0;
+    for (const { criteria: values, weight: w } of items) {
+      if (values && typeof values[c.key] === 'number' && w > 0) {
+        sum += values[c.key] * w;
+        weight += w;
+      }
+    }
+    out[c.key] = weight > 0 ? Math.round((sum / weight) * 2) / 2 : null;
+  }
+  return out;
+}
+
+/**
+ * IELTS overall band for a skill = mean of its criteria, rounded to 0.5.
+ */
+function bandFromCriteria(values) {
+  return averageBand(Object.values(values || {}));
+}
+
+module.exports = {
+  WRITING_CRITERIA,
+  SPEAKING_CRITERIA,
+  toBand,
+  normalizeWritingCriteria,
+  normalizeSpeakingCriteria,
+  combineCriteria,
+  bandFromCriteria,
+};
@@ -0,0 +1,50 @@
+// utils/passwordPolicy.js
+const crypto = require('crypto');
+
+const flag = (value, fallback) => (value === undefined ? fallback : value === 'true');
+
+/**
+ * Rules for passwords users choose themselves (reset, change, invitation).
+ * Configured with PASSWORD_MIN_LENGTH and PASSWORD_REQUIRE_{UPPERCASE,LOWERCASE,DIGIT,SYMBOL}.
+ */
+function getPasswordPolicy() {
+  return {
+    minLength: Number(process.env.PASSWORD_MIN_LENGTH || 8),
+    requireUppercase: flag(process.env.PASSWORD_REQUIRE_UPPERCASE, true),
+    requireLowercase: flag(process.env.PASSWORD_REQUIRE_LOWERCASE, true),
+    requireDigit: flag(process.env.PASSWORD_REQUIRE_DIGIT, true),
+    requireSymbol: flag(process.env.PASSWORD_REQUIRE_SYMBOL, false),
+  };
+}
+
+/**
+ * Returns the first rule `password` breaks, or null if it's acceptable.
+ * `user` (optional) rules out passwords containing the email name or systemId.
+ */
+function validatePassword(password, user) {
+  const policy = getPasswordPolicy();
+  const pw = String(password || '');
+
+  if (pw.length < policy.minLength) return `Password must be at least ${policy.minLength} characters`;
+  if (policy.requireUppercase && !/[A-Z]/.test(pw)) return 'Password must contain an uppercase letter';
+  if (policy.requireLowercase && !/[a-z]/.test(pw)) return 'Password must contain a lowercase letter';
+  if (policy.requireDigit && !/\d/.test(pw)) return 'Password must contain a digit';
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(pw)) return 'Password must contain a symbol';
+
+  if (user) {
+    const lower = pw.toLowerCase();
+    const emailName = String(user.email || '').split('@')[0].toLowerCase();
+    const systemId = String(user.systemId || '').toLowerCase();
+    if ((emailName.length >= 3 && lower.includes(emailName)) || (systemId.length >= 3 && lower.includes(systemId))) {
+      return 'Password must not contain your email name or ID';
+    }
+  }
+  return null;
+}
+
+// One-off password for accounts an admin creates; the user must replace it on first login
+function generateTemporaryPassword() {
+  return `Tmp-${crypto.randomBytes(9).toString('base64url')}1a`;
+}
+
+module.exports = { getPasswordPolicy, validatePassword, generateTemporaryPassword };
@@ -0,0 +1,82 @@
+// utils/richText.js
+/**
+ * Rich text in passages and question prompts: a small Markdown subset kept in
+ * the same string fields, so existing plain text stays valid.
+ *
+ *   # Heading / ## / ###         **bold**   *italic*
+ *   - item  or  1. item          lists
+ *   | Year | Sales |             tables (a |---|---| row under the header)
+ *   ![description](url)          an image on a line of its own; the description
+ *                                is its alt text, and what the AI examiner reads
+ *                                in place of a chart or diagram
+ *
+ * Raw HTML is not part of the format: sanitizeRichText strips it when content
+ * is saved, and keeps only images served over http(s) or from /uploads.
+ */
+
+const IMAGE = /!\[([^\]\n]*)\]\(([^)\s]*)(?:\s+"[^"\n]*")?\)/g;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+const isSafeImageUrl = (url) => /^(https?:\/\/[^\s"'<>]+|\/uploads\/[^\s"'<>]+)$/i.test(String(url || ''));
+
+/**
+ * Clean rich text for storage: drops HTML tags and comments, control
+ * characters and images with any other kind of URL (their description is kept
+ * as text). Non-strings pass through untouched, so it can be a schema setter.
+ */
+function sanitizeRichText(value) {
+  if (typeof value !== 'string') return value;
+  return value
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g, '')
+    .replace(/<!--[\s\S]*?(-->|$)/g, '')
+    .replace(/<\/?[a-z][^<>]*>/gi, '')
+    .replace(IMAGE, (match, description, url) => (isSafeImageUrl(url) ? match : description));
+}
+
+/**
+ * Rich text as plain text: formatting marks removed, table rows as "a | b",
+ * and each image as "[Figure N]". Returns { text, figures } where figures are
+ * the image descriptions in order.
+ */
+function richTextToPlain(value) {
+  const figures = [];
+  const text = String(value || '')
+    .split('\n')
+    .filter((line) => !TABLE_SEPARATOR.test(line))
+    .map((line) => {
+      let out = line.replace(IMAGE, (match, description) => {
+        figures.push(description.trim());
+        return `[Figure ${figures.length}]`;
+      });
+      if (/^\s*\|.*\|\s*$/.test(out)) {
+        out = out.trim().slice(1, -1).split('|').map((cell) => cell.trim()).join(' | ');
+      }
+      return out
+        .replace(/^#{1,3}\s+/, '')
+        .replace(/\*\*(\S(?:[^*]*\S)?)\*\*/g, '$1')
+        .replace(/(^|[^*])\*(\S(?:[^*]*\S)?)\*(?!\*)/g, '$1$2');
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+  return { text, figures };
+}
+
+/**
+ * A writing task as the examiner prompt gets it: plain text, followed by the
+ * descriptions of any charts or diagrams the candidate saw as images.
+ */
+function taskTextForGrading(prompt) {
+  const { text, figures } = richTextToPlain(prompt);
+  if (figures.length === 0) return text;
+  const described = figures.map((f, i) => `Figure ${i + 1}: ${f || '(no description given)'}`);
+  return `${text}\n\nThe candidate saw the figures above as images. What they show:\n${described.join('\n')}`;
+}
+
+module.exports = {
+  isSafeImageUrl,
+  sanitizeRichText,
+  richTextToPlain,
+  taskTextForGrading,
+};
@@ -10,4 +10,57 @@ function rawToBand(raw, total) {
   return Math.max(1, Math.min(9, band));
 }
 
-module.exports = { rawToBand };
+// Linear half-band fallback for tests without a usable conversion table
+function computeBandScore(earnedMarks, maxMarks) {
+  if (!maxMarks || maxMarks <= 0) return 0;
+  const raw = (earnedMarks / maxMarks) * 9;
+  return Math.round(raw * 2) / 2;
+}
+
+/**
+ * Convert a raw score with a conversion table ({ totalQuestions, rows: [{ minScore, band }] }).
+ * Scores out of a different total (e.g. a 20-question test against a 40-question
+ * table) are scaled to the table's total first. Returns null if the table has no rows.
+ */
+function rawToBandFromTable(raw, total, table) {
+  if (!table || !Array.isArray(table.rows) || table.rows.length === 0) return null;
+  if (!total || total <= 0) return 0;
+
+  const tableTotal = table.totalQuestions || total;
+  const scaled = total === tableTotal ? raw : Math.round((raw / total) * tableTotal);
+
+  let band = null;
+  let bestMin = -1;
+  for (const row of table.rows) {
+    if (row.minScore <= scaled && row.minScore > bestMin) {
+      bestMin = row.minScore;
+      band = row.band;
+    }
+  }
+  return band === null ? 0 : band;
+}
+
+/**
+ * Check a table's rows: numeric, unique minScore, bands in 0..9 on half steps.
+ * Returns an error message or null.
+ */
+function validateBandRows(rows, totalQuestions) {
+  if (!Array.isArray(rows) || rows.length === 0) return 'At least one row is required';
+
+  const seen = new Set();
+  for (const row of rows) {
+    const minScore = Number(row && row.minScore);
+    const band = Number(row && row.band);
+    if (!Number.isInteger(minScore) || minScore < 0 || minScore > totalQuestions) {
+      return `Raw scores must be whole numbers between 0 and ${totalQuestions}`;
+    }
+    if (!Number.isFinite(band) || band < 0 || band > 9 || band * 2 !== Math.round(band * 2)) {
+      return 'Bands must be between 0 and 9 in steps of 0.5';
+    }
+    if (seen.has(minScore)) return `Raw score ${minScore} appears twice`;
+    seen.add(minScore);
+  }
+  return null;
+}
+
+module.exports = { rawToBand, computeBandScore, rawToBandFromTable, validateBandRows };
@@ -0,0 +1,26 @@
+"use client";
+
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { navItems } from "@/components/admin/NavItems";
+import { RecycleBin } from "@/components/admin/RecycleBin";
+import { useEffect, useState } from "react";
+
+export default function RecycleBinPage() {
+  const [userName, setUserName] = useState("");
+
+  useEffect(() => {
+    const stored = localStorage.getItem("celts_user");
+    if (stored) {
+      try {
+        const parsed = JSON.parse(stored);
+        setUserName(parsed.name || "");
+      } catch {}
+    }
+  }, []);
+
+  return (
+    <DashboardLayout navItems={navItems} sidebarHeader="CELTS Admin" userName={userName} >
+      <RecycleBin />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,140 @@
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { PasswordRules } from "@/components/common/PasswordRules"
+import api from "@/lib/api"
+
+function dashboardFor(role?: string) {
+  if (role === "admin") return "/admin/dashboard"
+  if (role === "faculty") return "/faculty/dashboard"
+  return "/student/dashboard"
+}
+
+export default function ChangePasswordPage() {
+  const router = useRouter()
+  const [user, setUser] = useState<any>(null)
+  const [currentPassword, setCurrentPassword] = useState("")
+  const [newPassword, setNewPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    api.apiGet("/auth/me").then((res) => {
+      if (res.ok) {
+        setUser(res.data.user)
+        localStorage.setItem("celts_user", JSON.stringify(res.data.user))
+      }
+    })
+  }, [])
+
+  const forced = !!user?.mustChangePassword
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+    if (newPassword !== confirmPassword) {
+      setError("Passwords do not match.")
+      return
+    }
+
+    setIsLoading(true)
+    const res = await api.apiPatch("/auth/password", { currentPassword, newPassword })
+    setIsLoading(false)
+    if (!res.ok) {
+      setError(res.error?.message || "Could not change your password")
+      return
+    }
+
+    const updated = res.data.user
+    localStorage.setItem("celts_user", JSON.stringify(updated))
+    router.push(dashboardFor(updated.role))
+  }
+
+  const handleLogout = async () => {
+    await api.logout()
+    router.push("/auth/login")
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-white px-8 py-12">
+      <Image src="/cutm_logo.png" alt="CELTS Logo" width={140} height={140} className="mb-6" />
+      <h6 className="text-2xl font-semibold text-gray-800 text-center mb-6">
+        {forced ? "Set a new password to continue" : "Change your password"}
+      </h6>
+
+      <Card className="w-full max-w-lg p-10 shadow-lg space-y-6">
+        {forced && (
+          <p className="text-sm text-gray-600">
+            Your password was set by an administrator. Choose your own password before using CELTS.
+          </p>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <Label htmlFor="currentPassword" className="text-base font-medium">
+              {forced ? "Temporary password" : "Current password"}
+            </Label>
+            <Input
+              id="currentPassword"
+              type="password"
+              value={currentPassword}
+              onChange={(e) => setCurrentPassword(e.target.value)}
+              className="h-12 text-base"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="newPassword" className="text-base font-medium">New password</Label>
+            <Input
+              id="newPassword"
+              type="password"
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className="h-12 text-base"
+            />
+            <PasswordRules />
+          </div>
+
+          <div>
+            <Label htmlFor="confirmPassword" className="text-base font-medium">Confirm new password</Label>
+            <Input
+              id="confirmPassword"
+              type="password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              className="h-12 text-base"
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <Button type="submit" className="w-full h-12 text-base font-semibold" disabled={isLoading}>
+            {isLoading ? "Saving..." : "Change Password"}
+          </Button>
+        </form>
+
+        {forced ? (
+          <button onClick={handleLogout} className="block w-full text-center text-sm text-muted-foreground hover:underline">
+            Sign out
+          </button>
+        ) : (
+          user && (
+            <button
+              onClick={() => router.push(dashboardFor(user.role))}
+              className="block w-full text-center text-sm text-muted-foreground hover:underline"
+            >
+              Back to dashboard
+            </button>
+          )
+        )}
+      </Card>
+    </div>
+  )
+}
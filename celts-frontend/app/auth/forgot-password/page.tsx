@@ -0,0 +1,74 @@
+"use client"
+
+import React, { useState } from "react"
+import Link from "next/link"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import api from "@/lib/api"
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [sentMessage, setSentMessage] = useState("")
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+    setIsLoading(true)
+    const res = await api.apiPost("/auth/forgot-password", { email: email.trim() })
+    setIsLoading(false)
+    if (!res.ok) {
+      setError(res.error?.message || "Enter a valid email address.")
+      return
+    }
+    setSentMessage(res.data?.message || "If an account exists for that email, a reset link has been sent.")
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-white px-8 py-12">
+      <Image src="/cutm_logo.png" alt="CELTS Logo" width={140} height={140} className="mb-6" />
+      <h6 className="text-2xl font-semibold text-gray-800 text-center mb-6">
+        Reset your password
+      </h6>
+
+      <Card className="w-full max-w-lg p-10 shadow-lg space-y-6">
+        {sentMessage ? (
+          <p className="text-sm text-gray-700">
+            {sentMessage} The link expires soon and can only be used once.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <p className="text-sm text-gray-600">
+              Enter the email you sign in with and we&apos;ll send you a link to choose a new password.
+            </p>
+            <div>
+              <Label htmlFor="email" className="text-base font-medium">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                className="h-12 text-base"
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <Button type="submit" className="w-full h-12 text-base font-semibold" disabled={isLoading || !email.trim()}>
+              {isLoading ? "Sending..." : "Send Reset Link"}
+            </Button>
+          </form>
+        )}
+
+        <Link href="/auth/login" className="block text-center text-sm text-primary hover:underline">
+          Back to sign in
+        </Link>
+      </Card>
+    </div>
+  )
+}
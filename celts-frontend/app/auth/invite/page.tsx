@@ -0,0 +1,139 @@
+"use client"
+
+import React, { Suspense, useEffect, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { PasswordRules } from "@/components/common/PasswordRules"
+import api from "@/lib/api"
+
+interface InvitePreview {
+  email: string
+  name?: string
+  role: "admin" | "faculty" | "student"
+  systemId: string
+  batch?: string | null
+  expiresAt: string
+}
+
+function AcceptInvite() {
+  const router = useRouter()
+  const token = useSearchParams().get("token") || ""
+
+  const [invite, setInvite] = useState<InvitePreview | null>(null)
+  const [loadError, setLoadError] = useState("")
+  const [name, setName] = useState("")
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    if (!token) {
+      setLoadError("This invitation link is incomplete.")
+      return
+    }
+    api.apiGet(`/invitations/accept/${encodeURIComponent(token)}`).then((res) => {
+      if (!res.ok) {
+        setLoadError(res.error?.message || "This invitation link is invalid or has expired.")
+        return
+      }
+      setInvite(res.data)
+      setName(res.data.name || "")
+    })
+  }, [token])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+    if (password !== confirmPassword) {
+      setError("Passwords do not match.")
+      return
+    }
+
+    setIsLoading(true)
+    const res = await api.apiPost("/invitations/accept", { token, password, name })
+    setIsLoading(false)
+    if (!res.ok) {
+      setError(res.error?.message || "Could not create your account")
+      return
+    }
+
+    const user = res.data.user
+    localStorage.setItem("celts_user", JSON.stringify(user))
+    if (user.role === "admin") router.push("/admin/dashboard")
+    else if (user.role === "faculty") router.push("/faculty/dashboard")
+    else router.push("/student/dashboard")
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-white px-8 py-12">
+      <Image src="/cutm_logo.png" alt="CELTS Logo" width={140} height={140} className="mb-6" />
+      <h6 className="text-2xl font-semibold text-gray-800 text-center mb-6">
+        Set up your CELTS account
+      </h6>
+
+      <Card className="w-full max-w-lg p-10 shadow-lg space-y-6">
+        {loadError ? (
+          <p className="text-sm text-red-600">{loadError} Ask whoever invited you for a new link.</p>
+        ) : !invite ? (
+          <p className="text-sm text-muted-foreground">Checking your invitation...</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="text-sm text-gray-600 space-y-1">
+              <div>Email: <span className="font-medium text-gray-800">{invite.email}</span></div>
+              <div>ID: <span className="font-medium text-gray-800">{invite.systemId}</span></div>
+              <div className="capitalize">Role: <span className="font-medium text-gray-800">{invite.role}</span></div>
+              {invite.batch && <div>Batch: <span className="font-medium text-gray-800">{invite.batch}</span></div>}
+            </div>
+
+            <div>
+              <Label htmlFor="name" className="text-base font-medium">Full name</Label>
+              <Input id="name" value={name} onChange={(e) => setName(e.target.value)} className="h-12 text-base" />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="password" className="text-base font-medium">Choose a password</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="h-12 text-base"
+              />
+              <PasswordRules />
+            </div>
+
+            <div>
+              <Label htmlFor="confirmPassword" className="text-base font-medium">Confirm password</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="h-12 text-base"
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <Button type="submit" className="w-full h-12 text-base font-semibold" disabled={isLoading}>
+              {isLoading ? "Creating account..." : "Create Account"}
+            </Button>
+          </form>
+        )}
+      </Card>
+    </div>
+  )
+}
+
+export default function InvitePage() {
+  return (
+    <Suspense fallback={null}>
+      <AcceptInvite />
+    </Suspense>
+  )
+}
@@ -1,21 +1,71 @@
 "use client"
 
-import React, { useState } from "react"
-import { useRouter } from "next/navigation"
+import React, { Suspense, useEffect, useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import Link from "next/link"
 import Image from "next/image"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import api from "@/lib/api"
+import api, { API_BASE } from "@/lib/api"
 
-export default function LoginPage() {
+interface SsoConfig {
+  enabled: boolean
+  label: string | null
+}
+
+function Login() {
   const router = useRouter()
+  const searchParams = useSearchParams()
   const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState("")
 
+  // second step, when the account has two-factor authentication on
+  const [challengeToken, setChallengeToken] = useState("")
+  const [code, setCode] = useState("")
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+
+  const [sso, setSso] = useState<SsoConfig | null>(null)
+
+  useEffect(() => {
+    api.apiGet("/auth/sso/config").then((res) => {
+      if (res.ok) setSso(res.data)
+    })
+  }, [])
+
+  // coming back from the university IdP with an error, or needing the 2FA step
+  useEffect(() => {
+    const ssoError = searchParams.get("sso_error")
+    const ssoChallenge = searchParams.get("sso_challenge")
+    if (ssoError) setError(ssoError)
+    if (ssoChallenge) setChallengeToken(ssoChallenge)
+  }, [searchParams])
+
+  const finishLogin = (payload: any) => {
+    // the session itself is in httpOnly cookies; only the profile is kept client-side
+    const user = payload.user || payload
+
+    if (typeof window !== "undefined") {
+      if (user) localStorage.setItem("celts_user", JSON.stringify(user))
+    }
+
+    if (user?.mustChangePassword) {
+      router.push("/auth/change-password")
+      return
+    }
+    if (payload.method === "recovery_code") {
+      alert(`You signed in with a recovery code. ${payload.recoveryCodesLeft} code(s) left.`)
+    }
+
+    const role = user?.role || payload?.user?.role
+    if (role === "admin") router.push("/admin/dashboard")
+    else if (role === "faculty") router.push("/faculty/dashboard")
+    else router.push("/student/dashboard")
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError("")
@@ -27,20 +77,13 @@ export default function LoginPage() {
         setError(res.error?.message || "Login failed")
         return
       }
-
-      const payload = res.data
-      const token = payload.token || payload?.token
-      const user = payload.user || payload
-
-      if (typeof window !== "undefined") {
-        if (token) localStorage.setItem("celts_token", token)
-        if (user) localStorage.setItem("celts_user", JSON.stringify(user))
+      if (res.data?.twoFactorRequired) {
+        setChallengeToken(res.data.challengeToken)
+        setCode("")
+        setUseRecoveryCode(false)
+        return
       }
-
-      const role = user?.role || payload?.user?.role
-      if (role === "admin") router.push("/admin/dashboard")
-      else if (role === "faculty") router.push("/faculty/dashboard")
-      else router.push("/student/dashboard")
+      finishLogin(res.data)
     } catch (err) {
       setIsLoading(false)
       setError("Network or server error")
@@ -48,6 +91,33 @@ export default function LoginPage() {
     }
   }
 
+  const handleVerifyCode = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+    setIsLoading(true)
+    const res = await api.apiPost(
+      "/auth/login/2fa",
+      useRecoveryCode ? { challengeToken, recoveryCode: code } : { challengeToken, code }
+    )
+    setIsLoading(false)
+    if (!res.ok) {
+      if (res.error?.code === "CHALLENGE_EXPIRED") {
+        setChallengeToken("")
+        setPassword("")
+      }
+      setError(res.error?.message || "Verification failed")
+      return
+    }
+    finishLogin(res.data)
+  }
+
+  const cancelSecondStep = () => {
+    setChallengeToken("")
+    setPassword("")
+    setCode("")
+    setError("")
+  }
+
   return (
     <div className="min-h-screen flex overflow-x-hidden"> {/* FIX ADDED */}
       
@@ -85,40 +155,106 @@ export default function LoginPage() {
 
         {/* Login card */}
         <Card className="w-full max-w-lg p-10 shadow-lg space-y-6">
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <Label htmlFor="email" className="text-base font-medium">
-                Email
-              </Label>
-              <Input
-                id="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                placeholder="you@example.com"
-                className="h-12 text-base"
-              />
-            </div>
-
-            <div>
-              <Label htmlFor="password" className="text-base font-medium">
-                Password
-              </Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                placeholder="Your password"
-                className="h-12 text-base"
-              />
-            </div>
-
-            {error && <p className="text-sm text-red-600">{error}</p>}
-
-            <Button type="submit" className="w-full h-12 text-base font-semibold" disabled={isLoading}>
-              {isLoading ? "Signing in..." : "Sign In"}
-            </Button>
-          </form>
+          {challengeToken ? (
+            <form onSubmit={handleVerifyCode} className="space-y-6">
+              <div>
+                <Label htmlFor="code" className="text-base font-medium">
+                  {useRecoveryCode ? "Recovery code" : "Authentication code"}
+                </Label>
+                <p className="text-sm text-gray-600 mb-2">
+                  {useRecoveryCode
+                    ? "Enter one of the recovery codes you saved when you set up two-factor authentication."
+                    : "Enter the 6-digit code from your authenticator app."}
+                </p>
+                <Input
+                  id="code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  inputMode={useRecoveryCode ? "text" : "numeric"}
+                  autoComplete="one-time-code"
+                  maxLength={useRecoveryCode ? 16 : 6}
+                  placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                  className="h-12 text-base tracking-widest"
+                  autoFocus
+                />
+              </div>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              <Button type="submit" className="w-full h-12 text-base font-semibold" disabled={isLoading || !code.trim()}>
+                {isLoading ? "Verifying..." : "Verify"}
+              </Button>
+
+              <div className="flex justify-between text-sm">
+                <button
+                  type="button"
+                  className="text-primary hover:underline"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode)
+                    setCode("")
+                    setError("")
+                  }}
+                >
+                  {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                </button>
+                <button type="button" className="text-muted-foreground hover:underline" onClick={cancelSecondStep}>
+                  Back
+                </button>
+              </div>
+            </form>
+          ) : (
+            <>
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div>
+                  <Label htmlFor="email" className="text-base font-medium">
+                    Email
+                  </Label>
+                  <Input
+                    id="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="you@example.com"
+                    className="h-12 text-base"
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="password" className="text-base font-medium">
+                    Password
+                  </Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Your password"
+                    className="h-12 text-base"
+                  />
+                </div>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                <Button type="submit" className="w-full h-12 text-base font-semibold" disabled={isLoading}>
+                  {isLoading ? "Signing in..." : "Sign In"}
+                </Button>
+              </form>
+              <Link href="/auth/forgot-password" className="block text-center text-sm text-primary hover:underline">
+                Forgot password?
+              </Link>
+              {sso?.enabled && (
+                <>
+                  <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                    <span className="flex-1 border-t" />
+                    or
+                    <span className="flex-1 border-t" />
+                  </div>
+                  <Button asChild variant="outline" className="w-full h-12 text-base font-semibold">
+                    <a href={`${API_BASE}/auth/sso/login`}>{sso.label || "Sign in with university account"}</a>
+                  </Button>
+                </>
+              )}
+            </>
+          )}
         </Card>
 
         <footer className="mt-10 text-sm text-gray-500 text-center px-4">
@@ -128,3 +264,11 @@ export default function LoginPage() {
     </div>
   )
 }
+
+export default function LoginPage() {
+  return (
+    <Suspense fallback={null}>
+      <Login />
+    </Suspense>
+  )
+}
@@ -0,0 +1,110 @@
+"use client"
+
+import React, { Suspense, useState } from "react"
+import Link from "next/link"
+import Image from "next/image"
+import { useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { PasswordRules } from "@/components/common/PasswordRules"
+import api from "@/lib/api"
+
+function ResetPassword() {
+  const token = useSearchParams().get("token") || ""
+
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+  const [done, setDone] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+    if (password !== confirmPassword) {
+      setError("Passwords do not match.")
+      return
+    }
+
+    setIsLoading(true)
+    const res = await api.apiPost("/auth/reset-password", { token, password })
+    setIsLoading(false)
+    if (!res.ok) {
+      setError(res.error?.message || "Could not reset your password")
+      return
+    }
+    // the server signed this account out everywhere
+    localStorage.removeItem("celts_user")
+    setDone(true)
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-white px-8 py-12">
+      <Image src="/cutm_logo.png" alt="CELTS Logo" width={140} height={140} className="mb-6" />
+      <h6 className="text-2xl font-semibold text-gray-800 text-center mb-6">
+        Choose a new password
+      </h6>
+
+      <Card className="w-full max-w-lg p-10 shadow-lg space-y-6">
+        {!token ? (
+          <p className="text-sm text-red-600">
+            This reset link is incomplete. <Link href="/auth/forgot-password" className="underline">Request a new one.</Link>
+          </p>
+        ) : done ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">Your password has been changed. Sign in with your new password.</p>
+            <Button asChild className="w-full h-12 text-base font-semibold">
+              <Link href="/auth/login">Sign In</Link>
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="password" className="text-base font-medium">New password</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="h-12 text-base"
+              />
+              <PasswordRules />
+            </div>
+
+            <div>
+              <Label htmlFor="confirmPassword" className="text-base font-medium">Confirm password</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="h-12 text-base"
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600">
+                {error}{" "}
+                <Link href="/auth/forgot-password" className="underline">Request a new link</Link>
+              </p>
+            )}
+
+            <Button type="submit" className="w-full h-12 text-base font-semibold" disabled={isLoading}>
+              {isLoading ? "Saving..." : "Set Password"}
+            </Button>
+          </form>
+        )}
+      </Card>
+    </div>
+  )
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense fallback={null}>
+      <ResetPassword />
+    </Suspense>
+  )
+}
@@ -0,0 +1,49 @@
+"use client"
+
+import { Suspense, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter, useSearchParams } from "next/navigation"
+import api from "@/lib/api"
+
+// Landing page after a university sign-in; the session cookies are already set
+function CompleteSso() {
+  const router = useRouter()
+  const returnTo = useSearchParams().get("returnTo") || ""
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    api.apiGet("/auth/me").then((res) => {
+      if (!res.ok) {
+        setError(res.error?.message || "Sign-in could not be completed.")
+        return
+      }
+      const user = res.data.user
+      localStorage.setItem("celts_user", JSON.stringify(user))
+
+      if (returnTo.startsWith("/") && !returnTo.startsWith("//")) router.replace(returnTo)
+      else if (user.role === "admin") router.replace("/admin/dashboard")
+      else if (user.role === "faculty") router.replace("/faculty/dashboard")
+      else router.replace("/student/dashboard")
+    })
+  }, [router, returnTo])
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-white px-8">
+      {error ? (
+        <p className="text-sm text-red-600">
+          {error} <Link href="/auth/login" className="underline">Back to sign in</Link>
+        </p>
+      ) : (
+        <p className="text-sm text-muted-foreground">Signing you in...</p>
+      )}
+    </div>
+  )
+}
+
+export default function SsoCompletePage() {
+  return (
+    <Suspense fallback={null}>
+      <CompleteSso />
+    </Suspense>
+  )
+}
@@ -0,0 +1,319 @@
+"use client"
+
+import React, { useCallback, useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import api from "@/lib/api"
+
+interface TwoFactorStatus {
+  eligible: boolean
+  enabled: boolean
+  required: boolean
+  enabledAt: string | null
+  recoveryCodesLeft?: number
+}
+
+interface Enrollment {
+  secret: string
+  otpauthUrl: string
+  qrDataUrl: string
+}
+
+function dashboardFor(role?: string) {
+  if (role === "admin") return "/admin/dashboard"
+  if (role === "faculty") return "/faculty/dashboard"
+  return "/student/dashboard"
+}
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const download = () => {
+    const blob = new Blob([codes.join("\n") + "\n"], { type: "text/plain" })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = "celts-recovery-codes.txt"
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-700">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator.
+        They won&apos;t be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-muted rounded p-4">
+        {codes.map((c) => (
+          <span key={c}>{c}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={() => navigator.clipboard?.writeText(codes.join("\n"))}>
+          Copy
+        </Button>
+        <Button variant="outline" onClick={download}>
+          Download
+        </Button>
+        <Button className="ml-auto" onClick={onDone}>
+          I&apos;ve saved them
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default function TwoFactorPage() {
+  const router = useRouter()
+  const [user, setUser] = useState<any>(null)
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState("")
+  const [password, setPassword] = useState("")
+  const [showDisable, setShowDisable] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  const loadStatus = useCallback(async () => {
+    const res = await api.apiGet("/auth/2fa")
+    if (res.ok) setStatus(res.data)
+  }, [])
+
+  useEffect(() => {
+    api.apiGet("/auth/me").then((res) => {
+      if (res.ok) setUser(res.data.user)
+    })
+    loadStatus()
+  }, [loadStatus])
+
+  const resetForm = () => {
+    setCode("")
+    setPassword("")
+    setError("")
+  }
+
+  const startSetup = async () => {
+    resetForm()
+    setIsLoading(true)
+    const res = await api.apiPost("/auth/2fa/setup", {})
+    setIsLoading(false)
+    if (!res.ok) {
+      setError(res.error?.message || "Could not start setup")
+      return
+    }
+    setEnrollment(res.data)
+  }
+
+  const confirmSetup = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+    setIsLoading(true)
+    const res = await api.apiPost("/auth/2fa/enable", { code })
+    setIsLoading(false)
+    if (!res.ok) {
+      setError(res.error?.message || "Could not enable two-factor authentication")
+      return
+    }
+    setEnrollment(null)
+    resetForm()
+    setRecoveryCodes(res.data.recoveryCodes)
+    loadStatus()
+  }
+
+  const regenerateCodes = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+    setIsLoading(true)
+    const res = await api.apiPost("/auth/2fa/recovery-codes", { code })
+    setIsLoading(false)
+    if (!res.ok) {
+      setError(res.error?.message || "Could not generate new codes")
+      return
+    }
+    resetForm()
+    setRecoveryCodes(res.data.recoveryCodes)
+    loadStatus()
+  }
+
+  const disable = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+    setIsLoading(true)
+    const res = await api.apiPost("/auth/2fa/disable", { password, code })
+    setIsLoading(false)
+    if (!res.ok) {
+      setError(res.error?.message || "Could not disable two-factor authentication")
+      return
+    }
+    resetForm()
+    setShowDisable(false)
+    loadStatus()
+  }
+
+  const handleLogout = async () => {
+    await api.logout()
+    router.push("/auth/login")
+  }
+
+  // held here until setup is finished
+  const blocked = !!status?.required && !status.enabled
+
+  let content: React.ReactNode
+  if (!status) {
+    content = <p className="text-sm text-muted-foreground">Loading...</p>
+  } else if (recoveryCodes) {
+    content = (
+      <RecoveryCodes
+        codes={recoveryCodes}
+        onDone={() => {
+          setRecoveryCodes(null)
+          if (user) router.push(dashboardFor(user.role))
+        }}
+      />
+    )
+  } else if (!status.eligible) {
+    content = (
+      <p className="text-sm text-gray-700">Two-factor authentication is only available for admin and faculty accounts.</p>
+    )
+  } else if (enrollment) {
+    content = (
+      <form onSubmit={confirmSetup} className="space-y-6">
+        <ol className="text-sm text-gray-700 list-decimal pl-5 space-y-1">
+          <li>Scan this QR code with an authenticator app (Google Authenticator, Microsoft Authenticator, 1Password...).</li>
+          <li>Enter the 6-digit code the app shows.</li>
+        </ol>
+        <div className="flex flex-col items-center gap-2">
+          <img src={enrollment.qrDataUrl} alt="Two-factor QR code" className="w-48 h-48" />
+          <p className="text-xs text-muted-foreground">Can&apos;t scan? Enter this key manually:</p>
+          <code className="text-sm font-mono break-all">{enrollment.secret}</code>
+        </div>
+        <div>
+          <Label htmlFor="code" className="text-base font-medium">Authentication code</Label>
+          <Input
+            id="code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            className="h-12 text-base tracking-widest"
+          />
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <Button type="submit" className="w-full h-12 text-base font-semibold" disabled={isLoading || code.length !== 6}>
+          {isLoading ? "Verifying..." : "Turn On"}
+        </Button>
+      </form>
+    )
+  } else if (!status.enabled) {
+    content = (
+      <div className="space-y-4">
+        <p className="text-sm text-gray-700">
+          {blocked
+            ? "Your administrator requires two-factor authentication for your account. Set it up to continue."
+            : "Protect your account with a code from an authenticator app in addition to your password."}
+        </p>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <Button className="w-full h-12 text-base font-semibold" onClick={startSetup} disabled={isLoading}>
+          {isLoading ? "Preparing..." : "Set Up Two-Factor Authentication"}
+        </Button>
+      </div>
+    )
+  } else {
+    content = (
+      <div className="space-y-6">
+        <div className="text-sm text-gray-700 space-y-1">
+          <div>
+            Status: <span className="font-medium text-green-700">On</span>
+            {status.required && <span className="text-muted-foreground"> (required for your account)</span>}
+          </div>
+          {status.enabledAt && <div>Since: {new Date(status.enabledAt).toLocaleDateString()}</div>}
+          {status.recoveryCodesLeft !== undefined && <div>Recovery codes left: {status.recoveryCodesLeft}</div>}
+        </div>
+
+        <form onSubmit={showDisable ? disable : regenerateCodes} className="space-y-4">
+          {showDisable && (
+            <div>
+              <Label htmlFor="password" className="text-base font-medium">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="h-12 text-base"
+              />
+            </div>
+          )}
+          <div>
+            <Label htmlFor="code" className="text-base font-medium">Authentication code</Label>
+            <Input
+              id="code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              className="h-12 text-base tracking-widest"
+            />
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            {showDisable ? (
+              <>
+                <Button type="submit" variant="destructive" disabled={isLoading || !password || !code}>
+                  Turn Off
+                </Button>
+                <Button type="button" variant="outline" onClick={() => { setShowDisable(false); resetForm() }}>
+                  Cancel
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button type="submit" disabled={isLoading || !code}>
+                  New Recovery Codes
+                </Button>
+                {!status.required && (
+                  <Button type="button" variant="outline" onClick={() => { setShowDisable(true); resetForm() }}>
+                    Turn Off...
+                  </Button>
+                )}
+              </>
+            )}
+          </div>
+        </form>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-white px-8 py-12">
+      <Image src="/cutm_logo.png" alt="CELTS Logo" width={140} height={140} className="mb-6" />
+      <h6 className="text-2xl font-semibold text-gray-800 text-center mb-6">
+        Two-factor authentication
+      </h6>
+
+      <Card className="w-full max-w-lg p-10 shadow-lg space-y-6">
+        {content}
+
+        {blocked ? (
+          <button onClick={handleLogout} className="block w-full text-center text-sm text-muted-foreground hover:underline">
+            Sign out
+          </button>
+        ) : (
+          user && !recoveryCodes && (
+            <button
+              onClick={() => router.push(dashboardFor(user.role))}
+              className="block w-full text-center text-sm text-muted-foreground hover:underline"
+            >
+              Back to dashboard
+            </button>
+          )
+        )}
+      </Card>
+    </div>
+  )
+}
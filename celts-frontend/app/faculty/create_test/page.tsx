@@ -5,9 +5,12 @@ import React, { useEffect, useState } from "react";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import TestCreateForm from "@/components/faculty/TestCreateForm";
 import { navItems } from "@/components/faculty/NavItems";
+import { TemplateImport } from "@/components/faculty/TemplateImport";
+import { useRouter } from "next/navigation";
 
 export default function TestManagementPage() {
     const [userName, setUserName] = useState<string>("")
+    const router = useRouter()
 
     useEffect(() => {
         const storedUser = localStorage.getItem("celts_user")
@@ -23,9 +26,12 @@ export default function TestManagementPage() {
     return (
         <DashboardLayout navItems={navItems} sidebarHeader="CELTS Faculty" userName={userName}>
             <div className="space-y-6">
-                <div>
-                    <h1 className="text-3xl font-bold mb-2">Create Test</h1>
-                    <p className="text-muted-foreground">Develop Comprehensive English Skill Tests</p>
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <h1 className="text-3xl font-bold mb-2">Create Test</h1>
+                        <p className="text-muted-foreground">Develop Comprehensive English Skill Tests</p>
+                    </div>
+                    <TemplateImport onImported={() => router.push("/faculty/view_test")} />
                 </div>
 
                 <div className="bg-white p-6 rounded shadow-sm">
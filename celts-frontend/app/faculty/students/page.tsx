@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import { DashboardLayout } from "@/components/layout/dashboard-layout";
 import { StudentDetail } from "@/components/faculty/StudentDetail";
 import { navItems } from "@/components/faculty/NavItems";
+import { Invitations } from "@/components/admin/Invitations";
 
 export default function StudentPage() {
   const [userName, setUserName] = useState("");
@@ -19,7 +20,10 @@ export default function StudentPage() {
 
   return (
     <DashboardLayout navItems={navItems} sidebarHeader="CELTS Faculty" userName={userName}>
-      <StudentDetail />
+      <div className="space-y-6">
+        <StudentDetail />
+        <Invitations scope="faculty" />
+      </div>
     </DashboardLayout>
   );
 }
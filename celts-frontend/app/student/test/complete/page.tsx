@@ -14,6 +14,7 @@ function TestCompleteContent() {
   const autoSubmitted = searchParams.get("autoSubmit") === "true";
   const submissionId = searchParams.get("submissionId");
   const reason = searchParams.get("reason");
+  const mockId = searchParams.get("mockId");
 
   const [countdown, setCountdown] = useState(5);
 
@@ -185,6 +186,14 @@ function TestCompleteContent() {
         </div>
 
         <div className="flex flex-col sm:flex-row gap-3 justify-center pt-4">
+          {mockId && (
+            <Button
+              onClick={() => router.push(`/student/test/mock?testId=${mockId}`)}
+              className="bg-indigo-600 hover:bg-indigo-700 text-white px-6 py-3 rounded-lg shadow-md"
+            >
+              Continue Full Mock
+            </Button>
+          )}
           {/* Only show 'View Results Now' button for valid submission IDs */}
           {submissionId && 
            submissionId !== "processing" && 
@@ -11,6 +11,9 @@ function TestInstructionsContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const testId = searchParams.get("testId");
+  // set when this test is one module of a full mock
+  const mockId = searchParams.get("mockId");
+  const mockResultId = searchParams.get("mockResultId");
   const [agreed, setAgreed] = useState(false);
 
   const handleStartTest = () => {
@@ -22,7 +25,12 @@ function TestInstructionsContent() {
       alert("No test ID provided.");
       return;
     }
-    router.push(`/student/test/testRunner?testId=${testId}`);
+    const params = new URLSearchParams({ testId });
+    if (mockId && mockResultId) {
+      params.set("mockId", mockId);
+      params.set("mockResultId", mockResultId);
+    }
+    router.push(`/student/test/testRunner?${params.toString()}`);
   };
 
   const rules = [
@@ -0,0 +1,262 @@
+"use client";
+
+import { useCallback, useEffect, useState, Suspense } from "react";
+import { useSearchParams, useRouter } from "next/navigation";
+import { BookOpen, CheckCircle2, Clock, Headphones, Lock, Mic, PenLine } from "lucide-react";
+
+import { DashboardLayout } from "@/components/layout/dashboard-layout";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import api from "@/lib/api";
+import { navItems } from "@/components/student/NavItems";
+
+type MockSkill = "listening" | "reading" | "writing" | "speaking";
+type ModuleStatus = "pending" | "in_progress" | "submitted" | "graded";
+
+interface MockModule {
+  index: number;
+  skill: MockSkill;
+  instructions: string;
+  testId: string;
+  title: string | null;
+  timeLimitMinutes: number;
+  status: ModuleStatus;
+  bandScore: number | null;
+  submissionId: string | null;
+}
+
+interface MockView {
+  _id: string;
+  title: string;
+  description: string;
+  modules: MockModule[];
+  result: {
+    _id: string;
+    status: "in_progress" | "awaiting_grading" | "completed";
+    currentModule: number;
+    overallBand: number | null;
+    completedAt: string | null;
+  } | null;
+}
+
+function skillIcon(skill: MockSkill) {
+  switch (skill) {
+    case "listening":
+      return <Headphones className="w-5 h-5 text-indigo-600" />;
+    case "reading":
+      return <BookOpen className="w-5 h-5 text-indigo-600" />;
+    case "writing":
+      return <PenLine className="w-5 h-5 text-indigo-600" />;
+    case "speaking":
+      return <Mic className="w-5 h-5 text-indigo-600" />;
+  }
+}
+
+function moduleStatusLabel(status: ModuleStatus) {
+  switch (status) {
+    case "in_progress":
+      return "In progress";
+    case "submitted":
+      return "Under evaluation";
+    case "graded":
+      return "Graded";
+    default:
+      return "Not started";
+  }
+}
+
+function MockTestContent() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const testId = searchParams.get("testId");
+
+  const [userName, setUserName] = useState<string>("Student");
+  const [mock, setMock] = useState<MockView | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const storedUser = typeof window !== "undefined" ? localStorage.getItem("celts_user") : null;
+    if (storedUser) {
+      try {
+        const parsed = JSON.parse(storedUser);
+        setUserName(parsed.name || "Student");
+      } catch {}
+    }
+  }, []);
+
+  const fetchMock = useCallback(async () => {
+    if (!testId) return;
+    const res = await api.apiGet(`/student/mocks/${testId}`);
+    if (!res.ok) {
+      setError(res.error?.message || "Failed to load mock test");
+    } else {
+      setMock(res.data as MockView);
+      setError(null);
+    }
+    setLoading(false);
+  }, [testId]);
+
+  useEffect(() => {
+    fetchMock();
+
+    // module submissions finish in the background; pick them up on return
+    const handleVisibilityChange = () => {
+      if (!document.hidden) fetchMock();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [fetchMock]);
+
+  async function startMock() {
+    if (!testId) return;
+    setBusy(true);
+    const res = await api.apiPost(`/student/mocks/${testId}/start`, {});
+    setBusy(false);
+    if (!res.ok) {
+      setError(res.error?.message || "Could not start the mock test");
+      return;
+    }
+    setMock(res.data as MockView);
+  }
+
+  async function startModule(index: number) {
+    if (!testId) return;
+    setBusy(true);
+    const res = await api.apiPost(`/student/mocks/${testId}/modules/${index}/start`, {});
+    setBusy(false);
+    if (!res.ok) {
+      setError(res.error?.message || "Could not start this module");
+      fetchMock();
+      return;
+    }
+
+    const params = new URLSearchParams({
+      testId: String(res.data.testId),
+      mockId: testId,
+      mockResultId: String(res.data.mockResultId),
+    });
+    router.push(`/student/test/instructions?${params.toString()}`);
+  }
+
+  if (!testId) {
+    return <div className="text-sm text-red-600">No test ID provided.</div>;
+  }
+
+  const result = mock?.result || null;
+  const totalMinutes = (mock?.modules || []).reduce((sum, m) => sum + (m.timeLimitMinutes || 0), 0);
+
+  return (
+    <DashboardLayout navItems={navItems} sidebarHeader="CELTS Student" userName={userName}>
+      <div className="space-y-8">
+        <div
+          className="rounded-2xl md:rounded-3xl p-6 md:p-10 text-white shadow-xl"
+          style={{ background: "linear-gradient(135deg, #4F46E5 0%, #6366F1 40%, #8B5CF6 100%)" }}
+        >
+          <h1 className="text-2xl md:text-4xl font-bold tracking-tight drop-shadow-sm">
+            {mock?.title || "Full Mock Test"}
+          </h1>
+          <p className="text-indigo-100 text-xs md:text-sm mt-2 max-w-xl">
+            {mock?.description || "Four modules taken in order, each with its own timer and instructions."}
+          </p>
+          {totalMinutes > 0 && (
+            <p className="text-indigo-100 text-xs mt-2">Total time: {totalMinutes} minutes</p>
+          )}
+        </div>
+
+        {loading && <div className="text-sm text-slate-600">Loading mock test...</div>}
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {mock && (
+          <>
+            {result?.status === "completed" && (
+              <Card className="p-6 border-green-200 bg-green-50">
+                <div className="flex items-center gap-3">
+                  <CheckCircle2 className="w-6 h-6 text-green-600" />
+                  <div>
+                    <p className="text-sm text-green-800 font-medium">Overall band</p>
+                    <p className="text-3xl font-bold text-green-700">{result.overallBand ?? "-"}</p>
+                  </div>
+                </div>
+              </Card>
+            )}
+            {result?.status === "awaiting_grading" && (
+              <Card className="p-4 border-amber-200 bg-amber-50 text-sm text-amber-700">
+                All modules submitted. Your overall band will appear once every module has been evaluated.
+              </Card>
+            )}
+
+            <div className="space-y-4">
+              {mock.modules.map((m) => {
+                const isCurrent = result?.status === "in_progress" && result.currentModule === m.index;
+                const isLocked = !result || (result.status === "in_progress" && m.index > result.currentModule);
+
+                return (
+                  <Card key={m.index} className="p-5">
+                    <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+                      <div className="flex items-start gap-3">
+                        <div className="p-2 rounded-lg bg-indigo-50">{skillIcon(m.skill)}</div>
+                        <div className="space-y-1">
+                          <p className="font-semibold text-slate-800 capitalize">
+                            {m.index + 1}. {m.skill}
+                            {m.title && <span className="font-normal text-slate-500"> - {m.title}</span>}
+                          </p>
+                          <p className="text-xs text-slate-500 flex items-center gap-1">
+                            <Clock className="w-3 h-3" />
+                            {m.timeLimitMinutes > 0 ? `${m.timeLimitMinutes} minutes` : "No time limit"}
+                            <span className="mx-1">·</span>
+                            {moduleStatusLabel(m.status)}
+                            {m.bandScore != null && <span className="ml-1 font-medium text-slate-700">Band {m.bandScore}</span>}
+                          </p>
+                          {m.instructions && (
+                            <p className="text-sm text-slate-600 whitespace-pre-line">{m.instructions}</p>
+                          )}
+                        </div>
+                      </div>
+
+                      <div className="shrink-0">
+                        {isCurrent ? (
+                          <Button
+                            size="sm"
+                            disabled={busy}
+                            onClick={() => startModule(m.index)}
+                            className="rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white"
+                          >
+                            {m.status === "in_progress" ? "Continue Module" : "Start Module"}
+                          </Button>
+                        ) : isLocked ? (
+                          <span className="text-xs text-slate-400 flex items-center gap-1">
+                            <Lock className="w-3 h-3" /> Locked
+                          </span>
+                        ) : null}
+                      </div>
+                    </div>
+                  </Card>
+                );
+              })}
+            </div>
+
+            {!result && (
+              <Button
+                disabled={busy}
+                onClick={startMock}
+                className="rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white"
+              >
+                Start Full Mock
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
+
+export default function MockTestPage() {
+  return (
+    <Suspense fallback={<div className="min-h-screen flex items-center justify-center"><div className="text-center">Loading...</div></div>}>
+      <MockTestContent />
+    </Suspense>
+  );
+}
@@ -135,6 +135,7 @@ export default function StudentTestsPage() {
 
   function typeLabel(type?: TestType) {
     if (!type) return "Test";
+    if (type === "mock") return "Full Mock";
     return type.charAt(0).toUpperCase() + type.slice(1);
   }
 
@@ -458,6 +459,27 @@ export default function StudentTestsPage() {
                     {(() => {
                       const buttonText = getButtonText(test);
                       const canStart = canStartTest(test);
+
+                      // Full mocks are run from their own module overview page
+                      if (test.type === "mock") {
+                        return (
+                          <Link
+                            href={`/student/test/mock?testId=${encodeURIComponent(id)}`}
+                            className="w-full sm:w-auto"
+                          >
+                            <Button
+                              size="sm"
+                              className="w-full sm:w-auto rounded-lg px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white shadow-md text-xs md:text-sm"
+                            >
+                              {test.attemptStatus === "attempted"
+                                ? "View Mock"
+                                : test.attemptStatus === "in-progress"
+                                ? "Continue Mock"
+                                : "Open Mock"}
+                            </Button>
+                          </Link>
+                        );
+                      }
                       
                       // Handle "Under Evaluation" state
                       if (test.evaluationStatus === "under_evaluation") {
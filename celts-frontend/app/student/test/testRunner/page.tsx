@@ -11,6 +11,8 @@ import api from "@/lib/api";
 import { useTestProctoring } from "@/hooks/use-test-proctoring";
 import { ViolationDialog } from "@/components/ViolationDialog";
 import { ViolationWarningDialog } from "@/components/ViolationWarningDialog";
+import { TestPreviewResults, PreviewGrade } from "@/components/faculty/TestPreviewResults";
+import { RichText } from "@/components/RichText";
 
 type TestType = "reading" | "listening" | "writing" | "speaking" | string;
 type Option = { text: string };
@@ -18,15 +20,30 @@ type SpeakingMode = "audio" | "video" | "oral";
 
 interface Question {
   _id?: string;
-  questionType: "mcq" | "writing" | "speaking";
+  questionType:
+    | "mcq"
+    | "multi_select"
+    | "tfng"
+    | "matching_headings"
+    | "map_labelling"
+    | "gap_fill"
+    | "sentence_completion"
+    | "writing"
+    | "speaking";
   prompt: string;
   options?: Option[];
   correctIndex?: number;
+  // answer key; only a faculty preview is served these
+  correctIndexes?: number[];
+  acceptedAnswers?: string[];
+  selectCount?: number;
+  imageUrl?: string;
   writingType?: string;
   wordLimit?: number;
   charLimit?: number;
   speakingMode?: SpeakingMode;
   recordLimitSeconds?: number;
+  timeLimitSeconds?: number;
   marks?: number;
   explanation?: string;
   sectionId?: string | null;
@@ -36,6 +53,7 @@ interface ReadingSection {
   id: string;
   title?: string;
   passage: string;
+  timeLimitMinutes?: number;
 }
 
 interface ListeningSection {
@@ -43,6 +61,7 @@ interface ListeningSection {
   title?: string;
   audioUrl: string;
   listenLimit?: number;
+  timeLimitMinutes?: number;
 }
 
 interface TestSet {
@@ -58,6 +77,8 @@ interface TestSet {
   timeLimitMinutes?: number;
   questions: Question[];
   createdAt?: string;
+  previewVersion?: number | null;
+  previewDraft?: boolean;
 }
 
 type SpeakingUIState = {
@@ -86,6 +107,63 @@ type EvalItem =
     audioUrl?: string;
   };
 
+// A section (passage / audio) or speaking prompt with its own time limit
+type TimedTarget = {
+  type: "section" | "question";
+  id: string;
+  limitSeconds: number;
+  questionIds: string[];
+};
+
+type TargetTimer = TimedTarget & {
+  deadline: number;
+  locked: boolean;
+};
+
+const targetKey = (t: { type: string; id: string }) => `${t.type}:${t.id}`;
+
+// Fingerprint of a prompt's recording when its time ran out; the server keeps the
+// submitted recording of a locked prompt only if it still matches
+async function sha256Hex(blob: Blob): Promise<string | null> {
+  if (typeof crypto === "undefined" || !crypto.subtle) return null;
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Draft autosave: save once typing pauses, but at least this often while it doesn't
+const AUTOSAVE_DEBOUNCE_MS = 2000;
+const AUTOSAVE_MAX_WAIT_MS = 15000;
+
+type DraftStatus = { state: "idle" | "saving" | "saved" | "error"; at?: number };
+
+const CHOICE_TYPES = ["mcq", "multi_select", "tfng", "matching_headings", "map_labelling"];
+const TEXT_ANSWER_TYPES = ["gap_fill", "sentence_completion"];
+
+const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+// Whether a reading/listening answer entry holds an actual answer
+function hasAutoAnswer(q: Question, ans: any): boolean {
+  if (q.questionType === "multi_select") return Array.isArray(ans?.selectedIndexes) && ans.selectedIndexes.length > 0;
+  if (TEXT_ANSWER_TYPES.includes(q.questionType)) return typeof ans?.text === "string" && ans.text.trim().length > 0;
+  return typeof ans?.selectedIndex === "number";
+}
+
+function normalizeQuestions(questions: Question[]): Question[] {
+  return questions.map((q) =>
+    CHOICE_TYPES.includes(q.questionType)
+      ? {
+        ...q,
+        options: Array.isArray(q.options) && q.options.length ? q.options : [{ text: "" }, { text: "" }],
+        correctIndex: typeof q.correctIndex === "number" ? q.correctIndex : 0,
+        sectionId: typeof q.sectionId === "string" ? q.sectionId : q.sectionId ?? null,
+      }
+      : {
+        ...q,
+        sectionId: typeof q.sectionId === "string" ? q.sectionId : q.sectionId ?? null,
+      }
+  );
+}
+
 // Audio Player Component with play limit enforcement
 function AudioPlayer({ audioUrl, playLimit, sectionId }: { audioUrl: string; playLimit: number; sectionId: string }) {
   const [playCount, setPlayCount] = useState(0);
@@ -184,6 +262,13 @@ function TestRunnerContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const testId = searchParams.get("testId");
+  // set when this test is one module of a full mock
+  const mockId = searchParams.get("mockId");
+  const mockResultId = searchParams.get("mockResultId");
+  // faculty "preview as student": the full runner with no attempt, session,
+  // proctoring, timer records, autosave or submission behind it
+  const isPreview = searchParams.get("preview") === "1";
+  const previewVersion = searchParams.get("version");
 
   const [test, setTest] = useState<TestSet | null>(null);
   const [loading, setLoading] = useState(true);
@@ -201,6 +286,9 @@ function TestRunnerContent() {
   const [isSubmissionInProgress, setIsSubmissionInProgress] = useState(false);
   const [isAutoSubmitting, setIsAutoSubmitting] = useState(false);
   const [showSubmissionModal, setShowSubmissionModal] = useState(false);
+  const [previewFinished, setPreviewFinished] = useState(false);
+  const [previewGrade, setPreviewGrade] = useState<PreviewGrade | null>(null);
+  const [previewGradeError, setPreviewGradeError] = useState<string | null>(null);
 
   // Get session token safely on client side
   const [sessionToken, setSessionToken] = useState<string | undefined>(undefined);
@@ -211,50 +299,16 @@ function TestRunnerContent() {
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
   const [timerWarning, setTimerWarning] = useState(false);
   const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // local-clock estimate of the server deadline; the server is authoritative
+  const deadlineRef = useRef<number | null>(null);
 
   // Create device session when component mounts
   useEffect(() => {
-    if (typeof window !== 'undefined' && testId && !deviceSessionCreated) {
+    if (typeof window !== 'undefined' && testId && !deviceSessionCreated && !isPreview) {
       const createDeviceSession = async () => {
         try {
           console.log('Creating device session for test:', testId);
 
-          // Check if user is authenticated first
-          const authToken = localStorage.getItem('celts_token');
-          console.log('Authentication token present:', !!authToken);
-
-          if (!authToken) {
-            console.error('No authentication token found');
-            toast.error('Authentication Required', {
-              description: 'Please log in again to start the exam.',
-              duration: 5000,
-            });
-            return;
-          }
-
-          // Try to decode the token to check if it's valid (just basic check)
-          try {
-            const tokenParts = authToken.split('.');
-            if (tokenParts.length === 3) {
-              const payload = JSON.parse(atob(tokenParts[1]));
-              const currentTime = Math.floor(Date.now() / 1000);
-              console.log('Token expires at:', new Date(payload.exp * 1000));
-              console.log('Current time:', new Date(currentTime * 1000));
-              console.log('Token valid:', payload.exp > currentTime);
-
-              if (payload.exp <= currentTime) {
-                console.error('Token has expired');
-                toast.error('Session Expired', {
-                  description: 'Your session has expired. Please log in again.',
-                  duration: 5000,
-                });
-                return;
-              }
-            }
-          } catch (tokenError) {
-            console.error('Error parsing token:', tokenError);
-          }
-
           // Test authentication by making a simple API call first
           console.log('Testing authentication...');
           const authTestResponse = await api.apiGet('/student/tests');
@@ -264,7 +318,7 @@ function TestRunnerContent() {
             console.error('Authentication test failed:', authTestResponse);
 
             if (authTestResponse.status === 401) {
-              localStorage.removeItem('celts_token');
+              localStorage.removeItem('celts_user');
               toast.error('Authentication Failed', {
                 description: 'Your session has expired. Please log in again.',
                 duration: 5000,
@@ -337,7 +391,7 @@ function TestRunnerContent() {
               });
 
               // Clear stored token and redirect after a delay
-              localStorage.removeItem('celts_token');
+              localStorage.removeItem('celts_user');
               setTimeout(() => {
                 window.location.href = '/auth/login';
               }, 2000);
@@ -408,8 +462,9 @@ function TestRunnerContent() {
       autoSubmit: "true",
       reason: reason,
     });
+    if (mockId) params.set("mockId", mockId);
     router.push(`/student/test/complete?${params.toString()}`);
-  }, [attemptId, testId, test?.title, test?.type, router]);
+  }, [attemptId, testId, test?.title, test?.type, router, mockId]);
 
   const hasSubmittedRef = useRef(false);
   const autoSubmitCalledRef = useRef(false);
@@ -483,8 +538,8 @@ function TestRunnerContent() {
 
 
   const proctoring = useTestProctoring({
-    testId: testId || undefined,
-    enabled: !!testId && !!test && hasStarted && deviceSessionCreated && !submitting && !isSubmissionInProgress && !isAutoSubmitting,
+    testId: isPreview ? undefined : testId || undefined,
+    enabled: !isPreview && !!testId && !!test && hasStarted && deviceSessionCreated && !submitting && !isSubmissionInProgress && !isAutoSubmitting,
     autoSubmitOnViolation: true,
     warningsBeforeAutoSubmit: 2,
     sessionToken,
@@ -522,10 +577,14 @@ function TestRunnerContent() {
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
   const mediaChunksRef = useRef<Blob[]>([]);
+  // settles once the current recording's blob is stored
+  const recordingStoppedRef = useRef<Promise<void> | null>(null);
 
   const liveVideoRef = useRef<HTMLVideoElement | null>(null);
 
   const [currentIndex, setCurrentIndex] = useState(0);
+  // question index restored from the attempt's draft, applied once the questions are laid out
+  const resumeIndexRef = useRef<number | null>(null);
   const [flatQuestions, setFlatQuestions] = useState<{ q: Question; idx: number }[]>([]);
 
   // Store submit function in ref for proctoring
@@ -543,7 +602,7 @@ function TestRunnerContent() {
   useEffect(() => {
     // Prevent navigation away without confirmation
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
-      if (test && !submitting) {
+      if (test && !submitting && !isPreview) {
         e.preventDefault();
         e.returnValue = '';
       }
@@ -580,8 +639,10 @@ function TestRunnerContent() {
   // Timer effect
   useEffect(() => {
     if (test && test.timeLimitMinutes && test.timeLimitMinutes > 0 && hasStarted) {
-      // Initialize timer
-      const totalSeconds = test.timeLimitMinutes * 60;
+      // Initialize timer from the server deadline when we have one
+      const secondsToDeadline = () =>
+        Math.max(0, Math.ceil(((deadlineRef.current as number) - Date.now()) / 1000));
+      const totalSeconds = deadlineRef.current ? secondsToDeadline() : test.timeLimitMinutes * 60;
       setTimeRemaining(totalSeconds);
 
       // Start countdown
@@ -617,7 +678,7 @@ function TestRunnerContent() {
             });
           }
 
-          return prev - 1;
+          return deadlineRef.current ? secondsToDeadline() : prev - 1;
         });
       }, 1000);
 
@@ -629,6 +690,22 @@ function TestRunnerContent() {
     }
   }, [test, hasStarted, submitting]);
 
+  // Re-sync with the server's persisted deadline (survives reloads, clock drift and other nodes)
+  useEffect(() => {
+    if (!attemptId || !hasStarted || submitting) return;
+
+    const sync = async () => {
+      const res = await api.apiGet(`/security/timer/remaining/${attemptId}`);
+      if (res.ok && typeof res.data?.remaining === "number") {
+        deadlineRef.current = Date.now() + res.data.remaining * 1000;
+      }
+    };
+
+    sync();
+    const interval = setInterval(sync, 30000);
+    return () => clearInterval(interval);
+  }, [attemptId, hasStarted, submitting]);
+
   // Format time display
   const formatTime = (seconds: number): string => {
     const hours = Math.floor(seconds / 3600);
@@ -645,13 +722,191 @@ function TestRunnerContent() {
     if (test) {
       const flat: { q: Question; idx: number }[] = test.questions.map((q, idx) => ({ q, idx }));
       setFlatQuestions(flat);
-      setCurrentIndex(0);
+      // a recovered attempt continues on the question it was on
+      const resumeIndex = resumeIndexRef.current ?? 0;
+      resumeIndexRef.current = null;
+      setCurrentIndex(Math.min(Math.max(resumeIndex, 0), Math.max(flat.length - 1, 0)));
     } else {
       setFlatQuestions([]);
       setCurrentIndex(0);
     }
   }, [test]);
 
+  // Draft autosave (server-side, per attempt). Only enabled once we know the
+  // local answers are at least as new as the server's draft, so a failed
+  // recovery can't overwrite a saved essay with an empty one.
+  const [autosaveEnabled, setAutosaveEnabled] = useState(false);
+  const [draftStatus, setDraftStatus] = useState<DraftStatus>({ state: "idle" });
+  const draftTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const draftDirtySinceRef = useRef<number | null>(null);
+  const saveDraft = useCallback(async (index: number) => {
+    if (!attemptId) return;
+    draftDirtySinceRef.current = null;
+    setDraftStatus({ state: "saving" });
+    try {
+      const res = await api.apiPut(`/security/draft/${attemptId}`, {
+        answers: answersRef.current,
+        currentIndex: index,
+        revision: Date.now(),
+      });
+      setDraftStatus(res.ok ? { state: "saved", at: Date.now() } : { state: "error" });
+    } catch (err) {
+      console.warn("Draft autosave failed:", err);
+      setDraftStatus({ state: "error" });
+    }
+  }, [attemptId]);
+
+  useEffect(() => {
+    if (!hasStarted || !attemptId || submitting || !autosaveEnabled) return;
+
+    const now = Date.now();
+    if (draftDirtySinceRef.current === null) draftDirtySinceRef.current = now;
+    const wait = Math.max(0, Math.min(AUTOSAVE_DEBOUNCE_MS, draftDirtySinceRef.current + AUTOSAVE_MAX_WAIT_MS - now));
+
+    draftTimeoutRef.current = setTimeout(() => saveDraft(currentIndex), wait);
+    return () => {
+      if (draftTimeoutRef.current) {
+        clearTimeout(draftTimeoutRef.current);
+        draftTimeoutRef.current = null;
+      }
+    };
+  }, [answers, currentIndex, hasStarted, attemptId, submitting, autosaveEnabled, saveDraft]);
+
+  // Own clocks of timed sections / speaking prompts. They run from when the student
+  // first reaches the section or prompt (the server starts them too, from the
+  // autosave) and lock it when they run out.
+  const [targetTimers, setTargetTimers] = useState<Record<string, TargetTimer>>({});
+  const targetTimersRef = useRef<Record<string, TargetTimer>>({});
+  const pendingTargetsRef = useRef<Set<string>>(new Set());
+  const answersRef = useRef<Record<string, any>>({});
+  const [targetClock, setTargetClock] = useState(() => Date.now());
+
+  useEffect(() => {
+    answersRef.current = answers;
+  }, [answers]);
+
+  const updateTargetTimer = useCallback((key: string, timer: TargetTimer) => {
+    targetTimersRef.current = { ...targetTimersRef.current, [key]: timer };
+    setTargetTimers(targetTimersRef.current);
+  }, []);
+
+  const timedTargetsFor = useCallback((q: Question): TimedTarget[] => {
+    if (!test) return [];
+    const targets: TimedTarget[] = [];
+
+    if (q.sectionId) {
+      const sections: (ReadingSection | ListeningSection)[] = [
+        ...(test.readingSections || []),
+        ...(test.listeningSections || []),
+      ];
+      const sec = sections.find((s) => s.id === q.sectionId);
+      if (sec && sec.timeLimitMinutes && sec.timeLimitMinutes > 0) {
+        targets.push({
+          type: "section",
+          id: sec.id,
+          limitSeconds: sec.timeLimitMinutes * 60,
+          questionIds: test.questions.filter((x) => x.sectionId === sec.id && x._id).map((x) => x._id as string),
+        });
+      }
+    }
+
+    if (q.questionType === "speaking" && q._id && q.timeLimitSeconds && q.timeLimitSeconds > 0) {
+      targets.push({ type: "question", id: q._id, limitSeconds: q.timeLimitSeconds, questionIds: [q._id] });
+    }
+
+    return targets;
+  }, [test]);
+
+  // Start (or pick up, after a reload) the clocks of whatever the current question belongs to
+  useEffect(() => {
+    if (!hasStarted || (!attemptId && !isPreview) || submitting) return;
+    const current = flatQuestions[currentIndex]?.q;
+    if (!current) return;
+
+    timedTargetsFor(current).forEach(async (target) => {
+      const key = targetKey(target);
+      if (targetTimersRef.current[key] || pendingTargetsRef.current.has(key)) return;
+      pendingTargetsRef.current.add(key);
+
+      const res = isPreview
+        ? { ok: false, data: null }
+        : await api.apiPost("/security/timer/start", { attemptId, type: target.type, id: target.id });
+      // without a server record the runner still enforces the limit locally
+      const remaining = res.ok && typeof res.data?.remaining === "number" ? res.data.remaining : target.limitSeconds;
+      updateTargetTimer(key, {
+        ...target,
+        deadline: Date.now() + remaining * 1000,
+        locked: res.ok ? !!res.data?.locked : false,
+      });
+      pendingTargetsRef.current.delete(key);
+    });
+  }, [hasStarted, attemptId, isPreview, currentIndex, flatQuestions, submitting, timedTargetsFor, updateTargetTimer]);
+
+  async function lockTarget(timer: TargetTimer) {
+    const key = targetKey(timer);
+    updateTargetTimer(key, { ...timer, locked: true });
+
+    const current = flatQuestions[currentIndex]?.q;
+    let recordingStopped: Promise<void> | null = null;
+    if (current?._id && timer.questionIds.includes(current._id)) {
+      recordingStopped = recordingStoppedRef.current;
+      stopAnyRecording();
+    }
+
+    toast.warning(timer.type === "section" ? "⏰ Section time is up" : "⏰ Time is up for this prompt", {
+      description: "Your answers here have been locked.",
+      duration: 5000,
+    });
+
+    if (isPreview) return;
+
+    const lockedAnswers: Record<string, any> = {};
+    timer.questionIds.forEach((qid) => {
+      if (answersRef.current[qid] !== undefined) lockedAnswers[qid] = answersRef.current[qid];
+    });
+
+    // a prompt's recording counts only as it was when the prompt locked
+    if (timer.type === "question") {
+      if (recordingStopped) await recordingStopped;
+      for (const qid of timer.questionIds) {
+        const blob = speakingBlobsRef.current[qid];
+        const recordingHash = blob ? await sha256Hex(blob) : null;
+        if (recordingHash) lockedAnswers[qid] = { ...(lockedAnswers[qid] || {}), recordingHash };
+      }
+    }
+
+    try {
+      await api.apiPost("/security/timer/end", {
+        attemptId,
+        type: timer.type,
+        id: timer.id,
+        answers: lockedAnswers,
+        reason: "time_expired",
+      });
+    } catch (err) {
+      console.warn("Failed to lock section on server:", err);
+    }
+  }
+
+  // the interval always locks with the current question and answers
+  const lockTargetRef = useRef(lockTarget);
+  useEffect(() => {
+    lockTargetRef.current = lockTarget;
+  });
+
+  useEffect(() => {
+    if (!hasStarted || submitting || previewFinished || Object.keys(targetTimers).length === 0) return;
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      setTargetClock(now);
+      Object.values(targetTimersRef.current).forEach((timer) => {
+        if (!timer.locked && timer.deadline <= now) lockTargetRef.current(timer);
+      });
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [hasStarted, submitting, previewFinished, targetTimers]);
+
   const handleStartTest = async () => {
     console.log("Starting test...");
     setStartAttempting(true);
@@ -677,6 +932,13 @@ function TestRunnerContent() {
       });
     }
 
+    if (isPreview) {
+      // the authored order; shuffling only happens for a real attempt
+      setHasStarted(true);
+      setStartAttempting(false);
+      return;
+    }
+
     try {
       // Start test attempt in backend
       const startRes = await api.apiPost(`/student/tests/${testId}/start`, {});
@@ -718,6 +980,15 @@ function TestRunnerContent() {
             }, 2000);
           }
           return;
+        } else if (startRes.error?.code === "TIME_EXPIRED") {
+          toast.info("Time is up", {
+            description: errorMessage,
+            duration: 5000,
+          });
+          setTimeout(() => {
+            router.push('/student/dashboard');
+          }, 2000);
+          return;
         } else if (errorMessage.includes("already attempted")) {
           toast.error("Test Completed", {
             description: "You have already completed this test. Contact admin if you need to retake it.",
@@ -738,9 +1009,57 @@ function TestRunnerContent() {
 
       setAttemptId(startRes.data.attemptId);
       console.log("Test attempt started:", startRes.data);
+      const resumed = !!startRes.data?.existingAttempt;
+
+      if (typeof startRes.data?.timeRemaining === "number") {
+        deadlineRef.current = Date.now() + startRes.data.timeRemaining * 1000;
+      }
+
+      // Shuffled tests: the attempt fixes its own question/option order
+      if (Array.isArray(startRes.data?.questions)) {
+        const ordered = normalizeQuestions(startRes.data.questions);
+        setTest((prev) => (prev ? { ...prev, questions: ordered } : prev));
+      }
+
+      if (resumed) {
+        // Pick the attempt up where it was: new device session, saved answers and position
+        const recoverRes = await api.apiPost('/security/session/recover', {
+          testId: testId,
+          deviceFingerprint: `${navigator.platform}-${navigator.userAgent}`,
+        });
+
+        if (recoverRes.ok) {
+          if (recoverRes.data?.sessionToken) setSessionToken(recoverRes.data.sessionToken);
+          if (typeof recoverRes.data?.timeRemaining === "number") {
+            deadlineRef.current = Date.now() + recoverRes.data.timeRemaining * 1000;
+          }
+
+          const draft = recoverRes.data?.draft;
+          if (draft) {
+            setAnswers(draft.answers || {});
+            resumeIndexRef.current = draft.currentIndex || 0;
+            setCurrentIndex((prev) =>
+              flatQuestions.length > 0 ? Math.min(draft.currentIndex || 0, flatQuestions.length - 1) : prev
+            );
+            toast.success("Answers restored", {
+              description: "Your saved answers have been restored.",
+              duration: 3000,
+            });
+          }
+          setAutosaveEnabled(true);
+        } else {
+          console.warn('Session recovery failed:', recoverRes.error);
+          toast.warning("Could not restore saved answers", {
+            description: "Autosave is paused so your saved answers are kept. Refresh to try again.",
+            duration: 6000,
+          });
+        }
+      } else {
+        setAutosaveEnabled(true);
+      }
 
       // Also start the exam security session if we have a device session
-      if (sessionToken) {
+      if (sessionToken && !resumed) {
         try {
           const examStartRes = await api.apiPost('/security/exam/start', {
             testId: testId,
@@ -791,7 +1110,7 @@ function TestRunnerContent() {
   const backgroundSubmissionTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
-    if (!test || loading || !hasStarted) return;
+    if (!test || loading || !hasStarted || isPreview) return;
 
     const handleFullscreenChange = () => {
       if (!document.fullscreenElement && !submitting && hasStarted && !isSubmissionInProgress && !isAutoSubmitting) {
@@ -822,7 +1141,9 @@ function TestRunnerContent() {
     setError(null);
     try {
       console.log('Making API call to fetch test');
-      const res = await api.apiGet(`/student/tests/${id}`);
+      const res = isPreview
+        ? await api.apiGet(`/teacher/tests/${id}/preview${previewVersion ? `?version=${encodeURIComponent(previewVersion)}` : ""}`)
+        : await api.apiGet(`/student/tests/${id}`);
       console.log('API response:', res);
       if (!res.ok) {
         console.error('API error:', res.error);
@@ -834,7 +1155,7 @@ function TestRunnerContent() {
       console.log('Test data received:', testData);
 
       // Check if student can attempt this test
-      if (!testData.canAttempt && testData.attemptInfo) {
+      if (!isPreview && !testData.canAttempt && testData.attemptInfo) {
         // Handle completed test with proper UI
         const message = testData.attemptInfo.message;
         if (message.includes('already completed') || message.includes('already attempted') || testData.attemptInfo.status === 'completed') {
@@ -849,19 +1170,7 @@ function TestRunnerContent() {
       const t: TestSet = testData;
       console.log('Test data received:', t);
 
-      t.questions = t.questions.map((q) =>
-        q.questionType === "mcq"
-          ? {
-            ...q,
-            options: Array.isArray(q.options) && q.options.length ? q.options : [{ text: "" }, { text: "" }],
-            correctIndex: typeof q.correctIndex === "number" ? q.correctIndex : 0,
-            sectionId: typeof q.sectionId === "string" ? q.sectionId : q.sectionId ?? null,
-          }
-          : {
-            ...q,
-            sectionId: typeof q.sectionId === "string" ? q.sectionId : q.sectionId ?? null,
-          }
-      );
+      t.questions = normalizeQuestions(t.questions);
 
       setTest(t);
       setAnswers({});
@@ -880,6 +1189,43 @@ function TestRunnerContent() {
 
   const qKey = (q: Question, index: number) => q._id || String(index);
 
+  // A preview ends on the answer key and its auto-grade instead of a submission
+  async function finishPreview() {
+    if (!test) return;
+    stopAnyRecording();
+    setIsSubmissionInProgress(false);
+    setPreviewGrade(null);
+    setPreviewGradeError(null);
+    setPreviewFinished(true);
+    if (document.fullscreenElement) {
+      await document.exitFullscreen().catch(() => { });
+    }
+
+    const res = await api.apiPost(`/teacher/tests/${test._id}/preview/grade`, {
+      version: previewVersion || (test.previewDraft ? "draft" : "live"),
+      response: answers,
+    });
+    if (res.ok) setPreviewGrade(res.data);
+    else setPreviewGradeError(res.error?.message || "Failed to grade the preview");
+  }
+
+  function restartPreview() {
+    if (!testId) return;
+    if (timerIntervalRef.current) {
+      clearInterval(timerIntervalRef.current);
+      timerIntervalRef.current = null;
+    }
+    targetTimersRef.current = {};
+    pendingTargetsRef.current.clear();
+    setTargetTimers({});
+    setTimeRemaining(null);
+    setTimerWarning(false);
+    autoSubmitCalledRef.current = false;
+    setHasStarted(false);
+    setPreviewFinished(false);
+    fetchTest(testId);
+  }
+
   async function startRecording(key: string, mode: SpeakingMode, recordLimit?: number) {
     try {
       stopAnyRecording();
@@ -942,6 +1288,8 @@ function TestRunnerContent() {
       const mr = new MediaRecorder(stream);
       mediaRecorderRef.current = mr;
       mediaChunksRef.current = [];
+      let recordingStored = () => { };
+      recordingStoppedRef.current = new Promise<void>((resolve) => { recordingStored = resolve; });
 
       mr.ondataavailable = (e) => {
         if (e.data.size > 0) mediaChunksRef.current.push(e.data);
@@ -954,6 +1302,7 @@ function TestRunnerContent() {
 
         const url = URL.createObjectURL(blob);
         speakingBlobsRef.current[key] = blob;
+        recordingStored();
 
         setSpeakingState((prev) => ({
           ...prev,
@@ -1025,6 +1374,17 @@ function TestRunnerContent() {
     });
   }
 
+  function toggleMultiSelection(key: string, optionIndex: number, max: number) {
+    setAnswers((prev) => {
+      const current: number[] = Array.isArray(prev?.[key]?.selectedIndexes) ? prev[key].selectedIndexes : [];
+      let next: number[];
+      if (current.includes(optionIndex)) next = current.filter((i) => i !== optionIndex);
+      else if (max > 0 && current.length >= max) return prev;
+      else next = [...current, optionIndex];
+      return { ...prev, [key]: { ...prev[key], selectedIndexes: next } };
+    });
+  }
+
   function getReadingSections(test: TestSet): ReadingSection[] {
     if (Array.isArray(test.readingSections) && test.readingSections.length > 0) {
       return test.readingSections;
@@ -1079,9 +1439,10 @@ function TestRunnerContent() {
               <h3 className="text-base font-semibold text-indigo-700">Passage</h3>
               <div className="text-sm text-slate-500 mt-1">{sec.title || "Passage"}</div>
             </div>
-            <div className="flex-1 overflow-auto p-6 bg-indigo-50 rounded-md text-lg text-slate-800 leading-relaxed whitespace-pre-wrap">
-              {sec.passage}
-            </div>
+            <RichText
+              text={sec.passage}
+              className="flex-1 overflow-auto p-6 bg-indigo-50 rounded-md text-lg text-slate-800 leading-relaxed"
+            />
           </div>
         );
       }
@@ -1118,7 +1479,7 @@ function TestRunnerContent() {
           <div className="mb-3">
             <h3 className="text-base font-semibold text-indigo-700">Prompt</h3>
           </div>
-          <div className="flex-1 p-6 bg-indigo-50 rounded-md text-lg text-slate-800 leading-relaxed whitespace-pre-wrap">{q.prompt}</div>
+          <RichText text={q.prompt} className="flex-1 p-6 bg-indigo-50 rounded-md text-lg text-slate-800 leading-relaxed" />
         </div>
       );
     }
@@ -1130,15 +1491,117 @@ function TestRunnerContent() {
     const ans = answers[key];
     const speaking = speakingState[key];
 
-    if (q.questionType === "mcq") {
+    if (q.questionType === "multi_select") {
+      const picked: number[] = Array.isArray(ans?.selectedIndexes) ? ans.selectedIndexes : [];
+      const max = q.selectCount || 0;
       return (
         <div>
           <div className="mb-5">
             <h3 className="text-lg font-semibold text-slate-800">Question</h3>
-            <p className="text-lg text-slate-700 mt-2">{q.prompt}</p>
+            <RichText text={q.prompt} className="text-lg text-slate-700 mt-2" />
+            {max > 0 && <p className="text-sm text-slate-500 mt-1">Choose {max} answers.</p>}
           </div>
 
           <div className="grid grid-cols-1 gap-4">
+            {q.options?.map((opt, i) => {
+              const selected = picked.includes(i);
+              return (
+                <button
+                  key={i}
+                  type="button"
+                  onClick={() => toggleMultiSelection(key, i, max)}
+                  className={`w-full flex items-center gap-4 p-4 rounded-lg transition-shadow text-left text-base leading-snug
+                    ${selected ? "bg-gradient-to-r from-indigo-500 to-violet-500 text-white shadow-lg" : "bg-white border border-slate-200 text-slate-800 hover:shadow-sm"}
+                  `}
+                >
+                  <div className={`w-4 h-4 rounded-sm flex-shrink-0 ${selected ? "bg-white/95" : "bg-slate-300"}`}></div>
+                  <span>{opt.text}</span>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="text-sm text-slate-500 mt-3">
+            {picked.length}{max > 0 ? ` / ${max}` : ""} selected. Click again to deselect an option.
+          </div>
+        </div>
+      );
+    }
+
+    if (q.questionType === "matching_headings") {
+      return (
+        <div>
+          <div className="mb-5">
+            <h3 className="text-lg font-semibold text-slate-800">Choose the correct heading</h3>
+            <RichText text={q.prompt} className="text-lg text-slate-700 mt-2" />
+          </div>
+
+          <select
+            value={typeof ans?.selectedIndex === "number" ? String(ans.selectedIndex) : ""}
+            onChange={(e) =>
+              setAnswers((prev) => ({
+                ...prev,
+                [key]: { ...prev[key], selectedIndex: e.target.value === "" ? null : Number(e.target.value) },
+              }))
+            }
+            className="w-full p-3 border border-slate-200 rounded-lg bg-white text-base"
+          >
+            <option value="">Select a heading</option>
+            {q.options?.map((opt, i) => (
+              <option key={i} value={i}>
+                {`${i + 1}. ${opt.text}`}
+              </option>
+            ))}
+          </select>
+        </div>
+      );
+    }
+
+    if (TEXT_ANSWER_TYPES.includes(q.questionType)) {
+      const text: string = ans?.text || "";
+      const words = countWords(text);
+      const over = typeof q.wordLimit === "number" && q.wordLimit > 0 && words > q.wordLimit;
+      return (
+        <div>
+          <div className="mb-5">
+            <h3 className="text-lg font-semibold text-slate-800">Complete the {q.questionType === "gap_fill" ? "gap" : "sentence"}</h3>
+            <RichText text={q.prompt} className="text-lg text-slate-700 mt-2" />
+            {typeof q.wordLimit === "number" && q.wordLimit > 0 && (
+              <p className="text-sm text-slate-500 mt-1">
+                Write no more than {q.wordLimit === 1 ? "one word" : `${q.wordLimit} words`}.
+              </p>
+            )}
+          </div>
+
+          <input
+            type="text"
+            value={text}
+            onChange={(e) => setAnswers((prev) => ({ ...prev, [key]: { ...prev[key], text: e.target.value } }))}
+            className={`w-full p-3 border rounded-lg text-base ${over ? "border-red-400 bg-red-50" : "border-slate-200 bg-white"}`}
+            autoComplete="off"
+            spellCheck={false}
+          />
+          <div className={`text-sm mt-2 ${over ? "text-red-600" : "text-slate-500"}`}>
+            {words} word{words === 1 ? "" : "s"}
+            {over && " — over the word limit, this answer will be marked wrong"}
+          </div>
+        </div>
+      );
+    }
+
+    if (CHOICE_TYPES.includes(q.questionType)) {
+      return (
+        <div>
+          <div className="mb-5">
+            <h3 className="text-lg font-semibold text-slate-800">Question</h3>
+            <RichText text={q.prompt} className="text-lg text-slate-700 mt-2" />
+          </div>
+
+          {q.questionType === "map_labelling" && q.imageUrl && (
+            <img src={q.imageUrl} alt="Map or diagram" className="mb-5 max-h-96 w-auto rounded-lg border border-slate-200" />
+          )}
+
+          <div className={q.questionType === "tfng" ? "grid grid-cols-1 sm:grid-cols-3 gap-4" : "grid grid-cols-1 gap-4"}>
             {q.options?.map((opt, i) => {
               const selected = ans?.selectedIndex === i;
               return (
@@ -1359,6 +1822,11 @@ function TestRunnerContent() {
       timerIntervalRef.current = null;
     }
 
+    if (isPreview) {
+      await finishPreview();
+      return;
+    }
+
     setSubmitting(true);
     setSubmitMessage(autoSubmit ? "Auto-submitting test..." : "Submitting your test...");
 
@@ -1374,14 +1842,12 @@ function TestRunnerContent() {
       if (skill === "speaking") {
         const speakingQuestions = test.questions.map((q, idx) => ({ q, idx })).filter((x) => x.q.questionType === "speaking");
 
-        let speakingBlob: Blob | undefined;
-        if (speakingQuestions.length > 0) {
-          const main = speakingQuestions[0];
-          const key = qKey(main.q, main.idx);
-          speakingBlob = speakingBlobsRef.current[key];
-        }
+        // one recording per prompt, named after it
+        const recordings = speakingQuestions
+          .map(({ q, idx }) => ({ questionId: q._id, blob: speakingBlobsRef.current[qKey(q, idx)] }))
+          .filter((r): r is { questionId: string; blob: Blob } => !!r.questionId && !!r.blob);
 
-        if (!speakingBlob && !autoSubmit) {
+        if (recordings.length === 0 && !autoSubmit) {
 
           console.log('Submitting speaking test without recording - user confirmed');
         }
@@ -1398,38 +1864,26 @@ function TestRunnerContent() {
           autoSubmit: autoSubmit ? "true" : "false",
           submissionId: "processing",
         });
+        if (mockId) params.set("mockId", mockId);
         router.push(`/student/test/complete?${params.toString()}`);
 
         backgroundSubmissionTimeoutRef.current = setTimeout(async () => {
           try {
             const form = new FormData();
-            if (speakingBlob) {
-              form.append("media", speakingBlob, "speaking.webm");
-            }
+            recordings.forEach(({ questionId, blob }) => {
+              form.append("media", blob, `${questionId}.webm`);
+            });
             form.append("response", JSON.stringify(answers));
             form.append("evaluationPayload", JSON.stringify(evaluationPayload));
+            if (mockResultId) form.append("mockResultId", mockResultId);
 
-            const API = process.env.NEXT_PUBLIC_API_URL;
-            const token = localStorage.getItem("celts_token");
-
-            await fetch(`${API}/student/submit/${test._id}/${skill}`, {
-              method: "POST",
-              headers: token ? { Authorization: `Bearer ${token}` } : {},
-              body: form,
-            });
+            await api.apiUpload(`/student/submit/${test._id}/${skill}`, form);
 
             // Mark test attempt as completed
-            await fetch(`${API}/student/tests/${test._id}/end`, {
-              method: "POST",
-              headers: {
-                "Content-Type": "application/json",
-                ...(token ? { Authorization: `Bearer ${token}` } : {}),
-              },
-              body: JSON.stringify({
-                reason: autoSubmit ? "time_expired" : "completed",
-                submissionId: null,
-                violations: [],
-              }),
+            await api.apiPost(`/student/tests/${test._id}/end`, {
+              reason: autoSubmit ? "time_expired" : "completed",
+              submissionId: null,
+              violations: [],
             });
 
             console.log('Background submission completed for speaking test');
@@ -1456,6 +1910,7 @@ function TestRunnerContent() {
         autoSubmit: autoSubmit ? "true" : "false",
         submissionId: "processing",
       });
+      if (mockId) params.set("mockId", mockId);
       router.push(`/student/test/complete?${params.toString()}`);
 
       backgroundSubmissionTimeoutRef.current = setTimeout(async () => {
@@ -1463,6 +1918,7 @@ function TestRunnerContent() {
           await api.apiPost(`/student/submit/${test._id}/${skill}`, {
             response: answers,
             evaluationPayload,
+            mockResultId,
           });
 
           // Mark test attempt as completed
@@ -1493,6 +1949,7 @@ function TestRunnerContent() {
         autoSubmit: autoSubmit ? "true" : "false",
         submissionId: autoSubmit ? "auto-error" : "error",
       });
+      if (mockId) params.set("mockId", mockId);
       router.push(`/student/test/complete?${params.toString()}`);
     } finally {
       setSubmitting(false);
@@ -1565,7 +2022,7 @@ function TestRunnerContent() {
               </Button>
             </div>
           ) : (
-            <Button onClick={() => router.push('/student/test')} className="w-full">
+            <Button onClick={() => router.push(isPreview ? '/faculty/view_test' : '/student/test')} className="w-full">
               Back to Tests
             </Button>
           )}
@@ -1574,6 +2031,29 @@ function TestRunnerContent() {
     );
   }
 
+  if (isPreview && previewFinished && test) {
+    return (
+      <TestPreviewResults
+        title={test.title}
+        type={test.type}
+        questions={test.questions}
+        answers={answers}
+        recordings={Object.fromEntries(
+          Object.entries(speakingState)
+            .filter(([, state]) => !!state.blobUrl)
+            .map(([key, state]) => [key, state.blobUrl as string])
+        )}
+        grade={previewGrade}
+        gradeError={previewGradeError}
+        onRestart={restartPreview}
+        onExit={() => {
+          window.close();
+          router.push('/faculty/view_test');
+        }}
+      />
+    );
+  }
+
   if (!hasStarted && test) {
     console.log('Test loaded, showing start screen');
     return (
@@ -1585,9 +2065,17 @@ function TestRunnerContent() {
           <h1 className="text-2xl font-bold text-slate-800">Ready to start?</h1>
           <div className="space-y-2 text-slate-600">
             <p>The test <strong>{test.title}</strong> is about to begin.</p>
-            <p className="text-sm bg-amber-50 text-amber-800 p-3 rounded-md border border-amber-200">
-              ⚠️ This test will run in full-screen mode. Exiting full-screen or switching tabs will be recorded as a violation.
-            </p>
+            {isPreview ? (
+              <p className="text-sm bg-amber-50 text-amber-800 p-3 rounded-md border border-amber-200">
+                Student preview{test.previewDraft ? ` of draft version ${test.previewVersion}` : ""}. Timers, audio play limits and
+                recording work as they do for students, but no attempt is started and nothing is saved or proctored.
+                The correct answers and the auto-graded result are shown at the end.
+              </p>
+            ) : (
+              <p className="text-sm bg-amber-50 text-amber-800 p-3 rounded-md border border-amber-200">
+                ⚠️ This test will run in full-screen mode. Exiting full-screen or switching tabs will be recorded as a violation.
+              </p>
+            )}
             {microphonePermission && (
               <div className={`text-sm p-3 rounded-md border ${microphonePermission === 'granted'
                 ? 'bg-green-50 text-green-800 border-green-200'
@@ -1611,6 +2099,8 @@ function TestRunnerContent() {
                 <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                 Starting...
               </>
+            ) : isPreview ? (
+              "Start Preview"
             ) : (
               "Start Test"
             )}
@@ -1659,11 +2149,17 @@ function TestRunnerContent() {
               </div>
 
               <div>
-                <h2 className="text-2xl font-bold text-slate-800 mb-2">Submit Test?</h2>
-                <div className="text-slate-600 space-y-1">
-                  <p>Are you sure you want to submit your test?</p>
-                  <p className="text-sm text-slate-500">You cannot change your answers afterwards.</p>
-                </div>
+                <h2 className="text-2xl font-bold text-slate-800 mb-2">{isPreview ? "Finish Preview?" : "Submit Test?"}</h2>
+                {isPreview ? (
+                  <div className="text-slate-600 space-y-1">
+                    <p>End the preview and see the correct answers and the auto-graded result?</p>
+                  </div>
+                ) : (
+                  <div className="text-slate-600 space-y-1">
+                    <p>Are you sure you want to submit your test?</p>
+                    <p className="text-sm text-slate-500">You cannot change your answers afterwards.</p>
+                  </div>
+                )}
               </div>
 
               <div className="flex gap-4 justify-center">
@@ -1685,7 +2181,7 @@ function TestRunnerContent() {
                   }}
                   className="bg-green-600 hover:bg-green-700 text-white px-8 py-3 text-sm font-medium shadow-lg"
                 >
-                  Submit Test
+                  {isPreview ? "Finish Preview" : "Submit Test"}
                 </Button>
               </div>
             </div>
@@ -1697,6 +2193,11 @@ function TestRunnerContent() {
 
       <div className="w-screen min-h-screen bg-gradient-to-b from-indigo-50 via-violet-50 to-white flex items-center justify-center p-8">
         <div className="max-w-[1200px] w-full bg-white rounded-xl shadow-lg border border-slate-200 overflow-hidden" style={{ minHeight: "80vh" }}>
+          {isPreview && (
+            <div className="bg-amber-100 border-b border-amber-300 px-4 py-2 text-sm text-amber-900">
+              Student preview{test?.previewDraft ? ` of draft version ${test.previewVersion}` : ""}: answers, recordings and timings are not saved.
+            </div>
+          )}
           {/* Security Warning Banner */}
           {isTestCompromised && (
             <div className="bg-red-100 border-b border-red-400 p-4">
@@ -1811,7 +2312,9 @@ function TestRunnerContent() {
                     const answered = flatQuestions.filter((item, idx) => {
                       const key = qKey(item.q, idx);
                       const ans = answers[key];
-                      if (item.q.questionType === "mcq") return ans?.selectedIndex !== undefined;
+                      if (CHOICE_TYPES.includes(item.q.questionType) || TEXT_ANSWER_TYPES.includes(item.q.questionType)) {
+                        return hasAutoAnswer(item.q, ans);
+                      }
                       if (item.q.questionType === "writing") return ans?.text && ans.text.trim().length > 0;
                       if (item.q.questionType === "speaking") return !!speakingBlobsRef.current[key];
                       return false;
@@ -1861,8 +2364,17 @@ function TestRunnerContent() {
                       </div>
                     </div>
 
-                    <div className="text-sm text-slate-600">
+                    <div className="text-sm text-slate-600 text-right">
                       Marks <div className="font-medium text-slate-700">{flatQuestions[currentIndex]?.q?.marks ?? "-"}</div>
+                      {draftStatus.state !== "idle" && (
+                        <div className={`text-xs mt-1 ${draftStatus.state === "error" ? "text-red-600" : "text-slate-400"}`}>
+                          {draftStatus.state === "saving"
+                            ? "Saving…"
+                            : draftStatus.state === "saved"
+                              ? `Saved ${new Date(draftStatus.at as number).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+                              : "Autosave failed — retrying on next change"}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -1870,7 +2382,41 @@ function TestRunnerContent() {
                 <div>
                   {!loading && !error && test && flatQuestions.length > 0 && (
                     <Card className="p-6 rounded-md shadow-sm border border-slate-100">
-                      {renderRightForCurrent(flatQuestions[currentIndex].q, flatQuestions[currentIndex].idx)}
+                      {(() => {
+                        const timers = timedTargetsFor(flatQuestions[currentIndex].q)
+                          .map((t) => targetTimers[targetKey(t)])
+                          .filter((t): t is TargetTimer => !!t);
+                        const locked = timers.some((t) => t.locked);
+                        return (
+                          <>
+                            {timers.map((t) => {
+                              const left = Math.max(0, Math.ceil((t.deadline - targetClock) / 1000));
+                              return (
+                                <div
+                                  key={targetKey(t)}
+                                  className={`mb-4 flex items-center justify-between rounded-md border px-3 py-2 text-sm ${t.locked ? "bg-slate-100 border-slate-300 text-slate-600" : left <= 60 ? "bg-red-50 border-red-300 text-red-700" : "bg-indigo-50 border-indigo-200 text-indigo-700"}`}
+                                >
+                                  <span className="flex items-center gap-2">
+                                    <Clock className="w-4 h-4" />
+                                    {t.type === "section" ? "Section time" : "Prompt time"}
+                                  </span>
+                                  <span className="font-mono font-semibold">
+                                    {t.locked ? "Locked" : formatTime(left)}
+                                  </span>
+                                </div>
+                              );
+                            })}
+                            {locked && (
+                              <div className="mb-4 text-sm text-slate-600">
+                                Time for this {timers.some((t) => t.locked && t.type === "section") ? "section" : "prompt"} has run out. Your answers are locked; move on to the next part.
+                              </div>
+                            )}
+                            <fieldset disabled={locked} className={locked ? "opacity-60" : undefined}>
+                              {renderRightForCurrent(flatQuestions[currentIndex].q, flatQuestions[currentIndex].idx)}
+                            </fieldset>
+                          </>
+                        );
+                      })()}
                     </Card>
                   )}
 
@@ -1923,7 +2469,7 @@ function TestRunnerContent() {
                           ) : isTestCompromised ? (
                             <span className="text-white!">Submission Blocked</span>
                           ) : (
-                            <span className="text-white!">Submit Test</span>
+                            <span className="text-white!">{isPreview ? "Finish Preview" : "Submit Test"}</span>
                           )}
                         </Button>
 
@@ -9,24 +9,27 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import api from "@/lib/api";
 import { navItems } from "@/components/student/NavItems";
+import { CriteriaBreakdown, CriteriaBands, hasCriteriaBands } from "@/components/common/CriteriaBreakdown";
 
-interface CriteriaBreakdown {
-  task_response?: { score?: number; feedback?: string };
-  cohesion_coherence?: { score?: number; feedback?: string };
-  lexical_resource?: { score?: number; feedback?: string };
-  grammatical_range_accuracy?: { score?: number; feedback?: string };
-  fluency?: number;
-  coherence?: number;
-  vocabulary?: number;
-  grammar?: number;
-  pronunciation?: number;
+type CriterionFeedback = { score?: number; feedback?: string };
+
+interface AiCriteriaBreakdown {
+  task_response?: CriterionFeedback;
+  cohesion_coherence?: CriterionFeedback;
+  lexical_resource?: CriterionFeedback;
+  grammatical_range_accuracy?: CriterionFeedback;
+  fluency_coherence?: CriterionFeedback;
+  pronunciation?: CriterionFeedback;
 }
 
-interface GeminiEval {
+interface AiEval {
   band_score?: number;
-  criteria_breakdown?: CriteriaBreakdown;
+  criteria_breakdown?: AiCriteriaBreakdown;
   examiner_summary?: string;
   transcription?: string;
+  tasks?: unknown[];
+  provider?: string;
+  model?: string;
 }
 
 interface SubmissionSummary {
@@ -43,10 +46,12 @@ interface SubmissionSummary {
   correctCount: number;
   incorrectCount: number;
   bandScore: number | null;
-  geminiEvaluation?: GeminiEval | null;
-  geminiError?: string | null;
-  geminiWritingEvaluationSummary?: string | null;
-  geminiSpeakingEvaluationSummary?: string | null;
+  aiEvaluation?: AiEval | null;
+  aiError?: string | null;
+  evaluatedBy?: { provider?: string; model?: string } | null;
+  criteriaBands?: CriteriaBands | null;
+  writingEvaluationSummary?: string | null;
+  speakingEvaluationSummary?: string | null;
   examinerSummary?: string | null;
   student?: {
     _id?: string;
@@ -169,21 +174,23 @@ function TestScoreContent() {
   const examinerSummary =
     summary?.examinerSummary ||
     (isWriting
-      ? summary?.geminiWritingEvaluationSummary
+      ? summary?.writingEvaluationSummary
       : isSpeaking
-      ? summary?.geminiSpeakingEvaluationSummary
+      ? summary?.speakingEvaluationSummary
       : null) ||
-    summary?.geminiEvaluation?.examiner_summary ||
+    summary?.aiEvaluation?.examiner_summary ||
     null;
 
-  const speakingCriteria =
-    isSpeaking && summary?.geminiEvaluation?.criteria_breakdown
-      ? summary.geminiEvaluation.criteria_breakdown
-      : undefined;
+  // Multi-task writing keeps per-task feedback in `tasks`, so only single-task feedback is shown inline
+  const writingTaskCount = summary?.aiEvaluation?.tasks?.length ?? 0;
+  const criteriaFeedback =
+    isSpeaking || writingTaskCount <= 1
+      ? summary?.aiEvaluation?.criteria_breakdown
+      : null;
 
   const speakingTranscription =
-    isSpeaking && summary?.geminiEvaluation?.transcription
-      ? summary.geminiEvaluation.transcription
+    isSpeaking && summary?.aiEvaluation?.transcription
+      ? summary.aiEvaluation.transcription
       : undefined;
 
   return (
@@ -329,7 +336,7 @@ function TestScoreContent() {
                   </div>
                 )}
 
-                {isWritingOrSpeaking && (examinerSummary || summary.geminiError) && (
+                {isWritingOrSpeaking && (examinerSummary || summary.aiError) && (
                   <Card className="p-6 rounded-2xl bg-gradient-to-b from-white/80 to-white/90 border border-transparent" style={{ boxShadow: "inset -6px -6px 18px rgba(255,255,255,0.8), inset 6px 6px 18px rgba(0,0,0,0.03), 0 8px 30px rgba(13,13,50,0.06)" }}>
                     {examinerSummary && (
                       <div className="mb-4">
@@ -338,18 +345,23 @@ function TestScoreContent() {
                       </div>
                     )}
 
-                    {summary.geminiError && <div className="text-xs text-rose-600">AI evaluation note: {summary.geminiError}</div>}
+                    {summary.aiError && <div className="text-xs text-rose-600">AI evaluation note: {summary.aiError}</div>}
+
+                    {summary.evaluatedBy?.provider && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Evaluated by: {summary.evaluatedBy.provider}
+                        {summary.evaluatedBy.model ? ` (${summary.evaluatedBy.model})` : ""}
+                      </p>
+                    )}
 
-                    {isSpeaking && speakingCriteria && (
+                    {hasCriteriaBands(summary.criteriaBands) && (
                       <div className="mt-4">
                         <p className="text-xs text-muted-foreground mb-2">Criteria Breakdown</p>
-                        <div className="grid grid-cols-2 gap-y-1 text-sm">
-                          <div>Fluency: {speakingCriteria.fluency ?? "—"}</div>
-                          <div>Coherence: {speakingCriteria.coherence ?? "—"}</div>
-                          <div>Vocabulary: {speakingCriteria.vocabulary ?? "—"}</div>
-                          <div>Grammar: {speakingCriteria.grammar ?? "—"}</div>
-                          <div>Pronunciation: {speakingCriteria.pronunciation ?? "—"}</div>
-                        </div>
+                        <CriteriaBreakdown
+                          skill={summary.skill}
+                          bands={summary.criteriaBands}
+                          feedback={criteriaFeedback}
+                        />
                       </div>
                     )}
 
@@ -0,0 +1,88 @@
+"use client";
+
+import React from "react";
+import { cn } from "@/lib/utils";
+import { parseInline, parseRichText } from "@/lib/richText";
+
+function Inline({ text }: { text: string }) {
+  return (
+    <>
+      {parseInline(text).map((run, i) =>
+        run.bold ? <strong key={i}>{run.text}</strong> : run.italic ? <em key={i}>{run.text}</em> : <React.Fragment key={i}>{run.text}</React.Fragment>
+      )}
+    </>
+  );
+}
+
+const HEADING_STYLES = ["text-xl font-bold", "text-lg font-semibold", "font-semibold"];
+
+/**
+ * Renders a passage or prompt (see lib/richText.ts). Everything becomes React
+ * elements, so no HTML from the text reaches the page. An image's description
+ * is only its alt text: for a Writing Task 1 chart it would give the answer away.
+ */
+export function RichText({ text, className }: { text: string; className?: string }) {
+  const blocks = parseRichText(text);
+  return (
+    <div className={cn("space-y-3", className)}>
+      {blocks.map((block, i) => {
+        if (block.kind === "heading") {
+          const Tag = `h${block.level + 2}` as "h3" | "h4" | "h5";
+          return (
+            <Tag key={i} className={HEADING_STYLES[block.level - 1]}>
+              <Inline text={block.text} />
+            </Tag>
+          );
+        }
+        if (block.kind === "image") {
+          return <img key={i} src={block.url} alt={block.description} className="max-w-full h-auto rounded-md border border-slate-200 bg-white" />;
+        }
+        if (block.kind === "list") {
+          const List = block.ordered ? "ol" : "ul";
+          return (
+            <List key={i} className={cn("pl-6 space-y-1", block.ordered ? "list-decimal" : "list-disc")}>
+              {block.items.map((item, j) => (
+                <li key={j}>
+                  <Inline text={item} />
+                </li>
+              ))}
+            </List>
+          );
+        }
+        if (block.kind === "table") {
+          return (
+            <div key={i} className="overflow-x-auto">
+              <table className="border-collapse text-[0.9em]">
+                <thead>
+                  <tr>
+                    {block.header.map((cell, j) => (
+                      <th key={j} className="border border-slate-300 bg-slate-100 px-3 py-1.5 text-left font-semibold">
+                        <Inline text={cell} />
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {block.rows.map((row, j) => (
+                    <tr key={j}>
+                      {block.header.map((_, k) => (
+                        <td key={k} className="border border-slate-300 bg-white px-3 py-1.5">
+                          <Inline text={row[k] || ""} />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          );
+        }
+        return (
+          <p key={i} className="whitespace-pre-wrap">
+            <Inline text={block.text} />
+          </p>
+        );
+      })}
+    </div>
+  );
+}
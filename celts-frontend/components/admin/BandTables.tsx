@@ -0,0 +1,316 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Plus, RefreshCcw, Save, Trash2 } from "lucide-react";
+import api from "@/lib/api";
+
+type BandRow = { minScore: number; band: number };
+
+interface BandTable {
+    _id: string;
+    name: string;
+    key?: string | null;
+    skill: "reading" | "listening";
+    totalQuestions: number;
+    rows: BandRow[];
+    builtIn: boolean;
+    isDefault?: boolean;
+    updatedAt?: string;
+}
+
+interface Reconversion {
+    scanned: number;
+    updated: number;
+}
+
+export function BandTables() {
+    const [tables, setTables] = useState<BandTable[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState("");
+    const [draftTotal, setDraftTotal] = useState<number>(40);
+    const [draftRows, setDraftRows] = useState<BandRow[]>([]);
+    const [reconvertOnSave, setReconvertOnSave] = useState(true);
+    const [saving, setSaving] = useState(false);
+
+    const [newName, setNewName] = useState("");
+    const [newSkill, setNewSkill] = useState<"reading" | "listening">("reading");
+
+    useEffect(() => {
+        fetchTables();
+    }, []);
+
+    async function fetchTables(keepSelection?: string | null) {
+        setLoading(true);
+        setError(null);
+        const res = await api.apiGet("/admin/band-tables");
+        setLoading(false);
+        if (!res.ok) {
+            setError(res.error?.message || "Failed to load band tables");
+            return;
+        }
+        const list = (res.data || []) as BandTable[];
+        setTables(list);
+        const next = list.find((t) => t._id === (keepSelection ?? selectedId)) || list[0];
+        if (next) selectTable(next);
+    }
+
+    function selectTable(t: BandTable) {
+        setSelectedId(t._id);
+        setDraftName(t.name);
+        setDraftTotal(t.totalQuestions);
+        setDraftRows(t.rows.map((r) => ({ ...r })));
+        setMessage(null);
+    }
+
+    function updateRow(idx: number, patch: Partial<BandRow>) {
+        setDraftRows((prev) => prev.map((r, i) => (i === idx ? { ...r, ...patch } : r)));
+    }
+
+    function describeReconversion(r: Reconversion | null | undefined) {
+        if (!r) return "";
+        return ` ${r.updated} of ${r.scanned} graded submission(s) changed band.`;
+    }
+
+    async function saveTable() {
+        if (!selectedId) return;
+        setSaving(true);
+        setMessage(null);
+        const res = await api.apiPut(`/admin/band-tables/${selectedId}`, {
+            name: draftName,
+            totalQuestions: draftTotal,
+            rows: draftRows,
+            reconvert: reconvertOnSave,
+        });
+        setSaving(false);
+        if (!res.ok) {
+            setMessage(res.error?.message || "Failed to save table");
+            return;
+        }
+        setMessage(`Table saved.${describeReconversion(res.data?.reconversion)}`);
+        fetchTables(selectedId);
+    }
+
+    async function reconvert() {
+        if (!selectedId) return;
+        setSaving(true);
+        setMessage(null);
+        const res = await api.apiPost(`/admin/band-tables/${selectedId}/reconvert`, {});
+        setSaving(false);
+        if (!res.ok) {
+            setMessage(res.error?.message || "Failed to reconvert submissions");
+            return;
+        }
+        setMessage(`Reconversion finished.${describeReconversion(res.data?.reconversion)}`);
+    }
+
+    async function createTable() {
+        if (!newName.trim()) {
+            setMessage("Name the new table first.");
+            return;
+        }
+        // start from the skill's default table so only the differences need editing
+        const base = tables.find((t) => t.skill === newSkill && t.isDefault);
+        const res = await api.apiPost("/admin/band-tables", {
+            name: newName.trim(),
+            skill: newSkill,
+            totalQuestions: base?.totalQuestions || 40,
+            rows: base?.rows || [{ minScore: 0, band: 0 }],
+        });
+        if (!res.ok) {
+            setMessage(res.error?.message || "Failed to create table");
+            return;
+        }
+        setNewName("");
+        fetchTables(res.data?.table?._id);
+    }
+
+    async function deleteTable(t: BandTable) {
+        if (!confirm(`Delete "${t.name}"?`)) return;
+        const res = await api.apiDelete(`/admin/band-tables/${t._id}`);
+        if (!res.ok) {
+            setMessage(res.error?.message || "Failed to delete table");
+            return;
+        }
+        fetchTables(null);
+    }
+
+    const selected = tables.find((t) => t._id === selectedId) || null;
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold mb-2">Band Conversion Tables</h1>
+                    <p className="text-muted-foreground">
+                        Raw-score-to-band tables used when reading and listening tests are auto-graded.
+                    </p>
+                </div>
+                <Button variant="outline" onClick={() => fetchTables()} disabled={loading}>
+                    <RefreshCcw className="w-4 h-4 mr-2" /> Refresh
+                </Button>
+            </div>
+
+            {error && <div className="text-sm text-red-600">{error}</div>}
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <Card className="p-4 space-y-3">
+                    {tables.map((t) => (
+                        <div
+                            key={t._id}
+                            className={`p-3 rounded-md border cursor-pointer ${t._id === selectedId ? "border-indigo-500 bg-indigo-50" : "border-border"}`}
+                            onClick={() => selectTable(t)}
+                        >
+                            <div className="flex items-center justify-between gap-2">
+                                <div className="font-medium text-sm">{t.name}</div>
+                                {!t.builtIn && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={(e) => {
+                                            e.stopPropagation();
+                                            deleteTable(t);
+                                        }}
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                )}
+                            </div>
+                            <div className="text-xs text-muted-foreground capitalize">
+                                {t.skill} · out of {t.totalQuestions}
+                                {t.isDefault && " · default"}
+                                {!t.builtIn && " · custom"}
+                            </div>
+                        </div>
+                    ))}
+
+                    <div className="pt-3 border-t space-y-2">
+                        <div className="text-xs text-muted-foreground">New custom table</div>
+                        <Input placeholder="Name" value={newName} onChange={(e) => setNewName(e.target.value)} />
+                        <select
+                            value={newSkill}
+                            onChange={(e) => setNewSkill(e.target.value as "reading" | "listening")}
+                            className="w-full p-2 border rounded-md bg-white text-sm"
+                        >
+                            <option value="reading">Reading</option>
+                            <option value="listening">Listening</option>
+                        </select>
+                        <Button size="sm" onClick={createTable} className="w-full">
+                            <Plus className="w-4 h-4 mr-2" /> Create
+                        </Button>
+                    </div>
+                </Card>
+
+                <Card className="p-4 lg:col-span-2 space-y-4">
+                    {!selected ? (
+                        <div className="text-sm text-muted-foreground">{loading ? "Loading..." : "Select a table."}</div>
+                    ) : (
+                        <>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div>
+                                    <label className="text-xs block mb-1">Name</label>
+                                    <Input value={draftName} onChange={(e) => setDraftName(e.target.value)} />
+                                </div>
+                                <div>
+                                    <label className="text-xs block mb-1">Raw score out of</label>
+                                    <Input
+                                        type="number"
+                                        min={1}
+                                        value={draftTotal}
+                                        onChange={(e) => setDraftTotal(Number(e.target.value || 0))}
+                                    />
+                                </div>
+                            </div>
+
+                            <p className="text-xs text-muted-foreground">
+                                Each row gives the band for raw scores from its minimum up to the next row. Tests with a
+                                different number of marks are scaled to this total first.
+                            </p>
+
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-xs text-muted-foreground">
+                                        <th className="py-1">Minimum raw score</th>
+                                        <th className="py-1">Band</th>
+                                        <th />
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {draftRows.map((row, idx) => (
+                                        <tr key={idx}>
+                                            <td className="py-1 pr-2">
+                                                <Input
+                                                    type="number"
+                                                    min={0}
+                                                    value={row.minScore}
+                                                    onChange={(e) => updateRow(idx, { minScore: Number(e.target.value || 0) })}
+                                                />
+                                            </td>
+                                            <td className="py-1 pr-2">
+                                                <Input
+                                                    type="number"
+                                                    min={0}
+                                                    max={9}
+                                                    step={0.5}
+                                                    value={row.band}
+                                                    onChange={(e) => updateRow(idx, { band: Number(e.target.value || 0) })}
+                                                />
+                                            </td>
+                                            <td className="py-1">
+                                                <Button
+                                                    size="sm"
+                                                    variant="ghost"
+                                                    disabled={draftRows.length <= 1}
+                                                    onClick={() => setDraftRows((prev) => prev.filter((_, i) => i !== idx))}
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </Button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setDraftRows((prev) => [...prev, { minScore: 0, band: 0 }])}
+                            >
+                                <Plus className="w-4 h-4 mr-2" /> Add row
+                            </Button>
+
+                            <div className="flex flex-wrap items-center gap-4 pt-2 border-t">
+                                <label className="flex items-center gap-2 text-sm">
+                                    <input
+                                        type="checkbox"
+                                        checked={reconvertOnSave}
+                                        onChange={(e) => setReconvertOnSave(e.target.checked)}
+                                        className="h-4 w-4"
+                                    />
+                                    Re-run on past submissions when saving
+                                </label>
+                                <Button onClick={saveTable} disabled={saving}>
+                                    <Save className="w-4 h-4 mr-2" /> {saving ? "Saving..." : "Save"}
+                                </Button>
+                                <Button variant="outline" onClick={reconvert} disabled={saving}>
+                                    Re-run conversion now
+                                </Button>
+                            </div>
+
+                            {message && <div className="text-sm text-slate-700">{message}</div>}
+                            <p className="text-xs text-muted-foreground">
+                                Manually overridden bands are never changed by a re-run.
+                            </p>
+                        </>
+                    )}
+                </Card>
+            </div>
+        </div>
+    );
+}
@@ -2,6 +2,7 @@
 
 import React, { useEffect, useState } from "react";
 import api from "@/lib/api";
+import { confirmSoftDelete } from "@/lib/recycleBin";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -14,6 +15,7 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { Plus, UserPlus, Pencil, Trash2, ChevronDown } from "lucide-react";
+import { TermManagement, type Term } from "./TermManagement";
 
 type Batch = {
   _id: string;
@@ -21,6 +23,9 @@ type Batch = {
   program?: string;
   year?: number;
   section?: string;
+  term?: { _id: string; name: string } | null;
+  archived?: boolean;
+  elective?: boolean;
   faculty?: string[]; // in GET this may be names array
   students?: any[]; // may be array of strings OR array of objects
   createdAt?: string;
@@ -28,6 +33,17 @@ type Batch = {
 
 type UserOption = { id: string; name: string; email?: string; systemId?: string };
 
+type MembershipRecord = {
+  _id: string;
+  student: { _id: string; name: string; systemId?: string } | null;
+  joinedAt: string;
+  leftAt?: string | null;
+  joinReason?: string;
+  leaveReason?: string | null;
+  addedBy?: string | null;
+  removedBy?: string | null;
+};
+
 export function BatchManagement() {
   const [batches, setBatches] = useState<Batch[]>([]);
   const [loading, setLoading] = useState(false);
@@ -39,6 +55,13 @@ export function BatchManagement() {
   const [newProgram, setNewProgram] = useState("");
   const [newYear, setNewYear] = useState<number | "">("");
   const [newSection, setNewSection] = useState("");
+  const [newTermId, setNewTermId] = useState("");
+  const [newElective, setNewElective] = useState(false);
+
+  // Terms: batches are listed per term; archived ones only on request
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [termFilter, setTermFilter] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
 
   // For assigning
   const [facultyOptions, setFacultyOptions] = useState<UserOption[]>([]);
@@ -51,6 +74,7 @@ export function BatchManagement() {
 
   const [assignLoading, setAssignLoading] = useState(false);
   const [assignMessage, setAssignMessage] = useState<string | null>(null);
+  const [moveStudents, setMoveStudents] = useState(false);
 
   // Edit batch dialog
   const [isEditOpen, setIsEditOpen] = useState(false);
@@ -64,18 +88,34 @@ export function BatchManagement() {
   const [currentDialogBatchId, setCurrentDialogBatchId] = useState<string | null>(null);
   const [studentsDialogLoading, setStudentsDialogLoading] = useState(false);
   const [studentsDialogError, setStudentsDialogError] = useState<string | null>(null);
+  const [membershipHistory, setMembershipHistory] = useState<MembershipRecord[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
 
   useEffect(() => {
-    fetchAll();
     fetchFacultyOptions();
     fetchStudentOptions();
+    fetchTerms();
   }, []);
 
+  useEffect(() => {
+    fetchAll();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [termFilter, showArchived]);
+
+  async function fetchTerms() {
+    const res = await api.apiGet("/admin/terms");
+    if (res.ok && Array.isArray(res.data)) setTerms(res.data);
+  }
+
   async function fetchAll() {
     setLoading(true);
     setError(null);
     try {
-      const res = await api.apiGet("/admin/batches");
+      const params = new URLSearchParams();
+      if (termFilter) params.set("term", termFilter);
+      if (showArchived) params.set("includeArchived", "true");
+      const query = params.toString();
+      const res = await api.apiGet(`/admin/batches${query ? `?${query}` : ""}`);
       if (!res.ok) {
         setError(res.error?.message || "Failed to load batches");
         setBatches([]);
@@ -129,6 +169,8 @@ export function BatchManagement() {
         program: newProgram || undefined,
         year: newYear || undefined,
         section: newSection || undefined,
+        term: newTermId || undefined,
+        elective: newElective,
       };
       const res = await api.apiPost("/admin/batches", payload);
       if (!res.ok) {
@@ -140,6 +182,8 @@ export function BatchManagement() {
       setNewProgram("");
       setNewYear("");
       setNewSection("");
+      setNewTermId("");
+      setNewElective(false);
       await fetchAll();
     } catch (err: any) {
       setError(err.message || "Failed to create batch");
@@ -155,6 +199,8 @@ export function BatchManagement() {
         program: editBatch.program,
         year: editBatch.year,
         section: editBatch.section,
+        term: editBatch.term?._id || null,
+        elective: !!editBatch.elective,
       });
       if (!res.ok) {
         alert(res.error?.message || "Failed to update batch");
@@ -168,8 +214,8 @@ export function BatchManagement() {
   };
 
   // Delete batch
-  const handleDeleteBatch = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this batch?")) return;
+  const handleDeleteBatch = async (id: string, name: string) => {
+    if (!(await confirmSoftDelete(`batch "${name}"`, `/admin/batches/${id}/impact`))) return;
     try {
       const res = await api.apiDelete(`/admin/batches/${id}`);
       if (!res.ok) {
@@ -219,14 +265,18 @@ export function BatchManagement() {
     try {
       const res = await api.apiPost(
         `/admin/batches/${selectedBatchId}/assign-students-bulk`,
-        { studentIds: selectedStudentIds }
+        { studentIds: selectedStudentIds, move: moveStudents }
       );
       setAssignLoading(false);
       if (!res.ok) {
         setAssignMessage(res.error?.message || "Failed to assign students");
         return;
       }
-      setAssignMessage("Students assigned successfully.");
+      const skipped: { name?: string; batch: string }[] = res.data?.skipped || [];
+      setAssignMessage(
+        (res.data?.message || "Students assigned successfully.") +
+          (skipped.length ? ` Skipped: ${skipped.map((s) => `${s.name} (${s.batch})`).join(", ")}` : "")
+      );
       setSelectedStudentIds([]); // clear selection
       await fetchAll();
     } catch (err: any) {
@@ -235,12 +285,21 @@ export function BatchManagement() {
     }
   };
 
+  // only batches of active terms can take new members
+  const assignableBatches = batches.filter((b) => !b.archived);
+  const dialogBatchArchived = !!batches.find((b) => b._id === currentDialogBatchId)?.archived;
+
   // ---------- Student list dialog ----------
   const openStudentsDialog = async (batchId: string) => {
     setStudentsDialogError(null);
     setStudentsDialogLoading(true);
     setCurrentDialogBatchId(batchId);
     setIsStudentDialogOpen(true);
+    setShowHistory(false);
+    setMembershipHistory([]);
+    api.apiGet(`/admin/batches/${batchId}/history`).then((res) => {
+      if (res.ok && Array.isArray(res.data)) setMembershipHistory(res.data);
+    });
 
     try {
       const detailRes = await api.apiGet(`/admin/batches/${batchId}`);
@@ -318,11 +377,33 @@ export function BatchManagement() {
 
   return (
     <div className="space-y-4">
+      <TermManagement
+        onChanged={() => {
+          fetchTerms();
+          fetchAll();
+        }}
+      />
+
       {/* HEADER */}
       <div className="flex items-center justify-between">
         <h2 className="text-xl font-semibold">Batch Management</h2>
 
         <div className="flex items-center gap-2">
+          <select
+            className="px-3 py-2 border rounded text-sm bg-white"
+            value={termFilter}
+            onChange={(e) => setTermFilter(e.target.value)}
+          >
+            <option value="">All terms</option>
+            <option value="none">No term</option>
+            {terms.map((t) => (
+              <option key={t._id} value={t._id}>{t.name}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+            Show archived
+          </label>
           <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
             <DialogTrigger asChild>
               <Button variant="default" className="flex items-center gap-2">
@@ -357,6 +438,20 @@ export function BatchManagement() {
                   onChange={(e) => setNewSection(e.target.value)}
                   placeholder="Section"
                 />
+                <select
+                  className="w-full px-3 py-2 border rounded text-sm bg-white"
+                  value={newTermId}
+                  onChange={(e) => setNewTermId(e.target.value)}
+                >
+                  <option value="">No term</option>
+                  {terms.map((t) => (
+                    <option key={t._id} value={t._id}>{t.name}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-2 text-sm">
+                  <input type="checkbox" checked={newElective} onChange={(e) => setNewElective(e.target.checked)} />
+                  Elective batch (students keep their regular batch)
+                </label>
                 {error && <p className="text-sm text-red-600">{error}</p>}
               </div>
 
@@ -383,7 +478,7 @@ export function BatchManagement() {
               onChange={(e) => setSelectedBatchId(e.target.value || null)}
             >
               <option value="">-- Select batch --</option>
-              {batches.map((b) => (
+              {assignableBatches.map((b) => (
                 <option key={b._id} value={b._id}>
                   {b.name}
                 </option>
@@ -425,7 +520,7 @@ export function BatchManagement() {
               onChange={(e) => setSelectedBatchId(e.target.value || null)}
             >
               <option value="">-- Select batch --</option>
-              {batches.map((b) => (
+              {assignableBatches.map((b) => (
                 <option key={b._id} value={b._id}>
                   {b.name}
                 </option>
@@ -456,12 +551,18 @@ export function BatchManagement() {
             </select>
           </div>
 
-          <Button
-            onClick={handleAssignStudentsBulk}
-            disabled={assignLoading || !selectedBatchId || selectedStudentIds.length === 0}
-          >
-            Assign Students (Bulk)
-          </Button>
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={moveStudents} onChange={(e) => setMoveStudents(e.target.checked)} />
+              Move students out of their current batch
+            </label>
+            <Button
+              onClick={handleAssignStudentsBulk}
+              disabled={assignLoading || !selectedBatchId || selectedStudentIds.length === 0}
+            >
+              Assign Students (Bulk)
+            </Button>
+          </div>
         </div>
 
         {assignMessage && (
@@ -478,6 +579,7 @@ export function BatchManagement() {
               <th className="p-3 text-left text-sm font-semibold">Program</th>
               <th className="p-3 text-left text-sm font-semibold">Year</th>
               <th className="p-3 text-left text-sm font-semibold">Section</th>
+              <th className="p-3 text-left text-sm font-semibold">Term</th>
               <th className="p-3 text-left text-sm font-semibold">Faculty</th>
               <th className="p-3 text-left text-sm font-semibold">Students</th>
               <th className="p-3 text-left text-sm font-semibold">Actions</th>
@@ -486,13 +588,13 @@ export function BatchManagement() {
           <tbody>
             {loading ? (
               <tr>
-                <td colSpan={7} className="p-4 text-center">
+                <td colSpan={8} className="p-4 text-center">
                   Loading...
                 </td>
               </tr>
             ) : batches.length === 0 ? (
               <tr>
-                <td colSpan={7} className="p-4 text-center">
+                <td colSpan={8} className="p-4 text-center">
                   No batches found.
                 </td>
               </tr>
@@ -502,10 +604,19 @@ export function BatchManagement() {
                   key={b._id}
                   className="border-b hover:bg-gray-50 transition-colors"
                 >
-                  <td className="p-3 text-sm">{b.name}</td>
+                  <td className="p-3 text-sm">
+                    {b.name}
+                    {b.elective && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-slate-200 text-slate-700">elective</span>
+                    )}
+                    {b.archived && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-slate-200 text-slate-700">archived</span>
+                    )}
+                  </td>
                   <td className="p-3 text-sm">{b.program || "—"}</td>
                   <td className="p-3 text-sm">{b.year || "—"}</td>
                   <td className="p-3 text-sm">{b.section || "—"}</td>
+                  <td className="p-3 text-sm">{b.term?.name || "—"}</td>
                   <td className="p-3 text-sm">
                     {b.faculty?.length ? b.faculty.join(", ") : "—"}
                   </td>
@@ -524,6 +635,8 @@ export function BatchManagement() {
                     <Button
                       size="sm"
                       variant="outline"
+                      disabled={b.archived}
+                      title={b.archived ? "Archived batches are read-only" : undefined}
                       onClick={() => {
                         setEditBatch(b);
                         setIsEditOpen(true);
@@ -534,7 +647,7 @@ export function BatchManagement() {
                     <Button
                       size="sm"
                       variant="destructive"
-                      onClick={() => handleDeleteBatch(b._id)}
+                      onClick={() => handleDeleteBatch(b._id, b.name)}
                     >
                       <Trash2 className="w-4 h-4" />
                     </Button>
@@ -574,21 +687,23 @@ export function BatchManagement() {
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={() => {
-                          if (!s.id) {
-                            alert(
-                              "This student record does not contain an id; cannot remove from batch."
-                            );
-                            return;
-                          }
-                          handleUnassignStudent(s.id);
-                        }}
-                      >
-                        Remove
-                      </Button>
+                      {!dialogBatchArchived && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => {
+                            if (!s.id) {
+                              alert(
+                                "This student record does not contain an id; cannot remove from batch."
+                              );
+                              return;
+                            }
+                            handleUnassignStudent(s.id);
+                          }}
+                        >
+                          Remove
+                        </Button>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -596,6 +711,36 @@ export function BatchManagement() {
             )}
           </div>
 
+          {membershipHistory.length > 0 && (
+            <div className="border-t pt-2">
+              <button
+                type="button"
+                className="text-sm text-blue-600 hover:underline"
+                onClick={() => setShowHistory((v) => !v)}
+              >
+                {showHistory ? "Hide" : "Show"} membership history ({membershipHistory.length})
+              </button>
+              {showHistory && (
+                <div className="mt-2 max-h-64 overflow-y-auto space-y-1">
+                  {membershipHistory.map((m) => (
+                    <div key={m._id} className="text-xs border rounded p-2">
+                      <div className="font-medium">
+                        {m.student ? `${m.student.systemId || ""} ${m.student.name}`.trim() : "Deleted user"}
+                      </div>
+                      <div className="text-muted-foreground">
+                        Joined {new Date(m.joinedAt).toLocaleDateString()} ({m.joinReason}
+                        {m.addedBy ? ` by ${m.addedBy}` : ""})
+                        {m.leftAt
+                          ? ` · Left ${new Date(m.leftAt).toLocaleDateString()} (${m.leaveReason}${m.removedBy ? ` by ${m.removedBy}` : ""})`
+                          : " · current"}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           <DialogFooter>
             <Button variant="outline" onClick={() => setIsStudentDialogOpen(false)}>
               Close
@@ -643,6 +788,27 @@ export function BatchManagement() {
                 }
                 placeholder="Section"
               />
+              <select
+                className="w-full px-3 py-2 border rounded text-sm bg-white"
+                value={editBatch.term?._id || ""}
+                onChange={(e) => {
+                  const t = terms.find((x) => x._id === e.target.value);
+                  setEditBatch({ ...editBatch, term: t ? { _id: t._id, name: t.name } : null });
+                }}
+              >
+                <option value="">No term</option>
+                {terms.map((t) => (
+                  <option key={t._id} value={t._id}>{t.name}</option>
+                ))}
+              </select>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={!!editBatch.elective}
+                  onChange={(e) => setEditBatch({ ...editBatch, elective: e.target.checked })}
+                />
+                Elective batch (students keep their regular batch)
+              </label>
             </div>
           )}
           <DialogFooter>
@@ -0,0 +1,354 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Download, Upload } from "lucide-react";
+import api from "@/lib/api";
+
+type ImportField = "name" | "email" | "systemId" | "role" | "batch" | "faculty" | "password";
+type RowAction = "create" | "update" | "skip" | "error";
+
+interface ImportRow {
+  row: number;
+  action: RowAction;
+  reason?: string;
+  systemId: string;
+  email: string;
+  name: string;
+  role?: string;
+  batch?: string;
+  faculty?: string;
+  changes: string[];
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  headers: string[];
+  mapping: Partial<Record<ImportField, string>>;
+  summary: { total: number } & Record<RowAction, number>;
+  rows: ImportRow[];
+}
+
+interface BatchOption {
+  _id: string;
+  name: string;
+}
+
+const FIELDS: { key: ImportField; label: string; hint: string }[] = [
+  { key: "systemId", label: "System ID", hint: "required; existing accounts are matched on it" },
+  { key: "name", label: "Name", hint: "required for new accounts" },
+  { key: "email", label: "Email", hint: "required for new accounts" },
+  { key: "role", label: "Role", hint: "admin, faculty or student" },
+  { key: "batch", label: "Batch", hint: "batch name; faculty may list several with ;" },
+  { key: "faculty", label: "Faculty", hint: "faculty system ID or email (students)" },
+  { key: "password", label: "Password", hint: "temporary; blank generates one" },
+];
+
+const ACTION_STYLES: Record<RowAction, string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  skip: "bg-slate-200 text-slate-700",
+  error: "bg-red-100 text-red-700",
+};
+
+export function BulkUserImport({ onImported }: { onImported: () => void }) {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [mapping, setMapping] = useState<Partial<Record<ImportField, string>>>({});
+  const [defaultRole, setDefaultRole] = useState<"student" | "faculty" | "admin">("student");
+  const [defaultBatch, setDefaultBatch] = useState("");
+  const [updateExisting, setUpdateExisting] = useState(true);
+  const [sendResetLinks, setSendResetLinks] = useState(false);
+  const [batches, setBatches] = useState<BatchOption[]>([]);
+
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [rowFilter, setRowFilter] = useState<"" | RowAction>("");
+  // options or mapping edited since the last preview; confirming would apply something unseen
+  const [stale, setStale] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    api.apiGet("/admin/batches").then((res) => {
+      if (res.ok && Array.isArray(res.data)) setBatches(res.data);
+    });
+  }, [open]);
+
+  const reset = () => {
+    setFile(null);
+    setMapping({});
+    setResult(null);
+    setRowFilter("");
+    setMessage(null);
+    setStale(false);
+  };
+
+  const changed = <T,>(setter: (v: T) => void) => (v: T) => {
+    setter(v);
+    setStale(true);
+  };
+
+  async function runImport(dryRun: boolean, selectedFile = file, columnMapping = mapping) {
+    if (!selectedFile) return;
+    setLoading(true);
+    setMessage(null);
+    const form = new FormData();
+    form.append("file", selectedFile);
+    form.append("dryRun", String(dryRun));
+    form.append("defaultRole", defaultRole);
+    if (defaultBatch) form.append("defaultBatch", defaultBatch);
+    form.append("updateExisting", String(updateExisting));
+    form.append("sendResetLinks", String(sendResetLinks));
+    // send every field so "not mapped" overrides the server's guess
+    if (Object.keys(columnMapping).length) {
+      form.append(
+        "mapping",
+        JSON.stringify(Object.fromEntries(FIELDS.map((f) => [f.key, columnMapping[f.key] || ""])))
+      );
+    }
+
+    const res = await api.apiUpload("/admin/bulk/users", form);
+    setLoading(false);
+    if (!res.ok) {
+      setMessage(res.error?.message || "Import failed");
+      if (res.error?.headers) {
+        setResult({ dryRun: true, headers: res.error.headers, mapping: res.error.mapping || {}, summary: { total: 0, create: 0, update: 0, skip: 0, error: 0 }, rows: [] });
+        setMapping(res.error.mapping || {});
+      }
+      return;
+    }
+    setResult(res.data);
+    setMapping(res.data.mapping || {});
+    setStale(false);
+    if (!dryRun) {
+      const s = res.data.summary;
+      setMessage(`Import finished: ${s.create} created, ${s.update} updated, ${s.skip} skipped, ${s.error} failed.`);
+      onImported();
+    }
+  }
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0] || null;
+    e.target.value = "";
+    if (!picked) return;
+    reset();
+    setFile(picked);
+    runImport(true, picked, {});
+  };
+
+  function downloadReport() {
+    if (!result) return;
+    const rows: string[][] = [["Row", "Outcome", "Reason", "System ID", "Name", "Email", "Role", "Batch", "Faculty", "Changes"]];
+    for (const r of result.rows) {
+      rows.push([
+        String(r.row),
+        r.action,
+        r.reason || "",
+        r.systemId || "",
+        r.name || "",
+        r.email || "",
+        r.role || "",
+        r.batch || "",
+        r.faculty || "",
+        (r.changes || []).join("; "),
+      ]);
+    }
+    const csv = rows.map((r) => r.map((c) => `"${String(c).replace(/"/g, '""')}"`).join(",")).join("\n");
+    const blob = new Blob([csv], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `user_import_report_${new Date().toISOString().slice(0, 19).replace(/[:T]/g, "_")}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  const visibleRows = result ? result.rows.filter((r) => !rowFilter || r.action === rowFilter) : [];
+  const applied = result && !result.dryRun;
+  const canConfirm = result && result.dryRun && !stale && result.summary.create + result.summary.update > 0;
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => { reset(); setOpen(true); }}>
+        <Upload className="w-4 h-4 mr-2" /> Import users
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import users</DialogTitle>
+            <DialogDescription>
+              Upload a CSV or XLSX sheet. Nothing is saved until you review the preview and confirm.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="cursor-pointer inline-flex px-3 py-2 border rounded text-sm">
+                <input type="file" accept=".csv,.xlsx" onChange={handleFile} className="hidden" disabled={loading} />
+                {file ? `Change file (${file.name})` : "Choose file"}
+              </label>
+              <div>
+                <label className="text-xs block text-muted-foreground">Role when the sheet has none</label>
+                <select
+                  className="px-3 py-2 border rounded text-sm bg-white"
+                  value={defaultRole}
+                  onChange={(e) => changed(setDefaultRole)(e.target.value as any)}
+                  disabled={!!applied}
+                >
+                  <option value="student">Student</option>
+                  <option value="faculty">Faculty</option>
+                  <option value="admin">Admin</option>
+                </select>
+              </div>
+              <div>
+                <label className="text-xs block text-muted-foreground">Batch when the sheet has none</label>
+                <select
+                  className="px-3 py-2 border rounded text-sm bg-white"
+                  value={defaultBatch}
+                  onChange={(e) => changed(setDefaultBatch)(e.target.value)}
+                  disabled={!!applied}
+                >
+                  <option value="">No batch</option>
+                  {batches.map((b) => (
+                    <option key={b._id} value={b._id}>{b.name}</option>
+                  ))}
+                </select>
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={updateExisting} onChange={(e) => changed(setUpdateExisting)(e.target.checked)} disabled={!!applied} />
+                Update existing accounts (matched by system ID)
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={sendResetLinks} onChange={(e) => setSendResetLinks(e.target.checked)} disabled={!!applied} />
+                Email a password setup link to new accounts without a password
+              </label>
+            </div>
+
+            {result && result.headers.length > 0 && (
+              <div>
+                <div className="text-sm font-medium mb-2">Column mapping</div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {FIELDS.map((f) => (
+                    <div key={f.key} className="flex items-center gap-2">
+                      <span className="text-sm w-24">{f.label}</span>
+                      <select
+                        className="px-3 py-2 border rounded text-sm bg-white flex-1"
+                        value={mapping[f.key] || ""}
+                        onChange={(e) => changed(setMapping)({ ...mapping, [f.key]: e.target.value })}
+                        disabled={!!applied}
+                      >
+                        <option value="">Not mapped</option>
+                        {result.headers.map((h) => (
+                          <option key={h} value={h}>{h}</option>
+                        ))}
+                      </select>
+                      <span className="text-xs text-muted-foreground hidden lg:inline w-56">{f.hint}</span>
+                    </div>
+                  ))}
+                </div>
+                {!applied && (
+                  <div className="flex items-center gap-2 mt-2">
+                    <Button variant="outline" onClick={() => runImport(true)} disabled={loading}>
+                      Refresh preview
+                    </Button>
+                    {stale && <span className="text-xs text-amber-700">Settings changed; refresh the preview before importing.</span>}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {loading && <div className="text-sm">{result ? "Working..." : "Reading file..."}</div>}
+            {message && (
+              <div className={`text-sm ${applied ? "text-green-700" : "text-red-600"}`}>{message}</div>
+            )}
+
+            {result && result.rows.length > 0 && (
+              <div>
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  <span className="text-sm font-medium">{applied ? "Result" : "Preview"}:</span>
+                  {(["create", "update", "skip", "error"] as RowAction[]).map((a) => (
+                    <button
+                      key={a}
+                      type="button"
+                      onClick={() => setRowFilter(rowFilter === a ? "" : a)}
+                      className={`px-2 py-0.5 rounded-full text-xs ${ACTION_STYLES[a]} ${rowFilter === a ? "ring-2 ring-offset-1 ring-slate-400" : ""}`}
+                    >
+                      {a} {result.summary[a]}
+                    </button>
+                  ))}
+                  <Button variant="outline" size="sm" className="ml-auto" onClick={downloadReport}>
+                    <Download className="w-4 h-4 mr-1" /> Download report
+                  </Button>
+                </div>
+                <div className="border rounded max-h-[40vh] overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted sticky top-0">
+                      <tr>
+                        <th className="text-left px-2 py-1">Row</th>
+                        <th className="text-left px-2 py-1">Outcome</th>
+                        <th className="text-left px-2 py-1">System ID</th>
+                        <th className="text-left px-2 py-1">Name / Email</th>
+                        <th className="text-left px-2 py-1">Role</th>
+                        <th className="text-left px-2 py-1">Batch</th>
+                        <th className="text-left px-2 py-1">Details</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleRows.map((r) => (
+                        <tr key={r.row} className="border-t align-top">
+                          <td className="px-2 py-1">{r.row}</td>
+                          <td className="px-2 py-1">
+                            <span className={`px-2 py-0.5 rounded-full text-xs ${ACTION_STYLES[r.action]}`}>{r.action}</span>
+                          </td>
+                          <td className="px-2 py-1">{r.systemId || "—"}</td>
+                          <td className="px-2 py-1">
+                            <div>{r.name || "—"}</div>
+                            <div className="text-xs text-muted-foreground">{r.email}</div>
+                          </td>
+                          <td className="px-2 py-1">{r.role || ""}</td>
+                          <td className="px-2 py-1">
+                            {r.batch || ""}
+                            {r.faculty && <div className="text-xs text-muted-foreground">Faculty: {r.faculty}</div>}
+                          </td>
+                          <td className="px-2 py-1">
+                            {r.reason && <div className={r.action === "error" ? "text-red-600" : ""}>{r.reason}</div>}
+                            {r.changes.map((c) => (
+                              <div key={c} className="text-xs text-muted-foreground">{c}</div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              {applied ? "Close" : "Cancel"}
+            </Button>
+            {!applied && (
+              <Button onClick={() => runImport(false)} disabled={!canConfirm || loading}>
+                {result ? `Import ${result.summary.create + result.summary.update} row(s)` : "Import"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,407 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Copy, Mail, RefreshCcw, XCircle } from "lucide-react";
+import api from "@/lib/api";
+
+type InviteRole = "admin" | "faculty" | "student";
+type InviteStatus = "pending" | "accepted" | "expired" | "revoked";
+
+interface Invitation {
+  _id: string;
+  email: string;
+  name?: string;
+  role: InviteRole;
+  systemId: string;
+  batch?: { _id: string; name: string } | null;
+  invitedBy?: { name?: string; email?: string } | null;
+  expiresAt: string;
+  acceptedAt?: string | null;
+  createdAt: string;
+  status: InviteStatus;
+}
+
+interface BatchOption {
+  _id: string;
+  name: string;
+}
+
+type IssuedLink = { email: string; link: string };
+type FailedRow = { row: number; email: string; error: string };
+
+const STATUS_STYLES: Record<InviteStatus, string> = {
+  pending: "bg-amber-100 text-amber-800",
+  accepted: "bg-green-100 text-green-800",
+  expired: "bg-slate-200 text-slate-700",
+  revoked: "bg-red-100 text-red-700",
+};
+
+// Faculty use the same panel for their own batches, inviting students only
+export function Invitations({ scope = "admin" }: { scope?: "admin" | "faculty" }) {
+  const isAdmin = scope === "admin";
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<"" | InviteStatus>("");
+  const [batches, setBatches] = useState<BatchOption[]>([]);
+
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [systemId, setSystemId] = useState("");
+  const [role, setRole] = useState<InviteRole>("student");
+  const [batchId, setBatchId] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState(7);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [issuedLinks, setIssuedLinks] = useState<IssuedLink[]>([]);
+  const [failedRows, setFailedRows] = useState<FailedRow[]>([]);
+
+  const fetchInvitations = useCallback(async () => {
+    setLoading(true);
+    const res = await api.apiGet(`/invitations${statusFilter ? `?status=${statusFilter}` : ""}`);
+    setLoading(false);
+    setInvitations(res.ok && Array.isArray(res.data) ? res.data : []);
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [fetchInvitations]);
+
+  useEffect(() => {
+    api.apiGet(isAdmin ? "/admin/batches" : "/faculty/batches").then((res) => {
+      if (!res.ok || !Array.isArray(res.data)) return;
+      setBatches(res.data);
+      if (!isAdmin && res.data.length > 0) setBatchId(res.data[0]._id);
+    });
+  }, [isAdmin]);
+
+  const openInviteDialog = () => {
+    setEmail("");
+    setName("");
+    setSystemId("");
+    setRole("student");
+    if (isAdmin) setBatchId("");
+    setExpiresInDays(7);
+    setMessage(null);
+    setIsInviteOpen(true);
+  };
+
+  const handleInvite = async () => {
+    setMessage(null);
+    if (!email || !systemId) {
+      setMessage("Email and ID are required.");
+      return;
+    }
+    setSaving(true);
+    const res = await api.apiPost("/invitations", {
+      email,
+      name,
+      systemId,
+      role,
+      batchId: role !== "admin" && batchId ? batchId : undefined,
+      expiresInDays,
+    });
+    setSaving(false);
+    if (!res.ok) {
+      setMessage(res.error?.message || "Failed to create invitation");
+      return;
+    }
+    setIssuedLinks([{ email: res.data.invitation.email, link: res.data.link }]);
+    setFailedRows([]);
+    setIsInviteOpen(false);
+    fetchInvitations();
+  };
+
+  // CSV with a header row: email,name,systemId[,role]; role and batch default to the selects above the table
+  async function handleBulkFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const lines = (await file.text()).split(/\r?\n/).filter((l) => l.trim());
+    if (lines.length < 2) {
+      setFailedRows([{ row: 0, email: "", error: "CSV seems empty or missing rows." }]);
+      return;
+    }
+    const headers = lines[0].split(",").map((h) => h.trim());
+    const invites = lines.slice(1).map((line) => {
+      const cols = line.split(",");
+      const row: any = {};
+      headers.forEach((h, i) => {
+        row[h] = (cols[i] || "").trim();
+      });
+      return {
+        email: row.email,
+        name: row.name,
+        systemId: row.systemId || row.system_id,
+        ...(row.role ? { role: row.role.toLowerCase() } : {}),
+      };
+    });
+
+    const res = await api.apiPost("/invitations/bulk", {
+      invites,
+      role,
+      batchId: batchId || undefined,
+      expiresInDays,
+    });
+    if (!res.ok) {
+      setFailedRows([{ row: 0, email: "", error: res.error?.message || "Bulk invite failed" }]);
+      return;
+    }
+    setIssuedLinks(res.data.created || []);
+    setFailedRows(res.data.failed || []);
+    fetchInvitations();
+  }
+
+  const handleResend = async (inv: Invitation) => {
+    const res = await api.apiPost(`/invitations/${inv._id}/resend`, { expiresInDays });
+    if (!res.ok) {
+      alert(res.error?.message || "Failed to renew invitation");
+      return;
+    }
+    setIssuedLinks([{ email: inv.email, link: res.data.link }]);
+    setFailedRows([]);
+    fetchInvitations();
+  };
+
+  const handleRevoke = async (inv: Invitation) => {
+    if (!confirm(`Revoke the invitation for ${inv.email}?`)) return;
+    const res = await api.apiDelete(`/invitations/${inv._id}`);
+    if (!res.ok) {
+      alert(res.error?.message || "Failed to revoke invitation");
+      return;
+    }
+    fetchInvitations();
+  };
+
+  const copy = (text: string) => {
+    navigator.clipboard?.writeText(text).catch(() => { });
+  };
+
+  return (
+    <Card className="overflow-hidden">
+      <div className="flex flex-wrap justify-between items-center gap-3 px-6 py-3 border-b bg-muted">
+        <h2 className="text-lg font-semibold">Invitations</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as "" | InviteStatus)}
+            className="px-3 py-2 border rounded text-sm bg-white"
+          >
+            <option value="">All</option>
+            <option value="pending">Pending</option>
+            <option value="accepted">Accepted</option>
+            <option value="expired">Expired</option>
+            <option value="revoked">Revoked</option>
+          </select>
+          {isAdmin && (
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as InviteRole)}
+              className="px-3 py-2 border rounded text-sm bg-white"
+              title="Role for bulk invites"
+            >
+              <option value="student">Students</option>
+              <option value="faculty">Faculty</option>
+              <option value="admin">Admins</option>
+            </select>
+          )}
+          <select
+            value={batchId}
+            onChange={(e) => setBatchId(e.target.value)}
+            className="px-3 py-2 border rounded text-sm bg-white"
+            title="Batch for bulk invites"
+          >
+            {isAdmin && <option value="">No batch</option>}
+            {batches.map((b) => (
+              <option key={b._id} value={b._id}>{b.name}</option>
+            ))}
+          </select>
+          <label className="cursor-pointer inline-flex px-3 py-2 border rounded bg-white">
+            <input type="file" accept=".csv" onChange={handleBulkFile} className="hidden" />
+            <span className="text-sm">Bulk invite CSV</span>
+          </label>
+          <Button className="gap-2" onClick={openInviteDialog}>
+            <Mail className="w-4 h-4" /> Invite
+          </Button>
+        </div>
+      </div>
+
+      {(issuedLinks.length > 0 || failedRows.length > 0) && (
+        <div className="px-6 py-3 border-b space-y-2 text-sm">
+          {issuedLinks.length > 0 && (
+            <div>
+              <div className="font-medium mb-1">Invitation links (share each with its invitee):</div>
+              {issuedLinks.map((l) => (
+                <div key={l.link} className="flex items-center gap-2">
+                  <span className="w-56 truncate">{l.email}</span>
+                  <code className="flex-1 truncate text-xs bg-muted px-2 py-1 rounded">{l.link}</code>
+                  <Button variant="ghost" size="sm" onClick={() => copy(l.link)}>
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          {failedRows.map((f, i) => (
+            <div key={i} className="text-red-600">
+              {f.row > 0 ? `Row ${f.row} (${f.email}): ` : ""}{f.error}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-muted">
+            <tr className="border-b border-border">
+              <th className="px-6 py-3 text-left text-sm font-semibold">Email</th>
+              <th className="px-6 py-3 text-left text-sm font-semibold">System ID</th>
+              <th className="px-6 py-3 text-left text-sm font-semibold">Role</th>
+              <th className="px-6 py-3 text-left text-sm font-semibold">Batch</th>
+              <th className="px-6 py-3 text-left text-sm font-semibold">Status</th>
+              <th className="px-6 py-3 text-left text-sm font-semibold">Expires</th>
+              <th className="px-6 py-3 text-left text-sm font-semibold">Invited by</th>
+              <th className="px-6 py-3 text-left text-sm font-semibold">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {loading ? (
+              <tr>
+                <td colSpan={8} className="p-6 text-center">Loading...</td>
+              </tr>
+            ) : invitations.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="p-6 text-center text-sm text-muted-foreground">No invitations.</td>
+              </tr>
+            ) : (
+              invitations.map((inv) => (
+                <tr key={inv._id} className="border-b hover:bg-muted/30">
+                  <td className="px-6 py-4 text-sm">
+                    {inv.email}
+                    {inv.name && <div className="text-xs text-muted-foreground">{inv.name}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-sm">{inv.systemId}</td>
+                  <td className="px-6 py-4 text-sm capitalize">{inv.role}</td>
+                  <td className="px-6 py-4 text-sm">{inv.batch?.name || "—"}</td>
+                  <td className="px-6 py-4 text-sm">
+                    <span className={`px-2 py-0.5 rounded text-xs capitalize ${STATUS_STYLES[inv.status]}`}>
+                      {inv.status}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-muted-foreground">
+                    {inv.status === "accepted" && inv.acceptedAt
+                      ? `Accepted ${new Date(inv.acceptedAt).toISOString().slice(0, 10)}`
+                      : new Date(inv.expiresAt).toISOString().slice(0, 10)}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-muted-foreground">
+                    {inv.invitedBy?.name || inv.invitedBy?.email || "—"}
+                  </td>
+                  <td className="px-6 py-4 text-sm">
+                    {(inv.status === "pending" || inv.status === "expired") && (
+                      <div className="flex items-center gap-2">
+                        <Button variant="ghost" size="sm" title="New link" onClick={() => handleResend(inv)}>
+                          <RefreshCcw className="w-4 h-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" title="Revoke" onClick={() => handleRevoke(inv)}>
+                          <XCircle className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <Dialog open={isInviteOpen} onOpenChange={setIsInviteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite User</DialogTitle>
+            <DialogDescription>
+              The invitee opens a one-time link and sets their own password.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div>
+              <label className="text-sm block mb-1">Email Address</label>
+              <Input type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm block mb-1">Full Name (optional)</label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div>
+              <label className="text-sm block mb-1">System ID</label>
+              <Input value={systemId} onChange={(e) => setSystemId(e.target.value)} />
+            </div>
+            {isAdmin && (
+              <div>
+                <label className="text-sm block mb-1">Role</label>
+                <select
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as InviteRole)}
+                  className="w-full px-3 py-2 border rounded"
+                >
+                  <option value="student">Student</option>
+                  <option value="faculty">Faculty</option>
+                  <option value="admin">Admin</option>
+                </select>
+              </div>
+            )}
+            {role !== "admin" && (
+              <div>
+                <label className="text-sm block mb-1">Batch</label>
+                <select
+                  value={batchId}
+                  onChange={(e) => setBatchId(e.target.value)}
+                  className="w-full px-3 py-2 border rounded"
+                >
+                  {isAdmin && <option value="">No batch</option>}
+                  {batches.map((b) => (
+                    <option key={b._id} value={b._id}>{b.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div>
+              <label className="text-sm block mb-1">Link valid for (days)</label>
+              <Input
+                type="number"
+                min={1}
+                max={90}
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(Number(e.target.value || 7))}
+              />
+            </div>
+            {message && <div className="text-sm text-red-600">{message}</div>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsInviteOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleInvite} disabled={saving}>
+              {saving ? "Sending..." : "Create Invitation"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
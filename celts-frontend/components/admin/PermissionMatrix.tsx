@@ -0,0 +1,554 @@
+"use client";
+
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { Loader2, Lock, Plus, RefreshCcw, Save, Trash2 } from "lucide-react";
+
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import api from "@/lib/api";
+
+type BaseRole = "admin" | "faculty" | "student";
+
+interface Capability {
+  key: string;
+  group: string;
+  label: string;
+  description: string;
+  roles: BaseRole[];
+}
+
+interface Role {
+  _id: string | null;
+  key: string;
+  name: string;
+  description?: string;
+  baseRole: BaseRole;
+  system: boolean;
+  capabilities: string[];
+  userCount?: number | null;
+}
+
+interface PermissionUser {
+  _id: string;
+  name: string;
+  email: string;
+  systemId?: string;
+  role: BaseRole;
+  customRoles: string[];
+  permissions: { granted: string[]; revoked: string[] };
+  capabilities: string[];
+}
+
+type Override = "inherit" | "grant" | "revoke";
+
+const ROLE_LABEL: Record<BaseRole, string> = {
+  admin: "Admin",
+  faculty: "Faculty",
+  student: "Student",
+};
+
+export function PermissionMatrix() {
+  const [capabilities, setCapabilities] = useState<Capability[]>([]);
+  const [alwaysGranted, setAlwaysGranted] = useState<Record<string, string[]>>({});
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string[]>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [newRoleName, setNewRoleName] = useState("");
+  const [newRoleBase, setNewRoleBase] = useState<"faculty" | "admin">("faculty");
+  const [newRoleDescription, setNewRoleDescription] = useState("");
+
+  const [users, setUsers] = useState<PermissionUser[]>([]);
+  const [userQuery, setUserQuery] = useState("");
+  const [usersLoading, setUsersLoading] = useState(false);
+  const [selectedUser, setSelectedUser] = useState<PermissionUser | null>(null);
+  const [userRoles, setUserRoles] = useState<string[]>([]);
+  const [userOverrides, setUserOverrides] = useState<Record<string, Override>>({});
+  const [userReason, setUserReason] = useState("");
+  const [userSaving, setUserSaving] = useState(false);
+  const [userError, setUserError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchMatrix();
+    fetchUsers("");
+  }, []);
+
+  async function fetchMatrix() {
+    setLoading(true);
+    setError(null);
+    const res = await api.apiGet("/admin/permissions");
+    setLoading(false);
+    if (!res.ok) {
+      setError(res.error?.message || "Failed to load permissions");
+      return;
+    }
+    const list = (res.data?.roles || []) as Role[];
+    setCapabilities(res.data?.capabilities || []);
+    setAlwaysGranted(res.data?.alwaysGranted || {});
+    setRoles(list);
+    setDrafts(Object.fromEntries(list.map((r) => [r.key, [...r.capabilities]])));
+  }
+
+  async function fetchUsers(q: string) {
+    setUsersLoading(true);
+    const res = await api.apiGet(`/admin/permissions/users${q ? `?q=${encodeURIComponent(q)}` : ""}`);
+    setUsersLoading(false);
+    if (!res.ok) {
+      setUserError(res.error?.message || "Failed to load users");
+      return;
+    }
+    setUsers(res.data || []);
+  }
+
+  const groups = useMemo(() => {
+    const byGroup = new Map<string, Capability[]>();
+    for (const cap of capabilities) {
+      byGroup.set(cap.group, [...(byGroup.get(cap.group) || []), cap]);
+    }
+    return Array.from(byGroup.entries());
+  }, [capabilities]);
+
+  const dirtyRoles = roles.filter((r) => {
+    const draft = drafts[r.key] || [];
+    return draft.length !== r.capabilities.length || draft.some((c) => !r.capabilities.includes(c));
+  });
+
+  const isLocked = (role: Role, cap: string) =>
+    role.system && (alwaysGranted[role.baseRole] || []).includes(cap);
+
+  function toggleRoleCapability(role: Role, cap: string, on: boolean) {
+    setMessage(null);
+    setDrafts((prev) => {
+      const current = prev[role.key] || [];
+      return {
+        ...prev,
+        [role.key]: on ? [...current, cap] : current.filter((c) => c !== cap),
+      };
+    });
+  }
+
+  async function saveRoles() {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    for (const role of dirtyRoles) {
+      const res = await api.apiPut(`/admin/permissions/roles/${role.key}`, {
+        capabilities: drafts[role.key],
+      });
+      if (!res.ok) {
+        setSaving(false);
+        setError(`${role.name}: ${res.error?.message || "Failed to save"}`);
+        return;
+      }
+    }
+    setSaving(false);
+    setMessage(`Saved ${dirtyRoles.length} role(s). Signed-in users pick up the change on their next request.`);
+    await fetchMatrix();
+  }
+
+  async function createRole() {
+    if (!newRoleName.trim()) return;
+    setError(null);
+    setMessage(null);
+    const res = await api.apiPost("/admin/permissions/roles", {
+      name: newRoleName.trim(),
+      baseRole: newRoleBase,
+      description: newRoleDescription,
+      capabilities: [],
+    });
+    if (!res.ok) {
+      setError(res.error?.message || "Failed to create role");
+      return;
+    }
+    setNewRoleName("");
+    setNewRoleDescription("");
+    setMessage(`Created "${res.data?.role?.name}". Tick its capabilities in the matrix and save.`);
+    await fetchMatrix();
+  }
+
+  async function deleteRole(role: Role) {
+    const holders = role.userCount ? ` ${role.userCount} user(s) will lose it.` : "";
+    if (!confirm(`Delete the role "${role.name}"?${holders}`)) return;
+    const res = await api.apiDelete(`/admin/permissions/roles/${role.key}`);
+    if (!res.ok) {
+      setError(res.error?.message || "Failed to delete role");
+      return;
+    }
+    setMessage(`Deleted "${role.name}".`);
+    await fetchMatrix();
+    await fetchUsers(userQuery);
+  }
+
+  function selectUser(user: PermissionUser) {
+    setSelectedUser(user);
+    setUserRoles([...user.customRoles]);
+    const overrides: Record<string, Override> = {};
+    user.permissions.granted.forEach((c) => (overrides[c] = "grant"));
+    user.permissions.revoked.forEach((c) => (overrides[c] = "revoke"));
+    setUserOverrides(overrides);
+    setUserReason("");
+    setUserError(null);
+  }
+
+  // what the user would end up with, mirroring the server's resolution
+  const previewCapabilities = useMemo(() => {
+    if (!selectedUser) return [];
+    const base = roles.find((r) => r.system && r.key === selectedUser.role);
+    const caps = new Set(base ? base.capabilities : []);
+    for (const role of roles) {
+      if (!role.system && role._id && userRoles.includes(role._id)) {
+        role.capabilities.forEach((c) => caps.add(c));
+      }
+    }
+    Object.entries(userOverrides).forEach(([cap, mode]) => {
+      if (mode === "grant") caps.add(cap);
+      if (mode === "revoke") caps.delete(cap);
+    });
+    (alwaysGranted[selectedUser.role] || []).forEach((c) => caps.add(c));
+    return capabilities
+      .filter((c) => caps.has(c.key) && c.roles.includes(selectedUser.role))
+      .map((c) => c.key);
+  }, [selectedUser, roles, userRoles, userOverrides, alwaysGranted, capabilities]);
+
+  async function saveUser() {
+    if (!selectedUser) return;
+    setUserSaving(true);
+    setUserError(null);
+    const entries = Object.entries(userOverrides);
+    const res = await api.apiPatch(`/admin/permissions/users/${selectedUser._id}`, {
+      customRoles: userRoles,
+      granted: entries.filter(([, m]) => m === "grant").map(([c]) => c),
+      revoked: entries.filter(([, m]) => m === "revoke").map(([c]) => c),
+      reason: userReason,
+    });
+    setUserSaving(false);
+    if (!res.ok) {
+      setUserError(res.error?.message || "Failed to update permissions");
+      return;
+    }
+    const updated = res.data.user as PermissionUser;
+    setUsers((prev) => prev.map((u) => (u._id === updated._id ? updated : u)));
+    selectUser(updated);
+    fetchMatrix();
+  }
+
+  const userCustomRoles = selectedUser
+    ? roles.filter((r) => !r.system && r.baseRole === selectedUser.role)
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-xl font-medium text-slate-900">Role permissions</h1>
+          <p className="mt-1 text-sm text-slate-500 max-w-2xl">
+            Every action in CELTS needs a capability. Users get the capabilities of their base
+            role, plus any custom roles they hold, plus individual grants, minus individual
+            revocations.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => { fetchMatrix(); fetchUsers(userQuery); }} disabled={loading}>
+          {loading ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <RefreshCcw className="w-4 h-4 mr-1" />}
+          Refresh
+        </Button>
+      </div>
+
+      {error && <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+      {message && <div className="rounded-md bg-emerald-50 p-3 text-sm text-emerald-700">{message}</div>}
+
+      {/* Role x capability matrix */}
+      <Card className="p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-sm font-semibold text-slate-800">Capability matrix</h2>
+            <p className="mt-1 text-xs text-slate-500">
+              Columns are the three base roles and your custom roles. Greyed cells don&apos;t apply to
+              that kind of account.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {dirtyRoles.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDrafts(Object.fromEntries(roles.map((r) => [r.key, [...r.capabilities]])))}
+                disabled={saving}
+              >
+                Discard
+              </Button>
+            )}
+            <Button size="sm" onClick={saveRoles} disabled={saving || dirtyRoles.length === 0}>
+              {saving ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Save className="w-4 h-4 mr-1" />}
+              Save changes{dirtyRoles.length > 0 ? ` (${dirtyRoles.length})` : ""}
+            </Button>
+          </div>
+        </div>
+
+        <div className="mt-5 overflow-x-auto rounded-md border border-slate-100">
+          <table className="w-full min-w-[720px] table-auto">
+            <thead className="bg-slate-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-slate-600">Capability</th>
+                {roles.map((role) => (
+                  <th key={role.key} className="px-3 py-3 text-center text-xs font-medium text-slate-600 align-bottom">
+                    <div>{role.name}</div>
+                    {!role.system && (
+                      <div className="mt-0.5 font-normal text-slate-400">
+                        {ROLE_LABEL[role.baseRole]} · {role.userCount || 0} user(s)
+                        <button
+                          onClick={() => deleteRole(role)}
+                          className="ml-1 align-middle text-slate-400 hover:text-red-600"
+                          title="Delete role"
+                        >
+                          <Trash2 className="inline w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map(([group, caps]) => (
+                <Fragment key={group}>
+                  <tr className="bg-slate-100/60">
+                    <td colSpan={roles.length + 1} className="px-4 py-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      {group}
+                    </td>
+                  </tr>
+                  {caps.map((cap) => (
+                    <tr key={cap.key} className="border-t border-slate-100">
+                      <td className="px-4 py-3">
+                        <div className="text-sm font-medium text-slate-800">{cap.label}</div>
+                        <div className="text-xs text-slate-500">{cap.description}</div>
+                      </td>
+                      {roles.map((role) => {
+                        const applies = cap.roles.includes(role.baseRole);
+                        const locked = isLocked(role, cap.key);
+                        const checked = locked || (drafts[role.key] || []).includes(cap.key);
+                        return (
+                          <td key={role.key} className={`px-3 py-3 text-center ${applies ? "" : "bg-slate-50"}`}>
+                            {applies ? (
+                              <span className="inline-flex items-center gap-1" title={locked ? "Always granted" : undefined}>
+                                <Checkbox
+                                  checked={checked}
+                                  disabled={locked || saving}
+                                  onCheckedChange={(val) => toggleRoleCapability(role, cap.key, Boolean(val))}
+                                />
+                                {locked && <Lock className="w-3 h-3 text-slate-400" />}
+                              </span>
+                            ) : (
+                              <span className="text-slate-300">—</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </Fragment>
+              ))}
+              {loading && roles.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-4 py-6 text-center text-sm text-slate-500">
+                    <Loader2 className="inline w-4 h-4 mr-2 animate-spin" />
+                    Loading permissions...
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-6 rounded-md bg-slate-50 p-4">
+          <h3 className="text-sm font-medium text-slate-800">New custom role</h3>
+          <p className="mt-1 text-xs text-slate-500">
+            A bundle of extra capabilities for some admin or faculty accounts, e.g. a &quot;Head of
+            department&quot; who may override scores and manage batches.
+          </p>
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <Input
+              placeholder="Role name"
+              value={newRoleName}
+              onChange={(e) => setNewRoleName(e.target.value)}
+              className="w-56 bg-white"
+            />
+            <select
+              value={newRoleBase}
+              onChange={(e) => setNewRoleBase(e.target.value as "faculty" | "admin")}
+              className="px-3 py-2 border rounded text-sm bg-white"
+            >
+              <option value="faculty">For faculty</option>
+              <option value="admin">For admins</option>
+            </select>
+            <Input
+              placeholder="Description (optional)"
+              value={newRoleDescription}
+              onChange={(e) => setNewRoleDescription(e.target.value)}
+              className="flex-1 min-w-[200px] bg-white"
+            />
+            <Button size="sm" onClick={createRole} disabled={!newRoleName.trim()}>
+              <Plus className="w-4 h-4 mr-1" />
+              Create
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {/* Per-user assignments and overrides */}
+      <Card className="p-6">
+        <div>
+          <h2 className="text-sm font-semibold text-slate-800">Individual users</h2>
+          <p className="mt-1 text-xs text-slate-500">
+            Give a staff member custom roles, or grant or revoke single capabilities regardless
+            of their roles.
+          </p>
+        </div>
+
+        <div className="mt-4 grid gap-6 lg:grid-cols-[320px_1fr]">
+          <div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="Search name, email or ID"
+                value={userQuery}
+                onChange={(e) => setUserQuery(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && fetchUsers(userQuery)}
+              />
+              <Button variant="outline" size="sm" onClick={() => fetchUsers(userQuery)} disabled={usersLoading}>
+                {usersLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Search"}
+              </Button>
+            </div>
+            <div className="mt-3 max-h-[480px] overflow-y-auto rounded-md border border-slate-100">
+              {users.length === 0 && !usersLoading && (
+                <p className="px-4 py-6 text-center text-sm text-slate-500">No staff users found.</p>
+              )}
+              {users.map((u) => {
+                const customised =
+                  u.customRoles.length + u.permissions.granted.length + u.permissions.revoked.length > 0;
+                return (
+                  <button
+                    key={u._id}
+                    onClick={() => selectUser(u)}
+                    className={`block w-full border-b border-slate-100 px-4 py-3 text-left hover:bg-slate-50 ${
+                      selectedUser?._id === u._id ? "bg-slate-100" : ""
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium text-slate-800">{u.name}</span>
+                      <span className="text-xs text-slate-500">{ROLE_LABEL[u.role]}</span>
+                    </div>
+                    <div className="text-xs text-slate-500">{u.email}</div>
+                    {customised && <div className="mt-1 text-xs text-amber-700">Customised</div>}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            {!selectedUser ? (
+              <p className="text-sm text-slate-500">Select a user to edit their permissions.</p>
+            ) : (
+              <div className="space-y-4">
+                <div>
+                  <div className="text-sm font-medium text-slate-800">
+                    {selectedUser.name}{" "}
+                    <span className="font-normal text-slate-500">
+                      ({ROLE_LABEL[selectedUser.role]}{selectedUser.systemId ? ` · ${selectedUser.systemId}` : ""})
+                    </span>
+                  </div>
+                  <div className="text-xs text-slate-500">{selectedUser.email}</div>
+                </div>
+
+                <div>
+                  <h3 className="text-xs font-semibold uppercase tracking-wide text-slate-500">Custom roles</h3>
+                  {userCustomRoles.length === 0 ? (
+                    <p className="mt-1 text-sm text-slate-500">
+                      No custom roles exist for {ROLE_LABEL[selectedUser.role].toLowerCase()} accounts.
+                    </p>
+                  ) : (
+                    <div className="mt-2 flex flex-wrap gap-4">
+                      {userCustomRoles.map((role) => (
+                        <label key={role.key} className="inline-flex items-center gap-2 text-sm text-slate-700">
+                          <Checkbox
+                            checked={!!role._id && userRoles.includes(role._id)}
+                            onCheckedChange={(val) =>
+                              setUserRoles((prev) =>
+                                val ? [...prev, role._id as string] : prev.filter((id) => id !== role._id)
+                              )
+                            }
+                          />
+                          {role.name}
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="overflow-x-auto rounded-md border border-slate-100">
+                  <table className="w-full table-auto">
+                    <thead className="bg-slate-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-slate-600">Capability</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-slate-600">Override</th>
+                        <th className="px-4 py-2 text-center text-xs font-medium text-slate-600">Result</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {capabilities
+                        .filter((cap) => cap.roles.includes(selectedUser.role))
+                        .map((cap) => {
+                          const locked = (alwaysGranted[selectedUser.role] || []).includes(cap.key);
+                          const has = previewCapabilities.includes(cap.key);
+                          return (
+                            <tr key={cap.key} className="border-t border-slate-100">
+                              <td className="px-4 py-2 text-sm text-slate-800">{cap.label}</td>
+                              <td className="px-4 py-2">
+                                <select
+                                  value={userOverrides[cap.key] || "inherit"}
+                                  disabled={locked}
+                                  onChange={(e) =>
+                                    setUserOverrides((prev) => ({ ...prev, [cap.key]: e.target.value as Override }))
+                                  }
+                                  className="px-2 py-1 border rounded text-sm bg-white"
+                                >
+                                  <option value="inherit">From roles</option>
+                                  <option value="grant">Grant</option>
+                                  <option value="revoke">Revoke</option>
+                                </select>
+                              </td>
+                              <td className={`px-4 py-2 text-center text-sm ${has ? "text-emerald-700" : "text-slate-400"}`}>
+                                {has ? "Allowed" : "Denied"}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <Input
+                    placeholder="Reason (kept in the audit log)"
+                    value={userReason}
+                    onChange={(e) => setUserReason(e.target.value)}
+                    className="flex-1 min-w-[240px]"
+                  />
+                  <Button size="sm" onClick={saveUser} disabled={userSaving}>
+                    {userSaving ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Save className="w-4 h-4 mr-1" />}
+                    Save user
+                  </Button>
+                </div>
+                {userError && <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">{userError}</div>}
+              </div>
+            )}
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+}
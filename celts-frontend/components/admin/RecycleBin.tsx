@@ -0,0 +1,182 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { RefreshCcw, RotateCcw, Trash2 } from "lucide-react";
+import api from "@/lib/api";
+
+type ItemType = "user" | "batch" | "test";
+
+interface DeletedItem {
+    type: ItemType;
+    _id: string;
+    label: string;
+    role?: string;
+    deletedAt: string;
+    deletedBy: string | null;
+    purgeAfter: string;
+    impact: { counts: Record<string, number>; summary: string[] };
+}
+
+const TYPE_LABELS: Record<ItemType, string> = { user: "User", batch: "Batch", test: "Test" };
+
+export function RecycleBin() {
+    const [items, setItems] = useState<DeletedItem[]>([]);
+    const [retentionDays, setRetentionDays] = useState<number | null>(null);
+    const [typeFilter, setTypeFilter] = useState<"" | ItemType>("");
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetchItems();
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [typeFilter]);
+
+    async function fetchItems() {
+        setLoading(true);
+        setError(null);
+        const res = await api.apiGet(`/admin/recycle-bin${typeFilter ? `?type=${typeFilter}` : ""}`);
+        setLoading(false);
+        if (!res.ok) {
+            setError(res.error?.message || "Failed to load the recycle bin");
+            return;
+        }
+        setItems(res.data?.items || []);
+        setRetentionDays(res.data?.retentionDays ?? null);
+    }
+
+    async function restoreItem(item: DeletedItem) {
+        setBusyId(item._id);
+        setMessage(null);
+        const res = await api.apiPost(`/admin/recycle-bin/${item.type}/${item._id}/restore`, {});
+        setBusyId(null);
+        if (!res.ok) {
+            setMessage(res.error?.message || "Failed to restore");
+            return;
+        }
+        setMessage(res.data?.message || "Restored");
+        fetchItems();
+    }
+
+    async function purgeItem(item: DeletedItem) {
+        const lines = [`Permanently delete ${item.label}?`];
+        if (item.impact.summary.length) lines.push("", ...item.impact.summary);
+        lines.push("", "Everything attached to it is deleted too. This cannot be undone.");
+        if (!confirm(lines.join("\n"))) return;
+
+        setBusyId(item._id);
+        setMessage(null);
+        const res = await api.apiDelete(`/admin/recycle-bin/${item.type}/${item._id}`);
+        setBusyId(null);
+        if (!res.ok) {
+            setMessage(res.error?.message || "Failed to delete");
+            return;
+        }
+        setMessage(res.data?.message || "Deleted");
+        fetchItems();
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold mb-2">Recycle Bin</h1>
+                    <p className="text-muted-foreground text-sm">
+                        Deleted users, batches and tests. Their submissions and logs are kept until they are
+                        purged{retentionDays !== null ? `, automatically after ${retentionDays} days` : ""}.
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <select
+                        className="px-3 py-2 border rounded text-sm bg-white"
+                        value={typeFilter}
+                        onChange={(e) => setTypeFilter(e.target.value as "" | ItemType)}
+                    >
+                        <option value="">All types</option>
+                        <option value="user">Users</option>
+                        <option value="batch">Batches</option>
+                        <option value="test">Tests</option>
+                    </select>
+                    <Button variant="outline" onClick={fetchItems} disabled={loading}>
+                        <RefreshCcw className="w-4 h-4 mr-2" /> Refresh
+                    </Button>
+                </div>
+            </div>
+
+            {error && <div className="text-sm text-red-600">{error}</div>}
+            {message && <div className="text-sm text-muted-foreground">{message}</div>}
+
+            <Card className="overflow-x-auto">
+                <table className="w-full border-collapse">
+                    <thead className="bg-gray-100 border-b">
+                        <tr>
+                            <th className="p-3 text-left text-sm font-semibold">Item</th>
+                            <th className="p-3 text-left text-sm font-semibold">Deleted</th>
+                            <th className="p-3 text-left text-sm font-semibold">Purged after</th>
+                            <th className="p-3 text-left text-sm font-semibold">Attached records</th>
+                            <th className="p-3 text-left text-sm font-semibold">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {loading ? (
+                            <tr>
+                                <td colSpan={5} className="p-4 text-center text-sm">Loading...</td>
+                            </tr>
+                        ) : items.length === 0 ? (
+                            <tr>
+                                <td colSpan={5} className="p-4 text-center text-sm">The recycle bin is empty.</td>
+                            </tr>
+                        ) : (
+                            items.map((item) => (
+                                <tr key={`${item.type}-${item._id}`} className="border-b align-top">
+                                    <td className="p-3 text-sm">
+                                        <span className="mr-2 px-2 py-0.5 rounded-full text-xs bg-slate-200 text-slate-700">
+                                            {item.role || TYPE_LABELS[item.type]}
+                                        </span>
+                                        {item.label}
+                                    </td>
+                                    <td className="p-3 text-sm">
+                                        {new Date(item.deletedAt).toLocaleString()}
+                                        {item.deletedBy && (
+                                            <div className="text-xs text-muted-foreground">by {item.deletedBy}</div>
+                                        )}
+                                    </td>
+                                    <td className="p-3 text-sm">{new Date(item.purgeAfter).toLocaleDateString()}</td>
+                                    <td className="p-3 text-xs text-muted-foreground">
+                                        {item.impact.summary.length
+                                            ? item.impact.summary.map((line) => <div key={line}>{line}</div>)
+                                            : "None"}
+                                    </td>
+                                    <td className="p-3 text-sm">
+                                        <div className="flex gap-2">
+                                            <Button
+                                                size="sm"
+                                                variant="outline"
+                                                disabled={busyId === item._id}
+                                                onClick={() => restoreItem(item)}
+                                            >
+                                                <RotateCcw className="w-4 h-4 mr-1" /> Restore
+                                            </Button>
+                                            <Button
+                                                size="sm"
+                                                variant="destructive"
+                                                disabled={busyId === item._id}
+                                                onClick={() => purgeItem(item)}
+                                                title="Delete permanently"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </Button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,355 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Archive, ArchiveRestore, ArrowRightLeft, Plus, Trash2 } from "lucide-react";
+import api from "@/lib/api";
+
+export interface Term {
+  _id: string;
+  name: string;
+  startDate?: string | null;
+  endDate?: string | null;
+  status: "active" | "archived";
+  promotedTo?: { _id: string; name: string } | null;
+  batchCount: number;
+  studentCount: number;
+}
+
+interface TermBatch {
+  _id: string;
+  name: string;
+  students?: any[];
+}
+
+// "" = don't promote (e.g. graduating), "new" = create a batch, otherwise a target batch id
+type Mapping = { target: string; newName: string };
+
+const formatDate = (d?: string | null) => (d ? new Date(d).toLocaleDateString() : "—");
+
+export function TermManagement({ onChanged }: { onChanged: () => void }) {
+  const [terms, setTerms] = useState<Term[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [createError, setCreateError] = useState<string | null>(null);
+
+  const [promoteSource, setPromoteSource] = useState<Term | null>(null);
+  const [targetTermId, setTargetTermId] = useState("");
+  const [sourceBatches, setSourceBatches] = useState<TermBatch[]>([]);
+  const [targetBatches, setTargetBatches] = useState<TermBatch[]>([]);
+  const [mappings, setMappings] = useState<Record<string, Mapping>>({});
+  const [promoting, setPromoting] = useState(false);
+  const [promoteError, setPromoteError] = useState<string | null>(null);
+
+  const fetchTerms = useCallback(async () => {
+    setLoading(true);
+    const res = await api.apiGet(`/admin/terms${showArchived ? "?includeArchived=true" : ""}`);
+    setLoading(false);
+    setTerms(res.ok && Array.isArray(res.data) ? res.data : []);
+  }, [showArchived]);
+
+  useEffect(() => {
+    fetchTerms();
+  }, [fetchTerms]);
+
+  const refresh = async () => {
+    await fetchTerms();
+    onChanged();
+  };
+
+  const handleCreate = async () => {
+    setCreateError(null);
+    if (!name.trim()) {
+      setCreateError("Term name is required");
+      return;
+    }
+    const res = await api.apiPost("/admin/terms", {
+      name: name.trim(),
+      startDate: startDate || null,
+      endDate: endDate || null,
+    });
+    if (!res.ok) {
+      setCreateError(res.error?.message || "Failed to create term");
+      return;
+    }
+    setIsCreateOpen(false);
+    setName("");
+    setStartDate("");
+    setEndDate("");
+    await refresh();
+  };
+
+  const handleArchive = async (term: Term) => {
+    if (!confirm(`Archive "${term.name}"? Its ${term.batchCount} batch(es) become read-only and are hidden from lists.`)) return;
+    const res = await api.apiPost(`/admin/terms/${term._id}/archive`, {});
+    setMessage(res.ok ? res.data?.message : res.error?.message || "Failed to archive term");
+    await refresh();
+  };
+
+  const handleUnarchive = async (term: Term) => {
+    const res = await api.apiPost(`/admin/terms/${term._id}/unarchive`, {});
+    setMessage(res.ok ? res.data?.message : res.error?.message || "Failed to reopen term");
+    await refresh();
+  };
+
+  const handleDelete = async (term: Term) => {
+    if (!confirm(`Delete the term "${term.name}"?`)) return;
+    const res = await api.apiDelete(`/admin/terms/${term._id}`);
+    setMessage(res.ok ? "Term deleted" : res.error?.message || "Failed to delete term");
+    await refresh();
+  };
+
+  const openPromote = async (term: Term) => {
+    setPromoteSource(term);
+    setTargetTermId("");
+    setTargetBatches([]);
+    setPromoteError(null);
+    const res = await api.apiGet(`/admin/batches?term=${term._id}&includeArchived=true`);
+    const list: TermBatch[] = res.ok && Array.isArray(res.data) ? res.data : [];
+    setSourceBatches(list);
+    setMappings(Object.fromEntries(list.map((b) => [b._id, { target: "", newName: "" }])));
+  };
+
+  const chooseTargetTerm = async (termId: string) => {
+    setTargetTermId(termId);
+    setTargetBatches([]);
+    if (!termId) return;
+    const res = await api.apiGet(`/admin/batches?term=${termId}`);
+    setTargetBatches(res.ok && Array.isArray(res.data) ? res.data : []);
+  };
+
+  const setMapping = (batchId: string, patch: Partial<Mapping>) =>
+    setMappings((prev) => ({ ...prev, [batchId]: { ...prev[batchId], ...patch } }));
+
+  const handlePromote = async () => {
+    if (!promoteSource) return;
+    setPromoteError(null);
+    const payload = Object.entries(mappings)
+      .filter(([, m]) => m.target)
+      .map(([from, m]) => (m.target === "new" ? { from, newName: m.newName.trim() } : { from, to: m.target }));
+    if (!targetTermId) {
+      setPromoteError("Choose the term to promote into.");
+      return;
+    }
+    if (payload.length === 0) {
+      setPromoteError("Choose a target for at least one batch.");
+      return;
+    }
+    setPromoting(true);
+    const res = await api.apiPost(`/admin/terms/${promoteSource._id}/promote`, {
+      targetTerm: targetTermId,
+      mappings: payload,
+    });
+    setPromoting(false);
+    if (!res.ok) {
+      setPromoteError(res.error?.message || "Promotion failed");
+      return;
+    }
+    const skipped = (res.data.batches || []).reduce((n: number, b: any) => n + (b.skipped?.length || 0), 0);
+    setMessage(
+      `${res.data.message}. ${res.data.notPromoted} student(s) left without a batch` +
+        (skipped ? `, ${skipped} skipped because they were already in another active batch.` : ".")
+    );
+    setPromoteSource(null);
+    await refresh();
+  };
+
+  const targetTerms = terms.filter((t) => t.status === "active" && t._id !== promoteSource?._id);
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Academic Terms</h2>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+            Show archived
+          </label>
+          <Button size="sm" onClick={() => setIsCreateOpen(true)}>
+            <Plus className="w-4 h-4 mr-1" /> New Term
+          </Button>
+        </div>
+      </div>
+
+      {message && <div className="text-sm text-slate-700">{message}</div>}
+
+      <table className="w-full text-sm">
+        <thead className="bg-gray-100 border-b">
+          <tr>
+            <th className="p-2 text-left">Term</th>
+            <th className="p-2 text-left">Dates</th>
+            <th className="p-2 text-left">Batches</th>
+            <th className="p-2 text-left">Students</th>
+            <th className="p-2 text-left">Status</th>
+            <th className="p-2 text-left">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {loading ? (
+            <tr><td colSpan={6} className="p-3 text-center">Loading...</td></tr>
+          ) : terms.length === 0 ? (
+            <tr><td colSpan={6} className="p-3 text-center">No terms yet.</td></tr>
+          ) : (
+            terms.map((t) => (
+              <tr key={t._id} className="border-b">
+                <td className="p-2 font-medium">{t.name}</td>
+                <td className="p-2">{formatDate(t.startDate)} – {formatDate(t.endDate)}</td>
+                <td className="p-2">{t.batchCount}</td>
+                <td className="p-2">{t.studentCount}</td>
+                <td className="p-2">
+                  {t.status === "archived" ? (
+                    <span className="px-2 py-0.5 rounded-full text-xs bg-slate-200 text-slate-700">
+                      archived{t.promotedTo ? ` · promoted to ${t.promotedTo.name}` : ""}
+                    </span>
+                  ) : (
+                    <span className="px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">active</span>
+                  )}
+                </td>
+                <td className="p-2 flex gap-2">
+                  {!t.promotedTo && (
+                    <Button size="sm" variant="outline" onClick={() => openPromote(t)} title="Promote students">
+                      <ArrowRightLeft className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {t.status === "active" ? (
+                    <Button size="sm" variant="outline" onClick={() => handleArchive(t)} title="Archive term">
+                      <Archive className="w-4 h-4" />
+                    </Button>
+                  ) : (
+                    !t.promotedTo && (
+                      <Button size="sm" variant="outline" onClick={() => handleUnarchive(t)} title="Reopen term">
+                        <ArchiveRestore className="w-4 h-4" />
+                      </Button>
+                    )
+                  )}
+                  {t.batchCount === 0 && (
+                    <Button size="sm" variant="destructive" onClick={() => handleDelete(t)} title="Delete term">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+
+      {/* CREATE TERM */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Academic Term</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3 py-2">
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Term name, e.g. 2025-26" />
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-sm block mb-1">Starts</label>
+                <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div>
+                <label className="text-sm block mb-1">Ends</label>
+                <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </div>
+            {createError && <p className="text-sm text-red-600">{createError}</p>}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>Cancel</Button>
+            <Button onClick={handleCreate}>Create</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* PROMOTE */}
+      <Dialog open={!!promoteSource} onOpenChange={(open) => !open && setPromoteSource(null)}>
+        <DialogContent className="sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Promote students of {promoteSource?.name}</DialogTitle>
+            <DialogDescription>
+              Students move into the chosen batches and {promoteSource?.name} is archived. Their results so far stay
+              recorded against their current batch. Batches left on &quot;Don&apos;t promote&quot; are archived with their students.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3 py-2">
+            <div>
+              <label className="text-sm block mb-1">Promote into term</label>
+              <select
+                className="px-3 py-2 border rounded text-sm bg-white w-full"
+                value={targetTermId}
+                onChange={(e) => chooseTargetTerm(e.target.value)}
+              >
+                <option value="">-- Select term --</option>
+                {targetTerms.map((t) => (
+                  <option key={t._id} value={t._id}>{t.name}</option>
+                ))}
+              </select>
+            </div>
+
+            {sourceBatches.length === 0 ? (
+              <div className="text-sm text-muted-foreground">This term has no batches.</div>
+            ) : (
+              <div className="space-y-2">
+                {sourceBatches.map((b) => {
+                  const m = mappings[b._id] || { target: "", newName: "" };
+                  return (
+                    <div key={b._id} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center">
+                      <div className="text-sm">
+                        <span className="font-medium">{b.name}</span>
+                        <span className="text-muted-foreground"> · {b.students?.length || 0} students</span>
+                      </div>
+                      <select
+                        className="px-3 py-2 border rounded text-sm bg-white"
+                        value={m.target}
+                        onChange={(e) => setMapping(b._id, { target: e.target.value })}
+                        disabled={!targetTermId}
+                      >
+                        <option value="">Don&apos;t promote</option>
+                        <option value="new">Create new batch…</option>
+                        {targetBatches.map((tb) => (
+                          <option key={tb._id} value={tb._id}>{tb.name}</option>
+                        ))}
+                      </select>
+                      {m.target === "new" && (
+                        <Input
+                          value={m.newName}
+                          onChange={(e) => setMapping(b._id, { newName: e.target.value })}
+                          placeholder="New batch name"
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            {promoteError && <p className="text-sm text-red-600">{promoteError}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPromoteSource(null)}>Cancel</Button>
+            <Button onClick={handlePromote} disabled={promoting}>
+              {promoting ? "Promoting..." : "Promote and archive"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -13,8 +13,12 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { Plus, Edit2, Trash2, Lock } from "lucide-react";
+import { Plus, Edit2, Trash2, Lock, UserX, UserCheck, Shield, ShieldCheck, ShieldOff } from "lucide-react";
 import api from "@/lib/api";
+import { confirmSoftDelete } from "@/lib/recycleBin";
+import { Invitations } from "./Invitations";
+import { BulkUserImport } from "./BulkUserImport";
+import { PasswordRules } from "@/components/common/PasswordRules";
 
 interface User {
   id: string;
@@ -24,6 +28,8 @@ interface User {
   role: "admin" | "faculty" | "student";
   status: "active" | "inactive";
   joinDate: string;
+  twoFactorEnabled?: boolean;
+  twoFactorRequired?: boolean;
 }
 
 function normalizeStatus(s: any): "active" | "inactive" {
@@ -53,9 +59,6 @@ export function UserManagement() {
   const [addLoading, setAddLoading] = useState(false);
   const [addMessage, setAddMessage] = useState<string | null>(null);
 
-  const [bulkMessage, setBulkMessage] = useState<string | null>(null);
-  const [bulkLoading, setBulkLoading] = useState(false);
-
   const [isPasswordDialogOpen, setIsPasswordDialogOpen] = useState(false);
   const [passwordUser, setPasswordUser] = useState<User | null>(null);
   const [newPassword, setNewPassword] = useState("");
@@ -80,6 +83,8 @@ export function UserManagement() {
           joinDate: u.createdAt
             ? new Date(u.createdAt).toISOString().slice(0, 10)
             : new Date().toISOString().slice(0, 10),
+          twoFactorEnabled: !!u.twoFactor?.enabled,
+          twoFactorRequired: !!u.twoFactor?.required,
         }));
         setUsers(data);
       } else {
@@ -139,8 +144,8 @@ export function UserManagement() {
     if (!passwordUser) return;
 
     setPasswordMessage(null);
-    if (!newPassword || newPassword.length < 4) {
-      setPasswordMessage("Password must be at least 4 characters.");
+    if (!newPassword) {
+      setPasswordMessage("Enter a new password.");
       return;
     }
     if (newPassword !== confirmPassword) {
@@ -174,6 +179,20 @@ export function UserManagement() {
     }
   };
 
+  const handleSendResetLink = async () => {
+    if (!passwordUser) return;
+    setPasswordMessage(null);
+    setPasswordLoading(true);
+    const res = await api.apiPost(`/admin/users/${passwordUser.id}/password-reset-link`, {});
+    setPasswordLoading(false);
+    if (!res.ok) {
+      setPasswordMessage(res.error?.message || "Failed to send reset link.");
+      return;
+    }
+    alert(`A password reset link was emailed to ${passwordUser.email}.`);
+    setIsPasswordDialogOpen(false);
+  };
+
   const handleSaveEdit = async () => {
     if (!editingUser) return;
     const id = editingUser.id;
@@ -221,10 +240,8 @@ export function UserManagement() {
     }
   };
 
-  const handleDeleteUser = async (userId: string) => {
-    const ok = confirm(
-      "Are you sure you want to delete this user? This action cannot be undone."
-    );
+  const handleDeleteUser = async (userId: string, name: string) => {
+    const ok = await confirmSoftDelete(`the account of ${name}`, `/admin/users/${userId}/impact`);
     if (!ok) return;
 
     try {
@@ -241,12 +258,52 @@ export function UserManagement() {
       }
 
       setUsers((prev) => prev.filter((u) => u.id !== userId));
-      alert("User deleted successfully.");
+      alert("User moved to the recycle bin.");
     } catch (err) {
       alert("Network error while deleting user.");
     }
   };
 
+  const handleToggleActive = async (user: User) => {
+    const deactivate = user.status === "active";
+    if (deactivate && !confirm(`Deactivate ${user.name}? They will be signed out everywhere.`)) return;
+
+    const res = await api.apiPatch(`/admin/users/${user.id}/status`, { isActive: !deactivate });
+    if (!res.ok) {
+      alert(res.error?.message || "Failed to update user status.");
+      return;
+    }
+    setUsers((prev) =>
+      prev.map((u) => (u.id === user.id ? { ...u, status: deactivate ? "inactive" : "active" } : u))
+    );
+  };
+
+  const handleResetTwoFactor = async (user: User) => {
+    const reason = prompt(`Reset two-factor authentication for ${user.name}? They will be signed out and must enrol again.\n\nReason (recorded in the audit log):`);
+    if (reason === null) return;
+    if (!reason.trim()) {
+      alert("A reason is required.");
+      return;
+    }
+    const res = await api.apiPost(`/admin/users/${user.id}/2fa/reset`, { reason });
+    if (!res.ok) {
+      alert(res.error?.message || "Failed to reset two-factor authentication.");
+      return;
+    }
+    setUsers((prev) => prev.map((u) => (u.id === user.id ? { ...u, twoFactorEnabled: false } : u)));
+  };
+
+  const handleToggleTwoFactorRequired = async (user: User) => {
+    const res = await api.apiPatch(`/admin/users/${user.id}/2fa/required`, { required: !user.twoFactorRequired });
+    if (!res.ok) {
+      alert(res.error?.message || "Failed to update two-factor requirement.");
+      return;
+    }
+    setUsers((prev) =>
+      prev.map((u) => (u.id === user.id ? { ...u, twoFactorRequired: !user.twoFactorRequired } : u))
+    );
+  };
+
   const openAddDialog = () => {
     setNewName("");
     setNewEmail("");
@@ -272,7 +329,9 @@ export function UserManagement() {
         password: newIdValue,
         role: newRole,
       };
-      if (newRole === "faculty") payload.canEditScores = newCanEditScores;
+      if (newRole === "faculty" && newCanEditScores) {
+        payload.permissions = { granted: ["scores.override"] };
+      }
 
       const res = await api.apiPost("/admin/users", payload);
       setAddLoading(false);
@@ -305,92 +364,6 @@ export function UserManagement() {
     }
   };
 
-  async function handleBulkFileChange(
-    e: React.ChangeEvent<HTMLInputElement>
-  ) {
-    setBulkMessage(null);
-    const file = e.target.files?.[0];
-    if (!file) return;
-    setBulkLoading(true);
-    try {
-      const text = await file.text();
-      const lines = text.split(/\r?\n/).filter(Boolean);
-      if (lines.length < 2) {
-        setBulkMessage("CSV seems empty or missing rows.");
-        setBulkLoading(false);
-        return;
-      }
-
-      const headers = lines[0].split(",").map((h) => h.trim());
-      const rows = lines.slice(1);
-      const arr: any[] = rows.map((r) => {
-        const cols = r.split(",");
-        const obj: any = {};
-        headers.forEach((h, i) => {
-          obj[h] = (cols[i] || "").trim();
-        });
-        return obj;
-      });
-
-      const payload: any[] = arr.map((r) => {
-        const roleRaw = (r.role || "").toLowerCase();
-        const role: "student" | "faculty" =
-          roleRaw === "faculty" ? "faculty" : "student";
-
-        const base: any = {
-          name: r.name,
-          email: r.email,
-          systemId: r.systemId || r.system_id || "",
-          role,
-        };
-
-        let password = r.password || r.pass || r.pwd || "";
-        if (!password) {
-          if (role === "student") {
-            password = r.rollNo || r.roll_no || r.roll || base.systemId;
-          } else {
-            password =
-              r.employeeId || r.employee_id || r.empId || base.systemId;
-          }
-        }
-
-        base.password = password;
-
-        if (role === "faculty") {
-          base.canEditScores =
-            String(r.canEditScores || "").toLowerCase().trim() === "true";
-        }
-
-        return base;
-      });
-
-      const res = await api.apiPost("/admin/bulk/users", payload);
-      setBulkLoading(false);
-      if (!res.ok) {
-        setBulkMessage(res.error?.message || "Bulk upload failed");
-        return;
-      }
-
-      const appended: User[] = payload.map((p: any) => ({
-        id: String(Math.random()),
-        name: p.name || "",
-        email: p.email || "",
-        systemId: p.systemId || "",
-        role: (p.role || "student") as any,
-        status: normalizeStatus(p.status ?? "active"),
-        joinDate: new Date().toISOString().slice(0, 10),
-      }));
-
-      setUsers((prev) => [...appended, ...prev]);
-      setBulkMessage(
-        `Bulk upload successful (${payload.length} records).`
-      );
-    } catch (err) {
-      setBulkLoading(false);
-      setBulkMessage("Failed to read or parse file.");
-    }
-  }
-
   const renderTable = (title: string, list: User[], search: string, setSearch: any) => (
     <Card className="overflow-hidden">
       <div className="flex justify-between items-center px-6 py-3 border-b bg-muted">
@@ -432,7 +405,15 @@ export function UserManagement() {
             ) : (
               list.map((user) => (
                 <tr key={user.id} className="border-b hover:bg-muted/30">
-                  <td className="px-6 py-4 text-sm">{user.name}</td>
+                  <td className="px-6 py-4 text-sm">
+                    {user.name}
+                    {user.status === "inactive" && (
+                      <span className="ml-2 text-xs text-red-600">(deactivated)</span>
+                    )}
+                    {user.twoFactorEnabled && (
+                      <span className="ml-2 text-xs text-green-700">(2FA)</span>
+                    )}
+                  </td>
                   <td className="px-6 py-4 text-sm text-muted-foreground">{user.email}</td>
                   <td className="px-6 py-4 text-sm">{user.systemId}</td>
                   <td className="px-6 py-4 text-sm capitalize">{user.role}</td>
@@ -445,7 +426,30 @@ export function UserManagement() {
                       <Button variant="ghost" size="sm" onClick={() => openPasswordDialog(user)}>
                         <Lock className="w-4 h-4" />
                       </Button>
-                      <Button variant="ghost" size="sm" onClick={() => handleDeleteUser(user.id)}>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title={user.status === "active" ? "Deactivate" : "Reactivate"}
+                        onClick={() => handleToggleActive(user)}
+                      >
+                        {user.status === "active" ? <UserX className="w-4 h-4" /> : <UserCheck className="w-4 h-4" />}
+                      </Button>
+                      {user.role !== "student" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title={user.twoFactorRequired ? "2FA required (click to make optional)" : "2FA optional (click to require)"}
+                          onClick={() => handleToggleTwoFactorRequired(user)}
+                        >
+                          {user.twoFactorRequired ? <ShieldCheck className="w-4 h-4 text-green-700" /> : <Shield className="w-4 h-4" />}
+                        </Button>
+                      )}
+                      {user.twoFactorEnabled && (
+                        <Button variant="ghost" size="sm" title="Reset 2FA" onClick={() => handleResetTwoFactor(user)}>
+                          <ShieldOff className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteUser(user.id, user.name)}>
                         <Trash2 className="w-4 h-4" />
                       </Button>
                     </div>
@@ -547,12 +551,7 @@ export function UserManagement() {
           </DialogContent>
         </Dialog>
 
-        <div className="flex items-center gap-2">
-          <label className="cursor-pointer inline-flex px-3 py-2 border rounded">
-            <input type="file" accept=".csv" onChange={handleBulkFileChange} className="hidden" />
-            <span className="text-sm">Upload CSV</span>
-          </label>
-        </div>
+        <BulkUserImport onImported={fetchUsers} />
       </div>
 
       {/* TABLES */}
@@ -560,8 +559,7 @@ export function UserManagement() {
       {renderTable("Faculty", facultyUsers, facultySearch, setFacultySearch)}
       {renderTable("Students", studentUsers, studentSearch, setStudentSearch)}
 
-      {bulkLoading && <div className="text-sm">Uploading CSV...</div>}
-      {bulkMessage && <div className="text-sm text-green-700">{bulkMessage}</div>}
+      <Invitations />
 
       {/* Edit User Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
@@ -643,7 +641,9 @@ export function UserManagement() {
             <DialogTitle>
               Change Password {passwordUser ? `for ${passwordUser.name}` : ""}
             </DialogTitle>
-            <DialogDescription>Update user password</DialogDescription>
+            <DialogDescription>
+              Set a temporary password the user must change at their next login, or email them a reset link.
+            </DialogDescription>
           </DialogHeader>
 
           <div className="space-y-4 py-4">
@@ -654,6 +654,9 @@ export function UserManagement() {
                 value={newPassword}
                 onChange={(e) => setNewPassword(e.target.value)}
               />
+              <div className="mt-2">
+                <PasswordRules />
+              </div>
             </div>
 
             <div>
@@ -674,6 +677,9 @@ export function UserManagement() {
             <Button variant="outline" onClick={() => setIsPasswordDialogOpen(false)}>
               Cancel
             </Button>
+            <Button variant="outline" onClick={handleSendResetLink} disabled={passwordLoading}>
+              Email Reset Link
+            </Button>
             <Button onClick={handleChangePassword} disabled={passwordLoading}>
               {passwordLoading ? "Updating..." : "Update Password"}
             </Button>
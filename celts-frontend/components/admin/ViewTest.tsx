@@ -14,6 +14,7 @@ import {
   Shield,
 } from "lucide-react";
 import api from "@/lib/api";
+import { RichText } from "@/components/RichText";
 import { useRouter } from "next/navigation";
 import {
   Select,
@@ -30,7 +31,16 @@ type Option = {
   text: string;
 };
 
-type QuestionType = "mcq" | "writing" | "speaking";
+type QuestionType =
+  | "mcq"
+  | "multi_select"
+  | "tfng"
+  | "matching_headings"
+  | "map_labelling"
+  | "gap_fill"
+  | "sentence_completion"
+  | "writing"
+  | "speaking";
 
 interface Question {
   _id?: string;
@@ -38,6 +48,8 @@ interface Question {
   prompt: string;
   options?: Option[];
   correctIndex?: number;
+  correctIndexes?: number[];
+  acceptedAnswers?: string[];
 
   // sections for reading/listening
   sectionId?: string | null;
@@ -484,9 +496,10 @@ function ReadingView({ test }: { test: TestSet }) {
                 Passage {idx + 1}
                 {sec.title ? ` — ${sec.title}` : ""}
               </h3>
-              <div className="border rounded p-3 bg-muted/30 max-h-64 overflow-auto text-sm whitespace-pre-wrap">
-                {sec.passage}
-              </div>
+              <RichText
+                text={sec.passage}
+                className="border rounded p-3 bg-muted/30 max-h-64 overflow-auto text-sm"
+              />
             </Card>
 
             {/* Questions for THIS passage */}
@@ -627,9 +640,7 @@ function QuestionCard({ q, index }: { q: Question; index: number }) {
           <p className="text-xs uppercase tracking-wide text-muted-foreground mb-1">
             Q{index + 1} • {q.questionType.toUpperCase()}
           </p>
-          <p className="text-sm font-medium whitespace-pre-wrap">
-            {q.prompt}
-          </p>
+          <RichText text={q.prompt} className="text-sm font-medium" />
         </div>
         <div className="text-right text-[11px] text-muted-foreground">
           {typeof q.marks === "number" && (
@@ -639,11 +650,13 @@ function QuestionCard({ q, index }: { q: Question; index: number }) {
         </div>
       </div>
 
-      {q.questionType === "mcq" && q.options && q.options.length > 0 && (
+      {q.questionType !== "writing" && q.questionType !== "speaking" && q.options && q.options.length > 0 && (
         <div className="mt-2 space-y-1">
           {q.options.map((opt, i) => {
             const isCorrect =
-              typeof q.correctIndex === "number" && q.correctIndex === i;
+              q.questionType === "multi_select"
+                ? (q.correctIndexes || []).includes(i)
+                : typeof q.correctIndex === "number" && q.correctIndex === i;
             return (
               <div
                 key={i}
@@ -668,6 +681,14 @@ function QuestionCard({ q, index }: { q: Question; index: number }) {
         </div>
       )}
 
+      {(q.questionType === "gap_fill" || q.questionType === "sentence_completion") && (
+        <div className="mt-1 text-xs text-muted-foreground">
+          Accepted answers:{" "}
+          <span className="font-medium">{(q.acceptedAnswers || []).join(" / ") || "—"}</span>
+          {q.wordLimit ? ` · max ${q.wordLimit} word(s)` : ""}
+        </div>
+      )}
+
       {q.questionType === "writing" && (
         <div className="mt-1 text-xs text-muted-foreground space-y-1">
           {q.writingType && (
@@ -0,0 +1,83 @@
+"use client";
+
+import { Progress } from "@/components/ui/progress";
+
+type NullableNumber = number | null | undefined;
+
+export type CriteriaBands = Record<string, NullableNumber>;
+
+export const WRITING_CRITERIA = [
+  { key: "taskAchievement", label: "Task Achievement / Response", source: "task_response" },
+  { key: "coherenceCohesion", label: "Coherence & Cohesion", source: "cohesion_coherence" },
+  { key: "lexicalResource", label: "Lexical Resource", source: "lexical_resource" },
+  { key: "grammaticalRange", label: "Grammatical Range & Accuracy", source: "grammatical_range_accuracy" },
+];
+
+export const SPEAKING_CRITERIA = [
+  { key: "fluencyCoherence", label: "Fluency & Coherence", source: "fluency_coherence" },
+  { key: "lexicalResource", label: "Lexical Resource", source: "lexical_resource" },
+  { key: "grammaticalRange", label: "Grammatical Range & Accuracy", source: "grammatical_range_accuracy" },
+  { key: "pronunciation", label: "Pronunciation", source: "pronunciation" },
+];
+
+export function criteriaFor(skill?: string) {
+  return skill === "speaking" ? SPEAKING_CRITERIA : WRITING_CRITERIA;
+}
+
+export function hasCriteriaBands(bands?: CriteriaBands | null): bands is CriteriaBands {
+  return !!bands && Object.values(bands).some((v) => typeof v === "number");
+}
+
+/** Key of the lowest-scoring criterion, or null when fewer than two are known. */
+export function weakestCriterion(skill: string | undefined, bands?: CriteriaBands | null): string | null {
+  if (!bands) return null;
+  const known = criteriaFor(skill).filter((c) => typeof bands[c.key] === "number");
+  if (known.length < 2) return null;
+  const lowest = known.reduce((min, c) => ((bands[c.key] as number) < (bands[min.key] as number) ? c : min));
+  const allEqual = known.every((c) => bands[c.key] === bands[lowest.key]);
+  return allEqual ? null : lowest.key;
+}
+
+interface CriteriaBreakdownProps {
+  skill?: string;
+  bands?: CriteriaBands | null;
+  // raw criteria_breakdown from the AI evaluation, used for per-criterion feedback
+  feedback?: Record<string, any> | null;
+  compact?: boolean;
+}
+
+export function CriteriaBreakdown({ skill, bands, feedback, compact = false }: CriteriaBreakdownProps) {
+  if (!hasCriteriaBands(bands)) return null;
+  const criteria = criteriaFor(skill);
+
+  const weakest = weakestCriterion(skill, bands);
+
+  return (
+    <div className={compact ? "space-y-2" : "space-y-3"}>
+      {criteria.map((c) => {
+        const band = bands[c.key];
+        const isWeakest = c.key === weakest;
+        const note = feedback?.[c.source]?.feedback;
+
+        return (
+          <div key={c.key}>
+            <div className="flex items-center justify-between text-sm">
+              <span className={isWeakest ? "font-semibold text-rose-600" : "text-slate-700"}>
+                {c.label}
+                {isWeakest && <span className="ml-2 text-xs font-normal">(holding the band down)</span>}
+              </span>
+              <span className="font-semibold">{typeof band === "number" ? band.toFixed(1) : "—"}</span>
+            </div>
+            <Progress
+              value={typeof band === "number" ? (band / 9) * 100 : 0}
+              className={isWeakest ? "bg-rose-100 [&>[data-slot=progress-indicator]]:bg-rose-500" : undefined}
+            />
+            {!compact && typeof note === "string" && note && (
+              <p className="text-xs text-muted-foreground mt-1">{note}</p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import api from "@/lib/api";
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireDigit: boolean;
+  requireSymbol: boolean;
+}
+
+export function describePolicy(policy: PasswordPolicy): string[] {
+  const rules = [`At least ${policy.minLength} characters`];
+  if (policy.requireUppercase) rules.push("An uppercase letter");
+  if (policy.requireLowercase) rules.push("A lowercase letter");
+  if (policy.requireDigit) rules.push("A digit");
+  if (policy.requireSymbol) rules.push("A symbol");
+  rules.push("Must not contain your email name or ID");
+  return rules;
+}
+
+// The server's password rules, fetched once per mount. The server still has the final say.
+export function PasswordRules() {
+  const [policy, setPolicy] = useState<PasswordPolicy | null>(null);
+
+  useEffect(() => {
+    api.apiGet("/auth/password-policy").then((res) => {
+      if (res.ok) setPolicy(res.data);
+    });
+  }, []);
+
+  if (!policy) return null;
+  return (
+    <ul className="text-xs text-muted-foreground list-disc pl-5 space-y-0.5">
+      {describePolicy(policy).map((rule) => (
+        <li key={rule}>{rule}</li>
+      ))}
+    </ul>
+  );
+}
@@ -63,7 +63,9 @@ interface StudentStatsRow {
     name: string;
     email: string;
     systemId: string;
+    batchId?: string | null;
     batchName?: string | null;
+    formerMember?: boolean;
 
     readingBand: NullableNumber;
     listeningBand: NullableNumber;
@@ -218,9 +220,13 @@ export default function FacultyDashboardPage() {
     const filteredStudents = useMemo(() => {
         return students.filter((s) => {
             if (selectedBatchId !== "all") {
-                const batch = batches.find((b) => b._id === selectedBatchId);
-                if (batch && s.batchName && s.batchName !== batch.name) {
-                    return false;
+                if (s.batchId) {
+                    if (s.batchId !== selectedBatchId) return false;
+                } else {
+                    const batch = batches.find((b) => b._id === selectedBatchId);
+                    if (batch && s.batchName && s.batchName !== batch.name) {
+                        return false;
+                    }
                 }
             }
 
@@ -491,7 +497,7 @@ export default function FacultyDashboardPage() {
                         <div className="space-y-2">
                             {topStudents.map((s, i) => (
                                 <div
-                                    key={s._id}
+                                    key={`${s._id}-${s.batchId ?? ""}`}
                                     className="flex items-center justify-between border rounded px-3 py-2 bg-muted/40"
                                 >
                                     <div>
@@ -12,6 +12,7 @@ import {
   Search,
 } from "lucide-react";
 import api from "@/lib/api";
+import { hasCapability } from "@/lib/permissions";
 
 type NullableNumber = number | null | undefined;
 
@@ -48,7 +49,10 @@ interface StudentStatsRow {
   name: string;
   email: string;
   systemId: string;
+  // a student appears once per batch they took tests in
+  batchId?: string | null;
   batchName?: string | null;
+  formerMember?: boolean;
 
   readingBand: NullableNumber;
   listeningBand: NullableNumber;
@@ -63,14 +67,6 @@ interface FacultyStatsResponse {
   students?: StudentStatsRow[];
 }
 
-interface CeltsUser {
-  name?: string;
-  role?: string;
-  facultyPermissions?: {
-    canEditScores?: boolean;
-  };
-}
-
 function formatBand(b: NullableNumber): string {
   if (b === null || b === undefined || Number.isNaN(b)) return "—";
   const num = Number(b);
@@ -112,6 +108,7 @@ export function FacultyStats() {
   const [canEditScores, setCanEditScores] = useState(false);
 
   const [editingStudentId, setEditingStudentId] = useState<string | null>(null);
+  const [editingBatchId, setEditingBatchId] = useState<string | null>(null);
   const [editingSkill, setEditingSkill] = useState<"writing" | "speaking" | null>(null);
   const [overrideValue, setOverrideValue] = useState<string>("");
   const [overrideReason, setOverrideReason] = useState<string>("");
@@ -119,16 +116,7 @@ export function FacultyStats() {
   const [overrideError, setOverrideError] = useState<string | null>(null);
 
   useEffect(() => {
-    if (typeof window === "undefined") return;
-    const stored = localStorage.getItem("celts_user");
-    if (stored) {
-      try {
-        const parsed: CeltsUser = JSON.parse(stored);
-        setCanEditScores(!!parsed.facultyPermissions?.canEditScores);
-      } catch (e) {
-        console.error("[FacultyStats] Failed to parse celts_user:", e);
-      }
-    }
+    setCanEditScores(hasCapability("scores.override"));
   }, []);
 
   async function fetchStats() {
@@ -173,9 +161,13 @@ export function FacultyStats() {
   const filteredStudents = useMemo(() => {
     return students.filter((s) => {
       if (selectedBatchId !== "all") {
-        const batch = batches.find((b) => b._id === selectedBatchId);
-        if (batch && s.batchName && s.batchName !== batch.name) {
-          return false;
+        if (s.batchId) {
+          if (s.batchId !== selectedBatchId) return false;
+        } else {
+          const batch = batches.find((b) => b._id === selectedBatchId);
+          if (batch && s.batchName && s.batchName !== batch.name) {
+            return false;
+          }
         }
       }
 
@@ -189,9 +181,13 @@ export function FacultyStats() {
     });
   }, [students, batches, selectedBatchId, searchTerm]);
 
+  const isEditing = (s: StudentStatsRow) =>
+    editingStudentId === s._id && editingBatchId === (s.batchId ?? null);
+
   function startOverride(student: StudentStatsRow, skill: "writing" | "speaking") {
     setOverrideError(null);
     setEditingStudentId(student._id);
+    setEditingBatchId(student.batchId ?? null);
     setEditingSkill(skill);
 
     const current =
@@ -207,6 +203,7 @@ export function FacultyStats() {
 
   function cancelOverride() {
     setEditingStudentId(null);
+    setEditingBatchId(null);
     setEditingSkill(null);
     setOverrideValue("");
     setOverrideReason("");
@@ -582,7 +579,7 @@ export function FacultyStats() {
               <tbody>
                 {filteredStudents.map((s) => (
                   <tr
-                    key={s._id}
+                    key={`${s._id}-${s.batchId ?? ""}`}
                     className="border-b last:border-0 hover:bg-muted/40 align-top"
                   >
                     <td className="px-3 py-2">
@@ -593,6 +590,9 @@ export function FacultyStats() {
                     </td>
                     <td className="px-3 py-2 text-xs">
                       {s.batchName || "—"}
+                      {s.formerMember && (
+                        <div className="text-muted-foreground">former member</div>
+                      )}
                     </td>
                     <td className="px-3 py-2 text-xs">{s.systemId}</td>
                     {/* Overall: read-only */}
@@ -619,7 +619,7 @@ export function FacultyStats() {
                         <span>{formatBand(s.writingBand)}</span>
                         {canEditScores && (
                           <>
-                            {editingStudentId === s._id &&
+                            {isEditing(s) &&
                             editingSkill === "writing" ? (
                               <div className="flex flex-col gap-1">
                                 <Input
@@ -678,7 +678,7 @@ export function FacultyStats() {
                         <span>{formatBand(s.speakingBand)}</span>
                         {canEditScores && (
                           <>
-                            {editingStudentId === s._id &&
+                            {isEditing(s) &&
                             editingSkill === "speaking" ? (
                               <div className="flex flex-col gap-1">
                                 <Input
@@ -0,0 +1,33 @@
+"use client";
+
+// AI grading providers the backend knows (services/gradingProviders); "" = the deployment default
+export const GRADING_PROVIDERS = [
+  { value: "openai", label: "OpenAI" },
+  { value: "gemini", label: "Gemini" },
+  { value: "mock", label: "Mock (no AI calls)" },
+] as const;
+
+export type GradingProvider = (typeof GRADING_PROVIDERS)[number]["value"];
+
+export function GradingProviderSelect({
+  value,
+  onChange,
+  className = "w-full p-2 border rounded-md bg-white",
+}: {
+  value: GradingProvider | null | undefined;
+  onChange: (value: GradingProvider | null) => void;
+  className?: string;
+}) {
+  return (
+    <select
+      value={value || ""}
+      onChange={(e) => onChange((e.target.value || null) as GradingProvider | null)}
+      className={className}
+    >
+      <option value="">Deployment default</option>
+      {GRADING_PROVIDERS.map((p) => (
+        <option key={p.value} value={p.value}>{p.label}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,311 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Upload } from "lucide-react";
+import api from "@/lib/api";
+
+type Destination = "test" | "bank";
+type ItemStatus = "ok" | "warning" | "error";
+
+interface ReportMessage {
+  level: "warning" | "error";
+  message: string;
+}
+
+interface ReportItem {
+  identifier: string;
+  title: string;
+  file: string;
+  questionType: string | null;
+  status: ItemStatus;
+  messages: ReportMessage[];
+  section?: string | null;
+  skill?: string | null;
+}
+
+interface ImportReport {
+  title?: string;
+  type?: string;
+  typeInferred?: boolean;
+  sections?: { title: string; questions: number }[];
+  messages: ReportMessage[];
+  items: ReportItem[];
+  summary: { total: number } & Record<ItemStatus, number>;
+}
+
+const STATUS_STYLES: Record<ItemStatus, string> = {
+  ok: "bg-green-100 text-green-800",
+  warning: "bg-amber-100 text-amber-800",
+  error: "bg-red-100 text-red-700",
+};
+
+const STATUS_LABELS: Record<ItemStatus, string> = { ok: "ok", warning: "imported with changes", error: "skipped" };
+
+export function QtiImport({ onImported }: { onImported: () => void }) {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [destination, setDestination] = useState<Destination>("test");
+  const [type, setType] = useState("");
+  const [title, setTitle] = useState("");
+  const [skill, setSkill] = useState<"reading" | "listening">("reading");
+
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [applied, setApplied] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<"" | ItemStatus>("");
+  // options edited since the last preview; importing would apply something unseen
+  const [stale, setStale] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setReport(null);
+    setApplied(false);
+    setStatusFilter("");
+    setMessage(null);
+    setStale(false);
+  };
+
+  const changed = <T,>(setter: (v: T) => void) => (v: T) => {
+    setter(v);
+    setStale(true);
+  };
+
+  async function runImport(dryRun: boolean, selectedFile = file) {
+    if (!selectedFile) return;
+    setLoading(true);
+    setMessage(null);
+    const form = new FormData();
+    form.append("file", selectedFile);
+    form.append("dryRun", String(dryRun));
+    if (destination === "test") {
+      if (type) form.append("type", type);
+      if (title.trim()) form.append("title", title.trim());
+    } else {
+      form.append("skill", skill);
+    }
+
+    const path = destination === "test" ? "/teacher/tests/qti/import" : "/teacher/tests/bank/qti/import";
+    const res = await api.apiUpload(path, form);
+    setLoading(false);
+    if (!res.ok) {
+      setMessage(res.error?.message || "Import failed");
+      if (res.error?.report) setReport(res.error.report);
+      return;
+    }
+    setReport(res.data.report);
+    setStale(false);
+    if (!dryRun) {
+      setApplied(true);
+      setMessage(res.data.message || "Imported");
+      onImported();
+    }
+  }
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0] || null;
+    e.target.value = "";
+    if (!picked) return;
+    reset();
+    setFile(picked);
+    runImport(true, picked);
+  };
+
+  const blocked = !!report && report.messages.some((m) => m.level === "error");
+  const importable = report ? report.summary.ok + report.summary.warning : 0;
+  const canConfirm = !!report && !applied && !stale && !blocked && importable > 0;
+  const visibleItems = report ? report.items.filter((i) => !statusFilter || i.status === statusFilter) : [];
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => { reset(); setOpen(true); }}>
+        <Upload className="w-4 h-4 mr-2" /> Import QTI
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import a QTI 2.1 package</DialogTitle>
+            <DialogDescription>
+              Upload a content package (.zip) exported from another assessment tool. Nothing is saved until you
+              review the report and confirm; a test comes in as a draft.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="cursor-pointer inline-flex px-3 py-2 border rounded text-sm">
+                <input type="file" accept=".zip" onChange={handleFile} className="hidden" disabled={loading} />
+                {file ? `Change file (${file.name})` : "Choose package"}
+              </label>
+              <div>
+                <label className="text-xs block text-muted-foreground">Import as</label>
+                <select
+                  className="px-3 py-2 border rounded text-sm bg-white"
+                  value={destination}
+                  onChange={(e) => changed(setDestination)(e.target.value as Destination)}
+                  disabled={applied}
+                >
+                  <option value="test">A new draft test</option>
+                  <option value="bank">Questions in the bank</option>
+                </select>
+              </div>
+              {destination === "test" ? (
+                <>
+                  <div>
+                    <label className="text-xs block text-muted-foreground">Test type</label>
+                    <select
+                      className="px-3 py-2 border rounded text-sm bg-white"
+                      value={type}
+                      onChange={(e) => changed(setType)(e.target.value)}
+                      disabled={applied}
+                    >
+                      <option value="">From the package</option>
+                      <option value="reading">Reading</option>
+                      <option value="listening">Listening</option>
+                      <option value="writing">Writing</option>
+                      <option value="speaking">Speaking</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="text-xs block text-muted-foreground">Title</label>
+                    <Input
+                      className="w-56"
+                      placeholder={report?.title || "From the package"}
+                      value={title}
+                      onChange={(e) => changed(setTitle)(e.target.value)}
+                      disabled={applied}
+                    />
+                  </div>
+                </>
+              ) : (
+                <div>
+                  <label className="text-xs block text-muted-foreground">Skill of reading and listening items</label>
+                  <select
+                    className="px-3 py-2 border rounded text-sm bg-white"
+                    value={skill}
+                    onChange={(e) => changed(setSkill)(e.target.value as "reading" | "listening")}
+                    disabled={applied}
+                  >
+                    <option value="reading">Reading</option>
+                    <option value="listening">Listening</option>
+                  </select>
+                </div>
+              )}
+              {file && !applied && (
+                <Button variant="outline" onClick={() => runImport(true)} disabled={loading}>
+                  Refresh report
+                </Button>
+              )}
+            </div>
+            {stale && !applied && (
+              <div className="text-xs text-amber-700">Settings changed; refresh the report before importing.</div>
+            )}
+
+            {loading && <div className="text-sm">{report ? "Working..." : "Reading package..."}</div>}
+            {message && <div className={`text-sm ${applied ? "text-green-700" : "text-red-600"}`}>{message}</div>}
+
+            {report && (
+              <div className="space-y-3">
+                {report.type && (
+                  <div className="text-sm">
+                    <span className="font-medium">{report.title}</span> — {report.type} test
+                    {report.typeInferred && <span className="text-muted-foreground"> (type worked out from the items)</span>}
+                    {report.sections && report.sections.length > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        {report.sections.map((s) => `${s.title}: ${s.questions} question(s)`).join(" · ")}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {report.messages.length > 0 && (
+                  <ul className="text-sm space-y-1">
+                    {report.messages.map((m, i) => (
+                      <li key={i} className={m.level === "error" ? "text-red-600" : "text-amber-700"}>
+                        {m.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium">Items:</span>
+                  {(["ok", "warning", "error"] as ItemStatus[]).map((s) => (
+                    <button
+                      key={s}
+                      type="button"
+                      onClick={() => setStatusFilter(statusFilter === s ? "" : s)}
+                      className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[s]} ${statusFilter === s ? "ring-2 ring-offset-1 ring-slate-400" : ""}`}
+                    >
+                      {STATUS_LABELS[s]} {report.summary[s]}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="border rounded max-h-[40vh] overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted sticky top-0">
+                      <tr>
+                        <th className="text-left px-2 py-1">Item</th>
+                        <th className="text-left px-2 py-1">Outcome</th>
+                        <th className="text-left px-2 py-1">Question type</th>
+                        <th className="text-left px-2 py-1">{destination === "test" ? "Section" : "Skill"}</th>
+                        <th className="text-left px-2 py-1">Details</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleItems.map((item) => (
+                        <tr key={`${item.identifier}-${item.file}`} className="border-t align-top">
+                          <td className="px-2 py-1">
+                            <div>{item.title || item.identifier}</div>
+                            <div className="text-xs text-muted-foreground">{item.file}</div>
+                          </td>
+                          <td className="px-2 py-1">
+                            <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[item.status]}`}>
+                              {STATUS_LABELS[item.status]}
+                            </span>
+                          </td>
+                          <td className="px-2 py-1">{item.questionType || "—"}</td>
+                          <td className="px-2 py-1">{(destination === "test" ? item.section : item.skill) || "—"}</td>
+                          <td className="px-2 py-1">
+                            {item.messages.map((m, i) => (
+                              <div key={i} className={m.level === "error" ? "text-red-600" : "text-xs text-muted-foreground"}>
+                                {m.message}
+                              </div>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              {applied ? "Close" : "Cancel"}
+            </Button>
+            {!applied && (
+              <Button onClick={() => runImport(false)} disabled={!canConfirm || loading}>
+                {report ? `Import ${importable} question(s)` : "Import"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
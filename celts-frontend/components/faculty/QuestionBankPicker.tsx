@@ -0,0 +1,271 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import api from "@/lib/api";
+import { richTextToPlain } from "@/lib/richText";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+
+export type Skill = "reading" | "listening" | "writing" | "speaking";
+
+export type BankQuestion = {
+  _id: string;
+  skill: Skill;
+  difficulty?: "easy" | "medium" | "hard";
+  cefrLevel?: string | null;
+  tags?: string[];
+  version: number;
+  usageCount?: number;
+  questionType:
+    | "mcq"
+    | "multi_select"
+    | "tfng"
+    | "matching_headings"
+    | "map_labelling"
+    | "gap_fill"
+    | "sentence_completion"
+    | "writing"
+    | "speaking";
+  prompt: string;
+  options?: { text: string }[];
+  correctIndex?: number;
+  correctIndexes?: number[];
+  selectCount?: number;
+  acceptedAnswers?: string[];
+  caseSensitive?: boolean;
+  spellingTolerance?: number;
+  imageUrl?: string;
+  writingType?: string;
+  wordLimit?: number;
+  charLimit?: number;
+  speakingMode?: "audio" | "video" | "oral";
+  recordLimitSeconds?: number;
+  marks?: number;
+  explanation?: string;
+};
+
+const CEFR_LEVELS = ["A1", "A2", "B1", "B2", "C1", "C2"];
+const PAGE_SIZE = 10;
+
+interface QuestionBankPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  skill: Skill;
+  // extra line under the title, e.g. which passage the questions will go into
+  targetLabel?: string;
+  onAdd: (questions: BankQuestion[]) => void;
+}
+
+export function QuestionBankPicker({ open, onOpenChange, skill, targetLabel, onAdd }: QuestionBankPickerProps) {
+  const [search, setSearch] = useState("");
+  const [difficulty, setDifficulty] = useState("");
+  const [cefrLevel, setCefrLevel] = useState("");
+  const [tags, setTags] = useState("");
+  const [page, setPage] = useState(1);
+
+  const [items, setItems] = useState<BankQuestion[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Record<string, BankQuestion>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    fetchBank(1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, skill]);
+
+  useEffect(() => {
+    if (!open) setSelected({});
+  }, [open]);
+
+  function filterParams() {
+    const params = new URLSearchParams({ skill });
+    if (search.trim()) params.set("q", search.trim());
+    if (difficulty) params.set("difficulty", difficulty);
+    if (cefrLevel) params.set("cefrLevel", cefrLevel);
+    if (tags.trim()) params.set("tags", tags.trim());
+    return params;
+  }
+
+  async function fetchBank(nextPage: number) {
+    setLoading(true);
+    setError(null);
+    const params = filterParams();
+    params.set("page", String(nextPage));
+    params.set("limit", String(PAGE_SIZE));
+
+    try {
+      const res = await api.apiGet(`/teacher/tests/bank?${params.toString()}`);
+      if (!res.ok) {
+        setError(res.error?.message || res.data?.message || "Failed to search question bank");
+        setItems([]);
+        setTotal(0);
+        return;
+      }
+      setItems(res.data?.items || []);
+      setTotal(res.data?.total || 0);
+      setPage(nextPage);
+    } catch (err: any) {
+      setError(err?.message || "Network error");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function toggle(q: BankQuestion) {
+    setSelected(prev => {
+      const copy = { ...prev };
+      if (copy[q._id]) delete copy[q._id];
+      else copy[q._id] = q;
+      return copy;
+    });
+  }
+
+  // the selection if there is one, otherwise everything matching the search
+  async function handleExport() {
+    const params = selectedCount > 0 ? new URLSearchParams({ ids: Object.keys(selected).join(",") }) : filterParams();
+    const res = await api.apiDownload(`/teacher/tests/bank/qti?${params.toString()}`, "question-bank-qti.zip");
+    if (!res.ok) setError(res.error?.message || "Export failed");
+  }
+
+  function handleAdd() {
+    const picked = Object.values(selected);
+    if (picked.length === 0) return;
+    onAdd(picked);
+    onOpenChange(false);
+  }
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const selectedCount = Object.keys(selected).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Question bank — {skill}</DialogTitle>
+          {targetLabel && <p className="text-xs text-slate-500">{targetLabel}</p>}
+        </DialogHeader>
+
+        <form
+          className="grid grid-cols-1 md:grid-cols-4 gap-2"
+          onSubmit={e => {
+            e.preventDefault();
+            fetchBank(1);
+          }}
+        >
+          <Input
+            className="md:col-span-2"
+            placeholder="Search prompt text"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+          />
+          <select value={difficulty} onChange={e => setDifficulty(e.target.value)} className="p-2 border rounded-md bg-white text-sm">
+            <option value="">Any difficulty</option>
+            <option value="easy">Easy</option>
+            <option value="medium">Medium</option>
+            <option value="hard">Hard</option>
+          </select>
+          <select value={cefrLevel} onChange={e => setCefrLevel(e.target.value)} className="p-2 border rounded-md bg-white text-sm">
+            <option value="">Any CEFR level</option>
+            {CEFR_LEVELS.map(l => (
+              <option key={l} value={l}>{l}</option>
+            ))}
+          </select>
+          <Input
+            className="md:col-span-3"
+            placeholder="Topic tags, comma separated (all must match)"
+            value={tags}
+            onChange={e => setTags(e.target.value)}
+          />
+          <Button type="submit" variant="outline" disabled={loading}>
+            {loading ? "Searching..." : "Search"}
+          </Button>
+        </form>
+
+        {error && <div className="text-sm text-rose-600">{error}</div>}
+
+        <div className="max-h-[50vh] overflow-y-auto space-y-2">
+          {!loading && items.length === 0 && !error && (
+            <div className="text-sm text-slate-500 py-6 text-center">No bank questions match these filters.</div>
+          )}
+
+          {items.map(q => (
+            <label
+              key={q._id}
+              className={`flex items-start gap-3 border rounded-lg p-3 cursor-pointer ${
+                selected[q._id] ? "border-indigo-400 bg-indigo-50" : "border-slate-200 bg-white"
+              }`}
+            >
+              <Checkbox checked={!!selected[q._id]} onCheckedChange={() => toggle(q)} className="mt-1" />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-slate-800 line-clamp-3">{richTextToPlain(q.prompt)}</div>
+                {Array.isArray(q.options) && q.options.length > 0 && (
+                  <ol className="mt-1 text-xs text-slate-600 list-[upper-alpha] list-inside">
+                    {q.options.map((o, i) => {
+                      const correct = q.questionType === "multi_select" ? (q.correctIndexes || []).includes(i) : i === q.correctIndex;
+                      return (
+                        <li key={i} className={correct ? "font-semibold text-emerald-700" : undefined}>
+                          {o.text}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+                {Array.isArray(q.acceptedAnswers) && q.acceptedAnswers.length > 0 && (
+                  <div className="mt-1 text-xs text-emerald-700">Accepted: {q.acceptedAnswers.join(" / ")}</div>
+                )}
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {q.difficulty && <Badge variant="secondary">{q.difficulty}</Badge>}
+                  {q.cefrLevel && <Badge variant="secondary">{q.cefrLevel}</Badge>}
+                  {(q.tags || []).map(t => (
+                    <Badge key={t} variant="outline">{t}</Badge>
+                  ))}
+                  <span className="text-xs text-slate-400 ml-auto">
+                    v{q.version} · used {q.usageCount || 0}×
+                  </span>
+                </div>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between text-xs text-slate-500">
+          <span>{total} question{total === 1 ? "" : "s"}</span>
+          <div className="flex items-center gap-2">
+            <Button type="button" size="sm" variant="outline" disabled={loading || page <= 1} onClick={() => fetchBank(page - 1)}>
+              Prev
+            </Button>
+            <span>
+              Page {page} / {totalPages}
+            </span>
+            <Button type="button" size="sm" variant="outline" disabled={loading || page >= totalPages} onClick={() => fetchBank(page + 1)}>
+              Next
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="ghost" disabled={loading || total === 0} onClick={handleExport}>
+            Export {selectedCount > 0 ? "selected" : "results"} as QTI
+          </Button>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" disabled={selectedCount === 0} onClick={handleAdd}>
+            Add {selectedCount || ""} question{selectedCount === 1 ? "" : "s"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
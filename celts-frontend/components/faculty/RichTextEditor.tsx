@@ -0,0 +1,156 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Bold, Italic, Heading2, List, ListOrdered, Table, ImagePlus, Eye, Pencil, Loader2 } from "lucide-react";
+import api from "@/lib/api";
+import { RichText } from "@/components/RichText";
+
+interface RichTextEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  placeholder?: string;
+  // height of the text area, e.g. "h-36" for a passage
+  heightClass?: string;
+  // writing tasks: the AI examiner reads image descriptions instead of the images
+  gradedTask?: boolean;
+}
+
+const TABLE_TEMPLATE = "| Heading | Heading |\n|---|---|\n| Cell | Cell |\n";
+
+type PendingImage = { url: string; description: string };
+
+export function RichTextEditor({ value, onChange, disabled, placeholder, heightClass = "h-36", gradedTask }: RichTextEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [pendingImage, setPendingImage] = useState<PendingImage | null>(null);
+
+  // replace the selection with `before + selected + after`, keeping the selection on the same text
+  function wrap(before: string, after = "", fallback = "") {
+    const el = textareaRef.current;
+    const start = el ? el.selectionStart : value.length;
+    const end = el ? el.selectionEnd : value.length;
+    const selected = value.slice(start, end) || fallback;
+    onChange(value.slice(0, start) + before + selected + after + value.slice(end));
+    requestAnimationFrame(() => {
+      if (!el) return;
+      el.focus();
+      el.setSelectionRange(start + before.length, start + before.length + selected.length);
+    });
+  }
+
+  // put `prefix` in front of every line the selection touches
+  function prefixLines(prefix: (index: number) => string) {
+    const el = textareaRef.current;
+    const start = value.lastIndexOf("\n", (el ? el.selectionStart : value.length) - 1) + 1;
+    const endAt = value.indexOf("\n", el ? el.selectionEnd : value.length);
+    const end = endAt === -1 ? value.length : endAt;
+    const lines = value.slice(start, end).split("\n").map((line, i) => prefix(i) + line.replace(/^(#{1,3}\s+|[-*]\s+|\d+[.)]\s+)/, ""));
+    onChange(value.slice(0, start) + lines.join("\n") + value.slice(end));
+  }
+
+  // blocks (tables, images) go on lines of their own
+  function insertBlock(block: string) {
+    const el = textareaRef.current;
+    const at = el ? el.selectionEnd : value.length;
+    const before = value.slice(0, at);
+    const lead = !before || before.endsWith("\n\n") ? "" : before.endsWith("\n") ? "\n" : "\n\n";
+    onChange(before + lead + block.trimEnd() + "\n\n" + value.slice(at).replace(/^\n+/, ""));
+  }
+
+  async function upload(file: File) {
+    setUploading(true);
+    setUploadError(null);
+    const form = new FormData();
+    form.append("file", file);
+    const res = await api.apiUpload("/media/upload", form);
+    setUploading(false);
+    if (!res.ok || !res.data?.url) {
+      setUploadError(res.error?.message || "Image upload failed");
+      return;
+    }
+    setPendingImage({ url: res.data.url, description: "" });
+  }
+
+  function insertImage() {
+    if (!pendingImage) return;
+    // the description is Markdown alt text: one line, no closing bracket
+    const description = pendingImage.description.replace(/\s+/g, " ").replace(/\]/g, ")").trim();
+    insertBlock(`![${description}](${pendingImage.url})`);
+    setPendingImage(null);
+  }
+
+  const tool = (label: string, icon: React.ReactNode, action: () => void) => (
+    <Button type="button" size="sm" variant="ghost" className="h-7 px-2" title={label} disabled={disabled || previewing} onClick={action}>
+      {icon}
+    </Button>
+  );
+
+  return (
+    <div className="border border-slate-200 rounded-md bg-white">
+      <div className="flex flex-wrap items-center gap-0.5 border-b border-slate-200 px-1 py-1">
+        {tool("Heading", <Heading2 className="w-4 h-4" />, () => prefixLines(() => "## "))}
+        {tool("Bold", <Bold className="w-4 h-4" />, () => wrap("**", "**", "bold text"))}
+        {tool("Italic", <Italic className="w-4 h-4" />, () => wrap("*", "*", "italic text"))}
+        {tool("Bulleted list", <List className="w-4 h-4" />, () => prefixLines(() => "- "))}
+        {tool("Numbered list", <ListOrdered className="w-4 h-4" />, () => prefixLines((i) => `${i + 1}. `))}
+        {tool("Table", <Table className="w-4 h-4" />, () => insertBlock(TABLE_TEMPLATE))}
+        {tool("Image", uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImagePlus className="w-4 h-4" />, () => fileRef.current?.click())}
+        <input
+          ref={fileRef}
+          type="file"
+          accept="image/png,image/jpeg,image/gif,image/webp"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) upload(file);
+          }}
+        />
+        <div className="ml-auto">
+          <Button type="button" size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={() => setPreviewing((p) => !p)}>
+            {previewing ? <><Pencil className="w-3.5 h-3.5 mr-1" /> Edit</> : <><Eye className="w-3.5 h-3.5 mr-1" /> Preview</>}
+          </Button>
+        </div>
+      </div>
+
+      {pendingImage && (
+        <div className="border-b border-slate-200 p-3 space-y-2 bg-slate-50">
+          <img src={pendingImage.url} alt="" className="max-h-40 rounded border" />
+          <label className="text-xs font-medium text-slate-700 block">
+            Describe the image{gradedTask ? " (the AI examiner reads this instead of the image, so give the figures a chart shows)" : " (alt text, read out by screen readers)"}
+          </label>
+          <textarea
+            value={pendingImage.description}
+            onChange={(e) => setPendingImage({ ...pendingImage, description: e.target.value })}
+            className="w-full p-2 border border-slate-200 rounded-md h-20 text-sm bg-white"
+          />
+          <div className="flex gap-2">
+            <Button type="button" size="sm" onClick={insertImage}>Insert image</Button>
+            <Button type="button" size="sm" variant="outline" onClick={() => setPendingImage(null)}>Cancel</Button>
+          </div>
+        </div>
+      )}
+      {uploadError && <div className="px-3 pt-2 text-xs text-red-600">{uploadError}</div>}
+
+      {previewing ? (
+        <div className={`${heightClass} min-h-fit overflow-auto p-3 text-sm text-slate-800`}>
+          {value.trim() ? <RichText text={value} /> : <span className="text-slate-400">Nothing to preview</span>}
+        </div>
+      ) : (
+        <textarea
+          ref={textareaRef}
+          value={value}
+          disabled={disabled}
+          placeholder={placeholder}
+          onChange={(e) => onChange(e.target.value)}
+          className={`w-full p-3 rounded-b-md ${heightClass} text-sm resize-y focus:outline-none disabled:bg-slate-50`}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,10 +1,19 @@
 "use client";
 
-import { useEffect, useState, useMemo } from "react";
+import { Fragment, useEffect, useState, useMemo } from "react";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import api from "@/lib/api";
+import { hasCapability } from "@/lib/permissions";
+import {
+  CriteriaBreakdown,
+  CriteriaBands,
+  WRITING_CRITERIA,
+  SPEAKING_CRITERIA,
+  weakestCriterion,
+  hasCriteriaBands,
+} from "@/components/common/CriteriaBreakdown";
 
 type NullableNumber = number | null | undefined;
 
@@ -41,20 +50,28 @@ interface StudentFromApi {
   name: string;
   email: string;
   systemId: string;
+  batchId?: string | null;
   batchName?: string | null;
+  formerMember?: boolean;
   readingBand?: NullableNumber;
   listeningBand?: NullableNumber;
   writingBand?: NullableNumber;
   speakingBand?: NullableNumber;
   overallBand?: NullableNumber;
+  writingCriteria?: CriteriaBands | null;
+  speakingCriteria?: CriteriaBands | null;
 }
 
 interface Student {
   id: string;
+  // id + batch: a student who took tests in two batches has a row for each
+  rowKey: string;
   name: string;
   email?: string;
   systemId?: string;
+  batchId?: string | null;
   batchName?: string | null;
+  formerMember?: boolean;
 
   readingBand: NullableNumber;
   listeningBand: NullableNumber;
@@ -62,6 +79,9 @@ interface Student {
   speakingBand: NullableNumber;
   overallBand: NullableNumber;
 
+  writingCriteria: CriteriaBands | null;
+  speakingCriteria: CriteriaBands | null;
+
   testsCompleted: number;
   averageScore: number;
 }
@@ -84,8 +104,14 @@ export function StudentDetail() {
 
   const [selectedBatchId, setSelectedBatchId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [expandedStudentId, setExpandedStudentId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [canExport, setCanExport] = useState(false);
+
+  useEffect(() => {
+    setCanExport(hasCapability("data.export"));
+  }, []);
 
   // -------- Fetch stats from /faculty/stats --------
   async function loadFacultyStats() {
@@ -148,15 +174,20 @@ export function StudentDetail() {
 
         return {
           id: s.studentId || s._id,
+          rowKey: `${s.studentId || s._id}-${s.batchId ?? ""}`,
           name: s.name || "Unknown",
           email: s.email || "",
           systemId: s.systemId || "",
+          batchId: s.batchId ?? null,
           batchName: s.batchName || null,
+          formerMember: !!s.formerMember,
           readingBand: reading,
           listeningBand: listening,
           writingBand: writing,
           speakingBand: speaking,
           overallBand: overall,
+          writingCriteria: hasCriteriaBands(s.writingCriteria) ? s.writingCriteria : null,
+          speakingCriteria: hasCriteriaBands(s.speakingCriteria) ? s.speakingCriteria : null,
           testsCompleted,
           averageScore: overall ?? 0,
         };
@@ -190,7 +221,7 @@ export function StudentDetail() {
   const filteredStudents = useMemo(() => {
     return students.filter((s) => {
       if (selectedBatch) {
-        if (s.batchName !== selectedBatch.name) return false;
+        if (s.batchId ? s.batchId !== selectedBatch.id : s.batchName !== selectedBatch.name) return false;
       }
 
       if (!searchTerm.trim()) return true;
@@ -215,6 +246,15 @@ export function StudentDetail() {
     return Number(b).toFixed(1);
   }
 
+  function weakestLabel(st: Student): string {
+    const parts: string[] = [];
+    const w = weakestCriterion("writing", st.writingCriteria);
+    const sp = weakestCriterion("speaking", st.speakingCriteria);
+    if (w) parts.push(`W: ${WRITING_CRITERIA.find((c) => c.key === w)?.label}`);
+    if (sp) parts.push(`S: ${SPEAKING_CRITERIA.find((c) => c.key === sp)?.label}`);
+    return parts.join(" · ");
+  }
+
   function downloadCSV() {
     const rows: string[][] = [];
     rows.push([
@@ -228,6 +268,8 @@ export function StudentDetail() {
       "Speaking Band",
       "Overall Band",
       "Tests Completed",
+      ...WRITING_CRITERIA.map((c) => `Writing ${c.label}`),
+      ...SPEAKING_CRITERIA.map((c) => `Speaking ${c.label}`),
     ]);
 
     for (const s of filteredStudents) {
@@ -242,6 +284,14 @@ export function StudentDetail() {
         s.speakingBand != null ? String(s.speakingBand) : "Not attempted",
         s.overallBand != null ? String(s.overallBand) : "",
         String(s.testsCompleted || 0),
+        ...WRITING_CRITERIA.map((c) => {
+          const v = s.writingCriteria?.[c.key];
+          return v != null ? String(v) : "";
+        }),
+        ...SPEAKING_CRITERIA.map((c) => {
+          const v = s.speakingCriteria?.[c.key];
+          return v != null ? String(v) : "";
+        }),
       ]);
     }
 
@@ -305,9 +355,11 @@ export function StudentDetail() {
         <Button onClick={loadFacultyStats} disabled={loading}>
           {loading ? "Refreshing..." : "Refresh"}
         </Button>
-        <Button onClick={downloadCSV} variant="outline">
-          Download CSV
-        </Button>
+        {canExport && (
+          <Button onClick={downloadCSV} variant="outline">
+            Download CSV
+          </Button>
+        )}
       </div>
 
       {error && (
@@ -352,26 +404,32 @@ export function StudentDetail() {
                 <th className="px-6 py-3 text-center text-sm font-semibold">
                   Tests Completed
                 </th>
+                <th className="px-6 py-3 text-left text-sm font-semibold">
+                  Weakest Criterion
+                </th>
               </tr>
             </thead>
             <tbody>
               {loading && students.length === 0 ? (
                 <tr>
-                  <td colSpan={10} className="p-6 text-center">
+                  <td colSpan={11} className="p-6 text-center">
                     Loading students...
                   </td>
                 </tr>
               ) : filteredStudents.length === 0 ? (
                 <tr>
-                  <td colSpan={10} className="p-6 text-center">
+                  <td colSpan={11} className="p-6 text-center">
                     No students for this filter.
                   </td>
                 </tr>
               ) : (
                 filteredStudents.map((st) => (
+                  <Fragment key={st.rowKey}>
                   <tr
-                    key={st.id}
-                    className="border-b border-border hover:bg-muted/30"
+                    className="border-b border-border hover:bg-muted/30 cursor-pointer"
+                    onClick={() =>
+                      setExpandedStudentId((prev) => (prev === st.rowKey ? null : st.rowKey))
+                    }
                   >
                     <td className="px-6 py-4 text-sm font-medium">
                       {st.name}
@@ -384,6 +442,9 @@ export function StudentDetail() {
                     </td>
                     <td className="px-6 py-4 text-sm">
                       {st.batchName || "—"}
+                      {st.formerMember && (
+                        <span className="ml-1 text-xs text-muted-foreground">(former)</span>
+                      )}
                     </td>
 
                     <td className="px-6 py-4 text-center text-sm">
@@ -407,7 +468,39 @@ export function StudentDetail() {
                     <td className="px-6 py-4 text-center text-sm">
                       {st.testsCompleted}
                     </td>
+                    <td className="px-6 py-4 text-sm text-rose-600">
+                      {weakestLabel(st) || "—"}
+                    </td>
                   </tr>
+                  {expandedStudentId === st.rowKey && (
+                    <tr className="border-b border-border bg-muted/20">
+                      <td colSpan={11} className="px-6 py-4">
+                        {st.writingCriteria || st.speakingCriteria ? (
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <div>
+                              <p className="text-sm font-semibold mb-2">Writing criteria</p>
+                              <CriteriaBreakdown skill="writing" bands={st.writingCriteria} compact />
+                              {!st.writingCriteria && (
+                                <p className="text-sm text-muted-foreground">Not attempted</p>
+                              )}
+                            </div>
+                            <div>
+                              <p className="text-sm font-semibold mb-2">Speaking criteria</p>
+                              <CriteriaBreakdown skill="speaking" bands={st.speakingCriteria} compact />
+                              {!st.speakingCriteria && (
+                                <p className="text-sm text-muted-foreground">Not attempted</p>
+                              )}
+                            </div>
+                          </div>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">
+                            No criterion bands recorded yet.
+                          </p>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                  </Fragment>
                 ))
               )}
             </tbody>
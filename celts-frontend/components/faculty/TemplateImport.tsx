@@ -0,0 +1,439 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FileText } from "lucide-react";
+import api from "@/lib/api";
+import { richTextToPlain } from "@/lib/richText";
+import { RichText } from "@/components/RichText";
+
+type ItemStatus = "ok" | "warning" | "error";
+
+interface ReportMessage {
+  level: "warning" | "error";
+  message: string;
+}
+
+interface ReportItem {
+  number: string;
+  location: string;
+  prompt: string;
+  questionType: string | null;
+  status: ItemStatus;
+  messages: ReportMessage[];
+  section: string | null;
+}
+
+interface ReportSection {
+  id: string;
+  title: string;
+  kind: "passage" | "audio";
+  questions: number;
+  audioUrl?: string;
+  audioSource?: string;
+}
+
+interface TemplateReport {
+  title: string;
+  type: string;
+  typeInferred: boolean;
+  sections: ReportSection[];
+  messages: ReportMessage[];
+  items: ReportItem[];
+  summary: { total: number } & Record<ItemStatus, number>;
+}
+
+interface PreviewQuestion {
+  questionType: string;
+  prompt: string;
+  options?: { text: string }[];
+  correctIndex?: number;
+  correctIndexes?: number[];
+  acceptedAnswers?: string[];
+  marks: number;
+  explanation?: string;
+  wordLimit?: number;
+  imageUrl?: string;
+  sectionId: string | null;
+}
+
+interface PreviewTest {
+  title: string;
+  description: string;
+  type: string;
+  timeLimitMinutes: number;
+  readingSections: { id: string; title: string; passage: string }[];
+  listeningSections: { id: string; title: string; audioUrl: string; listenLimit: number }[];
+  questions: PreviewQuestion[];
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  mcq: "MCQ",
+  multi_select: "Multi-select",
+  tfng: "True / False / Not Given",
+  matching_headings: "Matching headings",
+  map_labelling: "Map labelling",
+  gap_fill: "Gap fill",
+  sentence_completion: "Sentence completion",
+  writing: "Writing",
+  speaking: "Speaking",
+};
+
+const STATUS_STYLES: Record<ItemStatus, string> = {
+  ok: "bg-green-100 text-green-800",
+  warning: "bg-amber-100 text-amber-800",
+  error: "bg-red-100 text-red-700",
+};
+
+const STATUS_LABELS: Record<ItemStatus, string> = { ok: "ok", warning: "imported with changes", error: "skipped" };
+
+function QuestionPreview({ q, n }: { q: PreviewQuestion; n: number }) {
+  const correct = q.questionType === "multi_select" ? q.correctIndexes || [] : [q.correctIndex];
+  return (
+    <div className="border rounded p-3 text-sm space-y-1 bg-white">
+      <div className="flex justify-between gap-2">
+        <div className="font-medium flex gap-1.5 min-w-0">
+          <span className="shrink-0">{n}.</span>
+          <RichText text={q.prompt} className="min-w-0" />
+        </div>
+        <div className="text-xs text-muted-foreground whitespace-nowrap">
+          {TYPE_LABELS[q.questionType] || q.questionType} · {q.marks} mark{q.marks === 1 ? "" : "s"}
+        </div>
+      </div>
+      {q.imageUrl && <img src={q.imageUrl} alt="" className="max-h-40 border rounded" />}
+      {q.options && (
+        <ul className="pl-4 space-y-0.5">
+          {q.options.map((o, i) => (
+            <li key={i} className={correct.includes(i) ? "text-green-700 font-medium" : ""}>
+              {String.fromCharCode(65 + i)}) {o.text}
+              {correct.includes(i) && " ✓"}
+            </li>
+          ))}
+        </ul>
+      )}
+      {q.acceptedAnswers && (
+        <div className="text-green-700">
+          Accepted: {q.acceptedAnswers.join(" / ")}
+          {q.wordLimit ? <span className="text-muted-foreground"> · max {q.wordLimit} word(s)</span> : null}
+        </div>
+      )}
+      {q.questionType === "writing" && q.wordLimit ? (
+        <div className="text-xs text-muted-foreground">Word limit {q.wordLimit}</div>
+      ) : null}
+      {q.explanation && <div className="text-xs text-muted-foreground whitespace-pre-wrap">Explanation: {q.explanation}</div>}
+    </div>
+  );
+}
+
+export function TemplateImport({ onImported }: { onImported: () => void }) {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [type, setType] = useState("");
+  const [title, setTitle] = useState("");
+  // listening section id -> URL of a recording uploaded here
+  const [audio, setAudio] = useState<Record<string, string>>({});
+  const [uploading, setUploading] = useState<string | null>(null);
+
+  const [report, setReport] = useState<TemplateReport | null>(null);
+  const [preview, setPreview] = useState<PreviewTest | null>(null);
+  const [statusFilter, setStatusFilter] = useState<"" | ItemStatus>("");
+  // options edited since the last preview; importing would apply something unseen
+  const [stale, setStale] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const reset = () => {
+    setFile(null);
+    setAudio({});
+    setReport(null);
+    setPreview(null);
+    setStatusFilter("");
+    setMessage(null);
+    setStale(false);
+  };
+
+  async function runImport(dryRun: boolean, selectedFile = file, audioUrls = audio) {
+    if (!selectedFile) return;
+    setLoading(true);
+    setMessage(null);
+    const form = new FormData();
+    form.append("file", selectedFile);
+    form.append("dryRun", String(dryRun));
+    if (type) form.append("type", type);
+    if (title.trim()) form.append("title", title.trim());
+    if (Object.keys(audioUrls).length) form.append("audio", JSON.stringify(audioUrls));
+
+    const res = await api.apiUpload("/teacher/tests/template/import", form);
+    setLoading(false);
+    if (!res.ok) {
+      setMessage(res.error?.message || "Import failed");
+      if (res.error?.report) setReport(res.error.report);
+      return;
+    }
+    setReport(res.data.report);
+    setStale(false);
+    if (dryRun) {
+      setPreview(res.data.test);
+      return;
+    }
+    setOpen(false);
+    onImported();
+  }
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0] || null;
+    e.target.value = "";
+    if (!picked) return;
+    reset();
+    setFile(picked);
+    runImport(true, picked, {});
+  };
+
+  async function uploadAudio(sectionId: string, picked: File) {
+    setUploading(sectionId);
+    const form = new FormData();
+    form.append("file", picked);
+    const res = await api.apiUpload("/media/upload", form);
+    setUploading(null);
+    const url = res.ok ? res.data?.url : null;
+    if (!url) {
+      setMessage(res.error?.message || "Audio upload failed");
+      return;
+    }
+    const next = { ...audio, [sectionId]: url };
+    setAudio(next);
+    runImport(true, file, next);
+  }
+
+  async function downloadSample(format: "md" | "csv") {
+    const res = await api.apiDownload(`/teacher/tests/template/sample?format=${format}`, `test-template.${format}`);
+    if (!res.ok) setMessage(res.error?.message || "Download failed");
+  }
+
+  const blocked = !!report && report.messages.some((m) => m.level === "error");
+  const importable = report ? report.summary.ok + report.summary.warning : 0;
+  const canConfirm = !!report && !stale && !blocked && importable > 0;
+  const flagged = report ? report.items.filter((i) => i.status !== "ok" && (!statusFilter || i.status === statusFilter)) : [];
+
+  const sections = preview
+    ? [
+        ...preview.readingSections.map((s) => ({ id: s.id, title: s.title, passage: s.passage, audioUrl: "" })),
+        ...preview.listeningSections.map((s) => ({ id: s.id, title: s.title, passage: "", audioUrl: s.audioUrl })),
+      ]
+    : [];
+  const unsectioned = preview ? preview.questions.filter((q) => !q.sectionId) : [];
+  const numberOf = (q: PreviewQuestion) => (preview ? preview.questions.indexOf(q) + 1 : 0);
+
+  return (
+    <>
+      <Button variant="outline" onClick={() => { reset(); setOpen(true); }}>
+        <FileText className="w-4 h-4 mr-2" /> Import from template
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import a test from a template</DialogTitle>
+            <DialogDescription>
+              Upload a paper written in the Markdown, CSV or XLSX template. Check the preview, then create it as a
+              draft test. The sample templates explain the format:{" "}
+              <button type="button" className="underline" onClick={() => downloadSample("md")}>Markdown</button>
+              {" · "}
+              <button type="button" className="underline" onClick={() => downloadSample("csv")}>CSV / XLSX</button>
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <label className="cursor-pointer inline-flex px-3 py-2 border rounded text-sm">
+                <input type="file" accept=".md,.markdown,.txt,.csv,.xlsx" onChange={handleFile} className="hidden" disabled={loading} />
+                {file ? `Change file (${file.name})` : "Choose template"}
+              </label>
+              <div>
+                <label className="text-xs block text-muted-foreground">Test type</label>
+                <select
+                  className="px-3 py-2 border rounded text-sm bg-white"
+                  value={type}
+                  onChange={(e) => { setType(e.target.value); setStale(true); }}
+                >
+                  <option value="">From the template</option>
+                  <option value="reading">Reading</option>
+                  <option value="listening">Listening</option>
+                  <option value="writing">Writing</option>
+                  <option value="speaking">Speaking</option>
+                </select>
+              </div>
+              <div>
+                <label className="text-xs block text-muted-foreground">Title</label>
+                <Input
+                  className="w-56"
+                  placeholder={report?.title || "From the template"}
+                  value={title}
+                  onChange={(e) => { setTitle(e.target.value); setStale(true); }}
+                />
+              </div>
+              {file && (
+                <Button variant="outline" onClick={() => runImport(true)} disabled={loading}>
+                  Refresh preview
+                </Button>
+              )}
+            </div>
+            {stale && <div className="text-xs text-amber-700">Settings changed; refresh the preview before importing.</div>}
+
+            {loading && <div className="text-sm">Reading template...</div>}
+            {message && <div className="text-sm text-red-600">{message}</div>}
+
+            {report && (
+              <div className="space-y-3">
+                <div className="text-sm">
+                  <span className="font-medium">{report.title}</span> — {report.type} test
+                  {report.typeInferred && <span className="text-muted-foreground"> (type worked out from the template)</span>}
+                  {preview && preview.timeLimitMinutes > 0 && (
+                    <span className="text-muted-foreground"> · {preview.timeLimitMinutes} min</span>
+                  )}
+                </div>
+
+                {report.messages.length > 0 && (
+                  <ul className="text-sm space-y-1">
+                    {report.messages.map((m, i) => (
+                      <li key={i} className={m.level === "error" ? "text-red-600" : "text-amber-700"}>
+                        {m.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {report.sections.filter((s) => s.kind === "audio").length > 0 && (
+                  <div className="border rounded p-3 space-y-2">
+                    <div className="text-sm font-medium">Recordings</div>
+                    {report.sections
+                      .filter((s) => s.kind === "audio")
+                      .map((s) => (
+                        <div key={s.id} className="flex flex-wrap items-center gap-3 text-sm">
+                          <span className="w-48 truncate">{s.title}</span>
+                          {s.audioUrl ? (
+                            <audio controls src={s.audioUrl} className="h-8" />
+                          ) : (
+                            <span className="text-red-600">
+                              No audio{s.audioSource ? ` (${s.audioSource})` : ""}
+                            </span>
+                          )}
+                          <label className="cursor-pointer px-2 py-1 border rounded text-xs">
+                            <input
+                              type="file"
+                              accept="audio/*"
+                              className="hidden"
+                              disabled={!!uploading || loading}
+                              onChange={(e) => {
+                                const picked = e.target.files?.[0];
+                                e.target.value = "";
+                                if (picked) uploadAudio(s.id, picked);
+                              }}
+                            />
+                            {uploading === s.id ? "Uploading..." : s.audioUrl ? "Replace" : "Upload recording"}
+                          </label>
+                        </div>
+                      ))}
+                  </div>
+                )}
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-medium">Questions:</span>
+                  {(["ok", "warning", "error"] as ItemStatus[]).map((s) => (
+                    <button
+                      key={s}
+                      type="button"
+                      onClick={() => setStatusFilter(statusFilter === s ? "" : s)}
+                      disabled={s === "ok"}
+                      className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[s]} ${statusFilter === s ? "ring-2 ring-offset-1 ring-slate-400" : ""}`}
+                    >
+                      {STATUS_LABELS[s]} {report.summary[s]}
+                    </button>
+                  ))}
+                </div>
+
+                {flagged.length > 0 && (
+                  <div className="border rounded max-h-[30vh] overflow-y-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-muted sticky top-0">
+                        <tr>
+                          <th className="text-left px-2 py-1">Question</th>
+                          <th className="text-left px-2 py-1">Outcome</th>
+                          <th className="text-left px-2 py-1">Details</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {flagged.map((item) => (
+                          <tr key={item.location} className="border-t align-top">
+                            <td className="px-2 py-1">
+                              <div className="line-clamp-2">{item.number}. {richTextToPlain(item.prompt)}</div>
+                              <div className="text-xs text-muted-foreground">{item.location}</div>
+                            </td>
+                            <td className="px-2 py-1">
+                              <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[item.status]}`}>
+                                {STATUS_LABELS[item.status]}
+                              </span>
+                            </td>
+                            <td className="px-2 py-1">
+                              {item.messages.map((m, i) => (
+                                <div key={i} className={m.level === "error" ? "text-red-600" : "text-xs text-muted-foreground"}>
+                                  {m.message}
+                                </div>
+                              ))}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {preview && preview.questions.length > 0 && (
+                  <div className="space-y-4 border-t pt-3">
+                    <div className="text-sm font-medium">Preview</div>
+                    {preview.description && <p className="text-sm whitespace-pre-wrap">{preview.description}</p>}
+                    {sections.map((s) => (
+                      <div key={s.id} className="space-y-2">
+                        <div className="font-semibold">{s.title}</div>
+                        {s.passage && (
+                          <RichText text={s.passage} className="text-sm bg-muted/50 rounded p-3 max-h-60 overflow-y-auto" />
+                        )}
+                        {preview.questions
+                          .filter((q) => q.sectionId === s.id)
+                          .map((q) => <QuestionPreview key={numberOf(q)} q={q} n={numberOf(q)} />)}
+                      </div>
+                    ))}
+                    {unsectioned.length > 0 && (
+                      <div className="space-y-2">
+                        {sections.length > 0 && <div className="font-semibold">Other questions</div>}
+                        {unsectioned.map((q) => <QuestionPreview key={numberOf(q)} q={q} n={numberOf(q)} />)}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => runImport(false)} disabled={!canConfirm || loading || !!uploading}>
+              {report ? `Create draft with ${importable} question(s)` : "Create draft"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,20 +1,139 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import api from "@/lib/api";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { StorageInfo } from "./StorageInfo";
+import { QuestionBankPicker, type BankQuestion } from "./QuestionBankPicker";
+import { RichTextEditor } from "./RichTextEditor";
+import { richTextImages } from "@/lib/richText";
+import { GradingProviderSelect, type GradingProvider } from "./GradingProviderSelect";
 
 type Option = { text: string };
 
+// set on questions pulled from the question bank; content stays read-only until unlinked
+type BankLink = {
+  bankQuestion?: string;
+  bankVersion?: number;
+};
+
+// auto-graded reading/listening question types
+type AutoQuestionType =
+  | "mcq"
+  | "multi_select"
+  | "tfng"
+  | "matching_headings"
+  | "map_labelling"
+  | "gap_fill"
+  | "sentence_completion";
+
+const AUTO_QUESTION_TYPES: { value: AutoQuestionType; label: string }[] = [
+  { value: "mcq", label: "Multiple choice (one answer)" },
+  { value: "multi_select", label: "Multiple choice (several answers)" },
+  { value: "tfng", label: "True / False / Not Given" },
+  { value: "matching_headings", label: "Matching headings" },
+  { value: "map_labelling", label: "Map / diagram labelling" },
+  { value: "gap_fill", label: "Gap fill" },
+  { value: "sentence_completion", label: "Sentence completion" },
+];
+
+const TEXT_ANSWER_TYPES: AutoQuestionType[] = ["gap_fill", "sentence_completion"];
+const TFNG_OPTIONS = ["True", "False", "Not Given"];
+
+// questionType is unset on plain MCQs
 type McqQuestion = {
+  questionType?: AutoQuestionType;
   prompt: string;
   options: Option[];
   correctIndex: number;
+  correctIndexes?: number[];
+  selectCount?: number;
+  acceptedAnswers?: string[];
+  caseSensitive?: boolean;
+  spellingTolerance?: number;
+  wordLimit?: number;
+  imageUrl?: string;
   marks?: number;
   explanation?: string;
-};
+} & BankLink;
+
+function autoTypeOf(q: McqQuestion): AutoQuestionType {
+  return q.questionType || "mcq";
+}
+
+// switch a question's type, filling in what the new type needs
+function retypeAutoQuestion(q: McqQuestion, questionType: AutoQuestionType): McqQuestion {
+  const base: McqQuestion = {
+    prompt: q.prompt,
+    options: q.options.length >= 2 ? q.options : [{ text: "" }, { text: "" }],
+    correctIndex: 0,
+    marks: q.marks,
+    explanation: q.explanation,
+    questionType,
+  };
+  if (questionType === "tfng") return { ...base, options: TFNG_OPTIONS.map(text => ({ text })) };
+  if (questionType === "multi_select") return { ...base, correctIndexes: [], selectCount: 2 };
+  if (questionType === "map_labelling") return { ...base, imageUrl: q.imageUrl || "" };
+  if (TEXT_ANSWER_TYPES.includes(questionType)) {
+    return {
+      ...base,
+      options: [],
+      acceptedAnswers: [""],
+      wordLimit: questionType === "gap_fill" ? 2 : 3,
+      spellingTolerance: 0,
+      caseSensitive: false,
+    };
+  }
+  return base;
+}
+
+function validateAutoQuestion(q: McqQuestion): string | null {
+  if (!q.prompt.trim()) return "missing prompt";
+  const qt = autoTypeOf(q);
+  if (TEXT_ANSWER_TYPES.includes(qt)) {
+    if (!(q.acceptedAnswers || []).some(a => a.trim())) return "needs at least one accepted answer";
+    return null;
+  }
+  if (q.options.length < 2) return "must have at least 2 options";
+  if (qt === "map_labelling" && !(q.imageUrl || "").trim()) return "needs a map or diagram image URL";
+  if (qt === "multi_select") {
+    const picked = q.correctIndexes || [];
+    if (picked.length === 0) return "needs at least one correct option";
+    if ((q.selectCount || picked.length) < picked.length) return "allows fewer picks than it has correct options";
+  }
+  return null;
+}
+
+function autoQuestionPayload(q: McqQuestion, sectionId: string) {
+  const qt = autoTypeOf(q);
+  const common = {
+    questionType: qt,
+    prompt: q.prompt,
+    marks: q.marks || 1,
+    explanation: q.explanation || "",
+    sectionId,
+    bankQuestion: q.bankQuestion,
+    bankVersion: q.bankVersion
+  };
+  if (TEXT_ANSWER_TYPES.includes(qt)) {
+    return {
+      ...common,
+      acceptedAnswers: (q.acceptedAnswers || []).map(a => a.trim()).filter(Boolean),
+      wordLimit: q.wordLimit || undefined,
+      spellingTolerance: q.spellingTolerance || 0,
+      caseSensitive: !!q.caseSensitive,
+    };
+  }
+  return {
+    ...common,
+    options: q.options.map(o => ({ text: o.text })),
+    correctIndex: qt === "multi_select" ? undefined : q.correctIndex,
+    correctIndexes: qt === "multi_select" ? q.correctIndexes || [] : undefined,
+    selectCount: qt === "multi_select" ? q.selectCount || (q.correctIndexes || []).length : undefined,
+    imageUrl: qt === "map_labelling" ? (q.imageUrl || "").trim() : undefined,
+  };
+}
 
 type QuestionWriting = {
   questionType: "writing";
@@ -24,22 +143,25 @@ type QuestionWriting = {
   charLimit?: number;
   marks?: number;
   explanation?: string;
-};
+} & BankLink;
 
 type QuestionSpeaking = {
   questionType: "speaking";
   prompt: string;
   speakingMode?: "audio" | "video" | "oral";
   recordLimitSeconds?: number;
+  // time allowed on the prompt before it locks; 0/undefined = no own limit
+  timeLimitSeconds?: number;
   marks?: number;
   explanation?: string;
-};
+} & BankLink;
 
 type Question = QuestionWriting | QuestionSpeaking;
 
 type ReadingBlock = {
   id: string;
   passage: string;
+  timeLimitMinutes?: number;
   questions: McqQuestion[];
 };
 
@@ -47,16 +169,92 @@ type ListeningBlock = {
   id: string;
   audioUrl: string;
   listenLimit?: number;
+  timeLimitMinutes?: number;
   questions: McqQuestion[];
 };
 
+// where questions picked from the bank should go
+type SingleSkill = "reading" | "listening" | "writing" | "speaking";
+type TestKind = SingleSkill | "mock";
+
+// a full mock takes one existing test per skill, in this order
+const MOCK_SKILLS: SingleSkill[] = ["listening", "reading", "writing", "speaking"];
+type MockModuleDraft = { testSet: string; instructions: string };
+type ExistingTest = { _id: string; title: string; type: string };
+type BandTableOption = { _id: string; name: string; skill: string; isDefault?: boolean };
+
+function emptyMockModules(): Record<SingleSkill, MockModuleDraft> {
+  return {
+    listening: { testSet: "", instructions: "" },
+    reading: { testSet: "", instructions: "" },
+    writing: { testSet: "", instructions: "" },
+    speaking: { testSet: "", instructions: "" },
+  };
+}
+
+type BankTarget = { kind: "reading" | "listening"; blockIdx: number } | { kind: "questions" };
+
+function mcqFromBank(b: BankQuestion): McqQuestion {
+  return {
+    questionType: b.questionType as AutoQuestionType,
+    prompt: b.prompt,
+    options: (b.options || []).map(o => ({ text: o.text })),
+    correctIndex: b.correctIndex ?? 0,
+    correctIndexes: b.correctIndexes,
+    selectCount: b.selectCount,
+    acceptedAnswers: b.acceptedAnswers,
+    caseSensitive: b.caseSensitive,
+    spellingTolerance: b.spellingTolerance,
+    wordLimit: b.wordLimit,
+    imageUrl: b.imageUrl,
+    marks: b.marks ?? 1,
+    explanation: b.explanation || "",
+    bankQuestion: b._id,
+    bankVersion: b.version
+  };
+}
+
+function questionFromBank(b: BankQuestion): Question {
+  if (b.questionType === "speaking") {
+    return {
+      questionType: "speaking",
+      prompt: b.prompt,
+      speakingMode: b.speakingMode || "audio",
+      recordLimitSeconds: b.recordLimitSeconds,
+      marks: b.marks ?? 5,
+      explanation: b.explanation || "",
+      bankQuestion: b._id,
+      bankVersion: b.version
+    };
+  }
+  return {
+    questionType: "writing",
+    prompt: b.prompt,
+    writingType: b.writingType || "story",
+    wordLimit: b.wordLimit,
+    charLimit: b.charLimit,
+    marks: b.marks ?? 5,
+    explanation: b.explanation || "",
+    bankQuestion: b._id,
+    bankVersion: b.version
+  };
+}
+
+function unlinkFromBank<T extends BankLink>(q: T): T {
+  const { bankQuestion, bankVersion, ...rest } = q;
+  return rest as T;
+}
+
 export default function TestCreateForm() {
-  const [type, setType] = useState<"reading" | "listening" | "writing" | "speaking">("reading");
+  const [type, setType] = useState<TestKind>("reading");
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [timeLimitMinutes, setTimeLimitMinutes] = useState<number>(0);
   const [startTime, setStartTime] = useState<string>("");
   const [endTime, setEndTime] = useState<string>("");
+  const [shuffleQuestions, setShuffleQuestions] = useState(false);
+  const [shuffleOptions, setShuffleOptions] = useState(false);
+  const [reviewRequired, setReviewRequired] = useState(false);
 
   const [readingBlocks, setReadingBlocks] = useState<ReadingBlock[]>([]);
   const [listeningBlocks, setListeningBlocks] = useState<ListeningBlock[]>([]);
@@ -76,20 +274,59 @@ export default function TestCreateForm() {
     Record<string, { uploading: boolean; error?: string | null; successMessage?: string }>
   >({});
 
+  const [bankTarget, setBankTarget] = useState<BankTarget | null>(null);
+
+  const [mockModules, setMockModules] = useState<Record<SingleSkill, MockModuleDraft>>(emptyMockModules);
+  const [existingTests, setExistingTests] = useState<ExistingTest[]>([]);
+
+  // raw-to-band table for reading/listening; "" = the skill's default table
+  const [bandTable, setBandTable] = useState<string>("");
+  const [bandTables, setBandTables] = useState<BandTableOption[]>([]);
+
+  // AI grading provider for writing/speaking; null = the deployment default
+  const [gradingProvider, setGradingProvider] = useState<GradingProvider | null>(null);
+
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
 
-  function hardResetAfterTypeChange(newType: "reading" | "listening" | "writing" | "speaking") {
+  // module pickers for a full mock list the single-skill tests already created
+  useEffect(() => {
+    if (type !== "mock") return;
+    (async () => {
+      const res = await api.apiGet("/teacher/tests");
+      if (res.ok && Array.isArray(res.data)) {
+        setExistingTests((res.data as ExistingTest[]).filter(t => t.type !== "mock"));
+      }
+    })();
+  }, [type]);
+
+  useEffect(() => {
+    if (type !== "reading" && type !== "listening") return;
+    (async () => {
+      const res = await api.apiGet(`/admin/band-tables?skill=${type}`);
+      if (res.ok && Array.isArray(res.data)) setBandTables(res.data as BandTableOption[]);
+    })();
+  }, [type]);
+
+  function updateMockModule(skill: SingleSkill, patch: Partial<MockModuleDraft>) {
+    setMockModules(prev => ({ ...prev, [skill]: { ...prev[skill], ...patch } }));
+  }
+
+  function hardResetAfterTypeChange(newType: TestKind) {
     setType(newType);
     setTitle("");
     setDescription("");
     setTimeLimitMinutes(0);
     setStartTime("");
     setEndTime("");
+    setShuffleQuestions(false);
+    setShuffleOptions(false);
     setReadingBlocks([]);
     setListeningBlocks([]);
     setListeningFiles({});
     setListeningUploadState({});
+    setMockModules(emptyMockModules());
+    setBandTable("");
     if (newType === "writing") {
       setQuestions([
         {
@@ -285,27 +522,8 @@ export default function TestCreateForm() {
       const form = new FormData();
       form.append("file", file);
 
-      const API_BASE = process.env.NEXT_PUBLIC_API_URL;
-      const fullUrl = API_BASE + "/media/upload";
-
-      const token = typeof window !== "undefined" ? localStorage.getItem("celts_token") : null;
-      const headers: any = {};
-      if (token) headers["Authorization"] = `Bearer ${token}`;
-
-      const resp = await fetch(fullUrl, {
-        method: "POST",
-        body: form,
-        headers,
-        credentials: "include"
-      });
-
-      const text = await resp.text();
-      let parsed: any = null;
-      try {
-        parsed = text ? JSON.parse(text) : null;
-      } catch {
-        parsed = null;
-      }
+      const resp = await api.apiUpload("/media/upload", form);
+      const parsed: any = resp.ok ? resp.data : resp.error;
 
       if (!resp.ok) {
         setListeningUploadState(prev => ({
@@ -399,6 +617,26 @@ export default function TestCreateForm() {
     setQuestions(prev => prev.filter((_, i) => i !== idx));
   }
 
+  function addFromBank(picked: BankQuestion[]) {
+    if (!bankTarget) return;
+    if (bankTarget.kind === "questions") {
+      setQuestions(prev => [...prev, ...picked.map(questionFromBank)]);
+      return;
+    }
+    const { kind, blockIdx } = bankTarget;
+    const append = <T extends { questions: McqQuestion[] }>(blocks: T[]) =>
+      blocks.map((b, i) => (i === blockIdx ? { ...b, questions: [...b.questions, ...picked.map(mcqFromBank)] } : b));
+    if (kind === "reading") setReadingBlocks(append);
+    else setListeningBlocks(append);
+  }
+
+  function bankTargetLabel(): string | undefined {
+    if (!bankTarget) return undefined;
+    if (bankTarget.kind === "reading") return `Adding to Passage ${bankTarget.blockIdx + 1}`;
+    if (bankTarget.kind === "listening") return `Adding to Audio ${bankTarget.blockIdx + 1}`;
+    return undefined;
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setMessage(null);
@@ -416,6 +654,11 @@ export default function TestCreateForm() {
       timeLimitMinutes,
       startTime: startTime ? new Date(startTime).toISOString() : null,
       endTime: endTime ? new Date(endTime).toISOString() : null,
+      shuffleQuestions,
+      shuffleOptions: (type === "reading" || type === "listening") && shuffleOptions,
+      bandTable: (type === "reading" || type === "listening") && bandTable ? bandTable : null,
+      gradingProvider: (type === "writing" || type === "speaking") ? gradingProvider : null,
+      reviewRequired,
       published: false
     };
 
@@ -436,13 +679,9 @@ export default function TestCreateForm() {
           return;
         }
         for (let qIdx = 0; qIdx < block.questions.length; qIdx++) {
-          const q = block.questions[qIdx];
-          if (!q.prompt.trim()) {
-            setMessage(`Passage ${bIdx + 1} – Question ${qIdx + 1} missing prompt.`);
-            return;
-          }
-          if (q.options.length < 2) {
-            setMessage(`Passage ${bIdx + 1} – Question ${qIdx + 1} must have at least 2 options.`);
+          const problem = validateAutoQuestion(block.questions[qIdx]);
+          if (problem) {
+            setMessage(`Passage ${bIdx + 1} – Question ${qIdx + 1} ${problem}.`);
             return;
           }
         }
@@ -451,19 +690,12 @@ export default function TestCreateForm() {
       const readingSections = readingBlocks.map((b, idx) => ({
         id: b.id,
         title: `Passage ${idx + 1}`,
-        passage: b.passage
+        passage: b.passage,
+        timeLimitMinutes: b.timeLimitMinutes || 0
       }));
 
       const flatQuestions = readingBlocks.flatMap(b =>
-        b.questions.map(q => ({
-          questionType: "mcq",
-          prompt: q.prompt,
-          options: q.options.map(o => ({ text: o.text })),
-          correctIndex: q.correctIndex,
-          marks: q.marks || 1,
-          explanation: q.explanation || "",
-          sectionId: b.id
-        }))
+        b.questions.map(q => autoQuestionPayload(q, b.id))
       );
 
       payload.readingSections = readingSections;
@@ -487,13 +719,9 @@ export default function TestCreateForm() {
           return;
         }
         for (let qIdx = 0; qIdx < block.questions.length; qIdx++) {
-          const q = block.questions[qIdx];
-          if (!q.prompt.trim()) {
-            setMessage(`Audio ${bIdx + 1} – Question ${qIdx + 1} missing prompt.`);
-            return;
-          }
-          if (q.options.length < 2) {
-            setMessage(`Audio ${bIdx + 1} – Question ${qIdx + 1} must have at least 2 options.`);
+          const problem = validateAutoQuestion(block.questions[qIdx]);
+          if (problem) {
+            setMessage(`Audio ${bIdx + 1} – Question ${qIdx + 1} ${problem}.`);
             return;
           }
         }
@@ -503,25 +731,33 @@ export default function TestCreateForm() {
         id: b.id,
         title: `Audio ${idx + 1}`,
         audioUrl: b.audioUrl,
-        listenLimit: b.listenLimit ?? 1
+        listenLimit: b.listenLimit ?? 1,
+        timeLimitMinutes: b.timeLimitMinutes || 0
       }));
 
       const flatQuestions = listeningBlocks.flatMap(b =>
-        b.questions.map(q => ({
-          questionType: "mcq",
-          prompt: q.prompt,
-          options: q.options.map(o => ({ text: o.text })),
-          correctIndex: q.correctIndex,
-          marks: q.marks || 1,
-          explanation: q.explanation || "",
-          sectionId: b.id
-        }))
+        b.questions.map(q => autoQuestionPayload(q, b.id))
       );
 
       payload.listeningSections = listeningSections;
       payload.questions = flatQuestions;
     }
 
+    if (type === "mock") {
+      const missing = MOCK_SKILLS.find(skill => !mockModules[skill].testSet);
+      if (missing) {
+        setMessage(`Choose a ${missing} test.`);
+        return;
+      }
+      payload.timeLimitMinutes = 0;
+      payload.shuffleQuestions = false;
+      payload.modules = MOCK_SKILLS.map(skill => ({
+        skill,
+        testSet: mockModules[skill].testSet,
+        instructions: mockModules[skill].instructions.trim(),
+      }));
+    }
+
     if (type === "writing" || type === "speaking") {
       if (questions.length === 0) {
         setMessage("Add at least one question.");
@@ -534,6 +770,10 @@ export default function TestCreateForm() {
           setMessage(`Question ${i + 1} missing prompt.`);
           return;
         }
+        if (q.questionType === "writing" && richTextImages(q.prompt).some(img => !img.description.trim())) {
+          setMessage(`Question ${i + 1} has an image without a description; the AI examiner grades against the description.`);
+          return;
+        }
       }
 
       payload.questions = questions.map(q => {
@@ -546,7 +786,9 @@ export default function TestCreateForm() {
             wordLimit: w.wordLimit,
             charLimit: w.charLimit,
             marks: w.marks || 5,
-            explanation: w.explanation || ""
+            explanation: w.explanation || "",
+            bankQuestion: w.bankQuestion,
+            bankVersion: w.bankVersion
           };
         } else {
           const s = q as QuestionSpeaking;
@@ -555,8 +797,11 @@ export default function TestCreateForm() {
             prompt: s.prompt,
             speakingMode: s.speakingMode || "audio",
             recordLimitSeconds: s.recordLimitSeconds,
+            timeLimitSeconds: s.timeLimitSeconds || undefined,
             marks: s.marks || 5,
-            explanation: s.explanation || ""
+            explanation: s.explanation || "",
+            bankQuestion: s.bankQuestion,
+            bankVersion: s.bankVersion
           };
         }
       });
@@ -575,14 +820,19 @@ export default function TestCreateForm() {
         return;
       }
 
-      setMessage("Test created successfully");
+      setMessage("Test saved as draft version 1. Publish it from Your Tests when it is ready.");
       setType("reading");
       setTitle("");
       setDescription("");
+      setShuffleQuestions(false);
+      setShuffleOptions(false);
+      setReviewRequired(false);
       setReadingBlocks([]);
       setListeningBlocks([]);
       setListeningFiles({});
       setListeningUploadState({});
+      setMockModules(emptyMockModules());
+      setBandTable("");
       setQuestions([
         {
           questionType: "writing",
@@ -598,49 +848,155 @@ export default function TestCreateForm() {
     }
   }
 
+  function renderBankLink(link: BankLink, onUnlink: () => void) {
+    if (!link.bankQuestion) return null;
+    return (
+      <div className="mb-3 flex items-center justify-between rounded-md bg-indigo-50 px-3 py-2 text-xs text-indigo-700">
+        <span>From question bank (v{link.bankVersion ?? 1}). Bank edits apply until the test is attempted.</span>
+        <Button type="button" size="sm" variant="outline" onClick={onUnlink}>
+          Unlink to edit
+        </Button>
+      </div>
+    );
+  }
+
   function renderMcqEditor(q: McqQuestion, blockIdx: number, qIdx: number, onChange: (updated: McqQuestion) => void, onRemove: () => void) {
+    const linked = !!q.bankQuestion;
+    const qt = autoTypeOf(q);
+    const isText = TEXT_ANSWER_TYPES.includes(qt);
+    const isMulti = qt === "multi_select";
+    const correctIndexes = q.correctIndexes || [];
+
+    function toggleCorrect(oi: number) {
+      if (isMulti) {
+        const next = correctIndexes.includes(oi) ? correctIndexes.filter(i => i !== oi) : [...correctIndexes, oi].sort((a, b) => a - b);
+        onChange({ ...q, correctIndexes: next });
+      } else {
+        onChange({ ...q, correctIndex: oi });
+      }
+    }
+
     return (
       <div className="border border-slate-200 rounded-lg p-4 mb-4 bg-white shadow-sm" key={qIdx}>
-        <div>
-          <label className="text-xs font-medium text-slate-700 block mb-2">Question prompt</label>
-          <Input value={q.prompt} onChange={e => onChange({ ...q, prompt: e.target.value })} className="bg-slate-50" />
+        {renderBankLink(q, () => onChange(unlinkFromBank(q)))}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="md:col-span-2">
+            <label className="text-xs font-medium text-slate-700 block mb-2">
+              {qt === "matching_headings" ? "Paragraph / section to match" : isText ? "Sentence or note (use ___ for the gap)" : "Question prompt"}
+            </label>
+            <RichTextEditor value={q.prompt} disabled={linked} heightClass="h-20" onChange={prompt => onChange({ ...q, prompt })} />
+          </div>
+          <div>
+            <label className="text-xs font-medium text-slate-700 block mb-2">Question type</label>
+            <select
+              value={qt}
+              disabled={linked}
+              onChange={e => onChange(retypeAutoQuestion(q, e.target.value as AutoQuestionType))}
+              className="w-full p-2 border rounded-md bg-white text-sm"
+            >
+              {AUTO_QUESTION_TYPES.map(t => (
+                <option key={t.value} value={t.value}>{t.label}</option>
+              ))}
+            </select>
+          </div>
         </div>
 
-        <div className="mt-3">
-          <label className="text-xs font-medium text-slate-700 block mb-2">Options (select the correct one)</label>
-
-          <div className="space-y-2">
-            {q.options.map((opt, oi) => (
-              <div key={oi} className="flex items-center gap-3">
-                <input type="radio" checked={q.correctIndex === oi} onChange={() => onChange({ ...q, correctIndex: oi })} className="h-4 w-4 text-indigo-600" />
-                <Input
-                  value={opt.text}
-                  onChange={e => {
-                    const newOpts = q.options.map((o, idx) => (idx === oi ? { text: e.target.value } : o));
-                    onChange({ ...q, options: newOpts });
-                  }}
-                  className="flex-1"
-                />
-                <Button type="button" size="sm" variant="outline" disabled={q.options.length <= 2} onClick={() => {
-                  const newOpts = q.options.filter((_, idx) => idx !== oi);
-                  onChange({
-                    ...q,
-                    options: newOpts,
-                    correctIndex: Math.min(q.correctIndex, newOpts.length - 1)
-                  });
-                }}>
-                  Remove
+        {qt === "map_labelling" && (
+          <div className="mt-3">
+            <label className="text-xs font-medium text-slate-700 block mb-2">Map / diagram image URL</label>
+            <Input value={q.imageUrl || ""} disabled={linked} onChange={e => onChange({ ...q, imageUrl: e.target.value })} />
+          </div>
+        )}
+
+        {isText ? (
+          <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="md:col-span-3">
+              <label className="text-xs font-medium text-slate-700 block mb-2">Accepted answers (one per line)</label>
+              <textarea
+                value={(q.acceptedAnswers || []).join("\n")}
+                disabled={linked}
+                onChange={e => onChange({ ...q, acceptedAnswers: e.target.value.split("\n") })}
+                className="w-full p-2 border border-slate-200 rounded-md h-20 text-sm bg-white"
+              />
+            </div>
+            <div>
+              <label className="text-xs font-medium text-slate-700 block mb-2">Word limit</label>
+              <Input type="number" min={0} value={q.wordLimit ?? ""} disabled={linked} onChange={e => onChange({ ...q, wordLimit: e.target.value ? Number(e.target.value) : undefined })} />
+            </div>
+            <div>
+              <label className="text-xs font-medium text-slate-700 block mb-2">Spelling tolerance</label>
+              <select
+                value={q.spellingTolerance ?? 0}
+                disabled={linked}
+                onChange={e => onChange({ ...q, spellingTolerance: Number(e.target.value) })}
+                className="w-full p-2 border rounded-md bg-white text-sm"
+              >
+                <option value={0}>Exact spelling</option>
+                <option value={1}>1 letter off</option>
+                <option value={2}>2 letters off</option>
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-slate-700 mt-6">
+              <input type="checkbox" checked={!!q.caseSensitive} disabled={linked} onChange={e => onChange({ ...q, caseSensitive: e.target.checked })} className="h-4 w-4" />
+              Case-sensitive
+            </label>
+          </div>
+        ) : (
+          <div className="mt-3">
+            <label className="text-xs font-medium text-slate-700 block mb-2">
+              {isMulti ? "Options (tick every correct one)" : qt === "matching_headings" ? "Headings (select the correct one)" : "Options (select the correct one)"}
+            </label>
+
+            <div className="space-y-2">
+              {q.options.map((opt, oi) => (
+                <div key={oi} className="flex items-center gap-3">
+                  <input
+                    type={isMulti ? "checkbox" : "radio"}
+                    checked={isMulti ? correctIndexes.includes(oi) : q.correctIndex === oi}
+                    disabled={linked}
+                    onChange={() => toggleCorrect(oi)}
+                    className="h-4 w-4 text-indigo-600"
+                  />
+                  <Input
+                    value={opt.text}
+                    disabled={linked}
+                    onChange={e => {
+                      const newOpts = q.options.map((o, idx) => (idx === oi ? { text: e.target.value } : o));
+                      onChange({ ...q, options: newOpts });
+                    }}
+                    className="flex-1"
+                  />
+                  <Button type="button" size="sm" variant="outline" disabled={linked || q.options.length <= 2} onClick={() => {
+                    const newOpts = q.options.filter((_, idx) => idx !== oi);
+                    onChange({
+                      ...q,
+                      options: newOpts,
+                      correctIndex: Math.min(q.correctIndex, newOpts.length - 1),
+                      correctIndexes: isMulti
+                        ? correctIndexes.filter(i => i !== oi).map(i => (i > oi ? i - 1 : i))
+                        : q.correctIndexes
+                    });
+                  }}>
+                    Remove
+                  </Button>
+                </div>
+              ))}
+
+              <div>
+                <Button type="button" size="sm" disabled={linked} onClick={() => onChange({ ...q, options: [...q.options, { text: "" }] })}>
+                  Add option
                 </Button>
               </div>
-            ))}
-
-            <div>
-              <Button type="button" size="sm" onClick={() => onChange({ ...q, options: [...q.options, { text: "" }] })}>
-                Add option
-              </Button>
             </div>
+
+            {isMulti && (
+              <div className="mt-3 max-w-xs">
+                <label className="text-xs font-medium text-slate-700 block mb-2">Students choose</label>
+                <Input type="number" min={1} value={q.selectCount ?? ""} disabled={linked} onChange={e => onChange({ ...q, selectCount: e.target.value ? Number(e.target.value) : undefined })} />
+              </div>
+            )}
           </div>
-        </div>
+        )}
 
         <div className="mt-3 grid grid-cols-2 gap-3">
           <div>
@@ -650,7 +1006,7 @@ export default function TestCreateForm() {
 
           <div>
             <label className="text-xs font-medium text-slate-700 block mb-2">Explanation (optional)</label>
-            <Input value={q.explanation || ""} onChange={e => onChange({ ...q, explanation: e.target.value })} />
+            <Input value={q.explanation || ""} disabled={linked} onChange={e => onChange({ ...q, explanation: e.target.value })} />
           </div>
         </div>
 
@@ -717,14 +1073,17 @@ export default function TestCreateForm() {
                     <option value="listening">Listening</option>
                     <option value="writing">Writing</option>
                     <option value="speaking">Speaking</option>
+                    <option value="mock">Full mock (all four)</option>
                   </select>
                 </div>
 
                 {/* TIME LIMIT */}
-                <div className="md:col-span-1">
-                  <label className="text-xs text-slate-700 block mb-2">Time limit (minutes)</label>
-                  <Input type="number" value={timeLimitMinutes} onChange={e => setTimeLimitMinutes(Number(e.target.value || 0))} />
-                </div>
+                {type !== "mock" && (
+                  <div className="md:col-span-1">
+                    <label className="text-xs text-slate-700 block mb-2">Time limit (minutes)</label>
+                    <Input type="number" value={timeLimitMinutes} onChange={e => setTimeLimitMinutes(Number(e.target.value || 0))} />
+                  </div>
+                )}
 
                 {/* START TIME */}
                 <div className="md:col-span-1">
@@ -746,6 +1105,58 @@ export default function TestCreateForm() {
                   />
                 </div>
 
+                {/* SHUFFLING */}
+                {type !== "mock" && (
+                  <div className="md:col-span-3 flex flex-wrap gap-6 text-sm text-slate-700">
+                    <label className="flex items-center gap-2">
+                      <input type="checkbox" checked={shuffleQuestions} onChange={e => setShuffleQuestions(e.target.checked)} className="h-4 w-4" />
+                      Shuffle question order per student
+                      {(type === "reading" || type === "listening") && (
+                        <span className="text-xs text-slate-500">(within each {type === "reading" ? "passage" : "audio"})</span>
+                      )}
+                    </label>
+                    {(type === "reading" || type === "listening") && (
+                      <label className="flex items-center gap-2">
+                        <input type="checkbox" checked={shuffleOptions} onChange={e => setShuffleOptions(e.target.checked)} className="h-4 w-4" />
+                        Shuffle MCQ options per student
+                      </label>
+                    )}
+                  </div>
+                )}
+
+                {/* REVIEW */}
+                <div className="md:col-span-3 text-sm text-slate-700">
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={reviewRequired} onChange={e => setReviewRequired(e.target.checked)} className="h-4 w-4" />
+                    Require another reviewer to approve each version before it is published
+                  </label>
+                </div>
+
+                {/* BAND TABLE */}
+                {(type === "reading" || type === "listening") && (
+                  <div className="md:col-span-3">
+                    <label className="text-xs text-slate-700 block mb-2">Band conversion table</label>
+                    <select
+                      value={bandTable}
+                      onChange={e => setBandTable(e.target.value)}
+                      className="w-full p-2 border rounded-md bg-white"
+                    >
+                      <option value="">Default ({bandTables.find(t => t.isDefault)?.name || type})</option>
+                      {bandTables.filter(t => !t.isDefault).map(t => (
+                        <option key={t._id} value={t._id}>{t.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {/* GRADING PROVIDER */}
+                {(type === "writing" || type === "speaking") && (
+                  <div className="md:col-span-3">
+                    <label className="text-xs text-slate-700 block mb-2">AI grading provider</label>
+                    <GradingProviderSelect value={gradingProvider} onChange={setGradingProvider} />
+                  </div>
+                )}
+
                 {/* DESCRIPTION */}
                 <div className="md:col-span-3">
                   <label className="text-xs text-slate-700 block mb-2">Description</label>
@@ -758,6 +1169,45 @@ export default function TestCreateForm() {
               </div>
             </div>
 
+            {/* MOCK MODULES */}
+            {type === "mock" && (
+              <div className="bg-white border border-slate-100 rounded-xl shadow-sm p-6 space-y-4">
+                <div>
+                  <h3 className="text-md font-medium text-slate-900">Modules</h3>
+                  <p className="text-xs text-slate-500 mt-1">
+                    Students take these in order; each module keeps its own test&apos;s timer.
+                  </p>
+                </div>
+
+                {MOCK_SKILLS.map((skill, idx) => (
+                  <div key={skill} className="p-4 border rounded-md bg-slate-50 space-y-3">
+                    <div className="text-sm font-medium text-slate-800 capitalize">{idx + 1}. {skill}</div>
+                    <div>
+                      <label className="text-xs text-slate-700 block mb-2">Test</label>
+                      <select
+                        value={mockModules[skill].testSet}
+                        onChange={e => updateMockModule(skill, { testSet: e.target.value })}
+                        className="w-full p-2 border rounded-md bg-white"
+                      >
+                        <option value="">Select a {skill} test</option>
+                        {existingTests.filter(t => t.type === skill).map(t => (
+                          <option key={t._id} value={t._id}>{t.title}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="text-xs text-slate-700 block mb-2">Instructions (optional)</label>
+                      <textarea
+                        value={mockModules[skill].instructions}
+                        onChange={e => updateMockModule(skill, { instructions: e.target.value })}
+                        className="w-full p-3 border border-slate-200 rounded-md h-20 text-sm bg-white"
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* READING BLOCKS */}
             {type === "reading" && (
               <div className="bg-white border border-slate-100 rounded-xl shadow-sm p-6 space-y-4">
@@ -776,7 +1226,7 @@ export default function TestCreateForm() {
                     <div className="flex items-center justify-between mb-3">
                       <div>
                         <div className="text-sm font-medium text-slate-800">Passage {bIdx + 1}</div>
-                        <div className="text-xs text-slate-500">Provide the passage text below</div>
+                        <div className="text-xs text-slate-500">Headings, tables and images are supported; Preview shows it as students see it</div>
                       </div>
                       <Button type="button" variant="outline" onClick={() => removeReadingBlock(bIdx)}>
                         Remove Passage
@@ -784,18 +1234,33 @@ export default function TestCreateForm() {
                     </div>
 
                     <label className="text-xs text-slate-700 block mb-2">Passage text</label>
-                    <textarea
+                    <RichTextEditor
                       value={block.passage}
-                      onChange={e => updateReadingBlock(bIdx, { passage: e.target.value })}
-                      className="w-full p-3 border border-slate-200 rounded-md h-36 text-sm"
+                      onChange={passage => updateReadingBlock(bIdx, { passage })}
+                      heightClass="h-48"
                     />
 
+                    <div className="mt-3 max-w-xs">
+                      <label className="text-xs text-slate-700 block mb-2">Section time limit (minutes, 0 = none)</label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={block.timeLimitMinutes ?? 0}
+                        onChange={e => updateReadingBlock(bIdx, { timeLimitMinutes: Number(e.target.value || 0) })}
+                      />
+                    </div>
+
                     <div className="mt-4">
                       <div className="flex items-center justify-between mb-2">
                         <div className="text-sm font-medium text-slate-800">MCQs for this passage</div>
-                        <Button type="button" size="sm" onClick={() => addMcqToReadingBlock(bIdx)}>
-                          Add MCQ
-                        </Button>
+                        <div className="flex gap-2">
+                          <Button type="button" size="sm" variant="outline" onClick={() => setBankTarget({ kind: "reading", blockIdx: bIdx })}>
+                            From bank
+                          </Button>
+                          <Button type="button" size="sm" onClick={() => addMcqToReadingBlock(bIdx)}>
+                            Add MCQ
+                          </Button>
+                        </div>
                       </div>
 
                       {block.questions.map((q, qIdx) =>
@@ -843,7 +1308,7 @@ export default function TestCreateForm() {
                         </Button>
                       </div>
 
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                         <div className="md:col-span-2">
                           <label className="text-xs text-slate-700 block mb-2">Audio URL (auto)</label>
                           <Input value={block.audioUrl} readOnly placeholder="Upload a file to set this URL" />
@@ -862,6 +1327,16 @@ export default function TestCreateForm() {
                             }
                           />
                         </div>
+
+                        <div>
+                          <label className="text-xs text-slate-700 block mb-2">Section time limit (min)</label>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={block.timeLimitMinutes ?? 0}
+                            onChange={e => updateListeningBlock(bIdx, { timeLimitMinutes: Number(e.target.value || 0) })}
+                          />
+                        </div>
                       </div>
 
                       <div className="mt-3">
@@ -880,9 +1355,14 @@ export default function TestCreateForm() {
                       <div className="mt-4">
                         <div className="flex items-center justify-between mb-2">
                           <div className="text-sm font-medium text-slate-800">MCQs for this audio</div>
-                          <Button type="button" size="sm" onClick={() => addMcqToListeningBlock(bIdx)}>
-                            Add MCQ
-                          </Button>
+                          <div className="flex gap-2">
+                            <Button type="button" size="sm" variant="outline" onClick={() => setBankTarget({ kind: "listening", blockIdx: bIdx })}>
+                              From bank
+                            </Button>
+                            <Button type="button" size="sm" onClick={() => addMcqToListeningBlock(bIdx)}>
+                              Add MCQ
+                            </Button>
+                          </div>
                         </div>
 
                         {block.questions.map((q, qIdx) =>
@@ -908,6 +1388,9 @@ export default function TestCreateForm() {
                   <h3 className="text-md font-medium text-slate-900">Questions</h3>
 
                   <div className="flex gap-2">
+                    <Button type="button" variant="outline" onClick={() => setBankTarget({ kind: "questions" })}>
+                      From bank
+                    </Button>
                     {type === "writing" && (
                       <Button type="button" onClick={() => addQuestionOfType("writing")}>
                         Add Writing
@@ -923,6 +1406,7 @@ export default function TestCreateForm() {
 
                 {questions.map((q, i) => (
                   <div key={i} className="border border-slate-100 rounded-lg p-4 bg-white">
+                    {renderBankLink(q, () => updateQuestion(i, unlinkFromBank(q)))}
 
                     {/* STRICT QUESTION TYPE - LOCKED */}
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
@@ -939,7 +1423,13 @@ export default function TestCreateForm() {
 
                       <div className="md:col-span-2">
                         <label className="text-xs text-slate-700 block mb-2">Prompt</label>
-                        <Input value={q.prompt} onChange={e => updateQuestion(i, { ...(q as any), prompt: e.target.value })} />
+                        <RichTextEditor
+                          value={q.prompt}
+                          disabled={!!q.bankQuestion}
+                          heightClass="h-28"
+                          gradedTask={q.questionType === "writing"}
+                          onChange={prompt => updateQuestion(i, { ...(q as any), prompt })}
+                        />
                       </div>
                     </div>
 
@@ -952,6 +1442,7 @@ export default function TestCreateForm() {
                             <label className="text-xs text-slate-700 block mb-2">Writing type</label>
                             <select
                               value={wq.writingType}
+                              disabled={!!wq.bankQuestion}
                               onChange={e => updateQuestion(i, { ...wq, writingType: e.target.value })}
                               className="w-full p-2 border rounded-md"
                             >
@@ -965,7 +1456,7 @@ export default function TestCreateForm() {
 
                           <div>
                             <label className="text-xs text-slate-700 block mb-2">Word limit</label>
-                            <Input type="number" value={wq.wordLimit ?? ""} onChange={e => updateQuestion(i, { ...wq, wordLimit: e.target.value ? Number(e.target.value) : undefined })} />
+                            <Input type="number" value={wq.wordLimit ?? ""} disabled={!!wq.bankQuestion} onChange={e => updateQuestion(i, { ...wq, wordLimit: e.target.value ? Number(e.target.value) : undefined })} />
                           </div>
 
                           <div>
@@ -980,11 +1471,12 @@ export default function TestCreateForm() {
                     {q.questionType === "speaking" && (() => {
                       const sq = q as QuestionSpeaking;
                       return (
-                        <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <div className="mt-4 grid grid-cols-1 md:grid-cols-4 gap-3">
                           <div>
                             <label className="text-xs text-slate-700 block mb-2">Speaking mode</label>
                             <select
                               value={sq.speakingMode}
+                              disabled={!!sq.bankQuestion}
                               onChange={e => updateQuestion(i, { ...sq, speakingMode: e.target.value as any })}
                               className="w-full p-2 border rounded-md"
                             >
@@ -996,7 +1488,12 @@ export default function TestCreateForm() {
 
                           <div>
                             <label className="text-xs text-slate-700 block mb-2">Record limit (seconds)</label>
-                            <Input type="number" value={sq.recordLimitSeconds ?? 60} onChange={e => updateQuestion(i, { ...sq, recordLimitSeconds: Number(e.target.value || 0) })} />
+                            <Input type="number" value={sq.recordLimitSeconds ?? 60} disabled={!!sq.bankQuestion} onChange={e => updateQuestion(i, { ...sq, recordLimitSeconds: Number(e.target.value || 0) })} />
+                          </div>
+
+                          <div>
+                            <label className="text-xs text-slate-700 block mb-2">Prompt time limit (s, 0 = none)</label>
+                            <Input type="number" min={0} value={sq.timeLimitSeconds ?? 0} onChange={e => updateQuestion(i, { ...sq, timeLimitSeconds: Number(e.target.value || 0) })} />
                           </div>
 
                           <div>
@@ -1027,6 +1524,7 @@ export default function TestCreateForm() {
               <div className="mt-3 text-xs text-slate-600 space-y-1">
                 <div>Type: <span className="font-medium text-slate-800">{type}</span></div>
                 <div>Time limit: <span className="font-medium text-slate-800">{timeLimitMinutes || "None"}</span></div>
+                <div>Shuffling: <span className="font-medium text-slate-800">{[shuffleQuestions && "questions", shuffleOptions && (type === "reading" || type === "listening") && "options"].filter(Boolean).join(" + ") || "Off"}</span></div>
                 <div>Reading blocks: <span className="font-medium text-slate-800">{readingBlocks.length}</span></div>
                 <div>Listening blocks: <span className="font-medium text-slate-800">{listeningBlocks.length}</span></div>
                 <div>Writing/Speaking questions: <span className="font-medium text-slate-800">{questions.length}</span></div>
@@ -1049,14 +1547,24 @@ export default function TestCreateForm() {
             <div className="bg-white border border-slate-100 rounded-xl shadow-sm p-4 text-sm text-slate-500">
               Tips:
               <ul className="list-disc list-inside mt-2 text-xs text-slate-500 space-y-1">
-                <li>Reading/Listening always use MCQs.</li>
+                <li>Reading/Listening questions are auto-graded: choice types, TFNG, headings, map labelling and short typed answers.</li>
                 <li>Writing questions only appear in Writing type.</li>
                 <li>Speaking questions only appear in Speaking type.</li>
+                <li>A full mock reuses one existing test per skill.</li>
+                <li>Questions pulled from the bank keep a link to it; unlink one to edit it here.</li>
               </ul>
             </div>
           </aside>
         </div>
       </form>
+
+      <QuestionBankPicker
+        open={bankTarget !== null}
+        onOpenChange={open => !open && setBankTarget(null)}
+        skill={type === "mock" ? "reading" : type}
+        targetLabel={bankTargetLabel()}
+        onAdd={addFromBank}
+      />
     </>
   );
 }
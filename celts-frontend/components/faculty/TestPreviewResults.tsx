@@ -0,0 +1,208 @@
+"use client";
+
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, XCircle, MinusCircle, Loader2 } from "lucide-react";
+import { RichText } from "@/components/RichText";
+
+interface PreviewQuestion {
+  _id?: string;
+  questionType: string;
+  prompt: string;
+  options?: { text: string }[];
+  correctIndex?: number;
+  correctIndexes?: number[];
+  acceptedAnswers?: string[];
+  wordLimit?: number;
+  speakingMode?: string;
+  marks?: number;
+  explanation?: string;
+}
+
+interface GradedQuestion {
+  questionId: string | null;
+  index: number;
+  marks: number;
+  attempted: boolean;
+  correct: boolean;
+  earned: number;
+}
+
+// what POST /teacher/tests/:id/preview/grade returns
+export interface PreviewGrade {
+  autoGraded: boolean;
+  earnedMarks?: number;
+  maxMarks?: number;
+  correctCount?: number;
+  incorrectCount?: number;
+  unattemptedCount?: number;
+  bandScore?: number;
+  questions?: GradedQuestion[];
+}
+
+interface TestPreviewResultsProps {
+  title: string;
+  type: string;
+  questions: PreviewQuestion[];
+  // runner answers and recordings, keyed by question id (or index)
+  answers: Record<string, any>;
+  recordings: Record<string, string>;
+  grade: PreviewGrade | null;
+  gradeError: string | null;
+  onRestart: () => void;
+  onExit: () => void;
+}
+
+const optionText = (q: PreviewQuestion, i: number) => q.options?.[i]?.text || `Option ${i + 1}`;
+
+function describeGiven(q: PreviewQuestion, ans: any): string | null {
+  if (q.questionType === "multi_select") {
+    const picked: number[] = Array.isArray(ans?.selectedIndexes) ? ans.selectedIndexes : [];
+    return picked.length ? picked.map((i) => optionText(q, i)).join(", ") : null;
+  }
+  if (typeof ans?.selectedIndex === "number") return optionText(q, ans.selectedIndex);
+  return typeof ans?.text === "string" && ans.text.trim() ? ans.text : null;
+}
+
+function describeKey(q: PreviewQuestion): string {
+  if (q.questionType === "gap_fill" || q.questionType === "sentence_completion") {
+    const accepted = (q.acceptedAnswers || []).join(" / ") || "none";
+    return `${accepted}${q.wordLimit ? ` (max ${q.wordLimit} word${q.wordLimit === 1 ? "" : "s"})` : ""}`;
+  }
+  const correct = q.questionType === "multi_select" ? q.correctIndexes || [] : [q.correctIndex ?? 0];
+  return correct.map((i) => optionText(q, i)).join(", ");
+}
+
+function Outcome({ result }: { result?: GradedQuestion }) {
+  if (!result) return null;
+  if (!result.attempted) {
+    return (
+      <span className="flex items-center gap-1 text-slate-500">
+        <MinusCircle className="w-4 h-4" /> Not answered · 0 / {result.marks}
+      </span>
+    );
+  }
+  return (
+    <span className={`flex items-center gap-1 ${result.correct ? "text-green-700" : result.earned > 0 ? "text-amber-700" : "text-red-600"}`}>
+      {result.correct ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+      {result.earned} / {result.marks}
+    </span>
+  );
+}
+
+export function TestPreviewResults({
+  title,
+  type,
+  questions,
+  answers,
+  recordings,
+  grade,
+  gradeError,
+  onRestart,
+  onExit,
+}: TestPreviewResultsProps) {
+  const resultFor = (index: number) => grade?.questions?.find((r) => r.index === index);
+
+  return (
+    <div className="w-screen min-h-screen bg-gradient-to-b from-indigo-50 via-violet-50 to-white flex justify-center p-8">
+      <div className="max-w-[1000px] w-full space-y-6">
+        <Card className="p-6 space-y-4 shadow-lg">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <div className="text-xs uppercase tracking-wide text-amber-700 font-semibold">Preview result</div>
+              <h1 className="text-2xl font-bold text-slate-800 mt-1">{title}</h1>
+              <p className="text-sm text-slate-500 mt-1">Nothing from this preview was saved.</p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={onRestart}>Preview again</Button>
+              <Button onClick={onExit} className="bg-indigo-600 hover:bg-indigo-700 text-white">Close preview</Button>
+            </div>
+          </div>
+
+          {!grade && !gradeError && (
+            <div className="flex items-center gap-2 text-slate-600">
+              <Loader2 className="w-4 h-4 animate-spin" /> Grading…
+            </div>
+          )}
+          {gradeError && <div className="text-sm text-red-600">{gradeError}</div>}
+          {grade && grade.autoGraded && (
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-center">
+              <div className="rounded-md bg-indigo-50 p-3">
+                <div className="text-xs text-slate-500">Band</div>
+                <div className="text-2xl font-bold text-indigo-700">{grade.bandScore}</div>
+              </div>
+              <div className="rounded-md bg-slate-50 p-3">
+                <div className="text-xs text-slate-500">Marks</div>
+                <div className="text-2xl font-semibold text-slate-800">{grade.earnedMarks} / {grade.maxMarks}</div>
+              </div>
+              <div className="rounded-md bg-green-50 p-3">
+                <div className="text-xs text-slate-500">Correct</div>
+                <div className="text-2xl font-semibold text-green-700">{grade.correctCount}</div>
+              </div>
+              <div className="rounded-md bg-red-50 p-3">
+                <div className="text-xs text-slate-500">Incorrect</div>
+                <div className="text-2xl font-semibold text-red-600">{grade.incorrectCount}</div>
+              </div>
+              <div className="rounded-md bg-slate-50 p-3">
+                <div className="text-xs text-slate-500">Not answered</div>
+                <div className="text-2xl font-semibold text-slate-600">{grade.unattemptedCount}</div>
+              </div>
+            </div>
+          )}
+          {grade && !grade.autoGraded && (
+            <div className="text-sm bg-slate-50 text-slate-600 p-3 rounded-md border">
+              {type === "speaking" ? "Speaking" : "Writing"} responses are graded against the rubric after a real
+              submission, so a preview has no automatic score. The responses you gave are below.
+            </div>
+          )}
+        </Card>
+
+        {questions.map((q, i) => {
+          const key = q._id || String(i);
+          const ans = answers[key];
+          const isTask = q.questionType === "writing" || q.questionType === "speaking";
+          return (
+            <Card key={key} className="p-5 space-y-3 shadow-sm">
+              <div className="flex items-start justify-between gap-4">
+                <div className="font-medium text-slate-800 flex gap-1.5 min-w-0">
+                  <span className="shrink-0">{isTask ? `Task ${i + 1}` : `Q${i + 1}`}.</span>
+                  <RichText text={q.prompt} className="min-w-0" />
+                </div>
+                <div className="text-sm whitespace-nowrap">
+                  {isTask ? <span className="text-slate-500">{q.marks ?? "-"} marks</span> : <Outcome result={resultFor(i)} />}
+                </div>
+              </div>
+
+              {q.questionType === "speaking" ? (
+                recordings[key] ? (
+                  q.speakingMode === "video" ? (
+                    <video src={recordings[key]} controls className="w-full max-h-64 rounded-md bg-black" />
+                  ) : (
+                    <audio src={recordings[key]} controls className="w-full" />
+                  )
+                ) : (
+                  <div className="text-sm text-slate-500">No recording.</div>
+                )
+              ) : (
+                <div className="text-sm">
+                  <span className="text-slate-500">Your answer: </span>
+                  <span className={isTask ? "whitespace-pre-wrap text-slate-800" : "text-slate-800"}>
+                    {describeGiven(q, ans) ?? <em className="text-slate-400">none</em>}
+                  </span>
+                </div>
+              )}
+
+              {!isTask && (
+                <div className="text-sm text-green-700">
+                  <span className="text-slate-500">Correct answer: </span>
+                  {describeKey(q)}
+                </div>
+              )}
+              {q.explanation && <div className="text-sm text-slate-500 whitespace-pre-wrap">Explanation: {q.explanation}</div>}
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
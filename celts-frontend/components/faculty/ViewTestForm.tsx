@@ -12,8 +12,14 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import api from "@/lib/api";
+import { confirmSoftDelete } from "@/lib/recycleBin";
+import { hasCapability } from "@/lib/permissions";
 import { useRouter } from "next/navigation";
-import { Trash2, Layers, Eye, Shield } from "lucide-react";
+import { Trash2, Layers, Eye, Shield, History, Download, MonitorPlay } from "lucide-react";
+import { QtiImport } from "./QtiImport";
+import { RichTextEditor } from "./RichTextEditor";
+import { richTextImages, richTextToPlain } from "@/lib/richText";
+import { GradingProviderSelect, type GradingProvider } from "./GradingProviderSelect";
 
 type Option = { text: string };
 
@@ -24,17 +30,70 @@ type Question = {
   correctIndex?: number;
   marks?: number;
   explanation?: string;
-  questionType?: "mcq" | "writing" | "speaking";
+  questionType?: "mcq" | "writing" | "speaking" | OtherAutoType;
   sectionId?: string | null;
   wordLimit?: number;
+  correctIndexes?: number[];
+  selectCount?: number;
+  acceptedAnswers?: string[];
+  caseSensitive?: boolean;
+  spellingTolerance?: number;
+  imageUrl?: string;
   speakingMode?: "audio" | "video" | "oral";
   recordLimitSeconds?: number;
+  timeLimitSeconds?: number;
+  bankQuestion?: string | null;
+  bankVersion?: number;
 };
 
+// auto-graded types authored in the create form; here they keep their answer key as-is
+type OtherAutoType = "multi_select" | "tfng" | "matching_headings" | "map_labelling" | "gap_fill" | "sentence_completion";
+
+const OTHER_AUTO_TYPE_LABELS: Record<OtherAutoType, string> = {
+  multi_select: "Multi-select MCQ",
+  tfng: "True / False / Not Given",
+  matching_headings: "Matching headings",
+  map_labelling: "Map / diagram labelling",
+  gap_fill: "Gap fill",
+  sentence_completion: "Sentence completion",
+};
+
+const isOtherAutoType = (t?: string): t is OtherAutoType => !!t && t in OTHER_AUTO_TYPE_LABELS;
+
+function describeAnswerKey(q: Question): string {
+  if (q.questionType === "gap_fill" || q.questionType === "sentence_completion") {
+    const answers = (q.acceptedAnswers || []).join(" / ") || "none";
+    return `Accepted: ${answers}${q.wordLimit ? ` · max ${q.wordLimit} word(s)` : ""}`;
+  }
+  const options = q.options || [];
+  const correct = q.questionType === "multi_select" ? q.correctIndexes || [] : [q.correctIndex ?? 0];
+  return `Correct: ${correct.map((i) => options[i]?.text || `#${i + 1}`).join(", ")}`;
+}
+
+// content that comes from the question bank; editing any of it here detaches the question
+function bankContentOf(q: Question) {
+  return JSON.stringify([
+    q.prompt,
+    (q.options || []).map((o) => o.text),
+    q.correctIndex,
+    q.correctIndexes,
+    q.selectCount,
+    q.acceptedAnswers,
+    q.caseSensitive,
+    q.spellingTolerance,
+    q.imageUrl,
+    q.explanation || "",
+    q.wordLimit,
+    q.speakingMode,
+    q.recordLimitSeconds,
+  ]);
+}
+
 type ReadingSection = {
   id: string;
   title?: string;
   passage: string;
+  timeLimitMinutes?: number;
 };
 
 type ListeningSection = {
@@ -42,13 +101,21 @@ type ListeningSection = {
   title?: string;
   audioUrl: string;
   listenLimit?: number;
+  timeLimitMinutes?: number;
+};
+
+type MockModule = {
+  skill: "listening" | "reading" | "writing" | "speaking";
+  testSet: string;
+  instructions?: string;
 };
 
 type TestSet = {
   _id: string;
   title: string;
-  type: "reading" | "listening" | "writing" | "speaking";
+  type: "reading" | "listening" | "writing" | "speaking" | "mock";
   description?: string;
+  modules?: MockModule[];
   passage?: string;
   audioUrl?: string;
   listenLimit?: number;
@@ -56,13 +123,100 @@ type TestSet = {
   listeningSections?: ListeningSection[];
 
   timeLimitMinutes?: number;
+  shuffleQuestions?: boolean;
+  shuffleOptions?: boolean;
+  gradingProvider?: GradingProvider | null;
   assignedBatches?: string[];
   questions: Question[];
   createdAt?: string;
+  archived?: boolean; // assigned only to batches of archived terms
+  version?: number; // live version; 0 = never published
+  published?: boolean;
+  reviewRequired?: boolean;
+  draft?: DraftInfo | null;
 };
 
 type Batch = { _id: string; name: string };
 
+// ---------- Versions ----------
+type VersionStatus = "draft" | "in_review" | "approved" | "published" | "superseded";
+type DraftInfo = { version: number; status: VersionStatus };
+
+const OPEN_STATUSES: VersionStatus[] = ["draft", "in_review", "approved"];
+
+const VERSION_STATUS_LABELS: Record<VersionStatus, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  approved: "Approved",
+  published: "Live",
+  superseded: "Superseded",
+};
+
+// what a draft carries; scheduling and assignment live on the test itself
+const VERSIONED_FIELDS = [
+  "title",
+  "description",
+  "modules",
+  "passage",
+  "audioUrl",
+  "listenLimit",
+  "readingSections",
+  "listeningSections",
+  "questions",
+  "timeLimitMinutes",
+  "shuffleQuestions",
+  "shuffleOptions",
+  "gradingProvider",
+] as const;
+
+type Person = { _id: string; name: string } | null;
+
+type VersionMeta = {
+  _id: string;
+  version: number;
+  status: VersionStatus;
+  changeNote?: string;
+  createdBy?: Person;
+  updatedBy?: Person;
+  submittedBy?: Person;
+  submittedAt?: string | null;
+  reviewedBy?: Person;
+  reviewedAt?: string | null;
+  reviewNote?: string;
+  publishedBy?: Person;
+  publishedAt?: string | null;
+  createdAt?: string;
+};
+
+type FieldChange = { field: string; from: unknown; to: unknown };
+type ListItemChange = {
+  index: number;
+  fromIndex?: number;
+  changes?: FieldChange[];
+  _id?: string;
+  questionType?: string;
+  prompt?: string;
+  id?: string;
+  title?: string;
+};
+type ListDiff = { added: ListItemChange[]; removed: ListItemChange[]; changed: ListItemChange[] };
+type VersionDiff = {
+  from: { version: number; status: VersionStatus } | null;
+  to: { version: number; status: VersionStatus };
+  changes: { fields: FieldChange[]; sections: ListDiff; questions: ListDiff };
+};
+
+type ReviewQueueItem = {
+  _id: string;
+  version: number;
+  changeNote?: string;
+  submittedAt?: string;
+  submittedBy?: Person;
+  testSet: { _id: string; title: string; type: string };
+};
+
+type VersionsTarget = { _id: string; title: string };
+
 export function ViewTestForm() {
   const router = useRouter();
   const [tests, setTests] = useState<TestSet[]>([]);
@@ -74,20 +228,37 @@ export function ViewTestForm() {
   const [assignSelected, setAssignSelected] = useState<string | null>(null);
   const [assignLoading, setAssignLoading] = useState(false);
 
+  const [showArchived, setShowArchived] = useState(false);
+
   const [viewingTest, setViewingTest] = useState<TestSet | null>(null);
   const [editedQuestions, setEditedQuestions] = useState<Question[]>([]);
   const [questionsSaving, setQuestionsSaving] = useState(false);
 
+  const [versionsTarget, setVersionsTarget] = useState<VersionsTarget | null>(null);
+  const [reviewQueue, setReviewQueue] = useState<ReviewQueueItem[]>([]);
+  const [canPublish, setCanPublish] = useState(false);
+  const [canReview, setCanReview] = useState(false);
+
   useEffect(() => {
-    fetchTests();
     fetchBatches();
+    setCanPublish(hasCapability("tests.publish"));
+    setCanReview(hasCapability("tests.review"));
   }, []);
 
+  useEffect(() => {
+    if (canReview) fetchReviewQueue();
+  }, [canReview]);
+
+  useEffect(() => {
+    fetchTests();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [showArchived]);
+
   async function fetchTests() {
     setLoading(true);
     setError(null);
     try {
-      const res = await api.apiGet("/teacher/tests?mine=true");
+      const res = await api.apiGet(`/teacher/tests?mine=true${showArchived ? "&includeArchived=true" : ""}`);
       if (!res.ok) {
         console.error("[fetchTests] error:", res);
         setError(res.error?.message || "Failed to fetch tests");
@@ -104,6 +275,16 @@ export function ViewTestForm() {
     }
   }
 
+  async function fetchReviewQueue() {
+    const res = await api.apiGet("/teacher/tests/review-queue");
+    setReviewQueue(res.ok && Array.isArray(res.data) ? res.data : []);
+  }
+
+  async function exportQti(testId: string) {
+    const res = await api.apiDownload(`/teacher/tests/${testId}/qti`, "test-qti.zip");
+    if (!res.ok) alert(res.error?.message || "Export failed");
+  }
+
   async function fetchBatches() {
     try {
       let res = await api.apiGet("/faculty/batches");
@@ -171,7 +352,7 @@ export function ViewTestForm() {
       setTests((prev) =>
         prev.map((p) =>
           p._id === assigningTest._id
-            ? updatedTest || { ...p, assignedBatches: newAssigned }
+            ? updatedTest ? { ...p, ...updatedTest } : { ...p, assignedBatches: newAssigned }
             : p
         )
       );
@@ -201,7 +382,7 @@ export function ViewTestForm() {
       setTests((prev) =>
         prev.map((p) =>
           p._id === test._id
-            ? updatedTest || { ...p, assignedBatches: newAssigned }
+            ? updatedTest ? { ...p, ...updatedTest } : { ...p, assignedBatches: newAssigned }
             : p
         )
       );
@@ -221,7 +402,15 @@ export function ViewTestForm() {
         return;
       }
 
-      const fullTest: TestSet = res.data;
+      // editing carries on from the open draft when there is one
+      const { draft, ...live } = res.data;
+      const fullTest: TestSet = draft
+        ? {
+          ...live,
+          ...Object.fromEntries(VERSIONED_FIELDS.filter((f) => draft[f] !== undefined).map((f) => [f, draft[f]])),
+          draft: { version: draft.version, status: draft.status },
+        }
+        : { ...live, draft: null };
 
       const normalizedQuestions: Question[] = Array.isArray(fullTest.questions)
         ? fullTest.questions.map((qAny: any) => {
@@ -329,6 +518,11 @@ export function ViewTestForm() {
           setQuestionsSaving(false);
           return;
         }
+        if (q.questionType === "writing" && richTextImages(q.prompt).some((img) => !img.description.trim())) {
+          alert(`Question ${i + 1} has an image without a description; the AI examiner grades against the description.`);
+          setQuestionsSaving(false);
+          return;
+        }
         if (q.questionType === "mcq") {
           if (!q.options || q.options.length < 2) {
             alert(`Question ${i + 1} needs at least 2 options`);
@@ -362,6 +556,16 @@ export function ViewTestForm() {
             : [{ text: "" }, { text: "" }];
           base.correctIndex =
             typeof q.correctIndex === "number" ? q.correctIndex : 0;
+        } else if (isOtherAutoType(base.questionType)) {
+          base.options = q.options;
+          base.correctIndex = q.correctIndex;
+          base.correctIndexes = q.correctIndexes;
+          base.selectCount = q.selectCount;
+          base.acceptedAnswers = q.acceptedAnswers;
+          base.caseSensitive = q.caseSensitive;
+          base.spellingTolerance = q.spellingTolerance;
+          base.wordLimit = q.wordLimit;
+          base.imageUrl = q.imageUrl;
         } else if (base.questionType === "writing") {
           base.wordLimit =
             typeof q.wordLimit === "number" ? q.wordLimit : undefined;
@@ -371,9 +575,16 @@ export function ViewTestForm() {
             typeof q.recordLimitSeconds === "number"
               ? q.recordLimitSeconds
               : undefined;
+          base.timeLimitSeconds = q.timeLimitSeconds || undefined;
         }
 
         if (q._id) base._id = q._id;
+
+        const original = viewingTest.questions.find((o) => o._id && o._id === q._id);
+        if (q.bankQuestion && original && bankContentOf(original) === bankContentOf(q)) {
+          base.bankQuestion = q.bankQuestion;
+          base.bankVersion = q.bankVersion;
+        }
         return base;
       });
 
@@ -393,6 +604,10 @@ export function ViewTestForm() {
         payload.timeLimitMinutes = viewingTest.timeLimitMinutes;
       if (typeof viewingTest.listenLimit !== "undefined")
         payload.listenLimit = viewingTest.listenLimit;
+      payload.shuffleQuestions = !!viewingTest.shuffleQuestions;
+      payload.shuffleOptions = !!viewingTest.shuffleOptions;
+      if (viewingTest.type === "writing" || viewingTest.type === "speaking")
+        payload.gradingProvider = viewingTest.gradingProvider || null;
 
       if (Array.isArray(viewingTest.readingSections))
         payload.readingSections = viewingTest.readingSections;
@@ -416,19 +631,28 @@ export function ViewTestForm() {
       }
 
       const updatedTest: TestSet = res.data?.test || res.data;
+      const savedDraft = res.data?.draft;
+      const draftInfo: DraftInfo | null | undefined = savedDraft
+        ? { version: savedDraft.version, status: savedDraft.status }
+        : undefined;
 
       setTests((prev) =>
         prev.map((t) =>
           t._id === viewingTest._id
-            ? updatedTest || {
+            ? {
               ...t,
-              questions: sanitizedQuestions,
-              title: viewingTest.title,
-              description: viewingTest.description,
+              ...(updatedTest || {
+                questions: sanitizedQuestions,
+                title: viewingTest.title,
+                description: viewingTest.description,
+              }),
+              draft: draftInfo !== undefined ? draftInfo : t.draft,
             }
             : t
         )
       );
+      // students keep the live version until this draft is published
+      if (savedDraft && updatedTest?.version) alert(res.data?.message || "Saved as a draft");
 
       setViewingTest(null);
       setEditedQuestions([]);
@@ -440,8 +664,8 @@ export function ViewTestForm() {
   };
 
   // ---------- Delete test ----------
-  const handleDeleteTest = async (id: string) => {
-    if (!confirm("Delete this test permanently?")) return;
+  const handleDeleteTest = async (id: string, title: string) => {
+    if (!(await confirmSoftDelete(`"${title}"`, `/teacher/tests/${id}/impact`))) return;
     try {
       const res = await api.apiDelete(`/teacher/tests/${id}`);
       if (!res.ok) {
@@ -478,13 +702,45 @@ export function ViewTestForm() {
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-3xl font-bold mb-2">Your Tests</h1>
-        <p className="text-muted-foreground">
-          View, assign, edit questions, or delete tests you created.
-        </p>
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Your Tests</h1>
+          <p className="text-muted-foreground">
+            View, assign, edit questions, or delete tests you created.
+          </p>
+          <label className="flex items-center gap-2 text-sm mt-2">
+            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+            Show tests of archived terms
+          </label>
+        </div>
+        <QtiImport onImported={fetchTests} />
       </div>
 
+      {reviewQueue.length > 0 && (
+        <Card className="p-4 space-y-2">
+          <div className="font-semibold">Waiting for your review</div>
+          {reviewQueue.map((item) => (
+            <div key={item._id} className="flex items-center justify-between gap-4 text-sm border-b last:border-0 pb-2">
+              <div>
+                <span className="font-medium">{item.testSet.title}</span> — version {item.version}
+                <span className="text-muted-foreground">
+                  {" "}· {item.submittedBy?.name || "unknown"}
+                  {item.submittedAt ? `, ${new Date(item.submittedAt).toLocaleString()}` : ""}
+                </span>
+                {item.changeNote && <div className="text-xs text-muted-foreground">{item.changeNote}</div>}
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setVersionsTarget({ _id: item.testSet._id, title: item.testSet.title })}
+              >
+                Review
+              </Button>
+            </div>
+          ))}
+        </Card>
+      )}
+
       <Card className="overflow-x-auto">
         <table className="w-full">
           <thead className="bg-muted">
@@ -530,6 +786,21 @@ export function ViewTestForm() {
                 <tr key={test._id} className="border-b hover:bg-muted/30">
                   <td className="px-6 py-4 text-sm font-medium">
                     {test.title}
+                    {test.archived && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-slate-200 text-slate-700">archived</span>
+                    )}
+                    <div className="mt-1 flex flex-wrap gap-1 text-xs font-normal">
+                      {test.version ? (
+                        <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-800">v{test.version} live</span>
+                      ) : (
+                        <span className="px-2 py-0.5 rounded-full bg-slate-100 text-slate-600">not published</span>
+                      )}
+                      {test.draft && (
+                        <span className="px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">
+                          v{test.draft.version} {VERSION_STATUS_LABELS[test.draft.status].toLowerCase()}
+                        </span>
+                      )}
+                    </div>
                   </td>
                   <td className="px-6 py-4 text-sm">{test.type}</td>
                   <td className="px-6 py-4 text-sm">
@@ -573,6 +844,33 @@ export function ViewTestForm() {
                     >
                       <Eye className="w-4 h-4" /> View Questions
                     </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setVersionsTarget({ _id: test._id, title: test.title })}
+                    >
+                      <History className="w-4 h-4" /> Versions
+                    </Button>
+                    {test.type !== "mock" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        title={test.draft ? `Take draft v${test.draft.version} as a student would; nothing is recorded` : "Take the test as a student would; nothing is recorded"}
+                        onClick={() => window.open(`/student/test/testRunner?testId=${test._id}&preview=1`, "_blank")}
+                      >
+                        <MonitorPlay className="w-4 h-4" /> Preview
+                      </Button>
+                    )}
+                    {test.type !== "mock" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        title="Export as a QTI 2.1 package"
+                        onClick={() => exportQti(test._id)}
+                      >
+                        <Download className="w-4 h-4" /> QTI
+                      </Button>
+                    )}
                     <Button 
                       size="sm" 
                       variant="outline"
@@ -586,7 +884,7 @@ export function ViewTestForm() {
                     <Button
                       size="sm"
                       variant="destructive"
-                      onClick={() => handleDeleteTest(test._id)}
+                      onClick={() => handleDeleteTest(test._id, test.title)}
                     >
                       <Trash2 className="w-4 h-4" /> Delete
                     </Button>
@@ -651,6 +949,14 @@ export function ViewTestForm() {
             <DialogTitle>
               Test Details — {viewingTest?.title}
             </DialogTitle>
+            {viewingTest?.version ? (
+              <p className="text-xs text-muted-foreground">
+                {viewingTest.draft
+                  ? `Editing draft version ${viewingTest.draft.version}.`
+                  : "Saving starts a new draft."}{" "}
+                Students keep getting version {viewingTest.version} until the draft is published.
+              </p>
+            ) : null}
           </DialogHeader>
 
           <div className="py-2 space-y-3 max-h-[70vh] overflow-auto">
@@ -689,6 +995,50 @@ export function ViewTestForm() {
                         </span>
                       ) : null}
                     </div>
+                    <div className="mt-2 flex flex-wrap gap-4 text-xs">
+                      <label className="flex items-center gap-1">
+                        <input
+                          type="checkbox"
+                          checked={!!viewingTest.shuffleQuestions}
+                          onChange={(e) =>
+                            setViewingTest((s) =>
+                              s ? { ...s, shuffleQuestions: e.target.checked } : s
+                            )
+                          }
+                        />
+                        Shuffle questions
+                      </label>
+                      {(viewingTest.type === "reading" ||
+                        viewingTest.type === "listening") && (
+                        <label className="flex items-center gap-1">
+                          <input
+                            type="checkbox"
+                            checked={!!viewingTest.shuffleOptions}
+                            onChange={(e) =>
+                              setViewingTest((s) =>
+                                s ? { ...s, shuffleOptions: e.target.checked } : s
+                              )
+                            }
+                          />
+                          Shuffle MCQ options
+                        </label>
+                      )}
+                      {(viewingTest.type === "writing" ||
+                        viewingTest.type === "speaking") && (
+                        <label className="flex items-center gap-1">
+                          AI grading provider
+                          <GradingProviderSelect
+                            value={viewingTest.gradingProvider}
+                            onChange={(value) =>
+                              setViewingTest((s) =>
+                                s ? { ...s, gradingProvider: value } : s
+                              )
+                            }
+                            className="p-1 border rounded bg-white"
+                          />
+                        </label>
+                      )}
+                    </div>
                   </div>
                   <div className="text-sm text-muted-foreground">
                     {viewingTest.createdAt
@@ -739,17 +1089,17 @@ export function ViewTestForm() {
                                   }
                                 />
                               </div>
-                              <textarea
-                                className="w-full p-2 border rounded text-sm h-32"
+                              <RichTextEditor
+                                heightClass="h-32"
                                 value={sec.passage}
-                                onChange={(e) =>
+                                onChange={(passage) =>
                                   setViewingTest((s) => {
                                     if (!s) return s;
                                     const next =
                                       [...(s.readingSections || [])];
                                     next[idx] = {
                                       ...next[idx],
-                                      passage: e.target.value,
+                                      passage,
                                     };
                                     return {
                                       ...s,
@@ -758,6 +1108,34 @@ export function ViewTestForm() {
                                   })
                                 }
                               />
+                              <div className="flex items-center gap-2">
+                                <span className="text-xs">
+                                  Section time limit (min, 0 = none):
+                                </span>
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  className="w-24 h-8 text-xs"
+                                  value={sec.timeLimitMinutes ?? 0}
+                                  onChange={(e) =>
+                                    setViewingTest((s) => {
+                                      if (!s) return s;
+                                      const next =
+                                        [...(s.readingSections || [])];
+                                      next[idx] = {
+                                        ...next[idx],
+                                        timeLimitMinutes: Number(
+                                          e.target.value || 0
+                                        ),
+                                      };
+                                      return {
+                                        ...s,
+                                        readingSections: next,
+                                      };
+                                    })
+                                  }
+                                />
+                              </div>
                             </div>
                           )
                         )}
@@ -767,16 +1145,16 @@ export function ViewTestForm() {
                         <label className="text-sm block mb-1">
                           Passage
                         </label>
-                        <textarea
+                        <RichTextEditor
                           value={viewingTest.passage || ""}
-                          onChange={(e) =>
+                          onChange={(passage) =>
                             setViewingTest((s) =>
                               s
-                                ? { ...s, passage: e.target.value }
+                                ? { ...s, passage }
                                 : s
                             )
                           }
-                          className="w-full p-2 border rounded h-48"
+                          heightClass="h-48"
                         />
                       </>
                     )}
@@ -868,6 +1246,32 @@ export function ViewTestForm() {
                                     })
                                   }
                                 />
+                                <span className="text-xs">
+                                  Section time limit (min):
+                                </span>
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  className="w-24 h-8 text-xs"
+                                  value={sec.timeLimitMinutes ?? 0}
+                                  onChange={(e) =>
+                                    setViewingTest((s) => {
+                                      if (!s) return s;
+                                      const next =
+                                        [...(s.listeningSections || [])];
+                                      next[idx] = {
+                                        ...next[idx],
+                                        timeLimitMinutes: Number(
+                                          e.target.value || 0
+                                        ),
+                                      };
+                                      return {
+                                        ...s,
+                                        listeningSections: next,
+                                      };
+                                    })
+                                  }
+                                />
                               </div>
                               {sec.audioUrl && (
                                 <audio
@@ -920,6 +1324,24 @@ export function ViewTestForm() {
                     This is a speaking test.
                   </div>
                 )}
+                {viewingTest.type === "mock" && (
+                  <div className="mt-4 text-sm space-y-2">
+                    <div>This is a full mock. Students take these modules in order:</div>
+                    <ol className="list-decimal list-inside space-y-1">
+                      {(viewingTest.modules || []).map((m) => (
+                        <li key={m.skill}>
+                          <span className="capitalize">{m.skill}</span>:{" "}
+                          {tests.find((t) => t._id === m.testSet)?.title || m.testSet}
+                          {m.instructions && (
+                            <div className="ml-5 text-xs text-muted-foreground whitespace-pre-line">
+                              {m.instructions}
+                            </div>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
 
                 <div className="mt-3">
                   <div className="text-xs text-muted-foreground mb-1">
@@ -968,6 +1390,7 @@ export function ViewTestForm() {
                         </label>
                         <select
                           value={q.questionType || "mcq"}
+                          disabled={isOtherAutoType(q.questionType)}
                           onChange={(e) => {
                             const qt =
                               e.target.value as Question["questionType"];
@@ -999,6 +1422,9 @@ export function ViewTestForm() {
                           <option value="mcq">MCQ</option>
                           <option value="writing">Writing</option>
                           <option value="speaking">Speaking</option>
+                          {isOtherAutoType(q.questionType) && (
+                            <option value={q.questionType}>{OTHER_AUTO_TYPE_LABELS[q.questionType]}</option>
+                          )}
                         </select>
                       </div>
 
@@ -1006,12 +1432,14 @@ export function ViewTestForm() {
                         <label className="block text-sm mb-1">
                           Prompt
                         </label>
-                        <Input
+                        <RichTextEditor
                           value={q.prompt}
-                          onChange={(e) =>
+                          heightClass={q.questionType === "mcq" || isOtherAutoType(q.questionType) ? "h-20" : "h-28"}
+                          gradedTask={q.questionType === "writing"}
+                          onChange={(prompt) =>
                             handleQuestionChange(qi, {
                               ...q,
-                              prompt: e.target.value,
+                              prompt,
                             })
                           }
                         />
@@ -1022,7 +1450,7 @@ export function ViewTestForm() {
                     {viewingTest &&
                       (viewingTest.type === "reading" ||
                         viewingTest.type === "listening") &&
-                      q.questionType === "mcq" &&
+                      (q.questionType === "mcq" || isOtherAutoType(q.questionType)) &&
                       sectionOptions.length > 0 && (
                         <div className="mt-2">
                           <label className="text-xs block mb-1">
@@ -1050,6 +1478,10 @@ export function ViewTestForm() {
                         </div>
                       )}
 
+                    {isOtherAutoType(q.questionType) && (
+                      <div className="mt-3 text-xs text-muted-foreground">{describeAnswerKey(q)}</div>
+                    )}
+
                     {/* MCQ UI */}
                     {q.questionType === "mcq" && (
                       <div className="mt-3">
@@ -1160,7 +1592,7 @@ export function ViewTestForm() {
 
                     {/* Speaking UI */}
                     {q.questionType === "speaking" && (
-                      <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-3">
+                      <div className="mt-3 grid grid-cols-1 md:grid-cols-4 gap-3">
                         <div>
                           <label className="text-sm block mb-1">
                             Mode
@@ -1201,6 +1633,24 @@ export function ViewTestForm() {
                             }
                           />
                         </div>
+                        <div>
+                          <label className="text-sm block mb-1">
+                            Prompt time limit (s, 0 = none)
+                          </label>
+                          <Input
+                            type="number"
+                            min={0}
+                            value={q.timeLimitSeconds ?? 0}
+                            onChange={(e) =>
+                              handleQuestionChange(qi, {
+                                ...q,
+                                timeLimitSeconds: Number(
+                                  e.target.value || 0
+                                ),
+                              })
+                            }
+                          />
+                        </div>
                         <div>
                           <label className="text-sm block mb-1">
                             Marks
@@ -1258,6 +1708,403 @@ export function ViewTestForm() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {versionsTarget && (
+        <TestVersionsDialog
+          target={versionsTarget}
+          canPublish={canPublish}
+          canReview={canReview}
+          onClose={() => setVersionsTarget(null)}
+          onChanged={() => {
+            fetchTests();
+            if (canReview) fetchReviewQueue();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// ---------- Versions dialog ----------
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  description: "Description",
+  modules: "Mock modules",
+  passage: "Passage",
+  audioUrl: "Audio",
+  listenLimit: "Listen limit",
+  timeLimitMinutes: "Time limit (min)",
+  bandTable: "Band table",
+  shuffleQuestions: "Shuffle questions",
+  shuffleOptions: "Shuffle options",
+  gradingProvider: "Grading provider",
+};
+
+const fieldLabel = (field: string) =>
+  FIELD_LABELS[field] || field.replace(/([A-Z])/g, " $1").toLowerCase();
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+}
+
+function FieldChanges({ changes }: { changes: FieldChange[] }) {
+  return (
+    <ul className="ml-4 mt-1 space-y-1">
+      {changes.map((c) => (
+        <li key={c.field} className="text-xs break-words">
+          <span className="font-medium">{fieldLabel(c.field)}:</span>{" "}
+          <span className="line-through text-red-700">{formatValue(c.from)}</span>
+          {" → "}
+          <span className="text-green-700">{formatValue(c.to)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function ListDiffView({
+  title,
+  diff,
+  label,
+}: {
+  title: string;
+  diff: ListDiff;
+  label: (item: ListItemChange) => string;
+}) {
+  if (!diff.added.length && !diff.removed.length && !diff.changed.length) return null;
+  return (
+    <div>
+      <div className="font-semibold mb-1">{title}</div>
+      <ul className="space-y-1">
+        {diff.added.map((item) => (
+          <li key={`added-${item._id || item.id}`} className="text-green-700">+ {label(item)}</li>
+        ))}
+        {diff.removed.map((item) => (
+          <li key={`removed-${item._id || item.id}`} className="text-red-700">− {label(item)}</li>
+        ))}
+        {diff.changed.map((item) => (
+          <li key={`changed-${item._id || item.id}`}>
+            <span className="text-amber-700">~ {label(item)}</span>
+            {item.fromIndex !== undefined && item.fromIndex !== item.index && (
+              <span className="ml-2 text-xs text-muted-foreground">moved from #{item.fromIndex + 1}</span>
+            )}
+            {item.changes && item.changes.length > 0 && <FieldChanges changes={item.changes} />}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function DiffView({ diff }: { diff: VersionDiff }) {
+  const { fields, sections, questions } = diff.changes;
+  const listCount = (l: ListDiff) => l.added.length + l.removed.length + l.changed.length;
+  if (fields.length + listCount(sections) + listCount(questions) === 0) {
+    return <div className="text-sm text-muted-foreground">No differences.</div>;
+  }
+  return (
+    <div className="space-y-3 text-sm">
+      {fields.length > 0 && (
+        <div>
+          <div className="font-semibold mb-1">Settings</div>
+          <FieldChanges changes={fields} />
+        </div>
+      )}
+      <ListDiffView title="Passages / audio" diff={sections} label={(s) => s.title || s.id || ""} />
+      <ListDiffView
+        title="Questions"
+        diff={questions}
+        label={(q) => `Q${q.index + 1} (${q.questionType}): ${richTextToPlain(q.prompt || "")}`}
+      />
     </div>
   );
 }
+
+function versionActivity(v: VersionMeta): string[] {
+  const when = (d?: string | null) => (d ? new Date(d).toLocaleString() : "");
+  const lines = [`Started by ${v.createdBy?.name || "unknown"} ${when(v.createdAt)}`];
+  if (v.submittedAt) lines.push(`Submitted by ${v.submittedBy?.name || "unknown"} ${when(v.submittedAt)}`);
+  if (v.reviewedAt) {
+    const verdict = v.status === "draft" ? "Sent back" : "Approved";
+    lines.push(`${verdict} by ${v.reviewedBy?.name || "unknown"} ${when(v.reviewedAt)}`);
+  }
+  if (v.publishedAt) lines.push(`Published by ${v.publishedBy?.name || "unknown"} ${when(v.publishedAt)}`);
+  return lines;
+}
+
+function TestVersionsDialog({
+  target,
+  canPublish,
+  canReview,
+  onClose,
+  onChanged,
+}: {
+  target: VersionsTarget;
+  canPublish: boolean;
+  canReview: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+}) {
+  const [versions, setVersions] = useState<VersionMeta[]>([]);
+  const [liveVersion, setLiveVersion] = useState(0);
+  const [reviewRequired, setReviewRequired] = useState(false);
+  const [compareFrom, setCompareFrom] = useState("none");
+  const [compareTo, setCompareTo] = useState("");
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [changeNote, setChangeNote] = useState("");
+  const [reviewNote, setReviewNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openDraft = versions.find((v) => OPEN_STATUSES.includes(v.status)) || null;
+  const base = `/teacher/tests/${target._id}`;
+
+  useEffect(() => {
+    loadVersions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [target._id]);
+
+  useEffect(() => {
+    if (compareTo) loadDiff();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [compareFrom, compareTo]);
+
+  async function loadVersions() {
+    const res = await api.apiGet(`${base}/versions`);
+    if (!res.ok) {
+      setError(res.error?.message || "Failed to load versions");
+      return;
+    }
+    const list: VersionMeta[] = res.data?.versions || [];
+    const live: number = res.data?.liveVersion || 0;
+    setVersions(list);
+    setLiveVersion(live);
+    setReviewRequired(!!res.data?.reviewRequired);
+
+    // by default show what the draft changes, or else what the live version changed
+    const draft = list.find((v) => OPEN_STATUSES.includes(v.status));
+    setChangeNote(draft?.changeNote || "");
+    if (draft) {
+      setCompareFrom(live ? String(live) : "none");
+      setCompareTo("draft");
+    } else {
+      const previous = list.find((v) => v.version < live);
+      setCompareFrom(previous ? String(previous.version) : "none");
+      setCompareTo(live ? String(live) : "");
+    }
+  }
+
+  async function loadDiff() {
+    const res = await api.apiGet(`${base}/diff?from=${compareFrom}&to=${compareTo}`);
+    if (!res.ok) {
+      setDiff(null);
+      setError(res.error?.message || "Failed to compare versions");
+      return;
+    }
+    setDiff(res.data);
+  }
+
+  async function act(request: () => Promise<{ ok: boolean; error?: any; data?: any }>) {
+    setBusy(true);
+    setError(null);
+    const res = await request();
+    setBusy(false);
+    if (!res.ok) {
+      setError(res.error?.message || res.data?.message || "Request failed");
+      return;
+    }
+    setReviewNote("");
+    await loadVersions();
+    onChanged();
+  }
+
+  const submitForReview = () => act(() => api.apiPost(`${base}/draft/submit`, { changeNote }));
+  const review = (approve: boolean) => act(() => api.apiPost(`${base}/draft/review`, { approve, note: reviewNote }));
+  const discard = () => {
+    if (!confirm("Discard this draft? Its changes are lost.")) return;
+    act(() => api.apiDelete(`${base}/draft`));
+  };
+  const publish = () => {
+    if (!openDraft) return;
+    if (!confirm(`Publish version ${openDraft.version}? Students who start the test from now on get this version.`)) return;
+    act(() => api.apiPost(`${base}/draft/publish`, {}));
+  };
+  const toggleReview = (required: boolean) => act(() => api.apiPut(base, { reviewRequired: required }));
+
+  const versionOptions = [
+    ...(openDraft ? [{ value: "draft", label: `v${openDraft.version} (draft)` }] : []),
+    ...versions
+      .filter((v) => !OPEN_STATUSES.includes(v.status))
+      .map((v) => ({ value: String(v.version), label: `v${v.version} (${VERSION_STATUS_LABELS[v.status].toLowerCase()})` })),
+  ];
+
+  return (
+    <Dialog open onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Versions — {target.title}</DialogTitle>
+        </DialogHeader>
+
+        <div className="py-2 space-y-4 max-h-[70vh] overflow-auto">
+          {error && <div className="text-sm text-red-600">{error}</div>}
+
+          <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+            <div>
+              {liveVersion ? (
+                <>Students get <strong>version {liveVersion}</strong>.</>
+              ) : (
+                <>Not published yet; students can't see this test.</>
+              )}
+            </div>
+            <label className="flex items-center gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={reviewRequired}
+                disabled={busy || (reviewRequired && !canReview)}
+                onChange={(e) => toggleReview(e.target.checked)}
+              />
+              Require review before publishing
+            </label>
+          </div>
+
+          {/* open draft and its workflow */}
+          {openDraft ? (
+            <div className="p-3 border rounded bg-gray-50 space-y-2 text-sm">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">Version {openDraft.version}</span>
+                <span className="px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-800">
+                  {VERSION_STATUS_LABELS[openDraft.status]}
+                </span>
+              </div>
+              {openDraft.reviewNote && (
+                <div className="text-xs">
+                  <span className="font-medium">Reviewer: </span>
+                  {openDraft.reviewNote}
+                </div>
+              )}
+
+              {openDraft.status === "draft" && (
+                <div>
+                  <label className="text-xs block mb-1">What changed (shown to the reviewer)</label>
+                  <textarea
+                    className="w-full p-2 border rounded text-sm"
+                    value={changeNote}
+                    onChange={(e) => setChangeNote(e.target.value)}
+                  />
+                </div>
+              )}
+              {openDraft.status !== "draft" && openDraft.changeNote && (
+                <div className="text-xs text-muted-foreground">{openDraft.changeNote}</div>
+              )}
+
+              {openDraft.status === "in_review" && canReview && (
+                <div>
+                  <label className="text-xs block mb-1">Review note (required when sending back)</label>
+                  <textarea
+                    className="w-full p-2 border rounded text-sm"
+                    value={reviewNote}
+                    onChange={(e) => setReviewNote(e.target.value)}
+                  />
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {openDraft.status === "draft" && (
+                  <Button size="sm" variant="outline" disabled={busy} onClick={submitForReview}>
+                    Submit for review
+                  </Button>
+                )}
+                {openDraft.status === "in_review" && canReview && (
+                  <>
+                    <Button size="sm" disabled={busy} onClick={() => review(true)}>
+                      Approve
+                    </Button>
+                    <Button size="sm" variant="outline" disabled={busy || !reviewNote.trim()} onClick={() => review(false)}>
+                      Send back
+                    </Button>
+                  </>
+                )}
+                {canPublish && (openDraft.status === "approved" || (openDraft.status === "draft" && !reviewRequired)) && (
+                  <Button size="sm" disabled={busy} onClick={publish}>
+                    Publish version {openDraft.version}
+                  </Button>
+                )}
+                {liveVersion > 0 && openDraft.status !== "in_review" && (
+                  <Button size="sm" variant="destructive" disabled={busy} onClick={discard}>
+                    Discard draft
+                  </Button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground">
+              No open draft. Editing the questions starts one.
+            </div>
+          )}
+
+          {/* compare two versions */}
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-semibold">Compare</span>
+              <select
+                className="p-1 border rounded text-xs"
+                value={compareFrom}
+                onChange={(e) => setCompareFrom(e.target.value)}
+              >
+                <option value="none">(empty)</option>
+                {versionOptions.map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+              <span>with</span>
+              <select
+                className="p-1 border rounded text-xs"
+                value={compareTo}
+                onChange={(e) => setCompareTo(e.target.value)}
+              >
+                {versionOptions.map((o) => (
+                  <option key={o.value} value={o.value}>{o.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="p-3 border rounded">
+              {diff ? <DiffView diff={diff} /> : <div className="text-sm text-muted-foreground">Nothing to compare.</div>}
+            </div>
+          </div>
+
+          {/* history */}
+          <div>
+            <div className="font-semibold text-sm mb-1">History</div>
+            <table className="w-full text-xs">
+              <tbody>
+                {versions.map((v) => (
+                  <tr key={v._id} className="border-b align-top">
+                    <td className="py-2 pr-3 font-medium">v{v.version}</td>
+                    <td className="py-2 pr-3">{VERSION_STATUS_LABELS[v.status]}</td>
+                    <td className="py-2 pr-3">
+                      {v.changeNote || <span className="text-muted-foreground">—</span>}
+                      {v.reviewNote && <div className="text-muted-foreground">Review: {v.reviewNote}</div>}
+                    </td>
+                    <td className="py-2 text-muted-foreground">
+                      {versionActivity(v).map((line) => (
+                        <div key={line}>{line}</div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
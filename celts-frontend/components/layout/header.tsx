@@ -1,9 +1,10 @@
 "use client"
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { User } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import api from "@/lib/api";
 
 interface HeaderProps {
   userName?: string
@@ -11,11 +12,20 @@ interface HeaderProps {
 
 export function Header({ userName = "User" }: HeaderProps) {
   const [dropdownOpen, setDropdownOpen] = useState(false);
+  const [canUseTwoFactor, setCanUseTwoFactor] = useState(false);
   const router = useRouter();
 
-  const handleLogout = () => {
-    // Optionally clear localStorage or cookies here
-    localStorage.removeItem("celts_user");
+  useEffect(() => {
+    try {
+      const role = JSON.parse(localStorage.getItem("celts_user") || "{}").role;
+      setCanUseTwoFactor(role === "admin" || role === "faculty");
+    } catch {
+      setCanUseTwoFactor(false);
+    }
+  }, []);
+
+  const handleLogout = async () => {
+    await api.logout();
     router.push("/auth/login"); // redirect to auth page
   };
 
@@ -37,7 +47,21 @@ export function Header({ userName = "User" }: HeaderProps) {
           </button>
 
           {dropdownOpen && (
-            <div className="absolute right-0 mt-2 w-32 bg-card border border-border rounded shadow-md z-10">
+            <div className="absolute right-0 mt-2 w-44 bg-card border border-border rounded shadow-md z-10">
+              <button
+                onClick={() => router.push("/auth/change-password")}
+                className="w-full text-left px-4 py-2 hover:bg-muted"
+              >
+                Change password
+              </button>
+              {canUseTwoFactor && (
+                <button
+                  onClick={() => router.push("/auth/two-factor")}
+                  className="w-full text-left px-4 py-2 hover:bg-muted"
+                >
+                  Two-factor auth
+                </button>
+              )}
               <button
                 onClick={handleLogout}
                 className="w-full text-left px-4 py-2 hover:bg-muted"
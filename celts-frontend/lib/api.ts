@@ -1,29 +1,114 @@
 export type ApiResponse<T> = { ok: boolean; status: number | null; data?: T; error?: any };
 
-const API_BASE = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000/api";
+export const API_BASE = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000/api";
 
 // Log API base for debugging
 if (typeof window !== 'undefined') {
   console.log('API Base URL:', API_BASE);
 }
 
+// Auth lives in httpOnly cookies set by the backend; these paths must never trigger a refresh
+const NO_REFRESH_PATHS = ['/auth/login', '/auth/login/2fa', '/auth/refresh', '/auth/logout'];
+
+// 'expired': the server turned the refresh cookie down; 'unavailable': rate limited,
+// server error or offline, which says nothing about the session
+type RefreshOutcome = 'refreshed' | 'expired' | 'unavailable';
+
+const REFRESH_RETRY_DELAYS_MS = [1000, 3000];
+
+// Sent with every state-changing request: a page on another site cannot add it
+// without passing CORS, so the backend takes it as proof the call is ours
+// (see middleware/sameOrigin.js). GETs go without, to spare them a preflight.
+const CLIENT_HEADERS = { 'X-Requested-With': 'XMLHttpRequest' };
+
+let refreshInFlight: Promise<RefreshOutcome> | null = null;
+
+async function tryRefresh(): Promise<RefreshOutcome> {
+  try {
+    const res = await fetch(API_BASE + '/auth/refresh', { method: 'POST', credentials: 'include', headers: CLIENT_HEADERS });
+    // keep the stored profile (and its capabilities) current
+    if (res.ok) {
+      const payload = await res.json().catch(() => null);
+      if (payload?.user) localStorage.setItem('celts_user', JSON.stringify(payload.user));
+    }
+    // 409: another tab rotated the cookie first, which is just as good
+    if (res.ok || res.status === 409) return 'refreshed';
+    return res.status === 401 ? 'expired' : 'unavailable';
+  } catch {
+    return 'unavailable';
+  }
+}
+
+// One refresh at a time; concurrent 401s wait for the same attempt
+function refreshSession(): Promise<RefreshOutcome> {
+  if (!refreshInFlight) {
+    refreshInFlight = (async () => {
+      let outcome = await tryRefresh();
+      for (const delay of REFRESH_RETRY_DELAYS_MS) {
+        if (outcome !== 'unavailable') break;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        outcome = await tryRefresh();
+      }
+      return outcome;
+    })().finally(() => { refreshInFlight = null; });
+  }
+  return refreshInFlight;
+}
+
+function endLocalSession() {
+  if (typeof window === 'undefined') return;
+  localStorage.removeItem('celts_user');
+  if (!window.location.pathname.startsWith('/auth')) {
+    window.location.href = '/auth/login';
+  }
+}
+
+// Accounts with pending setup (admin-issued password, required 2FA) are held on that screen
+const ACCOUNT_GATES: Record<string, string> = {
+  PASSWORD_CHANGE_REQUIRED: '/auth/change-password',
+  TWO_FACTOR_SETUP_REQUIRED: '/auth/two-factor',
+};
+
+function checkAccountGate(status: number, payload: any) {
+  if (typeof window === 'undefined' || status !== 403) return;
+  const target = ACCOUNT_GATES[payload?.code];
+  if (target && window.location.pathname !== target) {
+    window.location.href = target;
+  }
+}
+
+async function send(path: string, options: RequestInit): Promise<Response> {
+  const headers = new Headers(options.headers);
+  if (!['GET', 'HEAD'].includes((options.method || 'GET').toUpperCase())) {
+    Object.entries(CLIENT_HEADERS).forEach(([name, value]) => headers.set(name, value));
+  }
+  const doFetch = () => fetch(API_BASE + path, { ...options, headers, credentials: 'include' });
+  const res = await doFetch();
+  if (res.status !== 401 || NO_REFRESH_PATHS.includes(path)) return res;
+
+  const outcome = await refreshSession();
+  if (outcome === 'refreshed') return doFetch();
+  // only a refused refresh ends the session; otherwise this request fails and the next one tries again
+  if (outcome === 'expired') endLocalSession();
+  return res;
+}
+
 async function request(path: string, options: RequestInit = {}): Promise<ApiResponse<any>> {
   try {
     const headers = (options.headers instanceof Headers) ? options.headers : (options.headers || {});
-    const token = (typeof window !== 'undefined') ? localStorage.getItem('celts_token') : null;
-    if (token) { (headers as any)['Authorization'] = `Bearer ${token}`; }
-    
+
     if (!(options.body instanceof FormData)) {
       (headers as any)['Content-Type'] = (headers as any)['Content-Type'] || 'application/json';
     }
 
-    const res = await fetch(API_BASE + path, { ...options, headers, credentials: 'include' });
+    const res = await send(path, { ...options, headers });
 
     const text = await res.text();
     let payload = null;
     try { payload = text ? JSON.parse(text) : null; } catch (e) { payload = text; }
 
     if (!res.ok) {
+      checkAccountGate(res.status, payload);
       return { ok: false, status: res.status, error: payload || { message: 'Request failed' } };
     }
     return { ok: true, status: res.status, data: payload };
@@ -35,16 +120,16 @@ async function request(path: string, options: RequestInit = {}): Promise<ApiResp
 export async function apiPost(path: string, body: any) {
   return request(path, { method: 'POST', body: JSON.stringify(body) });
 }
-export async function apiGet(path: string) { 
-  return request(path, { method: 'GET' }); 
+export async function apiGet(path: string) {
+  return request(path, { method: 'GET' });
 }
 
-export async function apiPut(path: string, body: any) { 
-  return request(path, { method: 'PUT', body: JSON.stringify(body) }); 
+export async function apiPut(path: string, body: any) {
+  return request(path, { method: 'PUT', body: JSON.stringify(body) });
 }
 
-export async function apiDelete(path: string) { 
-  return request(path, { method: 'DELETE' }); 
+export async function apiDelete(path: string) {
+  return request(path, { method: 'DELETE' });
 }
 
 export async function apiPatch(path: string, body: any) {
@@ -55,18 +140,52 @@ export async function apiPatch(path: string, body: any) {
 
 export async function apiUpload(path: string, form: FormData) {
   try {
-    const token = (typeof window !== 'undefined') ? localStorage.getItem('celts_token') : null;
-    const headers: Record<string,string> = {};
-    if (token) headers['Authorization'] = `Bearer ${token}`;
-    const res = await fetch(API_BASE + path, { method: 'POST', body: form, headers, credentials: 'include' });
+    const res = await send(path, { method: 'POST', body: form });
     const text = await res.text();
     let payload = null;
     try { payload = text ? JSON.parse(text) : null; } catch { payload = text; }
-    if (!res.ok) return { ok: false, status: res.status, error: payload || { message: 'Upload failed' } };
+    if (!res.ok) {
+      checkAccountGate(res.status, payload);
+      return { ok: false, status: res.status, error: payload || { message: 'Upload failed' } };
+    }
     return { ok: true, status: res.status, data: payload };
   } catch (err: any) {
     return { ok: false, status: null, error: { message: err.message || 'Network error' } };
   }
 }
 
-export default { apiGet, apiPost, apiPut, apiDelete, apiUpload, apiPatch };
+// File responses (exports): saved under the name the server gives, or `fallbackName`
+export async function apiDownload(path: string, fallbackName = 'download') {
+  try {
+    const res = await send(path, { method: 'GET' });
+    if (!res.ok) {
+      const text = await res.text();
+      let payload = null;
+      try { payload = text ? JSON.parse(text) : null; } catch { payload = text; }
+      checkAccountGate(res.status, payload);
+      return { ok: false, status: res.status, error: payload || { message: 'Download failed' } };
+    }
+    const blob = await res.blob();
+    const named = /filename="?([^";]+)"?/.exec(res.headers.get('Content-Disposition') || '');
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = named ? named[1] : fallbackName;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+    return { ok: true, status: res.status };
+  } catch (err: any) {
+    return { ok: false, status: null, error: { message: err.message || 'Network error' } };
+  }
+}
+
+export async function logout() {
+  try {
+    await fetch(API_BASE + '/auth/logout', { method: 'POST', credentials: 'include', headers: CLIENT_HEADERS });
+  } catch { }
+  if (typeof window !== 'undefined') localStorage.removeItem('celts_user');
+}
+
+export default { apiGet, apiPost, apiPut, apiDelete, apiUpload, apiDownload, apiPatch, logout };
@@ -0,0 +1,15 @@
+// Capabilities arrive with the signed-in user (celts_user) and are refreshed with
+// the session. The API enforces them; these helpers only decide what to show.
+export function storedCapabilities(): string[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const user = JSON.parse(localStorage.getItem('celts_user') || 'null');
+    return Array.isArray(user?.capabilities) ? user.capabilities : [];
+  } catch {
+    return [];
+  }
+}
+
+export function hasCapability(capability: string): boolean {
+  return storedCapabilities().includes(capability);
+}
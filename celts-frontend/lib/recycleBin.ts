@@ -0,0 +1,12 @@
+import api from './api';
+
+// Deleting a user, batch or test moves it to the recycle bin. Before confirming,
+// show what it is attached to (e.g. "This test has 214 submissions").
+export async function confirmSoftDelete(what: string, impactPath: string): Promise<boolean> {
+  const res = await api.apiGet(impactPath);
+  const summary: string[] = res.ok && Array.isArray(res.data?.summary) ? res.data.summary : [];
+  const lines = [`Delete ${what}?`];
+  if (summary.length) lines.push('', ...summary);
+  lines.push('', 'It will be moved to the recycle bin, where an admin can restore it until it is purged.');
+  return confirm(lines.join('\n'));
+}
@@ -0,0 +1,116 @@
+// Rich text in passages and question prompts: the Markdown subset described in
+// celts-backend/utils/richText.js (headings, **bold**, *italic*, lists, pipe
+// tables and ![description](url) images on a line of their own). Plain text is
+// valid rich text, so older tests render as they always did.
+
+export type RichInline = { text: string; bold?: boolean; italic?: boolean };
+
+export type RichBlock =
+  | { kind: 'heading'; level: 1 | 2 | 3; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'list'; ordered: boolean; items: string[] }
+  | { kind: 'table'; header: string[]; rows: string[][] }
+  | { kind: 'image'; url: string; description: string };
+
+const IMAGE = /!\[([^\]\n]*)\]\(([^)\s]*)(?:\s+"[^"\n]*")?\)/g;
+const IMAGE_LINE = /^\s*!\[([^\]\n]*)\]\(([^)\s]*)(?:\s+"[^"\n]*")?\)\s*$/;
+const HEADING = /^(#{1,3})\s+(.+)$/;
+const BULLET = /^\s*[-*]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const EMPHASIS = /\*\*(\S(?:[^*]*?\S)?)\*\*|\*(\S(?:[^*]*?\S)?)\*/g;
+
+export const isSafeImageUrl = (url: string) => /^(https?:\/\/[^\s"'<>]+|\/uploads\/[^\s"'<>]+)$/i.test(url);
+
+const cellsOf = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map((cell) => cell.trim());
+
+export function parseRichText(text: string): RichBlock[] {
+  const lines = String(text || '').replace(/\r\n?/g, '\n').split('\n');
+  const blocks: RichBlock[] = [];
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    if (paragraph.length) blocks.push({ kind: 'paragraph', text: paragraph.join('\n') });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line.trim()) {
+      endParagraph();
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    const image = IMAGE_LINE.exec(line);
+    if (heading) {
+      endParagraph();
+      blocks.push({ kind: 'heading', level: heading[1].length as 1 | 2 | 3, text: heading[2].trim() });
+    } else if (image && isSafeImageUrl(image[2])) {
+      endParagraph();
+      blocks.push({ kind: 'image', url: image[2], description: image[1].trim() });
+    } else if (TABLE_ROW.test(line) && TABLE_SEPARATOR.test(lines[i + 1] || '')) {
+      endParagraph();
+      const rows: string[][] = [];
+      let j = i + 2;
+      while (j < lines.length && TABLE_ROW.test(lines[j])) rows.push(cellsOf(lines[j++]));
+      blocks.push({ kind: 'table', header: cellsOf(line), rows });
+      i = j - 1;
+    } else if (BULLET.test(line) || NUMBERED.test(line)) {
+      endParagraph();
+      const ordered = !BULLET.test(line);
+      const pattern = ordered ? NUMBERED : BULLET;
+      const items: string[] = [];
+      let j = i;
+      let item: RegExpExecArray | null;
+      while (j < lines.length && (item = pattern.exec(lines[j]))) {
+        items.push(item[1]);
+        j++;
+      }
+      blocks.push({ kind: 'list', ordered, items });
+      i = j - 1;
+    } else {
+      paragraph.push(line);
+    }
+  }
+  endParagraph();
+  return blocks;
+}
+
+// **bold** and *italic* runs; images that are not on a line of their own read as their description
+export function parseInline(text: string): RichInline[] {
+  const source = text.replace(IMAGE, (_match, description: string) => description);
+  const parts: RichInline[] = [];
+  let last = 0;
+  for (const match of source.matchAll(EMPHASIS)) {
+    const at = match.index ?? 0;
+    if (at > last) parts.push({ text: source.slice(last, at) });
+    parts.push(match[1] !== undefined ? { text: match[1], bold: true } : { text: match[2], italic: true });
+    last = at + match[0].length;
+  }
+  if (last < source.length) parts.push({ text: source.slice(last) });
+  return parts;
+}
+
+// one line of plain text, for lists, labels and summaries
+export function richTextToPlain(text: string): string {
+  return parseRichText(text)
+    .map((block) => {
+      if (block.kind === 'image') return block.description ? `[${block.description}]` : '[image]';
+      if (block.kind === 'list') return block.items.join('; ');
+      if (block.kind === 'table') return [block.header, ...block.rows].map((row) => row.join(' | ')).join('; ');
+      return block.text;
+    })
+    .map((part) => parseInline(part).map((run) => run.text).join(''))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function richTextImages(text: string): { url: string; description: string }[] {
+  return parseRichText(text).flatMap((block) =>
+    block.kind === 'image' ? [{ url: block.url, description: block.description }] : []
+  );
+}